@@ -0,0 +1,5 @@
+import PeopleDirectory from "../../../components/people/PeopleDirectory";
+
+export default function PeoplePage() {
+  return <PeopleDirectory />;
+}
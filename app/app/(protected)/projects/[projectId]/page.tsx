@@ -1,12 +1,14 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useState, type ReactElement } from "react";
+import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
 import type {
   EmailRecord,
   EmailAttachmentRecord,
   ProjectRecord,
   ProjectTaskRecord,
+  RecordRevision,
   TimelineItemRecord,
   TimelineDependencyRecord,
   TimelineDependencyKind,
@@ -16,6 +18,8 @@ import type {
   ProjectMemberRole,
   TimelineLaneDefinition,
   ProjectSourceRecord,
+  EmailReplyDraftEdit,
+  ArtistTimelineConflict,
 } from "@kazador/shared";
 import {
   createProjectTask,
@@ -27,7 +31,11 @@ import {
   unlinkEmailFromProject,
   updateProject,
   updateProjectTask,
+  fetchProjectTaskHistory,
+  restoreProjectTaskRevision,
+  saveProjectAsTemplate,
   respondToApproval,
+  updateReplyDraftApproval,
   createCalendarEventForTimelineItem,
   updateCalendarEventForTimelineItem,
   connectCalendarSource,
@@ -46,8 +54,12 @@ import {
 import { createLaneDefinition } from "../../../../lib/laneDefinitionsClient";
 import { useAuth } from "../../../../components/AuthProvider";
 import { TimelineStudio } from "../../../../components/projects/TimelineStudio";
+import { TimelineImportWizard } from "../../../../components/projects/TimelineImportWizard";
 import ProjectFilesTab from "../../../../components/projects/FilesTab";
 import EnhancedInboxTab from "../../../../components/projects/EnhancedInboxTab";
+import ProjectActivityTab from "../../../../components/projects/ActivityTab";
+import { RevisionHistory } from "../../../../components/projects/RevisionHistory";
+import { ReplyDraftEditor } from "../../../../components/inbox/ReplyDraftEditor";
 
 const TABS = [
   { value: "overview", label: "Overview" },
@@ -57,6 +69,7 @@ const TABS = [
   { value: "files", label: "Files & Assets" },
   { value: "people", label: "People" },
   { value: "approvals", label: "Approvals" },
+  { value: "activity", label: "Activity" },
   { value: "settings", label: "Settings" },
 ] as const;
 
@@ -151,6 +164,9 @@ export default function ProjectHubPage() {
   const [settingsSaving, setSettingsSaving] = useState(false);
   const [settingsError, setSettingsError] = useState<string | null>(null);
   const [settingsSuccess, setSettingsSuccess] = useState<string | null>(null);
+  const [templateSaving, setTemplateSaving] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [templateSuccess, setTemplateSuccess] = useState<string | null>(null);
   const [calendarModalOpen, setCalendarModalOpen] = useState(false);
   const [calendarOptions, setCalendarOptions] = useState<CalendarSummaryDto[]>([]);
   const [calendarOptionsLoading, setCalendarOptionsLoading] = useState(false);
@@ -424,6 +440,12 @@ export default function ProjectHubPage() {
       if (Array.isArray(payload.dependencies) && (payload.dependencies as unknown[]).length > 0) {
         metadata.push(`${(payload.dependencies as unknown[]).length} dependencies`);
       }
+    } else if (approval.type === "email_reply_draft") {
+      title = typeof payload.subject === "string" ? (payload.subject as string) : "Reply draft";
+      subtitle = "AI reply draft";
+      if (typeof payload.to === "string") {
+        metadata.push(`To ${payload.to}`);
+      }
     } else {
       if (typeof payload.summary === "string") {
         metadata.push(payload.summary as string);
@@ -635,6 +657,19 @@ export default function ProjectHubPage() {
     }
   };
 
+  const loadTaskHistory = (task: ProjectTaskRecord) => {
+    if (!projectId || !accessToken) {
+      return Promise.resolve([] as Array<RecordRevision<ProjectTaskRecord>>);
+    }
+    return fetchProjectTaskHistory(projectId, task.id, accessToken);
+  };
+
+  const restoreTaskRevision = async (revision: RecordRevision<ProjectTaskRecord>) => {
+    if (!projectId || !accessToken) return;
+    await restoreProjectTaskRevision(projectId, revision.recordId, revision.id, accessToken);
+    await loadHub();
+  };
+
   const removeTimelineItem = async (itemId: string) => {
     if (!projectId || !accessToken) return;
     try {
@@ -757,6 +792,19 @@ export default function ProjectHubPage() {
     }
   };
 
+  const handleSaveReplyDraft = async (approvalId: string, edit: EmailReplyDraftEdit) => {
+    if (!accessToken) return;
+    setProcessingApprovalId(approvalId);
+    try {
+      await updateReplyDraftApproval(approvalId, edit, accessToken);
+      await loadHub();
+    } catch (err: any) {
+      setError(err?.message || "Failed to save reply draft");
+    } finally {
+      setProcessingApprovalId(null);
+    }
+  };
+
   const submitSettings = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!projectId || !accessToken || !project) return;
@@ -800,6 +848,37 @@ export default function ProjectHubPage() {
     }
   };
 
+  const submitSaveAsTemplate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!projectId || !accessToken) return;
+
+    const formElement = event.currentTarget;
+    const form = new FormData(formElement);
+    const name = String(form.get("templateName") || "").trim();
+    const description = String(form.get("templateDescription") || "").trim();
+
+    if (!name) {
+      setTemplateError("Template name cannot be empty");
+      return;
+    }
+
+    setTemplateSaving(true);
+    setTemplateError(null);
+    setTemplateSuccess(null);
+
+    try {
+      const created = await saveProjectAsTemplate(projectId, { name, description: description || null }, accessToken);
+      formElement.reset();
+      setTemplateSuccess(
+        `Saved “${created.template.name}” with ${created.items.length} timeline ${created.items.length === 1 ? "item" : "items"}`
+      );
+    } catch (err: any) {
+      setTemplateError(err?.message || "Failed to save template");
+    } finally {
+      setTemplateSaving(false);
+    }
+  };
+
   const loadCalendarOptions = useCallback(async () => {
     if (!accessToken) {
       setCalendarOptionsError("Sign in again to browse calendars.");
@@ -1191,6 +1270,8 @@ export default function ProjectHubPage() {
         </div>
       </div>
 
+      <ArtistConflictsPanel conflicts={hub.artistConflicts ?? []} projectId={project.id} />
+
       <div className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
         <h3 className="text-lg font-semibold text-gray-900">Project labels</h3>
         {project.labels && Object.keys(project.labels).length > 0 ? (
@@ -1236,6 +1317,7 @@ export default function ProjectHubPage() {
         onRequestCreateLane={openLaneCreator}
         calendarSources={calendarSources}
       />
+      <TimelineImportWizard projectId={projectId} accessToken={accessToken} onImported={loadHub} />
       {creatingLane ? (
         <form onSubmit={submitLaneCreation} className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
           <h3 className="text-lg font-semibold text-gray-900">Create timeline lane</h3>
@@ -1416,6 +1498,8 @@ export default function ProjectHubPage() {
                 onStatusChange={(status) => void updateTaskStatus(task, status)}
                 onLaneChange={(value) => void updateTaskLane(task, value)}
                 onRemove={() => void removeTask(task)}
+                onLoadHistory={() => loadTaskHistory(task)}
+                onRestoreRevision={restoreTaskRevision}
               />
             ))}
           </ul>
@@ -1471,6 +1555,21 @@ export default function ProjectHubPage() {
         approvals.map((approval) => {
           const summary = formatApprovalSummary(approval);
           const isProcessing = processingApprovalId === approval.id;
+          if (approval.type === "email_reply_draft") {
+            return (
+              <div key={approval.id} className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+                <p className="text-sm font-semibold uppercase tracking-wide text-gray-500">{summary.subtitle}</p>
+                <h3 className="mb-3 text-lg font-semibold text-gray-900">{summary.title}</h3>
+                <ReplyDraftEditor
+                  approval={approval}
+                  busy={isProcessing}
+                  onSave={handleSaveReplyDraft}
+                  onApprove={(approvalId) => handleApprovalAction(approvalId, "approve")}
+                  onDecline={(approvalId) => handleApprovalAction(approvalId, "decline")}
+                />
+              </div>
+            );
+          }
           return (
             <div key={approval.id} className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
               <div className="flex flex-wrap items-start justify-between gap-3">
@@ -1595,6 +1694,47 @@ export default function ProjectHubPage() {
         </div>
       </form>
 
+      <form onSubmit={submitSaveAsTemplate} className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+        <h3 className="text-lg font-semibold text-gray-900">Save as template</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Reuse this project’s timeline, tasks, lanes, dependencies and email rules for the next one. Dates are stored as
+          offsets from the project start. Manage saved templates in{" "}
+          <Link href="/settings/templates" className="font-medium text-gray-900 underline">
+            template settings
+          </Link>
+          .
+        </p>
+        <div className="mt-4 grid gap-4 md:grid-cols-2">
+          <label className="text-xs font-semibold uppercase text-gray-500">
+            Template name
+            <input
+              name="templateName"
+              defaultValue={project.name}
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              required
+            />
+          </label>
+          <label className="text-xs font-semibold uppercase text-gray-500">
+            Description
+            <input
+              name="templateDescription"
+              className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          </label>
+        </div>
+        {templateError ? <p className="mt-3 text-sm text-red-600">{templateError}</p> : null}
+        {templateSuccess ? <p className="mt-3 text-sm text-green-600">{templateSuccess}</p> : null}
+        <div className="mt-4 flex justify-end">
+          <button
+            type="submit"
+            disabled={templateSaving}
+            className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {templateSaving ? "Saving…" : "Save as template"}
+          </button>
+        </div>
+      </form>
+
       <section className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
         <div className="flex flex-wrap items-start justify-between gap-3">
           <div>
@@ -1854,6 +1994,7 @@ export default function ProjectHubPage() {
     files: renderFiles(),
     people: renderPeople(),
     approvals: renderApprovals(),
+    activity: <ProjectActivityTab projectId={projectId} accessToken={accessToken} onOpenTab={setActiveTab} />,
     settings: renderSettings(),
   };
 
@@ -2089,6 +2230,52 @@ export default function ProjectHubPage() {
   );
 }
 
+function ArtistConflictsPanel({ conflicts, projectId }: { conflicts: ArtistTimelineConflict[]; projectId: string }) {
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border border-rose-200 bg-white p-5 shadow-sm">
+      <h3 className="text-lg font-semibold text-gray-900">Conflicts with the artist&apos;s other projects</h3>
+      <ul className="mt-3 space-y-3 text-sm text-gray-700">
+        {conflicts.map((conflict) => (
+          <li key={conflict.id} className="rounded border border-gray-200 p-3">
+            <div className="flex items-start justify-between gap-3">
+              <p className="font-semibold text-gray-900">{conflict.message}</p>
+              <span
+                className={`rounded px-2 py-1 text-xs font-semibold ${
+                  conflict.severity === "error" ? "bg-rose-100 text-rose-700" : "bg-amber-100 text-amber-700"
+                }`}
+              >
+                {conflict.severity === "error" ? "Error" : "Warning"}
+              </span>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {conflict.items
+                .map((item) => `${item.title}${item.startsAt ? ` (${new Date(item.startsAt).toLocaleString()})` : ""}`)
+                .join(" • ")}
+            </p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {conflict.projects.map((entry) => (
+                <span
+                  key={entry.id}
+                  className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs ${
+                    entry.id === projectId ? "bg-gray-900 text-white" : "bg-gray-100 text-gray-700"
+                  }`}
+                >
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: entry.color ?? "#9ca3af" }} />
+                  {entry.name}
+                </span>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 function StatsCard({ title, value }: { title: string; value: number }) {
   return (
     <div className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
@@ -2435,60 +2622,81 @@ function TaskRow({
   onStatusChange,
   onLaneChange,
   onRemove,
+  onLoadHistory,
+  onRestoreRevision,
 }: {
   task: ProjectTaskRecord;
   lanes: TimelineLaneDefinition[];
   onStatusChange: (status: string) => void;
   onLaneChange: (laneId: string) => void;
   onRemove: () => void;
+  onLoadHistory: () => Promise<Array<RecordRevision<ProjectTaskRecord>>>;
+  onRestoreRevision: (revision: RecordRevision<ProjectTaskRecord>) => Promise<void>;
 }) {
+  const [showHistory, setShowHistory] = useState(false);
   const laneValue = task.laneId ?? "__none__";
   return (
-    <li className="flex flex-col gap-3 rounded border border-gray-200 p-3 text-sm text-gray-700 md:flex-row md:items-center md:justify-between">
-      <div>
-        <p className="font-semibold text-gray-900">{task.title}</p>
-        {task.description ? <p className="text-xs text-gray-500">{task.description}</p> : null}
-        <div className="mt-1 flex flex-wrap gap-3 text-xs text-gray-500">
-          <span>
-            Status:
-            <select
-              value={task.status}
-              onChange={(event) => onStatusChange(event.target.value)}
-              className="ml-1 rounded border border-gray-300 bg-white px-2 py-1 text-xs"
-            >
-              <option value="todo">To do</option>
-              <option value="in_progress">In progress</option>
-              <option value="waiting">Waiting</option>
-              <option value="done">Done</option>
-            </select>
-          </span>
-          {task.dueAt ? <span>Due {new Date(task.dueAt).toLocaleDateString()}</span> : null}
-          <span>Priority {task.priority ?? 0}</span>
-          <span>
-            Lane:
-            <select
-              value={laneValue}
-              onChange={(event) => onLaneChange(event.target.value)}
-              className="ml-1 rounded border border-gray-300 bg-white px-2 py-1 text-xs"
-            >
-              <option value="">Auto (rules)</option>
-              <option value="__none__">No lane</option>
-              {lanes.map((lane) => (
-                <option key={lane.id} value={lane.id}>
-                  {lane.name}
-                </option>
-              ))}
-            </select>
-          </span>
+    <li className="rounded border border-gray-200 p-3 text-sm text-gray-700">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <p className="font-semibold text-gray-900">{task.title}</p>
+          {task.description ? <p className="text-xs text-gray-500">{task.description}</p> : null}
+          <div className="mt-1 flex flex-wrap gap-3 text-xs text-gray-500">
+            <span>
+              Status:
+              <select
+                value={task.status}
+                onChange={(event) => onStatusChange(event.target.value)}
+                className="ml-1 rounded border border-gray-300 bg-white px-2 py-1 text-xs"
+              >
+                <option value="todo">To do</option>
+                <option value="in_progress">In progress</option>
+                <option value="waiting">Waiting</option>
+                <option value="done">Done</option>
+              </select>
+            </span>
+            {task.dueAt ? <span>Due {new Date(task.dueAt).toLocaleDateString()}</span> : null}
+            <span>Priority {task.priority ?? 0}</span>
+            <span>
+              Lane:
+              <select
+                value={laneValue}
+                onChange={(event) => onLaneChange(event.target.value)}
+                className="ml-1 rounded border border-gray-300 bg-white px-2 py-1 text-xs"
+              >
+                <option value="">Auto (rules)</option>
+                <option value="__none__">No lane</option>
+                {lanes.map((lane) => (
+                  <option key={lane.id} value={lane.id}>
+                    {lane.name}
+                  </option>
+                ))}
+              </select>
+            </span>
+          </div>
+        </div>
+        <div className="flex gap-2 self-start">
+          <button
+            type="button"
+            onClick={() => setShowHistory((value) => !value)}
+            className="rounded-md border border-gray-300 px-3 py-1 text-xs text-gray-600 hover:bg-gray-100"
+          >
+            {showHistory ? "Hide history" : "History"}
+          </button>
+          <button
+            type="button"
+            onClick={onRemove}
+            className="rounded-md border border-gray-300 px-3 py-1 text-xs text-gray-600 hover:bg-gray-100"
+          >
+            Remove
+          </button>
         </div>
       </div>
-      <button
-        type="button"
-        onClick={onRemove}
-        className="self-start rounded-md border border-gray-300 px-3 py-1 text-xs text-gray-600 hover:bg-gray-100"
-      >
-        Remove
-      </button>
+      {showHistory ? (
+        <div className="mt-3 border-t border-gray-100 pt-3">
+          <RevisionHistory load={onLoadHistory} onRestore={onRestoreRevision} reloadKey={task.updatedAt} />
+        </div>
+      ) : null}
     </li>
   );
 }
@@ -4,16 +4,20 @@ import { useEffect, useMemo, useState } from "react";
 import {
   createEmptyAutomationRule,
   type AutomationRule,
+  type AutomationRuleExecutionRecord,
   type AutomationTriggerType,
   type AutomationRuleInput,
   EMAIL_CATEGORY_OPTIONS,
 } from "@kazador/shared";
 import { useAuth } from "@/components/AuthProvider";
 import {
+  backtestAutomationRule,
   createAutomationRule,
   deleteAutomationRule,
+  fetchAutomationRuleRuns,
   fetchAutomationRules,
   updateAutomationRule,
+  type AutomationBacktestResponse,
 } from "@/lib/automationRulesClient";
 import ProjectEmailRulesSection from "./ProjectEmailRulesSection";
 
@@ -33,6 +37,34 @@ function buildInput(rule: AutomationRule): AutomationRuleInput {
   } satisfies AutomationRuleInput;
 }
 
+function formatRunTimestamp(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString();
+}
+
+function runStatusClass(status: string): string {
+  switch (status) {
+    case "succeeded":
+      return "bg-emerald-100 text-emerald-700";
+    case "failed":
+      return "bg-rose-100 text-rose-700";
+    default:
+      return "bg-gray-100 text-gray-600";
+  }
+}
+
+function describeRunInput(run: AutomationRuleExecutionRecord): string {
+  const input = run.payload.input ?? {};
+  if (typeof input.subject === "string") {
+    return `Email: ${input.subject || "(no subject)"}`;
+  }
+  if (typeof input.title === "string") {
+    return `Task: ${input.title}`;
+  }
+  return "Unknown input";
+}
+
 function isEmailTrigger(
   trigger: AutomationRule["trigger"]
 ): trigger is Extract<AutomationRule["trigger"], { type: "email_received" }> {
@@ -51,6 +83,14 @@ export default function AutomationSettingsPage() {
   const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
   const [draft, setDraft] = useState<AutomationRule>(() => cloneRule(createEmptyAutomationRule()));
   const [categorySearch, setCategorySearch] = useState("");
+  const [runLogRuleId, setRunLogRuleId] = useState<string | null>(null);
+  const [runs, setRuns] = useState<AutomationRuleExecutionRecord[]>([]);
+  const [runsLoading, setRunsLoading] = useState(false);
+  const [runsError, setRunsError] = useState<string | null>(null);
+  const [backtestDays, setBacktestDays] = useState(30);
+  const [backtest, setBacktest] = useState<AutomationBacktestResponse | null>(null);
+  const [backtestLoading, setBacktestLoading] = useState(false);
+  const [backtestError, setBacktestError] = useState<string | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -89,6 +129,8 @@ export default function AutomationSettingsPage() {
     setEditingRuleId(null);
     setDraft(cloneRule(createEmptyAutomationRule()));
     setFormOpen(true);
+    setBacktest(null);
+    setBacktestError(null);
     setSuccess(null);
     setError(null);
   };
@@ -97,11 +139,15 @@ export default function AutomationSettingsPage() {
     setEditingRuleId(rule.id);
     setDraft(cloneRule(rule));
     setFormOpen(true);
+    setBacktest(null);
+    setBacktestError(null);
     setSuccess(null);
     setError(null);
   };
 
   const handleCloseForm = () => {
+    setBacktest(null);
+    setBacktestError(null);
     setFormOpen(false);
     setEditingRuleId(null);
   };
@@ -185,6 +231,25 @@ export default function AutomationSettingsPage() {
     }
   };
 
+  const handleToggleRunLog = async (rule: AutomationRule) => {
+    if (runLogRuleId === rule.id) {
+      setRunLogRuleId(null);
+      return;
+    }
+    setRunLogRuleId(rule.id);
+    setRuns([]);
+    setRunsError(null);
+    setRunsLoading(true);
+    try {
+      const list = await fetchAutomationRuleRuns(rule.id, accessToken);
+      setRuns(list);
+    } catch (err) {
+      setRunsError(err instanceof Error ? err.message : "Failed to load run log");
+    } finally {
+      setRunsLoading(false);
+    }
+  };
+
   const handleDelete = async (rule: AutomationRule) => {
     if (!confirm(`Delete automation rule "${rule.name}"?`)) {
       return;
@@ -199,11 +264,7 @@ export default function AutomationSettingsPage() {
     }
   };
 
-  const handleSave = async () => {
-    setSaving(true);
-    setError(null);
-    setSuccess(null);
-
+  const buildDraftPayload = (): AutomationRuleInput => {
     const triggerPayload = isEmailTrigger(draft.trigger)
       ? {
           type: "email_received" as const,
@@ -221,11 +282,33 @@ export default function AutomationSettingsPage() {
           },
         };
 
-    const payload: AutomationRuleInput = {
+    return {
       ...buildInput(draft),
       trigger: triggerPayload,
       actions: draft.actions.map((action) => ({ type: action.type, params: action.params })),
     };
+  };
+
+  const handleBacktest = async () => {
+    setBacktestLoading(true);
+    setBacktestError(null);
+    try {
+      const result = await backtestAutomationRule({ rule: buildDraftPayload(), days: backtestDays }, accessToken);
+      setBacktest(result);
+    } catch (err) {
+      setBacktest(null);
+      setBacktestError(err instanceof Error ? err.message : "Failed to backtest rule");
+    } finally {
+      setBacktestLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    const payload = buildDraftPayload();
 
     try {
       if (editingRuleId) {
@@ -316,6 +399,13 @@ export default function AutomationSettingsPage() {
                     {rule.isEnabled ? "Enabled" : "Disabled"}
                   </button>
                   <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handleToggleRunLog(rule)}
+                      className="rounded-md border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100"
+                    >
+                      {runLogRuleId === rule.id ? "Hide runs" : "Run log"}
+                    </button>
                     <button
                       type="button"
                       onClick={() => openEditForm(rule)}
@@ -333,6 +423,50 @@ export default function AutomationSettingsPage() {
                   </div>
                 </div>
               </div>
+              {runLogRuleId === rule.id ? (
+                <div className="mt-4 border-t border-gray-100 pt-4">
+                  {runsLoading ? (
+                    <p className="text-xs text-gray-500">Loading run log…</p>
+                  ) : runsError ? (
+                    <p className="text-xs text-rose-600">{runsError}</p>
+                  ) : runs.length === 0 ? (
+                    <p className="text-xs text-gray-500">This rule has not run yet.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {runs.map((run) => (
+                        <li key={run.id} className="rounded-md border border-gray-100 bg-gray-50 px-3 py-2 text-xs text-gray-700">
+                          <div className="flex items-center justify-between gap-3">
+                            <span className="font-medium text-gray-900">{describeRunInput(run)}</span>
+                            <span className="flex items-center gap-2">
+                              <span className={`rounded-full px-2 py-0.5 font-semibold ${runStatusClass(run.status)}`}>
+                                {run.status}
+                              </span>
+                              <span className="text-gray-500">{formatRunTimestamp(run.executedAt)}</span>
+                            </span>
+                          </div>
+                          {run.payload.conditions && run.payload.conditions.length > 0 ? (
+                            <p className="mt-1 text-gray-500">
+                              Conditions:{" "}
+                              {run.payload.conditions
+                                .map((condition) => `${condition.field} ${condition.operator} ${String(condition.expected)} ${condition.passed ? "✓" : "✗"}`)
+                                .join(" · ")}
+                            </p>
+                          ) : null}
+                          {run.payload.actions && run.payload.actions.length > 0 ? (
+                            <p className="mt-1 text-gray-500">
+                              Actions:{" "}
+                              {run.payload.actions
+                                .map((action) => `${action.type} (${action.status})`)
+                                .join(" · ")}
+                            </p>
+                          ) : null}
+                          {run.error ? <p className="mt-1 text-rose-600">{run.error}</p> : null}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : null}
             </li>
           ))}
         </ul>
@@ -482,6 +616,103 @@ export default function AutomationSettingsPage() {
             </div>
           ) : null}
 
+          {isEmailTrigger(draft.trigger) ? (
+            <div className="mt-8 rounded-md border border-gray-200 bg-gray-50 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900">Dry run</h3>
+                  <p className="text-xs text-gray-500">
+                    Replay this rule against recent emails. Nothing is created, moved, or sent.
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <label className="flex items-center gap-2 text-gray-700">
+                    <span>Last</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={180}
+                      value={backtestDays}
+                      onChange={(event) => setBacktestDays(Math.max(1, Number(event.target.value) || 1))}
+                      className="h-9 w-20 rounded-md border border-gray-300 px-2 text-sm text-gray-900 shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
+                    />
+                    <span>days</span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={handleBacktest}
+                    disabled={backtestLoading}
+                    className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:text-gray-400"
+                  >
+                    {backtestLoading ? "Testing…" : "Test rule"}
+                  </button>
+                </div>
+              </div>
+
+              {backtestError ? <p className="mt-3 text-sm text-rose-600">{backtestError}</p> : null}
+
+              {backtest ? (
+                <div className="mt-4 text-xs text-gray-700">
+                  <p>
+                    {backtest.summary.processed} emails checked · {backtest.summary.triggered} triggered ·{" "}
+                    {backtest.summary.matched} matched all conditions
+                    {Object.entries(backtest.summary.actions).length > 0
+                      ? ` · ${Object.entries(backtest.summary.actions)
+                          .map(([type, count]) => `${count} × ${type}`)
+                          .join(", ")}`
+                      : ""}
+                    {backtest.summary.truncated ? " (stopped early; narrow the window for full results)" : ""}
+                  </p>
+                  {backtest.results.length === 0 ? (
+                    <p className="mt-2 text-gray-500">No emails in this window fire the trigger.</p>
+                  ) : (
+                    <ul className="mt-3 max-h-96 space-y-2 overflow-y-auto">
+                      {backtest.results.map((result) => (
+                        <li key={result.emailId} className="rounded border border-gray-200 bg-white p-3">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-gray-900">{result.subject || "(no subject)"}</span>
+                            <span
+                              className={`rounded-full px-2 py-0.5 font-medium ${
+                                result.matched ? "bg-emerald-100 text-emerald-700" : "bg-gray-100 text-gray-600"
+                              }`}
+                            >
+                              {result.matched ? "would run" : "skipped"}
+                            </span>
+                          </div>
+                          <p className="mt-1 text-gray-500">
+                            {result.fromName ?? result.fromEmail} · {result.category} ·{" "}
+                            {formatRunTimestamp(result.receivedAt)}
+                          </p>
+                          {result.conditions.length > 0 ? (
+                            <p className="mt-1 text-gray-500">
+                              {result.conditions
+                                .map(
+                                  (condition) =>
+                                    `${condition.field} ${condition.operator} ${String(condition.expected)} ${
+                                      condition.passed ? "✓" : "✗"
+                                    }`
+                                )
+                                .join(" · ")}
+                            </p>
+                          ) : null}
+                          {result.actions.map((action, index) => (
+                            <p
+                              key={`${result.emailId}-${index}`}
+                              className={action.blockedReason ? "mt-1 text-amber-700" : "mt-1 text-gray-700"}
+                            >
+                              {action.summary}
+                              {action.blockedReason ? ` — ${action.blockedReason}` : ""}
+                            </p>
+                          ))}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
           <div className="mt-8 flex items-center justify-end gap-3">
             <button
               type="button"
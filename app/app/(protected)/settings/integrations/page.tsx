@@ -1,16 +1,16 @@
 "use client";
 
+import CalendarFeedsCard from "@/components/settings/CalendarFeedsCard";
+import GmailAccountsCard from "@/components/settings/GmailAccountsCard";
 import GoogleIntegrationCard from "@/components/settings/GoogleIntegrationCard";
+import SlackIntegrationCard from "@/components/settings/SlackIntegrationCard";
 import {
   disconnectCalendarAccount,
   disconnectDriveAccount,
-  disconnectGmailAccount,
   fetchCalendarAccountStatus,
   fetchDriveAccountStatus,
-  fetchGmailAccountStatus,
   startCalendarOAuth,
   startDriveOAuth,
-  startGmailOAuth,
 } from "@/lib/supabaseClient";
 
 export default function IntegrationSettingsPage() {
@@ -19,7 +19,8 @@ export default function IntegrationSettingsPage() {
       <header className="mb-8 space-y-2">
         <h1 className="text-2xl font-semibold text-gray-900">Integrations</h1>
         <p className="text-sm text-gray-600">
-          Connect Google services so Kazador can sync files, email triage, and calendar holds for your projects.
+          Connect Google services so Kazador can sync files, email triage, and calendar holds for your projects, and
+          Slack to receive digests where your team already works.
         </p>
       </header>
 
@@ -41,22 +42,7 @@ export default function IntegrationSettingsPage() {
           }
         />
 
-        <GoogleIntegrationCard
-          title="Gmail"
-          description="Let Kazador ingest inbox activity, classify every message, and sync labels back to Gmail."
-          messageChannel="kazador-gmail"
-          fetchStatus={fetchGmailAccountStatus}
-          startOAuth={startGmailOAuth}
-          disconnect={disconnectGmailAccount}
-          connectLabel="Connect Gmail"
-          additionalDetails={
-            <ul className="list-disc space-y-1 pl-5 text-sm text-gray-600">
-              <li>Pull unread mail for AI triage and apply Kazador labels automatically.</li>
-              <li>Link key threads to projects and timelines.</li>
-              <li>Send templated replies and follow-ups directly from Kazador (coming soon).</li>
-            </ul>
-          }
-        />
+        <GmailAccountsCard />
 
         <GoogleIntegrationCard
           title="Google Calendar"
@@ -74,6 +60,10 @@ export default function IntegrationSettingsPage() {
             </ul>
           }
         />
+
+        <SlackIntegrationCard />
+
+        <CalendarFeedsCard />
       </div>
     </div>
   );
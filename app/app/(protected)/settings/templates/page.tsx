@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { ProjectTemplateItemRecord, ProjectTemplateRecord } from "@kazador/shared";
+import { useAuth } from "@/components/AuthProvider";
+import ProjectTemplateEditor from "@/components/settings/ProjectTemplateEditor";
+import { deleteProjectTemplate, fetchProjectTemplates } from "@/lib/supabaseClient";
+
+interface TemplateEntry {
+  template: ProjectTemplateRecord;
+  items: ProjectTemplateItemRecord[];
+}
+
+export default function ProjectTemplateSettingsPage() {
+  const { session, user } = useAuth();
+  const accessToken = session?.access_token ?? undefined;
+  const [templates, setTemplates] = useState<TemplateEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!accessToken) {
+      setError("You need to be signed in to manage templates.");
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchProjectTemplates(accessToken)
+      .then((list) => {
+        if (!cancelled) setTemplates(list);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load templates");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken]);
+
+  const builtIn = useMemo(() => templates.filter((entry) => entry.template.createdBy == null), [templates]);
+  const personal = useMemo(
+    () => templates.filter((entry) => entry.template.createdBy != null && entry.template.createdBy === user?.id),
+    [templates, user?.id]
+  );
+
+  const handleSaved = (template: ProjectTemplateRecord) => {
+    setTemplates((current) =>
+      current.map((entry) => (entry.template.id === template.id ? { ...entry, template } : entry))
+    );
+    setSuccess(`Saved “${template.name}” as version ${template.version}.`);
+  };
+
+  const handleDelete = async (template: ProjectTemplateRecord) => {
+    if (!window.confirm(`Delete the template “${template.name}”? Projects created from it are not affected.`)) {
+      return;
+    }
+    setDeletingId(template.id);
+    setError(null);
+    setSuccess(null);
+    try {
+      await deleteProjectTemplate(template.id, accessToken);
+      setTemplates((current) => current.filter((entry) => entry.template.id !== template.id));
+      if (selectedId === template.id) setSelectedId(null);
+      setSuccess(`Deleted template “${template.name}”.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to delete template");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-5xl px-6 py-10">
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900">Project templates</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Save a project as a template from its hub, then reuse its timeline, tasks, lanes and email rules when creating the
+          next one. Each edit is kept as a new version.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="mt-6 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+      ) : null}
+      {success ? (
+        <div className="mt-6 rounded-md border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-700">{success}</div>
+      ) : null}
+
+      {loading ? (
+        <p className="mt-8 text-sm text-gray-500">Loading templates…</p>
+      ) : (
+        <div className="mt-8 space-y-12">
+          <section>
+            <h2 className="text-lg font-semibold text-gray-900">Your templates</h2>
+            {personal.length === 0 ? (
+              <p className="mt-4 text-sm text-gray-500">
+                You haven’t saved any templates yet. Open a project and choose “Save as template”.
+              </p>
+            ) : (
+              <ul className="mt-4 space-y-3">
+                {personal.map(({ template, items }) => (
+                  <li key={template.id} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+                    <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                      <div>
+                        <p className="text-sm font-semibold text-gray-900">{template.name}</p>
+                        {template.description ? <p className="mt-1 text-sm text-gray-600">{template.description}</p> : null}
+                        <p className="mt-2 text-xs text-gray-500">
+                          Version {template.version} · {items.length} timeline {items.length === 1 ? "item" : "items"} · updated{" "}
+                          {new Date(template.updatedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 self-end md:self-auto">
+                        <button
+                          type="button"
+                          onClick={() => setSelectedId(selectedId === template.id ? null : template.id)}
+                          className="rounded-md border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100"
+                        >
+                          {selectedId === template.id ? "Close" : "Edit"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(template)}
+                          disabled={deletingId === template.id}
+                          className="rounded-md border border-red-300 px-3 py-1 text-xs font-medium text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          {deletingId === template.id ? "Deleting…" : "Delete"}
+                        </button>
+                      </div>
+                    </div>
+                    {selectedId === template.id ? (
+                      <div className="mt-4 border-t border-gray-100 pt-4">
+                        <ProjectTemplateEditor templateId={template.id} accessToken={accessToken} onSaved={handleSaved} />
+                      </div>
+                    ) : null}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <h2 className="text-lg font-semibold text-gray-900">Built-in templates</h2>
+            <p className="mt-1 text-sm text-gray-500">Shared with every manager and maintained with the workspace.</p>
+            {builtIn.length === 0 ? (
+              <p className="mt-4 text-sm text-gray-500">No built-in templates are available.</p>
+            ) : (
+              <ul className="mt-4 grid gap-4 md:grid-cols-2">
+                {builtIn.map(({ template, items }) => (
+                  <li key={template.id} className="rounded-lg border border-gray-200 bg-white p-4 shadow-sm">
+                    <p className="text-sm font-semibold text-gray-900">{template.name}</p>
+                    {template.description ? <p className="mt-1 text-sm text-gray-600">{template.description}</p> : null}
+                    <p className="mt-2 text-xs text-gray-500">
+                      {items.length} timeline {items.length === 1 ? "item" : "items"}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,18 +2,27 @@
 
 import { useCallback, useEffect, useMemo, useState, type ChangeEvent } from "react";
 import type {
+  ArtistTimelineConflict,
   ProjectRecord,
+  RecordRevision,
   TimelineDependencyRecord,
   TimelineItemRecord,
   TimelineItemStatus,
   TimelineLane,
   TimelineLaneDefinition,
 } from "@kazador/shared";
-import { detectTimelineConflicts } from "@kazador/shared";
+import { detectTimelineConflicts, findUnmatchedLocations } from "@kazador/shared";
 import { useAuth } from "../../../components/AuthProvider";
 import { TimelineStudio } from "../../../components/projects/TimelineStudio";
 import { TimelineCalendarView, type CalendarViewMode } from "../../../components/projects/TimelineCalendarView";
-import { fetchProjects, fetchTimelineExplorer, type ProjectListItem } from "../../../lib/supabaseClient";
+import { RevisionHistory } from "../../../components/projects/RevisionHistory";
+import {
+  fetchProjects,
+  fetchTimelineExplorer,
+  fetchTimelineItemHistory,
+  restoreTimelineItemRevision,
+  type ProjectListItem,
+} from "../../../lib/supabaseClient";
 
 type TimelineViewMode = "day" | "week" | "month" | "quarter";
 type PriorityBand = "HIGH" | "MEDIUM" | "LOW";
@@ -181,7 +190,7 @@ function isOverdue(item: TimelineItemRecord, now = Date.now()): boolean {
   return due < now;
 }
 
-function summarizeTimeline(items: TimelineItemRecord[]) {
+function summarizeTimeline(items: TimelineItemRecord[], dependencies: TimelineDependencyRecord[]) {
   const total = items.length;
   let completed = 0;
   let tentative = 0;
@@ -195,6 +204,7 @@ function summarizeTimeline(items: TimelineItemRecord[]) {
     bufferHours: 4,
     enableTravelTimeDetection: true,
     enableTimezoneWarnings: true,
+    dependencies,
   });
   return {
     total,
@@ -212,6 +222,7 @@ export default function TimelinePage() {
   const [projectProfile, setProjectProfile] = useState<ProjectRecord | null>(null);
   const [timelineItems, setTimelineItems] = useState<TimelineItemRecord[]>([]);
   const [dependencies, setDependencies] = useState<TimelineDependencyRecord[]>([]);
+  const [artistConflicts, setArtistConflicts] = useState<ArtistTimelineConflict[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -277,8 +288,10 @@ export default function TimelinePage() {
     items: TimelineItemRecord[];
     dependencies: TimelineDependencyRecord[];
     lanes?: TimelineLaneDefinition[];
+    artistConflicts?: ArtistTimelineConflict[];
   }) => {
     setTimelineItems(payload.items);
+    setArtistConflicts((payload.artistConflicts ?? []).filter((conflict) => conflict.crossProject));
     setDependencies(payload.dependencies);
     setProjectProfile(payload.project);
     if (payload.lanes !== undefined) {
@@ -594,6 +607,22 @@ export default function TimelinePage() {
     setTimelineItems((previous) => previous.filter((item) => item.id !== itemId));
   }, [accessToken, selectedProjectId]);
 
+  const handleRestoreRevision = useCallback(
+    async (revision: RecordRevision<TimelineItemRecord>) => {
+      if (!accessToken) {
+        throw new Error("Authentication required");
+      }
+      const item = await restoreTimelineItemRevision(revision.projectId, revision.recordId, revision.id, accessToken);
+      setTimelineItems((previous) =>
+        previous.some((existingItem) => existingItem.id === item.id)
+          ? previous.map((existingItem) => (existingItem.id === item.id ? item : existingItem))
+          : [...previous, item]
+      );
+      setSelectedItem(item);
+    },
+    [accessToken]
+  );
+
   const handleDrawerClose = () => {
     setDrawerMode(null);
     setSelectedItem(null);
@@ -754,7 +783,11 @@ export default function TimelinePage() {
     return viewMode as CalendarViewMode;
   }, [viewMode]);
 
-  const summary = useMemo(() => summarizeTimeline(filteredItems), [filteredItems]);
+  const summary = useMemo(
+    () => summarizeTimeline(filteredItems, filteredDependencies),
+    [filteredItems, filteredDependencies]
+  );
+  const unmatchedLocations = useMemo(() => findUnmatchedLocations(filteredItems), [filteredItems]);
   const rangeLabel = useMemo(() => {
     const formatter = new Intl.DateTimeFormat(undefined, {
       month: "short",
@@ -1037,6 +1070,24 @@ export default function TimelinePage() {
                 <div className="rounded-2xl border border-slate-800 bg-slate-950/70 p-4">
                   <dt className="text-xs uppercase tracking-wide text-slate-400">Conflicts</dt>
                   <dd className="mt-2 text-xl font-semibold text-rose-300">{summary.conflicts}</dd>
+                  {artistConflicts.length > 0 ? (
+                    <p
+                      className="mt-1 text-xs text-rose-200"
+                      title={artistConflicts
+                        .map((conflict) => `${conflict.message} (${conflict.projects.map((entry) => entry.name).join(", ")})`)
+                        .join("\n")}
+                    >
+                      +{artistConflicts.length} with other projects
+                    </p>
+                  ) : null}
+                  {unmatchedLocations.length > 0 ? (
+                    <p
+                      className="mt-1 text-xs text-amber-200"
+                      title={unmatchedLocations.map((entry) => `${entry.title}: ${entry.city}`).join("\n")}
+                    >
+                      {unmatchedLocations.length} {unmatchedLocations.length === 1 ? "city" : "cities"} not recognised
+                    </p>
+                  ) : null}
                 </div>
               </dl>
             </div>
@@ -1334,6 +1385,15 @@ export default function TimelinePage() {
                     </ul>
                   )}
                 </div>
+                <div className="space-y-2">
+                  <h4 className="text-xs uppercase tracking-wide text-slate-400">History</h4>
+                  <RevisionHistory
+                    variant="dark"
+                    reloadKey={`${selectedItem.id}:${selectedItem.updatedAt}`}
+                    load={() => fetchTimelineItemHistory(selectedItem.projectId, selectedItem.id, accessToken ?? undefined)}
+                    onRestore={handleRestoreRevision}
+                  />
+                </div>
               </div>
             ) : (
               <p className="mt-6 text-sm text-slate-400">Select an item to view full details.</p>
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { describeAuditLog, resolveActivityActorName } from "@kazador/shared";
+import { requireAdminUser } from "../../../../lib/adminAuth";
+import { createServerSupabaseClient } from "../../../../lib/serverSupabase";
+import { listAuditLogs, loadAuditActorNames, parseAuditLogFilters } from "../../../../lib/auditLog";
+
+/**
+ * GET /api/admin/audit
+ * Every audit entry across the workspace, newest first. Filters by projectId,
+ * userId, entity, action (`drive.*` matches a prefix) and a from/to range;
+ * pass the returned nextCursor back as `cursor` for the next page.
+ */
+export async function GET(request: Request) {
+  const adminResult = await requireAdminUser(request);
+
+  if (!adminResult.ok) {
+    return NextResponse.json({ error: adminResult.error }, { status: adminResult.status });
+  }
+
+  // Member-scoped reads only see project entries; admins need the whole log.
+  const serviceClientResult = createServerSupabaseClient();
+  if (!serviceClientResult.ok) {
+    return NextResponse.json({ error: serviceClientResult.error }, { status: 500 });
+  }
+
+  const supabase = serviceClientResult.supabase;
+  const { searchParams } = new URL(request.url);
+
+  const parsed = parseAuditLogFilters(searchParams);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const page = await listAuditLogs(supabase, { ...parsed.filters, projectId: searchParams.get("projectId") });
+    const actorNames = await loadAuditActorNames(supabase, page.logs);
+
+    const logs = page.logs.map((log) => {
+      const actorName = resolveActivityActorName(log.userId, actorNames);
+      return { ...log, actorName, ...describeAuditLog(log, actorName) };
+    });
+
+    return NextResponse.json({ logs, nextCursor: page.nextCursor });
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Failed to load audit log" }, { status: 500 });
+  }
+}
@@ -1,21 +1,15 @@
 import { NextResponse } from "next/server";
+import {
+  DEFAULT_CLASSIFICATION_PROMPT_SETTINGS,
+  classificationPromptSettingsEqual,
+  normalizeClassificationPromptSettings,
+} from "@kazador/shared";
 import { requireAdminUser } from "@/lib/adminAuth";
-
-interface ClassificationPromptSettings {
-  systemMessage: string;
-  userInstructions: string;
-  model: string;
-  temperature: number;
-  maxLabels: number;
-}
-
-const DEFAULT_SETTINGS: ClassificationPromptSettings = {
-  systemMessage: "",
-  userInstructions: "",
-  model: "gpt-4o-mini",
-  temperature: 0.4,
-  maxLabels: 3,
-};
+import { createServerSupabaseClient } from "@/lib/serverSupabase";
+import {
+  createClassificationPromptVersion,
+  listClassificationPromptVersions,
+} from "@/lib/classificationPrompts";
 
 export async function GET(request: Request) {
   const authResult = await requireAdminUser(request);
@@ -23,23 +17,23 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: authResult.error }, { status: authResult.status });
   }
 
-  const { supabase, user } = authResult;
-
-  try {
-    const { data, error } = await supabase
-      .from("user_preferences")
-      .select("classification_prompt_settings")
-      .eq("user_id", user.id)
-      .maybeSingle();
+  // Versions are only writable through the service role; see the migration.
+  const serviceClientResult = createServerSupabaseClient();
+  if (!serviceClientResult.ok) {
+    return NextResponse.json({ error: serviceClientResult.error }, { status: 500 });
+  }
 
-    if (error) {
-      console.error("Failed to load classification prompt settings:", error);
-      return NextResponse.json({ settings: DEFAULT_SETTINGS });
-    }
+  const supabase = serviceClientResult.supabase;
 
-    const settings = data?.classification_prompt_settings || DEFAULT_SETTINGS;
+  try {
+    const versions = await listClassificationPromptVersions(supabase);
+    const active = versions.find((version) => version.isActive) ?? null;
 
-    return NextResponse.json({ settings });
+    return NextResponse.json({
+      settings: active?.settings ?? DEFAULT_CLASSIFICATION_PROMPT_SETTINGS,
+      version: active?.version ?? null,
+      versions,
+    });
   } catch (err) {
     console.error("Unexpected error loading classification prompt settings:", err);
     return NextResponse.json(
@@ -55,7 +49,13 @@ export async function PUT(request: Request) {
     return NextResponse.json({ error: authResult.error }, { status: authResult.status });
   }
 
-  const { supabase, user } = authResult;
+  const serviceClientResult = createServerSupabaseClient();
+  if (!serviceClientResult.ok) {
+    return NextResponse.json({ error: serviceClientResult.error }, { status: 500 });
+  }
+
+  const supabase = serviceClientResult.supabase;
+  const { user } = authResult;
 
   let body: any;
   try {
@@ -64,34 +64,24 @@ export async function PUT(request: Request) {
     return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 });
   }
 
-  const settings = body?.settings;
-  if (!settings || typeof settings !== "object") {
+  if (!body?.settings || typeof body.settings !== "object") {
     return NextResponse.json({ error: "Settings object required" }, { status: 400 });
   }
 
+  const settings = normalizeClassificationPromptSettings(body.settings);
+
   try {
-    const { error } = await supabase
-      .from("user_preferences")
-      .upsert(
-        {
-          user_id: user.id,
-          classification_prompt_settings: settings,
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: "user_id",
-        }
-      );
+    const versions = await listClassificationPromptVersions(supabase);
+    const active = versions.find((version) => version.isActive) ?? null;
 
-    if (error) {
-      console.error("Failed to save classification prompt settings:", error);
-      return NextResponse.json(
-        { error: "Failed to save settings" },
-        { status: 500 }
-      );
+    // Saving unchanged settings should not add a version to the history
+    if (active && classificationPromptSettingsEqual(active.settings, settings)) {
+      return NextResponse.json({ success: true, settings: active.settings, version: active.version });
     }
 
-    return NextResponse.json({ success: true, settings });
+    const created = await createClassificationPromptVersion(supabase, { settings, createdBy: user.id });
+
+    return NextResponse.json({ success: true, settings: created.settings, version: created.version });
   } catch (err) {
     console.error("Unexpected error saving classification prompt settings:", err);
     return NextResponse.json(
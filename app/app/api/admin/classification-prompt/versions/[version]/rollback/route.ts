@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { requireAdminUser } from "@/lib/adminAuth";
+import { createServerSupabaseClient } from "@/lib/serverSupabase";
+import { rollbackClassificationPrompt } from "@/lib/classificationPrompts";
+
+export async function POST(
+  request: Request,
+  { params }: { params: { version: string } }
+) {
+  const authResult = await requireAdminUser(request);
+  if (!authResult.ok) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  const serviceClientResult = createServerSupabaseClient();
+  if (!serviceClientResult.ok) {
+    return NextResponse.json({ error: serviceClientResult.error }, { status: 500 });
+  }
+
+  const supabase = serviceClientResult.supabase;
+  const { user } = authResult;
+  const version = Number(params.version);
+
+  if (!Number.isInteger(version) || version <= 0) {
+    return NextResponse.json({ error: "Invalid version" }, { status: 400 });
+  }
+
+  try {
+    const restored = await rollbackClassificationPrompt(supabase, version, user.id);
+    if (!restored) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, settings: restored.settings, version: restored.version });
+  } catch (err) {
+    console.error("Unexpected error rolling back classification prompt:", err);
+    return NextResponse.json(
+      { error: "Failed to roll back settings" },
+      { status: 500 }
+    );
+  }
+}
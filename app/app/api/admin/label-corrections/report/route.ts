@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { computeLabelAccuracy } from "@kazador/shared";
+import { requireAdminUser } from "@/lib/adminAuth";
+import { createServerSupabaseClient } from "@/lib/serverSupabase";
+import { listLabelCorrectionsSince, parseReportDays } from "@/lib/labelCorrections";
+
+export async function GET(request: Request) {
+  const authResult = await requireAdminUser(request);
+  if (!authResult.ok) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  // Corrections are only readable by their owner; the report spans every user.
+  const serviceClientResult = createServerSupabaseClient();
+  if (!serviceClientResult.ok) {
+    return NextResponse.json({ error: serviceClientResult.error }, { status: 500 });
+  }
+
+  const supabase = serviceClientResult.supabase;
+  const days = parseReportDays(new URL(request.url).searchParams.get("days"));
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  try {
+    const corrections = await listLabelCorrectionsSince(supabase, since);
+
+    return NextResponse.json({
+      days,
+      correctionCount: corrections.length,
+      stats: computeLabelAccuracy(corrections),
+    });
+  } catch (err) {
+    console.error("Unexpected error building label accuracy report:", err);
+    return NextResponse.json(
+      { error: "Failed to load label accuracy report" },
+      { status: 500 }
+    );
+  }
+}
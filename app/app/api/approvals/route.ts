@@ -1,4 +1,9 @@
 import { NextResponse } from "next/server";
+import {
+  applyEmailReplyDraftEdit,
+  normalizeEmailReplyDraftPayload,
+  type EmailReplyDraftPayload,
+} from "@kazador/shared";
 import { requireAuthenticatedUser } from "../../../lib/serverAuth";
 import { assertProjectRole } from "../../../lib/projectAccess";
 import { applyApprovalAction } from "../../../lib/approvalActions";
@@ -10,6 +15,13 @@ interface ActionPayload {
   note?: string;
 }
 
+interface EditPayload {
+  approvalId: string;
+  to?: string;
+  subject?: string;
+  body?: string;
+}
+
 function formatError(message: string, status = 400) {
   return NextResponse.json({ error: message }, { status });
 }
@@ -45,24 +57,23 @@ export async function GET(request: Request) {
       return formatError(membershipError.message, 500);
     }
 
-    if (!membershipRows || membershipRows.length === 0) {
-      return NextResponse.json({ approvals: [] });
-    }
-
-    projectIds = membershipRows
+    projectIds = (membershipRows ?? [])
       .map((row) => row.project_id as string | null)
       .filter((value): value is string => Boolean(value));
   }
 
-  if (projectIds.length === 0) {
-    return NextResponse.json({ approvals: [] });
-  }
+  let query = supabase.from("approvals").select("*").order("created_at", { ascending: true });
 
-  let query = supabase
-    .from("approvals")
-    .select("*")
-    .in("project_id", projectIds)
-    .order("created_at", { ascending: true });
+  if (projectId) {
+    query = query.in("project_id", projectIds);
+  } else if (projectIds.length > 0) {
+    // Reply drafts for unlinked emails have no project and belong to whoever requested them.
+    query = query.or(
+      `project_id.in.(${projectIds.join(",")}),and(project_id.is.null,requested_by.eq.${user.id})`
+    );
+  } else {
+    query = query.is("project_id", null).eq("requested_by", user.id);
+  }
 
   if (statusFilter) {
     query = query.eq("status", statusFilter);
@@ -105,6 +116,83 @@ export async function POST(request: Request) {
     return NextResponse.json({ approval });
   } catch (err: any) {
     const message = err?.message ?? "Failed to process approval";
-    return formatError(message, 500);
+    return formatError(message, err?.status ?? 500);
+  }
+}
+
+/**
+ * Saves reviewer edits to a pending reply draft. Edits are written back into
+ * the approval payload so the draft created on approval matches them.
+ */
+export async function PATCH(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
   }
+
+  const { supabase, user } = authResult;
+
+  let payload: EditPayload;
+  try {
+    payload = (await request.json()) as EditPayload;
+  } catch (err) {
+    return formatError("Invalid JSON payload", 400);
+  }
+
+  if (!payload?.approvalId) {
+    return formatError("approvalId is required", 400);
+  }
+
+  const { data: approvalRow, error: fetchError } = await supabase
+    .from("approvals")
+    .select("*")
+    .eq("id", payload.approvalId)
+    .maybeSingle();
+
+  if (fetchError) {
+    return formatError(fetchError.message, 500);
+  }
+  if (!approvalRow) {
+    return formatError("Approval not found", 404);
+  }
+  if (approvalRow.type !== "email_reply_draft") {
+    return formatError("Only reply drafts can be edited", 400);
+  }
+  if (approvalRow.status !== "pending") {
+    return formatError("Approval has already been resolved", 409);
+  }
+
+  if (approvalRow.project_id) {
+    try {
+      await assertProjectRole(supabase, approvalRow.project_id as string, user.id, "editor");
+    } catch (err: any) {
+      return formatError(err?.message || "Forbidden", err?.status ?? 403);
+    }
+  } else if (approvalRow.requested_by !== user.id) {
+    return formatError("Forbidden", 403);
+  }
+
+  let draft: EmailReplyDraftPayload;
+  try {
+    draft = applyEmailReplyDraftEdit(
+      normalizeEmailReplyDraftPayload(approvalRow.payload),
+      { to: payload.to, subject: payload.subject, body: payload.body },
+      user.id
+    );
+  } catch (err: any) {
+    return formatError(err?.message || "Invalid draft edit", 400);
+  }
+
+  const { data: updatedRow, error: updateError } = await supabase
+    .from("approvals")
+    .update({ payload: { ...(approvalRow.payload ?? {}), ...draft }, updated_at: new Date().toISOString() })
+    .eq("id", payload.approvalId)
+    .select("*")
+    .maybeSingle();
+
+  if (updateError || !updatedRow) {
+    return formatError(updateError?.message ?? "Failed to save draft", 500);
+  }
+
+  return NextResponse.json({ approval: mapApprovalRow(updatedRow) });
 }
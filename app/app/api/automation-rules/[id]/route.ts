@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "@/lib/serverAuth";
+import { assertAutomationRuleProjectAccess } from "@/lib/automationEngine";
 import {
   normalizeAutomationRuleInput,
   type AutomationRule,
@@ -121,6 +122,12 @@ export async function PUT(request: Request, { params }: { params: { id: string }
   const payload = (body?.rule ?? body ?? {}) as AutomationRuleInput;
   const normalized = normalizeAutomationRuleInput({ ...payload, id: params.id });
 
+  try {
+    await assertAutomationRuleProjectAccess(supabase, user.id, normalized.actions);
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Forbidden" }, { status: err?.status ?? 403 });
+  }
+
   const timestamp = new Date().toISOString();
 
   const { data, error } = await supabase
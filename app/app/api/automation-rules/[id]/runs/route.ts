@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "@/lib/serverAuth";
+import { mapAutomationRuleExecutionRow } from "@kazador/shared";
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  const { supabase, user } = authResult;
+  const { searchParams } = new URL(request.url);
+  const limitParam = Number(searchParams.get("limit"));
+  const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, MAX_LIMIT) : DEFAULT_LIMIT;
+  const statusFilter = searchParams.get("status");
+
+  const { data: ruleRow, error: ruleError } = await supabase
+    .from("automation_rules")
+    .select("id")
+    .eq("id", params.id)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (ruleError) {
+    return NextResponse.json({ error: ruleError.message }, { status: 500 });
+  }
+  if (!ruleRow) {
+    return NextResponse.json({ error: "Automation rule not found" }, { status: 404 });
+  }
+
+  let query = supabase
+    .from("automation_rule_executions")
+    .select("*")
+    .eq("rule_id", params.id)
+    .eq("user_id", user.id)
+    .order("executed_at", { ascending: false })
+    .limit(limit);
+
+  if (statusFilter) {
+    query = query.eq("status", statusFilter);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ runs: (data ?? []).map(mapAutomationRuleExecutionRow) });
+}
@@ -0,0 +1,197 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "@/lib/serverAuth";
+import {
+  mapAutomationRuleRow,
+  normalizeAutomationRuleInput,
+  planAutomationRule,
+  type AutomationConditionResult,
+  type AutomationEvent,
+  type AutomationRuleRow,
+  type AutomationPlannedAction,
+  type AutomationRule,
+  type AutomationRuleInput,
+  type EmailRecord,
+} from "@kazador/shared";
+import { EMAIL_SELECT_COLUMNS, enrichEmailRecords, mapEmailRow } from "../../emails/utils";
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 180;
+const CHUNK_SIZE = 200;
+const MAX_EMAILS = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface BacktestEmailResult {
+  emailId: string;
+  subject: string;
+  fromName: string | null;
+  fromEmail: string;
+  category: string;
+  receivedAt: string;
+  matched: boolean;
+  conditions: AutomationConditionResult[];
+  actions: AutomationPlannedAction[];
+}
+
+function toAutomationEvent(email: EmailRecord): AutomationEvent {
+  return {
+    type: "email_received",
+    email: {
+      id: email.id,
+      subject: email.subject,
+      fromName: email.fromName,
+      fromEmail: email.fromEmail,
+      category: email.category,
+      labels: email.labels ?? [],
+      summary: email.summary ?? null,
+      priorityScore: email.priorityScore ?? null,
+      triageState: email.triageState ?? null,
+      receivedAt: email.receivedAt,
+      hasAttachments: Boolean(email.hasAttachments),
+      projectIds: (email.linkedProjects ?? []).map((project) => project.projectId),
+    },
+  };
+}
+
+export async function POST(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  const { supabase, user } = authResult;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  let rule: AutomationRule;
+  if (body?.rule) {
+    rule = normalizeAutomationRuleInput(body.rule as AutomationRuleInput);
+  } else if (typeof body?.ruleId === "string" && body.ruleId) {
+    const { data, error } = await supabase
+      .from("automation_rules")
+      .select("*")
+      .eq("id", body.ruleId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Automation rule not found" }, { status: 404 });
+    }
+    rule = mapAutomationRuleRow(data as AutomationRuleRow);
+  } else {
+    return NextResponse.json({ error: "rule or ruleId is required" }, { status: 400 });
+  }
+
+  if (rule.trigger.type !== "email_received") {
+    return NextResponse.json(
+      { error: "Only email_received rules can be backtested against historical emails" },
+      { status: 400 }
+    );
+  }
+
+  const daysParam = Number(body?.days);
+  const days = Number.isFinite(daysParam) && daysParam > 0 ? Math.min(Math.floor(daysParam), MAX_DAYS) : DEFAULT_DAYS;
+  const to = new Date();
+  const from = new Date(to.getTime() - days * DAY_MS);
+
+  const { data: laneRows, error: laneError } = await supabase
+    .from("lane_definitions")
+    .select("id, slug, name")
+    .or(`user_id.eq.${user.id},user_id.is.null`);
+
+  if (laneError) {
+    return NextResponse.json({ error: laneError.message }, { status: 500 });
+  }
+
+  const laneKeys = new Set<string>();
+  for (const lane of laneRows ?? []) {
+    laneKeys.add(String(lane.id));
+    if (lane.slug) laneKeys.add(String(lane.slug).toUpperCase());
+    if (lane.name) laneKeys.add(String(lane.name).toUpperCase());
+  }
+
+  const results: BacktestEmailResult[] = [];
+  const actionCounts: Record<string, number> = {};
+  let processed = 0;
+  let triggered = 0;
+  let matched = 0;
+  let truncated = false;
+  let offset = 0;
+
+  while (processed < MAX_EMAILS) {
+    const { data, error } = await supabase
+      .from("emails")
+      .select(EMAIL_SELECT_COLUMNS)
+      .eq("user_id", user.id)
+      .gte("received_at", from.toISOString())
+      .order("received_at", { ascending: false })
+      .range(offset, offset + CHUNK_SIZE - 1);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const rows = data ?? [];
+    if (rows.length === 0) {
+      break;
+    }
+
+    const emails = await enrichEmailRecords(supabase, user.id, rows.map(mapEmailRow));
+
+    for (const email of emails) {
+      processed += 1;
+      const plan = planAutomationRule(rule, toAutomationEvent(email));
+      if (!plan.triggered) continue;
+      triggered += 1;
+
+      if (plan.matched) {
+        matched += 1;
+        for (const action of plan.actions) {
+          if (action.type === "assign_timeline_lane" && action.blockedReason == null) {
+            const laneKey = String(action.params.laneId ?? action.params.lane ?? "").trim();
+            if (!laneKeys.has(laneKey) && !laneKeys.has(laneKey.toUpperCase())) {
+              action.blockedReason = `Lane "${laneKey}" not found`;
+            }
+          }
+          if (action.blockedReason == null) {
+            actionCounts[action.type] = (actionCounts[action.type] ?? 0) + 1;
+          }
+        }
+      }
+
+      results.push({
+        emailId: email.id,
+        subject: email.subject,
+        fromName: email.fromName,
+        fromEmail: email.fromEmail,
+        category: email.category,
+        receivedAt: email.receivedAt,
+        matched: plan.matched,
+        conditions: plan.conditions,
+        actions: plan.actions,
+      });
+    }
+
+    if (rows.length < CHUNK_SIZE) {
+      break;
+    }
+    offset += rows.length;
+    if (processed >= MAX_EMAILS) {
+      truncated = true;
+    }
+  }
+
+  return NextResponse.json({
+    rule: { id: rule.id, name: rule.name },
+    window: { from: from.toISOString(), to: to.toISOString(), days },
+    summary: { processed, triggered, matched, truncated, actions: actionCounts },
+    results,
+  });
+}
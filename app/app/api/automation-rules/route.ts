@@ -2,6 +2,7 @@ import { randomUUID } from "node:crypto";
 
 import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "@/lib/serverAuth";
+import { assertAutomationRuleProjectAccess } from "@/lib/automationEngine";
 import {
   normalizeAutomationRuleInput,
   type AutomationRule,
@@ -123,6 +124,12 @@ export async function POST(request: Request) {
   const ruleId = randomUUID();
   const normalized = normalizeAutomationRuleInput({ ...payload, id: ruleId });
 
+  try {
+    await assertAutomationRuleProjectAccess(supabase, user.id, normalized.actions);
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Forbidden" }, { status: err?.status ?? 403 });
+  }
+
   const { data, error } = await supabase
     .from("automation_rules")
     .insert(buildStorePayload({ ...normalized, id: ruleId }, user.id))
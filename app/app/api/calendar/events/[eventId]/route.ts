@@ -145,7 +145,7 @@ export async function PATCH(
     }
 
     if (body.ignore && eventRow.assigned_timeline_item_id) {
-      await deleteTimelineItem(supabase, eventRow.assigned_timeline_item_id as string, eventRow.assigned_project_id as string | null);
+      await deleteTimelineItem(supabase, eventRow.assigned_timeline_item_id as string, eventRow.assigned_project_id as string | null, user.id);
       await supabase
         .from("calendar_events")
         .update({ assigned_timeline_item_id: null })
@@ -248,7 +248,7 @@ export async function PATCH(
     }
   } else {
     if (eventRow.assigned_timeline_item_id) {
-      await deleteTimelineItem(supabase, eventRow.assigned_timeline_item_id as string, eventRow.assigned_project_id as string | null);
+      await deleteTimelineItem(supabase, eventRow.assigned_timeline_item_id as string, eventRow.assigned_project_id as string | null, user.id);
       assignedTimelineItemId = null;
     }
   }
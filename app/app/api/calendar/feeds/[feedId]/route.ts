@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "@/lib/serverAuth";
+import { mapCalendarFeedRow } from "@/lib/calendarFeeds";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = {
+  params: {
+    feedId: string;
+  };
+};
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * DELETE /api/calendar/feeds/:feedId
+ * Revokes a feed; its URL stops resolving immediately
+ */
+export async function DELETE(request: Request, { params }: Params) {
+  const auth = await requireAuthenticatedUser(request);
+  if (!auth.ok) {
+    return formatError(auth.error, auth.status);
+  }
+
+  const { supabase, user } = auth;
+
+  const { data: feedRow, error } = await supabase
+    .from("calendar_feeds")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", params.feedId)
+    .eq("user_id", user.id)
+    .is("revoked_at", null)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    return formatError(error.message, 500);
+  }
+  if (!feedRow) {
+    return formatError("Calendar feed not found", 404);
+  }
+
+  return NextResponse.json({ feed: { ...mapCalendarFeedRow(feedRow), url: null } });
+}
@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "@/lib/serverAuth";
+import { assertProjectRole } from "@/lib/projectAccess";
+import {
+  buildCalendarFeedUrl,
+  getCalendarFeedSecret,
+  mapCalendarFeedRow,
+  parseCalendarFeedInput,
+} from "@/lib/calendarFeeds";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+function resolveBaseUrl(request: Request): string {
+  return process.env.APP_BASE_URL || new URL(request.url).origin;
+}
+
+/**
+ * GET /api/calendar/feeds
+ * Lists the user's iCalendar feeds with their subscription URLs
+ */
+export async function GET(request: Request) {
+  const auth = await requireAuthenticatedUser(request);
+  if (!auth.ok) {
+    return formatError(auth.error, auth.status);
+  }
+
+  const { supabase, user } = auth;
+
+  const { data: feedRows, error } = await supabase
+    .from("calendar_feeds")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return formatError(error.message, 500);
+  }
+
+  const secret = getCalendarFeedSecret();
+  const baseUrl = resolveBaseUrl(request);
+  const feeds = (feedRows ?? []).map(mapCalendarFeedRow).map((feed) => ({
+    ...feed,
+    url: secret && !feed.revokedAt ? buildCalendarFeedUrl(baseUrl, feed.id, secret) : null,
+  }));
+
+  return NextResponse.json({ feeds, configured: Boolean(secret) });
+}
+
+/**
+ * POST /api/calendar/feeds
+ * Creates a project or cross-project feed
+ */
+export async function POST(request: Request) {
+  const auth = await requireAuthenticatedUser(request);
+  if (!auth.ok) {
+    return formatError(auth.error, auth.status);
+  }
+
+  const { supabase, user } = auth;
+
+  const secret = getCalendarFeedSecret();
+  if (!secret) {
+    return formatError("Calendar feeds are not configured", 500);
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return formatError("Invalid JSON body", 400);
+  }
+
+  const parsed = parseCalendarFeedInput(body);
+  if (!parsed.ok) {
+    return formatError(parsed.error, 400);
+  }
+
+  const { values } = parsed;
+  let name = values.name;
+
+  if (values.scope === "project" && values.projectId) {
+    try {
+      await assertProjectRole(supabase, values.projectId, user.id, "viewer");
+    } catch (err: any) {
+      const status = err?.status ?? 403;
+      return formatError(err?.message || "Forbidden", status);
+    }
+
+    if (!name) {
+      const { data: projectRow } = await supabase
+        .from("projects")
+        .select("name")
+        .eq("id", values.projectId)
+        .maybeSingle();
+      name = projectRow?.name ? `${projectRow.name} timeline` : "Project timeline";
+    }
+  }
+
+  const { data: feedRow, error } = await supabase
+    .from("calendar_feeds")
+    .insert({
+      user_id: user.id,
+      scope: values.scope,
+      project_id: values.projectId,
+      artist_id: values.artistId,
+      name: name ?? "All projects",
+      lanes: values.lanes,
+      statuses: values.statuses,
+    })
+    .select("*")
+    .single();
+
+  if (error || !feedRow) {
+    return formatError(error?.message || "Failed to create calendar feed", 500);
+  }
+
+  const feed = mapCalendarFeedRow(feedRow);
+  return NextResponse.json(
+    { feed: { ...feed, url: buildCalendarFeedUrl(resolveBaseUrl(request), feed.id, secret) } },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { normaliseTimelineItemStatus } from "@kazador/shared";
+import { createServerSupabaseClient } from "@/lib/serverSupabase";
+import { buildIcsEventFromTimelineItem, type IcsEventFields } from "@/lib/calendarMapper";
+import { buildIcsCalendar } from "@/lib/icsCalendar";
+import {
+  filterCalendarFeedItems,
+  getCalendarFeedSecret,
+  loadCalendarFeedContent,
+  mapCalendarFeedRow,
+  verifyCalendarFeedToken,
+} from "@/lib/calendarFeeds";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = {
+  params: {
+    token: string;
+  };
+};
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+function parseCsv(value: string | null): string[] {
+  return value ? value.split(",").map((entry) => entry.trim()).filter(Boolean) : [];
+}
+
+/**
+ * GET /api/calendar/ics/:token.ics
+ * Public subscription endpoint; the signed token is the only credential.
+ * `lanes` and `statuses` query parameters narrow the feed's saved filters.
+ */
+export async function GET(request: Request, { params }: Params) {
+  const secret = getCalendarFeedSecret();
+  if (!secret) {
+    return formatError("Calendar feeds are not configured", 500);
+  }
+
+  const feedId = verifyCalendarFeedToken(params.token, secret);
+  if (!feedId) {
+    return formatError("Calendar feed not found", 404);
+  }
+
+  const clientResult = createServerSupabaseClient();
+  if (!clientResult.ok) {
+    return formatError(clientResult.error, 500);
+  }
+  const { supabase } = clientResult;
+
+  const { data: feedRow, error: feedError } = await supabase
+    .from("calendar_feeds")
+    .select("*")
+    .eq("id", feedId)
+    .maybeSingle();
+
+  if (feedError) {
+    return formatError(feedError.message, 500);
+  }
+  if (!feedRow || feedRow.revoked_at) {
+    return formatError("Calendar feed not found", 404);
+  }
+
+  const feed = mapCalendarFeedRow(feedRow);
+
+  let content;
+  try {
+    content = await loadCalendarFeedContent(supabase, feed);
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load calendar feed", 500);
+  }
+  if (!content) {
+    return formatError("Calendar feed not found", 404);
+  }
+
+  const { searchParams, hostname } = new URL(request.url);
+  const items = filterCalendarFeedItems(content.items, {
+    lanes: parseCsv(searchParams.get("lanes")),
+    statuses: parseCsv(searchParams.get("statuses")).map((status) => normaliseTimelineItemStatus(status)),
+  });
+
+  const projectNames = new Map(content.projects.map((project) => [project.id, project.name]));
+  const prefixProject = feed.scope === "user" && content.projects.length > 1;
+  const events = items
+    .map((item) => {
+      const projectName = projectNames.get(item.projectId) ?? content.name;
+      const event = buildIcsEventFromTimelineItem(item, {
+        projectId: item.projectId,
+        calendarSummary: projectName,
+        uidDomain: hostname,
+      });
+      if (event && prefixProject) {
+        event.summary = `[${projectName}] ${event.summary}`;
+      }
+      return event;
+    })
+    .filter((event): event is IcsEventFields => Boolean(event));
+
+  const { error: touchError } = await supabase
+    .from("calendar_feeds")
+    .update({ last_accessed_at: new Date().toISOString() })
+    .eq("id", feed.id);
+  if (touchError) {
+    console.warn(`Failed to record access for calendar feed ${feed.id}`, touchError);
+  }
+
+  return new NextResponse(buildIcsCalendar({ name: content.name, events }), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${feed.id}.ics"`,
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+}
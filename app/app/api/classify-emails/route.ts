@@ -9,8 +9,10 @@ import {
   selectPrimaryCategory,
   heuristicLabels,
   calculateEmailInboxPriority,
+  createLlmProvider,
+  type LlmProvider,
   DEFAULT_PRIORITY_CONFIG,
-  normalizePriorityConfigInput,
+  resolveStoredPriorityConfig,
   EMAIL_FALLBACK_LABEL,
   normaliseEmailSentiment,
   DEFAULT_EMAIL_SENTIMENT,
@@ -25,6 +27,10 @@ import {
 } from "@kazador/shared";
 import type { EmailLabel } from "@kazador/shared";
 import { getGmailAccount, ensureGmailOAuthClient } from "@/lib/googleGmailClient";
+import { upsertContactFromEmail } from "@/lib/contactDirectory";
+import { loadActiveClassificationPrompt } from "@/lib/classificationPrompts";
+import { loadLabelCorrectionExamples } from "@/lib/labelCorrections";
+import { extractAndStoreBookingOffer } from "@/lib/bookingOffers";
 import { randomUUID } from "crypto";
 
 export const runtime = "nodejs";
@@ -373,10 +379,7 @@ export async function POST(request: Request) {
       console.error("Failed to load priority config", prefError);
     } else if (prefRow?.priority_config) {
       try {
-        priorityConfig = normalizePriorityConfigInput(
-          prefRow.priority_config as PriorityConfigInput,
-          DEFAULT_PRIORITY_CONFIG
-        );
+        priorityConfig = resolveStoredPriorityConfig(prefRow.priority_config as PriorityConfigInput);
       } catch (err) {
         console.error("Failed to parse priority config", err);
         priorityConfig = DEFAULT_PRIORITY_CONFIG;
@@ -385,7 +388,8 @@ export async function POST(request: Request) {
   }
 
   try {
-    gmailAccount = await getGmailAccount(supabase, { userId: requester.id });
+    const accountId = new URL(request.url).searchParams.get("accountId") ?? undefined;
+    gmailAccount = await getGmailAccount(supabase, { userId: requester.id, accountId });
   } catch (err: any) {
     return NextResponse.json({ error: err?.message || "Failed to load Gmail connection" }, { status: 500 });
   }
@@ -414,6 +418,23 @@ export async function POST(request: Request) {
     loadProjectRuleOverridesForUser(supabase, requester.id),
   ]);
 
+  let llmProvider: LlmProvider;
+  try {
+    llmProvider = createLlmProvider();
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "AI provider is not configured" }, { status: 500 });
+  }
+
+  const classificationPrompt = await loadActiveClassificationPrompt(supabase).catch((err) => {
+    console.error("Failed to load classification prompt settings", err);
+    return null;
+  });
+
+  const correctionExamples = await loadLabelCorrectionExamples(supabase, requester.id).catch((err) => {
+    console.error("Failed to load label corrections", err);
+    return [];
+  });
+
   try {
     const labelCache: Map<string, string> = new Map();
     let labelsLoaded = false;
@@ -532,15 +553,20 @@ export async function POST(request: Request) {
         let summary = typeof existingEmail?.summary === "string" ? existingEmail.summary.trim() : "";
         let labels = normaliseLabels(existingEmail?.labels ?? []);
         let sentiment: EmailSentiment = normaliseEmailSentiment(existingEmail?.sentiment ?? null);
+        let promptVersion: number | null | undefined;
 
         if (!summary || labels.length === 0 || !sentiment || sentiment.confidence === 0) {
           try {
-            const aiResult = await analyzeEmail({
-              subject,
-              body,
-              fromName,
-              fromEmail,
-            });
+            const aiResult = await analyzeEmail(
+              {
+                subject,
+                body,
+                fromName,
+                fromEmail,
+              },
+              { prompt: classificationPrompt?.settings ?? null, provider: llmProvider, examples: correctionExamples }
+            );
+            promptVersion = classificationPrompt?.version ?? null;
             summary = aiResult.summary;
             labels = normaliseLabels(aiResult.labels);
             sentiment = aiResult.sentiment;
@@ -586,19 +612,19 @@ export async function POST(request: Request) {
           { now: new Date(), config: priorityConfig }
         );
 
-        const { error: contactError } = await supabase
-          .from("contacts")
-          .upsert(
-            {
-              email: fromEmail,
-              name: fromName,
-              last_email_at: receivedAt,
-            },
-            { onConflict: "email" }
-          );
-
-        if (contactError) {
-          throw new Error(`Failed to upsert contact: ${contactError.message}`);
+        try {
+          await upsertContactFromEmail(supabase, {
+            userId: requester.id,
+            fromEmail,
+            fromName,
+            receivedAt,
+            body,
+            category,
+            labels,
+            isNewMessage: !existingEmail,
+          });
+        } catch (err: any) {
+          throw new Error(`Failed to upsert contact: ${err?.message ?? String(err)}`);
         }
 
         const { error: emailError } = await supabase
@@ -619,6 +645,9 @@ export async function POST(request: Request) {
               source: "gmail",
               priority_score: priorityScore,
               triage_state: triageState,
+              account_id: gmailAccount.id,
+              account_email: gmailAccount.accountEmail,
+              ...(promptVersion !== undefined ? { classification_prompt_version: promptVersion } : {}),
             },
             { onConflict: "id" }
           );
@@ -667,6 +696,19 @@ export async function POST(request: Request) {
           console.error(`Failed to apply project assignment rules for message ${msg.id}`, err);
         }
 
+        if (!existingEmail) {
+          try {
+            await extractAndStoreBookingOffer(supabase, llmProvider, {
+              emailId: msg.id,
+              userId: requester.id,
+              labels,
+              email: { subject, body, fromName, fromEmail },
+            });
+          } catch (err) {
+            console.error(`Failed to extract booking offer for message ${msg.id}`, err);
+          }
+        }
+
         processed.push({ id: msg.id, category, labels });
       } catch (err: any) {
         console.error(`Failed processing message ${msg.id}`, err);
@@ -0,0 +1,206 @@
+import { NextResponse } from "next/server";
+import { normaliseLabel, type ContactDetailRecord, type EmailTriageState } from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../../lib/serverAuth";
+import {
+  CONTACT_SELECT_COLUMNS,
+  isOwnedOrganisation,
+  mapContactRow,
+  parseContactInput,
+} from "../../../../lib/contactDirectory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const RECENT_EMAIL_LIMIT = 5;
+const LINKED_EMAIL_SCAN_LIMIT = 200;
+
+type Params = {
+  params: {
+    contactId: string;
+  };
+};
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  const { data: contactRow, error: contactError } = await supabase
+    .from("contacts")
+    .select(CONTACT_SELECT_COLUMNS)
+    .eq("id", params.contactId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (contactError) {
+    return formatError(contactError.message, 500);
+  }
+  if (!contactRow) {
+    return formatError("Contact not found", 404);
+  }
+
+  const contact = mapContactRow(contactRow);
+
+  // Project links are also filtered by membership, so a link made by someone
+  // else on a project the user has left does not show up.
+  const { data: emailRows, error: emailError } = await supabase
+    .from("emails")
+    .select("id, subject, received_at, category, triage_state")
+    .eq("user_id", user.id)
+    .eq("from_email", contact.email)
+    .order("received_at", { ascending: false })
+    .limit(LINKED_EMAIL_SCAN_LIMIT);
+
+  if (emailError) {
+    return formatError(emailError.message, 500);
+  }
+
+  const emails = emailRows ?? [];
+  let linkedProjects: ContactDetailRecord["linkedProjects"] = [];
+
+  if (emails.length > 0) {
+    const { data: linkRows, error: linkError } = await supabase
+      .from("project_email_links")
+      .select("project_id")
+      .in(
+        "email_id",
+        emails.map((row) => row.id as string)
+      );
+
+    if (linkError) {
+      return formatError(linkError.message, 500);
+    }
+
+    const linkedIds = Array.from(new Set((linkRows ?? []).map((row) => row.project_id as string)));
+    if (linkedIds.length > 0) {
+      const { data: membershipRows, error: membershipError } = await supabase
+        .from("project_members")
+        .select("project_id")
+        .eq("user_id", user.id)
+        .in("project_id", linkedIds);
+
+      if (membershipError) {
+        return formatError(membershipError.message, 500);
+      }
+
+      const visibleIds = (membershipRows ?? []).map((row) => row.project_id as string);
+      if (visibleIds.length > 0) {
+        const { data: projectRows, error: projectError } = await supabase
+          .from("projects")
+          .select("id, name, color")
+          .in("id", visibleIds)
+          .order("name", { ascending: true });
+
+        if (projectError) {
+          return formatError(projectError.message, 500);
+        }
+
+        linkedProjects = (projectRows ?? []).map((row) => ({
+          id: row.id as string,
+          name: row.name as string,
+          color: (row.color as string | null) ?? null,
+        }));
+      }
+    }
+  }
+
+  const detail: ContactDetailRecord = {
+    ...contact,
+    linkedProjects,
+    recentEmails: emails.slice(0, RECENT_EMAIL_LIMIT).map((row) => ({
+      id: row.id as string,
+      subject: (row.subject as string | null) ?? "(no subject)",
+      receivedAt: row.received_at as string,
+      category: normaliseLabel(row.category as string | null),
+      triageState: ((row.triage_state as EmailTriageState | null) ?? "unassigned") as EmailTriageState,
+    })),
+  };
+
+  return NextResponse.json({ contact: detail });
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return formatError("Invalid JSON payload", 400);
+  }
+
+  const parsed = parseContactInput(body);
+  if (!parsed.ok) {
+    return formatError(parsed.error ?? "Invalid contact", 400);
+  }
+  if ("email" in parsed.values) {
+    return formatError("Contact email cannot be changed", 400);
+  }
+  if (Object.keys(parsed.values).length === 0) {
+    return formatError("No changes provided", 400);
+  }
+
+  const organisationId = parsed.values.organisation_id as string | null | undefined;
+  if (organisationId) {
+    try {
+      if (!(await isOwnedOrganisation(supabase, user.id, organisationId))) {
+        return formatError("Organisation not found", 404);
+      }
+    } catch (err: any) {
+      return formatError(err?.message || "Failed to resolve organisation", 500);
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("contacts")
+    .update({ ...parsed.values, updated_at: new Date().toISOString() })
+    .eq("id", params.contactId)
+    .eq("user_id", user.id)
+    .select(CONTACT_SELECT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    return formatError(error.message, 500);
+  }
+  if (!data) {
+    return formatError("Contact not found", 404);
+  }
+
+  return NextResponse.json({ contact: mapContactRow(data) });
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  const { data, error } = await supabase
+    .from("contacts")
+    .delete()
+    .eq("id", params.contactId)
+    .eq("user_id", user.id)
+    .select("id");
+  if (error) {
+    return formatError(error.message, 500);
+  }
+  if (!data || data.length === 0) {
+    return formatError("Contact not found", 404);
+  }
+
+  return NextResponse.json({ success: true });
+}
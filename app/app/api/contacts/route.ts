@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server";
+import { isContactRole } from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../lib/serverAuth";
+import { toIlikePattern } from "../../../lib/postgrestFilters";
+import {
+  CONTACT_SELECT_COLUMNS,
+  ensureOrganisationForEmail,
+  isOwnedOrganisation,
+  mapContactRow,
+  parseContactInput,
+} from "../../../lib/contactDirectory";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function GET(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+  const { searchParams } = new URL(request.url);
+  const q = searchParams.get("q")?.trim() ?? "";
+  const role = searchParams.get("role");
+  const organisationId = searchParams.get("organisationId");
+  const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+  const perPage = Math.min(Math.max(Number(searchParams.get("perPage")) || 50, 1), 200);
+
+  let query = supabase
+    .from("contacts")
+    .select(CONTACT_SELECT_COLUMNS, { count: "exact" })
+    .eq("user_id", user.id)
+    .order("last_email_at", { ascending: false, nullsFirst: false })
+    .range((page - 1) * perPage, page * perPage - 1);
+
+  if (q) {
+    const pattern = toIlikePattern(q);
+    query = query.or(`name.ilike.${pattern},email.ilike.${pattern},company.ilike.${pattern}`);
+  }
+  if (role) {
+    if (!isContactRole(role)) {
+      return formatError("Unknown role", 400);
+    }
+    query = query.eq("role", role);
+  }
+  if (organisationId) {
+    query = query.eq("organisation_id", organisationId);
+  }
+
+  const { data, error, count } = await query;
+  if (error) {
+    return formatError(error.message, 500);
+  }
+
+  const total = count ?? 0;
+  const totalPages = total > 0 ? Math.ceil(total / perPage) : 0;
+
+  return NextResponse.json({
+    contacts: (data ?? []).map(mapContactRow),
+    pagination: { page, perPage, total, totalPages, hasMore: page < totalPages },
+  });
+}
+
+export async function POST(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return formatError("Invalid JSON payload", 400);
+  }
+
+  const parsed = parseContactInput(body, { requireEmail: true });
+  if (!parsed.ok) {
+    return formatError(parsed.error ?? "Invalid contact", 400);
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("contacts")
+    .select("id")
+    .eq("user_id", user.id)
+    .eq("email", parsed.values.email as string)
+    .maybeSingle();
+  if (existingError) {
+    return formatError(existingError.message, 500);
+  }
+  if (existing) {
+    return formatError("A contact with this email already exists", 409);
+  }
+
+  let organisationId = (parsed.values.organisation_id as string | null | undefined) ?? null;
+  try {
+    if (organisationId) {
+      if (!(await isOwnedOrganisation(supabase, user.id, organisationId))) {
+        return formatError("Organisation not found", 404);
+      }
+    } else {
+      organisationId = await ensureOrganisationForEmail(supabase, user.id, parsed.values.email as string);
+    }
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to resolve organisation", 500);
+  }
+
+  const { data, error } = await supabase
+    .from("contacts")
+    .insert({ ...parsed.values, user_id: user.id, organisation_id: organisationId })
+    .select(CONTACT_SELECT_COLUMNS)
+    .maybeSingle();
+
+  if (error || !data) {
+    return formatError(error?.message ?? "Failed to create contact", 500);
+  }
+
+  return NextResponse.json({ contact: mapContactRow(data) }, { status: 201 });
+}
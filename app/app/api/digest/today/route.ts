@@ -14,7 +14,7 @@ import {
   ensureDefaultLabelCoverage,
   normaliseLabels,
   normaliseLabel,
-  normalizePriorityConfigInput,
+  resolveStoredPriorityConfig,
   type DigestPayload,
   type UserPreferenceRecord,
   type ProjectDigestMetrics,
@@ -51,7 +51,7 @@ function mapPreferenceRow(row: any): UserPreferenceRecord {
   if (rawPriorityConfig) {
     try {
       const parsed = typeof rawPriorityConfig === "object" ? rawPriorityConfig : JSON.parse(String(rawPriorityConfig));
-      priorityConfig = normalizePriorityConfigInput(parsed);
+      priorityConfig = resolveStoredPriorityConfig(parsed);
       priorityConfigSource = "custom";
     } catch (err) {
       priorityConfig = DEFAULT_PRIORITY_CONFIG;
@@ -76,6 +76,7 @@ function mapPreferenceRow(row: any): UserPreferenceRecord {
     priorityConfig,
     priorityConfigSource,
     priorityConfigUpdatedAt,
+    includeWokenSnoozes: row.digest_include_woken_snoozes !== false,
     createdAt: String(row.created_at),
     updatedAt: String(row.updated_at ?? row.created_at),
   } satisfies UserPreferenceRecord;
@@ -134,4 +134,21 @@ describe("GET /api/email-stats", () => {
     expect(response.status).toBe(500);
     await expect(response.json()).resolves.toEqual({ error: "fail" });
   });
+
+  it("limits counts to one receiving mailbox", async () => {
+    const stub = createSupabaseStub({ data: [], error: null });
+
+    requireAuthenticatedUserSpy.mockResolvedValue({
+      ok: true,
+      supabase: stub.supabase,
+      user: { id: "user-123" },
+    } as any);
+
+    const response = await GET(
+      new Request("https://kazador.test/api/email-stats?scope=all&accountId=acct-bookings")
+    );
+
+    expect(response.status).toBe(200);
+    expect(stub.eqMock).toHaveBeenNthCalledWith(2, "account_id", "acct-bookings");
+  });
 });
@@ -21,6 +21,7 @@ export async function GET(request: Request) {
   const url = new URL(request.url);
   const scope = url.searchParams.get("scope");
   const sourceParam = url.searchParams.get("source");
+  const accountParam = url.searchParams.get("accountId");
   const includeRead = scope === "all";
   const normalisedSourceParam = sourceParam?.toLowerCase() ?? null;
   const KNOWN_SOURCES = new Set<EmailSource>(["gmail", "seeded", "manual", "unknown"]);
@@ -42,6 +43,10 @@ export async function GET(request: Request) {
     query = query.eq("source", sourceFilter);
   }
 
+  if (accountParam) {
+    query = query.eq("account_id", accountParam);
+  }
+
   const { data, error } = await query;
 
   if (error) {
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { buildBookingHoldApprovalPayload } from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../../lib/projectAccess";
+import { mapApprovalRow } from "../../../../../../lib/projectMappers";
+import { loadBookingOfferForEmail, mapBookingOfferRow } from "../../../../../../lib/bookingOffers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: {
+    emailId: string;
+  };
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * Queues a `timeline_item_from_email` approval that creates a LIVE_HOLD from
+ * the offer. The hold only lands on the timeline once the approval is accepted.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { emailId } = params;
+  if (!emailId) {
+    return formatError("Email id is required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  let offer;
+  try {
+    offer = await loadBookingOfferForEmail(supabase, user.id, emailId);
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load booking offer", 500);
+  }
+  if (!offer) {
+    return formatError("Booking offer not found", 404);
+  }
+  if (offer.status === "hold_requested" || offer.status === "hold_created") {
+    return formatError("A hold has already been requested for this offer", 409);
+  }
+  if (!offer.projectId) {
+    return formatError("Link the offer to a project before requesting a hold", 400);
+  }
+
+  try {
+    await assertProjectRole(supabase, offer.projectId, user.id, "editor");
+  } catch (err: any) {
+    return formatError(err?.message || "Forbidden", err?.status ?? 403);
+  }
+
+  const payload = buildBookingHoldApprovalPayload(offer, offer.projectId);
+  if (!payload) {
+    return formatError("Add a show date before requesting a hold", 400);
+  }
+
+  const { data: approvalRow, error: insertError } = await supabase
+    .from("approvals")
+    .insert({
+      project_id: offer.projectId,
+      type: "timeline_item_from_email",
+      status: "pending",
+      payload,
+      requested_by: user.id,
+      created_by: user.id,
+    })
+    .select("*")
+    .maybeSingle();
+
+  if (insertError || !approvalRow) {
+    return formatError(insertError?.message ?? "Failed to queue hold", 500);
+  }
+
+  const { data: offerRow, error: updateError } = await supabase
+    .from("booking_offers")
+    .update({ status: "hold_requested", approval_id: approvalRow.id, updated_at: new Date().toISOString() })
+    .eq("id", offer.id)
+    .select("*")
+    .maybeSingle();
+
+  if (updateError) {
+    return formatError(updateError.message, 500);
+  }
+
+  return NextResponse.json(
+    {
+      approval: mapApprovalRow(approvalRow),
+      offer: offerRow ? mapBookingOfferRow(offerRow) : offer,
+    },
+    { status: 201 }
+  );
+}
@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { BOOKING_OFFER_FIELD_KEYS, applyBookingOfferEdit } from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../lib/projectAccess";
+import { loadBookingOfferForEmail, mapBookingOfferRow } from "../../../../../lib/bookingOffers";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: {
+    emailId: string;
+  };
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const { emailId } = params;
+  if (!emailId) {
+    return formatError("Email id is required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    const offer = await loadBookingOfferForEmail(supabase, user.id, emailId);
+    return NextResponse.json({ offer });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load booking offer", 500);
+  }
+}
+
+/**
+ * Applies reviewer edits to the extracted offer. `fields` holds plain values
+ * keyed by field name; `projectId` relinks the offer (null unlinks it).
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  const { emailId } = params;
+  if (!emailId) {
+    return formatError("Email id is required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return formatError("Invalid JSON payload", 400);
+  }
+
+  let offer;
+  try {
+    offer = await loadBookingOfferForEmail(supabase, user.id, emailId);
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load booking offer", 500);
+  }
+  if (!offer) {
+    return formatError("Booking offer not found", 404);
+  }
+  if (offer.status === "hold_created") {
+    return formatError("Offer already has a hold on the timeline", 409);
+  }
+
+  const update: Record<string, unknown> = {};
+  const now = new Date().toISOString();
+
+  if (body?.fields !== undefined) {
+    if (!body.fields || typeof body.fields !== "object" || Array.isArray(body.fields)) {
+      return formatError("fields must be an object", 400);
+    }
+    const unknownKey = Object.keys(body.fields).find(
+      (key) => !(BOOKING_OFFER_FIELD_KEYS as readonly string[]).includes(key)
+    );
+    if (unknownKey) {
+      return formatError(`Unknown booking offer field: ${unknownKey}`, 400);
+    }
+    update.fields = applyBookingOfferEdit(offer.fields, body.fields);
+    update.edited_by = user.id;
+    update.edited_at = now;
+    if (offer.status === "extracted") {
+      update.status = "edited";
+    }
+  }
+
+  if (body?.projectId !== undefined) {
+    if (body.projectId !== null && typeof body.projectId !== "string") {
+      return formatError("projectId must be a string or null", 400);
+    }
+    if (body.projectId) {
+      try {
+        await assertProjectRole(supabase, body.projectId, user.id, "editor");
+      } catch (err: any) {
+        return formatError(err?.message || "Forbidden", err?.status ?? 403);
+      }
+    }
+    update.project_id = body.projectId || null;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return formatError("No booking offer changes provided", 400);
+  }
+
+  update.updated_at = now;
+
+  const { data, error } = await supabase
+    .from("booking_offers")
+    .update(update)
+    .eq("id", offer.id)
+    .eq("user_id", user.id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    return formatError(error.message, 500);
+  }
+  if (!data) {
+    return formatError("Booking offer not found", 404);
+  }
+
+  return NextResponse.json({ offer: mapBookingOfferRow(data) });
+}
@@ -0,0 +1,220 @@
+import { NextResponse } from "next/server";
+import {
+  buildReplySubject,
+  createLlmProvider,
+  generateEmailReplyDraft,
+  type EmailReplyDraftContext,
+  type EmailReplyDraftPayload,
+  type LlmProvider,
+} from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../lib/projectAccess";
+import { mapApprovalRow, mapAssetRow, mapTimelineItemRow } from "../../../../../lib/projectMappers";
+import { EMAIL_SELECT_COLUMNS, mapEmailRow } from "../../utils";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: {
+    emailId: string;
+  };
+}
+
+const CONTEXT_LIMIT = 8;
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+async function resolveProjectId(supabase: any, userId: string, emailId: string, requested: unknown) {
+  if (typeof requested === "string" && requested) {
+    return requested;
+  }
+
+  const { data: memberships, error: membershipError } = await supabase
+    .from("project_members")
+    .select("project_id")
+    .eq("user_id", userId);
+  if (membershipError) throw membershipError;
+
+  const projectIds = (memberships ?? []).map((row: any) => row.project_id as string).filter(Boolean);
+  if (projectIds.length === 0) return null;
+
+  const { data: links, error: linkError } = await supabase
+    .from("project_email_links")
+    .select("project_id, confidence")
+    .eq("email_id", emailId)
+    .in("project_id", projectIds)
+    .order("confidence", { ascending: false, nullsFirst: false })
+    .limit(1);
+  if (linkError) throw linkError;
+
+  return (links?.[0]?.project_id as string | undefined) ?? null;
+}
+
+/**
+ * Generates an AI reply for the email and queues it as an `email_reply_draft`
+ * approval. Nothing reaches Gmail until the approval is accepted, and even
+ * then only as a draft.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { emailId } = params;
+  if (!emailId) {
+    return formatError("Email id is required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  let body: any = {};
+  try {
+    body = await request.json();
+  } catch (err) {
+    body = {};
+  }
+
+  const { data: emailRow, error: emailError } = await supabase
+    .from("emails")
+    .select(EMAIL_SELECT_COLUMNS)
+    .eq("id", emailId)
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (emailError) {
+    return formatError(emailError.message, 500);
+  }
+  if (!emailRow) {
+    return formatError("Email not found", 404);
+  }
+
+  const email = mapEmailRow(emailRow);
+
+  let projectId: string | null;
+  try {
+    projectId = await resolveProjectId(supabase, user.id, emailId, body?.projectId);
+    if (projectId) {
+      await assertProjectRole(supabase, projectId, user.id, "editor");
+    }
+  } catch (err: any) {
+    return formatError(err?.message || "Forbidden", err?.status ?? 403);
+  }
+
+  const context: EmailReplyDraftContext = {
+    email: {
+      id: email.id,
+      subject: email.subject,
+      fromName: email.fromName,
+      fromEmail: email.fromEmail,
+      summary: email.summary ?? null,
+      category: email.category,
+      labels: email.labels ?? [],
+    },
+    project: null,
+    timeline: [],
+    assets: [],
+    senderName: null,
+  };
+
+  const [profileResult, projectResult, timelineResult, assetResult] = await Promise.all([
+    supabase.from("profiles").select("full_name").eq("id", user.id).maybeSingle(),
+    projectId ? supabase.from("projects").select("id, name").eq("id", projectId).maybeSingle() : null,
+    projectId
+      ? supabase
+          .from("timeline_entries")
+          .select("*")
+          .eq("project_id", projectId)
+          .or(`start_at.gte.${new Date().toISOString()},due_at.gte.${new Date().toISOString()}`)
+          .order("start_at", { ascending: true, nullsFirst: false })
+          .limit(CONTEXT_LIMIT)
+      : null,
+    projectId
+      ? supabase
+          .from("assets")
+          .select("*")
+          .eq("project_id", projectId)
+          .eq("is_canonical", true)
+          .order("modified_at", { ascending: false, nullsFirst: false })
+          .limit(CONTEXT_LIMIT)
+      : null,
+  ]);
+
+  context.senderName = (profileResult.data?.full_name as string | undefined) ?? null;
+  if (projectResult?.data) {
+    context.project = { id: projectResult.data.id as string, name: projectResult.data.name as string };
+  }
+  context.timeline = (timelineResult?.data ?? []).map(mapTimelineItemRow).map((item) => ({
+    id: item.id,
+    title: item.title,
+    type: item.type,
+    startsAt: item.startsAt,
+    dueAt: item.dueAt,
+    status: item.status,
+  }));
+  context.assets = (assetResult?.data ?? []).map(mapAssetRow).map((asset) => ({
+    id: asset.id,
+    title: asset.title,
+    canonicalCategory: asset.canonicalCategory,
+    url: asset.driveWebViewLink ?? asset.driveUrl,
+  }));
+
+  let llmProvider: LlmProvider;
+  try {
+    llmProvider = createLlmProvider();
+  } catch (err: any) {
+    return formatError(err?.message || "AI provider is not configured", 500);
+  }
+
+  let draftBody: string;
+  try {
+    draftBody = await generateEmailReplyDraft(context, llmProvider);
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to generate reply draft", 502);
+  }
+
+  const payload: EmailReplyDraftPayload = {
+    emailId: email.id,
+    userId: user.id,
+    accountId: email.accountId ?? null,
+    threadId: email.threadId ?? null,
+    projectId,
+    to: email.fromEmail,
+    subject: buildReplySubject(email.subject),
+    body: draftBody,
+    inReplyTo: email.messageId ?? null,
+    references: email.references ?? [],
+    context: {
+      summary: email.summary ?? null,
+      labels: email.labels ?? [],
+      timelineItemIds: context.timeline.map((item) => item.id),
+      assetIds: context.assets.map((asset) => asset.id),
+    },
+    generatedBody: draftBody,
+    editedAt: null,
+    editedBy: null,
+    gmailDraftId: null,
+  };
+
+  const { data: approvalRow, error: insertError } = await supabase
+    .from("approvals")
+    .insert({
+      project_id: projectId,
+      type: "email_reply_draft",
+      status: "pending",
+      payload,
+      requested_by: user.id,
+      created_by: user.id,
+    })
+    .select("*")
+    .maybeSingle();
+
+  if (insertError || !approvalRow) {
+    return formatError(insertError?.message ?? "Failed to queue reply draft", 500);
+  }
+
+  return NextResponse.json({ approval: mapApprovalRow(approvalRow) }, { status: 201 });
+}
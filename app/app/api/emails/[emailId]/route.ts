@@ -1,24 +1,17 @@
 import { NextResponse } from "next/server";
-import {
-  DEFAULT_PRIORITY_CONFIG,
-  calculateEmailInboxPriority,
-  normaliseLabel,
-  normaliseLabels,
-  ensureDefaultLabelCoverage,
-  normalizePriorityConfigInput,
-  type EmailTriageState,
-  type PriorityConfig,
-  type PriorityConfigInput,
-} from "@kazador/shared";
+import type { EmailLabel } from "@kazador/shared";
 import { requireAuthenticatedUser } from "../../../../lib/serverAuth";
-import { EMAIL_SELECT_COLUMNS, enrichEmailRecords, mapEmailRow } from "../utils";
-
-const VALID_TRIAGE_STATES: EmailTriageState[] = [
-  "unassigned",
-  "acknowledged",
-  "snoozed",
-  "resolved",
-];
+import { recordLabelCorrection } from "../../../../lib/labelCorrections";
+import {
+  EMAIL_SELECT_COLUMNS,
+  buildEmailTriageUpdate,
+  enrichEmailRecords,
+  loadEmailPriorityConfig,
+  mapEmailRow,
+  parseEmailLabelsInput,
+  parseEmailTriagePayload,
+  type EmailTriagePayload,
+} from "../utils";
 
 type Params = {
   params: {
@@ -26,88 +19,18 @@ type Params = {
   };
 };
 
-interface UpdateEmailPayload {
-  triageState?: EmailTriageState;
-  snoozedUntil?: string | null;
-  isRead?: boolean;
-}
-
-function parseUpdatePayload(body: unknown): UpdateEmailPayload {
-  if (!body || typeof body !== "object") {
-    throw new Error("Invalid payload");
-  }
-
-  const payload = body as Record<string, unknown>;
-  const result: UpdateEmailPayload = {};
-
-  if (payload.triageState != null) {
-    if (typeof payload.triageState !== "string") {
-      throw new Error("triageState must be a string");
-    }
-    const lower = payload.triageState.toLowerCase() as EmailTriageState;
-    if (!VALID_TRIAGE_STATES.includes(lower)) {
-      throw new Error("Invalid triageState value");
-    }
-    result.triageState = lower;
-  }
-
-  if (payload.snoozedUntil !== undefined) {
-    if (payload.snoozedUntil === null) {
-      result.snoozedUntil = null;
-    } else if (typeof payload.snoozedUntil === "string" && payload.snoozedUntil.trim().length > 0) {
-      const date = new Date(payload.snoozedUntil);
-      if (Number.isNaN(date.getTime())) {
-        throw new Error("Invalid snoozedUntil timestamp");
-      }
-      result.snoozedUntil = date.toISOString();
-    } else {
-      throw new Error("snoozedUntil must be a valid ISO timestamp or null");
-    }
-  }
-
-  if (payload.isRead !== undefined) {
-    if (typeof payload.isRead !== "boolean") {
-      throw new Error("isRead must be a boolean");
-    }
-    result.isRead = payload.isRead;
-  }
-
-  return result;
-}
-
-async function loadPriorityConfig(supabase: any, userId: string): Promise<PriorityConfig> {
-  const { data, error } = await supabase
-    .from("user_preferences")
-    .select("priority_config")
-    .eq("user_id", userId)
-    .maybeSingle();
-
-  if (error) {
-    console.error("Failed to load priority config", error);
-    return DEFAULT_PRIORITY_CONFIG;
-  }
-
-  if (!data?.priority_config) {
-    return DEFAULT_PRIORITY_CONFIG;
-  }
-
-  try {
-    return normalizePriorityConfigInput(data.priority_config as PriorityConfigInput, DEFAULT_PRIORITY_CONFIG);
-  } catch (err) {
-    console.error("Failed to parse priority config", err);
-    return DEFAULT_PRIORITY_CONFIG;
-  }
-}
-
 export async function PATCH(request: Request, { params }: Params) {
   const emailId = params.emailId;
   if (!emailId) {
     return NextResponse.json({ error: "Email id is required" }, { status: 400 });
   }
 
-  let payload: UpdateEmailPayload;
+  let payload: EmailTriagePayload;
+  let labels: EmailLabel[] | undefined;
   try {
-    payload = parseUpdatePayload(await request.json());
+    const body = await request.json();
+    payload = parseEmailTriagePayload(body);
+    labels = parseEmailLabelsInput(body);
   } catch (err: any) {
     return NextResponse.json({ error: err?.message || "Invalid payload" }, { status: 400 });
   }
@@ -115,7 +38,8 @@ export async function PATCH(request: Request, { params }: Params) {
   if (
     payload.triageState === undefined &&
     payload.snoozedUntil === undefined &&
-    payload.isRead === undefined
+    payload.isRead === undefined &&
+    labels === undefined
   ) {
     return NextResponse.json({ error: "No changes provided" }, { status: 400 });
   }
@@ -142,8 +66,6 @@ export async function PATCH(request: Request, { params }: Params) {
     return NextResponse.json({ error: "Email not found" }, { status: 404 });
   }
 
-  const existingEmail = mapEmailRow(existingRow);
-
   const { count: attachmentCount, error: attachmentError } = await supabase
     .from("email_attachments")
     .select("id", { count: "exact", head: true })
@@ -154,53 +76,18 @@ export async function PATCH(request: Request, { params }: Params) {
   }
 
   const hasAttachments = typeof attachmentCount === "number" ? attachmentCount > 0 : false;
+  const priorityConfig = await loadEmailPriorityConfig(supabase, user.id);
 
-  const nextTriageState = payload.triageState ?? existingEmail.triageState ?? "unassigned";
-  let nextSnoozedUntil: string | null;
-  if (payload.snoozedUntil !== undefined) {
-    nextSnoozedUntil = payload.snoozedUntil;
-  } else if (nextTriageState === "snoozed") {
-    nextSnoozedUntil = existingEmail.snoozedUntil ?? null;
-  } else {
-    nextSnoozedUntil = null;
-  }
-
-  if (nextTriageState === "snoozed" && !nextSnoozedUntil) {
-    return NextResponse.json({ error: "snoozedUntil is required when triageState is snoozed" }, { status: 400 });
+  const triageUpdate = buildEmailTriageUpdate(existingRow, payload, {
+    hasAttachments,
+    config: priorityConfig,
+    labels,
+  });
+  if (!triageUpdate.ok) {
+    return NextResponse.json({ error: triageUpdate.error }, { status: 400 });
   }
 
-  const nextIsRead = payload.isRead ?? (nextTriageState === "resolved" || nextTriageState === "acknowledged" ? true : existingEmail.isRead);
-
-  const labels = ensureDefaultLabelCoverage(normaliseLabels(existingRow.labels));
-  const category = normaliseLabel(existingRow.category);
-  const priorityConfig = await loadPriorityConfig(supabase, user.id);
-
-  const recalculatedPriority = calculateEmailInboxPriority(
-    {
-      category,
-      labels,
-      receivedAt: existingEmail.receivedAt,
-      isRead: nextIsRead,
-      triageState: nextTriageState,
-      snoozedUntil: nextSnoozedUntil,
-      fromEmail: existingEmail.fromEmail,
-      fromName: existingEmail.fromName,
-      subject: existingEmail.subject,
-      hasAttachments,
-    },
-    { config: priorityConfig }
-  );
-
-  const updatePayload: Record<string, unknown> = {
-    is_read: nextIsRead,
-    triage_state: nextTriageState,
-    snoozed_until: nextSnoozedUntil,
-    priority_score: recalculatedPriority,
-  };
-
-  if (nextTriageState !== existingEmail.triageState) {
-    updatePayload.triaged_at = new Date().toISOString();
-  }
+  const updatePayload = triageUpdate.update;
 
   const { data: updatedRow, error: updateError } = await supabase
     .from("emails")
@@ -219,6 +106,21 @@ export async function PATCH(request: Request, { params }: Params) {
   }
 
   const updatedEmail = mapEmailRow(updatedRow);
+
+  if (labels) {
+    // The relabel itself has succeeded; a failed correction record only costs a training example
+    try {
+      await recordLabelCorrection(supabase, {
+        email: mapEmailRow(existingRow),
+        userId: user.id,
+        correctedLabels: updatedEmail.labels ?? [],
+        correctedCategory: updatedEmail.category,
+      });
+    } catch (err) {
+      console.error("Failed to record label correction", err);
+    }
+  }
+
   const [enriched] = await enrichEmailRecords(supabase, user.id, [updatedEmail]);
 
   return NextResponse.json({ email: enriched ?? updatedEmail });
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { applyBookingOfferEdit, emptyBookingOfferFields } from "@kazador/shared";
+
+vi.mock("../../../../lib/serverAuth", () => ({
+  requireAuthenticatedUser: vi.fn(),
+}));
+
+vi.mock("../../../../lib/projectAccess", () => ({
+  assertProjectRole: vi.fn(async () => undefined),
+}));
+
+const { requireAuthenticatedUser } = await import("../../../../lib/serverAuth");
+const { POST } = await import("../[emailId]/booking-offer/hold/route");
+
+function createSupabaseStub(offerRow: Record<string, unknown>) {
+  const approvalInserts: Record<string, unknown>[] = [];
+  const offerUpdates: Record<string, unknown>[] = [];
+
+  const supabase = {
+    from: vi.fn((table: string) => {
+      if (table === "booking_offers") {
+        return {
+          select: vi.fn(() => ({
+            eq: vi.fn(() => ({
+              eq: vi.fn(() => ({
+                maybeSingle: vi.fn(async () => ({ data: offerRow, error: null })),
+              })),
+            })),
+          })),
+          update: vi.fn((payload: Record<string, unknown>) => {
+            offerUpdates.push(payload);
+            return {
+              eq: vi.fn(() => ({
+                select: vi.fn(() => ({
+                  maybeSingle: vi.fn(async () => ({ data: { ...offerRow, ...payload }, error: null })),
+                })),
+              })),
+            };
+          }),
+        };
+      }
+      if (table === "approvals") {
+        return {
+          insert: vi.fn((payload: Record<string, unknown>) => {
+            approvalInserts.push(payload);
+            return {
+              select: vi.fn(() => ({
+                maybeSingle: vi.fn(async () => ({
+                  data: { id: "approval-1", created_at: "2026-01-01T00:00:00.000Z", ...payload },
+                  error: null,
+                })),
+              })),
+            };
+          }),
+        };
+      }
+      throw new Error(`Unexpected table: ${table}`);
+    }),
+  };
+
+  return { supabase, approvalInserts, offerUpdates };
+}
+
+function buildOfferRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "offer-1",
+    user_id: "user-1",
+    email_id: "email-1",
+    project_id: "project-1",
+    kind: "offer",
+    status: "edited",
+    fields: applyBookingOfferEdit(emptyBookingOfferFields(), {
+      venue: "Fabric",
+      city: "London",
+      showDates: ["2026-05-10"],
+    }),
+    created_at: "2026-01-01T00:00:00.000Z",
+    updated_at: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function callRoute() {
+  return POST(new Request("http://localhost/api/emails/email-1/booking-offer/hold", { method: "POST" }), {
+    params: { emailId: "email-1" },
+  });
+}
+
+describe("POST /api/emails/[emailId]/booking-offer/hold", () => {
+  beforeEach(() => {
+    vi.mocked(requireAuthenticatedUser).mockReset();
+  });
+
+  it("queues a LIVE_HOLD approval and marks the offer as awaiting it", async () => {
+    const stub = createSupabaseStub(buildOfferRow());
+    vi.mocked(requireAuthenticatedUser).mockResolvedValue({
+      ok: true,
+      supabase: stub.supabase,
+      user: { id: "user-1" },
+    } as any);
+
+    const response = await callRoute();
+    const body = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(stub.approvalInserts[0]).toMatchObject({
+      project_id: "project-1",
+      type: "timeline_item_from_email",
+      payload: { type: "LIVE_HOLD", title: "Hold: Fabric, London", metadata: { bookingOfferId: "offer-1" } },
+    });
+    expect(stub.offerUpdates[0]).toMatchObject({ status: "hold_requested", approval_id: "approval-1" });
+    expect(body.offer.status).toBe("hold_requested");
+  });
+
+  it("rejects offers without a show date", async () => {
+    const stub = createSupabaseStub(buildOfferRow({ fields: emptyBookingOfferFields() }));
+    vi.mocked(requireAuthenticatedUser).mockResolvedValue({
+      ok: true,
+      supabase: stub.supabase,
+      user: { id: "user-1" },
+    } as any);
+
+    const response = await callRoute();
+
+    expect(response.status).toBe(400);
+    expect(stub.approvalInserts).toHaveLength(0);
+  });
+});
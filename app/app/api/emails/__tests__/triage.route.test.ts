@@ -69,6 +69,10 @@ function createSupabaseStub() {
       if (payload.triaged_at != null) {
         updatedRow.triaged_at = payload.triaged_at;
       }
+      if (payload.labels !== undefined) {
+        updatedRow.labels = payload.labels;
+        updatedRow.category = payload.category;
+      }
 
       return {
         eq: vi.fn(() => ({
@@ -111,8 +115,13 @@ function createSupabaseStub() {
     })),
   };
 
+  const correctionsTable = {
+    insert: vi.fn(async () => ({ error: null })),
+  };
+
   const tableMap: Record<string, any> = {
     emails: emailsTable,
+    email_label_corrections: correctionsTable,
     user_preferences: userPreferencesTable,
     email_attachments: attachmentsTable,
     project_members: projectMembersTable,
@@ -134,6 +143,7 @@ function createSupabaseStub() {
     existingRow,
     updatedRow,
     emailsTable,
+    correctionsTable,
     getLastUpdatePayload: () => lastUpdatePayload,
   };
 }
@@ -178,6 +188,36 @@ describe("PATCH /api/emails/[emailId]", () => {
     expect(updatePayload?.priority_score).toBeTypeOf("number");
   });
 
+  it("relabels the email and records the correction", async () => {
+    const { PATCH } = await importRoute();
+
+    const request = new Request("https://kazador.test/api/emails/email-1", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ labels: ["LOGISTICS/Travel", "artist/Barry_Cant_Swim"] }),
+    });
+
+    const response = await PATCH(request, { params: { emailId: "email-1" } });
+
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload.email.category).toBe("LOGISTICS/Travel");
+    expect(payload.email.labels).toContain("artist/Barry_Cant_Swim");
+
+    const updatePayload = supabaseStub.getLastUpdatePayload();
+    expect(updatePayload?.category).toBe("LOGISTICS/Travel");
+
+    expect(supabaseStub.correctionsTable.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email_id: "email-1",
+        user_id: "user-1",
+        original_labels: ["BOOKING/Offer"],
+        original_category: "BOOKING/Offer",
+        corrected_category: "LOGISTICS/Travel",
+      })
+    );
+  });
+
   it("rejects invalid payloads", async () => {
     const { PATCH } = await importRoute();
 
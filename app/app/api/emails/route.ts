@@ -23,6 +23,7 @@ export async function GET(request: Request) {
   const perPageParam = searchParams.get("perPage") ?? searchParams.get("limit");
   const labelParam = searchParams.get("label");
   const sourceParam = searchParams.get("source");
+  const accountParam = searchParams.get("accountId");
 
   const page = Math.max(Number(pageParam) || 1, 1);
   const perPage = Math.min(Math.max(Number(perPageParam) || 10, 1), 100);
@@ -65,6 +66,10 @@ export async function GET(request: Request) {
     query = query.eq("source", sourceFilter);
   }
 
+  if (accountParam) {
+    query = query.eq("account_id", accountParam);
+  }
+
   const { data, error, count } = await query.range(from, to);
 
   if (error) {
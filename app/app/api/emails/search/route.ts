@@ -0,0 +1,249 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  hasEmailSearchCriteria,
+  parseEmailSearchQuery,
+  rankEmailSearchResults,
+  scoreEmailSearchMatch,
+  type EmailSearchMatch,
+  type EmailSearchQuery,
+} from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../../lib/serverAuth";
+import { toIlikePattern } from "../../../../lib/postgrestFilters";
+import { EMAIL_SELECT_COLUMNS, enrichEmailRecords, mapEmailRow } from "../utils";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Candidates are narrowed in SQL and then scored in memory, so the window is
+// capped to keep enrichment queries bounded. Searches without free-text terms
+// have nothing to score and are paginated by the database instead.
+const MAX_CANDIDATES = 300;
+const MAX_LOOKUP_IDS = 200;
+
+// Label values are sent as a Postgres array literal, so anything that would
+// need quoting there is left to the in-memory filter.
+const SQL_LABEL_PATTERN = /^[\w\-/.&]+$/;
+
+interface CandidatePage {
+  offset: number;
+  limit: number;
+}
+
+interface CandidateResult {
+  rows: any[];
+  truncated: boolean;
+  total: number | null;
+}
+
+// Project and attachment matches are looked up as email id lists that end up
+// in the request URL, so each lookup is capped and reports when it was cut.
+interface EmailIdLookup {
+  ids: string[];
+  truncated: boolean;
+}
+
+function toEmailIdLookup(rows: Array<{ email_id: unknown }> | null): EmailIdLookup {
+  const ids = Array.from(new Set((rows ?? []).map((row) => row.email_id as string).filter(Boolean)));
+  return { ids: ids.slice(0, MAX_LOOKUP_IDS), truncated: (rows ?? []).length > MAX_LOOKUP_IDS };
+}
+
+async function loadAccessibleProjectIds(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const { data, error } = await supabase.from("project_members").select("project_id").eq("user_id", userId);
+  if (error) throw error;
+  return Array.from(new Set((data ?? []).map((row) => row.project_id as string).filter(Boolean)));
+}
+
+async function findEmailIdsForProjectName(
+  supabase: SupabaseClient,
+  projectIds: string[],
+  name: string
+): Promise<EmailIdLookup> {
+  if (projectIds.length === 0) return { ids: [], truncated: false };
+
+  const { data: projects, error: projectError } = await supabase
+    .from("projects")
+    .select("id")
+    .in("id", projectIds)
+    .ilike("name", toIlikePattern(name));
+  if (projectError) throw projectError;
+
+  const matchingIds = (projects ?? []).map((row) => row.id as string);
+  if (matchingIds.length === 0) return { ids: [], truncated: false };
+
+  const { data: links, error: linkError } = await supabase
+    .from("project_email_links")
+    .select("email_id")
+    .in("project_id", matchingIds)
+    .limit(MAX_LOOKUP_IDS + 1);
+  if (linkError) throw linkError;
+
+  return toEmailIdLookup(links);
+}
+
+async function findEmailIdsForAttachmentName(supabase: SupabaseClient, term: string): Promise<EmailIdLookup> {
+  const { data, error } = await supabase
+    .from("email_attachments")
+    .select("email_id")
+    .ilike("filename", toIlikePattern(term))
+    .limit(MAX_LOOKUP_IDS + 1);
+  if (error) throw error;
+  return toEmailIdLookup(data);
+}
+
+function canPaginateInDatabase(search: EmailSearchQuery): boolean {
+  return search.terms.length === 0 && search.labels.every((value) => SQL_LABEL_PATTERN.test(value));
+}
+
+/**
+ * Loads emails matching the structured operators. With a page the database
+ * orders and slices the results the same way {@link rankEmailSearchResults}
+ * would for unscored matches; without one the newest candidates are returned
+ * for in-memory scoring.
+ */
+async function loadCandidates(
+  supabase: SupabaseClient,
+  userId: string,
+  search: EmailSearchQuery,
+  page: CandidatePage | null
+): Promise<CandidateResult> {
+  const projectIds =
+    search.projects.length > 0 || search.terms.length > 0 ? await loadAccessibleProjectIds(supabase, userId) : [];
+
+  // An inner embed keeps only emails with at least one attachment row.
+  const columns: string = search.hasAttachment
+    ? `${EMAIL_SELECT_COLUMNS}, email_attachments!inner(id)`
+    : EMAIL_SELECT_COLUMNS;
+  let query = supabase
+    .from("emails")
+    .select(columns, page ? { count: "exact" } : undefined)
+    .eq("user_id", userId);
+  let lookupTruncated = false;
+
+  for (const value of search.projects) {
+    const lookup = await findEmailIdsForProjectName(supabase, projectIds, value);
+    if (lookup.ids.length === 0) {
+      return { rows: [], truncated: false, total: 0 };
+    }
+    lookupTruncated ||= lookup.truncated;
+    query = query.in("id", lookup.ids);
+  }
+
+  for (const value of search.labels) {
+    if (SQL_LABEL_PATTERN.test(value)) {
+      query = query.contains("email_label_keys", [value]);
+    }
+  }
+
+  for (const value of search.from) {
+    const pattern = toIlikePattern(value);
+    query = query.or(`from_name.ilike.${pattern},from_email.ilike.${pattern}`);
+  }
+
+  for (const term of search.terms) {
+    const pattern = toIlikePattern(term);
+    const attachmentLookup = await findEmailIdsForAttachmentName(supabase, term);
+    const projectLookup = await findEmailIdsForProjectName(supabase, projectIds, term);
+    lookupTruncated ||= attachmentLookup.truncated || projectLookup.truncated;
+    const extraIds = new Set([...attachmentLookup.ids, ...projectLookup.ids]);
+    const clauses = [
+      `subject.ilike.${pattern}`,
+      `summary.ilike.${pattern}`,
+      `from_name.ilike.${pattern}`,
+      `from_email.ilike.${pattern}`,
+    ];
+    if (extraIds.size > 0) {
+      clauses.push(`id.in.(${Array.from(extraIds).join(",")})`);
+    }
+    query = query.or(clauses.join(","));
+  }
+
+  if (search.before) {
+    query = query.lt("received_at", search.before);
+  }
+  if (search.after) {
+    query = query.gte("received_at", search.after);
+  }
+  if (search.isUnread != null) {
+    query = query.eq("is_read", !search.isUnread);
+  }
+  if (search.triageStates.length > 0) {
+    query = query.in("triage_state", search.triageStates);
+  }
+
+  if (page) {
+    const { data, error, count } = await query
+      .order("priority_score", { ascending: false })
+      .order("received_at", { ascending: false })
+      .range(page.offset, page.offset + page.limit - 1);
+    if (error) throw error;
+    return { rows: data ?? [], truncated: lookupTruncated, total: count ?? 0 };
+  }
+
+  const { data, error } = await query.order("received_at", { ascending: false }).limit(MAX_CANDIDATES + 1);
+  if (error) throw error;
+
+  const rows = data ?? [];
+  return {
+    rows: rows.slice(0, MAX_CANDIDATES),
+    truncated: lookupTruncated || rows.length > MAX_CANDIDATES,
+    total: null,
+  };
+}
+
+export async function GET(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  const { supabase, user } = authResult;
+
+  const { searchParams } = new URL(request.url);
+  const search = parseEmailSearchQuery(searchParams.get("q"));
+  const page = Math.max(Number(searchParams.get("page")) || 1, 1);
+  const perPage = Math.min(Math.max(Number(searchParams.get("perPage") ?? searchParams.get("limit")) || 10, 1), 100);
+
+  if (!hasEmailSearchCriteria(search)) {
+    return NextResponse.json({ error: "Search query is required" }, { status: 400 });
+  }
+
+  const candidatePage = canPaginateInDatabase(search) ? { offset: (page - 1) * perPage, limit: perPage } : null;
+
+  let candidates: CandidateResult;
+  try {
+    candidates = await loadCandidates(supabase, user.id, search, candidatePage);
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Failed to search emails" }, { status: 500 });
+  }
+
+  const enriched = await enrichEmailRecords(supabase, user.id, candidates.rows.map(mapEmailRow));
+  const ranked = rankEmailSearchResults(
+    enriched
+      .map((email) => ({ email, match: scoreEmailSearchMatch(email, search) }))
+      .filter((entry): entry is { email: typeof entry.email; match: EmailSearchMatch } => entry.match != null)
+  );
+
+  const total = candidates.total ?? ranked.length;
+  const totalPages = total > 0 ? Math.ceil(total / perPage) : 0;
+  const pageEntries = candidatePage ? ranked : ranked.slice((page - 1) * perPage, page * perPage);
+
+  const matches: Record<string, EmailSearchMatch> = {};
+  for (const entry of pageEntries) {
+    matches[entry.email.id] = entry.match;
+  }
+
+  return NextResponse.json({
+    items: pageEntries.map((entry) => entry.email),
+    pagination: {
+      page,
+      perPage,
+      total,
+      totalPages,
+      hasMore: total > 0 ? page < totalPages : false,
+    },
+    matches,
+    query: search,
+    truncated: candidates.truncated,
+  });
+}
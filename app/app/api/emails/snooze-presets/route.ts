@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { resolveSnoozePresets } from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../../lib/serverAuth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Resolves the inbox snooze presets in the user's timezone. "Next show day"
+ * is based on the earliest upcoming live hold across the user's projects.
+ */
+export async function GET(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  const { supabase, user } = authResult;
+  const now = new Date();
+
+  const [preferenceResult, membershipResult] = await Promise.all([
+    supabase.from("user_preferences").select("timezone").eq("user_id", user.id).maybeSingle(),
+    supabase.from("project_members").select("project_id").eq("user_id", user.id),
+  ]);
+
+  if (preferenceResult.error) {
+    return NextResponse.json({ error: preferenceResult.error.message }, { status: 500 });
+  }
+  if (membershipResult.error) {
+    return NextResponse.json({ error: membershipResult.error.message }, { status: 500 });
+  }
+
+  const projectIds = Array.from(
+    new Set((membershipResult.data ?? []).map((row) => row.project_id as string).filter(Boolean))
+  );
+
+  let nextShowAt: string | null = null;
+  if (projectIds.length > 0) {
+    const { data: showRows, error: showError } = await supabase
+      .from("timeline_entries")
+      .select("start_at")
+      .in("project_id", projectIds)
+      .eq("type", "LIVE_HOLD")
+      .gte("start_at", now.toISOString())
+      .order("start_at", { ascending: true })
+      .limit(1);
+
+    if (showError) {
+      return NextResponse.json({ error: showError.message }, { status: 500 });
+    }
+    nextShowAt = showRows?.[0]?.start_at ? String(showRows[0].start_at) : null;
+  }
+
+  const timezone = (preferenceResult.data?.timezone as string | undefined) ?? "UTC";
+  const presets = resolveSnoozePresets({ now, timezone, nextShowAt });
+
+  return NextResponse.json({ presets, timezone });
+}
@@ -0,0 +1,133 @@
+import { randomUUID } from "node:crypto";
+
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "../../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../../lib/projectAccess";
+import { mapProjectEmailLinkRow } from "../../../../../../lib/projectMappers";
+import { confidenceLevelToScore, type ProjectAssignmentRuleConfidence } from "@kazador/shared";
+
+interface Params {
+  params: {
+    threadId: string;
+  };
+}
+
+interface LinkThreadPayload {
+  projectId: string;
+  confidenceLevel?: ProjectAssignmentRuleConfidence | null;
+  note?: string | null;
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * Links every message in a thread to the project. Messages that are already
+ * linked are left untouched.
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { threadId } = params;
+  if (!threadId) {
+    return formatError("Thread id is required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  let payload: LinkThreadPayload;
+  try {
+    payload = (await request.json()) as LinkThreadPayload;
+  } catch (err) {
+    return formatError("Invalid JSON payload", 400);
+  }
+
+  if (!payload?.projectId) {
+    return formatError("projectId is required", 400);
+  }
+
+  try {
+    await assertProjectRole(supabase, payload.projectId, user.id, "editor");
+  } catch (err: any) {
+    return formatError(err?.message || "Forbidden", err?.status ?? 403);
+  }
+
+  const { data: emailRows, error: emailError } = await supabase
+    .from("emails")
+    .select("id")
+    .eq("user_id", user.id)
+    .eq("thread_id", threadId);
+
+  if (emailError) {
+    return formatError(emailError.message, 500);
+  }
+
+  const emailIds = (emailRows ?? []).map((row) => row.id as string);
+  if (emailIds.length === 0) {
+    return formatError("Thread not found", 404);
+  }
+
+  const { data: existingLinks, error: existingError } = await supabase
+    .from("project_email_links")
+    .select("email_id")
+    .eq("project_id", payload.projectId)
+    .in("email_id", emailIds);
+
+  if (existingError) {
+    return formatError(existingError.message, 500);
+  }
+
+  const alreadyLinked = new Set((existingLinks ?? []).map((row) => row.email_id as string));
+  const toLink = emailIds.filter((id) => !alreadyLinked.has(id));
+
+  if (toLink.length === 0) {
+    return NextResponse.json({ alreadyLinked: true, links: [] });
+  }
+
+  const nowIso = new Date().toISOString();
+  const confidenceScore = confidenceLevelToScore(payload.confidenceLevel ?? null) ?? 1;
+  const metadata = Object.fromEntries(
+    Object.entries({
+      linked_by: user.id,
+      linked_at: nowIso,
+      note: payload.note,
+      confidence_level: payload.confidenceLevel ?? null,
+      source: "manual",
+      thread_id: threadId,
+    }).filter(([, value]) => value != null)
+  );
+
+  const { data: linkRows, error: insertError } = await supabase
+    .from("project_email_links")
+    .insert(
+      toLink.map((emailId) => ({
+        id: randomUUID(),
+        project_id: payload.projectId,
+        email_id: emailId,
+        confidence: confidenceScore,
+        source: "manual",
+        metadata,
+        created_at: nowIso,
+      }))
+    )
+    .select("*");
+
+  if (insertError) {
+    return formatError(insertError.message, 500);
+  }
+
+  await supabase
+    .from("project_email_link_overrides")
+    .delete()
+    .eq("user_id", user.id)
+    .eq("project_id", payload.projectId)
+    .in("email_id", toLink);
+
+  return NextResponse.json({
+    links: (linkRows ?? []).map(mapProjectEmailLinkRow),
+  });
+}
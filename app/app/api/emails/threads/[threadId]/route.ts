@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import { buildEmailThread } from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../../../lib/serverAuth";
+import {
+  EMAIL_SELECT_COLUMNS,
+  buildEmailTriageUpdate,
+  enrichEmailRecords,
+  loadEmailPriorityConfig,
+  mapEmailRow,
+  parseEmailTriagePayload,
+  type EmailTriagePayload,
+} from "../../utils";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type Params = {
+  params: {
+    threadId?: string;
+  };
+};
+
+async function loadThread(supabase: any, userId: string, threadId: string) {
+  const { data, error } = await supabase
+    .from("emails")
+    .select(EMAIL_SELECT_COLUMNS)
+    .eq("user_id", userId)
+    .eq("thread_id", threadId)
+    .order("received_at", { ascending: true });
+
+  if (error) throw error;
+
+  const emails = await enrichEmailRecords(supabase, userId, (data ?? []).map(mapEmailRow));
+  return { rows: (data ?? []) as any[], thread: buildEmailThread(threadId, emails) };
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const threadId = params.threadId;
+  if (!threadId) {
+    return NextResponse.json({ error: "Thread id is required" }, { status: 400 });
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    const { thread } = await loadThread(supabase, user.id, threadId);
+    if (thread.emails.length === 0) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+    return NextResponse.json({ thread });
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Failed to load thread" }, { status: 500 });
+  }
+}
+
+/**
+ * Applies a triage change to every message in the thread so the conversation
+ * moves through the inbox as one unit.
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  const threadId = params.threadId;
+  if (!threadId) {
+    return NextResponse.json({ error: "Thread id is required" }, { status: 400 });
+  }
+
+  let payload: EmailTriagePayload;
+  try {
+    payload = parseEmailTriagePayload(await request.json());
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Invalid payload" }, { status: 400 });
+  }
+
+  if (
+    payload.triageState === undefined &&
+    payload.snoozedUntil === undefined &&
+    payload.isRead === undefined
+  ) {
+    return NextResponse.json({ error: "No changes provided" }, { status: 400 });
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    const { rows, thread } = await loadThread(supabase, user.id, threadId);
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    const attachmentCounts = new Map(thread.emails.map((email) => [email.id, email.attachmentCount ?? 0]));
+    const priorityConfig = await loadEmailPriorityConfig(supabase, user.id);
+
+    for (const row of rows) {
+      const triageUpdate = buildEmailTriageUpdate(row, payload, {
+        hasAttachments: (attachmentCounts.get(row.id as string) ?? 0) > 0,
+        config: priorityConfig,
+      });
+      if (!triageUpdate.ok) {
+        return NextResponse.json({ error: triageUpdate.error }, { status: 400 });
+      }
+
+      const { error: updateError } = await supabase
+        .from("emails")
+        .update(triageUpdate.update)
+        .eq("id", row.id)
+        .eq("user_id", user.id);
+
+      if (updateError) throw updateError;
+    }
+
+    const { thread: updatedThread } = await loadThread(supabase, user.id, threadId);
+    return NextResponse.json({ thread: updatedThread });
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Failed to update thread" }, { status: 500 });
+  }
+}
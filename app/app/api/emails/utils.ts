@@ -1,17 +1,208 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import {
   DEFAULT_EMAIL_SOURCE,
+  DEFAULT_PRIORITY_CONFIG,
+  EMAIL_FALLBACK_LABEL,
+  calculateEmailInboxPriority,
   ensureDefaultLabelCoverage,
   normaliseLabel,
   normaliseLabels,
   normaliseEmailSentiment,
+  resolveStoredPriorityConfig,
+  selectPrimaryCategory,
   type EmailAttachmentRecord,
+  type EmailLabel,
   type EmailProjectContext,
   type EmailRecord,
+  type EmailTriageState,
+  type PriorityConfig,
+  type PriorityConfigInput,
 } from "@kazador/shared";
 
 export const EMAIL_SELECT_COLUMNS =
-  "id, user_id, from_name, from_email, subject, received_at, category, is_read, summary, labels, sentiment, source, triage_state, triaged_at, snoozed_until, priority_score";
+  "id, user_id, from_name, from_email, subject, received_at, category, is_read, summary, labels, sentiment, source, triage_state, triaged_at, snoozed_until, priority_score, thread_id, message_id, in_reply_to, message_references, account_id, account_email, classification_prompt_version";
+
+const VALID_TRIAGE_STATES: EmailTriageState[] = [
+  "unassigned",
+  "acknowledged",
+  "snoozed",
+  "resolved",
+];
+
+export interface EmailTriagePayload {
+  triageState?: EmailTriageState;
+  snoozedUntil?: string | null;
+  isRead?: boolean;
+}
+
+export function parseEmailTriagePayload(body: unknown): EmailTriagePayload {
+  if (!body || typeof body !== "object") {
+    throw new Error("Invalid payload");
+  }
+
+  const payload = body as Record<string, unknown>;
+  const result: EmailTriagePayload = {};
+
+  if (payload.triageState != null) {
+    if (typeof payload.triageState !== "string") {
+      throw new Error("triageState must be a string");
+    }
+    const lower = payload.triageState.toLowerCase() as EmailTriageState;
+    if (!VALID_TRIAGE_STATES.includes(lower)) {
+      throw new Error("Invalid triageState value");
+    }
+    result.triageState = lower;
+  }
+
+  if (payload.snoozedUntil !== undefined) {
+    if (payload.snoozedUntil === null) {
+      result.snoozedUntil = null;
+    } else if (typeof payload.snoozedUntil === "string" && payload.snoozedUntil.trim().length > 0) {
+      const date = new Date(payload.snoozedUntil);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error("Invalid snoozedUntil timestamp");
+      }
+      result.snoozedUntil = date.toISOString();
+    } else {
+      throw new Error("snoozedUntil must be a valid ISO timestamp or null");
+    }
+  }
+
+  if (payload.isRead !== undefined) {
+    if (typeof payload.isRead !== "boolean") {
+      throw new Error("isRead must be a boolean");
+    }
+    result.isRead = payload.isRead;
+  }
+
+  return result;
+}
+
+/**
+ * Reads an optional `labels` array from a single-email update. Returns
+ * undefined when the body does not relabel the email.
+ */
+export function parseEmailLabelsInput(body: unknown): EmailLabel[] | undefined {
+  if (!body || typeof body !== "object") {
+    return undefined;
+  }
+
+  const value = (body as Record<string, unknown>).labels;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+    throw new Error("labels must be an array of strings");
+  }
+
+  const labels = normaliseLabels(value);
+  if (labels.length === 0) {
+    throw new Error("labels must include at least one label");
+  }
+  return labels;
+}
+
+export async function loadEmailPriorityConfig(supabase: any, userId: string): Promise<PriorityConfig> {
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("priority_config")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load priority config", error);
+    return DEFAULT_PRIORITY_CONFIG;
+  }
+
+  if (!data?.priority_config) {
+    return DEFAULT_PRIORITY_CONFIG;
+  }
+
+  try {
+    return resolveStoredPriorityConfig(data.priority_config as PriorityConfigInput);
+  } catch (err) {
+    console.error("Failed to parse priority config", err);
+    return DEFAULT_PRIORITY_CONFIG;
+  }
+}
+
+export type EmailTriageUpdateResult =
+  | { ok: true; update: Record<string, unknown> }
+  | { ok: false; error: string };
+
+/**
+ * Resolves the next triage fields for a stored email row and recalculates its
+ * inbox priority. Shared by the single-email and thread triage endpoints.
+ */
+export function buildEmailTriageUpdate(
+  existingRow: any,
+  payload: EmailTriagePayload,
+  options: { hasAttachments: boolean; config: PriorityConfig; labels?: EmailLabel[] }
+): EmailTriageUpdateResult {
+  const existingEmail = mapEmailRow(existingRow);
+
+  const nextTriageState = payload.triageState ?? existingEmail.triageState ?? "unassigned";
+  let nextSnoozedUntil: string | null;
+  if (payload.snoozedUntil !== undefined) {
+    nextSnoozedUntil = payload.snoozedUntil;
+  } else if (nextTriageState === "snoozed") {
+    nextSnoozedUntil = existingEmail.snoozedUntil ?? null;
+  } else {
+    nextSnoozedUntil = null;
+  }
+
+  if (nextTriageState === "snoozed" && !nextSnoozedUntil) {
+    return { ok: false, error: "snoozedUntil is required when triageState is snoozed" };
+  }
+
+  const nextIsRead = payload.isRead ?? (nextTriageState === "resolved" || nextTriageState === "acknowledged" ? true : existingEmail.isRead);
+
+  const labels = ensureDefaultLabelCoverage(options.labels ?? normaliseLabels(existingRow.labels));
+  const category = options.labels
+    ? selectPrimaryCategory(labels) ?? EMAIL_FALLBACK_LABEL
+    : normaliseLabel(existingRow.category);
+
+  const recalculatedPriority = calculateEmailInboxPriority(
+    {
+      category,
+      labels,
+      receivedAt: existingEmail.receivedAt,
+      isRead: nextIsRead,
+      triageState: nextTriageState,
+      snoozedUntil: nextSnoozedUntil,
+      fromEmail: existingEmail.fromEmail,
+      fromName: existingEmail.fromName,
+      subject: existingEmail.subject,
+      hasAttachments: options.hasAttachments,
+    },
+    { config: options.config }
+  );
+
+  const update: Record<string, unknown> = {
+    is_read: nextIsRead,
+    triage_state: nextTriageState,
+    snoozed_until: nextSnoozedUntil,
+    priority_score: recalculatedPriority,
+  };
+
+  if (options.labels) {
+    update.labels = labels;
+    update.category = category;
+  }
+
+  if (nextTriageState !== existingEmail.triageState) {
+    update.triaged_at = new Date().toISOString();
+  }
+
+  // Remember where a snooze started so the wake job can restore it.
+  if (nextTriageState === "snoozed" && existingEmail.triageState !== "snoozed") {
+    update.snoozed_from_state = existingEmail.triageState ?? "unassigned";
+  } else if (nextTriageState !== "snoozed") {
+    update.snoozed_from_state = null;
+  }
+
+  return { ok: true, update };
+}
 
 export function mapEmailRow(row: any): EmailRecord {
   const labels = ensureDefaultLabelCoverage(normaliseLabels(row.labels));
@@ -39,6 +230,14 @@ export function mapEmailRow(row: any): EmailRecord {
     linkedProjects: null,
     hasAttachments: null,
     attachmentCount: null,
+    threadId: (row.thread_id as string) ?? null,
+    messageId: (row.message_id as string) ?? null,
+    inReplyTo: (row.in_reply_to as string) ?? null,
+    references: Array.isArray(row.message_references) ? (row.message_references as string[]) : null,
+    accountId: (row.account_id as string) ?? null,
+    accountEmail: (row.account_email as string) ?? null,
+    classificationPromptVersion:
+      typeof row.classification_prompt_version === "number" ? row.classification_prompt_version : null,
   } satisfies EmailRecord;
 }
 
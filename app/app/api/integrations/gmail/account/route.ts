@@ -3,13 +3,17 @@ import { requireAuthenticatedUser } from "@/lib/serverAuth";
 import {
   getGmailAccount,
   disconnectGmailAccount,
-  hasGmailScopes,
+  listGmailAccountSummaries,
+  updateGmailAccountSettings,
 } from "@/lib/googleGmailClient";
+import { assertProjectRole } from "@/lib/projectAccess";
 import { recordAuditLog } from "@/lib/auditLog";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+const MAX_DISPLAY_NAME_LENGTH = 80;
+
 function formatError(message: string, status = 400) {
   return NextResponse.json({ error: message }, { status });
 }
@@ -22,28 +26,111 @@ export async function GET(request: Request) {
 
   const { supabase, user } = authResult;
 
-  let account = null;
+  let accounts;
   try {
-    account = await getGmailAccount(supabase, { userId: user.id });
+    accounts = await listGmailAccountSummaries(supabase, user.id);
   } catch (err: any) {
-    return formatError(err?.message || "Failed to load Gmail account", 500);
+    return formatError(err?.message || "Failed to load Gmail accounts", 500);
   }
 
-  if (!hasGmailScopes(account)) {
-    return NextResponse.json({ connected: false });
+  if (accounts.length === 0) {
+    return NextResponse.json({ connected: false, accounts: [] });
   }
 
+  const primary = accounts[0];
   return NextResponse.json({
     connected: true,
     account: {
-      id: account.id,
-      email: account.accountEmail,
-      scopes: account.scopes,
-      expiresAt: account.expiresAt,
+      id: primary.id,
+      email: primary.email,
+      scopes: primary.scopes,
+      expiresAt: primary.expiresAt,
     },
+    accounts,
   });
 }
 
+export async function PATCH(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return formatError("Invalid JSON body", 400);
+  }
+
+  const accountId = typeof body?.accountId === "string" ? body.accountId : null;
+  if (!accountId) {
+    return formatError("accountId is required", 400);
+  }
+
+  let account = null;
+  try {
+    account = await getGmailAccount(supabase, { userId: user.id, accountId });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load Gmail account", 500);
+  }
+
+  if (!account) {
+    return formatError("Gmail account not found", 404);
+  }
+
+  const updates: { displayName?: string | null; defaultProjectId?: string | null } = {};
+
+  if (body.displayName !== undefined) {
+    if (body.displayName !== null && typeof body.displayName !== "string") {
+      return formatError("displayName must be a string", 400);
+    }
+    const trimmed = typeof body.displayName === "string" ? body.displayName.trim() : "";
+    if (trimmed.length > MAX_DISPLAY_NAME_LENGTH) {
+      return formatError(`displayName must be at most ${MAX_DISPLAY_NAME_LENGTH} characters`, 400);
+    }
+    updates.displayName = trimmed || null;
+  }
+
+  if (body.defaultProjectId !== undefined) {
+    if (body.defaultProjectId !== null && typeof body.defaultProjectId !== "string") {
+      return formatError("defaultProjectId must be a string or null", 400);
+    }
+    if (body.defaultProjectId) {
+      try {
+        await assertProjectRole(supabase, body.defaultProjectId, user.id, "editor");
+      } catch (err: any) {
+        return formatError(err?.message || "Forbidden", err?.status ?? 403);
+      }
+    }
+    updates.defaultProjectId = body.defaultProjectId || null;
+  }
+
+  try {
+    await updateGmailAccountSettings(supabase, account.id, updates);
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to update Gmail account", 500);
+  }
+
+  try {
+    await recordAuditLog(supabase, {
+      projectId: updates.defaultProjectId ?? null,
+      userId: user.id,
+      action: "gmail.account.updated",
+      entity: "oauth_account",
+      refId: account.id,
+      metadata: { accountEmail: account.accountEmail, ...updates },
+    });
+  } catch (err) {
+    // ignore audit failures
+  }
+
+  const accounts = await listGmailAccountSummaries(supabase, user.id);
+  return NextResponse.json({ account: accounts.find((entry) => entry.id === account.id) ?? null });
+}
+
 export async function DELETE(request: Request) {
   const authResult = await requireAuthenticatedUser(request);
   if (!authResult.ok) {
@@ -51,10 +138,11 @@ export async function DELETE(request: Request) {
   }
 
   const { supabase, user } = authResult;
+  const accountId = new URL(request.url).searchParams.get("accountId") ?? undefined;
 
   let account = null;
   try {
-    account = await getGmailAccount(supabase, { userId: user.id });
+    account = await getGmailAccount(supabase, { userId: user.id, accountId });
   } catch (err: any) {
     return formatError(err?.message || "Failed to load Gmail account", 500);
   }
@@ -110,31 +110,6 @@ export async function GET(request: Request) {
   const tokens = tokenResponse.tokens;
   oauthClient.setCredentials(tokens);
 
-  const { data: existingAccount, error: fetchAccountError } = await supabase
-    .from("oauth_accounts")
-    .select("*")
-    .eq("user_id", userId)
-    .eq("provider", "google")
-    .maybeSingle();
-
-  if (fetchAccountError) {
-    const script = redirectTo
-      ? `window.opener?.postMessage({ source: 'kazador-gmail', status: 'error', message: 'Failed to load account' }, '*'); window.close();`
-      : "window.close();";
-    return renderMessage(script, "Failed to load Google account state.");
-  }
-
-  if (!tokens.refresh_token && existingAccount?.refresh_token) {
-    tokens.refresh_token = existingAccount.refresh_token as string;
-  }
-
-  if (!tokens.refresh_token) {
-    const script = redirectTo
-      ? `window.opener?.postMessage({ source: 'kazador-gmail', status: 'error', message: 'Missing refresh token' }, '*'); window.close();`
-      : "window.close();";
-    return renderMessage(script, "Google did not return a refresh token. Ensure you allow offline access and try again.");
-  }
-
   let tokenInfo: Awaited<ReturnType<typeof oauthClient.getTokenInfo>> | null = null;
   try {
     if (tokens.access_token) {
@@ -144,7 +119,7 @@ export async function GET(request: Request) {
     tokenInfo = null;
   }
 
-  let accountEmail = tokenInfo?.email ?? (existingAccount?.account_email as string | undefined) ?? "";
+  let accountEmail = tokenInfo?.email ?? "";
 
   if (!accountEmail) {
     try {
@@ -173,6 +148,33 @@ export async function GET(request: Request) {
     return renderMessage(script, "Unable to determine the Google account email.");
   }
 
+  // Each Google account is stored separately, so a second mailbox never overwrites the first
+  const { data: existingAccount, error: fetchAccountError } = await supabase
+    .from("oauth_accounts")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("provider", "google")
+    .eq("account_email", accountEmail)
+    .maybeSingle();
+
+  if (fetchAccountError) {
+    const script = redirectTo
+      ? `window.opener?.postMessage({ source: 'kazador-gmail', status: 'error', message: 'Failed to load account' }, '*'); window.close();`
+      : "window.close();";
+    return renderMessage(script, "Failed to load Google account state.");
+  }
+
+  if (!tokens.refresh_token && existingAccount?.refresh_token) {
+    tokens.refresh_token = existingAccount.refresh_token as string;
+  }
+
+  if (!tokens.refresh_token) {
+    const script = redirectTo
+      ? `window.opener?.postMessage({ source: 'kazador-gmail', status: 'error', message: 'Missing refresh token' }, '*'); window.close();`
+      : "window.close();";
+    return renderMessage(script, "Google did not return a refresh token. Ensure you allow offline access and try again.");
+  }
+
   const scopeString = tokens.scope ?? safeString(url.searchParams.get("scope"));
   const grantedScopes = scopeString ? scopeString.split(/\s+/g).filter(Boolean) : [];
   const combinedScopes = mergeScopes(existingAccount?.scopes as string[] | undefined, grantedScopes);
@@ -215,7 +217,7 @@ export async function GET(request: Request) {
 
   const { error: upsertError, data: upserted } = await supabase
     .from("oauth_accounts")
-    .upsert(upsertPayload, { onConflict: "user_id,provider" })
+    .upsert(upsertPayload, { onConflict: "user_id,provider,account_email" })
     .select("*")
     .maybeSingle();
 
@@ -48,7 +48,8 @@ export async function POST(request: Request) {
     redirectUri,
     state,
     scopes: GMAIL_SCOPES,
-    prompt: "consent",
+    // Always show the account chooser so users can add a second mailbox
+    prompt: "select_account consent",
     accessType: "offline",
   });
 
@@ -40,16 +40,11 @@ async function resolveUserEmail(
   params: {
     oauthClient: ReturnType<typeof createOAuthClient>;
     tokens: Record<string, any>;
-    existingEmail?: string | null;
     supabase: SupabaseClient;
     userId: string;
   }
 ): Promise<string | null> {
-  const { oauthClient, tokens, existingEmail, supabase, userId } = params;
-
-  if (existingEmail) {
-    return existingEmail;
-  }
+  const { oauthClient, tokens, supabase, userId } = params;
 
   try {
     if (tokens.access_token) {
@@ -170,11 +165,26 @@ export async function GET(request: Request) {
   const tokens = tokenResponse.tokens;
   oauthClient.setCredentials(tokens);
 
+  const accountEmail = await resolveUserEmail({
+    oauthClient,
+    tokens,
+    supabase,
+    userId,
+  });
+
+  if (!accountEmail) {
+    const script = redirectTo
+      ? `window.opener?.postMessage({ source: 'kazador-calendar', status: 'error', message: 'Unable to determine account email' }, '*'); window.close();`
+      : "window.close();";
+    return renderMessage(script, "Unable to determine the Google account email.");
+  }
+
   const { data: existingAccount, error: fetchAccountError } = await supabase
     .from("oauth_accounts")
     .select("*")
     .eq("user_id", userId)
     .eq("provider", "google")
+    .eq("account_email", accountEmail)
     .maybeSingle();
 
   if (fetchAccountError) {
@@ -195,21 +205,6 @@ export async function GET(request: Request) {
     return renderMessage(script, "Google did not return a refresh token. Ensure you allow offline access and try again.");
   }
 
-  const accountEmail = await resolveUserEmail({
-    oauthClient,
-    tokens,
-    existingEmail: existingAccount?.account_email as string | undefined,
-    supabase,
-    userId,
-  });
-
-  if (!accountEmail) {
-    const script = redirectTo
-      ? `window.opener?.postMessage({ source: 'kazador-calendar', status: 'error', message: 'Unable to determine account email' }, '*'); window.close();`
-      : "window.close();";
-    return renderMessage(script, "Unable to determine the Google account email.");
-  }
-
   const scopeString = tokens.scope ?? safeString(url.searchParams.get("scope"));
   const grantedScopes = scopeString ? scopeString.split(/\s+/g).filter(Boolean) : [];
   const combinedScopes = mergeScopes(existingAccount?.scopes as string[] | undefined, grantedScopes);
@@ -251,7 +246,7 @@ export async function GET(request: Request) {
 
   const { error: upsertError, data: upserted } = await supabase
     .from("oauth_accounts")
-    .upsert(upsertPayload, { onConflict: "user_id,provider" })
+    .upsert(upsertPayload, { onConflict: "user_id,provider,account_email" })
     .select("*")
     .maybeSingle();
 
@@ -274,6 +269,7 @@ export async function GET(request: Request) {
         .select("id")
         .eq("user_id", userId)
         .eq("provider", "google")
+        .eq("account_email", accountEmail)
         .maybeSingle();
       if (fallbackAccount?.id) {
         accountId = fallbackAccount.id as string;
@@ -100,31 +100,6 @@ export async function GET(request: Request) {
   const tokens = tokenResponse.tokens;
   oauthClient.setCredentials(tokens);
 
-  const { data: existingAccount, error: fetchAccountError } = await supabase
-    .from("oauth_accounts")
-    .select("*")
-    .eq("user_id", userId)
-    .eq("provider", "google")
-    .maybeSingle();
-
-  if (fetchAccountError) {
-    const script = redirectTo
-      ? `window.opener?.postMessage({ source: 'kazador-drive', status: 'error', message: 'Failed to load Drive account' }, '*'); window.close();`
-      : "window.close();";
-    return renderMessage(script, "Failed to load existing Drive account state.");
-  }
-
-  if (!tokens.refresh_token && existingAccount?.refresh_token) {
-    tokens.refresh_token = existingAccount.refresh_token as string;
-  }
-
-  if (!tokens.refresh_token) {
-    const script = redirectTo
-      ? `window.opener?.postMessage({ source: 'kazador-drive', status: 'error', message: 'Missing refresh token' }, '*'); window.close();`
-      : "window.close();";
-    return renderMessage(script, "Google did not return a refresh token. Ensure you allow offline access and try again.");
-  }
-
   let tokenInfo: Awaited<ReturnType<typeof oauthClient.getTokenInfo>> | null = null;
   try {
     if (tokens.access_token) {
@@ -134,7 +109,7 @@ export async function GET(request: Request) {
     tokenInfo = null;
   }
 
-  let accountEmail = tokenInfo?.email ?? (existingAccount?.account_email as string | undefined) ?? "";
+  let accountEmail = tokenInfo?.email ?? "";
 
   if (!accountEmail) {
     try {
@@ -163,6 +138,32 @@ export async function GET(request: Request) {
     return renderMessage(script, "Unable to determine the Google account email.");
   }
 
+  const { data: existingAccount, error: fetchAccountError } = await supabase
+    .from("oauth_accounts")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("provider", "google")
+    .eq("account_email", accountEmail)
+    .maybeSingle();
+
+  if (fetchAccountError) {
+    const script = redirectTo
+      ? `window.opener?.postMessage({ source: 'kazador-drive', status: 'error', message: 'Failed to load Drive account' }, '*'); window.close();`
+      : "window.close();";
+    return renderMessage(script, "Failed to load existing Drive account state.");
+  }
+
+  if (!tokens.refresh_token && existingAccount?.refresh_token) {
+    tokens.refresh_token = existingAccount.refresh_token as string;
+  }
+
+  if (!tokens.refresh_token) {
+    const script = redirectTo
+      ? `window.opener?.postMessage({ source: 'kazador-drive', status: 'error', message: 'Missing refresh token' }, '*'); window.close();`
+      : "window.close();";
+    return renderMessage(script, "Google did not return a refresh token. Ensure you allow offline access and try again.");
+  }
+
   const scopeString = tokens.scope ?? safeString(url.searchParams.get("scope"));
   const scopes = scopeString ? scopeString.split(/\s+/g).filter(Boolean) : [];
   const expiresAtIso = tokens.expiry_date
@@ -182,7 +183,7 @@ export async function GET(request: Request) {
 
   const { error: upsertError, data: upserted } = await supabase
     .from("oauth_accounts")
-    .upsert(upsertPayload, { onConflict: "user_id,provider" })
+    .upsert(upsertPayload, { onConflict: "user_id,provider,account_email" })
     .select("*")
     .maybeSingle();
 
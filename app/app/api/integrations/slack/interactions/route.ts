@@ -0,0 +1,157 @@
+import { NextResponse } from "next/server";
+import {
+  SLACK_APPROVE_ACTION_ID,
+  SLACK_DECLINE_ACTION_ID,
+  parseSlackApprovalValue,
+} from "@kazador/shared";
+import { applyApprovalAction, type ApprovalAction } from "@/lib/approvalActions";
+import { assertProjectRole } from "@/lib/projectAccess";
+import { createServerSupabaseClient } from "@/lib/serverSupabase";
+import { verifySlackApprovalValue, verifySlackSignature } from "@/lib/slackSignature";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+async function postSlackResponse(responseUrl: unknown, text: string) {
+  if (typeof responseUrl !== "string" || !responseUrl.startsWith("https://hooks.slack.com/")) {
+    return;
+  }
+  try {
+    await fetch(responseUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ response_type: "ephemeral", replace_original: false, text }),
+    });
+  } catch (err) {
+    console.error("Failed to post Slack interaction response", err);
+  }
+}
+
+/**
+ * Resolves the Kazador user who linked this Slack member ID in their Slack
+ * settings. Ambiguous links are treated as unlinked.
+ */
+async function resolveLinkedUserId(supabase: any, slackUserId: unknown): Promise<string | null> {
+  if (typeof slackUserId !== "string" || !slackUserId) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("user_id")
+    .eq("slack_settings->>slackUserId", slackUserId)
+    .limit(2);
+
+  if (error) throw error;
+  return data?.length === 1 ? (data[0].user_id as string) : null;
+}
+
+export async function POST(request: Request) {
+  const signingSecret = process.env.SLACK_SIGNING_SECRET;
+  const approvalSecret = process.env.SLACK_APPROVAL_SECRET;
+  if (!signingSecret || !approvalSecret) {
+    return formatError("Slack signing secrets are not configured", 500);
+  }
+
+  const rawBody = await request.text();
+  const verified = verifySlackSignature({
+    signingSecret,
+    timestamp: request.headers.get("x-slack-request-timestamp"),
+    signature: request.headers.get("x-slack-signature"),
+    rawBody,
+  });
+
+  if (!verified) {
+    return formatError("Invalid Slack signature", 401);
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(new URLSearchParams(rawBody).get("payload") ?? "");
+  } catch (err) {
+    return formatError("Invalid interaction payload", 400);
+  }
+
+  if (payload?.type !== "block_actions") {
+    return new NextResponse(null, { status: 200 });
+  }
+
+  const slackAction = Array.isArray(payload.actions) ? payload.actions[0] : null;
+  const action: ApprovalAction | null =
+    slackAction?.action_id === SLACK_APPROVE_ACTION_ID
+      ? "approve"
+      : slackAction?.action_id === SLACK_DECLINE_ACTION_ID
+      ? "decline"
+      : null;
+  const target = parseSlackApprovalValue(slackAction?.value);
+
+  if (!action || !target) {
+    return new NextResponse(null, { status: 200 });
+  }
+
+  if (!verifySlackApprovalValue(approvalSecret, target)) {
+    await postSlackResponse(payload.response_url, "This approval button could not be verified.");
+    return new NextResponse(null, { status: 200 });
+  }
+
+  const clientResult = createServerSupabaseClient();
+  if (!clientResult.ok) {
+    return formatError(clientResult.error, 500);
+  }
+  const { supabase } = clientResult;
+
+  const slackUser = typeof payload.user?.username === "string" ? payload.user.username : payload.user?.id ?? "unknown";
+
+  try {
+    // The actor is whoever clicked, not the digest recipient named in the value.
+    const actorId = await resolveLinkedUserId(supabase, payload.user?.id);
+    if (!actorId) {
+      await postSlackResponse(
+        payload.response_url,
+        "Link your Slack member ID under Settings → Integrations → Slack to act on approvals."
+      );
+      return new NextResponse(null, { status: 200 });
+    }
+
+    const { data: approvalRow, error } = await supabase
+      .from("approvals")
+      .select("id, project_id, requested_by")
+      .eq("id", target.approvalId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!approvalRow) {
+      await postSlackResponse(payload.response_url, "That approval no longer exists.");
+      return new NextResponse(null, { status: 200 });
+    }
+
+    if (approvalRow.project_id) {
+      await assertProjectRole(supabase, approvalRow.project_id as string, actorId, "editor");
+    } else if (approvalRow.requested_by !== actorId) {
+      await postSlackResponse(payload.response_url, "Only the requester can resolve this approval.");
+      return new NextResponse(null, { status: 200 });
+    }
+
+    const approval = await applyApprovalAction(
+      supabase,
+      target.approvalId,
+      action,
+      actorId,
+      `Resolved from Slack by ${slackUser}`
+    );
+
+    await postSlackResponse(
+      payload.response_url,
+      approval.status === "pending" ? "Approval is still pending." : `Approval ${approval.status}.`
+    );
+  } catch (err: any) {
+    console.error("Failed to apply Slack approval action", err);
+    await postSlackResponse(payload.response_url, `Could not update approval: ${err?.message ?? "unknown error"}`);
+  }
+
+  return new NextResponse(null, { status: 200 });
+}
@@ -0,0 +1,178 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "@/lib/serverAuth";
+import { recordAuditLog } from "@/lib/auditLog";
+import {
+  isSlackWebhookUrl,
+  normalizeSlackSettings,
+  normalizeSlackUserId,
+  type SlackSettings,
+} from "@kazador/shared";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+function parseChannels(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed.map(String) : [];
+    } catch (err) {
+      return [];
+    }
+  }
+  return [];
+}
+
+/**
+ * Webhook URLs are credentials, so responses only expose whether one is set
+ * and its last few characters.
+ */
+function serializeSettings(settings: SlackSettings) {
+  return {
+    enabled: settings.enabled,
+    includeApprovals: settings.includeApprovals,
+    slackUserId: settings.slackUserId,
+    hasWebhook: Boolean(settings.webhookUrl),
+    webhookHint: settings.webhookUrl ? `…${settings.webhookUrl.slice(-6)}` : null,
+  };
+}
+
+async function loadPreferences(supabase: any, userId: string) {
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("slack_settings, channels")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return {
+    settings: normalizeSlackSettings(data?.slack_settings ?? null),
+    channels: data ? parseChannels(data.channels) : ["web"],
+  };
+}
+
+async function storePreferences(supabase: any, userId: string, settings: SlackSettings, channels: string[]) {
+  const { error } = await supabase.from("user_preferences").upsert(
+    {
+      user_id: userId,
+      slack_settings: settings,
+      channels,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+
+  if (error) throw error;
+}
+
+export async function GET(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    const { settings } = await loadPreferences(supabase, user.id);
+    return NextResponse.json({ settings: serializeSettings(settings) });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load Slack settings", 500);
+  }
+}
+
+export async function PUT(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return formatError("Invalid JSON payload", 400);
+  }
+
+  const webhookInput = typeof body?.webhookUrl === "string" ? body.webhookUrl.trim() : "";
+  if (webhookInput && !isSlackWebhookUrl(webhookInput)) {
+    return formatError("Webhook URL must start with https://hooks.slack.com/", 400);
+  }
+
+  const slackUserInput = typeof body?.slackUserId === "string" ? body.slackUserId.trim() : undefined;
+  if (slackUserInput && !normalizeSlackUserId(slackUserInput)) {
+    return formatError("Slack member ID should look like U024BE7LH", 400);
+  }
+
+  try {
+    const current = await loadPreferences(supabase, user.id);
+    const webhookUrl = webhookInput || current.settings.webhookUrl;
+    const enabled = body?.enabled !== undefined ? Boolean(body.enabled) : current.settings.enabled;
+
+    if (enabled && !webhookUrl) {
+      return formatError("A webhook URL is required to enable Slack delivery", 400);
+    }
+
+    const settings = normalizeSlackSettings({
+      enabled,
+      webhookUrl,
+      includeApprovals:
+        body?.includeApprovals !== undefined ? Boolean(body.includeApprovals) : current.settings.includeApprovals,
+      slackUserId: slackUserInput !== undefined ? slackUserInput : current.settings.slackUserId,
+    });
+
+    const channels = current.channels.filter((channel) => channel !== "slack");
+    if (settings.enabled) {
+      channels.push("slack");
+    }
+
+    await storePreferences(supabase, user.id, settings, channels);
+
+    await recordAuditLog(supabase, {
+      projectId: null,
+      userId: user.id,
+      action: "slack.settings.updated",
+      entity: "user_preferences",
+      refId: user.id,
+      metadata: {
+        enabled: settings.enabled,
+        includeApprovals: settings.includeApprovals,
+        slackUserLinked: Boolean(settings.slackUserId),
+      },
+    }).catch((err) => console.error("Failed to record Slack settings audit log", err));
+
+    return NextResponse.json({ settings: serializeSettings(settings) });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to update Slack settings", 500);
+  }
+}
+
+export async function DELETE(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    const current = await loadPreferences(supabase, user.id);
+    const settings = normalizeSlackSettings(null);
+    await storePreferences(
+      supabase,
+      user.id,
+      settings,
+      current.channels.filter((channel) => channel !== "slack")
+    );
+    return NextResponse.json({ settings: serializeSettings(settings) });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to disconnect Slack", 500);
+  }
+}
@@ -4,6 +4,7 @@ import {
   clonePriorityConfig,
   isPriorityConfigEqual,
   normalizePriorityConfigInput,
+  resolveScheduledPriorityConfig,
   type PriorityConfig,
   type PriorityConfigInput,
   type PriorityConfigSource,
@@ -19,7 +20,10 @@ export interface PreferenceRow {
 }
 
 export interface PriorityConfigResponsePayload {
+  /** The saved config; this is what the settings page edits. */
   config: PriorityConfig;
+  /** The saved config with any active scheduled preset applied, used for scoring. */
+  effectiveConfig: PriorityConfig;
   source: PriorityConfigSource;
   updatedAt: string | null;
 }
@@ -76,11 +80,12 @@ export async function ensurePreferenceRow(supabase: any, userId: string): Promis
   return inserted as PreferenceRow;
 }
 
-export function buildResponse(row: PreferenceRow): PriorityConfigResponsePayload {
+export function buildResponse(row: PreferenceRow, now: Date = new Date()): PriorityConfigResponsePayload {
   const { config, source } = parseStoredConfig(row.priority_config);
   const updatedAt = row.priority_config_updated_at ?? row.updated_at ?? row.created_at ?? null;
   return {
     config,
+    effectiveConfig: resolveScheduledPriorityConfig(config, now).config,
     source,
     updatedAt: updatedAt ? String(updatedAt) : null,
   };
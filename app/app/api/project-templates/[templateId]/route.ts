@@ -0,0 +1,171 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "../../../../lib/serverAuth";
+import { mapProjectTemplateVersionRow } from "../../../../lib/projectMappers";
+import {
+  loadProjectTemplate,
+  parseTemplateItemsInput,
+  updateProjectTemplate,
+  type ProjectTemplateUpdate,
+} from "../../../../lib/projectTemplates";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: {
+    templateId: string;
+  };
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * GET /api/project-templates/:templateId
+ * Returns the template, its items and its version history (newest first)
+ */
+export async function GET(request: Request, { params }: Params) {
+  const auth = await requireAuthenticatedUser(request);
+  if (!auth.ok) {
+    return formatError(auth.error, auth.status);
+  }
+
+  const { supabase } = auth;
+
+  try {
+    const template = await loadProjectTemplate(supabase, { id: params.templateId });
+    if (!template) {
+      return formatError("Template not found", 404);
+    }
+
+    const { data: versionRows, error } = await supabase
+      .from("project_template_versions")
+      .select("*")
+      .eq("template_id", params.templateId)
+      .order("version", { ascending: false });
+    if (error) {
+      return formatError(error.message, 500);
+    }
+
+    return NextResponse.json({ ...template, versions: (versionRows ?? []).map(mapProjectTemplateVersionRow) });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load template", 500);
+  }
+}
+
+/**
+ * PATCH /api/project-templates/:templateId
+ * Edits name, description or items, or restores an earlier version. Every
+ * change is saved as a new version.
+ */
+export async function PATCH(request: Request, { params }: Params) {
+  const auth = await requireAuthenticatedUser(request);
+  if (!auth.ok) {
+    return formatError(auth.error, auth.status);
+  }
+
+  const { supabase, user } = auth;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return formatError("Invalid JSON payload", 400);
+  }
+
+  try {
+    const existing = await loadProjectTemplate(supabase, { id: params.templateId });
+    if (!existing) {
+      return formatError("Template not found", 404);
+    }
+    if (existing.template.createdBy !== user.id) {
+      return formatError("Built-in and shared templates cannot be edited", 403);
+    }
+
+    const update: ProjectTemplateUpdate = {};
+
+    if (body?.restoreVersion != null) {
+      const { data: versionRow, error } = await supabase
+        .from("project_template_versions")
+        .select("*")
+        .eq("template_id", params.templateId)
+        .eq("version", Number(body.restoreVersion))
+        .maybeSingle();
+      if (error) {
+        return formatError(error.message, 500);
+      }
+      if (!versionRow) {
+        return formatError("Version not found", 404);
+      }
+      const version = mapProjectTemplateVersionRow(versionRow);
+      update.name = version.name;
+      update.description = version.description;
+      update.payload = version.payload;
+      update.items = version.items;
+    } else {
+      if (body?.name !== undefined) {
+        const name = typeof body.name === "string" ? body.name.trim() : "";
+        if (!name) {
+          return formatError("Template name is required", 400);
+        }
+        update.name = name;
+      }
+      if (body?.description !== undefined) {
+        update.description = typeof body.description === "string" ? body.description.trim() || null : null;
+      }
+      if (body?.items !== undefined) {
+        const parsed = parseTemplateItemsInput(body.items);
+        if (!parsed.ok) {
+          return formatError(parsed.error, 400);
+        }
+        update.items = parsed.items;
+      }
+      if (body?.payload !== undefined) {
+        if (!body.payload || typeof body.payload !== "object" || Array.isArray(body.payload)) {
+          return formatError("payload must be an object", 400);
+        }
+        update.payload = body.payload as Record<string, unknown>;
+      }
+    }
+
+    if (Object.keys(update).length === 0) {
+      return formatError("Nothing to update", 400);
+    }
+
+    const updated = await updateProjectTemplate(supabase, existing, user.id, update);
+    return NextResponse.json(updated);
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to update template", err?.status ?? 500);
+  }
+}
+
+/**
+ * DELETE /api/project-templates/:templateId
+ * Deletes a user's own template; projects created from it keep their items
+ */
+export async function DELETE(request: Request, { params }: Params) {
+  const auth = await requireAuthenticatedUser(request);
+  if (!auth.ok) {
+    return formatError(auth.error, auth.status);
+  }
+
+  const { supabase, user } = auth;
+
+  const { data, error } = await supabase
+    .from("project_templates")
+    .delete()
+    .eq("id", params.templateId)
+    .eq("created_by", user.id)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    return formatError(error.message, 500);
+  }
+  if (!data) {
+    return formatError("Template not found", 404);
+  }
+
+  return NextResponse.json({ success: true });
+}
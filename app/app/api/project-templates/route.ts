@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "../../../lib/serverAuth";
+import { assertProjectRole } from "../../../lib/projectAccess";
+import { recordAuditLog } from "../../../lib/auditLog";
 import { mapProjectTemplateRow, mapProjectTemplateItemRow } from "../../../lib/projectMappers";
+import { captureProjectAsTemplate, createProjectTemplate } from "../../../lib/projectTemplates";
 
 export async function GET(request: Request) {
   const authResult = await requireAuthenticatedUser(request);
@@ -49,3 +52,66 @@ export async function GET(request: Request) {
 
   return NextResponse.json({ templates });
 }
+
+/**
+ * POST /api/project-templates
+ * Saves a project as a new template: its timeline as offsets from the project
+ * start, plus tasks, custom lanes, dependencies and assignment rules
+ */
+export async function POST(request: Request) {
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+  }
+
+  const { supabase, user } = authResult;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 });
+  }
+
+  const projectId = typeof body?.projectId === "string" ? body.projectId : "";
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  if (!projectId) {
+    return NextResponse.json({ error: "projectId is required" }, { status: 400 });
+  }
+  if (!name) {
+    return NextResponse.json({ error: "Template name is required" }, { status: 400 });
+  }
+
+  try {
+    await assertProjectRole(supabase, projectId, user.id, "viewer");
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Forbidden" }, { status: err?.status ?? 403 });
+  }
+
+  try {
+    const { snapshot } = await captureProjectAsTemplate(supabase, projectId, user.id);
+    const created = await createProjectTemplate(supabase, user.id, {
+      name,
+      description: typeof body.description === "string" ? body.description.trim() || null : null,
+      sourceProjectId: projectId,
+      snapshot,
+    });
+
+    try {
+      await recordAuditLog(supabase, {
+        projectId,
+        userId: user.id,
+        action: "project.template_saved",
+        entity: "project_template",
+        refId: created.template.id,
+        metadata: { name, itemCount: created.items.length, taskCount: snapshot.payload.tasks.length },
+      });
+    } catch (auditError) {
+      console.warn("Failed to record template audit entry", auditError);
+    }
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Failed to save template" }, { status: err?.status ?? 500 });
+  }
+}
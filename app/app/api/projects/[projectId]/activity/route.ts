@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { buildActivityFeed } from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../lib/projectAccess";
+import { listAuditLogs, loadAuditActorNames, parseAuditLogFilters } from "../../../../../lib/auditLog";
+
+interface Params {
+  params: {
+    projectId: string;
+  };
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * GET /api/projects/:projectId/activity
+ * Human-readable project activity, newest first. Accepts userId, entity,
+ * action, from, to, limit and cursor query parameters.
+ */
+export async function GET(request: Request, { params }: Params) {
+  const { projectId } = params;
+  if (!projectId) {
+    return formatError("Project id is required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    await assertProjectRole(supabase, projectId, user.id, "viewer");
+  } catch (err: any) {
+    return formatError(err?.message || "Forbidden", err?.status ?? 403);
+  }
+
+  const parsed = parseAuditLogFilters(new URL(request.url).searchParams);
+  if (!parsed.ok) {
+    return formatError(parsed.error, 400);
+  }
+
+  try {
+    const page = await listAuditLogs(supabase, { ...parsed.filters, projectId });
+    const actorNames = await loadAuditActorNames(supabase, page.logs);
+    return NextResponse.json({
+      entries: buildActivityFeed(page.logs, { actorNames }),
+      nextCursor: page.nextCursor,
+    });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load activity", 500);
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "../../../../../../lib/serverAuth";
 import { assertProjectRole } from "../../../../../../lib/projectAccess";
+import { recordAuditLog } from "../../../../../../lib/auditLog";
 
 interface Params {
   params: {
@@ -83,5 +84,19 @@ export async function DELETE(request: Request, { params }: Params) {
     console.error("Failed to persist link override", overrideError);
   }
 
+  try {
+    const { data: emailRow } = await supabase.from("emails").select("subject").eq("id", linkRow.email_id).maybeSingle();
+    await recordAuditLog(supabase, {
+      projectId,
+      userId: user.id,
+      action: "email.unlinked",
+      entity: "project_email_link",
+      refId: linkId,
+      metadata: { emailId: linkRow.email_id, subject: emailRow?.subject ?? null },
+    });
+  } catch (err) {
+    console.warn("Failed to record email unlink audit entry", err);
+  }
+
   return NextResponse.json({ success: true });
 }
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "../../../../../lib/serverAuth";
 import { assertProjectRole } from "../../../../../lib/projectAccess";
 import { mapProjectEmailLinkRow } from "../../../../../lib/projectMappers";
+import { recordAuditLog } from "../../../../../lib/auditLog";
 import type { ProjectLinkSource } from "@kazador/shared";
 
 interface Params {
@@ -102,5 +103,19 @@ export async function POST(request: Request, { params }: Params) {
     return formatError("Failed to link email", 500);
   }
 
+  try {
+    const { data: emailRow } = await supabase.from("emails").select("subject").eq("id", payload.emailId).maybeSingle();
+    await recordAuditLog(supabase, {
+      projectId,
+      userId: user.id,
+      action: "email.linked",
+      entity: "project_email_link",
+      refId: data.id as string,
+      metadata: { emailId: payload.emailId, subject: emailRow?.subject ?? null, source: insertPayload.source },
+    });
+  } catch (err) {
+    console.warn("Failed to record email link audit entry", err);
+  }
+
   return NextResponse.json({ link: mapProjectEmailLinkRow(data) });
 }
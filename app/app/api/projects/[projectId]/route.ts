@@ -15,6 +15,7 @@ import {
   mapApprovalRow,
   mapLaneDefinitionRow,
 } from "../../../../lib/projectMappers";
+import { loadArtistConflictsForProject } from "../../../../lib/artistSchedule";
 import type { ProjectRecord, EmailRecord } from "@kazador/shared";
 import {
   ensureDefaultLabelCoverage,
@@ -245,7 +246,14 @@ export async function GET(request: Request, { params }: Params) {
     email: row.email_id ? emailsById.get(row.email_id as string) ?? null : null,
   }));
 
-  const conflicts = detectTimelineConflicts(timelineItems);
+  const conflicts = detectTimelineConflicts(timelineItems, { dependencies: timelineDependencies });
+
+  let artistConflicts;
+  try {
+    artistConflicts = await loadArtistConflictsForProject(supabase, user.id, project, { crossProjectOnly: true });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load artist schedule", 500);
+  }
   const projectEmails = emailLinks
     .map((entry) => entry.email)
     .filter((value): value is EmailRecord => Boolean(value));
@@ -266,6 +274,7 @@ export async function GET(request: Request, { params }: Params) {
     linkedEmailCount: projectEmails.length,
     assetCount: assets.length,
     conflictCount: conflicts.length,
+    crossProjectConflictCount: artistConflicts.length,
   };
 
   return NextResponse.json({
@@ -283,6 +292,7 @@ export async function GET(request: Request, { params }: Params) {
     approvals,
     stats,
     topActions,
+    artistConflicts,
   });
 }
 
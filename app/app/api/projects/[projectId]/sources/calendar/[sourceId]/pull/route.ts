@@ -9,6 +9,7 @@ import {
 } from "@/lib/googleCalendarClient";
 import { mapGoogleEventToTimelineItem } from "@/lib/calendarMapper";
 import { mapTimelineItemRow, mapProjectSourceRow } from "@/lib/projectMappers";
+import { loadRevisionSnapshots, recordWriteRevisions } from "@/lib/recordRevisions";
 import type { TimelineItemRecord } from "@kazador/shared";
 
 export const runtime = "nodejs";
@@ -146,6 +147,12 @@ export async function POST(
     }
   }
 
+  const assignedItemIds = [...existingEventsMap.values()]
+    .map((row) => row.assigned_timeline_item_id as string | null)
+    .filter((id): id is string => Boolean(id));
+  const revisionsBefore = await loadRevisionSnapshots(supabase, "timeline_item", assignedItemIds);
+  const revisedItemIds = new Set<string>();
+
   const createdIds: string[] = [];
   const updatedIds: string[] = [];
   let skipped = 0;
@@ -213,6 +220,7 @@ export async function POST(
           if (updateItemError && updateItemError.code !== "PGRST116") {
             return formatError(updateItemError.message, 500);
           }
+          revisedItemIds.add(timelineItemId);
 
           if (timelineProjectId === projectId && !createdIds.includes(timelineItemId)) {
             updatedIds.push(timelineItemId);
@@ -247,6 +255,7 @@ export async function POST(
           }
 
           timelineItemId = insertRow?.id ?? null;
+          if (timelineItemId) revisedItemIds.add(timelineItemId);
           if (timelineItemId && timelineProjectId === projectId) {
             createdIds.push(timelineItemId);
           }
@@ -256,6 +265,7 @@ export async function POST(
       }
     } else if (timelineItemId) {
       await supabase.from("project_items").delete().eq("id", timelineItemId).eq("project_id", timelineProjectId);
+      revisedItemIds.add(timelineItemId);
       timelineItemId = null;
     }
 
@@ -288,6 +298,13 @@ export async function POST(
     });
   }
 
+  await recordWriteRevisions(supabase, {
+    entity: "timeline_item",
+    before: revisionsBefore,
+    recordIds: [...revisedItemIds],
+    userId: user.id,
+  });
+
   if (calendarUpserts.length > 0) {
     const { error: upsertError } = await supabase
       .from("calendar_events")
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "../../../../../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../../../../../lib/projectAccess";
+import { mapProjectTaskRow } from "../../../../../../../../../lib/projectMappers";
+import {
+  buildProjectTaskRestoreRow,
+  loadRecordRevision,
+  recordRevision,
+} from "../../../../../../../../../lib/recordRevisions";
+import { getRevisionRestoreSnapshot, type ProjectTaskRecord } from "@kazador/shared";
+
+interface Params {
+  params: {
+    projectId: string;
+    taskId: string;
+    revisionId: string;
+  };
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function POST(request: Request, { params }: Params) {
+  const { projectId, taskId, revisionId } = params;
+  if (!projectId || !taskId || !revisionId) {
+    return formatError("Project id, task id and revision id are required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    await assertProjectRole(supabase, projectId, user.id, "editor");
+  } catch (err: any) {
+    return formatError(err?.message || "Forbidden", err?.status ?? 403);
+  }
+
+  let revision;
+  try {
+    revision = await loadRecordRevision(supabase, {
+      projectId,
+      entity: "project_task",
+      recordId: taskId,
+      revisionId,
+    });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load revision", 500);
+  }
+
+  if (!revision) {
+    return formatError("Revision not found", 404);
+  }
+
+  const snapshot = getRevisionRestoreSnapshot(revision) as ProjectTaskRecord | null;
+  if (!snapshot) {
+    return formatError("Revision has nothing to restore", 400);
+  }
+
+  const { data: currentRow, error: currentError } = await supabase
+    .from("project_tasks")
+    .select("*, lane:lane_definitions(id, slug, name, color, icon)")
+    .eq("id", taskId)
+    .eq("project_id", projectId)
+    .maybeSingle();
+
+  if (currentError) {
+    return formatError(currentError.message, 500);
+  }
+
+  // Upsert so restoring from a delete revision brings the task back under its original id
+  const { data, error } = await supabase
+    .from("project_tasks")
+    .upsert({ ...buildProjectTaskRestoreRow(snapshot), id: taskId, project_id: projectId }, { onConflict: "id" })
+    .select("*, lane:lane_definitions(id, slug, name, color, icon)")
+    .maybeSingle();
+
+  if (error) {
+    return formatError(error.message, 400);
+  }
+
+  if (!data) {
+    return formatError("Failed to restore task", 500);
+  }
+
+  const task = mapProjectTaskRow(data);
+
+  try {
+    await recordRevision(supabase, {
+      projectId,
+      entity: "project_task",
+      recordId: taskId,
+      operation: "restore",
+      before: currentRow ? mapProjectTaskRow(currentRow) : null,
+      after: task,
+      userId: user.id,
+      restoredFromId: revision.id,
+    });
+  } catch (err) {
+    console.error("Failed to record task revision", err);
+  }
+
+  return NextResponse.json({ task });
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "../../../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../../../lib/projectAccess";
+import { listRecordRevisions, parseHistoryLimit } from "../../../../../../../lib/recordRevisions";
+
+interface Params {
+  params: {
+    projectId: string;
+    taskId: string;
+  };
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function GET(request: Request, { params }: Params) {
+  const { projectId, taskId } = params;
+  if (!projectId || !taskId) {
+    return formatError("Project id and task id are required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    await assertProjectRole(supabase, projectId, user.id, "viewer");
+  } catch (err: any) {
+    return formatError(err?.message || "Forbidden", err?.status ?? 403);
+  }
+
+  const url = new URL(request.url);
+
+  try {
+    const revisions = await listRecordRevisions(
+      supabase,
+      { projectId, entity: "project_task", recordId: taskId },
+      parseHistoryLimit(url.searchParams.get("limit"))
+    );
+    return NextResponse.json({ revisions });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load task history", 500);
+  }
+}
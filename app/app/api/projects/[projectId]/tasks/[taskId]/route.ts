@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "../../../../../../lib/serverAuth";
 import { assertProjectRole } from "../../../../../../lib/projectAccess";
 import { mapLaneDefinitionRow, mapProjectTaskRow } from "../../../../../../lib/projectMappers";
+import { recordRevision } from "../../../../../../lib/recordRevisions";
 import { resolveAutoAssignedLane, type TimelineLaneDefinition } from "@kazador/shared";
 
 interface Params {
@@ -124,6 +125,21 @@ export async function PATCH(request: Request, { params }: Params) {
     return formatError("No fields to update", 400);
   }
 
+  const { data: existingRow, error: fetchError } = await supabase
+    .from("project_tasks")
+    .select("*, lane:lane_definitions(id, slug, name, color, icon)")
+    .eq("id", taskId)
+    .eq("project_id", projectId)
+    .maybeSingle();
+
+  if (fetchError) {
+    return formatError(fetchError.message, 500);
+  }
+
+  if (!existingRow) {
+    return formatError("Project task not found", 404);
+  }
+
   const { data, error } = await supabase
     .from("project_tasks")
     .update(updatePayload)
@@ -140,7 +156,23 @@ export async function PATCH(request: Request, { params }: Params) {
     return formatError("Project task not found", 404);
   }
 
-  return NextResponse.json({ task: mapProjectTaskRow(data) });
+  const task = mapProjectTaskRow(data);
+
+  try {
+    await recordRevision(supabase, {
+      projectId,
+      entity: "project_task",
+      recordId: taskId,
+      operation: "update",
+      before: mapProjectTaskRow(existingRow),
+      after: task,
+      userId: user.id,
+    });
+  } catch (err) {
+    console.error("Failed to record task revision", err);
+  }
+
+  return NextResponse.json({ task });
 }
 
 export async function DELETE(request: Request, { params }: Params) {
@@ -162,6 +194,17 @@ export async function DELETE(request: Request, { params }: Params) {
     return formatError(err?.message || "Forbidden", err?.status ?? 403);
   }
 
+  const { data: existingRow, error: fetchError } = await supabase
+    .from("project_tasks")
+    .select("*, lane:lane_definitions(id, slug, name, color, icon)")
+    .eq("id", taskId)
+    .eq("project_id", projectId)
+    .maybeSingle();
+
+  if (fetchError) {
+    return formatError(fetchError.message, 500);
+  }
+
   const { error } = await supabase
     .from("project_tasks")
     .delete()
@@ -172,5 +215,21 @@ export async function DELETE(request: Request, { params }: Params) {
     return formatError(error.message, 400);
   }
 
+  if (existingRow) {
+    try {
+      await recordRevision(supabase, {
+        projectId,
+        entity: "project_task",
+        recordId: taskId,
+        operation: "delete",
+        before: mapProjectTaskRow(existingRow),
+        after: null,
+        userId: user.id,
+      });
+    } catch (err) {
+      console.error("Failed to record task revision", err);
+    }
+  }
+
   return NextResponse.json({ success: true });
 }
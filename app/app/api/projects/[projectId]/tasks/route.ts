@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "../../../../../lib/serverAuth";
 import { assertProjectRole } from "../../../../../lib/projectAccess";
 import { mapLaneDefinitionRow, mapProjectTaskRow } from "../../../../../lib/projectMappers";
+import { runAutomationRulesForEvent } from "../../../../../lib/automationEngine";
+import { recordRevision } from "../../../../../lib/recordRevisions";
 import { resolveAutoAssignedLane, type TimelineLaneDefinition } from "@kazador/shared";
 
 interface Params {
@@ -172,5 +174,40 @@ export async function POST(request: Request, { params }: Params) {
     return formatError("Failed to create task", 500);
   }
 
-  return NextResponse.json({ task: mapProjectTaskRow(data) });
+  const task = mapProjectTaskRow(data);
+
+  try {
+    await recordRevision(supabase, {
+      projectId,
+      entity: "project_task",
+      recordId: task.id,
+      operation: "create",
+      before: null,
+      after: task,
+      userId: user.id,
+    });
+  } catch (err) {
+    console.error("Failed to record task revision", err);
+  }
+
+  try {
+    await runAutomationRulesForEvent(supabase, user.id, {
+      type: "task_created",
+      task: {
+        id: task.id,
+        projectId: task.projectId,
+        title: task.title,
+        description: task.description,
+        status: task.status,
+        priority: task.priority,
+        dueAt: task.dueAt,
+        laneId: task.laneId,
+        laneSlug: task.laneSlug,
+      },
+    });
+  } catch (err) {
+    console.error("Failed to run automation rules for task", task.id, err);
+  }
+
+  return NextResponse.json({ task });
 }
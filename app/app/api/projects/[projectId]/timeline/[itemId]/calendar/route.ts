@@ -11,6 +11,7 @@ import {
 } from "@/lib/googleCalendarClient";
 import { buildGoogleEventFromTimelineItem } from "@/lib/calendarMapper";
 import { recordAuditLog } from "@/lib/auditLog";
+import { recordRevision } from "@/lib/recordRevisions";
 import type { TimelineItemRecord } from "@kazador/shared";
 import type { SupabaseClient } from "@supabase/supabase-js";
 
@@ -228,6 +229,20 @@ async function handleSync(
     return formatError(err?.message || "Failed to reload timeline item", 500);
   }
 
+  try {
+    await recordRevision(supabase, {
+      projectId,
+      entity: "timeline_item",
+      recordId: itemId,
+      operation: "update",
+      before: timelineItem,
+      after: refreshed,
+      userId: user.id,
+    });
+  } catch (err) {
+    console.error("Failed to record timeline item revision", err);
+  }
+
   try {
     await recordAuditLog(supabase, {
       projectId,
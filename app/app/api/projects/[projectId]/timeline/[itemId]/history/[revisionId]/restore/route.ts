@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "../../../../../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../../../../../lib/projectAccess";
+import { mapTimelineItemRow } from "../../../../../../../../../lib/projectMappers";
+import {
+  buildTimelineItemRestoreRow,
+  loadRecordRevision,
+  recordRevision,
+} from "../../../../../../../../../lib/recordRevisions";
+import { getRevisionRestoreSnapshot, type TimelineItemRecord } from "@kazador/shared";
+
+interface Params {
+  params: {
+    projectId: string;
+    itemId: string;
+    revisionId: string;
+  };
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+export async function POST(request: Request, { params }: Params) {
+  const { projectId, itemId, revisionId } = params;
+  if (!projectId || !itemId || !revisionId) {
+    return formatError("Project id, item id and revision id are required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    await assertProjectRole(supabase, projectId, user.id, "editor");
+  } catch (err: any) {
+    return formatError(err?.message || "Forbidden", err?.status ?? 403);
+  }
+
+  let revision;
+  try {
+    revision = await loadRecordRevision(supabase, {
+      projectId,
+      entity: "timeline_item",
+      recordId: itemId,
+      revisionId,
+    });
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to load revision", 500);
+  }
+
+  if (!revision) {
+    return formatError("Revision not found", 404);
+  }
+
+  const snapshot = getRevisionRestoreSnapshot(revision) as TimelineItemRecord | null;
+  if (!snapshot) {
+    return formatError("Revision has nothing to restore", 400);
+  }
+
+  const { data: currentRow, error: currentError } = await supabase
+    .from("timeline_entries")
+    .select("*")
+    .eq("id", itemId)
+    .eq("project_id", projectId)
+    .maybeSingle();
+
+  if (currentError) {
+    return formatError(currentError.message, 500);
+  }
+
+  // Upsert so restoring from a delete revision brings the item back under its original id
+  const { error: restoreError } = await supabase
+    .from("project_items")
+    .upsert({ ...buildTimelineItemRestoreRow(snapshot), id: itemId, project_id: projectId }, { onConflict: "id" });
+
+  if (restoreError) {
+    return formatError(restoreError.message, 400);
+  }
+
+  const { data: entryRow, error: entryError } = await supabase
+    .from("timeline_entries")
+    .select("*")
+    .eq("id", itemId)
+    .maybeSingle();
+
+  if (entryError) {
+    return formatError(entryError.message, 500);
+  }
+
+  if (!entryRow) {
+    return formatError("Failed to load restored item", 500);
+  }
+
+  const item = mapTimelineItemRow(entryRow);
+
+  try {
+    await recordRevision(supabase, {
+      projectId,
+      entity: "timeline_item",
+      recordId: itemId,
+      operation: "restore",
+      before: currentRow ? mapTimelineItemRow(currentRow) : null,
+      after: item,
+      userId: user.id,
+      restoredFromId: revision.id,
+    });
+  } catch (err) {
+    console.error("Failed to record timeline item revision", err);
+  }
+
+  return NextResponse.json({ item });
+}
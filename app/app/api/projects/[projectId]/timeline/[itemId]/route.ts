@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "../../../../../../lib/serverAuth";
 import { assertProjectRole } from "../../../../../../lib/projectAccess";
 import { mapTimelineItemRow } from "../../../../../../lib/projectMappers";
+import { recordRevision } from "../../../../../../lib/recordRevisions";
 import {
   getTimelineLaneForType,
   normaliseTimelineItemStatus,
@@ -67,7 +68,7 @@ export async function PATCH(request: Request, { params }: Params) {
   }
 
   const { data: existingRow, error: fetchError } = await supabase
-    .from("project_items")
+    .from("timeline_entries")
     .select("*")
     .eq("id", itemId)
     .eq("project_id", projectId)
@@ -81,6 +82,8 @@ export async function PATCH(request: Request, { params }: Params) {
     return formatError("Timeline item not found", 404);
   }
 
+  const previousItem = mapTimelineItemRow(existingRow);
+
   const currentLabels = (existingRow.labels as Record<string, unknown> | null) ?? {};
   const labels: Record<string, unknown> = { ...currentLabels };
   if (payload.labels) {
@@ -191,6 +194,20 @@ export async function PATCH(request: Request, { params }: Params) {
 
   const item: TimelineItemRecord = mapTimelineItemRow(entryRow);
 
+  try {
+    await recordRevision(supabase, {
+      projectId,
+      entity: "timeline_item",
+      recordId: itemId,
+      operation: "update",
+      before: previousItem,
+      after: item,
+      userId: user.id,
+    });
+  } catch (err) {
+    console.error("Failed to record timeline item revision", err);
+  }
+
   return NextResponse.json({ item });
 }
 
@@ -213,6 +230,17 @@ export async function DELETE(request: Request, { params }: Params) {
     return formatError(err?.message || "Forbidden", err?.status ?? 403);
   }
 
+  const { data: existingRow, error: fetchError } = await supabase
+    .from("timeline_entries")
+    .select("*")
+    .eq("id", itemId)
+    .eq("project_id", projectId)
+    .maybeSingle();
+
+  if (fetchError) {
+    return formatError(fetchError.message, 500);
+  }
+
   const { error } = await supabase
     .from("project_items")
     .delete()
@@ -223,5 +251,21 @@ export async function DELETE(request: Request, { params }: Params) {
     return formatError(error.message, 400);
   }
 
+  if (existingRow) {
+    try {
+      await recordRevision(supabase, {
+        projectId,
+        entity: "timeline_item",
+        recordId: itemId,
+        operation: "delete",
+        before: mapTimelineItemRow(existingRow),
+        after: null,
+        userId: user.id,
+      });
+    } catch (err) {
+      console.error("Failed to record timeline item revision", err);
+    }
+  }
+
   return NextResponse.json({ success: true });
 }
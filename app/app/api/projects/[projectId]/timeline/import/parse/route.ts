@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { suggestImportMapping } from "@kazador/shared";
+import { requireAuthenticatedUser } from "../../../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../../../lib/projectAccess";
+import { MAX_IMPORT_FILE_BYTES, readTimelineImportFile } from "../../../../../../../lib/timelineImport";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: {
+    projectId: string;
+  };
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * POST /api/projects/:projectId/timeline/import/parse
+ * Reads an uploaded CSV, XLSX or ICS file into rows and suggests a column mapping
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { projectId } = params;
+  if (!projectId) {
+    return formatError("Project id is required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    await assertProjectRole(supabase, projectId, user.id, "editor");
+  } catch (err: any) {
+    return formatError(err?.message || "Forbidden", err?.status ?? 403);
+  }
+
+  let file: File | null = null;
+  try {
+    const formData = await request.formData();
+    const value = formData.get("file");
+    file = value instanceof File ? value : null;
+  } catch (err) {
+    return formatError("Expected a multipart upload", 400);
+  }
+
+  if (!file) {
+    return formatError("file is required", 400);
+  }
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    return formatError("File is larger than 5MB", 413);
+  }
+
+  try {
+    const table = readTimelineImportFile(file.name, Buffer.from(await file.arrayBuffer()));
+    if (table.rows.length === 0) {
+      return formatError("No rows found in the file", 400);
+    }
+    return NextResponse.json({ ...table, mapping: suggestImportMapping(table.columns, table.format) });
+  } catch (err: any) {
+    return formatError(err?.message || "Could not read the file", 400);
+  }
+}
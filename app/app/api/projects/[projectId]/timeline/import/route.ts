@@ -0,0 +1,95 @@
+import { NextResponse } from "next/server";
+import { requireAuthenticatedUser } from "../../../../../../lib/serverAuth";
+import { assertProjectRole } from "../../../../../../lib/projectAccess";
+import { recordAuditLog } from "../../../../../../lib/auditLog";
+import {
+  applyTimelineImport,
+  parseTimelineImportRequest,
+  previewTimelineImport,
+} from "../../../../../../lib/timelineImport";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface Params {
+  params: {
+    projectId: string;
+  };
+}
+
+function formatError(message: string, status = 400) {
+  return NextResponse.json({ error: message }, { status });
+}
+
+/**
+ * POST /api/projects/:projectId/timeline/import
+ * Previews mapped rows against the timeline, or writes them when `commit` is true
+ */
+export async function POST(request: Request, { params }: Params) {
+  const { projectId } = params;
+  if (!projectId) {
+    return formatError("Project id is required", 400);
+  }
+
+  const authResult = await requireAuthenticatedUser(request);
+  if (!authResult.ok) {
+    return formatError(authResult.error, authResult.status);
+  }
+
+  const { supabase, user } = authResult;
+
+  try {
+    await assertProjectRole(supabase, projectId, user.id, "editor");
+  } catch (err: any) {
+    return formatError(err?.message || "Forbidden", err?.status ?? 403);
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch (err) {
+    return formatError("Invalid JSON payload", 400);
+  }
+
+  const parsed = parseTimelineImportRequest(body);
+  if (!parsed.ok) {
+    return formatError(parsed.error, 400);
+  }
+
+  let preview;
+  try {
+    preview = await previewTimelineImport(supabase, projectId, parsed.value);
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to preview import", 500);
+  }
+
+  if (body?.commit !== true) {
+    return NextResponse.json({ preview });
+  }
+
+  const rowIndexes = Array.isArray(body?.rowIndexes)
+    ? (body.rowIndexes as unknown[]).filter((index): index is number => typeof index === "number")
+    : null;
+
+  let result;
+  try {
+    result = await applyTimelineImport(supabase, projectId, user.id, preview, rowIndexes);
+  } catch (err: any) {
+    return formatError(err?.message || "Failed to import timeline items", 500);
+  }
+
+  try {
+    await recordAuditLog(supabase, {
+      projectId,
+      userId: user.id,
+      action: "timeline.imported",
+      entity: "project",
+      refId: projectId,
+      metadata: { ...result, rows: parsed.value.rows.length },
+    });
+  } catch (err) {
+    console.warn("Failed to record timeline import audit entry", err);
+  }
+
+  return NextResponse.json({ preview, result });
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "../../../../../lib/serverAuth";
 import { assertProjectRole } from "../../../../../lib/projectAccess";
 import { mapTimelineItemRow } from "../../../../../lib/projectMappers";
+import { recordRevision } from "../../../../../lib/recordRevisions";
 import {
   getTimelineLaneForType,
   normaliseTimelineItemStatus,
@@ -184,5 +185,19 @@ export async function POST(request: Request, { params }: Params) {
     return formatError("Failed to load created item", 500);
   }
 
+  try {
+    await recordRevision(supabase, {
+      projectId,
+      entity: "timeline_item",
+      recordId: timelineItem.id,
+      operation: "create",
+      before: null,
+      after: timelineItem,
+      userId: user.id,
+    });
+  } catch (err) {
+    console.error("Failed to record timeline item revision", err);
+  }
+
   return NextResponse.json({ item: timelineItem });
 }
@@ -323,6 +323,7 @@ describe("/api/projects route", () => {
       slug: "tour",
       name: "Tour",
       payload: {},
+      version: 2,
     };
 
     const templateItems = [
@@ -347,9 +348,8 @@ describe("/api/projects route", () => {
       project_template_items: {
         queryResult: { data: templateItems, error: null },
       },
-      timeline_items: {
-        insertReturnsBuilder: false,
-        insertResult: { data: null, error: null },
+      project_items: {
+        queryResult: { data: [{ id: "item-1", links: { templateItemKey: "item-1" } }], error: null },
       },
     });
 
@@ -387,26 +387,29 @@ describe("/api/projects route", () => {
       name: "Seeded",
       status: "active",
       created_by: "user-1",
+      template_id: "tpl-1",
+      template_version: 2,
     });
 
     const templateQueryLog = stub.logs.project_templates[0];
-    expect(templateQueryLog.selects[0][0]).toBe("id, name, slug, payload");
+    expect(templateQueryLog.selects[0][0]).toBe("*");
     expect(templateQueryLog.eq[0]).toEqual({ column: "slug", value: "tour" });
 
-    const timelineInsertLog = stub.logs.timeline_items[0];
+    const timelineInsertLog = stub.logs.project_items[0];
     const insertedTimeline = timelineInsertLog.insertPayloads[0] as any[];
     expect(insertedTimeline).toHaveLength(1);
     expect(insertedTimeline[0]).toMatchObject({
       project_id: "proj-42",
-      type: "milestone",
+      type: "RELEASE_MILESTONE",
       title: "Kick-off",
-      lane: "timeline",
-      metadata: { notes: "Important" },
+      labels: { lane: "timeline" },
+      links: { templateItemKey: "item-1" },
+      created_by: "user-1",
     });
-    expect(new Date(insertedTimeline[0].starts_at).toISOString()).toBe(
+    expect(new Date(insertedTimeline[0].start_at).toISOString()).toBe(
       "2025-01-12T00:00:00.000Z"
     );
-    expect(new Date(insertedTimeline[0].ends_at).toISOString()).toBe(
+    expect(new Date(insertedTimeline[0].end_at).toISOString()).toBe(
       "2025-01-15T00:00:00.000Z"
     );
 
@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "../../../lib/serverAuth";
 import { mapProjectRow } from "../../../lib/projectMappers";
+import { applyProjectTemplate, loadProjectTemplate, type ProjectTemplateWithItems } from "../../../lib/projectTemplates";
 import type { ProjectRecord } from "@kazador/shared";
-import type { SupabaseClient } from "@supabase/supabase-js";
 
 interface CreateProjectPayload {
   name: string;
@@ -14,73 +14,10 @@ interface CreateProjectPayload {
   labels?: Record<string, unknown>;
   artistId?: string | null;
   templateSlug?: string | null;
+  templateId?: string | null;
   priorityProfile?: Record<string, unknown> | null;
 }
 
-async function seedProjectFromTemplate(
-  supabase: SupabaseClient,
-  project: ProjectRecord,
-  templateSlug: string
-) {
-  const { data: templateRow, error: templateError } = await supabase
-    .from("project_templates")
-    .select("id, name, slug, payload")
-    .eq("slug", templateSlug)
-    .maybeSingle();
-
-  if (templateError) {
-    throw templateError;
-  }
-
-  if (!templateRow) {
-    throw new Error(`Unknown project template: ${templateSlug}`);
-  }
-
-  const { data: items, error: itemsError } = await supabase
-    .from("project_template_items")
-    .select("id, item_type, title, lane, offset_days, duration_days, metadata")
-    .eq("template_id", templateRow.id);
-
-  if (itemsError) {
-    throw itemsError;
-  }
-
-  if (!items || items.length === 0) {
-    return;
-  }
-
-  if (!project.startDate) {
-    return;
-  }
-
-  const projectStart = new Date(project.startDate);
-
-  const timelinePayload = items.map((item) => {
-    const offsetDays = Number(item.offset_days ?? 0);
-    const durationDays = Number(item.duration_days ?? 0);
-    const startsAt = new Date(projectStart);
-    startsAt.setUTCDate(projectStart.getUTCDate() + offsetDays);
-
-    const endsAt = new Date(startsAt);
-    if (durationDays > 0) {
-      endsAt.setUTCDate(startsAt.getUTCDate() + durationDays);
-    }
-
-    return {
-      project_id: project.id,
-      type: item.item_type,
-      title: item.title,
-      lane: item.lane,
-      starts_at: startsAt.toISOString(),
-      ends_at: durationDays > 0 ? endsAt.toISOString() : null,
-      metadata: item.metadata ?? {},
-      priority: 0,
-    };
-  });
-
-  await supabase.from("timeline_items").insert(timelinePayload);
-}
-
 export async function GET(request: Request) {
   const authResult = await requireAuthenticatedUser(request);
   if (!authResult.ok) {
@@ -154,6 +91,18 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Project name is required" }, { status: 400 });
   }
 
+  let template: ProjectTemplateWithItems | null = null;
+  if (payload.templateId || payload.templateSlug) {
+    try {
+      template = await loadProjectTemplate(supabase, { id: payload.templateId, slug: payload.templateSlug });
+      if (!template) {
+        console.error(`Unknown project template: ${payload.templateId ?? payload.templateSlug}`);
+      }
+    } catch (err: any) {
+      console.error("Failed to load template", err);
+    }
+  }
+
   const insertPayload: Record<string, unknown> = {
     name: payload.name.trim(),
     description: payload.description ?? null,
@@ -165,6 +114,8 @@ export async function POST(request: Request) {
     priority_profile: payload.priorityProfile ?? null,
     created_by: user.id,
     artist_id: payload.artistId ?? null,
+    template_id: template?.template.id ?? null,
+    template_version: template?.template.version ?? null,
   };
 
   const { data: projectRow, error: insertError } = await supabase
@@ -200,9 +151,9 @@ export async function POST(request: Request) {
     console.error("Failed to add creator as project owner", memberError);
   }
 
-  if (payload.templateSlug) {
+  if (template) {
     try {
-      await seedProjectFromTemplate(supabase, project, payload.templateSlug);
+      await applyProjectTemplate(supabase, project, template, user.id);
     } catch (err: any) {
       console.error("Failed to apply template", err);
     }
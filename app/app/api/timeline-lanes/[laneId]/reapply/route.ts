@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { requireAuthenticatedUser } from "../../../../../lib/serverAuth";
 import { mapLaneDefinitionRow } from "../../../../../lib/projectMappers";
+import { loadRevisionSnapshots, recordWriteRevisions } from "../../../../../lib/recordRevisions";
 import { resolveAutoAssignedLane, type LaneAutoAssignContext, type TimelineLaneDefinition } from "@kazador/shared";
 
 interface Params {
@@ -55,6 +56,7 @@ export async function POST(request: Request, { params }: Params) {
   let updated = 0;
   let unchanged = 0;
   let skipped = 0;
+  const laneChanges: Array<{ id: string; projectId: string; laneId: string | null }> = [];
 
   for (const task of taskRows ?? []) {
     const context: LaneAutoAssignContext = {
@@ -74,19 +76,33 @@ export async function POST(request: Request, { params }: Params) {
       continue;
     }
 
+    laneChanges.push({ id: task.id, projectId: task.project_id, laneId: nextLaneId });
+  }
+
+  const before = await loadRevisionSnapshots(
+    supabase,
+    "project_task",
+    laneChanges.map((change) => change.id)
+  );
+  const updatedIds: string[] = [];
+
+  for (const change of laneChanges) {
     const { error: updateError } = await supabase
       .from("project_tasks")
-      .update({ lane_id: nextLaneId })
-      .eq("id", task.id)
-      .eq("project_id", task.project_id);
+      .update({ lane_id: change.laneId })
+      .eq("id", change.id)
+      .eq("project_id", change.projectId);
 
     if (updateError) {
       skipped += 1;
       continue;
     }
 
+    updatedIds.push(change.id);
     updated += 1;
   }
 
+  await recordWriteRevisions(supabase, { entity: "project_task", before, recordIds: updatedIds, userId: user.id });
+
   return NextResponse.json({ updated, unchanged, skipped });
 }
@@ -7,6 +7,8 @@ import {
   mapLaneDefinitionRow,
   mapProjectTaskRow,
 } from "../../../lib/projectMappers";
+import { loadArtistConflictsForProject } from "../../../lib/artistSchedule";
+import { recordWriteRevisions } from "../../../lib/recordRevisions";
 import type {
   ProjectRecord,
   TimelineItemRecord,
@@ -212,6 +214,13 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: insertError.message }, { status: 500 });
     }
 
+    await recordWriteRevisions(supabase, {
+      entity: "timeline_item",
+      before: new Map(),
+      recordIds: [insertedItem.id as string],
+      userId: user.id,
+    });
+
     return NextResponse.json({ item: insertedItem }, { status: 201 });
   } catch (error) {
     return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
@@ -351,5 +360,20 @@ export async function GET(request: Request) {
       (dependency) => allowedIds.has(dependency.fromItemId) && allowedIds.has(dependency.toItemId)
     );
 
-  return NextResponse.json({ project, items: itemsByStatus, dependencies, lanes: laneDefinitions });
+  let artistConflicts;
+  try {
+    artistConflicts = await loadArtistConflictsForProject(supabase, user.id, project);
+  } catch (err: any) {
+    return NextResponse.json({ error: err?.message || "Failed to load artist schedule" }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    project,
+    items: itemsByStatus,
+    dependencies,
+    lanes: laneDefinitions,
+    artistConflicts: artistConflicts.filter((conflict) =>
+      conflict.items.some((item) => itemMatchesRange(item, rangeStartMs, rangeEndMs))
+    ),
+  });
 }
@@ -12,6 +12,7 @@ const BASE_NAV_LINKS = [
   { href: "/projects", label: "Projects" },
   { href: "/timeline", label: "Timeline" },
   { href: "/calendar", label: "Calendar" },
+  { href: "/people", label: "People" },
 ];
 
 const PLACEHOLDER_BUTTONS = ["Clients", "Reports"];
@@ -176,6 +177,13 @@ export default function AppShell({ children }: { children: ReactNode }) {
                 >
                   Timeline lanes
                 </Link>
+                <Link
+                  href="/settings/templates"
+                  className="block px-4 py-2 text-sm text-gray-700 transition hover:bg-gray-100"
+                  role="menuitem"
+                >
+                  Project templates
+                </Link>
                 {profile?.isAdmin ? (
                   <Link
                     href="/admin"
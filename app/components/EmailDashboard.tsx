@@ -5,6 +5,7 @@ import type {
   EmailLabel,
   EmailRecord,
   EmailProjectContext,
+  GmailAccountSummary,
   PriorityEmailActionRule,
   ProjectRecord,
   ProjectEmailLinkRecord,
@@ -19,6 +20,7 @@ import {
   calculateEmailInboxPriority,
   buildEmailPriorityBreakdown,
   clonePriorityConfig,
+  formatGmailAccountLabel,
   type PriorityConfig,
 } from "@kazador/shared";
 import {
@@ -29,6 +31,7 @@ import {
   linkEmailToProject,
   unlinkEmailFromProject,
   updateEmailTriage,
+  fetchGmailAccounts,
   type UpdateEmailTriageOptions,
   type ProjectListItem,
 } from "../lib/supabaseClient";
@@ -57,6 +60,7 @@ const FILTER_STORAGE_KEYS = {
   scope: "kazador:inbox:scope",
   source: "kazador:inbox:source",
   label: "kazador:inbox:label",
+  account: "kazador:inbox:account",
 } as const;
 
 const SOURCE_FILTER_OPTIONS: Array<{ value: EmailSourceFilter; label: string; description?: string }> = [
@@ -471,6 +475,14 @@ function EmailPreview({
               <span className="inline-flex items-center rounded-full border border-gray-200 px-3 py-1 text-xs font-medium uppercase tracking-wide text-gray-600">
                 {formatSourceLabel(email.source)}
               </span>
+              {email.accountEmail && (
+                <span
+                  className="inline-flex items-center rounded-full border border-gray-200 px-3 py-1 text-xs font-medium text-gray-600"
+                  title="Received in this mailbox"
+                >
+                  {email.accountEmail}
+                </span>
+              )}
               <span className="inline-flex items-center rounded-full border border-gray-200 px-3 py-1 text-xs font-medium uppercase tracking-wide text-gray-600">
                 {formatLabel(email.category)}
               </span>
@@ -1407,6 +1419,8 @@ export default function EmailDashboard() {
   const [statusMessage, setStatusMessage] = useState<StatusMessage | null>(null);
   const [statsScope, setStatsScope] = useState<EmailStatsScope>("unread");
   const [sourceFilter, setSourceFilter] = useState<EmailSourceFilter>("all");
+  const [accountFilter, setAccountFilter] = useState<string>("all");
+  const [gmailAccounts, setGmailAccounts] = useState<GmailAccountSummary[]>([]);
   const [labelFilter, setLabelFilter] = useState<LabelFilterValue>("all");
   const [lastRefreshedAt, setLastRefreshedAt] = useState<Date | null>(null);
   const [selectedEmail, setSelectedEmail] = useState<EmailRecord | null>(null);
@@ -1503,6 +1517,11 @@ export default function EmailDashboard() {
       setLabelFilter(storedLabel as EmailLabel);
     }
 
+    const storedAccount = window.localStorage.getItem(FILTER_STORAGE_KEYS.account);
+    if (storedAccount) {
+      setAccountFilter(storedAccount);
+    }
+
     filtersHydratedRef.current = true;
   }, []);
 
@@ -1527,6 +1546,35 @@ export default function EmailDashboard() {
     window.localStorage.setItem(FILTER_STORAGE_KEYS.label, labelFilter);
   }, [labelFilter]);
 
+  useEffect(() => {
+    if (!filtersHydratedRef.current || typeof window === "undefined") {
+      return;
+    }
+    window.localStorage.setItem(FILTER_STORAGE_KEYS.account, accountFilter);
+  }, [accountFilter]);
+
+  useEffect(() => {
+    if (!accessToken) {
+      return;
+    }
+    let cancelled = false;
+    fetchGmailAccounts(accessToken)
+      .then((accounts) => {
+        if (cancelled) return;
+        setGmailAccounts(accounts);
+        // A stored mailbox may have been disconnected since
+        setAccountFilter((current) =>
+          current === "all" || accounts.some((account) => account.id === current) ? current : "all"
+        );
+      })
+      .catch((err) => {
+        console.error("Failed to load Gmail accounts", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken]);
+
   useEffect(() => {
     if (!featureFlags.priorityV3 || !accessToken) {
       setPriorityConfig(clonePriorityConfig(DEFAULT_PRIORITY_CONFIG));
@@ -1542,7 +1590,7 @@ export default function EmailDashboard() {
     fetchPriorityConfig(accessToken)
       .then((response) => {
         if (cancelled) return;
-        setPriorityConfig(clonePriorityConfig(response.config));
+        setPriorityConfig(clonePriorityConfig(response.effectiveConfig));
         setPriorityConfigError(null);
       })
       .catch((err) => {
@@ -1603,7 +1651,12 @@ export default function EmailDashboard() {
 
       try {
         const [statsData, emailData] = await Promise.all([
-          fetchEmailStats({ accessToken, scope: statsScope, source: sourceFilter }),
+          fetchEmailStats({
+            accessToken,
+            scope: statsScope,
+            source: sourceFilter,
+            accountId: accountFilter !== "all" ? accountFilter : null,
+          }),
           fetchRecentEmails({
             page: targetPage,
             perPage:
@@ -1613,6 +1666,7 @@ export default function EmailDashboard() {
             accessToken,
             label: labelFilter !== "all" ? labelFilter : undefined,
             source: sourceFilter,
+            accountId: accountFilter !== "all" ? accountFilter : null,
           }),
         ]);
         setStats(statsData);
@@ -1638,6 +1692,7 @@ export default function EmailDashboard() {
       statsScope,
       labelFilter,
       sourceFilter,
+      accountFilter,
     ]
   );
 
@@ -1685,6 +1740,15 @@ export default function EmailDashboard() {
     }));
   }, []);
 
+  const handleAccountChange = useCallback((nextAccount: string) => {
+    emailPageRef.current = 1;
+    setAccountFilter(nextAccount);
+    setEmailPagination((prev) => ({
+      ...prev,
+      page: 1,
+    }));
+  }, []);
+
   const handleLabelFilterChange = useCallback((nextValue: LabelFilterValue) => {
     emailPageRef.current = 1;
     setLabelFilter(nextValue);
@@ -2310,6 +2374,23 @@ export default function EmailDashboard() {
               })}
             </div>
           </div>
+          {gmailAccounts.length > 1 && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-600">Mailbox:</span>
+              <select
+                value={accountFilter}
+                onChange={(event) => handleAccountChange(event.target.value)}
+                className="rounded border border-gray-300 bg-white px-3 py-1 text-sm text-gray-700 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+              >
+                <option value="all">All mailboxes</option>
+                {gmailAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {formatGmailAccountLabel(account)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-gray-600">Label:</span>
             <select
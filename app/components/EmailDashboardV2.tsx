@@ -2,10 +2,15 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type {
+  ApprovalRecord,
+  BookingOfferRecord,
   EmailLabel,
   EmailRecord,
+  EmailThreadRecord,
   EmailProjectContext,
+  EmailReplyDraftEdit,
   PriorityEmailActionRule,
+  SnoozePresetOption,
 } from "@kazador/shared";
 import { useAuth } from "./AuthProvider";
 import {
@@ -14,13 +19,29 @@ import {
   DEFAULT_PRIORITY_CONFIG,
   calculateEmailInboxPriority,
   clonePriorityConfig,
+  getBookingOfferKind,
+  getPriorityConfigPreset,
   type PriorityConfig,
 } from "@kazador/shared";
 import {
   DEFAULT_EMAILS_PER_PAGE,
+  fetchBookingOffer,
   fetchEmailStats,
+  fetchEmailThread,
+  fetchProjects,
   fetchRecentEmails,
+  fetchSnoozePresets,
+  linkEmailThreadToProject,
+  requestBookingHold,
+  requestEmailReplyDraft,
+  respondToApproval,
+  searchEmails,
+  updateEmailThreadTriage,
   updateEmailTriage,
+  updateBookingOffer,
+  updateReplyDraftApproval,
+  type EmailSearchResponse,
+  type UpdateBookingOfferInput,
   type UpdateEmailTriageOptions,
   type EmailStatsScope,
   type EmailSourceFilter,
@@ -29,12 +50,15 @@ import {
 import { fetchPriorityConfig } from "../lib/priorityConfigClient";
 import { CompactFilterToolbar, type SavedView, type FilterState } from "./inbox/CompactFilterToolbar";
 import { CollapsiblePrioritySection, type PriorityZone } from "./inbox/CollapsiblePrioritySection";
-import { PersistentPreviewPanel } from "./inbox/PersistentPreviewPanel";
+import { PersistentPreviewPanel, type PreviewViewMode } from "./inbox/PersistentPreviewPanel";
+import { InboxSearchBar } from "./inbox/InboxSearchBar";
+import { EmailTableRow } from "./inbox/EmailTableRow";
 import {
   EmailTableSkeleton,
   StatsBarSkeleton,
   InboxZeroState,
   NoResultsState,
+  NoSearchResultsState,
   LoadingState,
   ErrorState
 } from "./inbox/LoadingStates";
@@ -84,6 +108,15 @@ export default function EmailDashboardV2() {
 
   // Preview panel state
   const [showBreakdown, setShowBreakdown] = useState(false);
+  const [previewMode, setPreviewMode] = useState<PreviewViewMode>("thread");
+  const [thread, setThread] = useState<EmailThreadRecord | null>(null);
+  const [threadLoading, setThreadLoading] = useState(false);
+  const [linkableProjects, setLinkableProjects] = useState<Array<{ id: string; name: string }>>([]);
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, ApprovalRecord>>({});
+  const [replyDraftBusy, setReplyDraftBusy] = useState(false);
+  const [bookingOffers, setBookingOffers] = useState<Record<string, BookingOfferRecord | null>>({});
+  const [bookingOfferBusy, setBookingOfferBusy] = useState(false);
+  const [snoozePresets, setSnoozePresets] = useState<SnoozePresetOption[]>([]);
 
   // Updating email IDs (for loading states)
   const [updatingEmailIds, setUpdatingEmailIds] = useState<Set<string>>(new Set());
@@ -100,11 +133,23 @@ export default function EmailDashboardV2() {
   // Classify emails
   const [classifying, setClassifying] = useState(false);
 
+  // Search
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchPage, setSearchPage] = useState(1);
+  const [searchResults, setSearchResults] = useState<EmailSearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const isSearching = searchQuery.length > 0;
+
   // ========== Derived State ==========
 
   const selectedEmail = useMemo(() => {
-    return emails.find((e) => e.id === selectedEmailId) ?? null;
-  }, [emails, selectedEmailId]);
+    return (
+      emails.find((e) => e.id === selectedEmailId) ??
+      searchResults?.items.find((e) => e.id === selectedEmailId) ??
+      null
+    );
+  }, [emails, searchResults, selectedEmailId]);
 
   const filteredEmails = useMemo(() => {
     let result = emails;
@@ -204,6 +249,17 @@ export default function EmailDashboardV2() {
     return zones;
   }, [filteredEmails]);
 
+  const activeSchedule = useMemo(() => {
+    const { activeEntryId, activePresetSlug, entries } = priorityConfig.scheduling;
+    if (!activeEntryId || !activePresetSlug) return null;
+    const preset = getPriorityConfigPreset(activePresetSlug);
+    const entry = entries.find((item) => item.id === activeEntryId);
+    return {
+      presetName: preset?.name ?? activePresetSlug,
+      label: entry?.label ?? null,
+    };
+  }, [priorityConfig]);
+
   // ========== Handlers ==========
 
   const addUpdatingEmail = useCallback((id: string) => {
@@ -220,16 +276,37 @@ export default function EmailDashboardV2() {
 
   const updateEmailState = useCallback((updated: EmailRecord) => {
     setEmails((prev) => prev.map((email) => (email.id === updated.id ? updated : email)));
+    setSearchResults((prev) =>
+      prev
+        ? {
+            ...prev,
+            items: prev.items.map((email) =>
+              email.id === updated.id
+                ? { ...updated, attachments: email.attachments, linkedProjects: email.linkedProjects }
+                : email
+            ),
+          }
+        : prev
+    );
   }, []);
 
   const performTriageUpdate = useCallback(
     async (emailId: string, updates: Omit<UpdateEmailTriageOptions, "accessToken">, successMessage: string) => {
       if (!accessToken) return;
 
+      const email = emails.find((item) => item.id === emailId) ?? searchResults?.items.find((item) => item.id === emailId);
+      const threadId = previewMode === "thread" && email?.threadId && selectedEmailId === emailId ? email.threadId : null;
+
       addUpdatingEmail(emailId);
       try {
-        const updatedEmail = await updateEmailTriage(emailId, { ...updates, accessToken });
-        updateEmailState(updatedEmail);
+        if (threadId) {
+          const updatedThread = await updateEmailThreadTriage(threadId, { ...updates, accessToken });
+          updatedThread.emails.forEach(updateEmailState);
+          setThread(updatedThread);
+        } else {
+          const updatedEmail = await updateEmailTriage(emailId, { ...updates, accessToken });
+          updateEmailState(updatedEmail);
+        }
         setStatusMessage({ type: "success", message: successMessage });
         setTimeout(() => setStatusMessage(null), 3000);
       } catch (err) {
@@ -240,7 +317,16 @@ export default function EmailDashboardV2() {
         removeUpdatingEmail(emailId);
       }
     },
-    [accessToken, addUpdatingEmail, removeUpdatingEmail, updateEmailState]
+    [
+      accessToken,
+      emails,
+      searchResults,
+      previewMode,
+      selectedEmailId,
+      addUpdatingEmail,
+      removeUpdatingEmail,
+      updateEmailState
+    ]
   );
 
   const handleAcknowledge = useCallback(
@@ -262,17 +348,20 @@ export default function EmailDashboardV2() {
   );
 
   const handleSnooze = useCallback(
-    (email: EmailRecord) => {
-      // For now, snooze for 24 hours
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
+    (email: EmailRecord, preset?: SnoozePresetOption) => {
+      // Quick actions without an explicit choice use "tomorrow morning",
+      // falling back to 24 hours when presets have not loaded.
+      const option = preset ?? snoozePresets.find((entry) => entry.preset === "tomorrow_morning");
+      const fallback = new Date();
+      fallback.setDate(fallback.getDate() + 1);
+      const snoozedUntil = option?.snoozedUntil ?? fallback.toISOString();
       void performTriageUpdate(
         email.id,
-        { triageState: "snoozed", snoozedUntil: tomorrow.toISOString(), isRead: false },
-        "Email snoozed until tomorrow"
+        { triageState: "snoozed", snoozedUntil, isRead: false },
+        option ? `Email snoozed: ${option.label}` : "Email snoozed until tomorrow"
       );
     },
-    [performTriageUpdate]
+    [performTriageUpdate, snoozePresets]
   );
 
   const handleUnsnooze = useCallback(
@@ -286,8 +375,40 @@ export default function EmailDashboardV2() {
     [performTriageUpdate]
   );
 
+  // Labels belong to a single message, so relabelling skips the thread endpoint
+  const handleUpdateLabels = useCallback(
+    async (email: EmailRecord, labels: EmailLabel[]) => {
+      if (!accessToken) return;
+
+      addUpdatingEmail(email.id);
+      try {
+        const updatedEmail = await updateEmailTriage(email.id, { labels, accessToken });
+        updateEmailState(updatedEmail);
+        setThread((prev) =>
+          prev
+            ? {
+                ...prev,
+                emails: prev.emails.map((item) =>
+                  item.id === updatedEmail.id ? { ...item, labels: updatedEmail.labels, category: updatedEmail.category } : item
+                ),
+              }
+            : prev
+        );
+        setStatusMessage({ type: "success", message: "Labels updated" });
+        setTimeout(() => setStatusMessage(null), 3000);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Unknown error";
+        setStatusMessage({ type: "error", message: errorMessage });
+        setTimeout(() => setStatusMessage(null), 5000);
+      } finally {
+        removeUpdatingEmail(email.id);
+      }
+    },
+    [accessToken, addUpdatingEmail, removeUpdatingEmail, updateEmailState]
+  );
+
   const handleOpenGmail = useCallback((email: EmailRecord) => {
-    const url = `https://mail.google.com/mail/u/0/#inbox/${email.id}`;
+    const url = `https://mail.google.com/mail/u/0/#inbox/${email.threadId ?? email.id}`;
     window.open(url, "_blank");
   }, []);
 
@@ -296,6 +417,124 @@ export default function EmailDashboardV2() {
     console.log("Link to project:", email);
   }, []);
 
+  const handleLinkThreadProject = useCallback(
+    async (threadId: string, projectId: string) => {
+      if (!accessToken) return;
+      try {
+        await linkEmailThreadToProject(projectId, threadId, accessToken);
+        const updatedThread = await fetchEmailThread(threadId, accessToken);
+        updatedThread.emails.forEach(updateEmailState);
+        setThread(updatedThread);
+        setStatusMessage({ type: "success", message: "Conversation linked to project" });
+        setTimeout(() => setStatusMessage(null), 3000);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to link conversation";
+        setStatusMessage({ type: "error", message: errorMessage });
+        setTimeout(() => setStatusMessage(null), 5000);
+      }
+    },
+    [accessToken, updateEmailState]
+  );
+
+  const showReplyDraftError = useCallback((err: unknown, fallback: string) => {
+    const errorMessage = err instanceof Error ? err.message : fallback;
+    setStatusMessage({ type: "error", message: errorMessage });
+    setTimeout(() => setStatusMessage(null), 5000);
+  }, []);
+
+  const storeReplyDraft = useCallback((approval: ApprovalRecord) => {
+    const emailId = approval.payload?.emailId;
+    if (typeof emailId !== "string") return;
+    setReplyDrafts((prev) => ({ ...prev, [emailId]: approval }));
+  }, []);
+
+  const handleDraftReply = useCallback(
+    async (email: EmailRecord) => {
+      if (!accessToken) return;
+      setReplyDraftBusy(true);
+      try {
+        storeReplyDraft(await requestEmailReplyDraft(email.id, accessToken));
+        setStatusMessage({ type: "success", message: "Reply drafted — review it before saving to Gmail" });
+        setTimeout(() => setStatusMessage(null), 3000);
+      } catch (err) {
+        showReplyDraftError(err, "Failed to draft reply");
+      } finally {
+        setReplyDraftBusy(false);
+      }
+    },
+    [accessToken, storeReplyDraft, showReplyDraftError]
+  );
+
+  const handleSaveReplyDraft = useCallback(
+    async (approvalId: string, edit: EmailReplyDraftEdit) => {
+      if (!accessToken) return;
+      setReplyDraftBusy(true);
+      try {
+        storeReplyDraft(await updateReplyDraftApproval(approvalId, edit, accessToken));
+      } catch (err) {
+        showReplyDraftError(err, "Failed to save reply draft");
+      } finally {
+        setReplyDraftBusy(false);
+      }
+    },
+    [accessToken, storeReplyDraft, showReplyDraftError]
+  );
+
+  const handleResolveReplyDraft = useCallback(
+    async (approvalId: string, action: "approve" | "decline") => {
+      if (!accessToken) return;
+      setReplyDraftBusy(true);
+      try {
+        const approval = await respondToApproval(approvalId, action, { accessToken });
+        storeReplyDraft(approval);
+        setStatusMessage({
+          type: "success",
+          message: action === "approve" ? "Reply saved to your Gmail drafts" : "Reply draft discarded",
+        });
+        setTimeout(() => setStatusMessage(null), 3000);
+      } catch (err) {
+        showReplyDraftError(err, "Failed to process reply draft");
+      } finally {
+        setReplyDraftBusy(false);
+      }
+    },
+    [accessToken, storeReplyDraft, showReplyDraftError]
+  );
+
+  const handleUpdateBookingOffer = useCallback(
+    async (email: EmailRecord, input: UpdateBookingOfferInput) => {
+      if (!accessToken) return;
+      setBookingOfferBusy(true);
+      try {
+        const offer = await updateBookingOffer(email.id, input, accessToken);
+        setBookingOffers((prev) => ({ ...prev, [email.id]: offer }));
+      } catch (err) {
+        showReplyDraftError(err, "Failed to update booking offer");
+      } finally {
+        setBookingOfferBusy(false);
+      }
+    },
+    [accessToken, showReplyDraftError]
+  );
+
+  const handleRequestBookingHold = useCallback(
+    async (email: EmailRecord) => {
+      if (!accessToken) return;
+      setBookingOfferBusy(true);
+      try {
+        const { offer } = await requestBookingHold(email.id, accessToken);
+        setBookingOffers((prev) => ({ ...prev, [email.id]: offer }));
+        setStatusMessage({ type: "success", message: "Hold queued — it reaches the timeline once approved" });
+        setTimeout(() => setStatusMessage(null), 3000);
+      } catch (err) {
+        showReplyDraftError(err, "Failed to request hold");
+      } finally {
+        setBookingOfferBusy(false);
+      }
+    },
+    [accessToken, showReplyDraftError]
+  );
+
   const handleSelectEmail = useCallback(
     (email: EmailRecord) => {
       setSelectedEmailId(email.id);
@@ -353,6 +592,99 @@ export default function EmailDashboardV2() {
     }
   }, [accessToken]);
 
+  const handleSearch = useCallback((query: string) => {
+    setSearchQuery(query);
+    setSearchPage(1);
+    if (!query) {
+      setSearchResults(null);
+      setSearchError(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!accessToken || !searchQuery) return;
+
+    const controller = new AbortController();
+    setSearching(true);
+    setSearchError(null);
+
+    searchEmails({
+      query: searchQuery,
+      page: searchPage,
+      perPage: 50,
+      accessToken,
+      signal: controller.signal
+    })
+      .then((result) => setSearchResults(result))
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setSearchError(err instanceof Error ? err.message : "Search failed");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setSearching(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [accessToken, searchQuery, searchPage]);
+
+  const selectedThreadId = selectedEmail?.threadId ?? null;
+
+  useEffect(() => {
+    if (!accessToken || !selectedThreadId || previewMode !== "thread") return;
+
+    let cancelled = false;
+    setThreadLoading(true);
+    fetchEmailThread(selectedThreadId, accessToken)
+      .then((result) => {
+        if (!cancelled) setThread(result);
+      })
+      .catch((err) => {
+        console.error("Failed to load email thread:", err);
+        if (!cancelled) setThread(null);
+      })
+      .finally(() => {
+        if (!cancelled) setThreadLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, selectedThreadId, previewMode]);
+
+  useEffect(() => {
+    if (!accessToken) return;
+    fetchProjects({ accessToken, status: "active" })
+      .then((items) => setLinkableProjects(items.map((item) => ({ id: item.project.id, name: item.project.name }))))
+      .catch((err) => console.error("Failed to load projects:", err));
+  }, [accessToken]);
+
+  const selectedBookingOfferKind = selectedEmail ? getBookingOfferKind(selectedEmail.labels ?? []) : null;
+
+  useEffect(() => {
+    if (!accessToken || !selectedEmailId || !selectedBookingOfferKind) return;
+
+    let cancelled = false;
+    fetchBookingOffer(selectedEmailId, accessToken)
+      .then((offer) => {
+        if (!cancelled) setBookingOffers((prev) => ({ ...prev, [selectedEmailId]: offer }));
+      })
+      .catch((err) => console.error("Failed to load booking offer:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, selectedEmailId, selectedBookingOfferKind]);
+
+  // Presets are relative to the current time, so refresh them per selection.
+  useEffect(() => {
+    if (!accessToken || !selectedEmailId) return;
+    fetchSnoozePresets(accessToken)
+      .then(setSnoozePresets)
+      .catch((err) => console.error("Failed to load snooze presets:", err));
+  }, [accessToken, selectedEmailId]);
+
   // Compute stats from emails
   useEffect(() => {
     const today = new Date();
@@ -373,8 +705,8 @@ export default function EmailDashboardV2() {
     setPriorityConfigLoading(true);
     try {
       const result = await fetchPriorityConfig(accessToken);
-      if (result.config) {
-        setPriorityConfig(result.config);
+      if (result.effectiveConfig) {
+        setPriorityConfig(result.effectiveConfig);
       }
     } catch (err) {
       console.error("Failed to load priority config:", err);
@@ -493,6 +825,8 @@ export default function EmailDashboardV2() {
         stats={stats}
       />
 
+      <InboxSearchBar value={searchQuery} onSearch={handleSearch} searching={searching} />
+
       {/* Stats Bar */}
       <div className="flex items-center justify-between border-b border-gray-200 bg-white px-6 py-2">
         <div className="flex items-center gap-6 text-sm text-gray-600">
@@ -509,6 +843,17 @@ export default function EmailDashboardV2() {
           <span>
             <span className="font-semibold text-yellow-700">{emailsByZone.medium.length}</span> medium
           </span>
+          {activeSchedule && (
+            <>
+              <span className="text-gray-400">|</span>
+              <span
+                className="rounded-full bg-indigo-50 px-2 py-0.5 text-xs font-medium text-indigo-700"
+                title={activeSchedule.label ? `Scheduled by "${activeSchedule.label}"` : undefined}
+              >
+                {activeSchedule.presetName} preset active
+              </span>
+            </>
+          )}
         </div>
         <button
           onClick={handleClassifyEmails}
@@ -533,7 +878,75 @@ export default function EmailDashboardV2() {
       <div className="flex flex-1 overflow-hidden">
         {/* Email List (60%) */}
         <div className="flex-1 overflow-y-auto bg-white">
-          {!hasEmails && (
+          {isSearching && (
+            <div>
+              <div className="flex items-center justify-between border-b border-gray-200 px-6 py-3 text-sm text-gray-600">
+                <span>
+                  {searchError ? (
+                    <span className="text-red-600">{searchError}</span>
+                  ) : searchResults ? (
+                    <>
+                      <span className="font-semibold text-gray-900">{searchResults.pagination.total}</span> results for{" "}
+                      <span className="font-mono text-gray-900">{searchQuery}</span>
+                      {searchResults.truncated && (
+                        <span className="ml-2 text-xs text-gray-400">(not every match is shown; try a narrower search)</span>
+                      )}
+                    </>
+                  ) : (
+                    "Searching…"
+                  )}
+                </span>
+                {searchResults && searchResults.pagination.totalPages > 1 && (
+                  <span className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setSearchPage((page) => Math.max(page - 1, 1))}
+                      disabled={searching || searchResults.pagination.page <= 1}
+                      className="rounded border border-gray-300 px-2 py-0.5 text-xs disabled:opacity-50"
+                    >
+                      Previous
+                    </button>
+                    <span className="text-xs">
+                      Page {searchResults.pagination.page} of {searchResults.pagination.totalPages}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setSearchPage((page) => page + 1)}
+                      disabled={searching || !searchResults.pagination.hasMore}
+                      className="rounded border border-gray-300 px-2 py-0.5 text-xs disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  </span>
+                )}
+              </div>
+              {searchResults && searchResults.items.length === 0 && !searching ? (
+                <NoSearchResultsState query={searchQuery} onClearSearch={() => handleSearch("")} />
+              ) : (
+                <table className="w-full">
+                  <tbody>
+                    {(searchResults?.items ?? []).map((email) => (
+                      <EmailTableRow
+                        key={email.id}
+                        email={email}
+                        isSelected={selectedEmailIds.has(email.id)}
+                        isHighlighted={email.id === highlightedEmailId}
+                        onSelect={() => handleSelectEmail(email)}
+                        onToggleSelect={() => handleToggleSelect(email)}
+                        onAcknowledge={() => handleAcknowledge(email)}
+                        onSnooze={() => handleSnooze(email)}
+                        onLinkProject={() => handleLinkProject(email)}
+                        loading={updatingEmailIds.has(email.id)}
+                        searchMatch={searchResults?.matches[email.id] ?? null}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+
+          {!isSearching && !hasEmails && (
             hasActiveFilters ? (
               <NoResultsState onClearFilters={handleClearFilters} />
             ) : (
@@ -541,7 +954,7 @@ export default function EmailDashboardV2() {
             )
           )}
 
-          {hasEmails && (
+          {!isSearching && hasEmails && (
             <>
               <CollapsiblePrioritySection
                 zone="critical"
@@ -615,10 +1028,27 @@ export default function EmailDashboardV2() {
           onUnsnooze={handleUnsnooze}
           onOpenGmail={handleOpenGmail}
           onLinkProject={handleLinkProject}
+          onUpdateLabels={(email, labels) => void handleUpdateLabels(email, labels)}
           loading={selectedEmail ? updatingEmailIds.has(selectedEmail.id) : false}
           priorityConfig={priorityConfig}
           showBreakdown={showBreakdown}
           onToggleBreakdown={() => setShowBreakdown(!showBreakdown)}
+          thread={thread}
+          threadLoading={threadLoading}
+          viewMode={previewMode}
+          onViewModeChange={setPreviewMode}
+          linkableProjects={linkableProjects}
+          onLinkThreadProject={handleLinkThreadProject}
+          replyDraft={selectedEmail ? replyDrafts[selectedEmail.id] ?? null : null}
+          replyDraftBusy={replyDraftBusy}
+          bookingOffer={selectedEmail ? bookingOffers[selectedEmail.id] ?? null : null}
+          bookingOfferBusy={bookingOfferBusy}
+          onUpdateBookingOffer={handleUpdateBookingOffer}
+          onRequestBookingHold={handleRequestBookingHold}
+          onDraftReply={handleDraftReply}
+          onSaveReplyDraft={handleSaveReplyDraft}
+          onResolveReplyDraft={handleResolveReplyDraft}
+          snoozePresets={snoozePresets}
         />
       </div>
     </div>
@@ -6,6 +6,7 @@ import AdminUsersPanel from "./AdminUsersPanel";
 import AdminProjectsPanel from "./AdminProjectsPanel";
 import AdminDataPanel from "./AdminDataPanel";
 import AdminEmailSettingsPanel from "./AdminEmailSettingsPanel";
+import AdminLabelAccuracyPanel from "./AdminLabelAccuracyPanel";
 
 interface OverviewStats {
   totalUsers: number;
@@ -39,6 +40,7 @@ const TABS = [
   { id: "users", label: "Users" },
   { id: "projects", label: "Projects" },
   { id: "email-settings", label: "Email Settings" },
+  { id: "label-accuracy", label: "Label accuracy" },
   { id: "data", label: "Data ops" },
 ] as const;
 
@@ -249,6 +251,10 @@ export default function AdminDashboard() {
         <AdminEmailSettingsPanel accessToken={accessToken} />
       ) : null}
 
+      {activeTab === "label-accuracy" ? (
+        <AdminLabelAccuracyPanel accessToken={accessToken} />
+      ) : null}
+
       {activeTab === "data" ? (
         <AdminDataPanel accessToken={accessToken} onChange={handleChildChange} />
       ) : null}
@@ -1,29 +1,30 @@
 "use client";
 
 import { useCallback, useEffect, useState } from "react";
-import { PRIMARY_LABEL_DEFINITIONS, CROSS_LABEL_DEFINITIONS } from "@kazador/shared";
-import type { LabelDefinition, CrossLabelDefinition } from "@kazador/shared";
+import {
+  PRIMARY_LABEL_DEFINITIONS,
+  CROSS_LABEL_DEFINITIONS,
+  DEFAULT_CLASSIFICATION_PROMPT_SETTINGS,
+  buildClassificationSystemMessage,
+} from "@kazador/shared";
+import type {
+  LabelDefinition,
+  CrossLabelDefinition,
+  ClassificationPromptSettings,
+  ClassificationPromptVersionRecord,
+} from "@kazador/shared";
 
 interface CustomLabel extends LabelDefinition {
   id: string;
   isCustom: boolean;
 }
 
-interface ClassificationPromptSettings {
-  systemMessage: string;
-  userInstructions: string;
-  model: string;
-  temperature: number;
-  maxLabels: number;
-}
+const DEFAULT_PROMPT_SETTINGS = DEFAULT_CLASSIFICATION_PROMPT_SETTINGS;
 
-const DEFAULT_PROMPT_SETTINGS: ClassificationPromptSettings = {
-  systemMessage: "",
-  userInstructions: "",
-  model: "gpt-4o-mini",
-  temperature: 0.4,
-  maxLabels: 3,
-};
+function formatVersionDate(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
 
 interface AdminEmailSettingsPanelProps {
   accessToken: string | null;
@@ -44,6 +45,9 @@ export default function AdminEmailSettingsPanel({ accessToken }: AdminEmailSetti
   const [promptError, setPromptError] = useState<string | null>(null);
   const [editingPrompt, setEditingPrompt] = useState(false);
   const [savingPrompt, setSavingPrompt] = useState(false);
+  const [activePromptVersion, setActivePromptVersion] = useState<number | null>(null);
+  const [promptVersions, setPromptVersions] = useState<ClassificationPromptVersionRecord[]>([]);
+  const [rollingBackVersion, setRollingBackVersion] = useState<number | null>(null);
 
   // Status messages
   const [statusMessage, setStatusMessage] = useState<{ type: "success" | "error"; message: string } | null>(null);
@@ -93,6 +97,8 @@ export default function AdminEmailSettingsPanel({ accessToken }: AdminEmailSetti
 
       const data = await response.json();
       setPromptSettings(data.settings || DEFAULT_PROMPT_SETTINGS);
+      setActivePromptVersion(typeof data.version === "number" ? data.version : null);
+      setPromptVersions(Array.isArray(data.versions) ? data.versions : []);
     } catch (err) {
       // If endpoint doesn't exist yet, use defaults
       console.error("Failed to load prompt settings:", err);
@@ -205,7 +211,13 @@ export default function AdminEmailSettingsPanel({ accessToken }: AdminEmailSetti
         throw new Error("Failed to save classification prompt");
       }
 
-      showStatus("success", "Classification prompt updated successfully");
+      const data = await response.json();
+      showStatus(
+        "success",
+        typeof data.version === "number"
+          ? `Classification prompt saved as version ${data.version}`
+          : "Classification prompt updated successfully"
+      );
       setEditingPrompt(false);
       await loadPromptSettings();
     } catch (err) {
@@ -222,6 +234,44 @@ export default function AdminEmailSettingsPanel({ accessToken }: AdminEmailSetti
     setPromptSettings(DEFAULT_PROMPT_SETTINGS);
   }, []);
 
+  const handleCancelPrompt = useCallback(() => {
+    setEditingPrompt(false);
+    void loadPromptSettings();
+  }, [loadPromptSettings]);
+
+  const handleRollbackPrompt = useCallback(
+    async (version: number) => {
+      if (!accessToken) return;
+      if (!confirm(`Roll back to version ${version}? New emails will be classified with those settings.`)) {
+        return;
+      }
+
+      setRollingBackVersion(version);
+
+      try {
+        const response = await fetch(`/api/admin/classification-prompt/versions/${version}/rollback`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to roll back classification prompt");
+        }
+
+        showStatus("success", `Restored version ${version}`);
+        setEditingPrompt(false);
+        await loadPromptSettings();
+      } catch (err) {
+        showStatus("error", err instanceof Error ? err.message : "Failed to roll back prompt");
+      } finally {
+        setRollingBackVersion(null);
+      }
+    },
+    [accessToken, showStatus, loadPromptSettings]
+  );
+
   return (
     <div className="space-y-8">
       {/* Status Message */}
@@ -412,7 +462,9 @@ export default function AdminEmailSettingsPanel({ accessToken }: AdminEmailSetti
           <div>
             <h2 className="text-xl font-semibold text-gray-900">OpenAI Classification Prompt</h2>
             <p className="mt-1 text-sm text-gray-600">
-              View and edit the prompt sent to OpenAI for email classification.
+              View and edit the prompt sent to OpenAI for email classification. Every save creates a new version used by
+              the worker and manual classification runs.
+              {activePromptVersion !== null ? ` Active version: ${activePromptVersion}.` : ""}
             </p>
           </div>
           {!editingPrompt && (
@@ -512,23 +564,39 @@ export default function AdminEmailSettingsPanel({ accessToken }: AdminEmailSetti
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700">System Message</label>
-                  <div className="mt-1 rounded-md border border-gray-300 bg-gray-50 p-4">
-                    <pre className="whitespace-pre-wrap font-mono text-xs text-gray-700">
-{`You are an assistant labelling inbox emails for an artist manager.
-Return between 1 and ${promptSettings.maxLabels} labels for each message.
-
-Primary labels (always include at least one and place it first):
-${labels.map(l => `- ${l.name}: ${l.meaning}`).join('\n')}
-
-Rules:
-- Use the exact label names and casing shown above.
-- Never invent new primary labels; use MISC/Uncategorized when nothing fits.
-- Prioritise concise, factual summaries supporting the chosen labels.
-- Include a sentiment assessment with label positive/neutral/negative and confidence 0-1.`}
-                    </pre>
-                  </div>
+                  <textarea
+                    value={promptSettings.systemMessage}
+                    onChange={(e) => setPromptSettings({ ...promptSettings, systemMessage: e.target.value })}
+                    disabled={!editingPrompt}
+                    rows={8}
+                    placeholder="Leave blank to use the generated system message below."
+                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 font-mono text-xs shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900 disabled:bg-gray-50 disabled:text-gray-500"
+                  />
+                  <details className="mt-2">
+                    <summary className="cursor-pointer text-xs text-gray-500">Generated system message</summary>
+                    <div className="mt-1 rounded-md border border-gray-300 bg-gray-50 p-4">
+                      <pre className="whitespace-pre-wrap font-mono text-xs text-gray-700">
+                        {buildClassificationSystemMessage(promptSettings.maxLabels)}
+                      </pre>
+                    </div>
+                  </details>
                   <p className="mt-1 text-xs text-gray-500">
-                    This is a read-only view of the generated system message. Label changes above will update this automatically.
+                    A custom system message replaces the generated one, which lists every label in the taxonomy.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Additional Instructions</label>
+                  <textarea
+                    value={promptSettings.userInstructions}
+                    onChange={(e) => setPromptSettings({ ...promptSettings, userInstructions: e.target.value })}
+                    disabled={!editingPrompt}
+                    rows={3}
+                    placeholder="e.g. Treat emails from promoters in Ireland as LIVE/Offer."
+                    className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900 disabled:bg-gray-50 disabled:text-gray-500"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Appended to the labelling rules sent with every email.
                   </p>
                 </div>
               </div>
@@ -543,7 +611,7 @@ Rules:
                     Reset to Default
                   </button>
                   <button
-                    onClick={() => setEditingPrompt(false)}
+                    onClick={handleCancelPrompt}
                     disabled={savingPrompt}
                     className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
                   >
@@ -559,6 +627,44 @@ Rules:
                 </div>
               )}
             </div>
+
+            <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+              <h3 className="text-sm font-semibold text-gray-900">Version History</h3>
+              {promptVersions.length === 0 ? (
+                <p className="mt-2 text-sm text-gray-500">No saved versions yet; the default prompt is in use.</p>
+              ) : (
+                <ul className="mt-3 divide-y divide-gray-100">
+                  {promptVersions.map((entry) => (
+                    <li key={entry.id} className="flex items-center justify-between gap-3 py-2">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          Version {entry.version}
+                          {entry.isActive ? (
+                            <span className="ml-2 rounded-full bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700">
+                              Active
+                            </span>
+                          ) : null}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatVersionDate(entry.createdAt)} · {entry.settings.model} · temperature{" "}
+                          {entry.settings.temperature} · up to {entry.settings.maxLabels} labels
+                          {entry.restoredFromVersion !== null ? ` · restored from version ${entry.restoredFromVersion}` : ""}
+                        </p>
+                      </div>
+                      {!entry.isActive && (
+                        <button
+                          onClick={() => void handleRollbackPrompt(entry.version)}
+                          disabled={rollingBackVersion !== null || savingPrompt}
+                          className="rounded-md border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          {rollingBackVersion === entry.version ? "Rolling back…" : "Roll back"}
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
           </div>
         )}
       </section>
@@ -0,0 +1,126 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { LabelAccuracyStat } from "@kazador/shared";
+
+const DAY_OPTIONS = [30, 90, 365] as const;
+
+function formatRatio(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+interface AdminLabelAccuracyPanelProps {
+  accessToken: string | null;
+}
+
+export default function AdminLabelAccuracyPanel({ accessToken }: AdminLabelAccuracyPanelProps) {
+  const [days, setDays] = useState<number>(90);
+  const [stats, setStats] = useState<LabelAccuracyStat[]>([]);
+  const [correctionCount, setCorrectionCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadReport = useCallback(async () => {
+    if (!accessToken) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/label-corrections/report?days=${days}`, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data?.error || "Failed to load label accuracy report");
+      }
+
+      setStats(Array.isArray(data.stats) ? data.stats : []);
+      setCorrectionCount(typeof data.correctionCount === "number" ? data.correctionCount : 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load label accuracy report");
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken, days]);
+
+  useEffect(() => {
+    void loadReport();
+  }, [loadReport]);
+
+  return (
+    <section className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+        <label className="flex items-center gap-2">
+          <span>Window</span>
+          <select
+            value={days}
+            onChange={(event) => setDays(Number(event.target.value))}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm text-gray-700"
+          >
+            {DAY_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                Last {option} days
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => void loadReport()}
+          className="rounded-md border border-gray-300 px-3 py-1.5 font-medium text-gray-700 shadow-sm transition hover:border-gray-400 hover:text-gray-900"
+        >
+          Refresh
+        </button>
+        {loading ? <span>Loading report…</span> : null}
+        {error ? <span className="text-red-600">{error}</span> : null}
+      </div>
+
+      <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
+        <div className="border-b border-gray-200 px-6 py-4">
+          <h2 className="text-base font-semibold text-gray-900">Label accuracy</h2>
+          <p className="text-xs text-gray-500">
+            Precision and recall of the classifier against {correctionCount} user correction
+            {correctionCount === 1 ? "" : "s"}. Only corrected emails are counted, so low figures point at labels
+            worth tuning in the classification prompt.
+          </p>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left font-semibold text-gray-700">Label</th>
+              <th className="px-6 py-3 text-right font-semibold text-gray-700">Kept</th>
+              <th className="px-6 py-3 text-right font-semibold text-gray-700">Removed</th>
+              <th className="px-6 py-3 text-right font-semibold text-gray-700">Added</th>
+              <th className="px-6 py-3 text-right font-semibold text-gray-700">Precision</th>
+              <th className="px-6 py-3 text-right font-semibold text-gray-700">Recall</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {stats.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-6 text-center text-sm text-gray-500">
+                  No label corrections in this window.
+                </td>
+              </tr>
+            ) : (
+              stats.map((stat) => (
+                <tr key={stat.label}>
+                  <td className="px-6 py-4 font-mono text-xs text-gray-900">{stat.label}</td>
+                  <td className="px-6 py-4 text-right text-gray-600">{stat.truePositives}</td>
+                  <td className="px-6 py-4 text-right text-gray-600">{stat.falsePositives}</td>
+                  <td className="px-6 py-4 text-right text-gray-600">{stat.falseNegatives}</td>
+                  <td className="px-6 py-4 text-right text-gray-900">{formatRatio(stat.precision)}</td>
+                  <td className="px-6 py-4 text-right text-gray-900">{formatRatio(stat.recall)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
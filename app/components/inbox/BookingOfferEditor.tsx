@@ -0,0 +1,231 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { BookingOfferFields, BookingOfferRecord } from "@kazador/shared";
+import { BOOKING_OFFER_FIELD_KEYS } from "@kazador/shared";
+import type { UpdateBookingOfferInput } from "../../lib/supabaseClient";
+
+type FieldKey = keyof BookingOfferFields;
+
+const FIELD_LABELS: Record<FieldKey, string> = {
+  promoter: "Promoter",
+  venue: "Venue",
+  city: "City",
+  territory: "Territory",
+  showDates: "Show date(s)",
+  guarantee: "Guarantee",
+  currency: "Currency",
+  dealType: "Deal type",
+  radiusClause: "Radius clause",
+  expiresAt: "Offer expires",
+};
+
+const DEAL_TYPE_LABELS: Record<string, string> = {
+  flat: "Flat fee",
+  versus: "Guarantee vs %",
+  door_split: "Door split",
+};
+
+const STATUS_LABELS: Record<BookingOfferRecord["status"], string> = {
+  extracted: "extracted",
+  edited: "edited",
+  hold_requested: "hold awaiting approval",
+  hold_created: "hold on timeline",
+};
+
+/** Below this the value is shown as a guess the reviewer should check. */
+const LOW_CONFIDENCE = 0.5;
+
+function toDraftValue(key: FieldKey, fields: BookingOfferFields): string {
+  const value = fields[key].value;
+  if (value === null) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+function buildDraft(fields: BookingOfferFields): Record<FieldKey, string> {
+  const draft = {} as Record<FieldKey, string>;
+  for (const key of BOOKING_OFFER_FIELD_KEYS) {
+    draft[key] = toDraftValue(key, fields);
+  }
+  return draft;
+}
+
+function formatValue(key: FieldKey, fields: BookingOfferFields): string {
+  const value = fields[key].value;
+  if (value === null) return "—";
+  if (key === "dealType") return DEAL_TYPE_LABELS[String(value)] ?? String(value);
+  if (key === "guarantee" && typeof value === "number") {
+    return `${fields.currency.value ?? ""} ${value.toLocaleString()}`.trim();
+  }
+  return toDraftValue(key, fields);
+}
+
+interface BookingOfferEditorProps {
+  offer: BookingOfferRecord;
+  projects: Array<{ id: string; name: string }>;
+  busy?: boolean;
+  onSave: (input: UpdateBookingOfferInput) => Promise<void> | void;
+  onRequestHold: () => Promise<void> | void;
+}
+
+export function BookingOfferEditor({ offer, projects, busy = false, onSave, onRequestHold }: BookingOfferEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(() => buildDraft(offer.fields));
+
+  useEffect(() => {
+    setDraft(buildDraft(offer.fields));
+    setEditing(false);
+    // Reset only when the stored offer changes, not on every render.
+  }, [offer.id, offer.updatedAt]);
+
+  const locked = offer.status === "hold_requested" || offer.status === "hold_created";
+  const hasShowDate = (offer.fields.showDates.value ?? []).length > 0;
+  const title = offer.kind === "hold" ? "Hold request" : "Booking offer";
+
+  const handleSave = async () => {
+    const fields: Record<string, unknown> = {};
+    for (const key of BOOKING_OFFER_FIELD_KEYS) {
+      if (draft[key] !== toDraftValue(key, offer.fields)) {
+        fields[key] = draft[key].trim() ? draft[key] : null;
+      }
+    }
+    if (Object.keys(fields).length > 0) {
+      await onSave({ fields: fields as UpdateBookingOfferInput["fields"] });
+    }
+    setEditing(false);
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-emerald-200 bg-emerald-50/40 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold uppercase tracking-wide text-emerald-700">
+          {title}
+          <span className="ml-1 font-normal normal-case text-gray-500">· {STATUS_LABELS[offer.status]}</span>
+        </p>
+        {!locked && !editing && (
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            disabled={busy}
+            className="text-xs font-semibold text-emerald-700 hover:text-emerald-900 disabled:opacity-60"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      <dl className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-1 text-sm">
+        {BOOKING_OFFER_FIELD_KEYS.map((key) => {
+          const { confidence } = offer.fields[key];
+          const uncertain = offer.fields[key].value !== null && confidence < LOW_CONFIDENCE;
+          return (
+            <div key={key} className="contents">
+              <dt className="text-xs font-medium text-gray-500">{FIELD_LABELS[key]}</dt>
+              <dd className="flex items-center gap-2 text-gray-900">
+                {editing ? (
+                  key === "dealType" ? (
+                    <select
+                      value={draft.dealType}
+                      onChange={(event) => setDraft((prev) => ({ ...prev, dealType: event.target.value }))}
+                      disabled={busy}
+                      className="w-full rounded border border-gray-300 px-2 py-0.5 text-sm"
+                    >
+                      <option value="">—</option>
+                      {Object.entries(DEAL_TYPE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      value={draft[key]}
+                      onChange={(event) => setDraft((prev) => ({ ...prev, [key]: event.target.value }))}
+                      placeholder={key === "showDates" || key === "expiresAt" ? "YYYY-MM-DD" : undefined}
+                      disabled={busy}
+                      className="w-full rounded border border-gray-300 px-2 py-0.5 text-sm"
+                    />
+                  )
+                ) : (
+                  <span className={uncertain ? "text-amber-700" : undefined}>{formatValue(key, offer.fields)}</span>
+                )}
+                {!editing && offer.fields[key].value !== null && (
+                  <span
+                    title="Extraction confidence"
+                    className={`shrink-0 rounded px-1 text-[10px] font-semibold ${
+                      uncertain ? "bg-amber-100 text-amber-700" : "bg-gray-100 text-gray-500"
+                    }`}
+                  >
+                    {Math.round(confidence * 100)}%
+                  </span>
+                )}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+
+      <label className="block text-xs font-medium text-gray-600">
+        Project
+        <select
+          value={offer.projectId ?? ""}
+          onChange={(event) => void onSave({ projectId: event.target.value || null })}
+          disabled={busy || locked}
+          className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+        >
+          <option value="">Not linked</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {editing ? (
+          <>
+            <button
+              type="button"
+              onClick={() => {
+                setDraft(buildDraft(offer.fields));
+                setEditing(false);
+              }}
+              disabled={busy}
+              className="rounded border border-gray-300 px-3 py-1 text-xs font-semibold text-gray-600 transition hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleSave()}
+              disabled={busy}
+              className="rounded border border-gray-300 bg-white px-3 py-1 text-xs font-semibold text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Save edits
+            </button>
+          </>
+        ) : (
+          !locked && (
+            <button
+              type="button"
+              onClick={() => void onRequestHold()}
+              disabled={busy || !offer.projectId || !hasShowDate}
+              title={
+                !offer.projectId
+                  ? "Link a project first"
+                  : !hasShowDate
+                    ? "Add a show date first"
+                    : "Queue a LIVE_HOLD for approval"
+              }
+              className="rounded bg-emerald-600 px-3 py-1 text-xs font-semibold text-white transition hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {busy ? "Saving…" : "Request hold"}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
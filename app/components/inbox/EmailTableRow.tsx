@@ -1,7 +1,7 @@
 "use client";
 
 import { useMemo } from "react";
-import type { EmailRecord } from "@kazador/shared";
+import { splitHighlightedText, type EmailRecord, type EmailSearchHighlightRange, type EmailSearchMatch } from "@kazador/shared";
 import { getVisibleBadges, SmartBadge } from "./SmartBadge";
 
 interface EmailTableRowProps {
@@ -14,6 +14,7 @@ interface EmailTableRowProps {
   onSnooze: () => void;
   onLinkProject: () => void;
   loading?: boolean;
+  searchMatch?: EmailSearchMatch | null;
 }
 
 export function EmailTableRow({
@@ -25,7 +26,8 @@ export function EmailTableRow({
   onAcknowledge,
   onSnooze,
   onLinkProject,
-  loading = false
+  loading = false,
+  searchMatch = null
 }: EmailTableRowProps) {
   const badges = useMemo(() => getVisibleBadges(email), [email]);
   const priorityDot = getPriorityDot(email.priorityScore ?? 0);
@@ -78,13 +80,21 @@ export function EmailTableRow({
               email.isRead ? "font-normal text-gray-700" : "font-medium text-gray-900"
             }`}
           >
-            {email.subject || "(No subject)"}
+            {email.subject ? (
+              <HighlightedText text={email.subject} ranges={searchMatch?.highlights.subject} />
+            ) : (
+              "(No subject)"
+            )}
           </span>
           <span className="shrink-0 text-xs text-gray-500">{relativeTime}</span>
         </div>
         <div className="mt-0.5 flex items-center gap-2">
           <span className="text-sm text-gray-600">
-            {email.fromName ?? email.fromEmail}
+            {email.fromName ? (
+              <HighlightedText text={email.fromName} ranges={searchMatch?.highlights.fromName} />
+            ) : (
+              <HighlightedText text={email.fromEmail} ranges={searchMatch?.highlights.fromEmail} />
+            )}
           </span>
           {metadata && (
             <span className="text-xs text-gray-400">{metadata}</span>
@@ -93,6 +103,9 @@ export function EmailTableRow({
             <SmartBadge key={`${email.id}-badge-${index}`} badge={badge} />
           ))}
         </div>
+        {searchMatch && (
+          <SearchMatchDetails email={email} match={searchMatch} />
+        )}
       </td>
 
       {/* Quick Actions (visible on hover) */}
@@ -128,6 +141,45 @@ export function EmailTableRow({
   );
 }
 
+function HighlightedText({ text, ranges }: { text: string; ranges?: EmailSearchHighlightRange[] }) {
+  return (
+    <>
+      {splitHighlightedText(text, ranges).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded-sm bg-yellow-100 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+function SearchMatchDetails({ email, match }: { email: EmailRecord; match: EmailSearchMatch }) {
+  const hasSummaryMatch = Boolean(email.summary && match.highlights.summary.length > 0);
+  if (!hasSummaryMatch && match.matchedAttachments.length === 0 && match.matchedProjects.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs text-gray-500">
+      {hasSummaryMatch && email.summary && (
+        <p className="line-clamp-1">
+          <HighlightedText text={email.summary} ranges={match.highlights.summary} />
+        </p>
+      )}
+      {match.matchedAttachments.length > 0 && (
+        <p>📎 {match.matchedAttachments.join(", ")}</p>
+      )}
+      {match.matchedProjects.length > 0 && (
+        <p>Project: {match.matchedProjects.join(", ")}</p>
+      )}
+    </div>
+  );
+}
+
 interface IconButtonProps {
   icon: string;
   label: string;
@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+const OPERATOR_HINTS = [
+  "from:",
+  "label:",
+  "project:",
+  "has:attachment",
+  "before:YYYY-MM-DD",
+  "after:YYYY-MM-DD",
+  "is:unread",
+  "triage:snoozed",
+];
+
+interface InboxSearchBarProps {
+  value: string;
+  onSearch: (query: string) => void;
+  searching?: boolean;
+}
+
+export function InboxSearchBar({ value, onSearch, searching = false }: InboxSearchBarProps) {
+  const [draft, setDraft] = useState(value);
+  const [showHints, setShowHints] = useState(false);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  return (
+    <form
+      className="relative flex items-center gap-2 border-b border-gray-200 bg-white px-6 py-2"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSearch(draft.trim());
+      }}
+    >
+      <div className="relative flex-1">
+        <svg
+          className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+        </svg>
+        <input
+          type="search"
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onFocus={() => setShowHints(true)}
+          onBlur={() => setShowHints(false)}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") {
+              setDraft("");
+              onSearch("");
+            }
+          }}
+          placeholder="Search mail — try from:promoter has:attachment after:2024-05-01"
+          aria-label="Search inbox"
+          className="w-full rounded-md border border-gray-300 py-1.5 pl-9 pr-3 text-sm text-gray-900 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+        {showHints && !draft && (
+          <div className="absolute left-0 right-0 top-full z-10 mt-1 flex flex-wrap gap-1 rounded-md border border-gray-200 bg-white p-2 shadow-lg">
+            {OPERATOR_HINTS.map((hint) => (
+              <button
+                key={hint}
+                type="button"
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  setDraft(hint.includes("YYYY") ? hint.replace("YYYY-MM-DD", "") : hint);
+                }}
+                className="rounded bg-gray-100 px-2 py-0.5 font-mono text-xs text-gray-700 hover:bg-gray-200"
+              >
+                {hint}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <button
+        type="submit"
+        disabled={searching}
+        className="rounded-md border border-gray-300 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 shadow-sm transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {searching ? "Searching…" : "Search"}
+      </button>
+      {value && (
+        <button
+          type="button"
+          onClick={() => onSearch("")}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          Clear search
+        </button>
+      )}
+    </form>
+  );
+}
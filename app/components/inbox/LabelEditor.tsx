@@ -0,0 +1,69 @@
+"use client";
+
+import { PRIMARY_LABEL_DEFINITIONS, selectPrimaryCategory } from "@kazador/shared";
+import type { EmailLabel } from "@kazador/shared";
+
+const PRIMARY_LABELS = new Set<string>(PRIMARY_LABEL_DEFINITIONS.map((definition) => definition.name));
+
+interface LabelEditorProps {
+  emailId: string;
+  labels: EmailLabel[];
+  busy?: boolean;
+  onChange: (labels: EmailLabel[]) => void;
+  formatLabel: (label: string) => string;
+}
+
+/**
+ * Lets the user change an email's primary label and drop cross-tags. Each
+ * change is saved straight away and recorded as a label correction.
+ */
+export function LabelEditor({ emailId, labels, busy = false, onChange, formatLabel }: LabelEditorProps) {
+  const primary = selectPrimaryCategory(labels) ?? "";
+  const tags = labels.filter((label) => !PRIMARY_LABELS.has(label));
+
+  const handlePrimaryChange = (next: string) => {
+    if (!next || next === primary) return;
+    onChange([next, ...tags]);
+  };
+
+  const handleRemoveTag = (tag: EmailLabel) => {
+    onChange([primary, ...tags.filter((label) => label !== tag)].filter(Boolean));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs font-medium text-gray-500">Labels:</span>
+      <select
+        value={primary}
+        onChange={(event) => handlePrimaryChange(event.target.value)}
+        disabled={busy}
+        aria-label="Primary label"
+        className="rounded border border-indigo-200 bg-indigo-50 px-2 py-0.5 text-xs font-medium text-indigo-700 disabled:opacity-50"
+      >
+        {!primary && <option value="">Choose a label…</option>}
+        {PRIMARY_LABEL_DEFINITIONS.map((definition) => (
+          <option key={definition.name} value={definition.name}>
+            {definition.name}
+          </option>
+        ))}
+      </select>
+      {tags.map((tag) => (
+        <span
+          key={`${emailId}-label-${tag}`}
+          className="inline-flex items-center gap-1 rounded bg-indigo-50 px-2 py-0.5 text-xs font-medium text-indigo-600"
+        >
+          {formatLabel(tag)}
+          <button
+            type="button"
+            onClick={() => handleRemoveTag(tag)}
+            disabled={busy}
+            aria-label={`Remove label ${tag}`}
+            className="text-indigo-400 hover:text-indigo-700 disabled:opacity-50"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
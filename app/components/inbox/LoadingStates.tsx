@@ -108,6 +108,25 @@ export function NoResultsState({ onClearFilters }: { onClearFilters: () => void
   );
 }
 
+export function NoSearchResultsState({ query, onClearSearch }: { query: string; onClearSearch: () => void }) {
+  return (
+    <EmptyState
+      icon="🔍"
+      title="No emails match your search"
+      description={`Nothing matched "${query}". Check the spelling or remove an operator.`}
+      action={
+        <button
+          type="button"
+          onClick={onClearSearch}
+          className="inline-flex items-center rounded bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+        >
+          Clear search
+        </button>
+      }
+    />
+  );
+}
+
 export function LoadingState() {
   return (
     <div className="flex h-64 items-center justify-center">
@@ -1,9 +1,22 @@
 "use client";
 
-import { useMemo } from "react";
-import type { EmailRecord, PriorityEmailActionRule } from "@kazador/shared";
+import { useMemo, useState } from "react";
+import type {
+  ApprovalRecord,
+  BookingOfferRecord,
+  EmailLabel,
+  EmailRecord,
+  EmailReplyDraftEdit,
+  EmailThreadRecord,
+  PriorityEmailActionRule,
+  SnoozePresetOption
+} from "@kazador/shared";
 import type { PriorityConfig } from "@kazador/shared";
 import { buildEmailPriorityBreakdown } from "@kazador/shared";
+import { ReplyDraftEditor } from "./ReplyDraftEditor";
+import { LabelEditor } from "./LabelEditor";
+import { BookingOfferEditor } from "./BookingOfferEditor";
+import type { UpdateBookingOfferInput } from "../../lib/supabaseClient";
 
 interface PlaybookSuggestion {
   id: string;
@@ -15,7 +28,7 @@ interface PersistentPreviewPanelProps {
   email: EmailRecord | null;
   onAcknowledge: (email: EmailRecord) => void;
   onResolve: (email: EmailRecord) => void;
-  onSnooze: (email: EmailRecord) => void;
+  onSnooze: (email: EmailRecord, preset?: SnoozePresetOption) => void;
   onUnsnooze: (email: EmailRecord) => void;
   onOpenGmail: (email: EmailRecord) => void;
   onLinkProject: (email: EmailRecord) => void;
@@ -26,8 +39,27 @@ interface PersistentPreviewPanelProps {
   priorityConfig?: PriorityConfig;
   showBreakdown?: boolean;
   onToggleBreakdown?: () => void;
+  thread?: EmailThreadRecord | null;
+  threadLoading?: boolean;
+  viewMode?: PreviewViewMode;
+  onViewModeChange?: (mode: PreviewViewMode) => void;
+  linkableProjects?: Array<{ id: string; name: string }>;
+  onLinkThreadProject?: (threadId: string, projectId: string) => void;
+  replyDraft?: ApprovalRecord | null;
+  replyDraftBusy?: boolean;
+  onDraftReply?: (email: EmailRecord) => void;
+  onSaveReplyDraft?: (approvalId: string, edit: EmailReplyDraftEdit) => Promise<void> | void;
+  onResolveReplyDraft?: (approvalId: string, action: "approve" | "decline") => Promise<void> | void;
+  snoozePresets?: SnoozePresetOption[];
+  onUpdateLabels?: (email: EmailRecord, labels: EmailLabel[]) => void;
+  bookingOffer?: BookingOfferRecord | null;
+  bookingOfferBusy?: boolean;
+  onUpdateBookingOffer?: (email: EmailRecord, input: UpdateBookingOfferInput) => Promise<void> | void;
+  onRequestBookingHold?: (email: EmailRecord) => Promise<void> | void;
 }
 
+export type PreviewViewMode = "message" | "thread";
+
 export function PersistentPreviewPanel({
   email,
   onAcknowledge,
@@ -42,7 +74,24 @@ export function PersistentPreviewPanel({
   actionRules = [],
   priorityConfig,
   showBreakdown = false,
-  onToggleBreakdown
+  onToggleBreakdown,
+  thread = null,
+  threadLoading = false,
+  viewMode = "thread",
+  onViewModeChange,
+  linkableProjects = [],
+  onLinkThreadProject,
+  replyDraft = null,
+  replyDraftBusy = false,
+  onDraftReply,
+  onSaveReplyDraft,
+  onResolveReplyDraft,
+  snoozePresets = [],
+  onUpdateLabels,
+  bookingOffer = null,
+  bookingOfferBusy = false,
+  onUpdateBookingOffer,
+  onRequestBookingHold
 }: PersistentPreviewPanelProps) {
   if (!email) {
     return (
@@ -77,8 +126,13 @@ export function PersistentPreviewPanel({
     );
   }, [email, priorityConfig]);
 
+  // Conversation mode shows the whole thread and reports thread-level triage
+  // state and project links; footer actions then apply to every message.
+  const isThreadView = viewMode === "thread" && Boolean(email.threadId);
+  const activeThread = isThreadView && thread?.threadId === email.threadId ? thread : null;
+  const triageState = activeThread ? activeThread.triageState : email.triageState;
   const attachments = email.attachments ?? [];
-  const projects = email.linkedProjects ?? [];
+  const projects = activeThread ? activeThread.linkedProjects : email.linkedProjects ?? [];
   const snoozeActive = email.snoozedUntil && new Date(email.snoozedUntil) > new Date();
 
   return (
@@ -101,6 +155,24 @@ export function PersistentPreviewPanel({
               <span className="text-gray-400"> · {email.fromEmail}</span>
             )}
           </p>
+          {email.threadId && onViewModeChange && (
+            <div className="inline-flex rounded border border-gray-200 p-0.5 text-xs">
+              <button
+                type="button"
+                onClick={() => onViewModeChange("message")}
+                className={`rounded px-2 py-0.5 ${viewMode === "message" ? "bg-gray-900 text-white" : "text-gray-600 hover:bg-gray-100"}`}
+              >
+                Message
+              </button>
+              <button
+                type="button"
+                onClick={() => onViewModeChange("thread")}
+                className={`rounded px-2 py-0.5 ${viewMode === "thread" ? "bg-gray-900 text-white" : "text-gray-600 hover:bg-gray-100"}`}
+              >
+                Conversation{activeThread ? ` (${activeThread.emails.length})` : ""}
+              </button>
+            </div>
+          )}
         </div>
       </header>
 
@@ -109,10 +181,10 @@ export function PersistentPreviewPanel({
         {/* Badges & Metadata */}
         <section className="space-y-3">
           <div className="flex flex-wrap items-center gap-2">
-            <TriageStateBadge state={email.triageState} />
+            <TriageStateBadge state={triageState} />
             <CategoryBadge category={email.category} />
             <SourceBadge source={email.source} />
-            {email.triageState === "snoozed" && email.snoozedUntil && (
+            {!activeThread && email.triageState === "snoozed" && email.snoozedUntil && (
               <span className="inline-flex items-center rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-xs font-medium text-amber-700">
                 Snoozed until {formatShortDate(email.snoozedUntil)}
                 {!snoozeActive && " (expired)"}
@@ -124,7 +196,15 @@ export function PersistentPreviewPanel({
           </div>
 
           {/* Labels */}
-          {email.labels && email.labels.length > 0 && (
+          {onUpdateLabels ? (
+            <LabelEditor
+              emailId={email.id}
+              labels={email.labels ?? []}
+              busy={loading}
+              onChange={(labels) => onUpdateLabels(email, labels)}
+              formatLabel={formatLabel}
+            />
+          ) : email.labels && email.labels.length > 0 && (
             <div className="flex flex-wrap gap-2">
               <span className="text-xs font-medium text-gray-500">Labels:</span>
               {email.labels.map((label) => (
@@ -157,85 +237,131 @@ export function PersistentPreviewPanel({
               ))}
             </div>
           )}
-        </section>
 
-        {/* Summary */}
-        <section>
-          <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
-            Summary
-          </h4>
-          <p className="text-sm leading-relaxed text-gray-700">
-            {email.summary ?? "No summary available for this email."}
-          </p>
+          {activeThread && onLinkThreadProject && linkableProjects.length > 0 && (
+            <ThreadProjectLinker
+              projects={linkableProjects.filter(
+                (project) => !projects.some((linked) => linked.projectId === project.id)
+              )}
+              disabled={loading}
+              onLink={(projectId) => onLinkThreadProject(activeThread.threadId, projectId)}
+            />
+          )}
         </section>
 
-        {/* Attachments */}
-        {attachments.length > 0 && (
-          <section>
-            <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
-              Attachments ({attachments.length})
-            </h4>
-            <div className="space-y-2">
-              {attachments.map((attachment) => (
-                <div
-                  key={attachment.id}
-                  className="flex items-center gap-2 rounded border border-gray-200 bg-gray-50 px-3 py-2 text-sm"
-                >
-                  <span className="text-lg">📎</span>
-                  <span className="flex-1 truncate font-medium text-gray-700">
-                    {attachment.filename}
-                  </span>
-                  {attachment.size && (
-                    <span className="text-xs text-gray-500">
-                      {formatFileSize(attachment.size)}
-                    </span>
-                  )}
-                </div>
-              ))}
-            </div>
-          </section>
+        {bookingOffer && bookingOffer.emailId === email.id && onUpdateBookingOffer && onRequestBookingHold && (
+          <BookingOfferEditor
+            offer={bookingOffer}
+            projects={linkableProjects}
+            busy={bookingOfferBusy}
+            onSave={(input) => onUpdateBookingOffer(email, input)}
+            onRequestHold={() => onRequestBookingHold(email)}
+          />
+        )}
+
+        {replyDraft && onSaveReplyDraft && onResolveReplyDraft && (
+          <ReplyDraftEditor
+            approval={replyDraft}
+            busy={replyDraftBusy}
+            onSave={onSaveReplyDraft}
+            onApprove={(approvalId) => onResolveReplyDraft(approvalId, "approve")}
+            onDecline={(approvalId) => onResolveReplyDraft(approvalId, "decline")}
+          />
         )}
 
-        {/* Priority Breakdown */}
-        {showBreakdown && breakdown && (
-          <section>
-            <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
-              Priority Breakdown
-            </h4>
-            <div className="rounded-md border border-gray-200 bg-gray-50 p-3">
-              <ul className="space-y-1 text-xs text-gray-700">
-                {breakdown.components.map((component, index) => (
-                  <li
-                    key={`component-${index}`}
-                    className="flex items-center justify-between"
-                  >
-                    <span>{component.label}</span>
-                    <span className="font-semibold">
-                      {component.value >= 0 ? `+${component.value}` : component.value}
-                    </span>
-                  </li>
-                ))}
-              </ul>
-              <p className="mt-2 text-[11px] font-medium text-gray-500">
-                Total Score: {breakdown.total}
+        {isThreadView ? (
+          <ThreadConversation
+            thread={activeThread}
+            loading={threadLoading}
+            selectedEmailId={email.id}
+          />
+        ) : (
+          <>
+
+            {/* Summary */}
+            <section>
+              <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                Summary
+              </h4>
+              <p className="text-sm leading-relaxed text-gray-700">
+                {email.summary ?? "No summary available for this email."}
               </p>
-            </div>
-          </section>
+            </section>
+
+            {/* Attachments */}
+            {attachments.length > 0 && (
+              <section>
+                <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  Attachments ({attachments.length})
+                </h4>
+                <div className="space-y-2">
+                  {attachments.map((attachment) => (
+                    <div
+                      key={attachment.id}
+                      className="flex items-center gap-2 rounded border border-gray-200 bg-gray-50 px-3 py-2 text-sm"
+                    >
+                      <span className="text-lg">📎</span>
+                      <span className="flex-1 truncate font-medium text-gray-700">
+                        {attachment.filename}
+                      </span>
+                      {attachment.size && (
+                        <span className="text-xs text-gray-500">
+                          {formatFileSize(attachment.size)}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {/* Priority Breakdown */}
+            {showBreakdown && breakdown && (
+              <section>
+                <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  Priority Breakdown
+                </h4>
+                <div className="rounded-md border border-gray-200 bg-gray-50 p-3">
+                  <ul className="space-y-1 text-xs text-gray-700">
+                    {breakdown.components.map((component, index) => (
+                      <li
+                        key={`component-${index}`}
+                        className="flex items-center justify-between"
+                      >
+                        <span>{component.label}</span>
+                        <span className="font-semibold">
+                          {component.value >= 0 ? `+${component.value}` : component.value}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="mt-2 text-[11px] font-medium text-gray-500">
+                    Total Score: {breakdown.total}
+                  </p>
+                </div>
+              </section>
+            )}
+          </>
         )}
       </div>
 
       {/* Actions Footer */}
       <footer className="flex-shrink-0 border-t border-gray-200 px-6 py-4">
         <div className="space-y-2">
+          {activeThread && activeThread.emails.length > 1 && (
+            <p className="text-xs text-gray-500">
+              Triage actions apply to all {activeThread.emails.length} messages in this conversation.
+            </p>
+          )}
           <div className="flex flex-wrap gap-2">
             <ActionButton
               onClick={() => onAcknowledge(email)}
-              disabled={loading || email.triageState === "acknowledged"}
+              disabled={loading || triageState === "acknowledged"}
               variant="secondary"
             >
               Acknowledge
             </ActionButton>
-            {email.triageState === "snoozed" ? (
+            {triageState === "snoozed" ? (
               <ActionButton
                 onClick={() => onUnsnooze(email)}
                 disabled={loading}
@@ -243,6 +369,12 @@ export function PersistentPreviewPanel({
               >
                 Unsnooze
               </ActionButton>
+            ) : snoozePresets.length > 0 ? (
+              <SnoozePresetMenu
+                presets={snoozePresets}
+                disabled={loading}
+                onSelect={(preset) => onSnooze(email, preset)}
+              />
             ) : (
               <ActionButton
                 onClick={() => onSnooze(email)}
@@ -254,7 +386,7 @@ export function PersistentPreviewPanel({
             )}
             <ActionButton
               onClick={() => onResolve(email)}
-              disabled={loading || email.triageState === "resolved"}
+              disabled={loading || triageState === "resolved"}
               variant="success"
             >
               Resolve
@@ -294,6 +426,16 @@ export function PersistentPreviewPanel({
             >
               Open in Gmail
             </ActionButton>
+            {onDraftReply && (
+              <ActionButton
+                onClick={() => onDraftReply(email)}
+                disabled={replyDraftBusy || replyDraft?.status === "pending"}
+                variant="ghost"
+                size="sm"
+              >
+                {replyDraftBusy && !replyDraft ? "Drafting…" : "Draft reply"}
+              </ActionButton>
+            )}
             <ActionButton
               onClick={() => onLinkProject(email)}
               variant="ghost"
@@ -319,6 +461,138 @@ export function PersistentPreviewPanel({
 
 // ============ Helper Components ============
 
+function ThreadConversation({
+  thread,
+  loading,
+  selectedEmailId
+}: {
+  thread: EmailThreadRecord | null;
+  loading: boolean;
+  selectedEmailId: string;
+}) {
+  if (!thread) {
+    return (
+      <section className="text-sm text-gray-500">
+        {loading ? "Loading conversation…" : "Conversation unavailable."}
+      </section>
+    );
+  }
+
+  return (
+    <section>
+      <h4 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+        Conversation ({thread.emails.length} messages · {thread.participants.length} participants)
+      </h4>
+      <ol className="space-y-3">
+        {thread.emails.map((message) => (
+          <li
+            key={message.id}
+            className={`rounded-md border px-3 py-2 ${
+              message.id === selectedEmailId ? "border-indigo-300 bg-indigo-50" : "border-gray-200 bg-white"
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+              <span className={`truncate ${message.isRead ? "text-gray-700" : "font-semibold text-gray-900"}`}>
+                {message.fromName ?? message.fromEmail}
+              </span>
+              <span className="shrink-0">{formatShortDate(message.receivedAt)}</span>
+            </div>
+            <p className="mt-1 text-sm leading-relaxed text-gray-700">
+              {message.summary ?? message.subject ?? "No summary available for this email."}
+            </p>
+            {(message.attachmentCount ?? 0) > 0 && (
+              <p className="mt-1 text-xs text-gray-500">
+                📎 {(message.attachments ?? []).map((attachment) => attachment.filename).join(", ")}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
+
+function ThreadProjectLinker({
+  projects,
+  disabled,
+  onLink
+}: {
+  projects: Array<{ id: string; name: string }>;
+  disabled: boolean;
+  onLink: (projectId: string) => void;
+}) {
+  const [projectId, setProjectId] = useState("");
+
+  if (projects.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={projectId}
+        onChange={(event) => setProjectId(event.target.value)}
+        className="flex-1 rounded border border-gray-300 px-2 py-1 text-xs text-gray-700"
+      >
+        <option value="">Link conversation to project…</option>
+        {projects.map((project) => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+          </option>
+        ))}
+      </select>
+      <ActionButton
+        onClick={() => {
+          if (!projectId) return;
+          onLink(projectId);
+          setProjectId("");
+        }}
+        disabled={disabled || !projectId}
+        size="sm"
+      >
+        Link
+      </ActionButton>
+    </div>
+  );
+}
+
+function SnoozePresetMenu({
+  presets,
+  disabled,
+  onSelect
+}: {
+  presets: SnoozePresetOption[];
+  disabled: boolean;
+  onSelect: (preset: SnoozePresetOption) => void;
+}) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <ActionButton onClick={() => setOpen(!open)} disabled={disabled} variant="secondary">
+        Snooze ▾
+      </ActionButton>
+      {open && (
+        <div className="absolute bottom-full left-0 z-10 mb-1 w-64 rounded-md border border-gray-200 bg-white py-1 shadow-lg">
+          {presets.map((preset) => (
+            <button
+              key={preset.preset}
+              type="button"
+              onClick={() => {
+                setOpen(false);
+                onSelect(preset);
+              }}
+              className="block w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface ActionButtonProps {
   onClick: () => void;
   disabled?: boolean;
@@ -0,0 +1,110 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ApprovalRecord, EmailReplyDraftEdit } from "@kazador/shared";
+import { normalizeEmailReplyDraftPayload } from "@kazador/shared";
+
+interface ReplyDraftEditorProps {
+  approval: ApprovalRecord;
+  busy?: boolean;
+  onSave: (approvalId: string, edit: EmailReplyDraftEdit) => Promise<void> | void;
+  onApprove: (approvalId: string) => Promise<void> | void;
+  onDecline: (approvalId: string) => Promise<void> | void;
+}
+
+export function ReplyDraftEditor({ approval, busy = false, onSave, onApprove, onDecline }: ReplyDraftEditorProps) {
+  const draft = normalizeEmailReplyDraftPayload(approval.payload);
+  const [to, setTo] = useState(draft.to);
+  const [subject, setSubject] = useState(draft.subject);
+  const [body, setBody] = useState(draft.body);
+
+  useEffect(() => {
+    setTo(draft.to);
+    setSubject(draft.subject);
+    setBody(draft.body);
+    // Reset only when the stored draft changes, not on every render.
+  }, [approval.id, approval.updatedAt]);
+
+  const dirty = to !== draft.to || subject !== draft.subject || body !== draft.body;
+  const pending = approval.status === "pending";
+
+  if (!pending) {
+    return (
+      <div className="rounded-md border border-gray-200 bg-gray-50 p-3 text-sm text-gray-700">
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+          Reply draft {approval.status === "approved" ? "saved to Gmail" : "discarded"}
+        </p>
+        <p className="mt-1 font-medium text-gray-900">{draft.subject}</p>
+        <p className="mt-1 whitespace-pre-wrap">{draft.body}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border border-indigo-200 bg-indigo-50/40 p-3">
+      <p className="text-xs font-semibold uppercase tracking-wide text-indigo-700">
+        Reply draft · awaiting approval
+        {draft.editedAt ? <span className="ml-1 font-normal normal-case text-gray-500">(edited)</span> : null}
+      </p>
+      <label className="block text-xs font-medium text-gray-600">
+        To
+        <input
+          value={to}
+          onChange={(event) => setTo(event.target.value)}
+          disabled={busy}
+          className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+        />
+      </label>
+      <label className="block text-xs font-medium text-gray-600">
+        Subject
+        <input
+          value={subject}
+          onChange={(event) => setSubject(event.target.value)}
+          disabled={busy}
+          className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+        />
+      </label>
+      <label className="block text-xs font-medium text-gray-600">
+        Message
+        <textarea
+          value={body}
+          onChange={(event) => setBody(event.target.value)}
+          disabled={busy}
+          rows={8}
+          className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+        />
+      </label>
+      <div className="flex flex-wrap justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => void onDecline(approval.id)}
+          disabled={busy}
+          className="rounded border border-gray-300 px-3 py-1 text-xs font-semibold text-gray-600 transition hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={() => void onSave(approval.id, { to, subject, body })}
+          disabled={busy || !dirty}
+          className="rounded border border-gray-300 bg-white px-3 py-1 text-xs font-semibold text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Save edits
+        </button>
+        <button
+          type="button"
+          onClick={async () => {
+            if (dirty) {
+              await onSave(approval.id, { to, subject, body });
+            }
+            await onApprove(approval.id);
+          }}
+          disabled={busy || !to.trim() || !body.trim()}
+          className="rounded bg-indigo-600 px-3 py-1 text-xs font-semibold text-white transition hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {busy ? "Saving…" : "Approve & save to Gmail drafts"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { CONTACT_ROLES, type ContactDetailRecord, type ContactRecord, type ContactRole } from "@kazador/shared";
+import { useAuth } from "../AuthProvider";
+import { fetchContact, fetchContacts, updateContact } from "../../lib/supabaseClient";
+
+const ROLE_LABELS: Record<ContactRole, string> = {
+  promoter: "Promoter",
+  agent: "Agent",
+  label: "Label",
+  press: "Press",
+  venue: "Venue",
+};
+
+const NO_ORGANISATION = "Independent";
+
+function formatDate(value: string | null): string {
+  if (!value) return "—";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleDateString();
+}
+
+function groupByOrganisation(contacts: ContactRecord[]): Array<{ name: string; contacts: ContactRecord[] }> {
+  const groups = new Map<string, ContactRecord[]>();
+  for (const contact of contacts) {
+    const key = contact.organisation?.name ?? NO_ORGANISATION;
+    const list = groups.get(key) ?? [];
+    list.push(contact);
+    groups.set(key, list);
+  }
+  return Array.from(groups.entries())
+    .map(([name, list]) => ({ name, contacts: list }))
+    .sort((a, b) => {
+      if (a.name === NO_ORGANISATION) return 1;
+      if (b.name === NO_ORGANISATION) return -1;
+      return a.name.localeCompare(b.name);
+    });
+}
+
+interface ContactEditState {
+  role: ContactRole | "";
+  phone: string;
+  company: string;
+  reliabilityNotes: string;
+}
+
+function toEditState(contact: ContactRecord): ContactEditState {
+  return {
+    role: contact.role ?? "",
+    phone: contact.phone ?? "",
+    company: contact.company ?? "",
+    reliabilityNotes: contact.reliabilityNotes ?? "",
+  };
+}
+
+function ContactDetailPanel({
+  contact,
+  saving,
+  onSave,
+}: {
+  contact: ContactDetailRecord;
+  saving: boolean;
+  onSave: (edit: ContactEditState) => Promise<void>;
+}) {
+  const [edit, setEdit] = useState<ContactEditState>(() => toEditState(contact));
+
+  useEffect(() => {
+    setEdit(toEditState(contact));
+  }, [contact.id, contact.updatedAt]);
+
+  const counts = Object.entries(contact.interactionCounts).sort((a, b) => b[1] - a[1]);
+  const original = toEditState(contact);
+  const dirty = (Object.keys(edit) as Array<keyof ContactEditState>).some((key) => edit[key] !== original[key]);
+
+  return (
+    <div className="space-y-5 rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">{contact.name ?? contact.email}</h3>
+        <p className="text-sm text-gray-500">
+          {contact.email}
+          {contact.organisation ? ` • ${contact.organisation.name}` : ""}
+        </p>
+        <p className="mt-1 text-xs text-gray-400">Last email {formatDate(contact.lastEmailAt)}</p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="block text-xs font-medium text-gray-600">
+          Role
+          <select
+            value={edit.role}
+            onChange={(event) => setEdit((prev) => ({ ...prev, role: event.target.value as ContactRole | "" }))}
+            disabled={saving}
+            className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+          >
+            <option value="">Unassigned</option>
+            {CONTACT_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-xs font-medium text-gray-600">
+          Phone
+          <input
+            value={edit.phone}
+            onChange={(event) => setEdit((prev) => ({ ...prev, phone: event.target.value }))}
+            disabled={saving}
+            className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+          />
+        </label>
+        <label className="block text-xs font-medium text-gray-600">
+          Company
+          <input
+            value={edit.company}
+            onChange={(event) => setEdit((prev) => ({ ...prev, company: event.target.value }))}
+            disabled={saving}
+            className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+          />
+        </label>
+      </div>
+
+      <label className="block text-xs font-medium text-gray-600">
+        Reliability notes
+        <textarea
+          value={edit.reliabilityNotes}
+          onChange={(event) => setEdit((prev) => ({ ...prev, reliabilityNotes: event.target.value }))}
+          disabled={saving}
+          rows={3}
+          placeholder="Pays on time? Advances complete? Anything to watch for."
+          className="mt-1 w-full rounded border border-gray-300 px-2 py-1 text-sm text-gray-900"
+        />
+      </label>
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => void onSave(edit)}
+          disabled={saving || !dirty}
+          className="rounded bg-gray-900 px-3 py-1 text-xs font-semibold text-white transition hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900">Interactions</h4>
+        {counts.length === 0 ? (
+          <p className="mt-1 text-sm text-gray-500">No emails counted yet.</p>
+        ) : (
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {counts.map(([category, count]) => (
+              <li key={category} className="rounded bg-gray-100 px-2 py-1 text-xs text-gray-700">
+                {category} · {count}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900">Linked projects</h4>
+        {contact.linkedProjects.length === 0 ? (
+          <p className="mt-1 text-sm text-gray-500">No emails from this contact are linked to your projects.</p>
+        ) : (
+          <ul className="mt-2 flex flex-wrap gap-2">
+            {contact.linkedProjects.map((project) => (
+              <li key={project.id}>
+                <Link
+                  href={`/projects/${project.id}`}
+                  className="inline-flex items-center gap-1 rounded border border-gray-200 px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  <span className="h-2 w-2 rounded-full" style={{ backgroundColor: project.color ?? "#9ca3af" }} />
+                  {project.name}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900">Recent emails</h4>
+        {contact.recentEmails.length === 0 ? (
+          <p className="mt-1 text-sm text-gray-500">No emails in your inbox from this contact.</p>
+        ) : (
+          <ul className="mt-2 divide-y divide-gray-100">
+            {contact.recentEmails.map((email) => (
+              <li key={email.id} className="py-2">
+                <p className="text-sm font-medium text-gray-900">{email.subject}</p>
+                <p className="text-xs text-gray-500">
+                  {formatDate(email.receivedAt)} • {email.category} • {email.triageState}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function PeopleDirectory() {
+  const { session } = useAuth();
+  const accessToken = session?.access_token ?? null;
+  const [contacts, setContacts] = useState<ContactRecord[]>([]);
+  const [query, setQuery] = useState("");
+  const [roleFilter, setRoleFilter] = useState<ContactRole | "">("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<ContactDetailRecord | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!accessToken) {
+      setError("Authentication required. Please sign in again.");
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchContacts({ accessToken, q: query, role: roleFilter || null, perPage: 200 });
+      setContacts(result.contacts);
+    } catch (err: any) {
+      setError(err?.message || "Failed to load contacts");
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken, query, roleFilter]);
+
+  useEffect(() => {
+    const handle = setTimeout(() => void load(), 250);
+    return () => clearTimeout(handle);
+  }, [load]);
+
+  useEffect(() => {
+    if (!selectedId || !accessToken) {
+      setDetail(null);
+      return;
+    }
+
+    let cancelled = false;
+    setDetailLoading(true);
+    fetchContact(selectedId, accessToken)
+      .then((record) => {
+        if (!cancelled) setDetail(record);
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err?.message || "Failed to load contact");
+      })
+      .finally(() => {
+        if (!cancelled) setDetailLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, accessToken]);
+
+  const groups = useMemo(() => groupByOrganisation(contacts), [contacts]);
+
+  const handleSave = async (edit: ContactEditState) => {
+    if (!detail || !accessToken) return;
+    setSaving(true);
+    try {
+      const updated = await updateContact(
+        detail.id,
+        {
+          role: edit.role || null,
+          phone: edit.phone,
+          company: edit.company,
+          reliabilityNotes: edit.reliabilityNotes,
+        },
+        accessToken
+      );
+      setDetail((prev) => (prev ? { ...prev, ...updated } : prev));
+      setContacts((prev) => prev.map((contact) => (contact.id === updated.id ? updated : contact)));
+    } catch (err: any) {
+      setError(err?.message || "Failed to update contact");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-semibold text-gray-900">People</h2>
+        <p className="text-sm text-gray-500">
+          Promoters, agents, labels, press and venues you correspond with, grouped by organisation.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <input
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Search name, email or company"
+          className="w-full max-w-sm rounded border border-gray-300 px-3 py-2 text-sm"
+        />
+        <select
+          value={roleFilter}
+          onChange={(event) => setRoleFilter(event.target.value as ContactRole | "")}
+          className="rounded border border-gray-300 px-3 py-2 text-sm"
+        >
+          <option value="">All roles</option>
+          {CONTACT_ROLES.map((role) => (
+            <option key={role} value={role}>
+              {ROLE_LABELS[role]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error ? <div className="rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div> : null}
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)]">
+        <div className="space-y-4">
+          {loading && contacts.length === 0 ? (
+            <p className="text-sm text-gray-500">Loading contacts…</p>
+          ) : groups.length === 0 ? (
+            <p className="text-sm text-gray-500">No contacts match.</p>
+          ) : (
+            groups.map((group) => (
+              <div key={group.name} className="rounded-lg border border-gray-200 bg-white shadow-sm">
+                <div className="border-b border-gray-100 px-4 py-2 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  {group.name}
+                </div>
+                <ul className="divide-y divide-gray-100">
+                  {group.contacts.map((contact) => (
+                    <li key={contact.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedId(contact.id)}
+                        className={`flex w-full items-center justify-between gap-3 px-4 py-2 text-left text-sm transition hover:bg-gray-50 ${
+                          contact.id === selectedId ? "bg-gray-50" : ""
+                        }`}
+                      >
+                        <span>
+                          <span className="block font-medium text-gray-900">{contact.name ?? contact.email}</span>
+                          <span className="block text-xs text-gray-500">{contact.email}</span>
+                        </span>
+                        {contact.role ? (
+                          <span className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-600">{ROLE_LABELS[contact.role]}</span>
+                        ) : null}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div>
+          {detailLoading && !detail ? (
+            <p className="text-sm text-gray-500">Loading contact…</p>
+          ) : detail ? (
+            <ContactDetailPanel contact={detail} saving={saving} onSave={handleSave} />
+          ) : (
+            <p className="text-sm text-gray-500">Select a contact to see linked projects and recent emails.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
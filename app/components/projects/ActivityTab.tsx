@@ -0,0 +1,152 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import type { ActivityFeedEntry, ActivityProjectTab } from "@kazador/shared";
+import { fetchProjectActivity } from "../../lib/supabaseClient";
+
+interface ProjectActivityTabProps {
+  projectId: string;
+  accessToken: string | null;
+  onOpenTab: (tab: ActivityProjectTab) => void;
+}
+
+const PAGE_SIZE = 50;
+
+function formatDay(iso: string): string {
+  const date = new Date(iso);
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+  if (date.toDateString() === today.toDateString()) return "Today";
+  if (date.toDateString() === yesterday.toDateString()) return "Yesterday";
+  return date.toLocaleDateString(undefined, { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+}
+
+function groupByDay(entries: ActivityFeedEntry[]): Array<{ day: string; entries: ActivityFeedEntry[] }> {
+  const days: Array<{ day: string; entries: ActivityFeedEntry[] }> = [];
+  for (const entry of entries) {
+    const day = formatDay(entry.occurredAt);
+    const current = days[days.length - 1];
+    if (current && current.day === day) {
+      current.entries.push(entry);
+    } else {
+      days.push({ day, entries: [entry] });
+    }
+  }
+  return days;
+}
+
+export default function ProjectActivityTab({ projectId, accessToken, onOpenTab }: ProjectActivityTabProps) {
+  const [entries, setEntries] = useState<ActivityFeedEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (cursor: string | null) => {
+      if (!accessToken) return;
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+      try {
+        const page = await fetchProjectActivity(projectId, { cursor, limit: PAGE_SIZE }, accessToken);
+        setEntries((current) => (cursor ? [...current, ...page.entries] : page.entries));
+        setNextCursor(page.nextCursor);
+      } catch (err: any) {
+        setError(err?.message || "Failed to load activity");
+      } finally {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    },
+    [projectId, accessToken]
+  );
+
+  useEffect(() => {
+    void load(null);
+  }, [load]);
+
+  const days = useMemo(() => groupByDay(entries), [entries]);
+
+  const renderTarget = (entry: ActivityFeedEntry) => {
+    const target = entry.target;
+    if (!target) return null;
+    if (target.kind === "page") {
+      return (
+        <Link href={target.href} className="text-xs font-medium text-indigo-600 hover:text-indigo-700">
+          Open
+        </Link>
+      );
+    }
+    if (target.projectId !== projectId) {
+      return (
+        <Link href={`/projects/${target.projectId}`} className="text-xs font-medium text-indigo-600 hover:text-indigo-700">
+          Open project
+        </Link>
+      );
+    }
+    if (target.tab === "overview") return null;
+    return (
+      <button
+        type="button"
+        onClick={() => onOpenTab(target.tab)}
+        className="text-xs font-medium text-indigo-600 hover:text-indigo-700"
+      >
+        View in {target.tab}
+      </button>
+    );
+  };
+
+  if (loading) {
+    return <div className="rounded-lg border border-gray-200 bg-white p-6 text-sm text-gray-500">Loading activity…</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error ? <p className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</p> : null}
+
+      {entries.length === 0 && !error ? (
+        <div className="rounded-lg border border-gray-200 bg-white p-6 text-center text-gray-500">
+          No activity yet. Linked emails, approvals, imports and Drive changes will show up here.
+        </div>
+      ) : null}
+
+      {days.map(({ day, entries: dayEntries }) => (
+        <section key={day} className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">{day}</h3>
+          <ul className="mt-3 divide-y divide-gray-100">
+            {dayEntries.map((entry) => (
+              <li key={entry.id} className="flex items-start justify-between gap-4 py-3">
+                <div>
+                  <p className="text-sm text-gray-900">{entry.summary}</p>
+                  <p className="mt-1 text-xs text-gray-400">
+                    {new Date(entry.occurredAt).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })}
+                  </p>
+                </div>
+                <div className="shrink-0">{renderTarget(entry)}</div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+
+      {nextCursor ? (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={() => void load(nextCursor)}
+            disabled={loadingMore}
+            className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {loadingMore ? "Loading…" : "Load older activity"}
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
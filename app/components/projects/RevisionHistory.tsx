@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RecordRevision } from "@kazador/shared";
+import { describeRecordRevision } from "@kazador/shared";
+
+interface RevisionHistoryProps<TSnapshot> {
+  load: () => Promise<Array<RecordRevision<TSnapshot>>>;
+  onRestore: (revision: RecordRevision<TSnapshot>) => Promise<void>;
+  /** Changing this reloads the list, e.g. the record's updatedAt after an edit elsewhere. */
+  reloadKey?: string | null;
+  variant?: "light" | "dark";
+}
+
+const STYLES = {
+  light: {
+    empty: "text-sm text-gray-500",
+    error: "text-sm text-red-600",
+    item: "flex items-center justify-between gap-3 rounded border border-gray-200 px-3 py-2",
+    summary: "text-sm text-gray-900",
+    time: "text-xs text-gray-500",
+    button:
+      "shrink-0 rounded-md border border-gray-300 px-2 py-1 text-xs text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50",
+  },
+  dark: {
+    empty: "text-sm text-slate-400",
+    error: "text-sm text-rose-300",
+    item: "flex items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-2",
+    summary: "text-sm text-slate-100",
+    time: "text-xs text-slate-400",
+    button:
+      "shrink-0 rounded-full border border-slate-700 bg-slate-900 px-3 py-1 text-xs text-slate-200 hover:border-slate-500 disabled:cursor-not-allowed disabled:opacity-50",
+  },
+} as const;
+
+export function RevisionHistory<TSnapshot>({ load, onRestore, reloadKey, variant = "light" }: RevisionHistoryProps<TSnapshot>) {
+  const [revisions, setRevisions] = useState<Array<RecordRevision<TSnapshot>>>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const styles = STYLES[variant];
+  // `load` is usually an inline closure, so reload on `reloadKey` rather than on every render
+  const loadRef = useRef(load);
+  loadRef.current = load;
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRevisions(await loadRef.current());
+    } catch (err: any) {
+      setError(err?.message || "Failed to load history");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh, reloadKey]);
+
+  const handleRestore = async (revision: RecordRevision<TSnapshot>) => {
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      await onRestore(revision);
+      await refresh();
+    } catch (err: any) {
+      setError(err?.message || "Failed to restore revision");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading && revisions.length === 0) {
+    return <p className={styles.empty}>Loading history…</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {error ? <p className={styles.error}>{error}</p> : null}
+      {revisions.length === 0 && !error ? <p className={styles.empty}>No changes recorded yet.</p> : null}
+      <ul className="space-y-2">
+        {revisions.map((revision, index) => {
+          // The newest revision is the current state unless it was a delete
+          const isCurrent = index === 0 && revision.operation !== "delete";
+          return (
+            <li key={revision.id} className={styles.item}>
+              <div>
+                <p className={styles.summary}>{describeRecordRevision(revision)}</p>
+                <p className={styles.time}>{new Date(revision.createdAt).toLocaleString()}</p>
+              </div>
+              {isCurrent ? null : (
+                <button
+                  type="button"
+                  onClick={() => void handleRestore(revision)}
+                  disabled={restoringId !== null}
+                  className={styles.button}
+                >
+                  {restoringId === revision.id ? "Restoring…" : revision.operation === "delete" ? "Undelete" : "Restore"}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
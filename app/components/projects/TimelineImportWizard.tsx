@@ -0,0 +1,395 @@
+"use client";
+
+import { useMemo, useState, type ChangeEvent } from "react";
+import {
+  TIMELINE_IMPORT_FIELDS,
+  type TimelineImportAction,
+  type TimelineImportField,
+  type TimelineImportMapping,
+  type TimelineImportOptions,
+  type TimelineImportPreview,
+} from "@kazador/shared";
+import {
+  parseTimelineImportFile,
+  submitTimelineImport,
+  type ParsedTimelineImportFile,
+} from "../../lib/supabaseClient";
+
+interface TimelineImportWizardProps {
+  projectId: string;
+  accessToken: string | null;
+  onImported: () => void | Promise<void>;
+}
+
+type WizardStep = "upload" | "map" | "preview";
+
+const ACTION_STYLES: Record<TimelineImportAction, string> = {
+  create: "bg-emerald-100 text-emerald-700",
+  update: "bg-blue-100 text-blue-700",
+  unchanged: "bg-gray-100 text-gray-600",
+  invalid: "bg-rose-100 text-rose-700",
+};
+
+const ACTION_LABELS: Record<TimelineImportAction, string> = {
+  create: "New",
+  update: "Updates existing",
+  unchanged: "Already up to date",
+  invalid: "Skipped",
+};
+
+function formatPreviewDate(value: string | null, timezone: string | null): string {
+  if (!value) return "—";
+  try {
+    return new Intl.DateTimeFormat(undefined, {
+      timeZone: timezone || undefined,
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(value));
+  } catch (err) {
+    return value;
+  }
+}
+
+export function TimelineImportWizard({ projectId, accessToken, onImported }: TimelineImportWizardProps) {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<WizardStep>("upload");
+  const [table, setTable] = useState<ParsedTimelineImportFile | null>(null);
+  const [mapping, setMapping] = useState<TimelineImportMapping>({});
+  const [options, setOptions] = useState<TimelineImportOptions>({ defaultStartTime: "20:00", dayFirst: true });
+  const [preview, setPreview] = useState<TimelineImportPreview | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const writableRows = useMemo(
+    () => (preview?.rows ?? []).filter((row) => row.action === "create" || row.action === "update"),
+    [preview]
+  );
+
+  const reset = () => {
+    setStep("upload");
+    setTable(null);
+    setMapping({});
+    setPreview(null);
+    setSelectedRows(new Set());
+    setError(null);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file || !accessToken) return;
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const parsed = await parseTimelineImportFile(projectId, file, accessToken);
+      setTable(parsed);
+      setMapping(parsed.mapping);
+      setStep("map");
+    } catch (err: any) {
+      setError(err?.message || "Failed to read import file");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!table || !accessToken) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await submitTimelineImport(projectId, { rows: table.rows, mapping, options }, accessToken);
+      setPreview(response.preview);
+      setSelectedRows(
+        new Set(
+          response.preview.rows
+            .filter((row) => row.action === "create" || row.action === "update")
+            .map((row) => row.rowIndex)
+        )
+      );
+      setStep("preview");
+    } catch (err: any) {
+      setError(err?.message || "Failed to preview import");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!table || !accessToken) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await submitTimelineImport(
+        projectId,
+        { rows: table.rows, mapping, options, commit: true, rowIndexes: Array.from(selectedRows) },
+        accessToken
+      );
+      const created = response.result?.created ?? 0;
+      const updated = response.result?.updated ?? 0;
+      setMessage(`Imported ${created} new ${created === 1 ? "item" : "items"} and updated ${updated}.`);
+      reset();
+      setOpen(false);
+      await onImported();
+    } catch (err: any) {
+      setError(err?.message || "Failed to import timeline items");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleRow = (rowIndex: number) => {
+    setSelectedRows((current) => {
+      const next = new Set(current);
+      if (next.has(rowIndex)) {
+        next.delete(rowIndex);
+      } else {
+        next.add(rowIndex);
+      }
+      return next;
+    });
+  };
+
+  if (!open) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-lg border border-dashed border-gray-300 bg-white px-5 py-4 text-sm text-gray-600">
+        <span>{message ?? "Have a routing sheet from an agent? Import it from CSV, Excel or an .ics file."}</span>
+        <button
+          type="button"
+          onClick={() => {
+            setMessage(null);
+            setOpen(true);
+          }}
+          className="rounded-md border border-gray-300 px-3 py-1.5 text-sm font-medium text-gray-700 transition hover:bg-gray-100"
+        >
+          Import items
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Import timeline items</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Rows matching an earlier import or an existing item on the same day and place update that item instead of
+            adding a duplicate.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            reset();
+            setOpen(false);
+          }}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Close
+        </button>
+      </div>
+
+      {step === "upload" ? (
+        <label className="mt-4 flex cursor-pointer flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-gray-300 px-6 py-10 text-sm text-gray-600 hover:border-gray-400">
+          <span className="font-medium text-gray-900">{busy ? "Reading file…" : "Choose a .csv, .xlsx or .ics file"}</span>
+          <span className="text-xs text-gray-500">Up to 5MB. The first row of a spreadsheet should hold the column names.</span>
+          <input type="file" accept=".csv,.xlsx,.ics,text/csv,text/calendar" onChange={handleFile} disabled={busy} className="hidden" />
+        </label>
+      ) : null}
+
+      {step === "map" && table ? (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            Found {table.rows.length} {table.rows.length === 1 ? "row" : "rows"} in the {table.format.toUpperCase()} file. Match
+            each field to a column.
+          </p>
+          <div className="grid gap-3 md:grid-cols-3">
+            {TIMELINE_IMPORT_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="text-xs font-semibold uppercase text-gray-500">
+                {label}
+                {required ? " *" : ""}
+                <select
+                  value={mapping[field] ?? ""}
+                  onChange={(event) =>
+                    setMapping((current) => {
+                      const next = { ...current };
+                      if (event.target.value) {
+                        next[field as TimelineImportField] = event.target.value;
+                      } else {
+                        delete next[field as TimelineImportField];
+                      }
+                      return next;
+                    })
+                  }
+                  className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm font-normal normal-case text-gray-900"
+                >
+                  <option value="">Not in file</option>
+                  {table.columns.map((column) => (
+                    <option key={column} value={column}>
+                      {column}
+                      {table.rows[0]?.[column] ? ` (e.g. ${table.rows[0][column].slice(0, 24)})` : ""}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="grid gap-3 md:grid-cols-3">
+            <label className="text-xs font-semibold uppercase text-gray-500">
+              Time when none is given
+              <input
+                type="time"
+                value={options.defaultStartTime ?? "20:00"}
+                onChange={(event) => setOptions((current) => ({ ...current, defaultStartTime: event.target.value }))}
+                className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm font-normal text-gray-900"
+              />
+            </label>
+            <label className="text-xs font-semibold uppercase text-gray-500">
+              Timezone override
+              <input
+                type="text"
+                value={options.timezone ?? ""}
+                placeholder="From each row's city"
+                onChange={(event) => setOptions((current) => ({ ...current, timezone: event.target.value || null }))}
+                className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm font-normal normal-case text-gray-900"
+              />
+            </label>
+            <label className="flex items-center gap-2 self-end pb-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={options.dayFirst !== false}
+                onChange={(event) => setOptions((current) => ({ ...current, dayFirst: event.target.checked }))}
+                className="h-4 w-4 rounded border-gray-300"
+              />
+              Dates are day first (03/04 is 3 April)
+            </label>
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={reset}
+              className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-gray-100"
+            >
+              Choose another file
+            </button>
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={busy || !mapping.startDate}
+              className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:bg-gray-500"
+            >
+              {busy ? "Checking…" : "Preview import"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {step === "preview" && preview ? (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap gap-2 text-xs">
+            {(Object.keys(preview.summary) as TimelineImportAction[]).map((action) => (
+              <span key={action} className={`rounded-full px-2.5 py-1 font-medium ${ACTION_STYLES[action]}`}>
+                {preview.summary[action]} {ACTION_LABELS[action].toLowerCase()}
+              </span>
+            ))}
+            {preview.conflicts.length > 0 ? (
+              <span className="rounded-full bg-amber-100 px-2.5 py-1 font-medium text-amber-700">
+                {preview.conflicts.length} {preview.conflicts.length === 1 ? "conflict" : "conflicts"}
+              </span>
+            ) : null}
+          </div>
+          <div className="max-h-[28rem] overflow-auto rounded-md border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-semibold uppercase text-gray-500">
+                <tr>
+                  <th className="px-3 py-2" />
+                  <th className="px-3 py-2">#</th>
+                  <th className="px-3 py-2">Item</th>
+                  <th className="px-3 py-2">When</th>
+                  <th className="px-3 py-2">Result</th>
+                  <th className="px-3 py-2">Checks</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {preview.rows.map((row) => {
+                  const writable = row.action === "create" || row.action === "update";
+                  return (
+                    <tr key={row.rowIndex} className={writable ? "" : "bg-gray-50 text-gray-500"}>
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedRows.has(row.rowIndex)}
+                          disabled={!writable}
+                          onChange={() => toggleRow(row.rowIndex)}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-xs text-gray-500">{row.rowIndex + 1}</td>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{row.item?.title ?? "—"}</div>
+                        {row.item ? (
+                          <div className="text-xs text-gray-500">
+                            {[row.item.type.replace(/_/g, " ").toLowerCase(), row.item.labels.city, row.item.labels.territory, row.item.status]
+                              .filter(Boolean)
+                              .join(" · ")}
+                          </div>
+                        ) : null}
+                      </td>
+                      <td className="px-3 py-2 text-xs">{formatPreviewDate(row.item?.startsAt ?? null, row.item?.timezone ?? null)}</td>
+                      <td className="px-3 py-2">
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${ACTION_STYLES[row.action]}`}>
+                          {ACTION_LABELS[row.action]}
+                        </span>
+                        {row.matchedBy === "date_and_place" ? (
+                          <div className="mt-1 text-xs text-gray-500">Matched an existing item on the same day</div>
+                        ) : null}
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {row.errors.map((rowError) => (
+                          <div key={rowError} className="text-rose-600">
+                            {rowError}
+                          </div>
+                        ))}
+                        {row.conflicts.map((conflict) => (
+                          <div key={conflict.id} className={conflict.severity === "error" ? "text-rose-600" : "text-amber-600"}>
+                            {conflict.message}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setStep("map")}
+              className="rounded-md border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-gray-100"
+            >
+              Back to mapping
+            </button>
+            <button
+              type="button"
+              onClick={handleCommit}
+              disabled={busy || selectedRows.size === 0}
+              className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:bg-gray-500"
+            >
+              {busy ? "Importing…" : `Import ${selectedRows.size} of ${writableRows.length}`}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? <p className="mt-3 text-sm text-rose-600">{error}</p> : null}
+    </div>
+  );
+}
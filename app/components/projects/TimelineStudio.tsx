@@ -11,17 +11,25 @@ import {
   type MouseEvent,
 } from "react";
 import type {
+  DependencyShift,
   TimelineDependencyRecord,
   TimelineItemRecord,
   TimelineItemStatus,
   TimelineLane,
   TimelineLaneDefinition,
 } from "@kazador/shared";
-import { buildConflictIndex, detectTimelineConflicts } from "@kazador/shared";
+import {
+  buildConflictIndex,
+  computeCriticalPath,
+  detectTimelineConflicts,
+  planDependencyCascade,
+} from "@kazador/shared";
 
 const DAY_MS = 24 * 60 * 60 * 1000;
 const HOUR_MS = 60 * 60 * 1000;
 const MINUTE_MS = 60 * 1000;
+const UNDO_LIMIT = 5;
+const UNDO_TTL_MS = 2 * 60 * 1000;
 const ITEM_HEIGHT = 110;
 const PIN_SIZE = 24;
 const LANE_HEADER_HEIGHT = 52;
@@ -315,6 +323,16 @@ interface HoverState {
   y: number;
 }
 
+type ScheduleWindow = Partial<Pick<TimelineItemRecord, "startsAt" | "endsAt" | "dueAt">>;
+
+interface UndoEntry {
+  id: number;
+  label: string;
+  /** Schedule each item had before the operation. */
+  changes: Array<{ itemId: string; previous: ScheduleWindow }>;
+  recordedAt: number;
+}
+
 interface ContextMenuState {
   item: TimelineItemRecord;
   x: number;
@@ -463,6 +481,17 @@ function hasAttachments(item: TimelineItemRecord): boolean {
   return Boolean(links.emailId || links.threadId);
 }
 
+function formatShiftDate(dates: DependencyShift["to"]): string {
+  const value = toMs(dates.startsAt) ?? toMs(dates.dueAt);
+  if (!value) return "Unscheduled";
+  return new Date(value).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
 function formatTimeRange(item: TimelineItemRecord): string {
   const start = toMs(item.startsAt);
   const end = toMs(item.endsAt);
@@ -516,9 +545,14 @@ export function TimelineStudio({
   const [hoverState, setHoverState] = useState<HoverState | null>(null);
   const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
   const [dragMessage, setDragMessage] = useState<string | null>(null);
+  const [pendingCascade, setPendingCascade] = useState<{ sourceTitle: string; shifts: DependencyShift[] } | null>(null);
+  const [applyingCascade, setApplyingCascade] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const [scrollLeft, setScrollLeft] = useState(0);
   const [viewportWidth, setViewportWidth] = useState(1200);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [undoing, setUndoing] = useState(false);
+  const undoIdRef = useRef(0);
   const dragRef = useRef<
     | {
         id: string;
@@ -526,10 +560,18 @@ export function TimelineStudio({
         startMs: number;
         endMs: number;
         pointerStartX: number;
+        previous: ScheduleWindow;
       }
     | null
   >(null);
 
+  const pushUndo = useCallback((label: string, changes: UndoEntry["changes"]) => {
+    if (changes.length === 0) return;
+    undoIdRef.current += 1;
+    const entry: UndoEntry = { id: undoIdRef.current, label, changes, recordedAt: Date.now() };
+    setUndoStack((previous) => [...previous, entry].slice(-UNDO_LIMIT));
+  }, []);
+
   const { startMs, endMs } = useMemo(() => describeRange(viewMode, startDate, endDate), [
     viewMode,
     startDate,
@@ -663,7 +705,20 @@ export function TimelineStudio({
           setDragMessage("⚠ Failed to save changes");
           // Revert to original items on error
           setLocalItems(items);
+          return;
+        }
+
+        if (
+          updatedItem.startsAt !== dragData.previous.startsAt ||
+          updatedItem.endsAt !== dragData.previous.endsAt
+        ) {
+          pushUndo(`${dragData.mode === "move" ? "Move" : "Resize"} ${updatedItem.title}`, [
+            { itemId: updatedItem.id, previous: dragData.previous },
+          ]);
         }
+
+        const shifts = planDependencyCascade(localItems, dependencies, updatedItem.id);
+        setPendingCascade(shifts.length > 0 ? { sourceTitle: updatedItem.title, shifts } : null);
       }
     };
 
@@ -673,7 +728,92 @@ export function TimelineStudio({
       window.removeEventListener("pointermove", handlePointerMove);
       window.removeEventListener("pointerup", handlePointerUp);
     };
-  }, [viewMode, zoom, localItems, items, onItemUpdate]);
+  }, [viewMode, zoom, localItems, items, dependencies, onItemUpdate, pushUndo]);
+
+  const handleApplyCascade = useCallback(async () => {
+    if (!pendingCascade || !onItemUpdate) return;
+    const { shifts } = pendingCascade;
+    const shiftLookup = new Map(shifts.map((shift) => [shift.itemId, shift]));
+    setApplyingCascade(true);
+    setLocalItems((previous) =>
+      previous.map((item) => {
+        const shift = shiftLookup.get(item.id);
+        return shift ? { ...item, ...shift.to } : item;
+      })
+    );
+
+    const applied: UndoEntry["changes"] = [];
+    try {
+      for (const shift of shifts) {
+        await onItemUpdate(shift.itemId, shift.to);
+        applied.push({ itemId: shift.itemId, previous: shift.from });
+      }
+      setPendingCascade(null);
+    } catch (error) {
+      console.error("Failed to shift dependent items:", error);
+      setDragMessage("⚠ Failed to shift dependent items");
+      setLocalItems(items);
+    } finally {
+      pushUndo(`Shift ${applied.length} dependent item${applied.length === 1 ? "" : "s"}`, applied);
+      setApplyingCascade(false);
+    }
+  }, [items, onItemUpdate, pendingCascade, pushUndo]);
+
+  const handleUndo = useCallback(async () => {
+    if (!onItemUpdate || undoing) return;
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    setUndoStack((previous) => previous.filter((candidate) => candidate.id !== entry.id));
+    setPendingCascade(null);
+    setUndoing(true);
+    const previousLookup = new Map(entry.changes.map((change) => [change.itemId, change.previous]));
+    setLocalItems((previous) =>
+      previous.map((item) => {
+        const schedule = previousLookup.get(item.id);
+        return schedule ? { ...item, ...schedule } : item;
+      })
+    );
+
+    try {
+      // Undo in reverse so cascades unwind before the drag that caused them
+      for (const change of [...entry.changes].reverse()) {
+        await onItemUpdate(change.itemId, change.previous);
+      }
+      setDragMessage(`Undid: ${entry.label}`);
+    } catch (error) {
+      console.error("Failed to undo timeline change:", error);
+      setDragMessage("⚠ Failed to undo change");
+      setLocalItems(items);
+    } finally {
+      setUndoing(false);
+    }
+  }, [items, onItemUpdate, undoStack, undoing]);
+
+  useEffect(() => {
+    if (undoStack.length === 0) return;
+    // Undo is short-lived: entries drop off once they are older than UNDO_TTL_MS
+    const timer = window.setInterval(() => {
+      const cutoff = Date.now() - UNDO_TTL_MS;
+      setUndoStack((previous) => {
+        const fresh = previous.filter((entry) => entry.recordedAt > cutoff);
+        return fresh.length === previous.length ? previous : fresh;
+      });
+    }, 10_000);
+    return () => window.clearInterval(timer);
+  }, [undoStack.length]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.shiftKey || event.key.toLowerCase() !== "z") return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      if (undoStack.length === 0) return;
+      event.preventDefault();
+      void handleUndo();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [handleUndo, undoStack.length]);
 
   const pxPerMs = useMemo(() => getPxPerMs(viewMode, zoom), [viewMode, zoom]);
   const timelineWidth = Math.max((endMs - startMs) * pxPerMs, viewportWidth);
@@ -843,9 +983,12 @@ export function TimelineStudio({
       bufferHours: 4,
       enableTravelTimeDetection: true,
       enableTimezoneWarnings: true,
+      dependencies,
     });
     return buildConflictIndex(conflicts);
-  }, [localItems]);
+  }, [localItems, dependencies]);
+
+  const schedule = useMemo(() => computeCriticalPath(localItems, dependencies), [localItems, dependencies]);
 
   useEffect(() => {
     const inConflict = Array.from(conflictIndex.keys());
@@ -893,6 +1036,7 @@ export function TimelineStudio({
         startMs: positioned.startMs,
         endMs: positioned.endMs,
         pointerStartX: event.clientX,
+        previous: { startsAt: positioned.item.startsAt, endsAt: positioned.item.endsAt },
       };
       (event.target as HTMLElement).setPointerCapture(event.pointerId);
       setDragMessage(mode === "move" ? "Drag to reschedule" : "Drag to resize");
@@ -916,7 +1060,7 @@ export function TimelineStudio({
   }, [positionedLayouts]);
 
   const dependencyEdges = useMemo(() => {
-    const edges: Array<{ from: string; to: string; kind: string }> = [];
+    const edges: Array<{ from: string; to: string; kind: string; critical: boolean }> = [];
     for (const dependency of dependencies) {
       if (!dependency.fromItemId || !dependency.toItemId) continue;
       if (!positionLookup.has(dependency.fromItemId) || !positionLookup.has(dependency.toItemId)) continue;
@@ -924,10 +1068,11 @@ export function TimelineStudio({
         from: dependency.fromItemId,
         to: dependency.toItemId,
         kind: dependency.kind ?? "FS",
+        critical: Boolean(schedule.metrics[dependency.fromItemId]?.critical && schedule.metrics[dependency.toItemId]?.critical),
       });
     }
     return edges;
-  }, [dependencies, positionLookup]);
+  }, [dependencies, positionLookup, schedule]);
 
   const renderItem = useCallback(
     (positioned: PositionedItem, laneActive: boolean) => {
@@ -1192,6 +1337,17 @@ export function TimelineStudio({
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {onItemUpdate && undoStack.length > 0 ? (
+            <button
+              type="button"
+              onClick={() => void handleUndo()}
+              disabled={undoing}
+              title={`Undo: ${undoStack[undoStack.length - 1].label} (Ctrl/⌘+Z)`}
+              className="h-9 rounded-full border border-slate-700 bg-slate-900 px-4 text-xs font-semibold text-slate-200 transition hover:border-slate-500 hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {undoing ? "Undoing…" : `Undo${undoStack.length > 1 ? ` (${undoStack.length})` : ""}`}
+            </button>
+          ) : null}
           <button
             type="button"
             onClick={() => handleZoom(-0.15)}
@@ -1401,7 +1557,15 @@ export function TimelineStudio({
                     const endY = to.y + to.height / 2;
                     const deltaX = Math.max(48, Math.abs(endX - startX) * 0.4);
                     const path = `M${startX},${startY} C${startX + deltaX},${startY} ${endX - deltaX},${endY} ${endX},${endY}`;
-                    return <path key={`${edge.from}->${edge.to}`} d={path} className="fill-none stroke-slate-500/70" strokeWidth={1.5} markerEnd="url(#timeline-arrow)" />;
+                    return (
+                      <path
+                        key={`${edge.from}->${edge.to}`}
+                        d={path}
+                        className={`fill-none ${edge.critical ? "stroke-rose-400/80" : "stroke-slate-500/70"}`}
+                        strokeWidth={edge.critical ? 2 : 1.5}
+                        markerEnd="url(#timeline-arrow)"
+                      />
+                    );
                   })}
                 </svg>
               </div>
@@ -1425,6 +1589,46 @@ export function TimelineStudio({
         </div>
       ) : null}
 
+      {pendingCascade ? (
+        <div className="absolute bottom-20 right-6 z-30 w-80 rounded-lg border border-slate-700 bg-slate-900/95 p-4 text-xs text-slate-200 shadow-2xl">
+          <p className="text-sm font-semibold text-white">Shift dependent items?</p>
+          <p className="mt-1 text-slate-400">
+            Moving {pendingCascade.sourceTitle} leaves {pendingCascade.shifts.length} dependent item
+            {pendingCascade.shifts.length > 1 ? "s" : ""} starting too early.
+          </p>
+          <ul className="mt-3 max-h-48 space-y-2 overflow-y-auto">
+            {pendingCascade.shifts.map((shift) => (
+              <li key={shift.itemId} className="rounded border border-slate-800 bg-slate-950/60 px-3 py-2">
+                <p className="font-semibold text-white">{shift.title}</p>
+                <p className="mt-0.5 text-slate-400">
+                  {formatShiftDate(shift.from)}
+                  <span className="mx-1 text-slate-500">→</span>
+                  <span className="text-emerald-300">{formatShiftDate(shift.to)}</span>
+                </p>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setPendingCascade(null)}
+              disabled={applyingCascade}
+              className="rounded-md border border-slate-700 px-3 py-1 text-xs text-slate-300 transition hover:border-slate-500 hover:text-white disabled:opacity-60"
+            >
+              Keep dates
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleApplyCascade()}
+              disabled={applyingCascade}
+              className="rounded-md bg-indigo-500 px-3 py-1 text-xs font-semibold text-white transition hover:bg-indigo-400 disabled:opacity-60"
+            >
+              {applyingCascade ? "Shifting…" : "Shift items"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
       {hoverState ? (
         <div
           className="pointer-events-none fixed z-40 max-w-xs rounded-lg border border-slate-700 bg-slate-900/95 px-4 py-3 text-xs text-slate-100 shadow-xl"
@@ -1440,6 +1644,13 @@ export function TimelineStudio({
           {hoverState.item.labels?.city ? (
             <p className="mt-1 text-xs text-slate-400">{hoverState.item.labels.city}</p>
           ) : null}
+          {schedule.metrics[hoverState.item.id] && dependencies.length > 0 ? (
+            <p className={`mt-1 text-xs ${schedule.metrics[hoverState.item.id].critical ? "text-rose-300" : "text-slate-400"}`}>
+              {schedule.metrics[hoverState.item.id].critical
+                ? "On the critical path"
+                : `${schedule.metrics[hoverState.item.id].slackHours}h slack`}
+            </p>
+          ) : null}
         </div>
       ) : null}
 
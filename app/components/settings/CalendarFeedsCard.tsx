@@ -0,0 +1,268 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { TimelineItemStatus } from "@kazador/shared";
+import {
+  createCalendarFeed,
+  fetchCalendarFeeds,
+  fetchProjects,
+  revokeCalendarFeed,
+  type CalendarFeed,
+  type ProjectListItem,
+} from "@/lib/supabaseClient";
+
+import { useAuth } from "../AuthProvider";
+
+type FeedTarget = "project" | "artist" | "all";
+
+const STATUS_OPTIONS: TimelineItemStatus[] = ["planned", "tentative", "confirmed", "waiting", "done", "canceled"];
+
+function describeFilters(feed: CalendarFeed): string {
+  const lanes = feed.lanes.length > 0 ? feed.lanes.join(", ") : "all lanes";
+  const statuses = feed.statuses.length > 0 ? feed.statuses.join(", ") : "all statuses";
+  return `${lanes} · ${statuses}`;
+}
+
+export default function CalendarFeedsCard() {
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [configured, setConfigured] = useState(true);
+  const [projects, setProjects] = useState<ProjectListItem[]>([]);
+  const [target, setTarget] = useState<FeedTarget>("all");
+  const [projectId, setProjectId] = useState("");
+  const [lanes, setLanes] = useState("");
+  const [statuses, setStatuses] = useState<TimelineItemStatus[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!accessToken) {
+      setFeeds([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [feedResult, projectList] = await Promise.all([
+        fetchCalendarFeeds(accessToken),
+        fetchProjects({ accessToken }),
+      ]);
+      setFeeds(feedResult.feeds);
+      setConfigured(feedResult.configured);
+      setProjects(projectList);
+    } catch (err: any) {
+      setError(err?.message || "Failed to load calendar feeds");
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const selectedProject = useMemo(
+    () => projects.find((entry) => entry.project.id === projectId)?.project ?? null,
+    [projects, projectId]
+  );
+  const activeFeeds = feeds.filter((feed) => !feed.revokedAt);
+  const canCreate =
+    target === "all" || (target === "project" && selectedProject) || (target === "artist" && selectedProject?.artistId);
+
+  const handleCreate = async () => {
+    if (!accessToken || !canCreate) return;
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const feed = await createCalendarFeed(
+        {
+          scope: target === "project" ? "project" : "user",
+          projectId: target === "project" ? projectId : null,
+          artistId: target === "artist" ? selectedProject?.artistId ?? null : null,
+          name: target === "artist" && selectedProject ? `${selectedProject.name} artist schedule` : null,
+          lanes: lanes
+            .split(",")
+            .map((lane) => lane.trim())
+            .filter(Boolean),
+          statuses,
+        },
+        accessToken
+      );
+      setFeeds((current) => [feed, ...current]);
+      setLanes("");
+      setStatuses([]);
+      setMessage("Feed created. Paste the URL into your calendar app's subscribe option.");
+    } catch (err: any) {
+      setError(err?.message || "Failed to create calendar feed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (feedId: string) => {
+    if (!accessToken) return;
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const revoked = await revokeCalendarFeed(feedId, accessToken);
+      setFeeds((current) => current.map((feed) => (feed.id === feedId ? revoked : feed)));
+      setMessage("Feed revoked");
+    } catch (err: any) {
+      setError(err?.message || "Failed to revoke calendar feed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage("Feed URL copied");
+    } catch (err) {
+      setError("Could not copy the URL; select it and copy manually");
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+      <header className="mb-3 space-y-1">
+        <h2 className="text-lg font-semibold text-gray-900">Calendar feeds (.ics)</h2>
+        <p className="text-sm text-gray-600">
+          Share a read-only subscription URL with crew who use Apple Calendar, Outlook or any other iCalendar client.
+          Anyone with the URL can read the feed, so revoke it when it is no longer needed.
+        </p>
+      </header>
+
+      <div className="space-y-4 text-sm text-gray-700">
+        {!configured ? (
+          <p className="text-sm text-amber-700">Set CALENDAR_FEED_SECRET on the server to enable feeds.</p>
+        ) : null}
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          <label className="block text-xs font-medium text-gray-600">
+            Covers
+            <select
+              value={target}
+              onChange={(event) => setTarget(event.target.value as FeedTarget)}
+              className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+            >
+              <option value="all">All my projects</option>
+              <option value="project">One project</option>
+              <option value="artist">Every project for a project&apos;s artist</option>
+            </select>
+          </label>
+          {target !== "all" ? (
+            <label className="block text-xs font-medium text-gray-600">
+              Project
+              <select
+                value={projectId}
+                onChange={(event) => setProjectId(event.target.value)}
+                className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+              >
+                <option value="">Select a project</option>
+                {projects.map((entry) => (
+                  <option key={entry.project.id} value={entry.project.id}>
+                    {entry.project.name}
+                  </option>
+                ))}
+              </select>
+              {target === "artist" && selectedProject && !selectedProject.artistId ? (
+                <span className="mt-1 block text-xs text-amber-700">This project has no artist assigned.</span>
+              ) : null}
+            </label>
+          ) : null}
+          <label className="block text-xs font-medium text-gray-600 sm:col-span-2">
+            Lanes
+            <input
+              value={lanes}
+              onChange={(event) => setLanes(event.target.value)}
+              placeholder="LIVE_HOLDS, TRAVEL (leave empty for every lane)"
+              className="mt-1 w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm text-gray-900"
+            />
+          </label>
+        </div>
+
+        <fieldset className="flex flex-wrap items-center gap-3">
+          <legend className="mb-1 text-xs font-medium text-gray-600">Statuses (none selected includes all)</legend>
+          {STATUS_OPTIONS.map((status) => (
+            <label key={status} className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={statuses.includes(status)}
+                onChange={(event) =>
+                  setStatuses((current) =>
+                    event.target.checked ? [...current, status] : current.filter((entry) => entry !== status)
+                  )
+                }
+                className="h-4 w-4 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+              />
+              {status}
+            </label>
+          ))}
+        </fieldset>
+
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={loading || !accessToken || !configured || !canCreate}
+          className="rounded bg-blue-600 px-3 py-1 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+        >
+          Create feed
+        </button>
+
+        {activeFeeds.length > 0 ? (
+          <ul className="divide-y divide-gray-100 rounded-md border border-gray-200">
+            {activeFeeds.map((feed) => (
+              <li key={feed.id} className="space-y-2 p-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-gray-900">{feed.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {describeFilters(feed)}
+                      {feed.lastAccessedAt ? ` · last fetched ${new Date(feed.lastAccessedAt).toLocaleString()}` : " · not fetched yet"}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => void handleRevoke(feed.id)}
+                    disabled={loading}
+                    className="rounded border border-red-500 px-3 py-1 text-xs text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:text-red-300"
+                  >
+                    Revoke
+                  </button>
+                </div>
+                {feed.url ? (
+                  <div className="flex gap-2">
+                    <input
+                      readOnly
+                      value={feed.url}
+                      onFocus={(event) => event.target.select()}
+                      className="flex-1 rounded border border-gray-200 bg-gray-50 px-2 py-1 font-mono text-xs text-gray-700"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => void handleCopy(feed.url as string)}
+                      className="rounded border border-gray-300 px-2 py-1 text-xs text-gray-700 hover:bg-gray-50"
+                    >
+                      Copy
+                    </button>
+                  </div>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">{loading ? "Loading feeds…" : "No active feeds."}</p>
+        )}
+
+        {message ? <p className="text-sm text-emerald-600">{message}</p> : null}
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,300 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { GmailAccountSummary } from "@kazador/shared";
+import { describeGmailSyncHealth, type GmailSyncHealth } from "@kazador/shared";
+import {
+  disconnectGmailAccount,
+  fetchGmailAccounts,
+  fetchProjects,
+  startGmailOAuth,
+  updateGmailAccount,
+  type ProjectListItem,
+} from "@/lib/supabaseClient";
+
+import { useAuth } from "../AuthProvider";
+
+const MESSAGE_CHANNEL = "kazador-gmail";
+
+const HEALTH_BADGE_CLASSES: Record<GmailSyncHealth, string> = {
+  healthy: "border-green-200 bg-green-50 text-green-700",
+  stale: "border-amber-200 bg-amber-50 text-amber-700",
+  failing: "border-red-200 bg-red-50 text-red-700",
+  reconnect: "border-red-200 bg-red-50 text-red-700",
+  pending: "border-gray-200 bg-gray-50 text-gray-600",
+};
+
+const HEALTH_LABELS: Record<GmailSyncHealth, string> = {
+  healthy: "Syncing",
+  stale: "Stale",
+  failing: "Failing",
+  reconnect: "Reconnect needed",
+  pending: "Pending",
+};
+
+interface GmailAccountRowProps {
+  account: GmailAccountSummary;
+  projects: ProjectListItem[];
+  busy: boolean;
+  onSave: (accountId: string, updates: { displayName: string | null; defaultProjectId: string | null }) => void;
+  onDisconnect: (accountId: string) => void;
+  onReconnect: () => void;
+}
+
+function GmailAccountRow({ account, projects, busy, onSave, onDisconnect, onReconnect }: GmailAccountRowProps) {
+  const [displayName, setDisplayName] = useState(account.displayName ?? "");
+  const [defaultProjectId, setDefaultProjectId] = useState(account.defaultProjectId ?? "");
+
+  useEffect(() => {
+    setDisplayName(account.displayName ?? "");
+    setDefaultProjectId(account.defaultProjectId ?? "");
+  }, [account.displayName, account.defaultProjectId]);
+
+  const health = describeGmailSyncHealth(account);
+  const dirty =
+    displayName.trim() !== (account.displayName ?? "") || defaultProjectId !== (account.defaultProjectId ?? "");
+
+  return (
+    <li className="space-y-3 rounded-md border border-gray-200 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium text-gray-900">{account.email}</p>
+          <p className="text-xs text-gray-500">{health.message}</p>
+        </div>
+        <span
+          className={`inline-flex items-center rounded-full border px-2 py-0.5 text-xs font-medium ${HEALTH_BADGE_CLASSES[health.health]}`}
+        >
+          {HEALTH_LABELS[health.health]}
+        </span>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+          Display name
+          <input
+            type="text"
+            value={displayName}
+            onChange={(event) => setDisplayName(event.target.value)}
+            placeholder="e.g. Bookings"
+            maxLength={80}
+            className="rounded border border-gray-300 px-2 py-1 text-sm text-gray-800 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-medium text-gray-600">
+          Default project for new mail
+          <select
+            value={defaultProjectId}
+            onChange={(event) => setDefaultProjectId(event.target.value)}
+            className="rounded border border-gray-300 bg-white px-2 py-1 text-sm text-gray-800 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            <option value="">No default</option>
+            {projects.map(({ project }) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Mail that no assignment rule matches is linked to the default project.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() =>
+            onSave(account.id, {
+              displayName: displayName.trim() || null,
+              defaultProjectId: defaultProjectId || null,
+            })
+          }
+          disabled={busy || !dirty}
+          className="rounded bg-blue-600 px-3 py-1 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+        >
+          Save
+        </button>
+        {health.health === "reconnect" ? (
+          <button
+            type="button"
+            onClick={onReconnect}
+            disabled={busy}
+            className="rounded border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:text-gray-400"
+          >
+            Reconnect
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={() => onDisconnect(account.id)}
+          disabled={busy}
+          className="rounded border border-red-500 px-3 py-1 text-sm text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:text-red-300"
+        >
+          Disconnect
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export default function GmailAccountsCard() {
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+
+  const [accounts, setAccounts] = useState<GmailAccountSummary[]>([]);
+  const [projects, setProjects] = useState<ProjectListItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshAccounts = useCallback(async () => {
+    if (!accessToken) {
+      setAccounts([]);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setAccounts(await fetchGmailAccounts(accessToken));
+    } catch (err: any) {
+      setError(err?.message || "Failed to load Gmail accounts");
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    void refreshAccounts();
+  }, [refreshAccounts]);
+
+  useEffect(() => {
+    if (!accessToken) return;
+    fetchProjects({ accessToken })
+      .then(setProjects)
+      .catch((err) => console.error("Failed to load projects", err));
+  }, [accessToken]);
+
+  useEffect(() => {
+    function handleOAuthMessage(event: MessageEvent) {
+      if (!event?.data || typeof event.data !== "object") return;
+      const data = event.data as Record<string, unknown>;
+      if (data.source !== MESSAGE_CHANNEL) return;
+
+      if (data.status === "success") {
+        setError(null);
+        void refreshAccounts();
+      } else if (data.status === "error") {
+        setError(typeof data.message === "string" ? data.message : "Connection failed");
+      }
+    }
+
+    window.addEventListener("message", handleOAuthMessage);
+    return () => window.removeEventListener("message", handleOAuthMessage);
+  }, [refreshAccounts]);
+
+  const handleConnect = async () => {
+    if (!accessToken) return;
+    setError(null);
+    setLoading(true);
+    try {
+      const redirectTo = typeof window !== "undefined" ? window.location.pathname : "/settings/integrations";
+      const { authUrl } = await startGmailOAuth({ redirectTo }, accessToken);
+      window.open(authUrl, `${MESSAGE_CHANNEL}-oauth`, "width=480,height=640");
+    } catch (err: any) {
+      setError(err?.message || "Failed to start OAuth flow");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (
+    accountId: string,
+    updates: { displayName: string | null; defaultProjectId: string | null }
+  ) => {
+    if (!accessToken) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const updated = await updateGmailAccount(accountId, updates, accessToken);
+      if (updated) {
+        setAccounts((prev) => prev.map((account) => (account.id === updated.id ? updated : account)));
+      }
+    } catch (err: any) {
+      setError(err?.message || "Failed to update account");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDisconnect = async (accountId: string) => {
+    if (!accessToken) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await disconnectGmailAccount(accessToken, accountId);
+      setAccounts((prev) => prev.filter((account) => account.id !== accountId));
+    } catch (err: any) {
+      setError(err?.message || "Failed to disconnect account");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+      <header className="mb-3 space-y-1">
+        <h2 className="text-lg font-semibold text-gray-900">Gmail</h2>
+        <p className="text-sm text-gray-600">
+          Let Kazador ingest inbox activity, classify every message, and sync labels back to Gmail. Connect shared
+          mailboxes such as bookings@ alongside your own inbox.
+        </p>
+      </header>
+
+      <div className="mb-4 text-sm text-gray-600">
+        <ul className="list-disc space-y-1 pl-5 text-sm text-gray-600">
+          <li>Pull unread mail for AI triage and apply Kazador labels automatically.</li>
+          <li>Filter the inbox by receiving mailbox and route each one to a default project.</li>
+          <li>Link key threads to projects and timelines.</li>
+        </ul>
+      </div>
+
+      {accounts.length > 0 ? (
+        <ul className="mb-4 space-y-3">
+          {accounts.map((account) => (
+            <GmailAccountRow
+              key={account.id}
+              account={account}
+              projects={projects}
+              busy={loading || !accessToken}
+              onSave={(accountId, updates) => void handleSave(accountId, updates)}
+              onDisconnect={(accountId) => void handleDisconnect(accountId)}
+              onReconnect={() => void handleConnect()}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="mb-4 text-sm text-gray-600">No account connected yet.</p>
+      )}
+
+      {error ? <p className="mb-3 text-sm text-red-600">{error}</p> : null}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => void refreshAccounts()}
+          disabled={loading || !accessToken}
+          className="rounded border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:text-gray-400"
+        >
+          {loading ? "Refreshing…" : "Refresh status"}
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleConnect()}
+          disabled={loading || !accessToken}
+          className="rounded bg-blue-600 px-3 py-1 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+        >
+          {accounts.length > 0 ? "Add another account" : "Connect Gmail"}
+        </button>
+      </div>
+    </section>
+  );
+}
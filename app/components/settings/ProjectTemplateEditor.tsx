@@ -0,0 +1,226 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { normaliseProjectTemplatePayload, type ProjectTemplateRecord } from "@kazador/shared";
+import {
+  fetchProjectTemplate,
+  updateProjectTemplate,
+  type ProjectTemplateDetail,
+  type ProjectTemplateUpdateInput,
+} from "@/lib/supabaseClient";
+
+interface ProjectTemplateEditorProps {
+  templateId: string;
+  accessToken?: string;
+  onSaved: (template: ProjectTemplateRecord) => void;
+}
+
+type EditableItem = NonNullable<ProjectTemplateUpdateInput["items"]>[number];
+
+export default function ProjectTemplateEditor({ templateId, accessToken, onSaved }: ProjectTemplateEditorProps) {
+  const [detail, setDetail] = useState<ProjectTemplateDetail | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [items, setItems] = useState<EditableItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyDetail = (next: ProjectTemplateDetail) => {
+    setDetail(next);
+    setName(next.template.name);
+    setDescription(next.template.description ?? "");
+    setItems(
+      next.items.map(({ itemType, title, lane, offsetDays, durationDays, metadata }) => ({
+        itemType,
+        title,
+        lane,
+        offsetDays,
+        durationDays,
+        metadata,
+      }))
+    );
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchProjectTemplate(templateId, accessToken)
+      .then((result) => {
+        if (!cancelled) applyDetail(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load template");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [templateId, accessToken]);
+
+  const save = async (input: ProjectTemplateUpdateInput) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await updateProjectTemplate(templateId, input, accessToken);
+      onSaved(updated.template);
+      applyDetail(await fetchProjectTemplate(templateId, accessToken));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateItem = (index: number, patch: Partial<EditableItem>) => {
+    setItems((current) => current.map((item, position) => (position === index ? { ...item, ...patch } : item)));
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading template…</p>;
+  }
+  if (!detail) {
+    return error ? <p className="text-sm text-red-600">{error}</p> : null;
+  }
+
+  const payload = normaliseProjectTemplatePayload(detail.template.payload);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <label className="block text-sm font-medium text-gray-700">
+          Name
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Description
+          <input
+            type="text"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
+          />
+        </label>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">Timeline items</h3>
+        <p className="mt-1 text-xs text-gray-500">
+          Offsets count days from the new project&apos;s start date. Times and timezones captured from the source project are kept.
+        </p>
+        {items.length === 0 ? (
+          <p className="mt-3 text-sm text-gray-500">This template has no timeline items.</p>
+        ) : (
+          <table className="mt-3 min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="text-left text-xs font-semibold uppercase text-gray-500">
+              <tr>
+                <th className="py-2 pr-3">Title</th>
+                <th className="py-2 pr-3">Type</th>
+                <th className="py-2 pr-3">Offset (days)</th>
+                <th className="py-2 pr-3">Length (days)</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {items.map((item, index) => (
+                <tr key={`${String(item.metadata?.key ?? "")}-${index}`}>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="text"
+                      value={item.title}
+                      onChange={(event) => updateItem(index, { title: event.target.value })}
+                      className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="py-2 pr-3 text-xs text-gray-600">{item.itemType.replace(/_/g, " ").toLowerCase()}</td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      value={item.offsetDays}
+                      onChange={(event) => updateItem(index, { offsetDays: Number(event.target.value) || 0 })}
+                      className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min={0}
+                      value={item.durationDays}
+                      onChange={(event) => updateItem(index, { durationDays: Math.max(0, Number(event.target.value) || 0) })}
+                      className="w-20 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setItems((current) => current.filter((_, position) => position !== index))}
+                      className="text-xs font-medium text-red-600 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <p className="mt-3 text-xs text-gray-500">
+          Also creates {payload.tasks.length} {payload.tasks.length === 1 ? "task" : "tasks"}, {payload.lanes.length} custom{" "}
+          {payload.lanes.length === 1 ? "lane" : "lanes"}, {payload.dependencies.length}{" "}
+          {payload.dependencies.length === 1 ? "dependency" : "dependencies"} and {payload.assignmentRules.length} email assignment{" "}
+          {payload.assignmentRules.length === 1 ? "rule" : "rules"}.
+        </p>
+      </div>
+
+      {error ? <p className="text-sm text-red-600">{error}</p> : null}
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          disabled={saving || !name.trim()}
+          onClick={() => save({ name: name.trim(), description: description.trim() || null, items })}
+          className="rounded-md bg-gray-900 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-gray-700 disabled:cursor-not-allowed disabled:bg-gray-400"
+        >
+          {saving ? "Saving…" : `Save as version ${detail.template.version + 1}`}
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">Version history</h3>
+        <ul className="mt-3 divide-y divide-gray-100 rounded-md border border-gray-200">
+          {detail.versions.map((version) => (
+            <li key={version.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div>
+                <span className="font-medium text-gray-900">Version {version.version}</span>
+                <span className="ml-2 text-xs text-gray-500">
+                  {new Date(version.createdAt).toLocaleString()} · {version.items.length}{" "}
+                  {version.items.length === 1 ? "item" : "items"}
+                </span>
+              </div>
+              {version.version === detail.template.version ? (
+                <span className="text-xs font-medium text-emerald-600">Current</span>
+              ) : (
+                <button
+                  type="button"
+                  disabled={saving}
+                  onClick={() => save({ restoreVersion: version.version })}
+                  className="rounded-md border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-100 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Restore
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
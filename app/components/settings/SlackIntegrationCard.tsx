@@ -0,0 +1,186 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  disconnectSlack,
+  fetchSlackSettings,
+  updateSlackSettings,
+  type SlackIntegrationSettings,
+} from "@/lib/supabaseClient";
+
+import { useAuth } from "../AuthProvider";
+
+export default function SlackIntegrationCard() {
+  const { session } = useAuth();
+  const accessToken = session?.access_token;
+
+  const [settings, setSettings] = useState<SlackIntegrationSettings | null>(null);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [slackUserId, setSlackUserId] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!accessToken) {
+      setSettings(null);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setSettings(await fetchSlackSettings(accessToken));
+    } catch (err: any) {
+      setError(err?.message || "Failed to load Slack settings");
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    setSlackUserId(settings?.slackUserId ?? "");
+  }, [settings?.slackUserId]);
+
+  const save = async (input: {
+    enabled?: boolean;
+    webhookUrl?: string;
+    includeApprovals?: boolean;
+    slackUserId?: string;
+  }) => {
+    if (!accessToken) return;
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const next = await updateSlackSettings(input, accessToken);
+      setSettings(next);
+      setWebhookUrl("");
+      setMessage("Slack settings saved");
+    } catch (err: any) {
+      setError(err?.message || "Failed to save Slack settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!accessToken) return;
+    setLoading(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setSettings(await disconnectSlack(accessToken));
+    } catch (err: any) {
+      setError(err?.message || "Failed to disconnect Slack");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+      <header className="mb-3 space-y-1">
+        <h2 className="text-lg font-semibold text-gray-900">Slack</h2>
+        <p className="text-sm text-gray-600">
+          Post your daily digest to a Slack channel through an incoming webhook, with approve and decline buttons for
+          pending approvals.
+        </p>
+      </header>
+
+      <div className="space-y-4 text-sm text-gray-700">
+        <p>
+          {settings?.hasWebhook ? (
+            <>
+              Webhook configured <span className="font-mono text-xs text-gray-500">{settings.webhookHint}</span>.
+              Delivery is <span className="font-medium text-gray-900">{settings.enabled ? "on" : "off"}</span>.
+            </>
+          ) : (
+            "No webhook configured yet."
+          )}
+        </p>
+
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <input
+            type="url"
+            value={webhookUrl}
+            onChange={(event) => setWebhookUrl(event.target.value)}
+            placeholder="https://hooks.slack.com/services/…"
+            className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
+          />
+          <button
+            type="button"
+            onClick={() => void save({ webhookUrl, enabled: true })}
+            disabled={loading || !accessToken || !webhookUrl.trim()}
+            className="rounded bg-blue-600 px-3 py-1 text-sm font-medium text-white hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-blue-300"
+          >
+            {settings?.hasWebhook ? "Replace webhook" : "Connect Slack"}
+          </button>
+        </div>
+
+        {settings?.hasWebhook ? (
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.enabled}
+                disabled={loading}
+                onChange={(event) => void save({ enabled: event.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+              />
+              Send digests to Slack
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={settings.includeApprovals}
+                disabled={loading}
+                onChange={(event) => void save({ includeApprovals: event.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+              />
+              Include approval buttons
+            </label>
+            <button
+              type="button"
+              onClick={handleDisconnect}
+              disabled={loading || !accessToken}
+              className="rounded border border-red-500 px-3 py-1 text-sm text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:text-red-300"
+            >
+              Disconnect
+            </button>
+          </div>
+        ) : null}
+
+        {settings?.hasWebhook && settings.includeApprovals ? (
+          <div className="space-y-1">
+            <p className="text-xs text-gray-500">
+              Approval buttons only work for the Slack member ID linked here (Profile → ⋮ → Copy member ID).
+            </p>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <input
+                value={slackUserId}
+                onChange={(event) => setSlackUserId(event.target.value)}
+                placeholder="U024BE7LH"
+                className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm text-gray-900 shadow-sm focus:border-gray-900 focus:outline-none focus:ring-1 focus:ring-gray-900"
+              />
+              <button
+                type="button"
+                onClick={() => void save({ slackUserId })}
+                disabled={loading || !accessToken || slackUserId.trim() === (settings.slackUserId ?? "")}
+                className="rounded border border-gray-300 px-3 py-1 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:cursor-not-allowed disabled:text-gray-400"
+              >
+                {slackUserId.trim() ? "Link member ID" : "Unlink"}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        {message ? <p className="text-sm text-emerald-600">{message}</p> : null}
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+      </div>
+    </section>
+  );
+}
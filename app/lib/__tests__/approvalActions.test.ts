@@ -1,9 +1,15 @@
 import { describe, it, expect, vi } from "vitest";
 import { applyApprovalAction } from "../approvalActions";
 import { mapApprovalRow } from "../projectMappers";
+import { createGmailDraft } from "../googleGmailClient";
 
 vi.mock("../projectMappers", () => ({
   mapApprovalRow: vi.fn((row: any) => ({ id: row.id, status: row.status })),
+  mapTimelineItemRow: vi.fn((row: any) => ({ id: row.id, projectId: row.project_id, title: row.title })),
+}));
+
+vi.mock("../googleGmailClient", () => ({
+  createGmailDraft: vi.fn(),
 }));
 
 type ApprovalRow = {
@@ -11,6 +17,7 @@ type ApprovalRow = {
   status: string;
   type: string;
   project_id?: string | null;
+  requested_by?: string | null;
   payload?: Record<string, unknown>;
 };
 
@@ -22,6 +29,7 @@ type SupabaseBuilderConfig = {
   emailLinkError?: any;
   timelineRow?: any;
   timelineError?: any;
+  bookingOfferRows?: any[];
 };
 
 function buildSupabase(config: SupabaseBuilderConfig) {
@@ -54,10 +62,26 @@ function buildSupabase(config: SupabaseBuilderConfig) {
   });
 
   const timelineDependencyInsert = vi.fn().mockResolvedValue({ error: null });
+  const auditLogInsert = vi.fn().mockResolvedValue({ error: null });
+
+  const bookingOfferUpdateSelect = vi
+    .fn()
+    .mockResolvedValue({ data: config.bookingOfferRows ?? [{ id: "offer-1" }], error: null });
+  const bookingOfferUpdateChain: { eq: any; select: any } = { eq: null, select: bookingOfferUpdateSelect };
+  const bookingOfferUpdateEq = vi.fn(() => bookingOfferUpdateChain);
+  bookingOfferUpdateChain.eq = bookingOfferUpdateEq;
+  const bookingOfferUpdate = vi.fn(() => bookingOfferUpdateChain);
+
+  const timelineEntriesIn = vi.fn().mockResolvedValue({ data: [], error: null });
+  const revisionInsert = vi.fn().mockResolvedValue({ error: null });
 
   const supabase = {
     from: vi.fn((table: string) => {
       switch (table) {
+        case "timeline_entries":
+          return { select: vi.fn(() => ({ in: timelineEntriesIn })) };
+        case "record_revisions":
+          return { insert: revisionInsert };
         case "approvals":
           return { select: approvalsSelect, update: approvalsUpdate };
         case "project_email_links":
@@ -66,6 +90,10 @@ function buildSupabase(config: SupabaseBuilderConfig) {
           return { insert: timelineInsert };
         case "timeline_dependencies":
           return { insert: timelineDependencyInsert };
+        case "audit_logs":
+          return { insert: auditLogInsert };
+        case "booking_offers":
+          return { update: bookingOfferUpdate };
         default:
           throw new Error(`Unexpected table: ${table}`);
       }
@@ -82,6 +110,11 @@ function buildSupabase(config: SupabaseBuilderConfig) {
     timelineInsertMaybeSingle,
     timelineDependencyInsert,
     timelineInsertPayloads,
+    auditLogInsert,
+    bookingOfferUpdate,
+    bookingOfferUpdateEq,
+    timelineEntriesIn,
+    revisionInsert,
   };
 }
 
@@ -196,6 +229,134 @@ describe("applyApprovalAction", () => {
     expect(mapApprovalRow).toHaveBeenCalledWith({ id: "approval-1", status: "approved" });
   });
 
+  it("creates a Gmail draft from the edited reply when approving", async () => {
+    const approvalRow: ApprovalRow = {
+      id: "approval-1",
+      status: "pending",
+      type: "email_reply_draft",
+      project_id: null,
+      payload: {
+        emailId: "email-1",
+        userId: "user-1",
+        accountId: "acct-bookings",
+        threadId: "thread-1",
+        to: "promoter@example.com",
+        subject: "Re: Show offer",
+        body: "Edited by the manager",
+        generatedBody: "Original AI draft",
+        inReplyTo: "<abc@mail>",
+        references: [],
+      },
+    };
+
+    const { supabase, approvalsUpdate } = buildSupabase({ approvalRow });
+    vi.mocked(createGmailDraft).mockResolvedValue({ draftId: "draft-1", messageId: "msg-1" });
+
+    await applyApprovalAction(supabase, "approval-1", "approve", "user-1");
+
+    const draftCall = vi.mocked(createGmailDraft).mock.calls[0][1];
+    expect(draftCall.userId).toBe("user-1");
+    expect(draftCall.threadId).toBe("thread-1");
+    expect(draftCall.accountId).toBe("acct-bookings");
+    const raw = Buffer.from(draftCall.raw.replace(/-/g, "+").replace(/_/g, "/"), "base64").toString("utf8");
+    expect(raw).toContain("Edited by the manager");
+    expect(raw).not.toContain("Original AI draft");
+    expect(raw).toContain("In-Reply-To: <abc@mail>");
+
+    const updateArgs = (approvalsUpdate.mock.calls[0] as any[])[0];
+    expect(updateArgs.payload).toMatchObject({ gmailDraftId: "draft-1", body: "Edited by the manager" });
+  });
+
+  it("refuses to draft a reply into someone else's mailbox", async () => {
+    const approvalRow: ApprovalRow = {
+      id: "approval-1",
+      status: "pending",
+      type: "email_reply_draft",
+      project_id: "proj-1",
+      requested_by: "user-1",
+      payload: {
+        emailId: "email-1",
+        userId: "user-1",
+        to: "promoter@example.com",
+        subject: "Re: Show offer",
+        body: "Thanks!",
+      },
+    };
+
+    const { supabase, approvalsUpdate } = buildSupabase({ approvalRow });
+
+    await expect(applyApprovalAction(supabase, "approval-1", "approve", "actor-1")).rejects.toMatchObject({
+      status: 403,
+    });
+    expect(createGmailDraft).not.toHaveBeenCalled();
+    expect(approvalsUpdate).not.toHaveBeenCalled();
+  });
+
+  it("links the booking offer to the LIVE_HOLD it seeds", async () => {
+    const approvalRow: ApprovalRow = {
+      id: "approval-1",
+      status: "pending",
+      type: "timeline_item_from_email",
+      project_id: "proj-1",
+      payload: {
+        projectId: "proj-1",
+        title: "Hold: Fabric, London",
+        type: "LIVE_HOLD",
+        startsAt: "2026-05-10T00:00:00.000Z",
+        status: "tentative",
+        links: { emailId: "email-1", bookingOfferId: "offer-1", refTable: "booking_offers", refId: "offer-1" },
+        metadata: { source: "booking_offer", bookingOfferId: "offer-1" },
+      },
+    };
+
+    const { supabase, timelineInsertPayloads, bookingOfferUpdate, bookingOfferUpdateEq, timelineEntriesIn, revisionInsert } =
+      buildSupabase({
+        approvalRow,
+        timelineRow: { id: "timeline-7" },
+      });
+    timelineEntriesIn.mockResolvedValue({
+      data: [{ id: "timeline-7", project_id: "proj-1", title: "Hold: Fabric, London" }],
+      error: null,
+    });
+
+    await applyApprovalAction(supabase, "approval-1", "approve", "actor-1");
+
+    expect(revisionInsert).toHaveBeenCalledWith([
+      expect.objectContaining({ record_id: "timeline-7", operation: "create", before: null, user_id: "actor-1" }),
+    ]);
+
+    expect(timelineInsertPayloads[0]).toMatchObject({ type: "LIVE_HOLD", status: "tentative" });
+    expect(bookingOfferUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "hold_created", timeline_item_id: "timeline-7" })
+    );
+    expect(bookingOfferUpdateEq).toHaveBeenCalledWith("id", "offer-1");
+    expect(bookingOfferUpdateEq).toHaveBeenCalledWith("project_id", "proj-1");
+    expect(bookingOfferUpdateEq).toHaveBeenCalledWith("approval_id", "approval-1");
+  });
+
+  it("warns when the booking offer could not be linked to its hold", async () => {
+    const approvalRow: ApprovalRow = {
+      id: "approval-1",
+      status: "pending",
+      type: "timeline_item_from_email",
+      project_id: "proj-1",
+      payload: {
+        projectId: "proj-1",
+        title: "Hold: Fabric, London",
+        type: "LIVE_HOLD",
+        metadata: { source: "booking_offer", bookingOfferId: "offer-1" },
+      },
+    };
+
+    const { supabase } = buildSupabase({ approvalRow, timelineRow: { id: "timeline-7" }, bookingOfferRows: [] });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await applyApprovalAction(supabase, "approval-1", "approve", "actor-1");
+
+    expect(warn).toHaveBeenCalledWith("Booking offer offer-1 was not linked to hold timeline-7");
+    warn.mockRestore();
+  });
+
   it("throws when project email link payload missing emailId", async () => {
     const approvalRow: ApprovalRow = {
       id: "approval-1",
@@ -224,7 +385,7 @@ describe("applyApprovalAction", () => {
       payload: { projectId: "proj-1", title: "Kickoff" },
     };
 
-    const { supabase, approvalsUpdateMaybeSingle, timelineInsert } = buildSupabase({
+    const { supabase, approvalsUpdateMaybeSingle, timelineInsert, auditLogInsert } = buildSupabase({
       approvalRow,
       updatedRow: { id: "approval-1", status: "declined" },
     });
@@ -234,6 +395,14 @@ describe("applyApprovalAction", () => {
     expect(timelineInsert).not.toHaveBeenCalled();
     expect(approvalsUpdateMaybeSingle).toHaveBeenCalled();
     expect(result).toEqual({ id: "approval-1", status: "declined" });
+    expect(auditLogInsert).toHaveBeenCalledWith({
+      project_id: "proj-1",
+      user_id: "actor-1",
+      action: "approval.declined",
+      entity: "approval",
+      ref_id: "approval-1",
+      metadata: { type: "timeline_item_from_email", title: "Kickoff", note: "nope" },
+    });
   });
 
   it("propagates errors from update", async () => {
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi } from "vitest";
-import { recordAuditLog } from "../auditLog";
+import {
+  decodeAuditCursor,
+  encodeAuditCursor,
+  listAuditLogs,
+  parseAuditLogFilters,
+  recordAuditLog,
+} from "../auditLog";
 
 describe("recordAuditLog", () => {
   it("inserts formatted payload", async () => {
@@ -44,3 +50,74 @@ describe("recordAuditLog", () => {
     ).rejects.toThrow("boom");
   });
 });
+
+describe("audit log paging", () => {
+  function buildRow(id: string, createdAt: string) {
+    return {
+      id,
+      project_id: "proj",
+      user_id: "user",
+      action: "email.linked",
+      entity: "project_email_link",
+      ref_id: null,
+      metadata: {},
+      created_at: createdAt,
+    };
+  }
+
+  function buildQueryStub(rows: unknown[]) {
+    const calls: Array<[string, unknown[]]> = [];
+    const builder: any = {};
+    for (const method of ["select", "order", "limit", "eq", "like", "gte", "lte", "or"]) {
+      builder[method] = vi.fn((...args: unknown[]) => {
+        calls.push([method, args]);
+        return builder;
+      });
+    }
+    builder.then = (resolve: (value: unknown) => unknown) => resolve({ data: rows, error: null });
+    return { supabase: { from: vi.fn(() => builder) }, calls };
+  }
+
+  it("round-trips cursors with database timestamps", () => {
+    const cursor = encodeAuditCursor({ id: "audit-9", createdAt: "2025-06-10 12:00:00.123456+00" });
+    expect(decodeAuditCursor(cursor)).toEqual({ id: "audit-9", createdAt: "2025-06-10 12:00:00.123456+00" });
+    expect(decodeAuditCursor("not-a-cursor")).toBeNull();
+  });
+
+  it("rejects unusable filters", () => {
+    expect(parseAuditLogFilters(new URLSearchParams("from=yesterday"))).toEqual({ ok: false, error: "from must be a date" });
+    expect(parseAuditLogFilters(new URLSearchParams("limit=0"))).toEqual({
+      ok: false,
+      error: "limit must be a positive integer",
+    });
+    expect(parseAuditLogFilters(new URLSearchParams("action=drive.*&limit=500"))).toMatchObject({
+      ok: true,
+      filters: { action: "drive.*", limit: 200 },
+    });
+  });
+
+  it("returns a next cursor when more rows exist and applies filters", async () => {
+    const { supabase, calls } = buildQueryStub([
+      buildRow("audit-3", "2025-06-10T12:03:00Z"),
+      buildRow("audit-2", "2025-06-10T12:02:00Z"),
+      buildRow("audit-1", "2025-06-10T12:01:00Z"),
+    ]);
+
+    const page = await listAuditLogs(supabase as any, {
+      projectId: "proj",
+      action: "drive.*",
+      cursor: encodeAuditCursor({ id: "audit-4", createdAt: "2025-06-10T12:04:00Z" }),
+      limit: 2,
+    });
+
+    expect(page.logs.map((log) => log.id)).toEqual(["audit-3", "audit-2"]);
+    expect(decodeAuditCursor(page.nextCursor as string)).toEqual({ id: "audit-2", createdAt: "2025-06-10T12:02:00Z" });
+    expect(calls).toContainEqual(["limit", [3]]);
+    expect(calls).toContainEqual(["eq", ["project_id", "proj"]]);
+    expect(calls).toContainEqual(["like", ["action", "drive.%"]]);
+    expect(calls).toContainEqual([
+      "or",
+      ['created_at.lt."2025-06-10T12:04:00Z",and(created_at.eq."2025-06-10T12:04:00Z",id.lt.audit-4)'],
+    ]);
+  });
+});
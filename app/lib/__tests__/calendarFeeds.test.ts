@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { TimelineItemRecord } from "@kazador/shared";
+import { buildIcsEventFromTimelineItem, type IcsEventFields } from "../calendarMapper";
+import { buildIcsCalendar, foldIcsLine } from "../icsCalendar";
+import {
+  createCalendarFeedToken,
+  filterCalendarFeedItems,
+  verifyCalendarFeedToken,
+} from "../calendarFeeds";
+
+const SECRET = "feed-secret";
+
+function buildTimelineItem(overrides: Partial<TimelineItemRecord> = {}): TimelineItemRecord {
+  return {
+    id: "item-1",
+    projectId: "project-1",
+    type: "LIVE_HOLD",
+    lane: "LIVE_HOLDS",
+    kind: null,
+    title: "Berlin show",
+    description: null,
+    startsAt: "2025-06-10T18:00:00.000Z",
+    endsAt: "2025-06-10T23:00:00.000Z",
+    dueAt: null,
+    timezone: "Europe/Berlin",
+    status: "tentative",
+    priorityScore: null,
+    priorityComponents: null,
+    labels: { city: "Berlin", territory: "DE", venue: "Berghain" },
+    links: {},
+    createdBy: null,
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-02T09:30:00.000Z",
+    ...overrides,
+  };
+}
+
+function toEvent(item: TimelineItemRecord): IcsEventFields {
+  const event = buildIcsEventFromTimelineItem(item, { projectId: item.projectId, calendarSummary: "Tour" });
+  if (!event) throw new Error("expected an event");
+  return event;
+}
+
+describe("buildIcsCalendar", () => {
+  it("writes local times with TZID, location from labels and the mapped status", () => {
+    const ics = buildIcsCalendar({
+      name: "Summer Tour",
+      events: [
+        toEvent(buildTimelineItem()),
+        toEvent(buildTimelineItem({ id: "item-2", status: "canceled", title: "Promo; radio, live", timezone: null, labels: {} })),
+      ],
+      now: new Date("2025-05-03T00:00:00.000Z"),
+    });
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("DTSTART;TZID=Europe/Berlin:20250610T200000");
+    expect(ics).toContain("DTEND;TZID=Europe/Berlin:20250611T010000");
+    expect(ics).toContain("LOCATION:Berghain\\, Berlin");
+    expect(ics).toContain("STATUS:TENTATIVE");
+    expect(ics).toContain("STATUS:CANCELLED");
+    expect(ics).toContain("DTSTART:20250610T180000Z");
+    expect(ics).toContain("SUMMARY:Promo\\; radio\\, live");
+    expect(ics).toContain("UID:item-1@kazador");
+  });
+
+  it("places deadlines at their due time and skips undated items", () => {
+    const deadline = toEvent(buildTimelineItem({ startsAt: null, endsAt: null, dueAt: "2025-07-01T00:00:00.000Z", status: "planned" }));
+    expect(deadline.status).toBe("CONFIRMED");
+    expect(buildIcsCalendar({ name: "Tour", events: [deadline] })).toContain("DTSTART;TZID=Europe/Berlin:20250701T020000");
+
+    const undated = buildIcsEventFromTimelineItem(buildTimelineItem({ startsAt: null, endsAt: null }), {
+      projectId: "project-1",
+      calendarSummary: "Tour",
+    });
+    expect(undated).toBeNull();
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const folded = foldIcsLine(`DESCRIPTION:${"é".repeat(80)}`);
+    for (const line of folded.split("\r\n")) {
+      expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+    }
+    expect(folded.split("\r\n").map((line, index) => (index === 0 ? line : line.slice(1))).join("")).toBe(
+      `DESCRIPTION:${"é".repeat(80)}`
+    );
+  });
+});
+
+describe("calendar feed tokens", () => {
+  it("round-trips signed tokens and rejects forged ones", () => {
+    const token = createCalendarFeedToken("feed-123", SECRET);
+    expect(verifyCalendarFeedToken(token, SECRET)).toBe("feed-123");
+    expect(verifyCalendarFeedToken(`${token}.ics`, SECRET)).toBe("feed-123");
+    expect(verifyCalendarFeedToken(token.replace("feed-123", "feed-124"), SECRET)).toBeNull();
+    expect(verifyCalendarFeedToken(token, "other-secret")).toBeNull();
+    expect(verifyCalendarFeedToken("feed-123", SECRET)).toBeNull();
+  });
+
+  it("filters by lane and status, treating empty filters as everything", () => {
+    const items = [
+      buildTimelineItem({ id: "show" }),
+      buildTimelineItem({ id: "flight", lane: "TRAVEL", status: "confirmed" }),
+    ];
+    expect(filterCalendarFeedItems(items, {}).map((item) => item.id)).toEqual(["show", "flight"]);
+    expect(filterCalendarFeedItems(items, { lanes: ["travel"] }).map((item) => item.id)).toEqual(["flight"]);
+    expect(filterCalendarFeedItems(items, { statuses: ["tentative"] }).map((item) => item.id)).toEqual(["show"]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from "vitest";
+import { mapClassificationPromptVersionRow, rollbackClassificationPrompt } from "../classificationPrompts";
+
+function buildQuery() {
+  const query: Record<string, any> = {};
+  for (const method of ["select", "eq", "order", "limit", "update", "insert"]) {
+    query[method] = vi.fn(() => query);
+  }
+  query.maybeSingle = vi.fn();
+  query.single = vi.fn();
+  return query;
+}
+
+describe("mapClassificationPromptVersionRow", () => {
+  it("normalizes stored settings", () => {
+    const record = mapClassificationPromptVersionRow({
+      id: "v-1",
+      version: 1,
+      settings: { model: "gpt-4o", temperature: 9, maxLabels: "2" },
+      is_active: true,
+      created_by: null,
+      restored_from_version: null,
+      created_at: "2025-06-01T00:00:00.000Z",
+    });
+
+    expect(record.settings).toMatchObject({ model: "gpt-4o", temperature: 2, maxLabels: 2, systemMessage: "" });
+    expect(record.isActive).toBe(true);
+  });
+});
+
+describe("rollbackClassificationPrompt", () => {
+  it("saves the earlier settings as a new active version", async () => {
+    const query = buildQuery();
+    const settings = {
+      systemMessage: "",
+      userInstructions: "Be strict.",
+      model: "gpt-4o-mini",
+      temperature: 0.4,
+      maxLabels: 3,
+    };
+    query.maybeSingle
+      .mockResolvedValueOnce({ data: { id: "v-2", version: 2, settings, is_active: false }, error: null })
+      .mockResolvedValueOnce({ data: { version: 5 }, error: null });
+    query.single.mockImplementation(async () => ({
+      data: { id: "v-6", ...query.insert.mock.calls[0][0], created_at: "2025-06-02T00:00:00.000Z" },
+      error: null,
+    }));
+    const supabase = { from: vi.fn(() => query) };
+
+    const record = await rollbackClassificationPrompt(supabase as any, 2, "admin-1");
+
+    expect(query.update).toHaveBeenCalledWith({ is_active: false });
+    expect(query.insert).toHaveBeenCalledWith({
+      version: 6,
+      settings,
+      is_active: true,
+      created_by: "admin-1",
+      restored_from_version: 2,
+    });
+    expect(record).toMatchObject({ version: 6, isActive: true, restoredFromVersion: 2 });
+  });
+
+  it("returns null for an unknown version", async () => {
+    const query = buildQuery();
+    query.maybeSingle.mockResolvedValueOnce({ data: null, error: null });
+    const supabase = { from: vi.fn(() => query) };
+
+    await expect(rollbackClassificationPrompt(supabase as any, 9, "admin-1")).resolves.toBeNull();
+    expect(query.insert).not.toHaveBeenCalled();
+  });
+});
@@ -12,9 +12,11 @@ import {
   mapTimelineDependencyRow,
   mapTimelineItemRow,
   mapApprovalRow,
+  mapAuditLogRow,
   mapProjectTaskRow,
   mapProjectTemplateRow,
   mapProjectTemplateItemRow,
+  mapProjectTemplateVersionRow,
 } from "../projectMappers";
 
 describe("projectMappers", () => {
@@ -50,6 +52,8 @@ describe("projectMappers", () => {
       color: null,
       labels: { priority: "high" },
       priorityProfile: { tier: "gold" },
+      templateId: null,
+      templateVersion: null,
       createdBy: "user-1",
       createdAt: "2023-01-01T00:00:00.000Z",
       updatedAt: "2023-01-02T00:00:00.000Z",
@@ -346,6 +350,30 @@ describe("projectMappers", () => {
     });
   });
 
+  it("maps audit log rows", () => {
+    expect(
+      mapAuditLogRow({
+        id: "audit-1",
+        project_id: null,
+        user_id: "user-1",
+        action: "email.linked",
+        entity: "project_email_link",
+        ref_id: "link-1",
+        metadata: '{"subject": "Dublin hold"}',
+        created_at: "2023-01-01T00:00:00.000Z",
+      })
+    ).toEqual({
+      id: "audit-1",
+      projectId: null,
+      userId: "user-1",
+      action: "email.linked",
+      entity: "project_email_link",
+      refId: "link-1",
+      metadata: { subject: "Dublin hold" },
+      createdAt: "2023-01-01T00:00:00.000Z",
+    });
+  });
+
   it("maps approval rows and handles invalid payload JSON", () => {
     const mapped = mapApprovalRow({
       id: "approval-1",
@@ -420,6 +448,9 @@ describe("projectMappers", () => {
         slug: "template",
         description: null,
         payload: '{"foo": "bar"}',
+        version: "3",
+        created_by: "user-1",
+        source_project_id: "proj-1",
         created_at: "2023-01-01T00:00:00.000Z",
         updated_at: "2023-01-02T00:00:00.000Z",
       })
@@ -429,6 +460,9 @@ describe("projectMappers", () => {
       slug: "template",
       description: null,
       payload: { foo: "bar" },
+      version: 3,
+      createdBy: "user-1",
+      sourceProjectId: "proj-1",
       createdAt: "2023-01-01T00:00:00.000Z",
       updatedAt: "2023-01-02T00:00:00.000Z",
     });
@@ -459,4 +493,30 @@ describe("projectMappers", () => {
       createdAt: "2023-01-01T00:00:00.000Z",
     });
   });
+
+  it("maps project template version rows", () => {
+    expect(
+      mapProjectTemplateVersionRow({
+        id: "ver-1",
+        template_id: "tpl-1",
+        version: "2",
+        name: "Template",
+        description: null,
+        payload: '{"tasks": []}',
+        items: [{ itemType: "LIVE_HOLD", title: "Show", lane: null, offsetDays: 3, durationDays: 0, metadata: {} }],
+        created_by: null,
+        created_at: "2023-01-01T00:00:00.000Z",
+      })
+    ).toEqual({
+      id: "ver-1",
+      templateId: "tpl-1",
+      version: 2,
+      name: "Template",
+      description: null,
+      payload: { tasks: [] },
+      items: [{ itemType: "LIVE_HOLD", title: "Show", lane: null, offsetDays: 3, durationDays: 0, metadata: {} }],
+      createdBy: null,
+      createdAt: "2023-01-01T00:00:00.000Z",
+    });
+  });
 });
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from "vitest";
+import type { ProjectTaskRecord, TimelineItemRecord } from "@kazador/shared";
+import { buildTimelineItemRestoreRow, listRecordRevisions, recordRevision } from "../recordRevisions";
+
+function buildItem(overrides: Partial<TimelineItemRecord> = {}): TimelineItemRecord {
+  return {
+    id: "item-1",
+    projectId: "proj",
+    type: "LIVE_HOLD",
+    lane: "LIVE_HOLDS",
+    kind: null,
+    title: "Whelan's, Dublin",
+    description: null,
+    startsAt: "2025-06-10T19:00:00.000Z",
+    endsAt: "2025-06-10T22:00:00.000Z",
+    dueAt: null,
+    timezone: "Europe/Dublin",
+    status: "confirmed",
+    priorityScore: 60,
+    priorityComponents: null,
+    labels: { lane: "MERCH", territory: "IE" },
+    links: {},
+    createdBy: "user",
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    territory: "IE",
+    ...overrides,
+  };
+}
+
+describe("recordRevision", () => {
+  it("stores snapshots with the changed fields", async () => {
+    const insert = vi.fn().mockResolvedValue({ error: null });
+    const supabase = { from: vi.fn(() => ({ insert })) };
+    const before = buildItem();
+    const after = buildItem({ startsAt: "2025-06-11T19:00:00.000Z", updatedAt: "2025-05-02T00:00:00.000Z" });
+
+    await recordRevision(supabase as any, {
+      projectId: "proj",
+      entity: "timeline_item",
+      recordId: "item-1",
+      operation: "update",
+      before,
+      after,
+      userId: "user",
+    });
+
+    expect(supabase.from).toHaveBeenCalledWith("record_revisions");
+    expect(insert).toHaveBeenCalledWith({
+      project_id: "proj",
+      entity: "timeline_item",
+      record_id: "item-1",
+      operation: "update",
+      before,
+      after,
+      changed_fields: ["startsAt"],
+      user_id: "user",
+      restored_from_id: null,
+    });
+  });
+
+  it("skips updates that change nothing", async () => {
+    const insert = vi.fn().mockResolvedValue({ error: null });
+    const supabase = { from: vi.fn(() => ({ insert })) };
+    const task = { id: "task-1", projectId: "proj", title: "Rider", status: "todo" } as ProjectTaskRecord;
+
+    await recordRevision(supabase as any, {
+      projectId: "proj",
+      entity: "project_task",
+      recordId: "task-1",
+      operation: "update",
+      before: task,
+      after: { ...task, updatedAt: "2025-05-02T00:00:00.000Z" },
+    });
+
+    expect(insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("listRecordRevisions", () => {
+  it("maps rows newest first", async () => {
+    const query: Record<string, any> = {};
+    query.select = vi.fn(() => query);
+    query.eq = vi.fn(() => query);
+    query.order = vi.fn(() => query);
+    query.limit = vi.fn().mockResolvedValue({
+      data: [
+        {
+          id: "rev-1",
+          project_id: "proj",
+          entity: "timeline_item",
+          record_id: "item-1",
+          operation: "delete",
+          before: { id: "item-1" },
+          after: null,
+          changed_fields: ["title"],
+          user_id: null,
+          restored_from_id: null,
+          created_at: "2025-05-02T00:00:00.000Z",
+        },
+      ],
+      error: null,
+    });
+    const supabase = { from: vi.fn(() => query) };
+
+    const revisions = await listRecordRevisions(
+      supabase as any,
+      { projectId: "proj", entity: "timeline_item", recordId: "item-1" },
+      10
+    );
+
+    expect(query.eq).toHaveBeenCalledWith("record_id", "item-1");
+    expect(query.limit).toHaveBeenCalledWith(10);
+    expect(revisions[0]).toMatchObject({ operation: "delete", before: { id: "item-1" }, after: null });
+  });
+});
+
+describe("buildTimelineItemRestoreRow", () => {
+  it("keeps the custom lane from labels rather than the type-derived lane", () => {
+    const row = buildTimelineItemRestoreRow(buildItem());
+    expect(row).toMatchObject({
+      id: "item-1",
+      project_id: "proj",
+      start_at: "2025-06-10T19:00:00.000Z",
+      tz: "Europe/Dublin",
+      priority_score: 60,
+      labels: { lane: "MERCH", territory: "IE" },
+    });
+  });
+
+  it("drops the territory label when the snapshot had none", () => {
+    const row = buildTimelineItemRestoreRow(buildItem({ territory: null }));
+    expect(row.labels).toEqual({ lane: "MERCH" });
+  });
+});
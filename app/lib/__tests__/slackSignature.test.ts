@@ -0,0 +1,64 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { getSlackApprovalSigningInput } from "@kazador/shared";
+import { verifySlackApprovalValue, verifySlackSignature } from "../slackSignature";
+
+const SECRET = "8f742231b10e8888abcd99yyyzzz85a5";
+const NOW = new Date("2025-11-05T12:00:00.000Z");
+const TIMESTAMP = String(Math.floor(NOW.getTime() / 1000));
+const BODY = "payload=%7B%22type%22%3A%22block_actions%22%7D";
+
+function sign(body: string, timestamp = TIMESTAMP) {
+  return `v0=${createHmac("sha256", SECRET).update(`v0:${timestamp}:${body}`).digest("hex")}`;
+}
+
+describe("verifySlackSignature", () => {
+  it("accepts correctly signed requests", () => {
+    expect(
+      verifySlackSignature({ signingSecret: SECRET, timestamp: TIMESTAMP, signature: sign(BODY), rawBody: BODY, now: NOW })
+    ).toBe(true);
+  });
+
+  it("rejects tampered bodies and missing headers", () => {
+    expect(
+      verifySlackSignature({
+        signingSecret: SECRET,
+        timestamp: TIMESTAMP,
+        signature: sign(BODY),
+        rawBody: `${BODY}x`,
+        now: NOW,
+      })
+    ).toBe(false);
+    expect(
+      verifySlackSignature({ signingSecret: SECRET, timestamp: null, signature: sign(BODY), rawBody: BODY, now: NOW })
+    ).toBe(false);
+  });
+
+  it("rejects stale timestamps", () => {
+    const stale = String(Number(TIMESTAMP) - 600);
+    expect(
+      verifySlackSignature({
+        signingSecret: SECRET,
+        timestamp: stale,
+        signature: sign(BODY, stale),
+        rawBody: BODY,
+        now: NOW,
+      })
+    ).toBe(false);
+  });
+});
+
+describe("verifySlackApprovalValue", () => {
+  const target = { approvalId: "approval-1", userId: "user-1" };
+  const signature = createHmac("sha256", SECRET).update(getSlackApprovalSigningInput(target)).digest("hex");
+
+  it("accepts values signed with the secret", () => {
+    expect(verifySlackApprovalValue(SECRET, { ...target, signature })).toBe(true);
+  });
+
+  it("rejects values pointed at another approval or user", () => {
+    expect(verifySlackApprovalValue(SECRET, { ...target, approvalId: "approval-2", signature })).toBe(false);
+    expect(verifySlackApprovalValue(SECRET, { ...target, userId: "user-2", signature })).toBe(false);
+    expect(verifySlackApprovalValue("", { ...target, signature })).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { MAX_TIMELINE_IMPORT_ROWS } from "@kazador/shared";
+import { parseTimelineImportRequest } from "../timelineImport";
+import { readXlsxRows } from "../xlsxReader";
+
+/** Builds a minimal zip archive. CRCs are left at zero since the reader does not check them. */
+function buildZip(files: Record<string, string | Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name, "utf8");
+    const raw = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+    const data = deflateRawSync(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    locals.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuffer);
+
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+function buildSheet(rows: string[]): string {
+  return `<worksheet><sheetData>${rows.join("")}</sheetData></worksheet>`;
+}
+
+describe("readXlsxRows", () => {
+  it("reads shared strings, inline strings and numbers from the first sheet", () => {
+    const workbook = buildZip({
+      "xl/sharedStrings.xml": "<sst><si><t>Date</t></si><si><t>Title</t></si><si><t>Fabric &amp; Co</t></si></sst>",
+      "xl/worksheets/sheet1.xml": buildSheet([
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>',
+        '<row r="2"><c r="A2"/></row>',
+        '<row r="3"><c r="A3"><v>45789</v></c><c r="C3" t="s"><v>2</v></c></row>',
+        '<row r="4"><c r="A4" t="inlineStr"><is><t>2025-06-10</t></is></c><c r="B4" t="b"><v>1</v></c></row>',
+      ]),
+    });
+
+    expect(readXlsxRows(workbook)).toEqual([
+      ["Date", "Title"],
+      ["45789", "", "Fabric & Co"],
+      ["2025-06-10", "TRUE"],
+    ]);
+  });
+
+  it("stops once the row cap is reached", () => {
+    const rows = Array.from({ length: 20 }, (_, index) => `<row><c t="inlineStr"><is><t>Row ${index}</t></is></c></row>`);
+    const workbook = buildZip({ "xl/worksheets/sheet1.xml": buildSheet(rows) });
+
+    expect(readXlsxRows(workbook, { maxRows: 5 })).toHaveLength(5);
+  });
+
+  it("rejects files that are not zip archives or whose directory is cut off", () => {
+    expect(() => readXlsxRows(Buffer.from("Date,Title\n2025-06-10,Show\n"))).toThrow("Not a valid XLSX file");
+
+    const workbook = buildZip({ "xl/worksheets/sheet1.xml": buildSheet([]) });
+    // Point the central directory past the end of the file.
+    workbook.writeUInt32LE(workbook.length + 100, workbook.length - 6);
+    expect(() => readXlsxRows(workbook)).toThrow("Corrupt XLSX file");
+  });
+
+  it("rejects cell references beyond column XFD", () => {
+    const workbook = buildZip({
+      "xl/worksheets/sheet1.xml": buildSheet(['<row><c r="XFE1" t="inlineStr"><is><t>x</t></is></c></row>']),
+    });
+
+    expect(() => readXlsxRows(workbook)).toThrow("beyond column XFD");
+  });
+
+  it("refuses to inflate parts past the size cap", () => {
+    const workbook = buildZip({ "xl/worksheets/sheet1.xml": Buffer.alloc(40 * 1024 * 1024, 0x20) });
+
+    expect(workbook.length).toBeLessThan(100 * 1024);
+    expect(() => readXlsxRows(workbook)).toThrow("too large");
+  });
+});
+
+describe("parseTimelineImportRequest", () => {
+  it("rejects more rows than a single import allows", () => {
+    const rows = Array.from({ length: MAX_TIMELINE_IMPORT_ROWS + 1 }, () => ({ Date: "2025-06-10" }));
+
+    const result = parseTimelineImportRequest({ rows, mapping: { startDate: "Date" } });
+
+    expect(result).toEqual({ ok: false, error: `At most ${MAX_TIMELINE_IMPORT_ROWS} rows can be imported at once` });
+    expect(parseTimelineImportRequest({ rows: rows.slice(1), mapping: { startDate: "Date" } }).ok).toBe(true);
+  });
+});
@@ -1,6 +1,16 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import { mapApprovalRow } from "./projectMappers";
-import { getTimelineLaneForType, normaliseTimelineItemStatus, normaliseTimelineItemType } from "@kazador/shared";
+import { createGmailDraft } from "./googleGmailClient";
+import { recordAuditLog } from "./auditLog";
+import { recordWriteRevisions } from "./recordRevisions";
+import {
+  buildReplyMimeMessage,
+  encodeBase64Url,
+  getTimelineLaneForType,
+  normaliseTimelineItemStatus,
+  normaliseTimelineItemType,
+  normalizeEmailReplyDraftPayload,
+} from "@kazador/shared";
 import type { ApprovalRecord, TimelineItemRecord } from "@kazador/shared";
 
 export type ApprovalAction = "approve" | "decline";
@@ -185,6 +195,15 @@ async function applyProjectEmailLink(
       throw timelineError;
     }
 
+    if (timelineRow) {
+      await recordWriteRevisions(supabase, {
+        entity: "timeline_item",
+        before: new Map(),
+        recordIds: [timelineRow.id as string],
+        userId: actorId,
+      });
+    }
+
     if (timelineRow && Array.isArray(seed.dependencies) && seed.dependencies.length > 0) {
       const dependencyRows = seed.dependencies
         .filter((dependency) => typeof dependency.itemId === "string" && dependency.itemId)
@@ -206,6 +225,7 @@ async function applyProjectEmailLink(
 
 async function applyTimelineItem(
   supabase: SupabaseClient,
+  approvalId: string,
   actorId: string,
   payload: TimelineItemPayload
 ) {
@@ -250,6 +270,28 @@ async function applyTimelineItem(
     return;
   }
 
+  await recordWriteRevisions(supabase, {
+    entity: "timeline_item",
+    before: new Map(),
+    recordIds: [timelineRow.id as string],
+    userId: actorId,
+  });
+
+  if (typeof metadata.bookingOfferId === "string" && metadata.bookingOfferId) {
+    const { data: offerRows, error: offerError } = await supabase
+      .from("booking_offers")
+      .update({ status: "hold_created", timeline_item_id: timelineRow.id, updated_at: new Date().toISOString() })
+      .eq("id", metadata.bookingOfferId)
+      .eq("project_id", projectId)
+      .eq("approval_id", approvalId)
+      .select("id");
+    if (offerError) {
+      console.warn("Failed to link booking offer to its hold", offerError);
+    } else if (!offerRows || offerRows.length === 0) {
+      console.warn(`Booking offer ${metadata.bookingOfferId} was not linked to hold ${timelineRow.id}`);
+    }
+  }
+
   if (Array.isArray(payload.dependencies) && payload.dependencies.length > 0) {
     const dependencyRows = payload.dependencies
       .filter((dependency) => typeof dependency.itemId === "string" && dependency.itemId)
@@ -268,6 +310,85 @@ async function applyTimelineItem(
   }
 }
 
+/**
+ * Creates the Gmail draft for an approved reply using the payload as last
+ * edited by the reviewer. Returns the payload with the draft id recorded.
+ */
+async function applyEmailReplyDraft(
+  supabase: SupabaseClient,
+  approvalRow: any,
+  actorId: string,
+  rawPayload: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const payload = normalizeEmailReplyDraftPayload(rawPayload);
+  const userId = assertString(approvalRow.requested_by || payload.userId, "userId");
+  // The draft is written to the requester's mailbox through their own Gmail
+  // connection, which only they can load.
+  if (userId !== actorId) {
+    throw Object.assign(new Error("Only the requester can approve this reply draft"), { status: 403 });
+  }
+  assertString(payload.to, "to");
+  assertString(payload.body, "body");
+
+  const draft = await createGmailDraft(supabase, {
+    userId,
+    raw: encodeBase64Url(buildReplyMimeMessage(payload)),
+    threadId: payload.threadId,
+    accountId: payload.accountId ?? undefined,
+  });
+
+  return { ...rawPayload, gmailDraftId: draft.draftId };
+}
+
+/** A declined hold request hands the booking offer back to the reviewer. */
+async function releaseBookingOfferHold(supabase: SupabaseClient, approvalId: string, payload: TimelineItemPayload) {
+  const offerId = payload.metadata?.bookingOfferId;
+  if (typeof offerId !== "string" || !offerId) {
+    return;
+  }
+
+  const { data: offerRow, error: offerError } = await supabase
+    .from("booking_offers")
+    .select("edited_at, approval_id")
+    .eq("id", offerId)
+    .maybeSingle();
+  if (offerError) {
+    console.warn("Failed to load booking offer for declined hold", offerError);
+    return;
+  }
+  if (!offerRow || offerRow.approval_id !== approvalId) {
+    return;
+  }
+
+  const { data: releasedRows, error } = await supabase
+    .from("booking_offers")
+    .update({
+      status: offerRow.edited_at ? "edited" : "extracted",
+      approval_id: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", offerId)
+    .eq("approval_id", approvalId)
+    .select("id");
+  if (error) {
+    console.warn("Failed to release booking offer after declined hold", error);
+  } else if (!releasedRows || releasedRows.length === 0) {
+    console.warn(`Booking offer ${offerId} was not released after declined hold ${approvalId}`);
+  }
+}
+
+/** Short name for what an approval was about, used in the activity feed. */
+function describeApprovalTitle(payload: Record<string, unknown>): string | null {
+  for (const key of ["title", "emailSubject", "subject", "summary"]) {
+    const value = payload[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+  const seed = payload.timelineSeed as { title?: unknown } | undefined;
+  return typeof seed?.title === "string" && seed.title.trim() ? seed.title.trim() : null;
+}
+
 export async function applyApprovalAction(
   supabase: SupabaseClient,
   approvalId: string,
@@ -294,6 +415,7 @@ export async function applyApprovalAction(
   }
 
   const payload = (approvalRow.payload as Record<string, unknown>) ?? {};
+  let resolvedPayload: Record<string, unknown> | null = null;
 
   if (action === "approve") {
     switch (approvalRow.type) {
@@ -301,11 +423,16 @@ export async function applyApprovalAction(
         await applyProjectEmailLink(supabase, approvalRow, actorId, payload as EmailLinkPayload);
         break;
       case "timeline_item_from_email":
-        await applyTimelineItem(supabase, actorId, payload as TimelineItemPayload);
+        await applyTimelineItem(supabase, approvalId, actorId, payload as TimelineItemPayload);
+        break;
+      case "email_reply_draft":
+        resolvedPayload = await applyEmailReplyDraft(supabase, approvalRow, actorId, payload);
         break;
       default:
         break;
     }
+  } else if (approvalRow.type === "timeline_item_from_email") {
+    await releaseBookingOfferHold(supabase, approvalId, payload as TimelineItemPayload);
   }
 
   const resolutionFields: Record<string, unknown> = {
@@ -315,6 +442,10 @@ export async function applyApprovalAction(
     updated_at: new Date().toISOString(),
   };
 
+  if (resolvedPayload) {
+    resolutionFields.payload = resolvedPayload;
+  }
+
   if (action === "approve") {
     resolutionFields["approved_at"] = new Date().toISOString();
   } else {
@@ -332,5 +463,18 @@ export async function applyApprovalAction(
     throw updateError;
   }
 
+  try {
+    await recordAuditLog(supabase, {
+      projectId: (approvalRow.project_id as string) ?? (typeof payload.projectId === "string" ? payload.projectId : null),
+      userId: actorId,
+      action: action === "approve" ? "approval.approved" : "approval.declined",
+      entity: "approval",
+      refId: approvalId,
+      metadata: { type: approvalRow.type, title: describeApprovalTitle(payload), note: note ?? null },
+    });
+  } catch (err) {
+    console.warn("Failed to record approval audit entry", err);
+  }
+
   return mapApprovalRow(updatedRow);
 }
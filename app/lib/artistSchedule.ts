@@ -0,0 +1,97 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  detectArtistConflicts,
+  filterConflictsForProject,
+  type ArtistScheduleProject,
+  type ArtistTimelineConflict,
+  type ProjectRecord,
+  type TimelineConflictOptions,
+} from "@kazador/shared";
+import { mapTimelineItemRow } from "./projectMappers";
+
+/**
+ * Loads the timeline of every project the user can see for an artist. Projects
+ * the user is not a member of are left out so conflicts never reveal them.
+ */
+export async function loadArtistSchedule(
+  supabase: SupabaseClient,
+  userId: string,
+  artistId: string
+): Promise<ArtistScheduleProject[]> {
+  const { data: membershipRows, error: membershipError } = await supabase
+    .from("project_members")
+    .select("project_id")
+    .eq("user_id", userId);
+
+  if (membershipError) {
+    throw membershipError;
+  }
+
+  const memberProjectIds = (membershipRows ?? []).map((row) => row.project_id as string);
+  if (memberProjectIds.length === 0) {
+    return [];
+  }
+
+  const { data: projectRows, error: projectError } = await supabase
+    .from("projects")
+    .select("id, name, color")
+    .eq("artist_id", artistId)
+    .neq("status", "archived")
+    .in("id", memberProjectIds);
+
+  if (projectError) {
+    throw projectError;
+  }
+
+  const projects = projectRows ?? [];
+  if (projects.length === 0) {
+    return [];
+  }
+
+  const { data: timelineRows, error: timelineError } = await supabase
+    .from("timeline_entries")
+    .select("*")
+    .in(
+      "project_id",
+      projects.map((row) => row.id as string)
+    )
+    .order("start_at", { ascending: true, nullsFirst: false });
+
+  if (timelineError) {
+    throw timelineError;
+  }
+
+  const itemsByProject = new Map<string, ArtistScheduleProject["items"]>();
+  for (const row of timelineRows ?? []) {
+    const item = mapTimelineItemRow(row);
+    const list = itemsByProject.get(item.projectId) ?? [];
+    list.push(item);
+    itemsByProject.set(item.projectId, list);
+  }
+
+  return projects.map((row) => ({
+    id: row.id as string,
+    name: row.name as string,
+    color: (row.color as string | null) ?? null,
+    items: itemsByProject.get(row.id as string) ?? [],
+  }));
+}
+
+/**
+ * Artist-level conflicts involving `project`. Returns an empty list when the
+ * project has no artist, since there is nothing to merge it with.
+ */
+export async function loadArtistConflictsForProject(
+  supabase: SupabaseClient,
+  userId: string,
+  project: Pick<ProjectRecord, "id" | "artistId">,
+  options: TimelineConflictOptions & { crossProjectOnly?: boolean } = {}
+): Promise<ArtistTimelineConflict[]> {
+  if (!project.artistId) {
+    return [];
+  }
+
+  const { crossProjectOnly, ...conflictOptions } = options;
+  const schedule = await loadArtistSchedule(supabase, userId, project.artistId);
+  return filterConflictsForProject(detectArtistConflicts(schedule, conflictOptions), project.id, { crossProjectOnly });
+}
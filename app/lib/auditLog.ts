@@ -1,4 +1,6 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AuditLogRecord } from "@kazador/shared";
+import { mapAuditLogRow } from "./projectMappers";
 
 export interface AuditLogInput {
   projectId?: string | null;
@@ -28,3 +30,141 @@ export async function recordAuditLog(
     throw error;
   }
 }
+
+export interface AuditLogFilters {
+  projectId?: string | null;
+  userId?: string | null;
+  entity?: string | null;
+  /** Exact action, or a prefix ending in `*` such as `drive.*`. */
+  action?: string | null;
+  from?: string | null;
+  to?: string | null;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface AuditLogPage {
+  logs: AuditLogRecord[];
+  nextCursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export function encodeAuditCursor(log: Pick<AuditLogRecord, "id" | "createdAt">): string {
+  return Buffer.from(`${log.createdAt}|${log.id}`, "utf8").toString("base64url");
+}
+
+export function decodeAuditCursor(cursor: string): { createdAt: string; id: string } | null {
+  try {
+    const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+    const separator = decoded.lastIndexOf("|");
+    if (separator <= 0) return null;
+    const createdAt = decoded.slice(0, separator);
+    const id = decoded.slice(separator + 1);
+    if (!id || Number.isNaN(Date.parse(createdAt))) return null;
+    return { createdAt, id };
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * Reads filters from a query string. Returns an error message for values
+ * that cannot be used, so routes can answer 400 instead of ignoring them.
+ */
+export function parseAuditLogFilters(searchParams: URLSearchParams): { ok: true; filters: AuditLogFilters } | { ok: false; error: string } {
+  const read = (key: string) => searchParams.get(key)?.trim() || null;
+
+  const from = read("from");
+  const to = read("to");
+  for (const [key, value] of [["from", from], ["to", to]] as const) {
+    if (value && Number.isNaN(Date.parse(value))) {
+      return { ok: false, error: `${key} must be a date` };
+    }
+  }
+
+  const cursor = read("cursor");
+  if (cursor && !decodeAuditCursor(cursor)) {
+    return { ok: false, error: "Invalid cursor" };
+  }
+
+  const rawLimit = read("limit");
+  const limit = rawLimit ? Number(rawLimit) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { ok: false, error: "limit must be a positive integer" };
+  }
+
+  return {
+    ok: true,
+    filters: {
+      userId: read("userId"),
+      entity: read("entity"),
+      action: read("action"),
+      from,
+      to,
+      cursor,
+      limit: Math.min(limit, MAX_PAGE_SIZE),
+    },
+  };
+}
+
+/** Lists audit entries newest first, paging with an opaque `(created_at, id)` cursor. */
+export async function listAuditLogs(supabase: SupabaseClient, filters: AuditLogFilters): Promise<AuditLogPage> {
+  const limit = Math.min(Math.max(filters.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+  let query = supabase
+    .from("audit_logs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit + 1);
+
+  if (filters.projectId) query = query.eq("project_id", filters.projectId);
+  if (filters.userId) query = query.eq("user_id", filters.userId);
+  if (filters.entity) query = query.eq("entity", filters.entity);
+  if (filters.action) {
+    query = filters.action.endsWith("*")
+      ? query.like("action", `${filters.action.slice(0, -1).replace(/[%_]/g, "\\$&")}%`)
+      : query.eq("action", filters.action);
+  }
+  if (filters.from) query = query.gte("created_at", new Date(filters.from).toISOString());
+  if (filters.to) query = query.lte("created_at", new Date(filters.to).toISOString());
+
+  const cursor = filters.cursor ? decodeAuditCursor(filters.cursor) : null;
+  if (cursor) {
+    // Keep the database timestamp verbatim: rounding it to milliseconds would skip rows.
+    const at = `"${cursor.createdAt}"`;
+    query = query.or(`created_at.lt.${at},and(created_at.eq.${at},id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data ?? []).map(mapAuditLogRow);
+  const logs = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? encodeAuditCursor(logs[logs.length - 1]) : null;
+  return { logs, nextCursor };
+}
+
+/** Display names for the users behind a page of audit entries. */
+export async function loadAuditActorNames(supabase: SupabaseClient, logs: AuditLogRecord[]): Promise<Record<string, string>> {
+  const userIds = Array.from(new Set(logs.map((log) => log.userId).filter((id): id is string => Boolean(id))));
+  if (userIds.length === 0) {
+    return {};
+  }
+
+  const { data, error } = await supabase.from("profiles").select("id, full_name, email").in("id", userIds);
+  if (error) {
+    throw error;
+  }
+
+  const names: Record<string, string> = {};
+  for (const row of data ?? []) {
+    const name = (row.full_name as string | null)?.trim() || (row.email as string | null)?.split("@")[0];
+    if (name) names[row.id as string] = name;
+  }
+  return names;
+}
@@ -0,0 +1,73 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildAutomationExecutionRow,
+  createAutomationActionHandlers,
+  createSupabaseAutomationStore,
+  executeAutomationRule,
+  listAutomationActionProjectIds,
+  mapAutomationRuleRow,
+  type AutomationAction,
+  type AutomationEvent,
+  type AutomationRuleRow,
+  type AutomationRunResult,
+} from "@kazador/shared";
+import { assertProjectRole } from "./projectAccess";
+
+/**
+ * Rejects rules that name a project the owner cannot edit. The worker runs
+ * rules with a service client, so this is checked when the rule is saved and
+ * again when each action runs.
+ */
+export async function assertAutomationRuleProjectAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  actions: AutomationAction[]
+): Promise<void> {
+  for (const projectId of listAutomationActionProjectIds(actions)) {
+    await assertProjectRole(supabase, projectId, userId, "editor");
+  }
+}
+
+export async function runAutomationRulesForEvent(
+  supabase: SupabaseClient,
+  userId: string,
+  event: AutomationEvent
+): Promise<AutomationRunResult[]> {
+  const { data, error } = await supabase
+    .from("automation_rules")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("is_enabled", true)
+    .eq("trigger_type", event.type);
+
+  if (error) {
+    throw error;
+  }
+
+  const rules = (data ?? []).map((row) => mapAutomationRuleRow(row as AutomationRuleRow));
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const handlers = createAutomationActionHandlers(
+    createSupabaseAutomationStore(supabase, { revisionUserId: userId }),
+    userId
+  );
+  const results: AutomationRunResult[] = [];
+
+  for (const rule of rules) {
+    const result = await executeAutomationRule(rule, event, handlers);
+    if (!result) continue;
+    results.push(result);
+
+    const { error: logError } = await supabase
+      .from("automation_rule_executions")
+      .insert(buildAutomationExecutionRow(userId, event, result));
+
+    if (logError) {
+      console.error(`Failed to record automation run for rule ${result.ruleId}`, logError);
+    }
+  }
+
+  return results;
+}
@@ -1,4 +1,10 @@
-import type { AutomationRule, AutomationRuleInput } from "@kazador/shared";
+import type {
+  AutomationConditionResult,
+  AutomationPlannedAction,
+  AutomationRule,
+  AutomationRuleExecutionRecord,
+  AutomationRuleInput,
+} from "@kazador/shared";
 
 function buildHeaders(accessToken?: string): HeadersInit {
   const headers: Record<string, string> = { Accept: "application/json" };
@@ -12,6 +18,31 @@ export interface AutomationRuleListResponse {
   rules: AutomationRule[];
 }
 
+export interface AutomationBacktestEmailResult {
+  emailId: string;
+  subject: string;
+  fromName: string | null;
+  fromEmail: string;
+  category: string;
+  receivedAt: string;
+  matched: boolean;
+  conditions: AutomationConditionResult[];
+  actions: AutomationPlannedAction[];
+}
+
+export interface AutomationBacktestResponse {
+  rule: { id: string; name: string };
+  window: { from: string; to: string; days: number };
+  summary: {
+    processed: number;
+    triggered: number;
+    matched: number;
+    truncated: boolean;
+    actions: Record<string, number>;
+  };
+  results: AutomationBacktestEmailResult[];
+}
+
 export async function fetchAutomationRules(accessToken?: string): Promise<AutomationRule[]> {
   const response = await fetch("/api/automation-rules", {
     method: "GET",
@@ -82,3 +113,45 @@ export async function deleteAutomationRule(id: string, accessToken?: string): Pr
   }
 }
 
+export async function fetchAutomationRuleRuns(
+  id: string,
+  accessToken?: string,
+  options: { limit?: number } = {}
+): Promise<AutomationRuleExecutionRecord[]> {
+  const params = new URLSearchParams();
+  if (options.limit) {
+    params.set("limit", String(options.limit));
+  }
+  const query = params.size > 0 ? `?${params.toString()}` : "";
+
+  const response = await fetch(`/api/automation-rules/${id}/runs${query}`, {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to load automation runs");
+  }
+
+  return (payload.runs ?? []) as AutomationRuleExecutionRecord[];
+}
+
+export async function backtestAutomationRule(
+  input: { rule?: AutomationRuleInput; ruleId?: string; days?: number },
+  accessToken?: string
+): Promise<AutomationBacktestResponse> {
+  const response = await fetch("/api/automation-rules/backtest", {
+    method: "POST",
+    headers: { ...buildHeaders(accessToken), "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to backtest automation rule");
+  }
+
+  return payload as AutomationBacktestResponse;
+}
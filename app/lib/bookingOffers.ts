@@ -0,0 +1,97 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  extractBookingOffer,
+  getBookingOfferKind,
+  normalizeBookingOfferFields,
+  type BookingOfferKind,
+  type BookingOfferRecord,
+  type BookingOfferStatus,
+  type EmailLabel,
+  type LlmEmailInput,
+  type LlmProvider,
+} from "@kazador/shared";
+
+const BOOKING_OFFER_STATUSES: BookingOfferStatus[] = ["extracted", "edited", "hold_requested", "hold_created"];
+
+export function mapBookingOfferRow(row: Record<string, any>): BookingOfferRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    emailId: row.email_id,
+    projectId: row.project_id ?? null,
+    kind: (row.kind === "hold" ? "hold" : "offer") as BookingOfferKind,
+    status: BOOKING_OFFER_STATUSES.includes(row.status) ? row.status : "extracted",
+    fields: normalizeBookingOfferFields(row.fields),
+    extractedBy: row.extracted_by ?? null,
+    approvalId: row.approval_id ?? null,
+    timelineItemId: row.timeline_item_id ?? null,
+    editedBy: row.edited_by ?? null,
+    editedAt: row.edited_at ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function loadBookingOfferForEmail(
+  supabase: SupabaseClient,
+  userId: string,
+  emailId: string
+): Promise<BookingOfferRecord | null> {
+  const { data, error } = await supabase
+    .from("booking_offers")
+    .select("*")
+    .eq("email_id", emailId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data ? mapBookingOfferRow(data) : null;
+}
+
+/**
+ * Extracts a structured offer from a newly classified BOOKING email and stores
+ * it against the email and its best-linked project. Existing offers are left
+ * alone so reviewer edits survive a reclassification.
+ */
+export async function extractAndStoreBookingOffer(
+  supabase: SupabaseClient,
+  provider: LlmProvider,
+  input: { emailId: string; userId: string; labels: EmailLabel[]; email: LlmEmailInput }
+): Promise<boolean> {
+  const kind = getBookingOfferKind(input.labels);
+  if (!kind) {
+    return false;
+  }
+
+  const { data: links, error: linkError } = await supabase
+    .from("project_email_links")
+    .select("project_id, confidence")
+    .eq("email_id", input.emailId)
+    .order("confidence", { ascending: false, nullsFirst: false })
+    .limit(1);
+
+  if (linkError) {
+    throw linkError;
+  }
+
+  const extraction = await extractBookingOffer(input.email, provider);
+  const { error } = await supabase.from("booking_offers").upsert(
+    {
+      user_id: input.userId,
+      email_id: input.emailId,
+      project_id: (links?.[0]?.project_id as string | undefined) ?? null,
+      kind,
+      status: "extracted",
+      fields: extraction.fields,
+      extracted_by: extraction.extractedBy,
+    },
+    { onConflict: "email_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw error;
+  }
+  return true;
+}
@@ -5,6 +5,7 @@ import type {
   UserCalendarSourceRecord,
 } from "@kazador/shared";
 import { mapProjectSourceRow } from "@/lib/projectMappers";
+import { loadRevisionSnapshots, recordWriteRevisions } from "@/lib/recordRevisions";
 
 interface TimelineMapping {
   labels?: Record<string, unknown> | null;
@@ -103,6 +104,8 @@ export async function ensureProjectTimelineItem(
   if (!mapping) return null;
 
   if (eventRow.assigned_timeline_item_id) {
+    const itemId = eventRow.assigned_timeline_item_id as string;
+    const before = await loadRevisionSnapshots(supabase, "timeline_item", [itemId]);
     const nextLabels = { ...(mapping.labels ?? {}), lane: mapping.lane };
     if (sourceId) {
       nextLabels.calendarSourceId = sourceId;
@@ -134,13 +137,15 @@ export async function ensureProjectTimelineItem(
         labels: nextLabels,
         links: nextLinks,
       })
-      .eq("id", eventRow.assigned_timeline_item_id)
+      .eq("id", itemId)
       .eq("project_id", projectId);
 
     if (updateError) {
       throw new Error(updateError.message);
     }
-    return eventRow.assigned_timeline_item_id as string;
+
+    await recordWriteRevisions(supabase, { entity: "timeline_item", before, recordIds: [itemId], userId });
+    return itemId;
   }
 
   const baseLinks = { ...(mapping.links ?? {}) };
@@ -185,14 +190,26 @@ export async function ensureProjectTimelineItem(
     throw new Error(insertError.message);
   }
 
+  if (insertRow?.id) {
+    await recordWriteRevisions(supabase, {
+      entity: "timeline_item",
+      before: new Map(),
+      recordIds: [insertRow.id as string],
+      userId,
+    });
+  }
+
   return insertRow?.id ?? null;
 }
 
 export async function deleteTimelineItem(
   supabase: any,
   timelineItemId: string | null,
-  projectId: string | null
+  projectId: string | null,
+  userId: string | null
 ) {
   if (!timelineItemId || !projectId) return;
+  const before = await loadRevisionSnapshots(supabase, "timeline_item", [timelineItemId]);
   await supabase.from("project_items").delete().eq("id", timelineItemId).eq("project_id", projectId);
+  await recordWriteRevisions(supabase, { entity: "timeline_item", before, recordIds: [timelineItemId], userId });
 }
@@ -0,0 +1,185 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  normaliseTimelineItemStatus,
+  type CalendarFeedRecord,
+  type CalendarFeedScope,
+  type TimelineItemRecord,
+  type TimelineItemStatus,
+} from "@kazador/shared";
+import { mapTimelineItemRow } from "./projectMappers";
+
+const FEED_SECRET_ENV_VAR = "CALENDAR_FEED_SECRET" as const;
+
+export interface CalendarFeedProject {
+  id: string;
+  name: string;
+}
+
+export interface CalendarFeedContent {
+  name: string;
+  projects: CalendarFeedProject[];
+  items: TimelineItemRecord[];
+}
+
+export function getCalendarFeedSecret(): string | null {
+  return process.env[FEED_SECRET_ENV_VAR] || null;
+}
+
+function signFeedId(feedId: string, secret: string): string {
+  return createHmac("sha256", secret).update(`calendar-feed:${feedId}`).digest("base64url");
+}
+
+/**
+ * Feed tokens are the feed id plus an HMAC of it, so a URL cannot be forged
+ * for another feed and nothing secret is stored alongside the feed.
+ */
+export function createCalendarFeedToken(feedId: string, secret: string): string {
+  return `${feedId}.${signFeedId(feedId, secret)}`;
+}
+
+export function verifyCalendarFeedToken(token: string, secret: string): string | null {
+  const trimmed = token.replace(/\.ics$/i, "");
+  const separator = trimmed.lastIndexOf(".");
+  if (separator <= 0) {
+    return null;
+  }
+
+  const feedId = trimmed.slice(0, separator);
+  const expected = Buffer.from(signFeedId(feedId, secret), "utf8");
+  const actual = Buffer.from(trimmed.slice(separator + 1), "utf8");
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return feedId;
+}
+
+export function buildCalendarFeedUrl(baseUrl: string, feedId: string, secret: string): string {
+  return `${baseUrl.replace(/\/$/, "")}/api/calendar/ics/${createCalendarFeedToken(feedId, secret)}.ics`;
+}
+
+export function mapCalendarFeedRow(row: any): CalendarFeedRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    scope: row.scope === "project" ? "project" : "user",
+    projectId: row.project_id ?? null,
+    artistId: row.artist_id ?? null,
+    name: row.name,
+    lanes: Array.isArray(row.lanes) ? row.lanes : [],
+    statuses: Array.isArray(row.statuses) ? row.statuses.map((status: string) => normaliseTimelineItemStatus(status)) : [],
+    createdAt: row.created_at,
+    lastAccessedAt: row.last_accessed_at ?? null,
+    revokedAt: row.revoked_at ?? null,
+  };
+}
+
+export interface CalendarFeedFilters {
+  lanes?: string[];
+  statuses?: TimelineItemStatus[];
+}
+
+/** Empty filters match everything; lanes compare case-insensitively. */
+export function filterCalendarFeedItems(items: TimelineItemRecord[], filters: CalendarFeedFilters): TimelineItemRecord[] {
+  const lanes = new Set((filters.lanes ?? []).map((lane) => lane.toLowerCase()));
+  const statuses = new Set(filters.statuses ?? []);
+  return items.filter(
+    (item) =>
+      (lanes.size === 0 || lanes.has(item.lane.toLowerCase())) &&
+      (statuses.size === 0 || statuses.has(item.status))
+  );
+}
+
+export function parseCalendarFeedInput(
+  body: any
+): { ok: true; values: { scope: CalendarFeedScope; projectId: string | null; artistId: string | null; name: string | null; lanes: string[]; statuses: TimelineItemStatus[] } } | { ok: false; error: string } {
+  const scope = body?.scope;
+  if (scope !== "project" && scope !== "user") {
+    return { ok: false, error: "scope must be project or user" };
+  }
+
+  const projectId = typeof body?.projectId === "string" && body.projectId.trim() ? body.projectId.trim() : null;
+  if (scope === "project" && !projectId) {
+    return { ok: false, error: "projectId is required for project feeds" };
+  }
+
+  const toList = (value: unknown) =>
+    Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0) : [];
+
+  return {
+    ok: true,
+    values: {
+      scope,
+      projectId: scope === "project" ? projectId : null,
+      artistId: scope === "user" && typeof body?.artistId === "string" && body.artistId.trim() ? body.artistId.trim() : null,
+      name: typeof body?.name === "string" && body.name.trim() ? body.name.trim() : null,
+      lanes: toList(body?.lanes),
+      statuses: Array.from(new Set(toList(body?.statuses).map((status) => normaliseTimelineItemStatus(status)))),
+    },
+  };
+}
+
+/**
+ * Loads the items a feed publishes. Membership is checked on every fetch, so
+ * a subscriber loses access to a project as soon as the feed owner does.
+ * Archived projects only drop out of cross-project feeds.
+ */
+export async function loadCalendarFeedContent(
+  supabase: SupabaseClient,
+  feed: CalendarFeedRecord
+): Promise<CalendarFeedContent | null> {
+  const { data: membershipRows, error: membershipError } = await supabase
+    .from("project_members")
+    .select("project_id")
+    .eq("user_id", feed.userId);
+
+  if (membershipError) {
+    throw membershipError;
+  }
+
+  const memberProjectIds = (membershipRows ?? []).map((row) => row.project_id as string);
+  if (feed.scope === "project" && (!feed.projectId || !memberProjectIds.includes(feed.projectId))) {
+    return null;
+  }
+
+  let projectQuery = supabase
+    .from("projects")
+    .select("id, name")
+    .in("id", feed.scope === "project" ? [feed.projectId as string] : memberProjectIds);
+  if (feed.scope === "user") {
+    projectQuery = projectQuery.neq("status", "archived");
+    if (feed.artistId) {
+      projectQuery = projectQuery.eq("artist_id", feed.artistId);
+    }
+  }
+
+  const { data: projectRows, error: projectError } = await projectQuery;
+  if (projectError) {
+    throw projectError;
+  }
+
+  const projects = (projectRows ?? []).map((row) => ({ id: row.id as string, name: row.name as string }));
+  if (projects.length === 0) {
+    return feed.scope === "project" ? null : { name: feed.name, projects, items: [] };
+  }
+
+  const { data: timelineRows, error: timelineError } = await supabase
+    .from("timeline_entries")
+    .select("*")
+    .in(
+      "project_id",
+      projects.map((project) => project.id)
+    )
+    .order("start_at", { ascending: true, nullsFirst: false });
+
+  if (timelineError) {
+    throw timelineError;
+  }
+
+  const items = filterCalendarFeedItems((timelineRows ?? []).map(mapTimelineItemRow), {
+    lanes: feed.lanes,
+    statuses: feed.statuses,
+  });
+
+  return { name: feed.name, projects, items };
+}
@@ -346,6 +346,16 @@ function buildEventTiming(
   };
 }
 
+function describeTimelineLocation(labels: Record<string, unknown>): string | undefined {
+  if (typeof labels.venue === "string") {
+    return labels.city && labels.venue !== labels.city ? `${labels.venue}, ${labels.city}` : (labels.venue as string);
+  }
+  if (labels.city && labels.territory) {
+    return `${labels.city}, ${labels.territory}`;
+  }
+  return typeof labels.city === "string" ? (labels.city as string) : undefined;
+}
+
 export function buildGoogleEventFromTimelineItem(
   item: TimelineItemRecord,
   options: { projectId: string; calendarSummary: string; calendarTimezone?: string | null }
@@ -370,13 +380,7 @@ export function buildGoogleEventFromTimelineItem(
     status: mapTimelineStatusToCalendarStatus(item.status),
     start: timing.start,
     end: timing.end,
-    location: typeof labels.venue === "string"
-      ? (labels.venue as string)
-      : labels.city && labels.territory
-      ? `${labels.city}, ${labels.territory}`
-      : typeof labels.city === "string"
-      ? (labels.city as string)
-      : undefined,
+    location: describeTimelineLocation(labels),
     extendedProperties: {
       private: {
         kazadorProjectId: options.projectId,
@@ -387,3 +391,43 @@ export function buildGoogleEventFromTimelineItem(
 
   return event;
 }
+
+export interface IcsEventFields {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  status: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  start: calendar_v3.Schema$EventDateTime;
+  end: calendar_v3.Schema$EventDateTime;
+  lastModified: string;
+  categories: string[];
+}
+
+/**
+ * Maps a timeline item to the fields of an iCalendar `VEVENT`, reusing the
+ * Google event mapping so both exports agree on timing, status and location.
+ * Items with no start, end or due date are skipped rather than placed at the
+ * current time.
+ */
+export function buildIcsEventFromTimelineItem(
+  item: TimelineItemRecord,
+  options: { projectId: string; calendarSummary: string; calendarTimezone?: string | null; uidDomain?: string }
+): IcsEventFields | null {
+  if (!item.startsAt && !item.endsAt && !item.dueAt) {
+    return null;
+  }
+
+  const event = buildGoogleEventFromTimelineItem(item, options);
+  return {
+    uid: `${item.id}@${options.uidDomain ?? "kazador"}`,
+    summary: event.summary ?? "Untitled",
+    description: event.description ?? null,
+    location: event.location ?? null,
+    status: event.status === "tentative" ? "TENTATIVE" : event.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+    start: event.start ?? {},
+    end: event.end ?? {},
+    lastModified: item.updatedAt,
+    categories: [item.lane, item.type].filter(Boolean),
+  };
+}
@@ -0,0 +1,140 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  normalizeClassificationPromptSettings,
+  type ClassificationPromptSettings,
+  type ClassificationPromptVersionRecord,
+} from "@kazador/shared";
+
+const DEFAULT_VERSION_LIMIT = 20;
+
+export function mapClassificationPromptVersionRow(row: Record<string, any>): ClassificationPromptVersionRecord {
+  return {
+    id: row.id,
+    version: Number(row.version),
+    settings: normalizeClassificationPromptSettings(row.settings),
+    isActive: Boolean(row.is_active),
+    createdBy: row.created_by ?? null,
+    restoredFromVersion: typeof row.restored_from_version === "number" ? row.restored_from_version : null,
+    createdAt: row.created_at,
+  };
+}
+
+export async function loadActiveClassificationPrompt(
+  supabase: SupabaseClient
+): Promise<ClassificationPromptVersionRecord | null> {
+  const { data, error } = await supabase
+    .from("classification_prompt_versions")
+    .select("*")
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapClassificationPromptVersionRow(data as Record<string, any>) : null;
+}
+
+export async function listClassificationPromptVersions(
+  supabase: SupabaseClient,
+  limit = DEFAULT_VERSION_LIMIT
+): Promise<ClassificationPromptVersionRecord[]> {
+  const { data, error } = await supabase
+    .from("classification_prompt_versions")
+    .select("*")
+    .order("version", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((row) => mapClassificationPromptVersionRow(row as Record<string, any>));
+}
+
+export interface CreateClassificationPromptVersionInput {
+  settings: ClassificationPromptSettings;
+  createdBy: string | null;
+  restoredFromVersion?: number | null;
+}
+
+/**
+ * Saves settings as the next version and makes it the active one. Versions
+ * are never edited in place, so every email's recorded version keeps pointing
+ * at the exact prompt that labelled it.
+ */
+export async function createClassificationPromptVersion(
+  supabase: SupabaseClient,
+  input: CreateClassificationPromptVersionInput
+): Promise<ClassificationPromptVersionRecord> {
+  const { data: latest, error: latestError } = await supabase
+    .from("classification_prompt_versions")
+    .select("version")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    throw latestError;
+  }
+
+  const nextVersion = (latest ? Number(latest.version) : 0) + 1;
+
+  // Only one row may be active at a time; clear the flag before inserting
+  const { error: deactivateError } = await supabase
+    .from("classification_prompt_versions")
+    .update({ is_active: false })
+    .eq("is_active", true);
+
+  if (deactivateError) {
+    throw deactivateError;
+  }
+
+  const { data, error } = await supabase
+    .from("classification_prompt_versions")
+    .insert({
+      version: nextVersion,
+      settings: normalizeClassificationPromptSettings(input.settings),
+      is_active: true,
+      created_by: input.createdBy,
+      restored_from_version: input.restoredFromVersion ?? null,
+    })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    throw error ?? new Error("Failed to save classification prompt version");
+  }
+
+  return mapClassificationPromptVersionRow(data as Record<string, any>);
+}
+
+/**
+ * Re-activates an earlier configuration by saving a copy of it as a new
+ * version. Returns null when the requested version does not exist.
+ */
+export async function rollbackClassificationPrompt(
+  supabase: SupabaseClient,
+  version: number,
+  userId: string | null
+): Promise<ClassificationPromptVersionRecord | null> {
+  const { data, error } = await supabase
+    .from("classification_prompt_versions")
+    .select("*")
+    .eq("version", version)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const target = mapClassificationPromptVersionRow(data as Record<string, any>);
+  return createClassificationPromptVersion(supabase, {
+    settings: target.settings,
+    createdBy: userId,
+    restoredFromVersion: target.version,
+  });
+}
@@ -0,0 +1,161 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildContactIngestRow,
+  deriveOrganisationName,
+  extractEmailDomain,
+  isContactRole,
+  isPersonalEmailDomain,
+  normalizeInteractionCounts,
+  type ContactIngestInput,
+  type ContactRecord,
+  type OrganisationRecord,
+} from "@kazador/shared";
+
+export const CONTACT_SELECT_COLUMNS =
+  "id, email, name, last_email_at, organisation_id, role, phone, company, interaction_counts, reliability_notes, created_at, updated_at, organisation:organisations(id, domain, name, role, notes, created_at, updated_at)";
+
+export function mapOrganisationRow(row: any): OrganisationRecord {
+  return {
+    id: row.id as string,
+    domain: row.domain as string,
+    name: (row.name as string) ?? (row.domain as string),
+    role: isContactRole(row.role) ? row.role : null,
+    notes: (row.notes as string) ?? null,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at ?? row.created_at),
+  };
+}
+
+export function mapContactRow(row: any): ContactRecord {
+  const organisation = Array.isArray(row.organisation) ? row.organisation[0] : row.organisation;
+  return {
+    id: row.id as string,
+    name: (row.name as string) ?? null,
+    email: row.email as string,
+    lastEmailAt: row.last_email_at ? String(row.last_email_at) : null,
+    organisationId: (row.organisation_id as string) ?? null,
+    organisation: organisation ? mapOrganisationRow(organisation) : null,
+    role: isContactRole(row.role) ? row.role : null,
+    phone: (row.phone as string) ?? null,
+    company: (row.company as string) ?? null,
+    interactionCounts: normalizeInteractionCounts(row.interaction_counts),
+    reliabilityNotes: (row.reliability_notes as string) ?? null,
+    createdAt: row.created_at ? String(row.created_at) : null,
+    updatedAt: row.updated_at ? String(row.updated_at) : null,
+  };
+}
+
+/**
+ * Finds or creates the user's organisation for an email's domain. Webmail
+ * domains return null because they do not identify an organisation.
+ */
+export async function ensureOrganisationForEmail(
+  supabase: SupabaseClient,
+  userId: string,
+  email: string
+): Promise<string | null> {
+  const domain = extractEmailDomain(email);
+  if (!domain || isPersonalEmailDomain(domain)) {
+    return null;
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("organisations")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("domain", domain)
+    .maybeSingle();
+  if (existingError) throw existingError;
+  if (existing?.id) {
+    return existing.id as string;
+  }
+
+  const { data, error } = await supabase
+    .from("organisations")
+    .insert({ user_id: userId, domain, name: deriveOrganisationName(domain) })
+    .select("id")
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.id as string | undefined) ?? null;
+}
+
+export async function isOwnedOrganisation(
+  supabase: SupabaseClient,
+  userId: string,
+  organisationId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("organisations")
+    .select("id")
+    .eq("id", organisationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return Boolean(data);
+}
+
+export async function upsertContactFromEmail(supabase: SupabaseClient, input: ContactIngestInput): Promise<void> {
+  const { data: existing, error: existingError } = await supabase
+    .from("contacts")
+    .select("name, phone, company, role, interaction_counts, last_email_at, organisation_id")
+    .eq("user_id", input.userId)
+    .eq("email", input.fromEmail)
+    .maybeSingle();
+  if (existingError) throw existingError;
+
+  const organisationId = existing?.organisation_id
+    ? null
+    : await ensureOrganisationForEmail(supabase, input.userId, input.fromEmail);
+  const row = buildContactIngestRow(input, existing ?? null, organisationId);
+
+  const { error } = await supabase.from("contacts").upsert(row, { onConflict: "user_id,email" });
+  if (error) throw error;
+}
+
+export interface ContactInputResult {
+  ok: boolean;
+  error?: string;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Validates the editable contact fields from a request body. Only keys that
+ * are present are returned, so PATCH leaves other columns untouched.
+ */
+export function parseContactInput(body: any, options: { requireEmail?: boolean } = {}): ContactInputResult {
+  const values: Record<string, unknown> = {};
+  const input = body && typeof body === "object" ? body : {};
+
+  if (input.email !== undefined || options.requireEmail) {
+    const email = typeof input.email === "string" ? input.email.trim().toLowerCase() : "";
+    if (!extractEmailDomain(email)) {
+      return { ok: false, error: "A valid email is required", values };
+    }
+    values.email = email;
+  }
+
+  if (input.role !== undefined) {
+    if (input.role !== null && !isContactRole(input.role)) {
+      return { ok: false, error: "role must be promoter, agent, label, press or venue", values };
+    }
+    values.role = input.role;
+  }
+
+  const textFields: Array<[string, string]> = [
+    ["name", "name"],
+    ["phone", "phone"],
+    ["company", "company"],
+    ["reliabilityNotes", "reliability_notes"],
+    ["organisationId", "organisation_id"],
+  ];
+  for (const [key, column] of textFields) {
+    if (input[key] === undefined) continue;
+    if (input[key] !== null && typeof input[key] !== "string") {
+      return { ok: false, error: `${key} must be a string`, values };
+    }
+    const trimmed = typeof input[key] === "string" ? input[key].trim() : "";
+    values[column] = trimmed || null;
+  }
+
+  return { ok: true, values };
+}
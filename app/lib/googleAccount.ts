@@ -45,6 +45,7 @@ export async function getGoogleAccount(
     .select("*")
     .eq("user_id", userId)
     .eq("provider", "google")
+    .order("created_at", { ascending: true })
     .limit(1);
 
   if (accountId) {
@@ -62,6 +63,25 @@ export async function getGoogleAccount(
   return mapGoogleOAuthAccountRow(data as unknown as GoogleOAuthAccountRow);
 }
 
+/** All Google accounts a user has connected, oldest first. */
+export async function listGoogleAccounts(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<OAuthAccountRecord[]> {
+  const { data, error } = await supabase
+    .from("oauth_accounts")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("provider", "google")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as GoogleOAuthAccountRow[]).map(mapGoogleOAuthAccountRow);
+}
+
 export async function getGoogleAccountById(
   supabase: SupabaseClient,
   accountId: string
@@ -1,9 +1,11 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
-import type { OAuthAccountRecord } from "@kazador/shared";
+import { google } from "googleapis";
+import type { GmailAccountSummary, GmailSyncStatus, OAuthAccountRecord } from "@kazador/shared";
 import {
   ensureGoogleOAuthClient,
   getGoogleAccount,
   getGoogleAccountById,
+  listGoogleAccounts,
   mapGoogleOAuthAccountRow,
   deleteGoogleAccount,
 } from "./googleAccount";
@@ -17,10 +19,19 @@ export function hasGmailScopes(account: OAuthAccountRecord | null): account is O
   return Array.from(REQUIRED_GMAIL_SCOPES).every((scope) => scopes.includes(scope));
 }
 
+/**
+ * Returns the requested Gmail account, or the user's first connected one when
+ * no account id is given.
+ */
 export async function getGmailAccount(
   supabase: SupabaseClient,
   options: { userId: string; accountId?: string }
 ): Promise<OAuthAccountRecord | null> {
+  if (!options.accountId) {
+    const accounts = await listGmailAccounts(supabase, options.userId);
+    return accounts[0] ?? null;
+  }
+
   const account = await getGoogleAccount(supabase, options);
   if (!hasGmailScopes(account)) {
     return null;
@@ -28,6 +39,74 @@ export async function getGmailAccount(
   return account;
 }
 
+export async function listGmailAccounts(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<OAuthAccountRecord[]> {
+  const accounts = await listGoogleAccounts(supabase, userId);
+  return accounts.filter((account) => hasGmailScopes(account));
+}
+
+const GMAIL_ACCOUNT_SUMMARY_COLUMNS =
+  "id, account_email, display_name, default_project_id, scopes, expires_at, gmail_sync_status, gmail_last_synced_at, gmail_last_error, gmail_last_message_count, created_at";
+
+function mapGmailAccountSummaryRow(row: Record<string, any>): GmailAccountSummary {
+  const status = row.gmail_sync_status as GmailSyncStatus | null;
+  return {
+    id: row.id,
+    email: row.account_email,
+    displayName: row.display_name ?? null,
+    defaultProjectId: row.default_project_id ?? null,
+    scopes: Array.isArray(row.scopes) ? row.scopes : [],
+    expiresAt: row.expires_at,
+    syncStatus: status === "ok" || status === "error" ? status : "pending",
+    lastSyncedAt: row.gmail_last_synced_at ?? null,
+    lastError: row.gmail_last_error ?? null,
+    lastMessageCount: typeof row.gmail_last_message_count === "number" ? row.gmail_last_message_count : null,
+    connectedAt: row.created_at,
+  };
+}
+
+/** Gmail accounts with their routing settings and sync health, for settings and inbox filters. */
+export async function listGmailAccountSummaries(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<GmailAccountSummary[]> {
+  const { data, error } = await supabase
+    .from("oauth_accounts")
+    .select(GMAIL_ACCOUNT_SUMMARY_COLUMNS)
+    .eq("user_id", userId)
+    .eq("provider", "google")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? [])
+    .map((row) => mapGmailAccountSummaryRow(row as Record<string, any>))
+    .filter((account) => Array.from(REQUIRED_GMAIL_SCOPES).every((scope) => account.scopes.includes(scope)));
+}
+
+export async function updateGmailAccountSettings(
+  supabase: SupabaseClient,
+  accountId: string,
+  updates: { displayName?: string | null; defaultProjectId?: string | null }
+): Promise<void> {
+  const payload: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (updates.displayName !== undefined) {
+    payload.display_name = updates.displayName;
+  }
+  if (updates.defaultProjectId !== undefined) {
+    payload.default_project_id = updates.defaultProjectId;
+  }
+
+  const { error } = await supabase.from("oauth_accounts").update(payload).eq("id", accountId);
+  if (error) {
+    throw error;
+  }
+}
+
 export async function getGmailAccountById(
   supabase: SupabaseClient,
   accountId: string
@@ -97,3 +176,34 @@ export async function disconnectGmailAccount(
     throw updateError;
   }
 }
+
+/**
+ * Saves a raw RFC 2822 message as a draft in the user's Gmail account. The
+ * draft is never sent from here.
+ */
+export async function createGmailDraft(
+  supabase: SupabaseClient,
+  options: { userId: string; raw: string; threadId?: string | null; accountId?: string }
+): Promise<{ draftId: string | null; messageId: string | null }> {
+  const account = await getGmailAccount(supabase, { userId: options.userId, accountId: options.accountId });
+  if (!account) {
+    throw new Error("Gmail is not connected for this user");
+  }
+
+  const auth = await ensureGmailOAuthClient(supabase, account);
+  const gmail = google.gmail({ version: "v1", auth });
+  const response = await gmail.users.drafts.create({
+    userId: "me",
+    requestBody: {
+      message: {
+        raw: options.raw,
+        threadId: options.threadId ?? undefined,
+      },
+    },
+  });
+
+  return {
+    draftId: response.data.id ?? null,
+    messageId: response.data.message?.id ?? null,
+  };
+}
@@ -68,7 +68,7 @@ export function buildOAuthUrl(options: {
   redirectUri: string;
   state: string;
   scopes?: string[];
-  prompt?: "consent" | "select_account" | "none";
+  prompt?: "consent" | "select_account" | "select_account consent" | "none";
   accessType?: "online" | "offline";
 }) {
   const { redirectUri, state, scopes = DRIVE_SCOPES, prompt = "consent", accessType = "offline" } = options;
@@ -0,0 +1,150 @@
+import type { calendar_v3 } from "googleapis";
+import type { IcsEventFields } from "./calendarMapper";
+
+const PRODUCT_ID = "-//Kazador//Timeline Feed//EN";
+const MAX_LINE_OCTETS = 75;
+
+export interface IcsCalendarInput {
+  name: string;
+  timezone?: string | null;
+  events: IcsEventFields[];
+  now?: Date;
+}
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line at 75 octets as RFC 5545 requires. Continuation lines
+ * start with a space, and multi-byte characters are never split.
+ */
+export function foldIcsLine(line: string): string {
+  if (Buffer.byteLength(line, "utf8") <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, "utf8");
+    // Continuation lines lose one octet to the leading space.
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatLocalDateTime(date: Date, timezone: string): string | null {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+  } catch (err) {
+    return null;
+  }
+  const lookup = (type: string) => parts.find((part) => part.type === type)?.value ?? "00";
+  return `${lookup("year")}${lookup("month")}${lookup("day")}T${lookup("hour")}${lookup("minute")}${lookup("second")}`;
+}
+
+/**
+ * Renders `DTSTART`/`DTEND`. All-day values use `VALUE=DATE`; timed values
+ * keep the item's IANA zone as `TZID` so subscribers show local show times,
+ * and fall back to UTC when the zone is missing, `UTC` or unknown.
+ */
+export function formatIcsDateTime(name: string, value: calendar_v3.Schema$EventDateTime): string | null {
+  if (value.date) {
+    return `${name};VALUE=DATE:${value.date.replace(/-/g, "")}`;
+  }
+  if (!value.dateTime) {
+    return null;
+  }
+
+  const date = new Date(value.dateTime);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  const timezone = value.timeZone;
+  if (timezone && timezone !== "UTC") {
+    const local = formatLocalDateTime(date, timezone);
+    if (local) {
+      return `${name};TZID=${timezone}:${local}`;
+    }
+  }
+  return `${name}:${formatUtcDateTime(date)}`;
+}
+
+function buildEventLines(event: IcsEventFields, stamp: string): string[] {
+  const start = formatIcsDateTime("DTSTART", event.start);
+  const end = formatIcsDateTime("DTEND", event.end);
+  if (!start) {
+    return [];
+  }
+
+  const lastModified = new Date(event.lastModified);
+  const lines = ["BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`, start];
+  if (end) lines.push(end);
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  lines.push(`STATUS:${event.status}`);
+  if (event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(",")}`);
+  }
+  if (!Number.isNaN(lastModified.getTime())) {
+    lines.push(`LAST-MODIFIED:${formatUtcDateTime(lastModified)}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * Serialises a `VCALENDAR` with CRLF line endings. No `VTIMEZONE` blocks are
+ * emitted; the major calendar clients resolve IANA `TZID`s on their own.
+ */
+export function buildIcsCalendar(input: IcsCalendarInput): string {
+  const stamp = formatUtcDateTime(input.now ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(input.name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+  if (input.timezone) {
+    lines.push(`X-WR-TIMEZONE:${input.timezone}`);
+  }
+  for (const event of input.events) {
+    lines.push(...buildEventLines(event, stamp));
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
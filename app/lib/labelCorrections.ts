@@ -0,0 +1,117 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  labelsDiffer,
+  normaliseLabel,
+  normaliseLabels,
+  selectCorrectionExamples,
+  type EmailLabel,
+  type EmailLabelCorrectionRecord,
+  type EmailRecord,
+  type LabelCorrectionExample,
+} from "@kazador/shared";
+
+const EXAMPLE_CORRECTION_WINDOW = 50;
+const DEFAULT_REPORT_DAYS = 90;
+const MAX_REPORT_ROWS = 5000;
+
+export function mapLabelCorrectionRow(row: Record<string, any>): EmailLabelCorrectionRecord {
+  return {
+    id: row.id,
+    emailId: row.email_id ?? null,
+    userId: row.user_id,
+    originalLabels: normaliseLabels(row.original_labels),
+    correctedLabels: normaliseLabels(row.corrected_labels),
+    originalCategory: row.original_category ? normaliseLabel(row.original_category) : null,
+    correctedCategory: row.corrected_category ? normaliseLabel(row.corrected_category) : null,
+    classificationPromptVersion:
+      typeof row.classification_prompt_version === "number" ? row.classification_prompt_version : null,
+    subject: row.subject ?? null,
+    summary: row.summary ?? null,
+    fromEmail: row.from_email ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Stores a user's relabelling of an email as a correction event. Returns
+ * false without writing anything when the labels did not actually change.
+ */
+export async function recordLabelCorrection(
+  supabase: SupabaseClient,
+  input: {
+    email: Pick<EmailRecord, "id" | "labels" | "category" | "subject" | "summary" | "fromEmail" | "classificationPromptVersion">;
+    userId: string;
+    correctedLabels: EmailLabel[];
+    correctedCategory: EmailLabel;
+  }
+): Promise<boolean> {
+  const { email } = input;
+  const originalLabels = email.labels ?? [];
+  if (!labelsDiffer(originalLabels, input.correctedLabels) && email.category === input.correctedCategory) {
+    return false;
+  }
+
+  const { error } = await supabase.from("email_label_corrections").insert({
+    email_id: email.id,
+    user_id: input.userId,
+    original_labels: originalLabels,
+    corrected_labels: input.correctedLabels,
+    original_category: email.category,
+    corrected_category: input.correctedCategory,
+    classification_prompt_version: email.classificationPromptVersion ?? null,
+    subject: email.subject,
+    summary: email.summary,
+    from_email: email.fromEmail,
+  });
+
+  if (error) {
+    throw error;
+  }
+  return true;
+}
+
+/** The user's best recent corrections, ready to pass to `analyzeEmail` as examples. */
+export async function loadLabelCorrectionExamples(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<LabelCorrectionExample[]> {
+  const { data, error } = await supabase
+    .from("email_label_corrections")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(EXAMPLE_CORRECTION_WINDOW);
+
+  if (error) {
+    throw error;
+  }
+
+  return selectCorrectionExamples((data ?? []).map((row) => mapLabelCorrectionRow(row as Record<string, any>)));
+}
+
+export function parseReportDays(value: string | null): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return DEFAULT_REPORT_DAYS;
+  }
+  return Math.min(Math.floor(parsed), 365);
+}
+
+/** Corrections across all users for the admin report; needs a service-role client to see past RLS. */
+export async function listLabelCorrectionsSince(
+  supabase: SupabaseClient,
+  since: Date
+): Promise<EmailLabelCorrectionRecord[]> {
+  const { data, error } = await supabase
+    .from("email_label_corrections")
+    .select("*")
+    .gte("created_at", since.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(MAX_REPORT_ROWS);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map((row) => mapLabelCorrectionRow(row as Record<string, any>));
+}
@@ -0,0 +1,7 @@
+/**
+ * Strips characters that would break out of a PostgREST `or()` filter or act
+ * as LIKE wildcards, and wraps the value for a substring `ilike` match.
+ */
+export function toIlikePattern(value: string): string {
+  return `%${value.replace(/[%_,()*\\"]/g, " ").trim()}%`;
+}
@@ -39,6 +39,7 @@ function parsePayload(payload: any): PriorityConfigPayload {
 
   return {
     config: payload.config as PriorityConfig,
+    effectiveConfig: (payload.effectiveConfig ?? payload.config) as PriorityConfig,
     source: (payload.source as PriorityConfigSource) ?? "default",
     updatedAt: typeof payload.updatedAt === "string" ? payload.updatedAt : null,
     preset: resolvedPreset,
@@ -48,6 +49,7 @@ function parsePayload(payload: any): PriorityConfigPayload {
 
 export interface PriorityConfigPayload {
   config: PriorityConfig;
+  effectiveConfig: PriorityConfig;
   source: PriorityConfigSource;
   updatedAt: string | null;
   preset?: { slug: string; name: string } | null;
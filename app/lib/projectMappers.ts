@@ -5,11 +5,13 @@ import type {
   ProjectItemLinkRecord,
   ProjectEmailLinkRecord,
   TimelineItemRecord,
-  ProjectTaskRecord,
   ProjectTemplateRecord,
   ProjectTemplateItemRecord,
+  ProjectTemplateVersionRecord,
   TimelineDependencyRecord,
   ApprovalRecord,
+  AuditLogRecord,
+  RecordRevision,
   AssetRecord,
   AssetLinkRecord,
   OAuthAccountRecord,
@@ -54,6 +56,8 @@ export function mapProjectRow(row: any): ProjectRecord {
     color: (row.color as string) ?? null,
     labels: parseJson(row.labels),
     priorityProfile: row.priority_profile ?? null,
+    templateId: (row.template_id as string) ?? null,
+    templateVersion: row.template_version != null ? Number(row.template_version) : null,
     createdBy: (row.created_by as string) ?? null,
     createdAt: String(row.created_at),
     updatedAt: String(row.updated_at),
@@ -260,33 +264,40 @@ export function mapApprovalRow(row: any): ApprovalRecord {
   };
 }
 
-export function mapProjectTaskRow(row: any): ProjectTaskRecord {
-  const laneRelation = row.lane ?? null;
-  const laneId = (row.lane_id as string) ?? (laneRelation?.id as string) ?? null;
-  const laneSlugValue = (row as Record<string, unknown>).lane_slug ?? laneRelation?.slug;
-  const laneNameValue = (row as Record<string, unknown>).lane_name ?? laneRelation?.name;
-  const laneColorValue = (row as Record<string, unknown>).lane_color ?? laneRelation?.color;
-  const laneIconValue = (row as Record<string, unknown>).lane_icon ?? laneRelation?.icon;
+export function mapAuditLogRow(row: any): AuditLogRecord {
+  return {
+    id: row.id as string,
+    projectId: (row.project_id as string) ?? null,
+    userId: (row.user_id as string) ?? null,
+    action: row.action as string,
+    entity: row.entity as string,
+    refId: (row.ref_id as string) ?? null,
+    metadata: parseJson<Record<string, unknown>>(row.metadata),
+    createdAt: String(row.created_at),
+  };
+}
+
+export function mapRecordRevisionRow(row: any): RecordRevision {
+  const before = row.before != null ? parseJson<Record<string, unknown>>(row.before) : null;
+  const after = row.after != null ? parseJson<Record<string, unknown>>(row.after) : null;
   return {
     id: row.id as string,
     projectId: row.project_id as string,
-    title: row.title as string,
-    description: (row.description as string) ?? null,
-    status: row.status as string,
-    dueAt: parseDateTime(row.due_at),
-    priority: row.priority != null ? Number(row.priority) : null,
-    assigneeId: (row.assignee_id as string) ?? null,
-    laneId,
-    laneSlug: typeof laneSlugValue === "string" ? laneSlugValue : null,
-    laneName: typeof laneNameValue === "string" ? laneNameValue : null,
-    laneColor: typeof laneColorValue === "string" ? laneColorValue : null,
-    laneIcon: typeof laneIconValue === "string" ? laneIconValue : null,
-    createdBy: (row.created_by as string) ?? null,
+    entity: row.entity as RecordRevision["entity"],
+    recordId: row.record_id as string,
+    operation: row.operation as RecordRevision["operation"],
+    before: before as RecordRevision["before"],
+    after: after as RecordRevision["after"],
+    changedFields: Array.isArray(row.changed_fields) ? (row.changed_fields as string[]) : [],
+    userId: (row.user_id as string) ?? null,
+    restoredFromId: (row.restored_from_id as string) ?? null,
     createdAt: String(row.created_at),
-    updatedAt: String(row.updated_at),
   };
 }
 
+// Task snapshots are also taken by the shared automation store
+export { mapProjectTaskRow } from "@kazador/shared";
+
 export function mapProjectTemplateRow(row: any): ProjectTemplateRecord {
   return {
     id: row.id as string,
@@ -294,6 +305,9 @@ export function mapProjectTemplateRow(row: any): ProjectTemplateRecord {
     slug: row.slug as string,
     description: (row.description as string) ?? null,
     payload: parseJson(row.payload),
+    version: Number(row.version ?? 1),
+    createdBy: (row.created_by as string) ?? null,
+    sourceProjectId: (row.source_project_id as string) ?? null,
     createdAt: String(row.created_at),
     updatedAt: String(row.updated_at),
   };
@@ -312,3 +326,18 @@ export function mapProjectTemplateItemRow(row: any): ProjectTemplateItemRecord {
     createdAt: String(row.created_at),
   };
 }
+
+export function mapProjectTemplateVersionRow(row: any): ProjectTemplateVersionRecord {
+  const items = parseJson<unknown>(row.items);
+  return {
+    id: row.id as string,
+    templateId: row.template_id as string,
+    version: Number(row.version ?? 1),
+    name: row.name as string,
+    description: (row.description as string) ?? null,
+    payload: parseJson(row.payload),
+    items: Array.isArray(items) ? (items as ProjectTemplateVersionRecord["items"]) : [],
+    createdBy: (row.created_by as string) ?? null,
+    createdAt: String(row.created_at),
+  };
+}
@@ -0,0 +1,438 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  captureProjectTemplate,
+  instantiateProjectTemplate,
+  type ProjectRecord,
+  type ProjectTemplateItemDraft,
+  type ProjectTemplateItemRecord,
+  type ProjectTemplateRecord,
+  type ProjectTemplateSnapshot,
+} from "@kazador/shared";
+import { mapRow as mapAssignmentRuleRow, type RuleRow } from "../app/api/project-assignment-rules/helpers";
+import {
+  mapLaneDefinitionRow,
+  mapProjectRow,
+  mapProjectTaskRow,
+  mapProjectTemplateItemRow,
+  mapProjectTemplateRow,
+  mapTimelineDependencyRow,
+  mapTimelineItemRow,
+} from "./projectMappers";
+import { recordWriteRevisions } from "./recordRevisions";
+
+export interface ProjectTemplateWithItems {
+  template: ProjectTemplateRecord;
+  items: ProjectTemplateItemRecord[];
+}
+
+export interface ProjectTemplateUpdate {
+  name?: string;
+  description?: string | null;
+  items?: ProjectTemplateItemDraft[];
+  payload?: Record<string, unknown>;
+}
+
+function slugifyTemplateName(name: string): string {
+  const base = name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48);
+  return `${base || "template"}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function toItemRows(templateId: string, items: ProjectTemplateItemDraft[]) {
+  return items.map((item) => ({
+    template_id: templateId,
+    item_type: item.itemType,
+    title: item.title,
+    lane: item.lane,
+    offset_days: Math.trunc(item.offsetDays),
+    duration_days: Math.max(0, Math.trunc(item.durationDays)),
+    metadata: item.metadata ?? {},
+  }));
+}
+
+function toItemDraft(item: ProjectTemplateItemRecord): ProjectTemplateItemDraft {
+  return {
+    itemType: item.itemType,
+    title: item.title,
+    lane: item.lane,
+    offsetDays: item.offsetDays,
+    durationDays: item.durationDays,
+    metadata: item.metadata,
+  };
+}
+
+export async function loadProjectTemplate(
+  supabase: SupabaseClient,
+  lookup: { id?: string | null; slug?: string | null }
+): Promise<ProjectTemplateWithItems | null> {
+  let query = supabase.from("project_templates").select("*");
+  query = lookup.id ? query.eq("id", lookup.id) : query.eq("slug", lookup.slug ?? "");
+  const { data: templateRow, error: templateError } = await query.maybeSingle();
+  if (templateError) throw templateError;
+  if (!templateRow) return null;
+
+  const { data: itemRows, error: itemsError } = await supabase
+    .from("project_template_items")
+    .select("*")
+    .eq("template_id", templateRow.id);
+  if (itemsError) throw itemsError;
+
+  return {
+    template: mapProjectTemplateRow(templateRow),
+    items: (itemRows ?? []).map(mapProjectTemplateItemRow).sort((a, b) => a.offsetDays - b.offsetDays),
+  };
+}
+
+/** Reads everything a template captures from a project. */
+export async function captureProjectAsTemplate(
+  supabase: SupabaseClient,
+  projectId: string,
+  userId: string
+): Promise<{ project: ProjectRecord; snapshot: ProjectTemplateSnapshot }> {
+  const [projectRes, itemsRes, tasksRes, lanesRes, dependenciesRes, rulesRes] = await Promise.all([
+    supabase.from("projects").select("*").eq("id", projectId).maybeSingle(),
+    supabase.from("timeline_entries").select("*").eq("project_id", projectId),
+    supabase
+      .from("project_tasks")
+      .select("*, lane:lane_definitions(id, slug, name, color, icon)")
+      .eq("project_id", projectId),
+    supabase.from("lane_definitions").select("*").or(`user_id.eq.${userId},user_id.is.null`),
+    supabase.from("timeline_dependencies").select("*").eq("project_id", projectId),
+    supabase.from("project_assignment_rules").select("*").eq("project_id", projectId).eq("user_id", userId),
+  ]);
+
+  for (const result of [projectRes, itemsRes, tasksRes, lanesRes, dependenciesRes, rulesRes]) {
+    if (result.error) throw result.error;
+  }
+  if (!projectRes.data) {
+    throw Object.assign(new Error("Project not found"), { status: 404 });
+  }
+
+  const project = mapProjectRow(projectRes.data);
+  const snapshot = captureProjectTemplate({
+    project,
+    items: (itemsRes.data ?? []).map(mapTimelineItemRow),
+    tasks: (tasksRes.data ?? []).map(mapProjectTaskRow),
+    lanes: (lanesRes.data ?? []).map(mapLaneDefinitionRow),
+    dependencies: (dependenciesRes.data ?? []).map(mapTimelineDependencyRow),
+    assignmentRules: (rulesRes.data ?? []).map((row) => mapAssignmentRuleRow(row as RuleRow)),
+  });
+
+  return { project, snapshot };
+}
+
+async function recordTemplateVersion(
+  supabase: SupabaseClient,
+  template: ProjectTemplateRecord,
+  items: ProjectTemplateItemDraft[],
+  userId: string
+) {
+  const { error } = await supabase.from("project_template_versions").insert({
+    template_id: template.id,
+    version: template.version,
+    name: template.name,
+    description: template.description,
+    payload: template.payload,
+    items,
+    created_by: userId,
+  });
+  if (error) throw error;
+}
+
+export async function createProjectTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  input: { name: string; description?: string | null; sourceProjectId?: string | null; snapshot: ProjectTemplateSnapshot }
+): Promise<ProjectTemplateWithItems> {
+  const { data: templateRow, error: templateError } = await supabase
+    .from("project_templates")
+    .insert({
+      name: input.name,
+      slug: slugifyTemplateName(input.name),
+      description: input.description ?? null,
+      payload: input.snapshot.payload,
+      version: 1,
+      created_by: userId,
+      source_project_id: input.sourceProjectId ?? null,
+    })
+    .select("*")
+    .single();
+  if (templateError) throw templateError;
+
+  const template = mapProjectTemplateRow(templateRow);
+  let items: ProjectTemplateItemRecord[] = [];
+  if (input.snapshot.items.length > 0) {
+    const { data: itemRows, error: itemsError } = await supabase
+      .from("project_template_items")
+      .insert(toItemRows(template.id, input.snapshot.items))
+      .select("*");
+    if (itemsError) throw itemsError;
+    items = (itemRows ?? []).map(mapProjectTemplateItemRow);
+  }
+
+  await recordTemplateVersion(supabase, template, input.snapshot.items, userId);
+  return { template, items };
+}
+
+/**
+ * Applies an edit as a new version. Name and description changes bump the
+ * version too, so a project can always be traced to the exact template
+ * content it was created from. New items are written before the old ones are
+ * removed and the version is bumped last, so a failed write never leaves a
+ * new version pointing at a missing or half-written item list.
+ */
+export async function updateProjectTemplate(
+  supabase: SupabaseClient,
+  existing: ProjectTemplateWithItems,
+  userId: string,
+  update: ProjectTemplateUpdate
+): Promise<ProjectTemplateWithItems> {
+  const items = update.items ?? existing.items.map(toItemDraft);
+  const conflictError = () =>
+    Object.assign(new Error("Template was changed by someone else; reload and try again"), { status: 409 });
+
+  const { data: currentRow, error: currentError } = await supabase
+    .from("project_templates")
+    .select("id")
+    .eq("id", existing.template.id)
+    .eq("version", existing.template.version)
+    .maybeSingle();
+  if (currentError) throw currentError;
+  if (!currentRow) throw conflictError();
+
+  let itemRecords = existing.items;
+  if (update.items) {
+    itemRecords = [];
+    if (items.length > 0) {
+      const { data: itemRows, error: itemsError } = await supabase
+        .from("project_template_items")
+        .insert(toItemRows(existing.template.id, items))
+        .select("*");
+      if (itemsError) throw itemsError;
+      itemRecords = (itemRows ?? []).map(mapProjectTemplateItemRow);
+    }
+
+    const previousIds = existing.items.map((item) => item.id);
+    if (previousIds.length > 0) {
+      const { error: deleteError } = await supabase.from("project_template_items").delete().in("id", previousIds);
+      if (deleteError) {
+        await removeTemplateItems(supabase, itemRecords);
+        throw deleteError;
+      }
+    }
+  }
+
+  const { data: templateRow, error: templateError } = await supabase
+    .from("project_templates")
+    .update({
+      name: update.name ?? existing.template.name,
+      description: update.description !== undefined ? update.description : existing.template.description,
+      payload: update.payload ?? existing.template.payload,
+      version: existing.template.version + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", existing.template.id)
+    .eq("version", existing.template.version)
+    .select("*")
+    .maybeSingle();
+  if (templateError) throw templateError;
+  if (!templateRow) throw conflictError();
+  const template = mapProjectTemplateRow(templateRow);
+
+  await recordTemplateVersion(supabase, template, items, userId);
+  return { template, items: itemRecords };
+}
+
+/** Best-effort cleanup of items written by an edit that could not finish. */
+async function removeTemplateItems(supabase: SupabaseClient, items: ProjectTemplateItemRecord[]) {
+  if (items.length === 0) return;
+  const ids = items.map((item) => item.id);
+  const { error } = await supabase.from("project_template_items").delete().in("id", ids);
+  if (error) {
+    console.error("Failed to remove template items from an unfinished edit", error);
+  }
+}
+
+/**
+ * Seeds a new project from a template: timeline items, tasks, the custom
+ * lanes they use, dependencies between the seeded items and project
+ * assignment rules pointed at the new project.
+ */
+export async function applyProjectTemplate(
+  supabase: SupabaseClient,
+  project: ProjectRecord,
+  template: ProjectTemplateWithItems,
+  userId: string
+): Promise<void> {
+  const startDate = project.startDate ?? new Date().toISOString().slice(0, 10);
+  const plan = instantiateProjectTemplate(
+    { items: template.items.map(toItemDraft), payload: template.template.payload },
+    startDate
+  );
+
+  const idByKey = new Map<string, string>();
+  if (plan.items.length > 0) {
+    const { data: insertedItems, error: itemsError } = await supabase
+      .from("project_items")
+      .insert(
+        plan.items.map((item) => ({
+          project_id: project.id,
+          type: item.type,
+          kind: item.kind,
+          title: item.title,
+          description: item.description,
+          start_at: item.startsAt,
+          end_at: item.endsAt,
+          due_at: item.dueAt,
+          tz: item.timezone,
+          status: item.status,
+          priority_components: {},
+          labels: item.labels,
+          links: { templateItemKey: item.key },
+          created_by: userId,
+        }))
+      )
+      .select("id, links");
+    if (itemsError) throw itemsError;
+
+    for (const row of insertedItems ?? []) {
+      const key = (row.links as Record<string, unknown> | null)?.templateItemKey;
+      if (typeof key === "string") idByKey.set(key, row.id as string);
+    }
+
+    await recordWriteRevisions(supabase, {
+      entity: "timeline_item",
+      before: new Map(),
+      recordIds: (insertedItems ?? []).map((row) => row.id as string),
+      userId,
+    });
+  }
+
+  const laneIdBySlug = new Map<string, string>();
+  const laneSlugs = new Set([
+    ...plan.lanes.map((lane) => lane.slug.toUpperCase()),
+    ...plan.tasks.map((task) => task.laneSlug?.toUpperCase()).filter((slug): slug is string => Boolean(slug)),
+  ]);
+  if (laneSlugs.size > 0) {
+    const { data: laneRows, error: lanesError } = await supabase
+      .from("lane_definitions")
+      .select("id, slug")
+      .or(`user_id.eq.${userId},user_id.is.null`);
+    if (lanesError) throw lanesError;
+    for (const row of laneRows ?? []) {
+      laneIdBySlug.set(String(row.slug).toUpperCase(), row.id as string);
+    }
+
+    const missing = plan.lanes.filter((lane) => !laneIdBySlug.has(lane.slug.toUpperCase()));
+    if (missing.length > 0) {
+      const { data: createdLanes, error: createError } = await supabase
+        .from("lane_definitions")
+        .insert(
+          missing.map((lane) => ({
+            user_id: userId,
+            name: lane.name,
+            slug: lane.slug.toUpperCase(),
+            description: lane.description,
+            color: lane.color,
+            icon: lane.icon,
+            auto_assign_rules: lane.autoAssignRules,
+            is_default: false,
+          }))
+        )
+        .select("id, slug");
+      if (createError) throw createError;
+      for (const row of createdLanes ?? []) {
+        laneIdBySlug.set(String(row.slug).toUpperCase(), row.id as string);
+      }
+    }
+  }
+
+  if (plan.tasks.length > 0) {
+    const { data: insertedTasks, error: tasksError } = await supabase.from("project_tasks").insert(
+      plan.tasks.map((task) => ({
+        project_id: project.id,
+        title: task.title,
+        description: task.description,
+        status: "todo",
+        due_at: task.dueAt,
+        priority: task.priority,
+        created_by: userId,
+        lane_id: task.laneSlug ? laneIdBySlug.get(task.laneSlug.toUpperCase()) ?? null : null,
+      }))
+    ).select("id");
+    if (tasksError) throw tasksError;
+
+    await recordWriteRevisions(supabase, {
+      entity: "project_task",
+      before: new Map(),
+      recordIds: (insertedTasks ?? []).map((row: any) => row.id as string),
+      userId,
+    });
+  }
+
+  const dependencies = plan.dependencies.filter(
+    (dependency) => idByKey.has(dependency.fromKey) && idByKey.has(dependency.toKey)
+  );
+  if (dependencies.length > 0) {
+    const { error: dependenciesError } = await supabase.from("timeline_dependencies").insert(
+      dependencies.map((dependency) => ({
+        project_id: project.id,
+        from_item_id: idByKey.get(dependency.fromKey),
+        to_item_id: idByKey.get(dependency.toKey),
+        kind: dependency.kind,
+        note: dependency.note,
+      }))
+    );
+    if (dependenciesError) throw dependenciesError;
+  }
+
+  if (plan.assignmentRules.length > 0) {
+    const { error: rulesError } = await supabase.from("project_assignment_rules").insert(
+      plan.assignmentRules.map((rule) => ({
+        user_id: userId,
+        project_id: project.id,
+        name: rule.name,
+        description: rule.description,
+        enabled: rule.enabled,
+        sort_order: rule.sortOrder,
+        conditions: rule.conditions,
+        actions: { ...rule.actions, projectId: project.id },
+        metadata: { ...rule.metadata, templateId: template.template.id },
+      }))
+    );
+    if (rulesError) throw rulesError;
+  }
+}
+
+/** Validates edited template items sent from the settings page. */
+export function parseTemplateItemsInput(raw: unknown): { ok: true; items: ProjectTemplateItemDraft[] } | { ok: false; error: string } {
+  if (!Array.isArray(raw)) {
+    return { ok: false, error: "items must be an array" };
+  }
+
+  const items: ProjectTemplateItemDraft[] = [];
+  for (const entry of raw as any[]) {
+    const title = typeof entry?.title === "string" ? entry.title.trim() : "";
+    if (!title) {
+      return { ok: false, error: "Every template item needs a title" };
+    }
+    const offsetDays = Number(entry.offsetDays ?? 0);
+    const durationDays = Number(entry.durationDays ?? 0);
+    if (!Number.isFinite(offsetDays) || !Number.isFinite(durationDays)) {
+      return { ok: false, error: `Invalid day offset for "${title}"` };
+    }
+    items.push({
+      itemType: typeof entry.itemType === "string" && entry.itemType ? entry.itemType : "LIVE_HOLD",
+      title,
+      lane: typeof entry.lane === "string" && entry.lane ? entry.lane : null,
+      offsetDays: Math.trunc(offsetDays),
+      durationDays: Math.max(0, Math.trunc(durationDays)),
+      metadata: entry.metadata && typeof entry.metadata === "object" ? entry.metadata : {},
+    });
+  }
+  return { ok: true, items };
+}
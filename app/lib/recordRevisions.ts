@@ -0,0 +1,228 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildRecordRevisionRow,
+  getTimelineLaneForType,
+  PROJECT_TASK_SNAPSHOT_COLUMNS,
+  type ProjectTaskRecord,
+  type RecordRevision,
+  type RecordRevisionEntity,
+  type RecordRevisionInput,
+  type TimelineItemRecord,
+} from "@kazador/shared";
+import { mapProjectTaskRow, mapRecordRevisionRow, mapTimelineItemRow } from "./projectMappers";
+
+export type { RecordRevisionInput };
+
+type RevisionSnapshot = TimelineItemRecord | ProjectTaskRecord;
+
+/** Keeps `.in()` filters well inside URL length limits on bulk writes. */
+const SNAPSHOT_BATCH_SIZE = 200;
+
+/**
+ * Stores a before/after snapshot of a timeline item or task. Updates that
+ * leave every tracked field untouched are skipped.
+ */
+export async function recordRevision(
+  supabase: SupabaseClient,
+  input: RecordRevisionInput
+): Promise<void> {
+  const payload = buildRecordRevisionRow(input);
+  if (!payload) {
+    return;
+  }
+
+  const { error } = await supabase.from("record_revisions").insert(payload);
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Loads records as revisions snapshot them: timeline items through the
+ * `timeline_entries` view, tasks with their lane. Missing ids are left out.
+ */
+export async function loadRevisionSnapshots(
+  supabase: SupabaseClient,
+  entity: RecordRevisionEntity,
+  ids: string[]
+): Promise<Map<string, RevisionSnapshot>> {
+  const snapshots = new Map<string, RevisionSnapshot>();
+  const uniqueIds = Array.from(new Set(ids.filter(Boolean)));
+
+  for (let index = 0; index < uniqueIds.length; index += SNAPSHOT_BATCH_SIZE) {
+    const batch = uniqueIds.slice(index, index + SNAPSHOT_BATCH_SIZE);
+    const { data, error } =
+      entity === "timeline_item"
+        ? await supabase.from("timeline_entries").select("*").in("id", batch)
+        : await supabase.from("project_tasks").select(PROJECT_TASK_SNAPSHOT_COLUMNS).in("id", batch);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of data ?? []) {
+      const snapshot = entity === "timeline_item" ? mapTimelineItemRow(row) : mapProjectTaskRow(row);
+      snapshots.set(snapshot.id, snapshot);
+    }
+  }
+
+  return snapshots;
+}
+
+export interface WriteRevisionsInput {
+  entity: RecordRevisionEntity;
+  /** Snapshots taken before the write; empty when every record is new. */
+  before: Map<string, RevisionSnapshot>;
+  /** Every record the write touched, including deleted ones. */
+  recordIds: string[];
+  /** Null for writes made by the system through the service role. */
+  userId: string | null;
+}
+
+/**
+ * Records the revisions for a write made outside the item and task routes
+ * (imports, templates, approvals, calendar sync, lane reapply). Whether each
+ * record was created, updated or deleted follows from which side of the
+ * write it exists on. History is best effort: failures are logged and the
+ * write itself stands.
+ */
+export async function recordWriteRevisions(supabase: SupabaseClient, input: WriteRevisionsInput): Promise<void> {
+  try {
+    const after = await loadRevisionSnapshots(supabase, input.entity, input.recordIds);
+    const rows: Record<string, unknown>[] = [];
+
+    for (const recordId of new Set(input.recordIds)) {
+      const previous = input.before.get(recordId) ?? null;
+      const next = after.get(recordId) ?? null;
+      const snapshot = next ?? previous;
+      if (!snapshot) continue;
+
+      const row = buildRecordRevisionRow({
+        projectId: snapshot.projectId,
+        entity: input.entity,
+        recordId,
+        operation: !previous ? "create" : !next ? "delete" : "update",
+        before: previous,
+        after: next,
+        userId: input.userId,
+      });
+      if (row) rows.push(row);
+    }
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase.from("record_revisions").insert(rows);
+    if (error) {
+      throw error;
+    }
+  } catch (err) {
+    console.error(`Failed to record ${input.entity} revisions`, err);
+  }
+}
+
+export interface RecordRevisionQuery {
+  projectId: string;
+  entity: RecordRevisionEntity;
+  recordId: string;
+}
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+
+export function parseHistoryLimit(value: string | null): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return DEFAULT_HISTORY_LIMIT;
+  }
+  return Math.min(Math.floor(parsed), MAX_HISTORY_LIMIT);
+}
+
+export async function listRecordRevisions(
+  supabase: SupabaseClient,
+  query: RecordRevisionQuery,
+  limit = DEFAULT_HISTORY_LIMIT
+): Promise<RecordRevision[]> {
+  const { data, error } = await supabase
+    .from("record_revisions")
+    .select("*")
+    .eq("project_id", query.projectId)
+    .eq("entity", query.entity)
+    .eq("record_id", query.recordId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map(mapRecordRevisionRow);
+}
+
+export async function loadRecordRevision(
+  supabase: SupabaseClient,
+  query: RecordRevisionQuery & { revisionId: string }
+): Promise<RecordRevision | null> {
+  const { data, error } = await supabase
+    .from("record_revisions")
+    .select("*")
+    .eq("id", query.revisionId)
+    .eq("project_id", query.projectId)
+    .eq("entity", query.entity)
+    .eq("record_id", query.recordId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapRecordRevisionRow(data) : null;
+}
+
+/** Maps a timeline item snapshot back onto a `project_items` row for upserting. */
+export function buildTimelineItemRestoreRow(item: TimelineItemRecord): Record<string, unknown> {
+  const labels: Record<string, unknown> = { ...(item.labels ?? {}) };
+  labels.lane = labels.lane ?? item.lane ?? getTimelineLaneForType(item.type);
+  if (item.territory) {
+    labels.territory = item.territory;
+  } else {
+    delete labels.territory;
+  }
+
+  return {
+    id: item.id,
+    project_id: item.projectId,
+    type: item.type,
+    kind: item.kind ?? null,
+    title: item.title,
+    description: item.description ?? null,
+    start_at: item.startsAt,
+    end_at: item.endsAt,
+    due_at: item.dueAt ?? null,
+    tz: item.timezone ?? null,
+    status: item.status,
+    priority_score: item.priorityScore,
+    priority_components: item.priorityComponents ?? {},
+    labels,
+    links: item.links ?? {},
+    created_by: item.createdBy ?? null,
+  };
+}
+
+/** Maps a task snapshot back onto a `project_tasks` row for upserting. */
+export function buildProjectTaskRestoreRow(task: ProjectTaskRecord): Record<string, unknown> {
+  return {
+    id: task.id,
+    project_id: task.projectId,
+    title: task.title,
+    description: task.description,
+    status: task.status,
+    due_at: task.dueAt,
+    priority: task.priority ?? 0,
+    assignee_id: task.assigneeId,
+    lane_id: task.laneId,
+    created_by: task.createdBy,
+  };
+}
@@ -0,0 +1,59 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { getSlackApprovalSigningInput, type SignedSlackApprovalValue } from "@kazador/shared";
+
+const MAX_REQUEST_AGE_SECONDS = 60 * 5;
+
+export interface SlackSignatureInput {
+  signingSecret: string;
+  timestamp: string | null;
+  signature: string | null;
+  rawBody: string;
+  now?: Date;
+}
+
+/**
+ * Verifies the `X-Slack-Signature` header as described in Slack's request
+ * signing docs. Requests older than five minutes are rejected to limit
+ * replays.
+ */
+export function verifySlackSignature(input: SlackSignatureInput): boolean {
+  const { signingSecret, timestamp, signature, rawBody } = input;
+  if (!signingSecret || !timestamp || !signature) {
+    return false;
+  }
+
+  const requestTime = Number(timestamp);
+  if (!Number.isFinite(requestTime)) {
+    return false;
+  }
+
+  const nowSeconds = Math.floor((input.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(nowSeconds - requestTime) > MAX_REQUEST_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = `v0=${createHmac("sha256", signingSecret).update(`v0:${timestamp}:${rawBody}`).digest("hex")}`;
+  return safeEqual(expected, signature);
+}
+
+/**
+ * Checks the HMAC the worker attached to an approval button value, so a
+ * forged value cannot point the interaction at another approval or user.
+ */
+export function verifySlackApprovalValue(secret: string, value: SignedSlackApprovalValue): boolean {
+  if (!secret) {
+    return false;
+  }
+  const expected = createHmac("sha256", secret).update(getSlackApprovalSigningInput(value)).digest("hex");
+  return safeEqual(expected, value.signature);
+}
+
+function safeEqual(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected, "utf8");
+  const actualBuffer = Buffer.from(actual, "utf8");
+  if (expectedBuffer.length !== actualBuffer.length) {
+    return false;
+  }
+
+  return timingSafeEqual(expectedBuffer, actualBuffer);
+}
@@ -1,5 +1,7 @@
 import type {
+  EmailLabel,
   EmailRecord,
+  GmailAccountSummary,
   ProjectRecord,
   ProjectMemberRecord,
   ProjectSourceRecord,
@@ -9,6 +11,7 @@ import type {
   ProjectTaskRecord,
   ProjectTemplateRecord,
   ProjectTemplateItemRecord,
+  ProjectTemplateVersionRecord,
   TimelineDependencyRecord,
   ApprovalRecord,
   ProjectTopAction,
@@ -23,6 +26,27 @@ import type {
   CalendarEventRecord,
   CalendarSyncStatus,
   ProjectAssignmentRuleConfidence,
+  EmailSearchMatch,
+  EmailSearchQuery,
+  EmailThreadRecord,
+  EmailReplyDraftEdit,
+  SnoozePresetOption,
+  ContactRecord,
+  ContactDetailRecord,
+  ContactRole,
+  ArtistTimelineConflict,
+  CalendarFeedRecord,
+  CalendarFeedScope,
+  TimelineItemStatus,
+  TimelineImportMapping,
+  TimelineImportOptions,
+  TimelineImportPreview,
+  TimelineImportRow,
+  TimelineImportTable,
+  ActivityFeedEntry,
+  RecordRevision,
+  BookingOfferFields,
+  BookingOfferRecord,
 } from "@kazador/shared";
 
 export const DEFAULT_EMAILS_PER_PAGE = 10;
@@ -42,10 +66,18 @@ export interface EmailListResponse {
   pagination: EmailPagination;
 }
 
+export interface EmailSearchResponse extends EmailListResponse {
+  matches: Record<string, EmailSearchMatch>;
+  query: EmailSearchQuery | null;
+  truncated: boolean;
+}
+
 export interface UpdateEmailTriageOptions {
   triageState?: EmailRecord["triageState"];
   snoozedUntil?: string | null;
   isRead?: boolean;
+  /** Relabels the email; the change is stored as a label correction. */
+  labels?: EmailLabel[];
   accessToken?: string;
 }
 
@@ -61,6 +93,7 @@ type FetchEmailsOptions = {
   accessToken?: string;
   label?: string | null;
   source?: EmailSourceFilter;
+  accountId?: string | null;
 };
 
 function buildHeaders(accessToken?: string): HeadersInit {
@@ -81,12 +114,14 @@ export interface FetchEmailStatsOptions {
   accessToken?: string;
   scope?: EmailStatsScope;
   source?: EmailSourceFilter;
+  /** Limit counts to mail received by one connected Gmail account. */
+  accountId?: string | null;
 }
 
 export async function fetchEmailStats(
   options: FetchEmailStatsOptions = {}
 ): Promise<Record<EmailRecord["category"], number>> {
-  const { accessToken, scope, source } = options;
+  const { accessToken, scope, source, accountId } = options;
 
   const query = new URLSearchParams();
   if (scope) {
@@ -95,6 +130,9 @@ export async function fetchEmailStats(
   if (source && source !== "all") {
     query.set("source", source);
   }
+  if (accountId) {
+    query.set("accountId", accountId);
+  }
 
   const endpoint = query.toString() ? `/api/email-stats?${query.toString()}` : "/api/email-stats";
 
@@ -113,38 +151,7 @@ export async function fetchEmailStats(
   return payload as Record<EmailRecord["category"], number>;
 }
 
-export async function fetchRecentEmails(
-  options: FetchEmailsOptions = {}
-): Promise<EmailListResponse> {
-  const { page, perPage, accessToken, label, source } = options;
-
-  const query = new URLSearchParams();
-  if (page != null) {
-    query.set("page", String(page));
-  }
-  if (perPage != null) {
-    query.set("perPage", String(perPage));
-  }
-  if (label) {
-    query.set("label", label);
-  }
-  if (source && source !== "all") {
-    query.set("source", source);
-  }
-
-  const queryString = query.toString();
-  const response = await fetch(queryString ? `/api/emails?${queryString}` : "/api/emails", {
-    method: "GET",
-    headers: buildHeaders(accessToken),
-    cache: "no-store",
-  });
-
-  const payload = await response.json();
-
-  if (!response.ok) {
-    throw new Error(payload?.error || "Failed to fetch emails");
-  }
-
+function parseEmailListPayload(payload: any, page?: number, perPage?: number): EmailListResponse {
   const items = Array.isArray(payload?.items)
     ? (payload.items as EmailRecord[])
     : [];
@@ -186,11 +193,90 @@ export async function fetchRecentEmails(
   return { items, pagination };
 }
 
+export async function fetchRecentEmails(
+  options: FetchEmailsOptions = {}
+): Promise<EmailListResponse> {
+  const { page, perPage, accessToken, label, source, accountId } = options;
+
+  const query = new URLSearchParams();
+  if (page != null) {
+    query.set("page", String(page));
+  }
+  if (perPage != null) {
+    query.set("perPage", String(perPage));
+  }
+  if (label) {
+    query.set("label", label);
+  }
+  if (source && source !== "all") {
+    query.set("source", source);
+  }
+  if (accountId) {
+    query.set("accountId", accountId);
+  }
+
+  const queryString = query.toString();
+  const response = await fetch(queryString ? `/api/emails?${queryString}` : "/api/emails", {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to fetch emails");
+  }
+
+  return parseEmailListPayload(payload, page, perPage);
+}
+
+export async function searchEmails(options: {
+  query: string;
+  page?: number;
+  perPage?: number;
+  accessToken?: string;
+  signal?: AbortSignal;
+}): Promise<EmailSearchResponse> {
+  const { query: searchQuery, page, perPage, accessToken, signal } = options;
+
+  const query = new URLSearchParams({ q: searchQuery });
+  if (page != null) {
+    query.set("page", String(page));
+  }
+  if (perPage != null) {
+    query.set("perPage", String(perPage));
+  }
+
+  const response = await fetch(`/api/emails/search?${query.toString()}`, {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+    signal,
+  });
+
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to search emails");
+  }
+
+  return {
+    ...parseEmailListPayload(payload, page, perPage),
+    matches:
+      payload?.matches && typeof payload.matches === "object"
+        ? (payload.matches as Record<string, EmailSearchMatch>)
+        : {},
+    query: (payload?.query as EmailSearchQuery) ?? null,
+    truncated: Boolean(payload?.truncated),
+  };
+}
+
 export async function updateEmailTriage(
   emailId: string,
   options: UpdateEmailTriageOptions
 ): Promise<EmailRecord> {
-  const { accessToken, triageState, snoozedUntil, isRead } = options;
+  const { accessToken, triageState, snoozedUntil, isRead, labels } = options;
 
   const response = await fetch(`/api/emails/${emailId}`, {
     method: "PATCH",
@@ -198,7 +284,7 @@ export async function updateEmailTriage(
       ...buildHeaders(accessToken),
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ triageState, snoozedUntil, isRead }),
+    body: JSON.stringify({ triageState, snoozedUntil, isRead, labels }),
   });
 
   const payload = await response.json();
@@ -210,6 +296,65 @@ export async function updateEmailTriage(
   return payload?.email as EmailRecord;
 }
 
+export async function fetchEmailThread(
+  threadId: string,
+  accessToken?: string
+): Promise<EmailThreadRecord> {
+  const response = await fetch(`/api/emails/threads/${encodeURIComponent(threadId)}`, {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to fetch email thread");
+  }
+
+  return payload?.thread as EmailThreadRecord;
+}
+
+export async function fetchSnoozePresets(accessToken?: string): Promise<SnoozePresetOption[]> {
+  const response = await fetch("/api/emails/snooze-presets", {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to load snooze presets");
+  }
+
+  return Array.isArray(payload?.presets) ? (payload.presets as SnoozePresetOption[]) : [];
+}
+
+export async function updateEmailThreadTriage(
+  threadId: string,
+  options: UpdateEmailTriageOptions
+): Promise<EmailThreadRecord> {
+  const { accessToken, triageState, snoozedUntil, isRead } = options;
+
+  const response = await fetch(`/api/emails/threads/${encodeURIComponent(threadId)}`, {
+    method: "PATCH",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ triageState, snoozedUntil, isRead }),
+  });
+
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to update thread triage");
+  }
+
+  return payload?.thread as EmailThreadRecord;
+}
+
 export interface ProjectListItem {
   project: ProjectRecord;
   role?: string;
@@ -220,6 +365,7 @@ export interface TimelineExplorerResponse {
   items: TimelineItemRecord[];
   dependencies: TimelineDependencyRecord[];
   lanes: TimelineLaneDefinition[];
+  artistConflicts: ArtistTimelineConflict[];
 }
 
 export interface FetchTimelineExplorerOptions {
@@ -267,6 +413,7 @@ export interface CreateProjectInput {
   labels?: Record<string, unknown>;
   artistId?: string | null;
   templateSlug?: string | null;
+  templateId?: string | null;
   priorityProfile?: Record<string, unknown> | null;
 }
 
@@ -297,6 +444,7 @@ export interface ProjectHubStats {
   linkedEmailCount: number;
   assetCount: number;
   conflictCount: number;
+  crossProjectConflictCount: number;
 }
 
 export interface ProjectHubResponse {
@@ -314,6 +462,7 @@ export interface ProjectHubResponse {
   approvals: ApprovalRecord[];
   stats: ProjectHubStats;
   topActions: ProjectTopAction[];
+  artistConflicts: ArtistTimelineConflict[];
 }
 
 export async function fetchProjectHub(
@@ -334,6 +483,94 @@ export async function fetchProjectHub(
   return payload as ProjectHubResponse;
 }
 
+export interface ProjectActivityPage {
+  entries: ActivityFeedEntry[];
+  nextCursor: string | null;
+}
+
+export async function fetchProjectActivity(
+  projectId: string,
+  options: { cursor?: string | null; limit?: number } = {},
+  accessToken?: string
+): Promise<ProjectActivityPage> {
+  const params = new URLSearchParams();
+  if (options.cursor) params.set("cursor", options.cursor);
+  if (options.limit) params.set("limit", String(options.limit));
+  const query = params.toString();
+
+  const response = await fetch(`/api/projects/${projectId}/activity${query ? `?${query}` : ""}`, {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to load project activity");
+  }
+
+  return {
+    entries: Array.isArray(payload?.entries) ? payload.entries : [],
+    nextCursor: typeof payload?.nextCursor === "string" ? payload.nextCursor : null,
+  };
+}
+
+export interface ParsedTimelineImportFile extends TimelineImportTable {
+  mapping: TimelineImportMapping;
+}
+
+export async function parseTimelineImportFile(
+  projectId: string,
+  file: File,
+  accessToken?: string
+): Promise<ParsedTimelineImportFile> {
+  const formData = new FormData();
+  formData.append("file", file);
+
+  const response = await fetch(`/api/projects/${projectId}/timeline/import/parse`, {
+    method: "POST",
+    headers: buildHeaders(accessToken),
+    body: formData,
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to read import file");
+  }
+
+  return payload as ParsedTimelineImportFile;
+}
+
+export interface TimelineImportSubmission {
+  rows: TimelineImportRow[];
+  mapping: TimelineImportMapping;
+  options?: TimelineImportOptions;
+  commit?: boolean;
+  rowIndexes?: number[];
+}
+
+export async function submitTimelineImport(
+  projectId: string,
+  submission: TimelineImportSubmission,
+  accessToken?: string
+): Promise<{ preview: TimelineImportPreview; result?: { created: number; updated: number } }> {
+  const response = await fetch(`/api/projects/${projectId}/timeline/import`, {
+    method: "POST",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(submission),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || (submission.commit ? "Failed to import timeline items" : "Failed to preview import"));
+  }
+
+  return payload as { preview: TimelineImportPreview; result?: { created: number; updated: number } };
+}
+
 export async function fetchTimelineExplorer(options: FetchTimelineExplorerOptions): Promise<TimelineExplorerResponse> {
   const { accessToken, projectId, entryTypes, rangeStart, rangeEnd, signal } = options;
 
@@ -374,8 +611,11 @@ export async function fetchTimelineExplorer(options: FetchTimelineExplorerOption
     ? (payload.dependencies as TimelineDependencyRecord[])
     : [];
   const lanes = Array.isArray(payload?.lanes) ? (payload.lanes as TimelineLaneDefinition[]) : [];
+  const artistConflicts = Array.isArray(payload?.artistConflicts)
+    ? (payload.artistConflicts as ArtistTimelineConflict[])
+    : [];
 
-  return { project, items, dependencies, lanes };
+  return { project, items, dependencies, lanes, artistConflicts };
 }
 
 export async function searchProfiles(options: {
@@ -540,6 +780,7 @@ export interface GmailAccountStatus {
     scopes: string[];
     expiresAt: string;
   };
+  accounts?: GmailAccountSummary[];
 }
 
 export async function fetchGmailAccountStatus(accessToken?: string): Promise<GmailAccountStatus> {
@@ -561,8 +802,39 @@ export async function fetchGmailAccountStatus(accessToken?: string): Promise<Gma
   return payload as GmailAccountStatus;
 }
 
-export async function disconnectGmailAccount(accessToken?: string): Promise<void> {
+export async function fetchGmailAccounts(accessToken?: string): Promise<GmailAccountSummary[]> {
+  const status = await fetchGmailAccountStatus(accessToken);
+  return status.accounts ?? [];
+}
+
+export async function updateGmailAccount(
+  accountId: string,
+  updates: { displayName?: string | null; defaultProjectId?: string | null },
+  accessToken?: string
+): Promise<GmailAccountSummary | null> {
   const response = await fetch("/api/integrations/gmail/account", {
+    method: "PATCH",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ accountId, ...updates }),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to update Gmail account");
+  }
+
+  return (payload?.account as GmailAccountSummary | null) ?? null;
+}
+
+/** Disconnects one mailbox, or the first connected one when no id is given. */
+export async function disconnectGmailAccount(accessToken?: string, accountId?: string): Promise<void> {
+  const endpoint = accountId
+    ? `/api/integrations/gmail/account?accountId=${encodeURIComponent(accountId)}`
+    : "/api/integrations/gmail/account";
+  const response = await fetch(endpoint, {
     method: "DELETE",
     headers: buildHeaders(accessToken),
   });
@@ -594,6 +866,127 @@ export async function startGmailOAuth(
   return payload as { authUrl: string; state: string };
 }
 
+export interface SlackIntegrationSettings {
+  enabled: boolean;
+  includeApprovals: boolean;
+  slackUserId: string | null;
+  hasWebhook: boolean;
+  webhookHint: string | null;
+}
+
+export async function fetchSlackSettings(accessToken?: string): Promise<SlackIntegrationSettings> {
+  const response = await fetch("/api/integrations/slack", {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to load Slack settings");
+  }
+
+  return payload.settings as SlackIntegrationSettings;
+}
+
+export async function updateSlackSettings(
+  input: { enabled?: boolean; webhookUrl?: string; includeApprovals?: boolean; slackUserId?: string },
+  accessToken?: string
+): Promise<SlackIntegrationSettings> {
+  const response = await fetch("/api/integrations/slack", {
+    method: "PUT",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(input),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to update Slack settings");
+  }
+
+  return payload.settings as SlackIntegrationSettings;
+}
+
+export async function disconnectSlack(accessToken?: string): Promise<SlackIntegrationSettings> {
+  const response = await fetch("/api/integrations/slack", {
+    method: "DELETE",
+    headers: buildHeaders(accessToken),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to disconnect Slack");
+  }
+
+  return payload.settings as SlackIntegrationSettings;
+}
+
+export interface CalendarFeed extends CalendarFeedRecord {
+  url: string | null;
+}
+
+export interface CalendarFeedInput {
+  scope: CalendarFeedScope;
+  projectId?: string | null;
+  artistId?: string | null;
+  name?: string | null;
+  lanes?: string[];
+  statuses?: TimelineItemStatus[];
+}
+
+export async function fetchCalendarFeeds(accessToken?: string): Promise<{ feeds: CalendarFeed[]; configured: boolean }> {
+  const response = await fetch("/api/calendar/feeds", {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to load calendar feeds");
+  }
+
+  return {
+    feeds: Array.isArray(payload?.feeds) ? (payload.feeds as CalendarFeed[]) : [],
+    configured: Boolean(payload?.configured),
+  };
+}
+
+export async function createCalendarFeed(input: CalendarFeedInput, accessToken?: string): Promise<CalendarFeed> {
+  const response = await fetch("/api/calendar/feeds", {
+    method: "POST",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(input),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to create calendar feed");
+  }
+
+  return payload.feed as CalendarFeed;
+}
+
+export async function revokeCalendarFeed(feedId: string, accessToken?: string): Promise<CalendarFeed> {
+  const response = await fetch(`/api/calendar/feeds/${feedId}`, {
+    method: "DELETE",
+    headers: buildHeaders(accessToken),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to revoke calendar feed");
+  }
+
+  return payload.feed as CalendarFeed;
+}
+
 export interface CalendarAccountStatus {
   connected: boolean;
   account?: {
@@ -1101,51 +1494,139 @@ export async function markAssetCanonical(
     body: JSON.stringify(payload),
   });
 
-  const body = await response.json();
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body?.error || "Failed to update canonical status");
+  }
+
+  return body.asset as AssetRecord;
+}
+
+export async function updateProject(
+  projectId: string,
+  updates: Partial<CreateProjectInput>,
+  accessToken?: string
+): Promise<ProjectRecord> {
+  const response = await fetch(`/api/projects/${projectId}`, {
+    method: "PATCH",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(updates),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to update project");
+  }
+
+  return payload.project as ProjectRecord;
+}
+
+export async function fetchProjectTemplates(accessToken?: string): Promise<
+  Array<{ template: ProjectTemplateRecord; items: ProjectTemplateItemRecord[] }>
+> {
+  const response = await fetch("/api/project-templates", {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to fetch project templates");
+  }
+
+  return Array.isArray(payload?.templates) ? payload.templates : [];
+}
+
+export interface ProjectTemplateDetail {
+  template: ProjectTemplateRecord;
+  items: ProjectTemplateItemRecord[];
+  versions: ProjectTemplateVersionRecord[];
+}
+
+export interface ProjectTemplateUpdateInput {
+  name?: string;
+  description?: string | null;
+  items?: Array<Pick<ProjectTemplateItemRecord, "itemType" | "title" | "lane" | "offsetDays" | "durationDays" | "metadata">>;
+  restoreVersion?: number;
+}
+
+export async function saveProjectAsTemplate(
+  projectId: string,
+  input: { name: string; description?: string | null },
+  accessToken?: string
+): Promise<{ template: ProjectTemplateRecord; items: ProjectTemplateItemRecord[] }> {
+  const response = await fetch("/api/project-templates", {
+    method: "POST",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ projectId, ...input }),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to save template");
+  }
+
+  return payload;
+}
+
+export async function fetchProjectTemplate(templateId: string, accessToken?: string): Promise<ProjectTemplateDetail> {
+  const response = await fetch(`/api/project-templates/${templateId}`, {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
   if (!response.ok) {
-    throw new Error(body?.error || "Failed to update canonical status");
+    throw new Error(payload?.error || "Failed to fetch project template");
   }
 
-  return body.asset as AssetRecord;
+  return {
+    template: payload.template as ProjectTemplateRecord,
+    items: Array.isArray(payload?.items) ? payload.items : [],
+    versions: Array.isArray(payload?.versions) ? payload.versions : [],
+  };
 }
 
-export async function updateProject(
-  projectId: string,
-  updates: Partial<CreateProjectInput>,
+export async function updateProjectTemplate(
+  templateId: string,
+  input: ProjectTemplateUpdateInput,
   accessToken?: string
-): Promise<ProjectRecord> {
-  const response = await fetch(`/api/projects/${projectId}`, {
+): Promise<{ template: ProjectTemplateRecord; items: ProjectTemplateItemRecord[] }> {
+  const response = await fetch(`/api/project-templates/${templateId}`, {
     method: "PATCH",
     headers: {
       ...buildHeaders(accessToken),
       "Content-Type": "application/json",
     },
-    body: JSON.stringify(updates),
+    body: JSON.stringify(input),
   });
 
   const payload = await response.json();
   if (!response.ok) {
-    throw new Error(payload?.error || "Failed to update project");
+    throw new Error(payload?.error || "Failed to update project template");
   }
 
-  return payload.project as ProjectRecord;
+  return payload;
 }
 
-export async function fetchProjectTemplates(accessToken?: string): Promise<
-  Array<{ template: ProjectTemplateRecord; items: ProjectTemplateItemRecord[] }>
-> {
-  const response = await fetch("/api/project-templates", {
-    method: "GET",
+export async function deleteProjectTemplate(templateId: string, accessToken?: string): Promise<void> {
+  const response = await fetch(`/api/project-templates/${templateId}`, {
+    method: "DELETE",
     headers: buildHeaders(accessToken),
-    cache: "no-store",
   });
 
-  const payload = await response.json();
+  const payload = await response.json().catch(() => null);
   if (!response.ok) {
-    throw new Error(payload?.error || "Failed to fetch project templates");
+    throw new Error(payload?.error || "Failed to delete project template");
   }
-
-  return Array.isArray(payload?.templates) ? payload.templates : [];
 }
 
 export async function fetchProjectSuggestionsForEmail(
@@ -1268,6 +1749,42 @@ export async function deleteTimelineItem(
   }
 }
 
+export async function fetchTimelineItemHistory(
+  projectId: string,
+  itemId: string,
+  accessToken?: string
+): Promise<Array<RecordRevision<TimelineItemRecord>>> {
+  const response = await fetch(`/api/projects/${projectId}/timeline/${itemId}/history`, {
+    headers: buildHeaders(accessToken),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body?.error || "Failed to load item history");
+  }
+
+  return (body.revisions ?? []) as Array<RecordRevision<TimelineItemRecord>>;
+}
+
+export async function restoreTimelineItemRevision(
+  projectId: string,
+  itemId: string,
+  revisionId: string,
+  accessToken?: string
+): Promise<TimelineItemRecord> {
+  const response = await fetch(`/api/projects/${projectId}/timeline/${itemId}/history/${revisionId}/restore`, {
+    method: "POST",
+    headers: buildHeaders(accessToken),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body?.error || "Failed to restore timeline item");
+  }
+
+  return body.item as TimelineItemRecord;
+}
+
 export interface FetchCalendarEventsOptions {
   assigned?: "assigned" | "unassigned" | "all";
   sourceId?: string;
@@ -1509,6 +2026,107 @@ export async function respondToApproval(
   return payload.approval as ApprovalRecord;
 }
 
+export async function updateReplyDraftApproval(
+  approvalId: string,
+  edit: EmailReplyDraftEdit,
+  accessToken?: string
+): Promise<ApprovalRecord> {
+  const response = await fetch("/api/approvals", {
+    method: "PATCH",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ approvalId, ...edit }),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to save reply draft");
+  }
+
+  return payload.approval as ApprovalRecord;
+}
+
+export async function requestEmailReplyDraft(
+  emailId: string,
+  accessToken?: string,
+  options: { projectId?: string | null } = {}
+): Promise<ApprovalRecord> {
+  const response = await fetch(`/api/emails/${encodeURIComponent(emailId)}/reply-draft`, {
+    method: "POST",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ projectId: options.projectId ?? null }),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to draft reply");
+  }
+
+  return payload.approval as ApprovalRecord;
+}
+
+export async function fetchBookingOffer(emailId: string, accessToken?: string): Promise<BookingOfferRecord | null> {
+  const response = await fetch(`/api/emails/${encodeURIComponent(emailId)}/booking-offer`, {
+    headers: buildHeaders(accessToken),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to load booking offer");
+  }
+
+  return (payload.offer as BookingOfferRecord | null) ?? null;
+}
+
+export interface UpdateBookingOfferInput {
+  fields?: Partial<{ [K in keyof BookingOfferFields]: BookingOfferFields[K]["value"] }>;
+  projectId?: string | null;
+}
+
+export async function updateBookingOffer(
+  emailId: string,
+  input: UpdateBookingOfferInput,
+  accessToken?: string
+): Promise<BookingOfferRecord> {
+  const response = await fetch(`/api/emails/${encodeURIComponent(emailId)}/booking-offer`, {
+    method: "PATCH",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(input),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to update booking offer");
+  }
+
+  return payload.offer as BookingOfferRecord;
+}
+
+export async function requestBookingHold(
+  emailId: string,
+  accessToken?: string
+): Promise<{ approval: ApprovalRecord; offer: BookingOfferRecord }> {
+  const response = await fetch(`/api/emails/${encodeURIComponent(emailId)}/booking-offer/hold`, {
+    method: "POST",
+    headers: buildHeaders(accessToken),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to request hold");
+  }
+
+  return { approval: payload.approval as ApprovalRecord, offer: payload.offer as BookingOfferRecord };
+}
+
 export interface CreateProjectTaskInput {
   title: string;
   description?: string | null;
@@ -1582,6 +2200,42 @@ export async function deleteProjectTask(
   }
 }
 
+export async function fetchProjectTaskHistory(
+  projectId: string,
+  taskId: string,
+  accessToken?: string
+): Promise<Array<RecordRevision<ProjectTaskRecord>>> {
+  const response = await fetch(`/api/projects/${projectId}/tasks/${taskId}/history`, {
+    headers: buildHeaders(accessToken),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body?.error || "Failed to load task history");
+  }
+
+  return (body.revisions ?? []) as Array<RecordRevision<ProjectTaskRecord>>;
+}
+
+export async function restoreProjectTaskRevision(
+  projectId: string,
+  taskId: string,
+  revisionId: string,
+  accessToken?: string
+): Promise<ProjectTaskRecord> {
+  const response = await fetch(`/api/projects/${projectId}/tasks/${taskId}/history/${revisionId}/restore`, {
+    method: "POST",
+    headers: buildHeaders(accessToken),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body?.error || "Failed to restore task");
+  }
+
+  return body.task as ProjectTaskRecord;
+}
+
 export interface LinkEmailToProjectOptions {
   laneId?: string | null;
   note?: string | null;
@@ -1629,6 +2283,37 @@ export async function linkEmailToProject(
   };
 }
 
+export async function linkEmailThreadToProject(
+  projectId: string,
+  threadId: string,
+  accessToken?: string,
+  options: Pick<LinkEmailToProjectOptions, "note" | "confidenceLevel"> = {}
+): Promise<{ links: ProjectEmailLinkRecord[]; alreadyLinked: boolean }> {
+  const response = await fetch(`/api/emails/threads/${encodeURIComponent(threadId)}/link-project`, {
+    method: "POST",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      projectId,
+      note: options.note ?? null,
+      confidenceLevel: options.confidenceLevel ?? null,
+    }),
+  });
+
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to attach thread to project");
+  }
+
+  return {
+    links: Array.isArray(payload.links) ? (payload.links as ProjectEmailLinkRecord[]) : [],
+    alreadyLinked: Boolean(payload.alreadyLinked),
+  };
+}
+
 export async function unlinkEmailFromProject(
   projectId: string,
   linkId: string,
@@ -1688,3 +2373,123 @@ export async function fetchDigestHistory(options: { accessToken?: string } = {})
 
   return Array.isArray(payload?.digests) ? (payload.digests as DigestRecord[]) : [];
 }
+
+export interface FetchContactsOptions {
+  accessToken?: string;
+  q?: string;
+  role?: ContactRole | null;
+  organisationId?: string | null;
+  page?: number;
+  perPage?: number;
+}
+
+export interface FetchContactsResponse {
+  contacts: ContactRecord[];
+  pagination: EmailPagination;
+}
+
+export async function fetchContacts(options: FetchContactsOptions = {}): Promise<FetchContactsResponse> {
+  const { accessToken, q, role, organisationId, page, perPage } = options;
+  const params = new URLSearchParams();
+  if (q?.trim()) params.set("q", q.trim());
+  if (role) params.set("role", role);
+  if (organisationId) params.set("organisationId", organisationId);
+  if (page) params.set("page", String(page));
+  if (perPage) params.set("perPage", String(perPage));
+
+  const query = params.toString();
+  const response = await fetch(`/api/contacts${query ? `?${query}` : ""}`, {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to load contacts");
+  }
+
+  return {
+    contacts: Array.isArray(payload?.contacts) ? (payload.contacts as ContactRecord[]) : [],
+    pagination: payload?.pagination as EmailPagination,
+  };
+}
+
+export async function fetchContact(contactId: string, accessToken?: string): Promise<ContactDetailRecord> {
+  const response = await fetch(`/api/contacts/${encodeURIComponent(contactId)}`, {
+    method: "GET",
+    headers: buildHeaders(accessToken),
+    cache: "no-store",
+  });
+
+  const payload = await response.json();
+
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to load contact");
+  }
+
+  return payload.contact as ContactDetailRecord;
+}
+
+export interface ContactInput {
+  email?: string;
+  name?: string | null;
+  role?: ContactRole | null;
+  phone?: string | null;
+  company?: string | null;
+  reliabilityNotes?: string | null;
+  organisationId?: string | null;
+}
+
+export async function createContact(input: ContactInput, accessToken?: string): Promise<ContactRecord> {
+  const response = await fetch("/api/contacts", {
+    method: "POST",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(input),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to create contact");
+  }
+
+  return payload.contact as ContactRecord;
+}
+
+export async function updateContact(
+  contactId: string,
+  input: Omit<ContactInput, "email">,
+  accessToken?: string
+): Promise<ContactRecord> {
+  const response = await fetch(`/api/contacts/${encodeURIComponent(contactId)}`, {
+    method: "PATCH",
+    headers: {
+      ...buildHeaders(accessToken),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(input),
+  });
+
+  const payload = await response.json();
+  if (!response.ok) {
+    throw new Error(payload?.error || "Failed to update contact");
+  }
+
+  return payload.contact as ContactRecord;
+}
+
+export async function deleteContact(contactId: string, accessToken?: string): Promise<void> {
+  const response = await fetch(`/api/contacts/${encodeURIComponent(contactId)}`, {
+    method: "DELETE",
+    headers: buildHeaders(accessToken),
+  });
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    throw new Error(payload?.error || "Failed to delete contact");
+  }
+}
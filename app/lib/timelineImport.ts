@@ -0,0 +1,188 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  MAX_TIMELINE_IMPORT_ROWS,
+  buildTimelineImportCandidates,
+  parseCsv,
+  parseIcsEvents,
+  planTimelineImport,
+  tabulateImportRows,
+  type TimelineImportMapping,
+  type TimelineImportOptions,
+  type TimelineImportPreview,
+  type TimelineImportRow,
+  type TimelineImportTable,
+} from "@kazador/shared";
+import { mapTimelineDependencyRow, mapTimelineItemRow } from "./projectMappers";
+import { loadRevisionSnapshots, recordWriteRevisions } from "./recordRevisions";
+import { readXlsxRows } from "./xlsxReader";
+
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+
+export interface TimelineImportRequest {
+  rows: TimelineImportRow[];
+  mapping: TimelineImportMapping;
+  options?: TimelineImportOptions;
+}
+
+/** Detects the format from the file name, then from the content. */
+export function readTimelineImportFile(fileName: string, buffer: Buffer): TimelineImportTable {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  const isZip = buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+
+  if (extension === "xlsx" || isZip) {
+    // One extra row for the header.
+    return tabulateImportRows(readXlsxRows(buffer, { maxRows: MAX_TIMELINE_IMPORT_ROWS + 1 }), "xlsx");
+  }
+
+  const text = buffer.toString("utf8");
+  if (extension === "ics" || /^\s*BEGIN:VCALENDAR/.test(text)) {
+    return parseIcsEvents(text);
+  }
+  return tabulateImportRows(parseCsv(text), "csv");
+}
+
+export function parseTimelineImportRequest(body: any): { ok: true; value: TimelineImportRequest } | { ok: false; error: string } {
+  if (!Array.isArray(body?.rows)) {
+    return { ok: false, error: "rows must be an array" };
+  }
+  if (body.rows.length > MAX_TIMELINE_IMPORT_ROWS) {
+    return { ok: false, error: `At most ${MAX_TIMELINE_IMPORT_ROWS} rows can be imported at once` };
+  }
+  if (!body?.mapping || typeof body.mapping !== "object" || typeof body.mapping.startDate !== "string") {
+    return { ok: false, error: "A date column must be mapped" };
+  }
+
+  const rows = (body.rows as unknown[]).map((row) => {
+    const clean: TimelineImportRow = {};
+    if (row && typeof row === "object") {
+      for (const [key, value] of Object.entries(row as Record<string, unknown>)) {
+        clean[key] = value == null ? "" : String(value);
+      }
+    }
+    return clean;
+  });
+
+  return {
+    ok: true,
+    value: {
+      rows,
+      mapping: body.mapping as TimelineImportMapping,
+      options: body.options && typeof body.options === "object" ? (body.options as TimelineImportOptions) : {},
+    },
+  };
+}
+
+/**
+ * Builds the import plan against the project's current timeline. The plan is
+ * always recomputed on the server, including at commit time, so a stale or
+ * edited preview cannot write items the user never saw matched.
+ */
+export async function previewTimelineImport(
+  supabase: SupabaseClient,
+  projectId: string,
+  request: TimelineImportRequest
+): Promise<TimelineImportPreview> {
+  const [{ data: itemRows, error: itemError }, { data: dependencyRows, error: dependencyError }] = await Promise.all([
+    supabase.from("timeline_entries").select("*").eq("project_id", projectId),
+    supabase.from("timeline_dependencies").select("*").eq("project_id", projectId),
+  ]);
+
+  if (itemError) throw itemError;
+  if (dependencyError) throw dependencyError;
+
+  const candidates = buildTimelineImportCandidates(request.rows, request.mapping, projectId, request.options);
+  return planTimelineImport(candidates, (itemRows ?? []).map(mapTimelineItemRow), {
+    dependencies: (dependencyRows ?? []).map(mapTimelineDependencyRow),
+  });
+}
+
+/**
+ * Writes the create and update rows of a plan. Updates merge labels and
+ * links so fields the sheet does not carry (notes added in Kazador, calendar
+ * links) survive a re-import.
+ */
+export async function applyTimelineImport(
+  supabase: SupabaseClient,
+  projectId: string,
+  userId: string,
+  preview: TimelineImportPreview,
+  rowIndexes?: number[] | null
+): Promise<{ created: number; updated: number }> {
+  const selected = rowIndexes ? new Set(rowIndexes) : null;
+  const rows = preview.rows.filter(
+    (row) => (row.action === "create" || row.action === "update") && row.item && (!selected || selected.has(row.rowIndex))
+  );
+
+  const creates = rows.filter((row) => row.action === "create");
+  const updates = rows.filter((row) => row.action === "update");
+  const updatedIds = updates.map((row) => row.matchedItemId as string);
+  const before = await loadRevisionSnapshots(supabase, "timeline_item", updatedIds);
+  const createdIds: string[] = [];
+
+  if (creates.length > 0) {
+    const { data: createdRows, error } = await supabase.from("project_items").insert(
+      creates.map((row) => {
+        const item = row.item!;
+        return {
+          project_id: projectId,
+          type: item.type,
+          kind: item.kind,
+          title: item.title,
+          description: item.description,
+          start_at: item.startsAt,
+          end_at: item.endsAt,
+          due_at: null,
+          tz: item.timezone,
+          status: item.status,
+          priority_components: {},
+          labels: item.labels,
+          links: item.links,
+          created_by: userId,
+        };
+      })
+    ).select("id");
+    if (error) throw error;
+    createdIds.push(...(createdRows ?? []).map((row: any) => row.id as string));
+  }
+
+  if (updates.length > 0) {
+    const { data: existingRows, error: existingError } = await supabase
+      .from("project_items")
+      .select("id, labels, links, description")
+      .eq("project_id", projectId)
+      .in("id", updatedIds);
+    if (existingError) throw existingError;
+
+    const existingById = new Map((existingRows ?? []).map((row: any) => [row.id as string, row]));
+    for (const row of updates) {
+      const item = row.item!;
+      const existing = existingById.get(row.matchedItemId as string);
+      const { error } = await supabase
+        .from("project_items")
+        .update({
+          type: item.type,
+          title: item.title,
+          description: item.description ?? existing?.description ?? null,
+          start_at: item.startsAt,
+          end_at: item.endsAt,
+          tz: item.timezone,
+          status: item.status,
+          labels: { ...(existing?.labels ?? {}), ...item.labels },
+          links: { ...(existing?.links ?? {}), ...item.links },
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", row.matchedItemId as string)
+        .eq("project_id", projectId);
+      if (error) throw error;
+    }
+  }
+
+  await recordWriteRevisions(supabase, {
+    entity: "timeline_item",
+    before,
+    recordIds: [...createdIds, ...updatedIds],
+    userId,
+  });
+
+  return { created: creates.length, updated: updates.length };
+}
@@ -0,0 +1,195 @@
+import { inflateRawSync } from "node:zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/** Decompressed size allowed per workbook part, so a small zip bomb cannot exhaust memory. */
+const MAX_ENTRY_BYTES = 32 * 1024 * 1024;
+/** Column XFD, the last one Excel supports. */
+const MAX_COLUMN_INDEX = 16383;
+const DEFAULT_MAX_ROWS = 10000;
+
+export interface ReadXlsxOptions {
+  /** Stops after this many non-empty rows, header included. */
+  maxRows?: number;
+}
+
+function assertInBounds(buffer: Buffer, offset: number, length: number) {
+  if (offset < 0 || offset + length > buffer.length) {
+    throw new Error("Corrupt XLSX file");
+  }
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(buffer: Buffer): Map<string, ZipEntry> {
+  let eocd = -1;
+  // The end record sits in the last 64KB (its comment is at most 65535 bytes).
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65557); offset -= 1) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a valid XLSX file");
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let index = 0; index < entryCount; index += 1) {
+    assertInBounds(buffer, offset, 46);
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Corrupt XLSX file");
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      name,
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readZipEntry(buffer: Buffer, entry: ZipEntry): string {
+  const offset = entry.localHeaderOffset;
+  assertInBounds(buffer, offset, 30);
+  if (buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+    throw new Error("Corrupt XLSX file");
+  }
+  const start = offset + 30 + buffer.readUInt16LE(offset + 26) + buffer.readUInt16LE(offset + 28);
+  assertInBounds(buffer, start, entry.compressedSize);
+  const data = buffer.subarray(start, start + entry.compressedSize);
+  if (entry.method === 0) {
+    if (data.length > MAX_ENTRY_BYTES) throw new Error("The workbook is too large to import");
+    return data.toString("utf8");
+  }
+  if (entry.method === 8) {
+    try {
+      return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES }).toString("utf8");
+    } catch (err: any) {
+      if (err?.code === "ERR_BUFFER_TOO_LARGE") throw new Error("The workbook is too large to import");
+      throw new Error("Corrupt XLSX file");
+    }
+  }
+  throw new Error(`Unsupported XLSX compression method ${entry.method}`);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+function readTextRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => decodeXml(match[1])).join("");
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, "");
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+    if (index - 1 > MAX_COLUMN_INDEX) {
+      throw new Error(`Cell ${reference} is beyond column XFD`);
+    }
+  }
+  return index - 1;
+}
+
+function resolveFirstSheetPath(entries: Map<string, ZipEntry>, buffer: Buffer): string {
+  const workbook = entries.get("xl/workbook.xml");
+  const relationships = entries.get("xl/_rels/workbook.xml.rels");
+  if (workbook && relationships) {
+    const sheetId = readZipEntry(buffer, workbook).match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+    const rels = readZipEntry(buffer, relationships);
+    const target = sheetId
+      ? Array.from(rels.matchAll(/<Relationship\b[^>]*>/g))
+          .map((match) => match[0])
+          .find((tag) => tag.includes(`Id="${sheetId}"`))
+          ?.match(/Target="([^"]+)"/)?.[1]
+      : undefined;
+    if (target) {
+      const path = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+      if (entries.has(path)) return path;
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+/**
+ * Reads the first worksheet of an XLSX workbook into a row matrix. Only
+ * cell values are read: shared and inline strings come back as text and
+ * numbers (including date serials) as their raw value. Empty rows are
+ * skipped and reading stops once `maxRows` rows have been collected.
+ */
+export function readXlsxRows(buffer: Buffer, options: ReadXlsxOptions = {}): string[][] {
+  const maxRows = options.maxRows ?? DEFAULT_MAX_ROWS;
+  const entries = readZipEntries(buffer);
+  const sheetEntry = entries.get(resolveFirstSheetPath(entries, buffer));
+  if (!sheetEntry) {
+    throw new Error("The workbook has no worksheets");
+  }
+
+  const sharedStringsEntry = entries.get("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(readZipEntry(buffer, sharedStringsEntry).matchAll(/<si>([\s\S]*?)<\/si>/g), (match) => readTextRuns(match[1]))
+    : [];
+
+  const rows: string[][] = [];
+  const sheet = readZipEntry(buffer, sheetEntry);
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    if (rows.length >= maxRows) break;
+    const cells: string[] = [];
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? "";
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = "";
+      if (type === "s" && raw != null) {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        value = readTextRuns(body);
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : "FALSE";
+      } else if (raw != null) {
+        value = decodeXml(raw);
+      }
+
+      const index = reference ? columnIndex(reference) : cells.length;
+      if (index > MAX_COLUMN_INDEX) {
+        throw new Error("The worksheet has more columns than Excel allows");
+      }
+      while (cells.length < index) cells.push("");
+      cells[index] = value;
+    }
+    if (cells.some((cell) => cell.trim().length > 0)) {
+      rows.push(cells);
+    }
+  }
+
+  return rows;
+}
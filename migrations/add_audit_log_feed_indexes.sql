@@ -0,0 +1,8 @@
+-- Indexes for reading audit logs back as activity feeds
+-- Project feeds and the admin audit view page newest first on (created_at, id) and filter by user
+
+CREATE INDEX IF NOT EXISTS audit_logs_created_id_idx
+  ON public.audit_logs (created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS audit_logs_user_created_idx
+  ON public.audit_logs (user_id, created_at DESC);
@@ -0,0 +1,96 @@
+-- Structured booking offers
+-- BOOKING/Offer and BOOKING/Hold_or_Availability emails get a typed offer record extracted at ingest: promoter,
+-- venue, city, territory, show dates, guarantee, currency, deal type, radius clause and expiry. `fields` holds one
+-- { value, confidence } entry per field so the UI can flag low-confidence extractions; edits set confidence to 1.
+-- An offer can seed a LIVE_HOLD timeline item through a timeline_item_from_email approval.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.booking_offers (
+    id uuid DEFAULT public.gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    email_id text NOT NULL UNIQUE REFERENCES public.emails(id) ON DELETE CASCADE,
+    project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+    kind text DEFAULT 'offer' NOT NULL CHECK (kind IN ('offer', 'hold')),
+    status text DEFAULT 'extracted' NOT NULL CHECK (status IN ('extracted', 'edited', 'hold_requested', 'hold_created')),
+    fields jsonb DEFAULT '{}'::jsonb NOT NULL,
+    extracted_by text,
+    approval_id uuid REFERENCES public.approvals(id) ON DELETE SET NULL,
+    timeline_item_id uuid REFERENCES public.project_items(id) ON DELETE SET NULL,
+    edited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    edited_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.booking_offers IS 'Typed booking offers extracted from BOOKING emails, with per-field confidence';
+
+CREATE INDEX IF NOT EXISTS booking_offers_user_created_idx
+    ON public.booking_offers (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS booking_offers_project_idx
+    ON public.booking_offers (project_id)
+    WHERE project_id IS NOT NULL;
+
+ALTER TABLE public.booking_offers ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'booking_offers'
+          AND policyname = 'booking_offers_owner_select'
+    ) THEN
+        EXECUTE 'CREATE POLICY booking_offers_owner_select ON public.booking_offers FOR SELECT USING ((auth.uid() = user_id))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'booking_offers'
+          AND policyname = 'booking_offers_owner_insert'
+    ) THEN
+        EXECUTE 'CREATE POLICY booking_offers_owner_insert ON public.booking_offers FOR INSERT WITH CHECK ((auth.uid() = user_id))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'booking_offers'
+          AND policyname = 'booking_offers_owner_update'
+    ) THEN
+        EXECUTE 'CREATE POLICY booking_offers_owner_update ON public.booking_offers FOR UPDATE USING ((auth.uid() = user_id)) WITH CHECK ((auth.uid() = user_id))';
+    END IF;
+
+    -- Project editors approve or decline hold requests, which moves the offer along
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'booking_offers'
+          AND policyname = 'booking_offers_project_editor_select'
+    ) THEN
+        EXECUTE 'CREATE POLICY booking_offers_project_editor_select ON public.booking_offers FOR SELECT USING (public.is_project_member(project_id, ARRAY[''owner''::public.project_member_role, ''editor''::public.project_member_role]))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'booking_offers'
+          AND policyname = 'booking_offers_project_editor_update'
+    ) THEN
+        EXECUTE 'CREATE POLICY booking_offers_project_editor_update ON public.booking_offers FOR UPDATE USING (public.is_project_member(project_id, ARRAY[''owner''::public.project_member_role, ''editor''::public.project_member_role])) WITH CHECK (public.is_project_member(project_id, ARRAY[''owner''::public.project_member_role, ''editor''::public.project_member_role]))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'booking_offers'
+          AND policyname = 'booking_offers_service_role'
+    ) THEN
+        EXECUTE 'CREATE POLICY booking_offers_service_role ON public.booking_offers FOR ALL USING ((auth.role() = ''service_role''::text)) WITH CHECK ((auth.role() = ''service_role''::text))';
+    END IF;
+END
+$$;
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- iCalendar subscription feeds for a project timeline or a user's cross-project view
+-- Feed URLs carry the feed id signed with CALENDAR_FEED_SECRET; revoking sets revoked_at
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+    id uuid DEFAULT public.gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    scope text NOT NULL,
+    project_id uuid REFERENCES public.projects(id) ON DELETE CASCADE,
+    artist_id uuid,
+    name text NOT NULL,
+    lanes text[] DEFAULT '{}'::text[] NOT NULL,
+    statuses text[] DEFAULT '{}'::text[] NOT NULL,
+    last_accessed_at timestamptz,
+    revoked_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT calendar_feeds_scope_check CHECK (scope IN ('project', 'user')),
+    CONSTRAINT calendar_feeds_project_scope_check CHECK (scope <> 'project' OR project_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS calendar_feeds_user_idx ON public.calendar_feeds (user_id, created_at DESC);
+
+COMMENT ON COLUMN public.calendar_feeds.lanes IS 'Lane filter; empty means every lane';
+COMMENT ON COLUMN public.calendar_feeds.statuses IS 'TimelineItemStatus filter; empty means every status';
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS calendar_feeds_owner_all ON public.calendar_feeds;
+CREATE POLICY calendar_feeds_owner_all ON public.calendar_feeds
+    USING (((auth.role() = 'service_role'::text) OR (auth.uid() = user_id)))
+    WITH CHECK (((auth.role() = 'service_role'::text) OR (auth.uid() = user_id)));
+
+COMMIT;
@@ -0,0 +1,66 @@
+-- Versioned classification prompt configuration
+-- Admin prompt settings used to live in user_preferences.classification_prompt_settings and were never read by the
+-- classifier. Each save now inserts a new row here; exactly one version is active and both the worker and
+-- /api/classify-emails load it. Rolling back re-activates an earlier configuration as a new version.
+-- Classified emails record the version that produced their labels.
+-- Admin routes manage versions through the service role; signed-in users may only read the active row, which
+-- /api/classify-emails loads with their own session.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.classification_prompt_versions (
+    id uuid DEFAULT public.gen_random_uuid() PRIMARY KEY,
+    version integer NOT NULL,
+    settings jsonb DEFAULT '{}'::jsonb NOT NULL,
+    is_active boolean DEFAULT false NOT NULL,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    restored_from_version integer,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT classification_prompt_versions_version_unique UNIQUE (version)
+);
+
+COMMENT ON TABLE public.classification_prompt_versions IS 'Admin-managed classifier prompt settings; the active row drives email classification';
+
+CREATE UNIQUE INDEX IF NOT EXISTS classification_prompt_versions_active_idx
+    ON public.classification_prompt_versions (is_active)
+    WHERE is_active;
+
+-- Carry over the most recently saved per-user settings as the first version
+INSERT INTO public.classification_prompt_versions (version, settings, is_active, created_by)
+SELECT 1, p.classification_prompt_settings, true, p.user_id
+FROM public.user_preferences p
+WHERE p.classification_prompt_settings IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.classification_prompt_versions)
+ORDER BY p.updated_at DESC NULLS LAST
+LIMIT 1;
+
+ALTER TABLE public.classification_prompt_versions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'classification_prompt_versions'
+          AND policyname = 'classification_prompt_versions_service_role'
+    ) THEN
+        EXECUTE 'CREATE POLICY classification_prompt_versions_service_role ON public.classification_prompt_versions FOR ALL USING ((auth.role() = ''service_role''::text)) WITH CHECK ((auth.role() = ''service_role''::text))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'classification_prompt_versions'
+          AND policyname = 'classification_prompt_versions_active_select'
+    ) THEN
+        EXECUTE 'CREATE POLICY classification_prompt_versions_active_select ON public.classification_prompt_versions FOR SELECT TO authenticated USING (is_active)';
+    END IF;
+END
+$$;
+
+ALTER TABLE public.emails
+    ADD COLUMN IF NOT EXISTS classification_prompt_version integer;
+
+COMMENT ON COLUMN public.emails.classification_prompt_version IS 'classification_prompt_versions.version used when the email was labelled by the model';
+
+COMMIT;
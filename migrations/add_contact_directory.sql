@@ -0,0 +1,100 @@
+-- Contact directory: organisations keyed by email domain plus richer contact fields
+-- Contacts and organisations belong to the user whose inbox they came from (one row per user and address or domain)
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.organisations (
+    id uuid DEFAULT public.gen_random_uuid() PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    domain text NOT NULL,
+    name text NOT NULL,
+    role text,
+    notes text,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT organisations_user_domain_key UNIQUE (user_id, domain),
+    CONSTRAINT organisations_role_check CHECK (role IS NULL OR role IN ('promoter', 'agent', 'label', 'press', 'venue'))
+);
+
+ALTER TABLE public.contacts
+ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS organisation_id uuid REFERENCES public.organisations(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS role text,
+ADD COLUMN IF NOT EXISTS phone text,
+ADD COLUMN IF NOT EXISTS company text,
+ADD COLUMN IF NOT EXISTS interaction_counts jsonb DEFAULT '{}'::jsonb NOT NULL,
+ADD COLUMN IF NOT EXISTS reliability_notes text,
+ADD COLUMN IF NOT EXISTS created_at timestamptz DEFAULT now(),
+ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+-- Existing shared rows go to the first user who received mail from the address; ingest recreates the
+-- contact for anyone else on their next message. Rows nobody received mail from stay unowned and hidden.
+UPDATE public.contacts AS c
+SET user_id = (
+    SELECT e.user_id
+    FROM public.emails AS e
+    WHERE lower(e.from_email) = lower(c.email)
+      AND e.user_id IS NOT NULL
+    ORDER BY e.received_at ASC NULLS LAST
+    LIMIT 1
+)
+WHERE c.user_id IS NULL;
+
+ALTER TABLE public.contacts DROP CONSTRAINT IF EXISTS contacts_email_key;
+ALTER TABLE public.contacts DROP CONSTRAINT IF EXISTS contacts_user_email_key;
+ALTER TABLE public.contacts
+ADD CONSTRAINT contacts_user_email_key UNIQUE (user_id, email);
+
+ALTER TABLE public.contacts DROP CONSTRAINT IF EXISTS contacts_role_check;
+ALTER TABLE public.contacts
+ADD CONSTRAINT contacts_role_check CHECK (role IS NULL OR role IN ('promoter', 'agent', 'label', 'press', 'venue'));
+
+CREATE INDEX IF NOT EXISTS contacts_organisation_idx ON public.contacts (organisation_id);
+CREATE INDEX IF NOT EXISTS emails_user_from_email_idx ON public.emails (user_id, from_email, received_at DESC);
+
+COMMENT ON COLUMN public.contacts.user_id IS 'User whose inbox the contact belongs to';
+COMMENT ON COLUMN public.contacts.role IS 'promoter, agent, label, press or venue';
+COMMENT ON COLUMN public.contacts.phone IS 'Phone number parsed from an email signature or entered manually';
+COMMENT ON COLUMN public.contacts.company IS 'Company parsed from an email signature or entered manually';
+COMMENT ON COLUMN public.contacts.interaction_counts IS 'Ingested email counts keyed by top-level category, e.g. {"BOOKING": 3}';
+COMMENT ON COLUMN public.contacts.reliability_notes IS 'Free-form notes on how dependable the contact has been';
+
+ALTER TABLE public.organisations ENABLE ROW LEVEL SECURITY;
+
+-- Contacts used to be readable by anyone; both tables are now owner-only.
+DROP POLICY IF EXISTS organisations_authenticated_all ON public.organisations;
+DROP POLICY IF EXISTS contacts_authenticated_write ON public.contacts;
+DROP POLICY IF EXISTS contacts_anon_read ON public.contacts;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'organisations'
+          AND policyname = 'organisations_owner_all'
+    ) THEN
+        EXECUTE 'CREATE POLICY organisations_owner_all ON public.organisations FOR ALL USING ((auth.uid() = user_id)) WITH CHECK ((auth.uid() = user_id))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'contacts'
+          AND policyname = 'contacts_owner_all'
+    ) THEN
+        EXECUTE 'CREATE POLICY contacts_owner_all ON public.contacts FOR ALL USING ((auth.uid() = user_id)) WITH CHECK ((auth.uid() = user_id))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'organisations'
+          AND policyname = 'organisations_service_role'
+    ) THEN
+        EXECUTE 'CREATE POLICY organisations_service_role ON public.organisations FOR ALL USING ((auth.role() = ''service_role''::text)) WITH CHECK ((auth.role() = ''service_role''::text))';
+    END IF;
+END
+$$;
+
+COMMIT;
@@ -0,0 +1,14 @@
+-- Track delivery attempts for queued digests
+-- The digest delivery job retries failed sends with backoff using these columns
+
+ALTER TABLE public.digests
+ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at timestamp with time zone DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS last_error text DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS digests_delivery_queue_idx
+  ON public.digests (channel, status, next_attempt_at);
+
+COMMENT ON COLUMN public.digests.attempts IS 'Number of delivery attempts made for this digest';
+COMMENT ON COLUMN public.digests.next_attempt_at IS 'Earliest time the delivery job should retry (quiet hours or backoff)';
+COMMENT ON COLUMN public.digests.last_error IS 'Error message from the most recent failed delivery attempt';
@@ -0,0 +1,65 @@
+-- Label correction feedback loop
+-- Every change a user makes to an email's labels or category is stored as a correction event instead of silently
+-- overwriting the classifier's output. The classifier feeds a user's recent corrections back as few-shot examples,
+-- and the admin dashboard reports per-label precision/recall from them.
+-- subject/summary are snapshots so examples survive the email being deleted.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.email_label_corrections (
+    id uuid DEFAULT public.gen_random_uuid() PRIMARY KEY,
+    email_id text REFERENCES public.emails(id) ON DELETE SET NULL,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    original_labels jsonb DEFAULT '[]'::jsonb NOT NULL,
+    corrected_labels jsonb DEFAULT '[]'::jsonb NOT NULL,
+    original_category text,
+    corrected_category text,
+    classification_prompt_version integer,
+    subject text,
+    summary text,
+    from_email text,
+    created_at timestamptz DEFAULT now() NOT NULL
+);
+
+COMMENT ON TABLE public.email_label_corrections IS 'User corrections to classifier labels, used as few-shot examples and for accuracy reporting';
+
+CREATE INDEX IF NOT EXISTS email_label_corrections_user_created_idx
+    ON public.email_label_corrections (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS email_label_corrections_created_idx
+    ON public.email_label_corrections (created_at DESC);
+
+ALTER TABLE public.email_label_corrections ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'email_label_corrections'
+          AND policyname = 'email_label_corrections_owner_select'
+    ) THEN
+        EXECUTE 'CREATE POLICY email_label_corrections_owner_select ON public.email_label_corrections FOR SELECT USING ((auth.uid() = user_id))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'email_label_corrections'
+          AND policyname = 'email_label_corrections_owner_insert'
+    ) THEN
+        EXECUTE 'CREATE POLICY email_label_corrections_owner_insert ON public.email_label_corrections FOR INSERT WITH CHECK ((auth.uid() = user_id))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'email_label_corrections'
+          AND policyname = 'email_label_corrections_service_role'
+    ) THEN
+        EXECUTE 'CREATE POLICY email_label_corrections_service_role ON public.email_label_corrections FOR ALL USING ((auth.role() = ''service_role''::text)) WITH CHECK ((auth.role() = ''service_role''::text))';
+    END IF;
+END
+$$;
+
+COMMIT;
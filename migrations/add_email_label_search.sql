@@ -0,0 +1,22 @@
+-- Expose each email's label paths as a PostgREST computed field
+-- Lets inbox search filter `label:` operators in SQL instead of over a capped candidate window.
+-- A label contributes every `/`-delimited prefix, lower-cased, so `label:booking` matches `BOOKING/Offer`.
+
+CREATE OR REPLACE FUNCTION public.email_label_keys(email public.emails)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(array_to_string((string_to_array(label, '/'))[1:depth], '/'))), '{}')
+  FROM (
+    SELECT email.category
+    UNION ALL
+    SELECT jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(email.labels) = 'array' THEN email.labels ELSE '[]'::jsonb END
+    )
+  ) AS labels(label)
+  CROSS JOIN LATERAL generate_series(1, COALESCE(array_length(string_to_array(label, '/'), 1), 0)) AS depth
+  WHERE label IS NOT NULL AND label <> '';
+$$;
+
+COMMENT ON FUNCTION public.email_label_keys(public.emails) IS 'Lower-cased label paths and their prefixes, used by the inbox search label filter';
@@ -0,0 +1,16 @@
+-- Add Gmail thread identity and RFC 5322 threading headers to emails
+-- Lets the inbox group messages into conversations and timeline items link to a thread
+
+ALTER TABLE public.emails
+ADD COLUMN IF NOT EXISTS thread_id text DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS message_id text DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS in_reply_to text DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS message_references text[] DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS emails_user_thread_idx
+  ON public.emails (user_id, thread_id, received_at);
+
+COMMENT ON COLUMN public.emails.thread_id IS 'Gmail thread id the message belongs to';
+COMMENT ON COLUMN public.emails.message_id IS 'RFC 5322 Message-ID header, including angle brackets';
+COMMENT ON COLUMN public.emails.in_reply_to IS 'RFC 5322 In-Reply-To header';
+COMMENT ON COLUMN public.emails.message_references IS 'Message ids from the RFC 5322 References header, oldest first';
@@ -0,0 +1,44 @@
+-- Multiple Gmail accounts per user
+-- A user can connect several Google accounts (a personal inbox plus shared bookings@ / info@ mailboxes).
+-- Each account gets a display name, an optional default project for new mail, and sync health the
+-- worker updates after every run. Emails record the mailbox they were received in.
+
+BEGIN;
+
+DROP INDEX IF EXISTS public.oauth_accounts_user_provider_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS oauth_accounts_user_provider_email_key
+    ON public.oauth_accounts (user_id, provider, account_email);
+
+ALTER TABLE public.oauth_accounts
+    ADD COLUMN IF NOT EXISTS display_name text,
+    ADD COLUMN IF NOT EXISTS default_project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS gmail_sync_status text DEFAULT 'pending'::text NOT NULL,
+    ADD COLUMN IF NOT EXISTS gmail_last_synced_at timestamptz,
+    ADD COLUMN IF NOT EXISTS gmail_last_error text,
+    ADD COLUMN IF NOT EXISTS gmail_last_message_count integer;
+
+ALTER TABLE public.oauth_accounts
+    DROP CONSTRAINT IF EXISTS oauth_accounts_gmail_sync_status_check;
+ALTER TABLE public.oauth_accounts
+    ADD CONSTRAINT oauth_accounts_gmail_sync_status_check
+    CHECK (gmail_sync_status IN ('pending', 'ok', 'error'));
+
+ALTER TABLE public.emails
+    ADD COLUMN IF NOT EXISTS account_id uuid REFERENCES public.oauth_accounts(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS account_email text;
+
+CREATE INDEX IF NOT EXISTS emails_user_account_received_idx
+    ON public.emails (user_id, account_id, received_at DESC);
+
+-- Existing Gmail mail came from the single account each user had connected
+UPDATE public.emails e
+   SET account_id = oa.id,
+       account_email = oa.account_email
+  FROM public.oauth_accounts oa
+ WHERE e.source = 'gmail'
+   AND e.account_id IS NULL
+   AND oa.user_id = e.user_id
+   AND oa.provider = 'google';
+
+COMMIT;
@@ -0,0 +1,49 @@
+-- Incremental Gmail sync
+-- The worker stores the Gmail historyId per connected account and fetches only the changes since then
+-- through users.history.list. When Google expires the history id the worker falls back to a full resync.
+-- backfill_days records how far back the last backfill reached so GMAIL_BACKFILL_DAYS only runs once.
+-- failed_message_ids holds messages that could not be ingested; the cursor still advances and they are retried next poll.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.gmail_sync_states (
+    id uuid DEFAULT public.gen_random_uuid() PRIMARY KEY,
+    account_id uuid NOT NULL,
+    history_id text,
+    last_polled_at timestamptz,
+    last_full_sync_at timestamptz,
+    backfill_days integer,
+    last_error text,
+    failed_message_ids text[] DEFAULT '{}'::text[] NOT NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT gmail_sync_states_account_unique UNIQUE (account_id),
+    CONSTRAINT gmail_sync_states_account_fkey FOREIGN KEY (account_id) REFERENCES public.oauth_accounts(id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.gmail_sync_states
+    ADD COLUMN IF NOT EXISTS failed_message_ids text[] DEFAULT '{}'::text[] NOT NULL;
+
+COMMENT ON TABLE public.gmail_sync_states IS 'Gmail history cursor per connected Google account, maintained by the worker';
+
+DROP TRIGGER IF EXISTS gmail_sync_states_set_updated_at ON public.gmail_sync_states;
+CREATE TRIGGER gmail_sync_states_set_updated_at
+BEFORE UPDATE ON public.gmail_sync_states
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.gmail_sync_states ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'gmail_sync_states'
+          AND policyname = 'gmail_sync_states_service_role'
+    ) THEN
+        EXECUTE 'CREATE POLICY gmail_sync_states_service_role ON public.gmail_sync_states FOR ALL USING ((auth.role() = ''service_role''::text)) WITH CHECK ((auth.role() = ''service_role''::text))';
+    END IF;
+END
+$$;
+
+COMMIT;
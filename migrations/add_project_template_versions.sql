@@ -0,0 +1,75 @@
+-- User-authored project templates with version history
+-- Templates saved from a project are owned by their author; built-in templates keep created_by NULL.
+-- Every edit bumps project_templates.version and snapshots the previous content in project_template_versions,
+-- and projects record the template and version they were created from.
+
+BEGIN;
+
+ALTER TABLE public.project_templates
+    ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS version integer DEFAULT 1 NOT NULL,
+    ADD COLUMN IF NOT EXISTS source_project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL;
+
+-- Captured items use project item types (LIVE_HOLD, PROMO_SLOT, ...) alongside the legacy seeded types
+ALTER TABLE public.project_template_items
+    ALTER COLUMN item_type TYPE text USING item_type::text;
+
+CREATE INDEX IF NOT EXISTS project_template_items_template_idx
+    ON public.project_template_items (template_id);
+
+CREATE TABLE IF NOT EXISTS public.project_template_versions (
+    id uuid DEFAULT public.gen_random_uuid() PRIMARY KEY,
+    template_id uuid NOT NULL REFERENCES public.project_templates(id) ON DELETE CASCADE,
+    version integer NOT NULL,
+    name text NOT NULL,
+    description text,
+    payload jsonb DEFAULT '{}'::jsonb NOT NULL,
+    items jsonb DEFAULT '[]'::jsonb NOT NULL,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT project_template_versions_unique UNIQUE (template_id, version)
+);
+
+COMMENT ON TABLE public.project_template_versions IS 'Snapshot of a template as it was at each version';
+
+ALTER TABLE public.projects
+    ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES public.project_templates(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS template_version integer;
+
+-- Built-in templates stay visible to everyone; user templates only to their author
+DROP POLICY IF EXISTS project_templates_member_select ON public.project_templates;
+CREATE POLICY project_templates_member_select ON public.project_templates FOR SELECT
+    USING (((created_by IS NULL) OR (auth.uid() = created_by)));
+
+DROP POLICY IF EXISTS project_templates_owner_write ON public.project_templates;
+CREATE POLICY project_templates_owner_write ON public.project_templates
+    USING ((auth.uid() = created_by))
+    WITH CHECK ((auth.uid() = created_by));
+
+DROP POLICY IF EXISTS project_template_items_member_select ON public.project_template_items;
+CREATE POLICY project_template_items_member_select ON public.project_template_items FOR SELECT
+    USING ((EXISTS ( SELECT 1
+       FROM public.project_templates t
+      WHERE ((t.id = project_template_items.template_id) AND ((t.created_by IS NULL) OR (t.created_by = auth.uid()))))));
+
+DROP POLICY IF EXISTS project_template_items_owner_write ON public.project_template_items;
+CREATE POLICY project_template_items_owner_write ON public.project_template_items
+    USING ((EXISTS ( SELECT 1
+       FROM public.project_templates t
+      WHERE ((t.id = project_template_items.template_id) AND (t.created_by = auth.uid())))))
+    WITH CHECK ((EXISTS ( SELECT 1
+       FROM public.project_templates t
+      WHERE ((t.id = project_template_items.template_id) AND (t.created_by = auth.uid())))));
+
+ALTER TABLE public.project_template_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS project_template_versions_owner_all ON public.project_template_versions;
+CREATE POLICY project_template_versions_owner_all ON public.project_template_versions
+    USING (((auth.role() = 'service_role'::text) OR (EXISTS ( SELECT 1
+       FROM public.project_templates t
+      WHERE ((t.id = project_template_versions.template_id) AND ((t.created_by IS NULL) OR (t.created_by = auth.uid())))))))
+    WITH CHECK (((auth.role() = 'service_role'::text) OR (EXISTS ( SELECT 1
+       FROM public.project_templates t
+      WHERE ((t.id = project_template_versions.template_id) AND (t.created_by = auth.uid()))))));
+
+COMMIT;
@@ -0,0 +1,54 @@
+-- Revision history for timeline items and project tasks
+-- Every create, update, delete and restore of a project item or task stores before/after snapshots
+-- of the mapped record so items can be reviewed and rolled back. Writes made by the worker through the
+-- service role are recorded with a null user_id. record_id has no foreign key so the
+-- history of a deleted item survives and can be used to bring it back.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.record_revisions (
+    id uuid DEFAULT public.gen_random_uuid() PRIMARY KEY,
+    project_id uuid NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    entity text NOT NULL,
+    record_id uuid NOT NULL,
+    operation text NOT NULL,
+    before jsonb,
+    after jsonb,
+    changed_fields text[] DEFAULT '{}'::text[] NOT NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    restored_from_id uuid REFERENCES public.record_revisions(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    CONSTRAINT record_revisions_entity_check CHECK (entity IN ('timeline_item', 'project_task')),
+    CONSTRAINT record_revisions_operation_check CHECK (operation IN ('create', 'update', 'delete', 'restore'))
+);
+
+COMMENT ON TABLE public.record_revisions IS 'Before/after snapshots of timeline items and project tasks for history and restore';
+
+CREATE INDEX IF NOT EXISTS record_revisions_record_idx
+    ON public.record_revisions (entity, record_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS record_revisions_project_idx
+    ON public.record_revisions (project_id, created_at DESC);
+
+ALTER TABLE public.record_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS record_revisions_member_select ON public.record_revisions;
+CREATE POLICY record_revisions_member_select ON public.record_revisions FOR SELECT
+    USING (((auth.role() = 'service_role'::text) OR public.is_project_member(project_id)));
+
+-- Revisions are append-only: only those who can edit the project may add them, under their own name,
+-- and nobody can rewrite history
+DROP POLICY IF EXISTS record_revisions_member_insert ON public.record_revisions;
+DROP POLICY IF EXISTS record_revisions_editor_insert ON public.record_revisions;
+CREATE POLICY record_revisions_editor_insert ON public.record_revisions FOR INSERT
+    WITH CHECK (((auth.role() = 'service_role'::text) OR (
+        public.is_project_member(project_id, ARRAY['owner'::public.project_member_role, 'editor'::public.project_member_role])
+        AND (auth.uid() = user_id)
+    )));
+
+DROP POLICY IF EXISTS record_revisions_service_role_all ON public.record_revisions;
+CREATE POLICY record_revisions_service_role_all ON public.record_revisions
+    USING ((auth.role() = 'service_role'::text))
+    WITH CHECK ((auth.role() = 'service_role'::text));
+
+COMMIT;
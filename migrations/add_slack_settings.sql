@@ -0,0 +1,7 @@
+-- Add slack_settings column to user_preferences table
+-- Stores the per-user Slack incoming webhook used for digest and approval delivery
+
+ALTER TABLE public.user_preferences
+ADD COLUMN IF NOT EXISTS slack_settings jsonb DEFAULT NULL;
+
+COMMENT ON COLUMN public.user_preferences.slack_settings IS 'Slack delivery settings (enabled, webhookUrl, includeApprovals)';
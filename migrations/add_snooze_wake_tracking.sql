@@ -0,0 +1,17 @@
+-- Track where snoozed emails came from and when the wake job returned them
+-- Lets the snooze scheduler restore the prior triage state and lets digests list woken emails
+
+ALTER TABLE public.emails
+ADD COLUMN IF NOT EXISTS snoozed_from_state text DEFAULT NULL,
+ADD COLUMN IF NOT EXISTS snooze_woken_at timestamptz DEFAULT NULL;
+
+CREATE INDEX IF NOT EXISTS emails_snoozed_until_idx
+  ON public.emails (snoozed_until)
+  WHERE triage_state = 'snoozed';
+
+ALTER TABLE public.user_preferences
+ADD COLUMN IF NOT EXISTS digest_include_woken_snoozes boolean NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.emails.snoozed_from_state IS 'Triage state the email was in when it was snoozed';
+COMMENT ON COLUMN public.emails.snooze_woken_at IS 'When the snooze scheduler last returned the email to the inbox';
+COMMENT ON COLUMN public.user_preferences.digest_include_woken_snoozes IS 'Whether digests list emails woken from snooze in the last day';
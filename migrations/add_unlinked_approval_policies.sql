@@ -0,0 +1,39 @@
+-- Let requesters manage approvals that have no project
+-- Reply drafts for emails not linked to a project are queued with a NULL project_id. The existing approvals
+-- policies all go through is_project_member(project_id), so without these the requester could not list,
+-- create or edit their own drafts through their JWT.
+
+BEGIN;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'approvals'
+          AND policyname = 'approvals_requester_select'
+    ) THEN
+        EXECUTE 'CREATE POLICY approvals_requester_select ON public.approvals FOR SELECT USING (((project_id IS NULL) AND (auth.uid() = requested_by)))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'approvals'
+          AND policyname = 'approvals_requester_insert'
+    ) THEN
+        EXECUTE 'CREATE POLICY approvals_requester_insert ON public.approvals FOR INSERT WITH CHECK (((project_id IS NULL) AND (auth.uid() = requested_by)))';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE schemaname = 'public'
+          AND tablename = 'approvals'
+          AND policyname = 'approvals_requester_update'
+    ) THEN
+        EXECUTE 'CREATE POLICY approvals_requester_update ON public.approvals FOR UPDATE USING (((project_id IS NULL) AND (auth.uid() = requested_by))) WITH CHECK (((project_id IS NULL) AND (auth.uid() = requested_by)))';
+    END IF;
+END
+$$;
+
+COMMIT;
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { buildActivityFeed, describeAuditLog } from "../activityFeed";
+import type { AuditLogRecord } from "../types";
+
+function buildLog(overrides: Partial<AuditLogRecord> = {}): AuditLogRecord {
+  return {
+    id: "audit-1",
+    projectId: "tour",
+    userId: "user-alex",
+    action: "email.linked",
+    entity: "project_email_link",
+    refId: "link-1",
+    metadata: { emailId: "email-1", subject: "Dublin hold" },
+    createdAt: "2025-06-10T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("buildActivityFeed", () => {
+  const actorNames = { "user-alex": "Alex", "user-sam": "Sam" };
+
+  it("groups a burst of email links by the same person", () => {
+    const feed = buildActivityFeed(
+      [
+        buildLog({ id: "audit-3", createdAt: "2025-06-10T12:04:00.000Z" }),
+        buildLog({ id: "audit-2", createdAt: "2025-06-10T12:02:00.000Z" }),
+        buildLog({ id: "audit-1" }),
+        buildLog({ id: "audit-0", userId: "user-sam", createdAt: "2025-06-10T11:59:00.000Z" }),
+      ],
+      { actorNames }
+    );
+
+    expect(feed).toHaveLength(2);
+    expect(feed[0]).toMatchObject({
+      id: "audit-3",
+      summary: "Alex linked 3 emails",
+      count: 3,
+      logIds: ["audit-3", "audit-2", "audit-1"],
+      target: { kind: "project", projectId: "tour", tab: "inbox" },
+    });
+    expect(feed[1].summary).toBe("Sam linked “Dublin hold”");
+  });
+
+  it("keeps entries apart once they fall outside the grouping window", () => {
+    const feed = buildActivityFeed(
+      [buildLog({ id: "audit-2", createdAt: "2025-06-10T13:00:00.000Z" }), buildLog()],
+      { actorNames, groupWindowMinutes: 15 }
+    );
+
+    expect(feed.map((entry) => entry.count)).toEqual([1, 1]);
+  });
+
+  it("names approvals after what they were for", () => {
+    const [entry] = buildActivityFeed(
+      [
+        buildLog({
+          action: "approval.approved",
+          entity: "approval",
+          refId: "approval-1",
+          metadata: { type: "timeline_item_from_email", title: "Dublin hold" },
+        }),
+      ],
+      { actorNames }
+    );
+
+    expect(entry.summary).toBe("Approval for Dublin hold approved by Alex");
+    expect(entry.target).toEqual({ kind: "project", projectId: "tour", tab: "approvals", refId: "approval-1" });
+  });
+
+  it("falls back for unknown actors, background jobs and unknown actions", () => {
+    const feed = buildActivityFeed([
+      buildLog({ id: "a", userId: "user-gone", action: "timeline.imported", metadata: { created: 4, updated: 1 } }),
+      buildLog({ id: "b", userId: null, action: "project.archived", createdAt: "2025-06-10T11:00:00.000Z" }),
+    ]);
+
+    expect(feed[0].summary).toBe("Someone imported 4 timeline items and updated 1");
+    expect(feed[1].summary).toBe("Kazador recorded project archived");
+  });
+});
+
+describe("describeAuditLog", () => {
+  it("links workspace-level events to their settings page", () => {
+    const description = describeAuditLog(
+      buildLog({ projectId: null, action: "gmail.oauth.connected", metadata: { accountEmail: "alex@example.com" } }),
+      "Alex"
+    );
+
+    expect(description).toEqual({
+      summary: "Alex connected Gmail (alex@example.com)",
+      target: { kind: "page", href: "/settings/integrations" },
+    });
+  });
+});
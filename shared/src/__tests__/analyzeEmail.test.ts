@@ -129,4 +129,59 @@ describe("analyzeEmail", () => {
     expect(result.labels).toEqual([EMAIL_FALLBACK_LABEL]);
     expect(result.sentiment).toEqual(DEFAULT_EMAIL_SENTIMENT);
   });
+
+  it("applies admin prompt settings and correction examples to the request", async () => {
+    const fetchMock = vi.fn().mockImplementation(async (_url: string, options: RequestInit) => {
+      const body = JSON.parse(String(options?.body));
+      expect(body.model).toBe("gpt-4o");
+      expect(body.temperature).toBe(0.1);
+      expect(body.messages[0].content).toBe("Custom system message");
+      expect(body.messages[1].content[0].text).toContain("Additional instructions: Prefer LEGAL labels.");
+      expect(body.messages[1].content[0].text).toContain(
+        'Subject: "Redlines" | Labelled: LEGAL/Contract_Executed | Corrected to: LEGAL/Contract_Draft'
+      );
+
+      return {
+        ok: true,
+        json: async () => ({
+          choices: [
+            {
+              message: {
+                content: JSON.stringify({
+                  summary: "Contract",
+                  labels: ["LEGAL/Contract_Draft", "FINANCE/Invoice"],
+                }),
+              },
+            },
+          ],
+        }),
+      } as Response;
+    });
+
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const result = await analyzeEmail(
+      { subject: "Contract", body: "Draft attached", fromName: null, fromEmail: "legal@example.com" },
+      {
+        prompt: {
+          systemMessage: "Custom system message",
+          userInstructions: "Prefer LEGAL labels.",
+          model: "gpt-4o",
+          temperature: 0.1,
+          maxLabels: 1,
+        },
+        examples: [
+          {
+            subject: "Redlines",
+            summary: null,
+            fromEmail: null,
+            originalLabels: ["LEGAL/Contract_Executed"],
+            correctedLabels: ["LEGAL/Contract_Draft"],
+          },
+        ],
+      }
+    );
+
+    expect(result.labels).toEqual(["LEGAL/Contract_Draft"]);
+  });
 });
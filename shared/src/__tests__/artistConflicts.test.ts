@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { detectArtistConflicts, filterConflictsForProject } from "../artistConflicts";
+import type { TimelineItemRecord } from "../types";
+
+function buildTimelineItem(overrides: Partial<TimelineItemRecord> = {}): TimelineItemRecord {
+  return {
+    id: "timeline-1",
+    projectId: "tour",
+    type: "LIVE_HOLD",
+    title: "Berlin show",
+    startsAt: "2025-06-10T18:00:00.000Z",
+    endsAt: "2025-06-10T23:00:00.000Z",
+    lane: "LIVE",
+    territory: "DE",
+    status: "planned",
+    priorityScore: 50,
+    priorityComponents: null,
+    labels: {},
+    links: {},
+    kind: null,
+    description: null,
+    dueAt: null,
+    timezone: "Europe/Berlin",
+    createdBy: null,
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    ...overrides,
+  } satisfies TimelineItemRecord;
+}
+
+describe("detectArtistConflicts", () => {
+  it("flags overlapping in-person items across projects and tags both projects", () => {
+    const conflicts = detectArtistConflicts(
+      [
+        {
+          id: "tour",
+          name: "Summer Tour",
+          color: "#f00",
+          items: [
+            buildTimelineItem({
+              id: "flight",
+              type: "TRAVEL_SEGMENT",
+              title: "Flight to Madrid",
+              lane: "TRAVEL",
+              territory: "ES",
+              startsAt: "2025-06-12T09:00:00.000Z",
+              endsAt: "2025-06-12T12:00:00.000Z",
+              timezone: null,
+            }),
+          ],
+        },
+        {
+          id: "campaign",
+          name: "Album Campaign",
+          items: [
+            buildTimelineItem({
+              id: "promo",
+              projectId: "campaign",
+              type: "PROMO_SLOT",
+              title: "Radio interview",
+              lane: "PROMO",
+              territory: "GB",
+              startsAt: "2025-06-12T10:00:00.000Z",
+              endsAt: "2025-06-12T11:00:00.000Z",
+              timezone: null,
+            }),
+          ],
+        },
+      ],
+      { enableTravelTimeDetection: false, enableTimezoneWarnings: false }
+    );
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      type: "artist_double_booking",
+      severity: "error",
+      crossProject: true,
+    });
+    expect(conflicts[0].projects.map((project) => project.id).sort()).toEqual(["campaign", "tour"]);
+  });
+
+  it("treats items without an end as taking the rest of their local day", () => {
+    const conflicts = detectArtistConflicts(
+      [
+        {
+          id: "tour",
+          name: "Summer Tour",
+          items: [
+            // Date-only hold on 10 June in Berlin.
+            buildTimelineItem({ id: "hold", startsAt: "2025-06-09T22:00:00.000Z", endsAt: null }),
+          ],
+        },
+        {
+          id: "campaign",
+          name: "Album Campaign",
+          items: [
+            buildTimelineItem({
+              id: "promo-same-day",
+              projectId: "campaign",
+              type: "PROMO_SLOT",
+              lane: "PROMO",
+              startsAt: "2025-06-10T15:00:00.000Z",
+              endsAt: null,
+            }),
+            buildTimelineItem({
+              id: "promo-next-day",
+              projectId: "campaign",
+              type: "PROMO_SLOT",
+              lane: "PROMO",
+              startsAt: "2025-06-10T22:30:00.000Z",
+              endsAt: null,
+            }),
+          ],
+        },
+      ],
+      { enableTravelTimeDetection: false, enableTimezoneWarnings: false }
+    );
+
+    const doubleBookings = conflicts.filter((conflict) => conflict.type === "artist_double_booking");
+    expect(doubleBookings.map((conflict) => conflict.items.map((item) => item.id))).toEqual([
+      ["hold", "promo-same-day"],
+    ]);
+  });
+
+  it("keeps single-project conflicts and filters by project", () => {
+    const conflicts = detectArtistConflicts([
+      {
+        id: "tour",
+        name: "Summer Tour",
+        items: [
+          buildTimelineItem({ id: "show-a" }),
+          buildTimelineItem({ id: "show-b", title: "Berlin late show", startsAt: "2025-06-10T20:00:00.000Z" }),
+        ],
+      },
+      {
+        id: "brand",
+        name: "Brand Deal",
+        items: [
+          buildTimelineItem({
+            id: "shoot",
+            projectId: "brand",
+            type: "PROMO_SLOT",
+            lane: "PROMO",
+            territory: null,
+            status: "canceled",
+            startsAt: "2025-06-10T19:00:00.000Z",
+            endsAt: "2025-06-10T21:00:00.000Z",
+          }),
+        ],
+      },
+    ]);
+
+    const laneOverlap = conflicts.find((conflict) => conflict.type === "lane_overlap");
+    expect(laneOverlap?.crossProject).toBe(false);
+    expect(conflicts.some((conflict) => conflict.type === "artist_double_booking")).toBe(false);
+    expect(filterConflictsForProject(conflicts, "tour", { crossProjectOnly: true })).toEqual(
+      conflicts.filter((conflict) => conflict.crossProject)
+    );
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createAutomationActionHandlers,
+  evaluateAutomationRule,
+  executeAutomationRule,
+  findAutomationTaskTarget,
+  listAutomationActionProjectIds,
+  mapAutomationRuleRow,
+  matchesAutomationTrigger,
+  planAutomationRule,
+  renderAutomationTemplate,
+  type AutomationActionHandlers,
+  type AutomationActionStore,
+  type AutomationEvent,
+} from "../automationEngine";
+import { normalizeAutomationRuleInput } from "../automationRules";
+
+function buildEmailEvent(overrides: Partial<Extract<AutomationEvent, { type: "email_received" }>["email"]> = {}): AutomationEvent {
+  return {
+    type: "email_received",
+    email: {
+      id: "email-1",
+      subject: "Offer: Fabric London May 10",
+      fromName: "Venue Booker",
+      fromEmail: "booking@fabric.london",
+      category: "BOOKING/Offer",
+      labels: ["BOOKING/Offer", "city/London"],
+      summary: "Offer for May 10 at Fabric.",
+      priorityScore: 82,
+      triageState: "unassigned",
+      receivedAt: "2025-01-01T10:00:00.000Z",
+      hasAttachments: false,
+      projectIds: ["project-1"],
+      ...overrides,
+    },
+  };
+}
+
+function buildHandlers(): AutomationActionHandlers {
+  return {
+    create_task: vi.fn(async () => ({ taskId: "task-1", projectId: "project-1" })),
+    assign_timeline_lane: vi.fn(async (_params, context) => ({ taskId: findAutomationTaskTarget(context)?.taskId })),
+    send_email_template: vi.fn(async () => ({ approvalId: "approval-1" })),
+  };
+}
+
+describe("automationEngine", () => {
+  const rule = normalizeAutomationRuleInput({
+    id: "rule-1",
+    name: "Offers to tasks",
+    trigger: { type: "email_received", options: { categories: ["BOOKING/Offer"], labels: [], triageStates: [] } },
+    conditions: {
+      logic: "and",
+      conditions: [
+        { field: "email.fromEmail", operator: "contains", value: "fabric" },
+        { field: "email.priorityScore", operator: "greater_than", value: 50 },
+      ],
+    },
+    actions: [
+      { type: "create_task", params: { title: "Reply to {{email.fromName}}: {{email.subject}}" } },
+      { type: "assign_timeline_lane", params: { lane: "LIVE_HOLDS" } },
+    ],
+  });
+
+  it("matches triggers on category and ignores other event types", () => {
+    expect(matchesAutomationTrigger(rule.trigger, buildEmailEvent())).toBe(true);
+    expect(matchesAutomationTrigger(rule.trigger, buildEmailEvent({ category: "FINANCE/Invoice" }))).toBe(false);
+    expect(
+      matchesAutomationTrigger(rule.trigger, {
+        type: "task_created",
+        task: {
+          id: "task-1",
+          projectId: "project-1",
+          title: "Task",
+          description: null,
+          status: "todo",
+          priority: 0,
+          dueAt: null,
+          laneId: null,
+          laneSlug: null,
+        },
+      })
+    ).toBe(false);
+  });
+
+  it("reports each condition outcome", () => {
+    const evaluation = evaluateAutomationRule(rule, buildEmailEvent({ priorityScore: 10 }));
+    expect(evaluation.triggered).toBe(true);
+    expect(evaluation.matched).toBe(false);
+    expect(evaluation.conditions.map((condition) => condition.passed)).toEqual([true, false]);
+  });
+
+  it("evaluates array fields element-wise", () => {
+    const labelRule = normalizeAutomationRuleInput({
+      ...rule,
+      conditions: { logic: "and", conditions: [{ field: "email.labels", operator: "equals", value: "city/london" }] },
+    });
+    expect(evaluateAutomationRule(labelRule, buildEmailEvent()).matched).toBe(true);
+  });
+
+  it("renders templates from the event payload", () => {
+    expect(renderAutomationTemplate("{{ email.subject }} / {{email.unknown}}", buildEmailEvent())).toBe(
+      "Offer: Fabric London May 10 / "
+    );
+  });
+
+  it("runs actions in order and passes earlier outcomes forward", async () => {
+    const handlers = buildHandlers();
+    const result = await executeAutomationRule(rule, buildEmailEvent(), handlers);
+
+    expect(result?.status).toBe("succeeded");
+    expect(handlers.create_task).toHaveBeenCalledWith(
+      { title: "Reply to Venue Booker: Offer: Fabric London May 10" },
+      expect.anything()
+    );
+    expect(result?.actions[1].output).toEqual({ taskId: "task-1" });
+  });
+
+  it("records failures without stopping later actions", async () => {
+    const handlers = buildHandlers();
+    handlers.create_task = vi.fn(async () => {
+      throw new Error("No project");
+    });
+
+    const result = await executeAutomationRule(rule, buildEmailEvent(), handlers);
+
+    expect(result?.status).toBe("failed");
+    expect(result?.error).toContain("create_task: No project");
+    expect(handlers.assign_timeline_lane).toHaveBeenCalledOnce();
+  });
+
+  it("skips without running actions when conditions fail", async () => {
+    const handlers = buildHandlers();
+    const result = await executeAutomationRule(rule, buildEmailEvent({ fromEmail: "someone@else.com" }), handlers);
+
+    expect(result?.status).toBe("skipped");
+    expect(handlers.create_task).not.toHaveBeenCalled();
+  });
+
+  it("returns null when the trigger does not fire", async () => {
+    const result = await executeAutomationRule(rule, buildEmailEvent({ category: "FAN/Request" }), buildHandlers());
+    expect(result).toBeNull();
+  });
+
+  it("plans actions for disabled rules without running handlers", () => {
+    const plan = planAutomationRule({ ...rule, isEnabled: false }, buildEmailEvent());
+
+    expect(plan.matched).toBe(true);
+    expect(plan.actions.map((action) => action.summary)).toEqual([
+      'Create task "Reply to Venue Booker: Offer: Fabric London May 10"',
+      "Assign lane LIVE_HOLDS",
+    ]);
+    expect(plan.actions.every((action) => action.blockedReason === null)).toBe(true);
+  });
+
+  it("flags planned actions that could not run", () => {
+    const plan = planAutomationRule(rule, buildEmailEvent({ projectIds: [] }));
+
+    expect(plan.actions[0].blockedReason).toBe("No project available for the new task");
+    expect(plan.actions[1].blockedReason).toBe("No task to assign a lane to");
+  });
+});
+
+describe("createAutomationActionHandlers", () => {
+  function buildStore(): AutomationActionStore {
+    return {
+      insertTask: vi.fn(async (task) => ({ id: "task-9", projectId: task.projectId })),
+      listLanes: vi.fn(async () => [{ id: "lane-1", slug: "LIVE_HOLDS", name: "Live holds" }]),
+      setTaskLane: vi.fn(async () => undefined),
+      insertApproval: vi.fn(async () => ({ id: "approval-9" })),
+      getProjectRole: vi.fn(async () => "editor" as const),
+    };
+  }
+
+  const rule = normalizeAutomationRuleInput({
+    id: "rule-2",
+    name: "Offer follow-up",
+    trigger: { type: "email_received" },
+    actions: [
+      { type: "create_task", params: { title: "Follow up", dueInDays: 2 } },
+      { type: "assign_timeline_lane", params: { lane: "live_holds" } },
+    ],
+  });
+
+  it("creates the task and assigns the lane through the store", async () => {
+    const store = buildStore();
+    const result = await executeAutomationRule(rule, buildEmailEvent(), createAutomationActionHandlers(store, "user-1"));
+
+    expect(result?.status).toBe("succeeded");
+    expect(store.insertTask).toHaveBeenCalledWith(
+      expect.objectContaining({ projectId: "project-1", title: "Follow up", createdBy: "user-1" })
+    );
+    expect(store.setTaskLane).toHaveBeenCalledWith("task-9", "lane-1");
+  });
+
+  it("refuses to write into a project the rule owner cannot edit", async () => {
+    const store = buildStore();
+    vi.mocked(store.getProjectRole).mockResolvedValue("viewer");
+    const handlers = createAutomationActionHandlers(store, "user-1");
+
+    await expect(
+      handlers.create_task({ projectId: "someone-elses" }, { rule, event: buildEmailEvent(), previous: [] })
+    ).rejects.toThrow("Rule owner cannot edit project someone-elses");
+    expect(store.getProjectRole).toHaveBeenCalledWith("someone-elses", "user-1");
+    expect(store.insertTask).not.toHaveBeenCalled();
+  });
+
+  it("fails an email template with no recipient, as the planner reports it", async () => {
+    const store = buildStore();
+    const handlers = createAutomationActionHandlers(store, "user-1");
+    const event: AutomationEvent = {
+      type: "task_created",
+      task: {
+        id: "task-1",
+        projectId: "project-1",
+        title: "Task",
+        description: null,
+        status: "todo",
+        priority: 0,
+        dueAt: null,
+        laneId: null,
+        laneSlug: null,
+      },
+    };
+
+    await expect(handlers.send_email_template({}, { rule, event, previous: [] })).rejects.toThrow(
+      "No recipient for the email"
+    );
+    expect(store.insertApproval).not.toHaveBeenCalled();
+  });
+});
+
+describe("listAutomationActionProjectIds", () => {
+  it("collects each explicitly named project once", () => {
+    expect(
+      listAutomationActionProjectIds([
+        { type: "create_task", params: { projectId: " project-2 " } },
+        { type: "assign_timeline_lane", params: { lane: "LIVE_HOLDS" } },
+        { type: "send_email_template", params: { projectId: "project-2" } },
+      ])
+    ).toEqual(["project-2"]);
+  });
+});
+
+describe("mapAutomationRuleRow", () => {
+  it("parses JSON columns and ignores malformed ones", () => {
+    const rule = mapAutomationRuleRow({
+      id: "rule-3",
+      user_id: "user-1",
+      name: "Stored rule",
+      description: null,
+      is_enabled: false,
+      trigger_type: "email_received",
+      trigger_config: JSON.stringify({ type: "email_received" }),
+      condition_group: "{not json",
+      actions: [{ type: "create_task", params: { title: "Call back" } }],
+      created_at: "2025-01-01T00:00:00.000Z",
+      updated_at: "2025-01-02T00:00:00.000Z",
+    });
+
+    expect(rule).toMatchObject({ id: "rule-3", isEnabled: false, updatedAt: "2025-01-02T00:00:00.000Z" });
+    expect(rule.trigger.type).toBe("email_received");
+    expect(rule.actions).toHaveLength(1);
+  });
+});
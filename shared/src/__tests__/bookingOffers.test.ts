@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyBookingOfferEdit,
+  buildBookingHoldApprovalPayload,
+  emptyBookingOfferFields,
+  extractBookingOffer,
+  getBookingOfferKind,
+  normalizeBookingOfferFields,
+} from "../bookingOffers";
+import { createLlmProvider } from "../llmProvider";
+
+describe("normalizeBookingOfferFields", () => {
+  it("accepts scored and bare values and coerces them to typed fields", () => {
+    const fields = normalizeBookingOfferFields({
+      promoter: { value: "Night Owl Promotions", confidence: 0.92 },
+      territory: { value: "uk", confidence: 0.8 },
+      showDates: { value: "2026-05-12, 13 May 2026", confidence: 1.4 },
+      guarantee: "EUR 6.000",
+      currency: "€",
+      dealType: "6k vs 80% of net",
+      venue: "  ",
+      expiresAt: { value: null, confidence: 0.7 },
+    });
+
+    expect(fields.promoter).toEqual({ value: "Night Owl Promotions", confidence: 0.92 });
+    expect(fields.territory.value).toBe("GB");
+    expect(fields.showDates).toEqual({ value: ["2026-05-12", "2026-05-13"], confidence: 1 });
+    expect(fields.guarantee).toEqual({ value: 6000, confidence: 0.6 });
+    expect(fields.currency.value).toBe("EUR");
+    expect(fields.dealType.value).toBe("versus");
+    expect(fields.venue).toEqual({ value: null, confidence: 0 });
+    expect(fields.expiresAt).toEqual({ value: null, confidence: 0 });
+  });
+});
+
+describe("extractBookingOffer", () => {
+  it("combines the local extractor with low-confidence text inference", async () => {
+    const provider = createLlmProvider({ provider: "local" } as any);
+    const result = await extractBookingOffer(
+      {
+        subject: "Offer - Dublin",
+        body: [
+          "Venue: The Academy",
+          "City: Dublin",
+          "Radius clause: no shows within 100km for 60 days",
+          "We can do EUR 4,500 flat for 12 June 2026.",
+        ].join("\n"),
+        fromName: "Promoter",
+        fromEmail: "promoter@example.com",
+      },
+      provider
+    );
+
+    expect(result.extractedBy).toMatch(/^local\//);
+    expect(result.fields.venue).toEqual({ value: "The Academy", confidence: 0.6 });
+    expect(result.fields.radiusClause.value).toBe("no shows within 100km for 60 days");
+    expect(result.fields.guarantee).toEqual({ value: 4500, confidence: 0.3 });
+    expect(result.fields.currency.value).toBe("EUR");
+    expect(result.fields.dealType.value).toBe("flat");
+    expect(result.fields.showDates.value).toEqual(["2026-06-12"]);
+    expect(result.fields.promoter.value).toBeNull();
+  });
+});
+
+describe("booking offer editing and holds", () => {
+  it("marks edited fields as certain", () => {
+    const fields = applyBookingOfferEdit(emptyBookingOfferFields(), { guarantee: "7,250", city: null });
+    expect(fields.guarantee).toEqual({ value: 7250, confidence: 1 });
+    expect(fields.city).toEqual({ value: null, confidence: 1 });
+    expect(fields.venue).toEqual({ value: null, confidence: 0 });
+  });
+
+  it("only seeds a LIVE_HOLD when the offer has a show date", () => {
+    const offer = { id: "offer-1", emailId: "email-1", fields: emptyBookingOfferFields() };
+    expect(buildBookingHoldApprovalPayload(offer, "project-1")).toBeNull();
+
+    offer.fields = applyBookingOfferEdit(offer.fields, {
+      venue: "Fabric",
+      city: "London",
+      showDates: ["2026-05-10", "2026-05-11"],
+      guarantee: 8000,
+      currency: "GBP",
+    });
+
+    expect(buildBookingHoldApprovalPayload(offer, "project-1")).toMatchObject({
+      projectId: "project-1",
+      title: "Hold: Fabric, London",
+      type: "LIVE_HOLD",
+      startsAt: "2026-05-10T00:00:00.000Z",
+      endsAt: "2026-05-11T23:59:59.000Z",
+      labels: { city: "London", venue: "Fabric" },
+      metadata: { source: "booking_offer", bookingOfferId: "offer-1" },
+    });
+  });
+
+  it("maps booking labels to the record kind", () => {
+    expect(getBookingOfferKind(["BOOKING/Offer", "city/London"])).toBe("offer");
+    expect(getBookingOfferKind(["BOOKING/Hold_or_Availability"])).toBe("hold");
+    expect(getBookingOfferKind(["FINANCE/Invoice"])).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CLASSIFICATION_PROMPT_SETTINGS,
+  classificationPromptSettingsEqual,
+  normalizeClassificationPromptSettings,
+} from "../classificationPrompt";
+
+describe("normalizeClassificationPromptSettings", () => {
+  it("falls back to defaults for missing or invalid values", () => {
+    expect(normalizeClassificationPromptSettings(null)).toEqual(DEFAULT_CLASSIFICATION_PROMPT_SETTINGS);
+    expect(normalizeClassificationPromptSettings({ model: "  ", temperature: "hot", maxLabels: null })).toEqual(
+      DEFAULT_CLASSIFICATION_PROMPT_SETTINGS
+    );
+  });
+
+  it("trims text and clamps numeric settings", () => {
+    const settings = normalizeClassificationPromptSettings({
+      systemMessage: "  Label emails.  ",
+      userInstructions: " Prefer LEGAL. ",
+      model: "gpt-4o",
+      temperature: 3,
+      maxLabels: 12,
+    });
+
+    expect(settings).toEqual({
+      systemMessage: "Label emails.",
+      userInstructions: "Prefer LEGAL.",
+      model: "gpt-4o",
+      temperature: 2,
+      maxLabels: 5,
+    });
+    expect(classificationPromptSettingsEqual(settings, { ...settings })).toBe(true);
+    expect(classificationPromptSettingsEqual(settings, { ...settings, maxLabels: 4 })).toBe(false);
+  });
+});
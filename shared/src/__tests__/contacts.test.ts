@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildContactIngestRow,
+  deriveOrganisationName,
+  extractEmailDomain,
+  inferContactRole,
+  isPersonalEmailDomain,
+  parseEmailSignature,
+} from "../contacts";
+
+describe("contacts", () => {
+  it("derives organisations from sender domains", () => {
+    expect(extractEmailDomain("Jamie@Mail.Northstar-Live.co.uk")).toBe("mail.northstar-live.co.uk");
+    expect(deriveOrganisationName("mail.northstar-live.co.uk")).toBe("Northstar Live");
+    expect(deriveOrganisationName("bluewave.com")).toBe("Bluewave");
+    expect(isPersonalEmailDomain("gmail.com")).toBe(true);
+    expect(isPersonalEmailDomain("bluewave.com")).toBe(false);
+    expect(extractEmailDomain("not-an-email")).toBeNull();
+  });
+
+  it("parses phone and company from the signature block", () => {
+    const body = [
+      "Hi Sam,",
+      "Offer attached for the 14th, call me on 020 0000 0000 if easier.",
+      "",
+      "Best regards,",
+      "Jamie Holt",
+      "Northstar Promotions Ltd",
+      "M: +44 7700 900123",
+      "",
+      "On Mon, 10 Jun 2024 at 09:00, Sam <sam@example.com> wrote:",
+      "> Tel: +1 555 000 0000",
+      "> Quoted Records",
+    ].join("\n");
+
+    expect(parseEmailSignature(body, { fromName: "Jamie Holt" })).toEqual({
+      phone: "+44 7700 900123",
+      company: "Northstar Promotions Ltd",
+    });
+    expect(parseEmailSignature("Thanks!", {})).toEqual({ phone: null, company: null });
+  });
+
+  it("infers roles from labels", () => {
+    expect(inferContactRole(["BOOKING/Offer"])).toBe("promoter");
+    expect(inferContactRole(["PROMO/Press_Feature"])).toBe("press");
+    expect(inferContactRole(["MISC/Uncategorized"])).toBeNull();
+  });
+
+  it("keeps manual edits and only counts new messages", () => {
+    const input = {
+      userId: "user-1",
+      fromEmail: "jamie@northstar.com",
+      fromName: "Jamie Holt",
+      receivedAt: "2024-06-10T09:00:00.000Z",
+      body: "Cheers,\nJamie\nNorthstar Promotions\nT: +44 20 7946 0000",
+      category: "BOOKING/Offer",
+      labels: ["BOOKING/Offer"],
+      isNewMessage: true,
+    };
+
+    const created = buildContactIngestRow(input, null, "org-1");
+    expect(created).toMatchObject({
+      user_id: "user-1",
+      phone: "+44 20 7946 0000",
+      company: "Northstar Promotions",
+      role: "promoter",
+      interaction_counts: { BOOKING: 1 },
+      organisation_id: "org-1",
+    });
+
+    const existing = {
+      name: "Jamie Holt",
+      phone: "+44 1234 567890",
+      company: "Northstar Live",
+      role: "agent",
+      interaction_counts: { BOOKING: 1, FINANCE: 2 },
+      last_email_at: "2024-06-12T09:00:00.000Z",
+      organisation_id: "org-1",
+    };
+
+    const updated = buildContactIngestRow(input, existing, "org-2");
+    expect(updated).toMatchObject({
+      phone: "+44 1234 567890",
+      company: "Northstar Live",
+      role: "agent",
+      interaction_counts: { BOOKING: 2, FINANCE: 2 },
+      last_email_at: "2024-06-12T09:00:00.000Z",
+      organisation_id: "org-1",
+    });
+
+    const replayed = buildContactIngestRow({ ...input, isNewMessage: false }, existing, "org-1");
+    expect(replayed.interaction_counts).toEqual({ BOOKING: 1, FINANCE: 2 });
+  });
+});
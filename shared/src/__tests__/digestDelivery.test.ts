@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  getDigestRetryDelayMs,
+  getQuietHoursRemainingMinutes,
+  isWithinQuietHours,
+  parseQuietHours,
+  renderDigestEmail,
+} from "../digestDelivery";
+import type { DigestPayload } from "../types";
+
+function buildPayload(): DigestPayload {
+  return {
+    generatedAt: "2025-11-01T08:00:00.000Z",
+    topActions: [
+      {
+        id: "task-1",
+        projectId: "project-1",
+        entityType: "task",
+        title: "Send <contract>",
+        score: 88,
+        rationale: [],
+        dueAt: "2025-11-03T09:00:00.000Z",
+        startsAt: null,
+        endsAt: null,
+        status: "todo",
+        refTable: "project_tasks",
+        refId: "task-1",
+        priority: 70,
+        projectName: "Spring Tour",
+        projectColor: null,
+        projectStatus: "active",
+      },
+    ],
+    projects: [
+      {
+        project: { id: "project-1", name: "Spring Tour" } as DigestPayload["projects"][number]["project"],
+        metrics: { openTasks: 4, upcomingTimeline: 2, linkedEmails: 3, conflicts: 1, healthScore: 72, trend: null },
+        topActions: [],
+        approvals: [
+          {
+            id: "approval-1",
+            projectId: "project-1",
+            type: "timeline_item_from_email",
+            status: "pending",
+            payload: { title: "Hold: Fabric London" },
+            requestedBy: null,
+            createdBy: null,
+            approverId: null,
+            approvedAt: null,
+            declinedAt: null,
+            resolutionNote: null,
+            createdAt: "2025-11-01T07:00:00.000Z",
+            updatedAt: "2025-11-01T07:00:00.000Z",
+          },
+        ],
+      },
+    ],
+    meta: { totalProjects: 1, totalPendingApprovals: 1, highlightedProjects: 1 },
+  };
+}
+
+describe("digestDelivery", () => {
+  it("renders top actions, project snapshots and approvals in both formats", () => {
+    const rendered = renderDigestEmail(buildPayload(), {
+      generatedFor: "2025-11-01",
+      recipientName: "Sam",
+      appUrl: "https://example.com/today",
+    });
+
+    expect(rendered.subject).toBe("Your Kazador digest for 2025-11-01");
+    expect(rendered.text).toContain("- [Spring Tour] Send <contract> (2025-11-03)");
+    expect(rendered.text).toContain("Approval: Hold: Fabric London");
+    expect(rendered.html).toContain("Send &lt;contract&gt;");
+    expect(rendered.html).toContain('href="https://example.com/today"');
+  });
+
+  it("parses the supported quiet hour shapes", () => {
+    expect(parseQuietHours({ start: "22:00", end: "7:30" })).toEqual({ start: "22:00", end: "07:30", timezone: null });
+    expect(parseQuietHours({ startHour: 21, endHour: 6, timezone: "Europe/Dublin" })).toEqual({
+      start: "21:00",
+      end: "06:00",
+      timezone: "Europe/Dublin",
+    });
+    expect(parseQuietHours({ start: "22:00", end: "07:00", enabled: false })).toBeNull();
+    expect(parseQuietHours({ start: "late" })).toBeNull();
+  });
+
+  it("detects overnight quiet hours in the user's timezone", () => {
+    const quiet = parseQuietHours({ start: "22:00", end: "07:00" });
+    // 23:30 in New York (EST) is 04:30 UTC.
+    const now = new Date("2025-11-05T04:30:00Z");
+    expect(isWithinQuietHours(quiet, "America/New_York", now)).toBe(true);
+    expect(getQuietHoursRemainingMinutes(quiet, "America/New_York", now)).toBe(450);
+    expect(isWithinQuietHours(quiet, "UTC", now)).toBe(true);
+    expect(isWithinQuietHours(quiet, "UTC", new Date("2025-11-05T12:00:00Z"))).toBe(false);
+  });
+
+  it("backs off exponentially with a cap", () => {
+    expect(getDigestRetryDelayMs(1)).toBe(5 * 60 * 1000);
+    expect(getDigestRetryDelayMs(3)).toBe(20 * 60 * 1000);
+    expect(getDigestRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
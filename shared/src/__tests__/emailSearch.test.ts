@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import type { EmailRecord } from "../types";
+import {
+  parseEmailSearchQuery,
+  rankEmailSearchResults,
+  scoreEmailSearchMatch,
+  splitHighlightedText,
+} from "../emailSearch";
+
+function buildEmail(overrides: Partial<EmailRecord> = {}): EmailRecord {
+  return {
+    id: "email-1",
+    fromName: "Jane Promoter",
+    fromEmail: "jane@promoter.example",
+    subject: "Offer for Berlin show",
+    receivedAt: "2024-05-10T12:00:00.000Z",
+    category: "BOOKING/Offer",
+    isRead: false,
+    summary: "Guarantee of 5k plus backend",
+    labels: ["BOOKING/Offer"],
+    priorityScore: 60,
+    triageState: "unassigned",
+    attachments: [
+      {
+        id: "att-1",
+        emailId: "email-1",
+        filename: "contract-draft.pdf",
+        mimeType: "application/pdf",
+        size: 1000,
+        storageBucket: null,
+        storagePath: null,
+        sha256: null,
+        metadata: {},
+        createdAt: "2024-05-10T12:00:00.000Z",
+      },
+    ],
+    linkedProjects: [
+      {
+        projectId: "project-1",
+        name: "Europe Tour 2024",
+        status: "active",
+        color: null,
+        linkId: "link-1",
+        source: "manual",
+        confidence: null,
+        metadata: null,
+        linkedAt: null,
+      },
+    ],
+    hasAttachments: true,
+    attachmentCount: 1,
+    ...overrides,
+  };
+}
+
+describe("emailSearch", () => {
+  it("parses operators, quoted values and free text", () => {
+    const query = parseEmailSearchQuery(
+      'from:"Jane Promoter" label:booking project:tour has:attachment after:2024/05/01 before:2024-06-01 is:unread triage:snoozed "berlin show" nope:value'
+    );
+
+    expect(query.from).toEqual(["jane promoter"]);
+    expect(query.labels).toEqual(["booking"]);
+    expect(query.projects).toEqual(["tour"]);
+    expect(query.hasAttachment).toBe(true);
+    expect(query.after).toBe("2024-05-01T00:00:00.000Z");
+    expect(query.before).toBe("2024-06-01T00:00:00.000Z");
+    expect(query.isUnread).toBe(true);
+    expect(query.triageStates).toEqual(["snoozed"]);
+    expect(query.terms).toEqual(["berlin show", "nope:value"]);
+  });
+
+  it("applies structured filters", () => {
+    const email = buildEmail();
+
+    expect(scoreEmailSearchMatch(email, parseEmailSearchQuery("label:booking project:europe has:attachment"))).not.toBeNull();
+    expect(scoreEmailSearchMatch(email, parseEmailSearchQuery("label:legal"))).toBeNull();
+    expect(scoreEmailSearchMatch(email, parseEmailSearchQuery("before:2024-05-10"))).toBeNull();
+    expect(scoreEmailSearchMatch(email, parseEmailSearchQuery("is:read"))).toBeNull();
+    expect(scoreEmailSearchMatch(email, parseEmailSearchQuery("triage:snoozed"))).toBeNull();
+    expect(
+      scoreEmailSearchMatch(buildEmail({ attachments: [], hasAttachments: false, attachmentCount: 0 }), parseEmailSearchQuery("has:attachment"))
+    ).toBeNull();
+  });
+
+  it("matches terms across attachments and project names with highlights", () => {
+    const email = buildEmail();
+
+    const contract = scoreEmailSearchMatch(email, parseEmailSearchQuery("contract"));
+    expect(contract?.matchedAttachments).toEqual(["contract-draft.pdf"]);
+
+    const tour = scoreEmailSearchMatch(email, parseEmailSearchQuery("europe berlin"));
+    expect(tour?.matchedProjects).toEqual(["Europe Tour 2024"]);
+    expect(tour?.highlights.subject).toEqual([{ start: 10, end: 16 }]);
+
+    expect(scoreEmailSearchMatch(email, parseEmailSearchQuery("berlin paris"))).toBeNull();
+  });
+
+  it("ranks subject matches above summary matches", () => {
+    const subjectHit = buildEmail({ id: "a", subject: "Backend deal", summary: null, priorityScore: 10 });
+    const summaryHit = buildEmail({ id: "b", priorityScore: 90 });
+    const query = parseEmailSearchQuery("backend");
+
+    const ranked = rankEmailSearchResults(
+      [summaryHit, subjectHit].map((email) => ({ email, match: scoreEmailSearchMatch(email, query)! }))
+    );
+
+    expect(ranked.map((entry) => entry.email.id)).toEqual(["a", "b"]);
+  });
+
+  it("splits text into highlighted segments", () => {
+    expect(splitHighlightedText("Offer for Berlin", [{ start: 10, end: 16 }])).toEqual([
+      { text: "Offer for ", highlighted: false },
+      { text: "Berlin", highlighted: true },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { EmailRecord } from "../types";
+import {
+  buildEmailThread,
+  normalizeMessageId,
+  parseMessageIdList,
+  summarizeThreadTriageState,
+} from "../emailThreads";
+
+function buildEmail(overrides: Partial<EmailRecord>): EmailRecord {
+  return {
+    id: "email",
+    fromName: null,
+    fromEmail: "someone@example.com",
+    subject: "Re: Offer",
+    receivedAt: "2024-05-01T10:00:00.000Z",
+    category: "BOOKING/Offer",
+    isRead: true,
+    triageState: "resolved",
+    threadId: "thread-1",
+    ...overrides,
+  };
+}
+
+describe("emailThreads", () => {
+  it("normalizes message id headers", () => {
+    expect(normalizeMessageId(" abc@mail.example ")).toBe("<abc@mail.example>");
+    expect(normalizeMessageId("<abc@mail.example>")).toBe("<abc@mail.example>");
+    expect(normalizeMessageId("   ")).toBeNull();
+    expect(parseMessageIdList("<a@x> <b@x>\r\n <a@x>")).toEqual(["<a@x>", "<b@x>"]);
+  });
+
+  it("summarizes the least resolved triage state", () => {
+    expect(summarizeThreadTriageState([{ triageState: "resolved" }, { triageState: "snoozed" }])).toBe("snoozed");
+    expect(summarizeThreadTriageState([{ triageState: "acknowledged" }, { triageState: "unassigned" }])).toBe(
+      "unassigned"
+    );
+    expect(summarizeThreadTriageState([{ triageState: "resolved" }])).toBe("resolved");
+  });
+
+  it("builds a chronological thread with merged participants and projects", () => {
+    const project = {
+      projectId: "project-1",
+      name: "Tour",
+      status: "active" as const,
+      color: null,
+      linkId: "link-1",
+      source: "manual" as const,
+      confidence: null,
+      metadata: null,
+      linkedAt: null,
+    };
+
+    const thread = buildEmailThread("thread-1", [
+      buildEmail({ id: "b", receivedAt: "2024-05-02T10:00:00.000Z", fromEmail: "me@example.com", isRead: false }),
+      buildEmail({ id: "a", subject: "Offer", linkedProjects: [project], triageState: "acknowledged" }),
+    ]);
+
+    expect(thread.emails.map((email) => email.id)).toEqual(["a", "b"]);
+    expect(thread.subject).toBe("Offer");
+    expect(thread.participants.map((participant) => participant.email)).toEqual([
+      "someone@example.com",
+      "me@example.com",
+    ]);
+    expect(thread.linkedProjects).toEqual([project]);
+    expect(thread.triageState).toBe("acknowledged");
+    expect(thread.unreadCount).toBe(1);
+    expect(thread.lastMessageAt).toBe("2024-05-02T10:00:00.000Z");
+  });
+});
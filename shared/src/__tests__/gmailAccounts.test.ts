@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { describeGmailSyncHealth, formatGmailAccountLabel } from "../gmailAccounts";
+
+const now = new Date("2025-06-10T12:00:00.000Z");
+
+describe("describeGmailSyncHealth", () => {
+  it("reports recent successful syncs as healthy", () => {
+    const summary = describeGmailSyncHealth(
+      { syncStatus: "ok", lastSyncedAt: "2025-06-10T11:50:00.000Z", lastError: null, lastMessageCount: 12 },
+      { now }
+    );
+    expect(summary).toEqual({ health: "healthy", message: "Checked 12 messages 10 min ago." });
+  });
+
+  it("flags accounts the worker has not reached recently", () => {
+    const summary = describeGmailSyncHealth(
+      { syncStatus: "ok", lastSyncedAt: "2025-06-10T06:00:00.000Z", lastError: null, lastMessageCount: 3 },
+      { now }
+    );
+    expect(summary.health).toBe("stale");
+  });
+
+  it("asks for a reconnect when Google revoked the grant", () => {
+    const summary = describeGmailSyncHealth(
+      { syncStatus: "error", lastSyncedAt: null, lastError: "invalid_grant", lastMessageCount: null },
+      { now }
+    );
+    expect(summary.health).toBe("reconnect");
+  });
+
+  it("surfaces other failures and never-synced accounts", () => {
+    expect(
+      describeGmailSyncHealth(
+        { syncStatus: "error", lastSyncedAt: null, lastError: "Quota exceeded", lastMessageCount: null },
+        { now }
+      )
+    ).toEqual({ health: "failing", message: "Last sync failed: Quota exceeded" });
+    expect(
+      describeGmailSyncHealth({ syncStatus: "pending", lastSyncedAt: null, lastError: null, lastMessageCount: null }, { now })
+        .health
+    ).toBe("pending");
+  });
+});
+
+describe("formatGmailAccountLabel", () => {
+  it("prefers the display name", () => {
+    expect(formatGmailAccountLabel({ email: "bookings@label.com", displayName: "Bookings" })).toBe(
+      "Bookings (bookings@label.com)"
+    );
+    expect(formatGmailAccountLabel({ email: "me@label.com", displayName: "  " })).toBe("me@label.com");
+  });
+});
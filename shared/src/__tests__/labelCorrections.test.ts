@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  collapseLabelCorrections,
+  computeLabelAccuracy,
+  formatCorrectionExamples,
+  selectCorrectionExamples,
+} from "../labelCorrections";
+import type { EmailLabelCorrectionRecord } from "../types";
+
+let sequence = 0;
+function correction(overrides: Partial<EmailLabelCorrectionRecord>): EmailLabelCorrectionRecord {
+  sequence += 1;
+  return {
+    id: `c-${sequence}`,
+    emailId: `e-${sequence}`,
+    userId: "user-1",
+    originalLabels: ["FINANCE/Invoice"],
+    correctedLabels: ["FINANCE/Settlement"],
+    originalCategory: "FINANCE/Invoice",
+    correctedCategory: "FINANCE/Settlement",
+    classificationPromptVersion: 1,
+    subject: `Subject ${sequence}`,
+    summary: null,
+    fromEmail: "promoter@example.com",
+    createdAt: `2025-06-${String(sequence).padStart(2, "0")}T10:00:00.000Z`,
+    ...overrides,
+  };
+}
+
+describe("collapseLabelCorrections", () => {
+  it("keeps the classifier's labels and the user's final labels per email", () => {
+    const collapsed = collapseLabelCorrections([
+      correction({ emailId: "e-a", originalLabels: ["FINANCE/Invoice"], correctedLabels: ["LEGAL/Contract_Draft"] }),
+      correction({ emailId: "e-a", originalLabels: ["LEGAL/Contract_Draft"], correctedLabels: ["FINANCE/Settlement"] }),
+      correction({ emailId: "e-b", originalLabels: ["FINANCE/Invoice"], correctedLabels: ["LEGAL/Compliance"] }),
+      correction({ emailId: "e-b", originalLabels: ["LEGAL/Compliance"], correctedLabels: ["FINANCE/Invoice"] }),
+    ]);
+
+    expect(collapsed).toHaveLength(1);
+    expect(collapsed[0]).toMatchObject({
+      emailId: "e-a",
+      originalLabels: ["FINANCE/Invoice"],
+      correctedLabels: ["FINANCE/Settlement"],
+    });
+  });
+});
+
+describe("selectCorrectionExamples", () => {
+  it("prefers primary label changes and limits examples per category", () => {
+    const examples = selectCorrectionExamples(
+      [
+        correction({ subject: "Cross tag only", correctedLabels: ["FINANCE/Invoice", "city/Dublin"] }),
+        correction({ subject: "Settlement one" }),
+        correction({ subject: "Settlement two" }),
+        correction({ subject: "Settlement three" }),
+        correction({ correctedLabels: ["LEGAL/Compliance"], subject: null }),
+      ],
+      5
+    );
+
+    expect(examples.map((example) => example.subject)).toEqual([
+      "Settlement three",
+      "Settlement two",
+      "Cross tag only",
+    ]);
+  });
+
+  it("formats examples for the prompt", () => {
+    const [example] = selectCorrectionExamples([correction({ subject: "Show statement", summary: "Net payout" })]);
+    expect(formatCorrectionExamples([example])).toContain(
+      '1. Subject: "Show statement" | From: promoter@example.com | Summary: "Net payout" | Labelled: FINANCE/Invoice | Corrected to: FINANCE/Settlement'
+    );
+    expect(formatCorrectionExamples([])).toBe("");
+  });
+});
+
+describe("computeLabelAccuracy", () => {
+  it("derives precision and recall from kept, removed and added labels", () => {
+    const stats = computeLabelAccuracy([
+      correction({
+        originalLabels: ["FINANCE/Invoice", "city/Dublin"],
+        correctedLabels: ["FINANCE/Settlement", "city/Dublin"],
+      }),
+      correction({ originalLabels: ["FINANCE/Settlement"], correctedLabels: ["FINANCE/Settlement", "venue/Vicar_Street"] }),
+    ]);
+
+    expect(stats.find((stat) => stat.label === "FINANCE/Invoice")).toMatchObject({
+      falsePositives: 1,
+      precision: 0,
+      recall: null,
+    });
+    expect(stats.find((stat) => stat.label === "FINANCE/Settlement")).toMatchObject({
+      truePositives: 1,
+      falseNegatives: 1,
+      precision: 1,
+      recall: 0.5,
+    });
+    expect(stats.find((stat) => stat.label === "city/Dublin")).toMatchObject({ precision: 1, recall: 1 });
+  });
+});
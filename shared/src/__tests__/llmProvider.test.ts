@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createLlmProvider,
+  createLlmUsageTracker,
+  extractFieldsLocally,
+  resolveLlmProviderConfig,
+} from "../llmProvider";
+
+declare const global: typeof globalThis;
+
+function chatResponse(content: Record<string, unknown>, usage = { prompt_tokens: 1000, completion_tokens: 200 }) {
+  return {
+    ok: true,
+    json: async () => ({ choices: [{ message: { content: JSON.stringify(content) } }], usage }),
+  } as Response;
+}
+
+const classifyRequest = {
+  system: "system",
+  user: "user",
+  model: "gpt-4o",
+  email: {
+    subject: "Invoice for May",
+    body: "Thanks for the show! Attached is the invoice. Please pay by Friday.",
+    fromName: null,
+    fromEmail: "ap@example.com",
+  },
+  maxLabels: 3,
+};
+
+describe("resolveLlmProviderConfig", () => {
+  it("defaults to OpenAI and honours the legacy OPENAI_* variables", () => {
+    const config = resolveLlmProviderConfig({ OPENAI_API_KEY: "key", OPENAI_MODEL: "gpt-4o", OPENAI_MAX_RETRIES: "2" });
+    expect(config).toMatchObject({
+      provider: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      apiKey: "key",
+      model: "gpt-4o",
+      pinModel: false,
+      maxAttempts: 2,
+      timeoutMs: 30000,
+    });
+  });
+
+  it("requires a base URL and model for OpenAI-compatible servers", () => {
+    expect(() => resolveLlmProviderConfig({ LLM_PROVIDER: "openai-compatible" })).toThrow("LLM_BASE_URL");
+    expect(
+      resolveLlmProviderConfig({
+        LLM_PROVIDER: "openai-compatible",
+        LLM_BASE_URL: "http://localhost:11434/v1/",
+        LLM_MODEL: "llama3.1",
+      })
+    ).toMatchObject({ baseUrl: "http://localhost:11434/v1", model: "llama3.1", pinModel: true, apiKey: null });
+  });
+
+  it("treats LLM_MAX_RETRIES as retries on top of the first attempt", () => {
+    expect(resolveLlmProviderConfig({ OPENAI_API_KEY: "key" }).maxAttempts).toBe(4);
+    expect(resolveLlmProviderConfig({ OPENAI_API_KEY: "key", LLM_MAX_RETRIES: "0" }).maxAttempts).toBe(1);
+    expect(
+      resolveLlmProviderConfig({
+        LLM_PROVIDER: "openai-compatible",
+        LLM_BASE_URL: "http://localhost:11434/v1",
+        LLM_MODEL: "llama3.1",
+        LLM_MAX_RETRIES: "2",
+      }).maxAttempts
+    ).toBe(3);
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => resolveLlmProviderConfig({ LLM_PROVIDER: "anthropic" })).toThrow("Unsupported LLM_PROVIDER");
+  });
+});
+
+describe("remote providers", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("reports token usage and cost for OpenAI models", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(chatResponse({ summary: "ok" }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const tracker = createLlmUsageTracker();
+    const provider = createLlmProvider({
+      ...resolveLlmProviderConfig({ OPENAI_API_KEY: "key" }),
+      onUsage: tracker.record,
+    });
+
+    const { data, usage } = await provider.classify(classifyRequest);
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).model).toBe("gpt-4o");
+    expect(data).toEqual({ summary: "ok" });
+    expect(usage).toMatchObject({ provider: "openai", model: "gpt-4o", totalTokens: 1200, costUsd: 0.0045 });
+    expect(tracker.totals()).toMatchObject({ requests: 1, totalTokens: 1200, costUsd: 0.0045, unpricedRequests: 0 });
+  });
+
+  it("sends requests to a compatible server with its pinned model", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(chatResponse({ summary: "ok" }));
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const provider = createLlmProvider(
+      resolveLlmProviderConfig({
+        LLM_PROVIDER: "openai-compatible",
+        LLM_BASE_URL: "http://localhost:8000/v1",
+        LLM_MODEL: "mistral",
+      })
+    );
+
+    const { usage } = await provider.classify(classifyRequest);
+
+    const [url, options] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:8000/v1/chat/completions");
+    expect(options.headers).not.toHaveProperty("Authorization");
+    expect(JSON.parse(options.body).model).toBe("mistral");
+    expect(usage.costUsd).toBeNull();
+  });
+
+  it("does not retry client errors", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 400,
+      headers: new Headers(),
+      text: async () => "bad request",
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+    const provider = createLlmProvider(resolveLlmProviderConfig({ OPENAI_API_KEY: "key", OPENAI_RETRY_DELAY_MS: "1" }));
+
+    await expect(provider.classify(classifyRequest)).rejects.toThrow("OpenAI request failed: 400 bad request");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("local provider", () => {
+  const provider = createLlmProvider(resolveLlmProviderConfig({ LLM_PROVIDER: "local" }));
+
+  it("classifies deterministically from heuristics without network access", async () => {
+    const fetchMock = vi.fn();
+    const originalFetch = global.fetch;
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const first = await provider.classify(classifyRequest);
+    const second = await provider.classify(classifyRequest);
+    global.fetch = originalFetch;
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(first).toEqual(second);
+    expect(first.data).toMatchObject({
+      summary: "Thanks for the show! Attached is the invoice. Please pay by Friday.",
+      labels: ["FINANCE/Invoice"],
+      sentiment: { label: "positive" },
+    });
+    expect(first.usage).toMatchObject({ provider: "local", totalTokens: 0, costUsd: 0 });
+  });
+
+  it("summarises within the word limit", async () => {
+    const { data } = await provider.summarise({
+      system: "",
+      user: "",
+      email: { ...classifyRequest.email, body: "First sentence here. Second sentence follows." },
+      maxWords: 4,
+    });
+    expect(data.summary).toBe("First sentence here.");
+  });
+
+  it("extracts labelled fields", () => {
+    expect(
+      extractFieldsLocally("Venue: Whelan's\nGuarantee Fee = €2,500\nnotes: none", ["venue", "guaranteeFee", "date"])
+    ).toEqual({ venue: "Whelan's", guaranteeFee: "€2,500", date: null });
+  });
+});
@@ -8,6 +8,9 @@ import {
   isPriorityConfigEqual,
   listPriorityConfigPresets,
   normalizePriorityConfigInput,
+  resolveActivePriorityScheduleEntry,
+  resolveScheduledPriorityConfig,
+  resolveStoredPriorityConfig,
   type PriorityConfigInput,
 } from "../priorityConfig";
 
@@ -138,4 +141,84 @@ describe("priorityConfig", () => {
     expect(config.email.unreadBonus).toBe(10);
     expect(config.email.categoryWeights["LOGISTICS/Travel"]).toBe(96);
   });
+
+  describe("preset scheduling", () => {
+    function buildScheduledConfig() {
+      const config = clonePriorityConfig();
+      config.scheduling = {
+        timezone: "Europe/London",
+        entries: [
+          {
+            id: "office",
+            label: "Office",
+            presetSlug: "off-season",
+            daysOfWeek: [1, 2, 3, 4, 5],
+            startTime: "09:00",
+            endTime: "18:00",
+            autoApply: true,
+          },
+          {
+            id: "show",
+            label: "Show night",
+            presetSlug: "touring-season",
+            daysOfWeek: [5],
+            startTime: "16:00",
+            endTime: "02:00",
+            autoApply: true,
+          },
+        ],
+        activeEntryId: null,
+        activePresetSlug: null,
+      };
+      return config;
+    }
+
+    it("resolves entries in the schedule timezone", () => {
+      const config = buildScheduledConfig();
+      // 08:30 UTC on a Monday in July is 09:30 in London.
+      expect(resolveActivePriorityScheduleEntry(config.scheduling, new Date("2025-07-07T08:30:00Z"))?.id).toBe(
+        "office"
+      );
+      expect(resolveActivePriorityScheduleEntry(config.scheduling, new Date("2025-07-07T07:30:00Z"))).toBeNull();
+    });
+
+    it("lets later entries win and carries overnight windows into the next day", () => {
+      const config = buildScheduledConfig();
+      expect(resolveActivePriorityScheduleEntry(config.scheduling, new Date("2025-07-11T16:00:00Z"))?.id).toBe("show");
+      // 01:00 Saturday in London.
+      expect(resolveActivePriorityScheduleEntry(config.scheduling, new Date("2025-07-12T00:00:00Z"))?.id).toBe("show");
+    });
+
+    it("layers the preset over the saved config without changing it", () => {
+      const saved = buildScheduledConfig();
+      saved.email.unreadBonus = 3;
+      saved.email.categoryWeights["FINANCE/Invoice"] = 11;
+      const snapshot = clonePriorityConfig(saved);
+
+      const now = new Date("2025-07-11T16:00:00Z");
+      const during = resolveScheduledPriorityConfig(saved, now);
+      expect(during.activeEntry?.id).toBe("show");
+      expect(during.config.email.categoryWeights["LOGISTICS/Travel"]).toBe(96);
+      expect(during.config.email.unreadBonus).toBe(3);
+      expect(during.config.scheduling.entries).toHaveLength(2);
+      expect(during.config.scheduling.activePresetSlug).toBe("touring-season");
+      expect(saved).toEqual(snapshot);
+
+      // Sunday afternoon: no window is active, so the custom weights apply again.
+      const after = resolveScheduledPriorityConfig(saved, new Date("2025-07-13T15:00:00Z"));
+      expect(after.activeEntry).toBeNull();
+      expect(after.config.email.categoryWeights["FINANCE/Invoice"]).toBe(11);
+      expect(after.config.email.categoryWeights["LOGISTICS/Travel"]).toBe(saved.email.categoryWeights["LOGISTICS/Travel"]);
+      expect(after.config.scheduling.activeEntryId).toBeNull();
+    });
+
+    it("resolves stored rows for scoring", () => {
+      const stored = buildScheduledConfig();
+      const config = resolveStoredPriorityConfig(stored, new Date("2025-07-11T16:00:00Z"));
+      expect(config.scheduling.activeEntryId).toBe("show");
+      expect(resolveStoredPriorityConfig(null).email.categoryWeights).toEqual(
+        DEFAULT_PRIORITY_CONFIG.email.categoryWeights
+      );
+    });
+  });
 });
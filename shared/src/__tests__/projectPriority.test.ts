@@ -92,6 +92,8 @@ function buildProject(overrides: Partial<ProjectRecord> = {}): ProjectRecord {
     color: "#1F2937",
     labels: {},
     priorityProfile: null,
+    templateId: null,
+    templateVersion: null,
     createdBy: null,
     createdAt: NOW.toISOString(),
     updatedAt: NOW.toISOString(),
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import { captureProjectTemplate, instantiateProjectTemplate } from "../projectTemplates";
+import type { ProjectAssignmentRule } from "../projectAssignmentRules";
+import type { ProjectTaskRecord, TimelineItemRecord, TimelineItemType, TimelineLaneDefinition } from "../types";
+
+function buildTimelineItem(overrides: Partial<TimelineItemRecord> = {}): TimelineItemRecord {
+  return {
+    id: "item-show",
+    projectId: "tour",
+    type: "LIVE_HOLD",
+    title: "Whelan's, Dublin",
+    startsAt: "2025-06-10T19:00:00.000Z",
+    endsAt: "2025-06-10T22:00:00.000Z",
+    lane: "LIVE",
+    territory: "IE",
+    status: "confirmed",
+    priorityScore: null,
+    priorityComponents: null,
+    labels: { lane: "LIVE", city: "Dublin" },
+    links: { calendarId: "primary" },
+    kind: null,
+    description: null,
+    dueAt: null,
+    timezone: "Europe/Dublin",
+    createdBy: null,
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    ...overrides,
+  } satisfies TimelineItemRecord;
+}
+
+function buildTask(overrides: Partial<ProjectTaskRecord> = {}): ProjectTaskRecord {
+  return {
+    id: "task-1",
+    projectId: "tour",
+    title: "Send tech rider",
+    description: null,
+    status: "done",
+    dueAt: "2025-06-05T00:00:00.000Z",
+    priority: 40,
+    assigneeId: "user-2",
+    laneId: "lane-merch",
+    laneSlug: "MERCH",
+    laneName: "Merch",
+    laneColor: "#f59e0b",
+    laneIcon: null,
+    createdBy: "user-1",
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function buildLane(overrides: Partial<TimelineLaneDefinition> = {}): TimelineLaneDefinition {
+  return {
+    id: "lane-merch",
+    slug: "MERCH",
+    userId: "user-1",
+    name: "Merch",
+    description: null,
+    color: "#f59e0b",
+    icon: null,
+    sortOrder: 10,
+    autoAssignRules: null,
+    isDefault: false,
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function buildRule(overrides: Partial<ProjectAssignmentRule> = {}): ProjectAssignmentRule {
+  return {
+    id: "rule-1",
+    userId: "user-1",
+    projectId: "tour",
+    name: "Promoter emails",
+    description: null,
+    enabled: true,
+    sortOrder: 0,
+    conditions: { logic: "and", conditions: [] },
+    actions: { projectId: "tour", confidence: "high" },
+    metadata: {},
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("captureProjectTemplate", () => {
+  const snapshot = captureProjectTemplate({
+    project: { id: "tour", startDate: "2025-06-01" },
+    items: [
+      buildTimelineItem(),
+      buildTimelineItem({
+        id: "item-advance",
+        type: "PROMO_SLOT",
+        title: "Advance deadline",
+        startsAt: null,
+        endsAt: null,
+        dueAt: "2025-06-03T16:00:00.000Z",
+        labels: {},
+        lane: "PROMO",
+        timezone: null,
+      }),
+      buildTimelineItem({ id: "item-idea", title: "Possible encore", startsAt: null, endsAt: null, labels: {} }),
+    ],
+    tasks: [buildTask()],
+    lanes: [buildLane(), buildLane({ id: "lane-live", slug: "LIVE", userId: null, name: "Live" })],
+    dependencies: [
+      {
+        id: "dep-1",
+        projectId: "tour",
+        fromItemId: "item-advance",
+        toItemId: "item-show",
+        kind: "FS",
+        note: null,
+        createdAt: "2025-05-01T00:00:00.000Z",
+        updatedAt: "2025-05-01T00:00:00.000Z",
+      },
+    ],
+    assignmentRules: [buildRule(), buildRule({ id: "rule-other", projectId: "other" })],
+  });
+
+  it("stores dates as day offsets with the local start time", () => {
+    const [advance, show, idea] = snapshot.items;
+    expect(advance).toMatchObject({ title: "Advance deadline", offsetDays: 2, lane: "PROMO" });
+    expect(advance.metadata).toMatchObject({ deadline: true, startTime: "16:00" });
+    expect(show).toMatchObject({ title: "Whelan's, Dublin", offsetDays: 9, durationDays: 0, lane: "LIVE" });
+    expect(show.metadata).toMatchObject({
+      startTime: "20:00",
+      durationMinutes: 180,
+      timezone: "Europe/Dublin",
+      status: "confirmed",
+    });
+    expect(idea.metadata).toMatchObject({ unscheduled: true });
+  });
+
+  it("keeps tasks, custom lanes, dependencies and the project's own rules", () => {
+    expect(snapshot.payload.tasks).toEqual([
+      { title: "Send tech rider", description: null, priority: 40, dueOffsetDays: 4, laneSlug: "MERCH" },
+    ]);
+    expect(snapshot.payload.lanes.map((lane) => lane.slug)).toEqual(["MERCH"]);
+    expect(snapshot.payload.dependencies).toEqual([{ fromKey: "item-1", toKey: "item-2", kind: "FS", note: null }]);
+    expect(snapshot.payload.assignmentRules).toHaveLength(1);
+    expect(snapshot.payload.assignmentRules[0].actions).toEqual({ confidence: "high" });
+  });
+
+  it("lays the template out again from a new start date", () => {
+    const plan = instantiateProjectTemplate(snapshot, "2025-12-01");
+    const [advance, show, idea] = plan.items;
+
+    expect(advance).toMatchObject({ startsAt: null, dueAt: "2025-12-03T16:00:00.000Z" });
+    // 20:00 in Dublin is 19:00Z in summer and 20:00Z in winter.
+    expect(show).toMatchObject({
+      startsAt: "2025-12-10T20:00:00.000Z",
+      endsAt: "2025-12-10T23:00:00.000Z",
+      status: "confirmed",
+      timezone: "Europe/Dublin",
+    });
+    expect(idea).toMatchObject({ startsAt: null, endsAt: null, dueAt: null });
+    expect(plan.tasks).toEqual([
+      { title: "Send tech rider", description: null, priority: 40, dueAt: "2025-12-05T00:00:00.000Z", laneSlug: "MERCH" },
+    ]);
+    expect(plan.dependencies).toHaveLength(1);
+  });
+});
+
+describe("instantiateProjectTemplate", () => {
+  it("reads built-in templates with legacy item types and whole-day durations", () => {
+    const plan = instantiateProjectTemplate(
+      {
+        // Seeded templates predate project item types.
+        items: [
+          {
+            itemType: "milestone" as TimelineItemType,
+            title: "Kick-off",
+            lane: "timeline",
+            offsetDays: 2,
+            durationDays: 3,
+            metadata: {},
+          },
+        ],
+        payload: { notes: "seeded" },
+      },
+      "2025-01-10"
+    );
+
+    expect(plan.items).toEqual([
+      expect.objectContaining({
+        type: "RELEASE_MILESTONE",
+        startsAt: "2025-01-12T00:00:00.000Z",
+        endsAt: "2025-01-15T00:00:00.000Z",
+        labels: { lane: "timeline" },
+      }),
+    ]);
+    expect(plan.tasks).toEqual([]);
+    expect(plan.assignmentRules).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { describeRecordRevision, diffRecordSnapshots, getRevisionRestoreSnapshot } from "../recordRevisions";
+import type { ProjectTaskRecord, TimelineItemRecord } from "../types";
+
+function buildTimelineItem(overrides: Partial<TimelineItemRecord> = {}): TimelineItemRecord {
+  return {
+    id: "item-show",
+    projectId: "tour",
+    type: "LIVE_HOLD",
+    title: "Whelan's, Dublin",
+    startsAt: "2025-06-10T19:00:00.000Z",
+    endsAt: "2025-06-10T22:00:00.000Z",
+    lane: "LIVE",
+    territory: "IE",
+    status: "confirmed",
+    priorityScore: null,
+    priorityComponents: null,
+    labels: { lane: "LIVE", city: "Dublin" },
+    links: {},
+    kind: null,
+    description: null,
+    dueAt: null,
+    timezone: null,
+    createdBy: null,
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function buildTask(overrides: Partial<ProjectTaskRecord> = {}): ProjectTaskRecord {
+  return {
+    id: "task-1",
+    projectId: "tour",
+    title: "Send tech rider",
+    description: null,
+    status: "todo",
+    dueAt: null,
+    priority: 0,
+    assigneeId: null,
+    laneId: null,
+    laneSlug: null,
+    laneName: null,
+    laneColor: null,
+    laneIcon: null,
+    createdBy: "user-1",
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("diffRecordSnapshots", () => {
+  it("reports moved dates and ignores bookkeeping fields", () => {
+    const before = buildTimelineItem();
+    const after = buildTimelineItem({
+      startsAt: "2025-06-11T19:00:00.000Z",
+      endsAt: "2025-06-11T22:00:00.000Z",
+      updatedAt: "2025-05-02T00:00:00.000Z",
+      layoutRow: 2,
+    });
+
+    expect(diffRecordSnapshots(before, after)).toEqual(["startsAt", "endsAt"]);
+  });
+
+  it("treats equivalent timestamps and reordered label keys as unchanged", () => {
+    const before = buildTimelineItem();
+    const after = buildTimelineItem({
+      startsAt: "2025-06-10T19:00:00+00:00",
+      labels: { city: "Dublin", lane: "LIVE" },
+    });
+
+    expect(diffRecordSnapshots(before, after)).toEqual([]);
+  });
+
+  it("lists every populated field for creates", () => {
+    const fields = diffRecordSnapshots(null, buildTask({ dueAt: "2025-06-05T00:00:00.000Z" }));
+    expect(fields).toContain("title");
+    expect(fields).toContain("dueAt");
+    expect(fields).not.toContain("createdAt");
+  });
+});
+
+describe("describeRecordRevision", () => {
+  it("names the changed fields in plain words", () => {
+    expect(describeRecordRevision({ operation: "update", changedFields: ["startsAt", "endsAt"] })).toBe(
+      "Changed start and end"
+    );
+    expect(describeRecordRevision({ operation: "update", changedFields: ["laneId", "laneSlug", "status"] })).toBe(
+      "Changed lane and status"
+    );
+    expect(describeRecordRevision({ operation: "delete", changedFields: [] })).toBe("Deleted");
+  });
+});
+
+describe("getRevisionRestoreSnapshot", () => {
+  it("restores the pre-delete state for deletes", () => {
+    const before = buildTask();
+    expect(getRevisionRestoreSnapshot({ before, after: null })).toBe(before);
+    const after = buildTask({ status: "done" });
+    expect(getRevisionRestoreSnapshot({ before, after })).toBe(after);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyEmailReplyDraftEdit,
+  buildReplyDraftPrompt,
+  buildReplyMimeMessage,
+  buildReplySubject,
+  encodeBase64Url,
+  generateEmailReplyDraft,
+  normalizeEmailReplyDraftPayload,
+  normalizeReplyRecipients,
+} from "../replyDrafts";
+
+describe("replyDrafts", () => {
+  it("prefixes reply subjects once", () => {
+    expect(buildReplySubject("Offer for Berlin")).toBe("Re: Offer for Berlin");
+    expect(buildReplySubject("RE: Offer for Berlin")).toBe("RE: Offer for Berlin");
+  });
+
+  it("includes project timeline and canonical assets in the prompt", () => {
+    const prompt = buildReplyDraftPrompt({
+      email: {
+        id: "email-1",
+        subject: "Offer for Berlin",
+        fromName: "Jane",
+        fromEmail: "jane@example.com",
+        summary: "Offer of 5k for 12 May",
+        category: "BOOKING/Offer",
+        labels: ["BOOKING/Offer", "city/Berlin"],
+      },
+      project: { id: "project-1", name: "Europe Tour" },
+      timeline: [
+        { id: "item-1", title: "Berlin show", type: "event", startsAt: "2024-05-12T20:00:00Z", dueAt: null, status: "hold" },
+      ],
+      assets: [{ id: "asset-1", title: "Tech rider", canonicalCategory: "epk", url: "https://drive.example/rider" }],
+    });
+
+    expect(prompt.user).toContain("Project: Europe Tour");
+    expect(prompt.user).toContain("- Berlin show (event, 2024-05-12, hold)");
+    expect(prompt.user).toContain("- Tech rider [epk]: https://drive.example/rider");
+    expect(prompt.user).toContain("Labels: BOOKING/Offer, city/Berlin");
+  });
+
+  it("drafts the body through the model provider", async () => {
+    const extract = vi.fn().mockResolvedValue({ data: { body: "  Thanks Jane, 12 May works.  " }, usage: {} });
+    const provider = { name: "openai", model: "gpt-4o-mini", classify: vi.fn(), summarise: vi.fn(), extract } as const;
+    const context = {
+      email: {
+        id: "email-1",
+        subject: "Offer for Berlin",
+        fromName: "Jane",
+        fromEmail: "jane@example.com",
+        summary: null,
+        category: "BOOKING/Offer" as const,
+        labels: [],
+      },
+      project: null,
+      timeline: [],
+      assets: [],
+    };
+
+    await expect(generateEmailReplyDraft(context, provider)).resolves.toBe("Thanks Jane, 12 May works.");
+    expect(extract).toHaveBeenCalledWith(expect.objectContaining({ fields: ["body"], temperature: 0.5 }));
+
+    extract.mockResolvedValueOnce({ data: { body: null }, usage: {} });
+    await expect(generateEmailReplyDraft(context, provider)).rejects.toThrow("missing reply body");
+  });
+
+  it("keeps reviewer edits and the generated original", () => {
+    const payload = normalizeEmailReplyDraftPayload({
+      emailId: "email-1",
+      userId: "user-1",
+      to: "jane@example.com",
+      subject: "Re: Offer",
+      body: "Generated reply",
+    });
+
+    const edited = applyEmailReplyDraftEdit(payload, { body: "Edited reply", subject: " " }, "user-2", new Date("2024-05-01T00:00:00Z"));
+
+    expect(edited.body).toBe("Edited reply");
+    expect(edited.subject).toBe("Re: Offer");
+    expect(edited.generatedBody).toBe("Generated reply");
+    expect(edited.editedBy).toBe("user-2");
+    expect(normalizeEmailReplyDraftPayload(edited).body).toBe("Edited reply");
+  });
+
+  it("validates edited recipient lists", () => {
+    expect(normalizeReplyRecipients(' jane@example.com,"Doe, John" <john@example.com> ')).toBe(
+      'jane@example.com, "Doe, John" <john@example.com>'
+    );
+    expect(normalizeReplyRecipients("jane@example.com\r\nBcc: all@example.com")).toBeNull();
+    expect(normalizeReplyRecipients("jane@example.com, not-an-address")).toBeNull();
+
+    const payload = normalizeEmailReplyDraftPayload({ to: "jane@example.com", subject: "Re: Offer", body: "Hi" });
+    expect(() => applyEmailReplyDraftEdit(payload, { to: "jane@example.com\nBcc: x@example.com" }, "user-2")).toThrow(
+      /email addresses/
+    );
+    expect(() =>
+      buildReplyMimeMessage({ ...payload, to: "jane@example.com\r\nBcc: x@example.com" })
+    ).toThrow(/line breaks/);
+  });
+
+  it("builds a threaded MIME message", () => {
+    const mime = buildReplyMimeMessage({
+      to: "jane@example.com",
+      subject: "Re: Offer",
+      body: "Thanks\nTalk soon",
+      inReplyTo: "<b@x>",
+      references: ["<a@x>"],
+    });
+
+    expect(mime).toContain("In-Reply-To: <b@x>\r\n");
+    expect(mime).toContain("References: <a@x> <b@x>\r\n");
+    expect(mime.endsWith("\r\n\r\nThanks\r\nTalk soon")).toBe(true);
+    expect(encodeBase64Url("??>")).toBe("Pz8-");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { calculateEmailInboxPriority } from "../emailPriority";
+import { isSnoozeExpired, planSnoozeWake, resolveSnoozePresets, resolveSnoozeWakeState } from "../snooze";
+
+describe("snooze", () => {
+  it("resolves presets in the user's timezone", () => {
+    const now = new Date("2024-06-10T09:00:00.000Z"); // 11:00 in Berlin
+    const presets = resolveSnoozePresets({
+      now,
+      timezone: "Europe/Berlin",
+      nextShowAt: "2024-06-14T18:00:00.000Z",
+    });
+
+    expect(presets.map((preset) => preset.preset)).toEqual(["later_today", "tomorrow_morning", "next_show_day"]);
+    expect(presets[0].snoozedUntil).toBe("2024-06-10T12:00:00.000Z");
+    expect(presets[1].snoozedUntil).toBe("2024-06-11T06:00:00.000Z");
+    expect(presets[2].snoozedUntil).toBe("2024-06-14T06:00:00.000Z");
+  });
+
+  it("drops later today in the evening and shows that are not after tomorrow", () => {
+    const presets = resolveSnoozePresets({
+      now: new Date("2024-01-10T20:00:00.000Z"),
+      timezone: "UTC",
+      nextShowAt: "2024-01-11T07:00:00.000Z",
+    });
+
+    expect(presets.map((preset) => preset.preset)).toEqual(["tomorrow_morning"]);
+    expect(presets[0].snoozedUntil).toBe("2024-01-11T08:00:00.000Z");
+  });
+
+  it("detects expired snoozes and restores the prior state", () => {
+    const now = new Date("2024-06-10T09:00:00.000Z");
+    expect(isSnoozeExpired({ triageState: "snoozed", snoozedUntil: "2024-06-10T08:59:00.000Z" }, now)).toBe(true);
+    expect(isSnoozeExpired({ triageState: "snoozed", snoozedUntil: "2024-06-10T09:01:00.000Z" }, now)).toBe(false);
+    expect(isSnoozeExpired({ triageState: "acknowledged", snoozedUntil: "2024-06-10T08:00:00.000Z" }, now)).toBe(false);
+    expect(resolveSnoozeWakeState("acknowledged")).toBe("acknowledged");
+    expect(resolveSnoozeWakeState("resolved")).toBe("unassigned");
+    expect(resolveSnoozeWakeState(null)).toBe("unassigned");
+  });
+
+  it("raises priority when a snooze wakes", () => {
+    const now = new Date("2024-06-10T09:00:00.000Z");
+    const email = {
+      category: "BOOKING/Offer" as const,
+      labels: [],
+      receivedAt: "2024-06-07T09:00:00.000Z",
+      isRead: false,
+    };
+    const snoozedScore = calculateEmailInboxPriority(
+      { ...email, triageState: "snoozed", snoozedUntil: "2024-06-10T08:00:00.000Z" },
+      { now }
+    );
+
+    const plan = planSnoozeWake({ ...email, priorityScore: snoozedScore }, { now });
+
+    expect(plan.triageState).toBe("unassigned");
+    expect(plan.previousPriorityScore).toBe(snoozedScore);
+    expect(plan.priorityScore).toBeGreaterThan(snoozedScore);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTimelineImportCandidates,
+  parseCsv,
+  parseIcsEvents,
+  planTimelineImport,
+  suggestImportMapping,
+  tabulateImportRows,
+} from "../timelineImport";
+import type { TimelineItemRecord } from "../types";
+
+function buildTimelineItem(overrides: Partial<TimelineItemRecord> = {}): TimelineItemRecord {
+  return {
+    id: "existing-1",
+    projectId: "tour",
+    type: "LIVE_HOLD",
+    title: "Whelan's, Dublin",
+    startsAt: "2025-06-10T19:00:00.000Z",
+    endsAt: "2025-06-10T22:00:00.000Z",
+    lane: "LIVE",
+    territory: "IE",
+    status: "tentative",
+    priorityScore: null,
+    priorityComponents: null,
+    labels: { city: "Dublin", venue: "Whelan's", territory: "IE" },
+    links: {},
+    kind: null,
+    description: null,
+    dueAt: null,
+    timezone: "Europe/Dublin",
+    createdBy: null,
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    ...overrides,
+  } satisfies TimelineItemRecord;
+}
+
+const ROUTING_SHEET = [
+  "Date;Venue;City;Country;Status;Notes",
+  '10/06/2025;Whelan\'s;Dublin;IE;Hold;"Doors 19:00; support TBC"',
+  "12/06/2025;Cyprus Avenue;Cork;IE;Confirmed;",
+].join("\r\n");
+
+function importSheet(text: string) {
+  const table = tabulateImportRows(parseCsv(text), "csv");
+  return buildTimelineImportCandidates(table.rows, suggestImportMapping(table.columns, "csv"), "tour");
+}
+
+describe("parseCsv", () => {
+  it("detects semicolons and keeps quoted delimiters and quotes", () => {
+    const rows = parseCsv('\uFEFFTitle;Notes\r\n"Show; late";"He said ""hi"""\r\n\r\n');
+    expect(rows).toEqual([
+      ["Title", "Notes"],
+      ["Show; late", 'He said "hi"'],
+    ]);
+  });
+});
+
+describe("suggestImportMapping", () => {
+  it("matches common routing sheet headers", () => {
+    expect(suggestImportMapping(["Show Date", "Venue", "Town", "Country", "Doors", "Booking ID"])).toEqual({
+      startDate: "Show Date",
+      venue: "Venue",
+      city: "Town",
+      territory: "Country",
+      startTime: "Doors",
+      externalId: "Booking ID",
+    });
+  });
+});
+
+describe("buildTimelineImportCandidates", () => {
+  it("uses the city's timezone, the default start time and day-first dates", () => {
+    const [dublin, cork] = importSheet(ROUTING_SHEET);
+    expect(dublin.errors).toEqual([]);
+    expect(dublin.item?.timezone).toBe("Europe/Dublin");
+    expect(dublin.item?.startsAt).toBe("2025-06-10T19:00:00.000Z");
+    expect(dublin.item?.endsAt).toBe("2025-06-10T22:00:00.000Z");
+    expect(dublin.item?.status).toBe("tentative");
+    expect(dublin.item?.title).toBe("Whelan's, Dublin");
+    expect(dublin.item?.description).toBe("Doors 19:00; support TBC");
+    expect(dublin.importKey).toBe("row:2025-06-10|whelan s");
+    expect(cork.item?.status).toBe("confirmed");
+  });
+
+  it("reads spreadsheet serials, pm times and explains unusable rows", () => {
+    const candidates = buildTimelineImportCandidates(
+      [
+        { Date: "45818", Time: "8pm", City: "Berlin", Ref: "B-1" },
+        { Date: "someday", Time: "", City: "Berlin", Ref: "" },
+      ],
+      { startDate: "Date", startTime: "Time", city: "City", externalId: "Ref" },
+      "tour"
+    );
+    expect(candidates[0].item?.startsAt).toBe("2025-06-10T18:00:00.000Z");
+    expect(candidates[0].importKey).toBe("id:B-1");
+    expect(candidates[1].item).toBeNull();
+    expect(candidates[1].errors).toEqual(['Unrecognised date "someday"']);
+  });
+});
+
+describe("parseIcsEvents", () => {
+  it("flattens events and keeps the start TZID", () => {
+    const table = parseIcsEvents(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:show-1@agency",
+        "SUMMARY:Live at Vicar St\\, Dublin",
+        "DTSTART;TZID=Europe/Dublin:20250610T200000",
+        "DTEND;TZID=Europe/Dublin:20250610T230000",
+        "LOCATION:Vicar Street, Dublin, Ireland",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+    expect(table.rows).toHaveLength(1);
+    expect(table.rows[0]).toMatchObject({ UID: "show-1@agency", SUMMARY: "Live at Vicar St, Dublin", TZID: "Europe/Dublin" });
+
+    const [candidate] = buildTimelineImportCandidates(table.rows, suggestImportMapping(table.columns, "ics"), "tour");
+    expect(candidate.item?.startsAt).toBe("2025-06-10T19:00:00.000Z");
+    expect(candidate.item?.endsAt).toBe("2025-06-10T22:00:00.000Z");
+    expect(candidate.item?.labels).toMatchObject({ city: "Dublin", venue: "Vicar Street" });
+    expect(candidate.importKey).toBe("id:show-1@agency");
+  });
+});
+
+describe("planTimelineImport", () => {
+  it("updates items from an earlier import instead of duplicating them", () => {
+    const [dublin, cork] = importSheet(ROUTING_SHEET);
+    const previous = buildTimelineItem({ status: "planned", links: { importKey: dublin.importKey } });
+
+    const plan = planTimelineImport([dublin, cork], [previous]);
+    expect(plan.rows.map((row) => row.action)).toEqual(["update", "create"]);
+    expect(plan.rows[0]).toMatchObject({ matchedItemId: "existing-1", matchedBy: "import_key" });
+    expect(plan.summary).toEqual({ create: 1, update: 1, unchanged: 0, invalid: 0 });
+  });
+
+  it("matches hand-entered items on the same day and place and skips unchanged ones", () => {
+    const [dublin] = importSheet(ROUTING_SHEET);
+    const plan = planTimelineImport([dublin], [buildTimelineItem()]);
+    expect(plan.rows[0]).toMatchObject({ action: "unchanged", matchedBy: "date_and_place" });
+  });
+
+  it("flags duplicate rows within the file", () => {
+    const candidates = importSheet(`${ROUTING_SHEET}\r\n10/06/2025;Whelan's;Dublin;IE;Hold;`);
+    const plan = planTimelineImport(candidates, []);
+    expect(plan.rows[2].action).toBe("invalid");
+    expect(plan.rows[2].errors).toContain("Duplicate of row 1");
+  });
+
+  it("reports conflicts the imported rows would create", () => {
+    const [dublin] = importSheet(ROUTING_SHEET);
+    const clash = buildTimelineItem({
+      id: "existing-cork",
+      title: "Cork show",
+      labels: { city: "Cork", territory: "IE" },
+      timezone: "Europe/Dublin",
+    });
+
+    const plan = planTimelineImport([dublin], [clash]);
+    expect(plan.rows[0].action).toBe("create");
+    expect(plan.conflicts.length).toBeGreaterThan(0);
+    expect(plan.rows[0].conflicts.length).toBeGreaterThan(0);
+    expect(plan.conflicts.every((conflict) => conflict.items.some((item) => item.id === "import-row-0"))).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { detectTimelineConflicts } from "../timelineConflicts";
+import { computeCriticalPath, detectDependencyViolations, planDependencyCascade } from "../timelineScheduling";
+import type { TimelineDependencyRecord, TimelineItemRecord } from "../types";
+
+function buildTimelineItem(overrides: Partial<TimelineItemRecord> = {}): TimelineItemRecord {
+  return {
+    id: "timeline-1",
+    projectId: "project-1",
+    type: "RELEASE_MILESTONE",
+    title: "Milestone",
+    startsAt: "2025-03-01T09:00:00.000Z",
+    endsAt: "2025-03-01T17:00:00.000Z",
+    lane: "RELEASE",
+    territory: null,
+    status: "planned",
+    priorityScore: 50,
+    priorityComponents: null,
+    labels: {},
+    links: {},
+    kind: null,
+    description: null,
+    dueAt: null,
+    timezone: "UTC",
+    createdBy: null,
+    createdAt: "2025-02-01T00:00:00.000Z",
+    updatedAt: "2025-02-01T00:00:00.000Z",
+    ...overrides,
+  } satisfies TimelineItemRecord;
+}
+
+function buildDependency(fromItemId: string, toItemId: string, kind: "FS" | "SS" = "FS"): TimelineDependencyRecord {
+  return {
+    id: `${fromItemId}->${toItemId}`,
+    projectId: "project-1",
+    fromItemId,
+    toItemId,
+    kind,
+    note: null,
+    createdAt: "2025-02-01T00:00:00.000Z",
+    updatedAt: "2025-02-01T00:00:00.000Z",
+  };
+}
+
+// master (1 Mar) -> artwork (3 Mar) -> release (10 Mar), plus a press note that can float.
+const items = [
+  buildTimelineItem({ id: "master", title: "Master delivered" }),
+  buildTimelineItem({
+    id: "artwork",
+    title: "Artwork approved",
+    startsAt: "2025-03-03T09:00:00.000Z",
+    endsAt: "2025-03-03T17:00:00.000Z",
+  }),
+  buildTimelineItem({
+    id: "release",
+    title: "Release day",
+    startsAt: "2025-03-10T00:00:00.000Z",
+    endsAt: "2025-03-10T23:00:00.000Z",
+  }),
+  buildTimelineItem({
+    id: "press",
+    title: "Press note",
+    startsAt: "2025-03-02T09:00:00.000Z",
+    endsAt: "2025-03-02T10:00:00.000Z",
+  }),
+];
+
+describe("timeline scheduling", () => {
+  it("computes slack and the critical path", () => {
+    const result = computeCriticalPath(items, [
+      buildDependency("master", "artwork"),
+      buildDependency("artwork", "release"),
+      buildDependency("master", "press"),
+    ]);
+
+    expect(result.criticalPath).toEqual(["release"]);
+    expect(result.metrics.artwork.slackHours).toBe(151);
+    expect(result.metrics.master.slackHours).toBe(191);
+    expect(result.metrics.press.slackHours).toBe(205);
+    expect(result.projectFinish).toBe("2025-03-10T23:00:00.000Z");
+  });
+
+  it("marks tightly chained items as critical and reports cycles", () => {
+    const chained = [
+      buildTimelineItem({ id: "a" }),
+      buildTimelineItem({ id: "b", startsAt: "2025-03-01T17:00:00.000Z", endsAt: "2025-03-02T09:00:00.000Z" }),
+      buildTimelineItem({ id: "c" }),
+      buildTimelineItem({ id: "d" }),
+    ];
+    const result = computeCriticalPath(chained, [
+      buildDependency("a", "b"),
+      buildDependency("c", "d"),
+      buildDependency("d", "c"),
+    ]);
+
+    expect(result.criticalPath).toEqual(["a", "b"]);
+    expect(result.cyclicItemIds.sort()).toEqual(["c", "d"]);
+  });
+
+  it("flags successors that start before their predecessor allows", () => {
+    const early = items.map((item) =>
+      item.id === "artwork" ? { ...item, startsAt: "2025-03-01T12:00:00.000Z", endsAt: "2025-03-01T14:00:00.000Z" } : item
+    );
+    const dependencies = [buildDependency("master", "artwork"), buildDependency("master", "press", "SS")];
+
+    const violations = detectDependencyViolations(early, dependencies);
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ type: "dependency_violation", severity: "error" });
+    expect(violations[0].message).toBe("Artwork approved starts 5h before Master delivered finishes");
+
+    const conflicts = detectTimelineConflicts(early, { dependencies });
+    expect(conflicts.some((conflict) => conflict.type === "dependency_violation")).toBe(true);
+    expect(detectTimelineConflicts(early).some((conflict) => conflict.type === "dependency_violation")).toBe(false);
+  });
+
+  it("plans a cascade that pushes dependents just far enough", () => {
+    const moved = items.map((item) =>
+      item.id === "master" ? { ...item, startsAt: "2025-03-05T09:00:00.000Z", endsAt: "2025-03-05T17:00:00.000Z" } : item
+    );
+    const shifts = planDependencyCascade(
+      moved,
+      [buildDependency("master", "artwork"), buildDependency("artwork", "release"), buildDependency("master", "press", "SS")],
+      "master"
+    );
+
+    expect(shifts.map((shift) => shift.itemId)).toEqual(["press", "artwork"]);
+    expect(shifts.find((shift) => shift.itemId === "artwork")?.to).toEqual({
+      startsAt: "2025-03-05T17:00:00.000Z",
+      endsAt: "2025-03-06T01:00:00.000Z",
+      dueAt: null,
+    });
+    expect(shifts.find((shift) => shift.itemId === "press")?.to.startsAt).toBe("2025-03-05T09:00:00.000Z");
+  });
+});
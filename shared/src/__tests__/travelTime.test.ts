@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { findGazetteerCity, resolveLocation } from "../gazetteer";
+import { estimateTravelTime } from "../travelTime";
+import { detectTimelineConflicts, findUnmatchedLocations } from "../timelineConflicts";
+import type { TimelineItemRecord } from "../types";
+
+function buildTimelineItem(overrides: Partial<TimelineItemRecord> = {}): TimelineItemRecord {
+  return {
+    id: "timeline-1",
+    projectId: "tour",
+    type: "LIVE_HOLD",
+    title: "Berlin show",
+    startsAt: "2025-06-10T18:00:00.000Z",
+    endsAt: "2025-06-10T23:00:00.000Z",
+    lane: "LIVE",
+    territory: "DE",
+    status: "planned",
+    priorityScore: 50,
+    priorityComponents: null,
+    labels: { city: "Berlin" },
+    links: {},
+    kind: null,
+    description: null,
+    dueAt: null,
+    timezone: null,
+    createdBy: null,
+    createdAt: "2025-05-01T00:00:00.000Z",
+    updatedAt: "2025-05-01T00:00:00.000Z",
+    ...overrides,
+  } satisfies TimelineItemRecord;
+}
+
+describe("estimateTravelTime", () => {
+  it("picks a mode from the distance between the two cities", () => {
+    const dublinCork = estimateTravelTime({ city: "Dublin", territory: "IE" }, { city: "Cork", territory: "IE" });
+    expect(dublinCork.mode).toBe("rail");
+    expect(dublinCork.hours).toBeGreaterThanOrEqual(2);
+    expect(dublinCork.hours).toBeLessThanOrEqual(3.5);
+
+    const berlinPrague = estimateTravelTime({ city: "Berlin", territory: "DE" }, { city: "Prague", territory: "CZ" });
+    expect(["drive", "rail"]).toContain(berlinPrague.mode);
+
+    const dublinBerlin = estimateTravelTime({ city: "Dublin", territory: "IE" }, { city: "Berlin", territory: "DE" });
+    expect(dublinBerlin.mode).toBe("short_haul_flight");
+    expect(dublinBerlin.hours).toBeGreaterThan(dublinCork.hours);
+
+    const sydneySingapore = estimateTravelTime({ city: "Sydney", territory: "AU" }, { city: "Singapore", territory: "SG" });
+    expect(sydneySingapore.mode).toBe("long_haul_flight");
+    expect(sydneySingapore.hours).toBeGreaterThan(10);
+    expect(sydneySingapore.approximate).toBe(false);
+  });
+
+  it("drives across the Irish border instead of flying", () => {
+    const dublinBelfast = estimateTravelTime({ city: "Dublin", territory: "IE" }, { city: "Belfast", territory: "GB" });
+    expect(dublinBelfast.mode).toBe("drive");
+    expect(dublinBelfast.hours).toBeLessThanOrEqual(3);
+
+    const londonDublin = estimateTravelTime({ city: "London", territory: "GB" }, { city: "Dublin", territory: "IE" });
+    expect(londonDublin.mode).toBe("short_haul_flight");
+  });
+
+  it("falls back to the territory for unknown cities and marks the estimate approximate", () => {
+    const estimate = estimateTravelTime({ city: "Ballydehob", territory: "IE" }, { city: "Berlin", territory: "DE" });
+    expect(estimate.mode).toBe("short_haul_flight");
+    expect(estimate.approximate).toBe(true);
+
+    const unknown = estimateTravelTime({ city: "Atlantis", territory: null }, { city: "Berlin", territory: "DE" });
+    expect(unknown.mode).toBe("unknown");
+    expect(unknown.distanceKm).toBeNull();
+  });
+});
+
+describe("resolveLocation", () => {
+  it("matches aliases, accents and territory aliases", () => {
+    expect(findGazetteerCity("München")?.name).toBe("Munich");
+    expect(findGazetteerCity("muenchen")?.name).toBe("Munich");
+    expect(resolveLocation("Leeds", "UK")).toMatchObject({ matchedBy: "city", unmatchedCity: null });
+    expect(resolveLocation("Nowhere Town", "NL")).toMatchObject({ matchedBy: "territory", unmatchedCity: "Nowhere Town" });
+  });
+});
+
+describe("timeline travel conflicts", () => {
+  it("only warns about timezone jumps when the UTC offset actually changes", () => {
+    const berlin = buildTimelineItem({ id: "berlin" });
+    const amsterdam = buildTimelineItem({
+      id: "amsterdam",
+      title: "Amsterdam show",
+      territory: "NL",
+      labels: { city: "Amsterdam" },
+      startsAt: "2025-06-11T12:00:00.000Z",
+      endsAt: "2025-06-11T16:00:00.000Z",
+    });
+    const london = buildTimelineItem({
+      id: "london",
+      title: "London show",
+      territory: "GB",
+      labels: { city: "London" },
+      startsAt: "2025-06-11T02:00:00.000Z",
+      endsAt: "2025-06-11T04:00:00.000Z",
+    });
+
+    const sameOffset = detectTimelineConflicts([berlin, amsterdam], { bufferHours: 0 });
+    expect(sameOffset.some((conflict) => conflict.type === "timezone_jump")).toBe(false);
+
+    const conflicts = detectTimelineConflicts([berlin, london], { bufferHours: 0 });
+    const jump = conflicts.find((conflict) => conflict.type === "timezone_jump");
+    expect(jump?.metadata).toMatchObject({ fromTimezone: "Europe/Berlin", toTimezone: "Europe/London", offsetDifferenceHours: -1 });
+
+    const travel = conflicts.find((conflict) => conflict.type === "travel_time");
+    expect(travel?.metadata).toMatchObject({ travelMode: "short_haul_flight", approximate: false });
+  });
+
+  it("lists items whose city is not in the gazetteer", () => {
+    const items = [
+      buildTimelineItem({ id: "known" }),
+      buildTimelineItem({ id: "typo", title: "Festival", labels: { city: "Berlni" } }),
+      buildTimelineItem({ id: "none", labels: {} }),
+    ];
+    expect(findUnmatchedLocations(items)).toEqual([
+      { itemId: "typo", title: "Festival", city: "Berlni", territory: "DE" },
+    ]);
+  });
+});
@@ -0,0 +1,307 @@
+import type { AuditLogRecord } from "./types";
+
+/** Project hub tabs an activity entry can point at. */
+export type ActivityProjectTab = "overview" | "timeline" | "inbox" | "tasks" | "files" | "people" | "approvals" | "settings";
+
+export type ActivityTarget =
+  | { kind: "project"; projectId: string; tab: ActivityProjectTab; refId: string | null }
+  | { kind: "page"; href: string };
+
+export interface ActivityFeedEntry {
+  /** Id of the newest audit entry in the group. */
+  id: string;
+  projectId: string | null;
+  actorId: string | null;
+  actorName: string;
+  action: string;
+  entity: string;
+  summary: string;
+  target: ActivityTarget | null;
+  /** Number of audit entries folded into this one, e.g. 3 for "linked 3 emails". */
+  count: number;
+  logIds: string[];
+  occurredAt: string;
+}
+
+export interface BuildActivityFeedOptions {
+  /** Display names keyed by user id; unknown users show as "Someone". */
+  actorNames?: Record<string, string>;
+  /** Repeats of the same action by the same person within this window are grouped. */
+  groupWindowMinutes?: number;
+}
+
+interface ActivityDescription {
+  summary: string;
+  target: ActivityTarget | null;
+}
+
+type ActivityDescriber = (logs: AuditLogRecord[], actor: string) => ActivityDescription;
+
+const DEFAULT_GROUP_WINDOW_MINUTES = 15;
+const SYSTEM_ACTOR = "Kazador";
+const UNKNOWN_ACTOR = "Someone";
+
+function text(log: AuditLogRecord, key: string): string | null {
+  const value = log.metadata?.[key];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function count(log: AuditLogRecord, key: string): number | null {
+  const value = Number(log.metadata?.[key]);
+  return Number.isFinite(value) ? value : null;
+}
+
+function quote(value: string | null, fallback: string): string {
+  return value ? `“${value}”` : fallback;
+}
+
+function plural(amount: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${amount} ${amount === 1 ? singular : pluralForm}`;
+}
+
+function projectTarget(log: AuditLogRecord, tab: ActivityProjectTab, refId: string | null = log.refId): ActivityTarget | null {
+  return log.projectId ? { kind: "project", projectId: log.projectId, tab, refId } : null;
+}
+
+const INTEGRATIONS_PAGE: ActivityTarget = { kind: "page", href: "/settings/integrations" };
+
+const PROVIDER_NAMES: Record<string, string> = {
+  gmail: "Gmail",
+  drive: "Google Drive",
+  calendar: "Google Calendar",
+};
+
+function describeOAuth(provider: string, verb: "connected" | "disconnected" | "denied"): ActivityDescriber {
+  return ([log], actor) => {
+    const account = text(log, "accountEmail");
+    const name = PROVIDER_NAMES[provider] ?? provider;
+    const suffix = account ? ` (${account})` : "";
+    const summary =
+      verb === "denied" ? `${actor} cancelled connecting ${name}` : `${actor} ${verb} ${name}${suffix}`;
+    return { summary, target: INTEGRATIONS_PAGE };
+  };
+}
+
+function describeApproval(verb: "approved" | "declined"): ActivityDescriber {
+  return (logs, actor) => {
+    const [log] = logs;
+    const target = projectTarget(log, "approvals");
+    if (logs.length > 1) {
+      return { summary: `${actor} ${verb} ${plural(logs.length, "approval")}`, target };
+    }
+    const title = text(log, "title");
+    return {
+      summary: title ? `Approval for ${title} ${verb} by ${actor}` : `${actor} ${verb} an approval`,
+      target,
+    };
+  };
+}
+
+const DESCRIBERS: Record<string, ActivityDescriber> = {
+  "email.linked": (logs, actor) => {
+    const [log] = logs;
+    const target = projectTarget(log, "inbox", text(log, "emailId") ?? log.refId);
+    if (logs.length > 1) {
+      return { summary: `${actor} linked ${plural(logs.length, "email")}`, target };
+    }
+    return { summary: `${actor} linked ${quote(text(log, "subject"), "an email")}`, target };
+  },
+  "email.unlinked": (logs, actor) => {
+    const [log] = logs;
+    const target = projectTarget(log, "inbox", null);
+    if (logs.length > 1) {
+      return { summary: `${actor} unlinked ${plural(logs.length, "email")}`, target };
+    }
+    return { summary: `${actor} unlinked ${quote(text(log, "subject"), "an email")}`, target };
+  },
+  "email.snooze_woken": () => ({
+    summary: "A snoozed email came back to the inbox",
+    target: { kind: "page", href: "/inbox" },
+  }),
+  "approval.approved": describeApproval("approved"),
+  "approval.declined": describeApproval("declined"),
+  "timeline.imported": ([log], actor) => {
+    const created = count(log, "created") ?? 0;
+    const updated = count(log, "updated") ?? 0;
+    const parts = [`imported ${plural(created, "timeline item")}`];
+    if (updated > 0) parts.push(`updated ${updated}`);
+    return { summary: `${actor} ${parts.join(" and ")}`, target: projectTarget(log, "timeline", null) };
+  },
+  "calendar.event.created": (logs, actor) => {
+    const [log] = logs;
+    if (log.entity !== "project_item") {
+      return {
+        summary: `${actor} added ${quote(text(log, "summary"), "an event")} to the calendar`,
+        target: { kind: "page", href: "/calendar" },
+      };
+    }
+    const target = projectTarget(log, "timeline");
+    if (logs.length > 1) {
+      return { summary: `${actor} sent ${plural(logs.length, "timeline item")} to Google Calendar`, target };
+    }
+    return { summary: `${actor} sent ${quote(text(log, "summary"), "a timeline item")} to Google Calendar`, target };
+  },
+  "calendar.event.updated": ([log], actor) => ({
+    summary: `${actor} updated ${quote(text(log, "summary"), "a timeline item")} in Google Calendar`,
+    target: projectTarget(log, "timeline"),
+  }),
+  "calendar.source.connected": ([log], actor) => ({
+    summary: `${actor} connected the calendar ${quote(text(log, "calendarSummary") ?? text(log, "calendarId"), "")}`.trim(),
+    target: projectTarget(log, "settings"),
+  }),
+  "calendar.user_source.connected": (_logs, actor) => ({
+    summary: `${actor} connected a personal calendar`,
+    target: { kind: "page", href: "/calendar" },
+  }),
+  "calendar.user_source.disconnected": (_logs, actor) => ({
+    summary: `${actor} disconnected a personal calendar`,
+    target: { kind: "page", href: "/calendar" },
+  }),
+  "calendar.user_events.synced": (_logs, actor) => ({
+    summary: `${actor} synced their calendars`,
+    target: { kind: "page", href: "/calendar" },
+  }),
+  "drive.folder.connected": ([log], actor) => ({
+    summary: `${actor} connected the Drive folder ${quote(text(log, "folderName"), "")}`.trim(),
+    target: projectTarget(log, "files"),
+  }),
+  "drive.file.connected": ([log], actor) => ({
+    summary: `${actor} connected the Drive file ${quote(text(log, "fileName"), "")}`.trim(),
+    target: projectTarget(log, "files"),
+  }),
+  "drive.folder.reindexed": ([log], actor) => {
+    const assets = count(log, "assetCount");
+    const suffix = assets != null ? ` (${plural(assets, "file")})` : "";
+    return {
+      summary: `${actor} re-indexed ${quote(text(log, "folderName"), "a Drive folder")}${suffix}`,
+      target: projectTarget(log, "files"),
+    };
+  },
+  "drive.file.reindexed": ([log], actor) => ({
+    summary: `${actor} re-indexed ${quote(text(log, "fileName"), "a Drive file")}`,
+    target: projectTarget(log, "files"),
+  }),
+  "drive.asset.filed_from_email": (logs, actor) => {
+    const total = logs.reduce((sum, log) => sum + (count(log, "assetCount") ?? 0), 0);
+    return {
+      summary: `${actor} filed ${plural(total, "email attachment")} to Drive`,
+      target: projectTarget(logs[0], "files", null),
+    };
+  },
+  "drive.asset.linked": (logs, actor) => ({
+    summary: logs.length > 1 ? `${actor} linked ${plural(logs.length, "file")} to project records` : `${actor} linked a file to a project record`,
+    target: projectTarget(logs[0], "files", null),
+  }),
+  "drive.asset.unlinked": (logs, actor) => ({
+    summary: logs.length > 1 ? `${actor} removed ${plural(logs.length, "file link")}` : `${actor} removed a file link`,
+    target: projectTarget(logs[0], "files", null),
+  }),
+  "drive.asset.marked_canonical": ([log], actor) => {
+    const category = text(log, "category");
+    return {
+      summary: `${actor} marked a file as the canonical ${category ?? "version"}`,
+      target: projectTarget(log, "files"),
+    };
+  },
+  "drive.asset.unmarked_canonical": ([log], actor) => ({
+    summary: `${actor} unmarked a canonical file`,
+    target: projectTarget(log, "files"),
+  }),
+  "project.template_saved": ([log], actor) => ({
+    summary: `${actor} saved the project as the template ${quote(text(log, "name"), "")}`.trim(),
+    target: { kind: "page", href: "/settings/templates" },
+  }),
+  "slack.settings.updated": (_logs, actor) => ({
+    summary: `${actor} updated Slack delivery settings`,
+    target: INTEGRATIONS_PAGE,
+  }),
+  "gmail.oauth.connected": describeOAuth("gmail", "connected"),
+  "gmail.oauth.disconnected": describeOAuth("gmail", "disconnected"),
+  "gmail.oauth.denied": describeOAuth("gmail", "denied"),
+  "drive.oauth.connected": describeOAuth("drive", "connected"),
+  "drive.oauth.disconnected": describeOAuth("drive", "disconnected"),
+  "drive.oauth.denied": describeOAuth("drive", "denied"),
+  "calendar.oauth.connected": describeOAuth("calendar", "connected"),
+  "calendar.oauth.disconnected": describeOAuth("calendar", "disconnected"),
+  "calendar.oauth.denied": describeOAuth("calendar", "denied"),
+};
+
+/** Actions where a burst of repeats reads better as one line. */
+const GROUPABLE_ACTIONS = new Set([
+  "email.linked",
+  "email.unlinked",
+  "approval.approved",
+  "approval.declined",
+  "calendar.event.created",
+  "drive.asset.filed_from_email",
+  "drive.asset.linked",
+  "drive.asset.unlinked",
+]);
+
+function describeFallback(logs: AuditLogRecord[], actor: string): ActivityDescription {
+  const [log] = logs;
+  const action = log.action.replace(/[._]+/g, " ").trim();
+  const times = logs.length > 1 ? ` (${logs.length}×)` : "";
+  return { summary: `${actor} recorded ${action}${times}`, target: projectTarget(log, "overview", null) };
+}
+
+/** Name shown for an entry's actor; entries without a user come from background jobs. */
+export function resolveActivityActorName(userId: string | null, actorNames: Record<string, string>): string {
+  if (!userId) return SYSTEM_ACTOR;
+  const name = actorNames[userId]?.trim();
+  return name || UNKNOWN_ACTOR;
+}
+
+/** Describes a single audit entry, e.g. "Alex linked “Dublin hold”". */
+export function describeAuditLog(log: AuditLogRecord, actorName: string): ActivityDescription {
+  const describer = DESCRIBERS[log.action] ?? describeFallback;
+  return describer([log], actorName);
+}
+
+/**
+ * Turns audit entries (newest first) into feed entries. Consecutive repeats
+ * of a groupable action by the same person on the same project collapse
+ * into one line while they stay within the grouping window.
+ */
+export function buildActivityFeed(logs: AuditLogRecord[], options: BuildActivityFeedOptions = {}): ActivityFeedEntry[] {
+  const actorNames = options.actorNames ?? {};
+  const windowMs = (options.groupWindowMinutes ?? DEFAULT_GROUP_WINDOW_MINUTES) * 60 * 1000;
+
+  const groups: AuditLogRecord[][] = [];
+  for (const log of logs) {
+    const current = groups[groups.length - 1];
+    const head = current?.[0];
+    const joins =
+      head != null &&
+      GROUPABLE_ACTIONS.has(log.action) &&
+      head.action === log.action &&
+      head.userId === log.userId &&
+      head.projectId === log.projectId &&
+      Math.abs(Date.parse(head.createdAt) - Date.parse(log.createdAt)) <= windowMs;
+    if (joins) {
+      current.push(log);
+    } else {
+      groups.push([log]);
+    }
+  }
+
+  return groups.map((group) => {
+    const [head] = group;
+    const actorName = resolveActivityActorName(head.userId, actorNames);
+    const describer = DESCRIBERS[head.action] ?? describeFallback;
+    const { summary, target } = describer(group, actorName);
+    return {
+      id: head.id,
+      projectId: head.projectId,
+      actorId: head.userId,
+      actorName,
+      action: head.action,
+      entity: head.entity,
+      summary,
+      target,
+      count: group.length,
+      logIds: group.map((log) => log.id),
+      occurredAt: head.createdAt,
+    };
+  });
+}
@@ -4,8 +4,11 @@ import {
   EMAIL_SENTIMENT_LABELS,
   PRIMARY_LABEL_DEFINITIONS,
 } from "./types";
-import type { EmailLabel, EmailSentiment, EmailSentimentLabel } from "./types";
+import type { ClassificationPromptSettings, EmailLabel, EmailSentiment, EmailSentimentLabel } from "./types";
 import { normaliseLabels } from "./labelUtils";
+import { DEFAULT_CLASSIFICATION_PROMPT_SETTINGS } from "./classificationPrompt";
+import { createLlmProvider, type LlmProvider, type LlmUsage } from "./llmProvider";
+import { formatCorrectionExamples, type LabelCorrectionExample } from "./labelCorrections";
 
 export interface EmailAnalysisInput {
   subject: string;
@@ -14,10 +17,20 @@ export interface EmailAnalysisInput {
   fromEmail: string;
 }
 
+export interface EmailAnalysisOptions {
+  /** Admin-managed prompt settings; defaults apply when omitted. */
+  prompt?: ClassificationPromptSettings | null;
+  /** Model backend; resolved from LLM_PROVIDER and related env vars when omitted. */
+  provider?: LlmProvider;
+  /** The user's recent label corrections, included as few-shot examples. */
+  examples?: LabelCorrectionExample[];
+}
+
 export interface EmailAnalysisResult {
   summary: string;
   labels: EmailLabel[];
   sentiment: EmailSentiment;
+  usage?: LlmUsage;
 }
 
 export const DEFAULT_EMAIL_SENTIMENT: EmailSentiment = { label: "neutral", confidence: 0 };
@@ -102,11 +115,7 @@ export function normaliseEmailSentiment(value: unknown): EmailSentiment {
   return { ...DEFAULT_EMAIL_SENTIMENT };
 }
 
-const MAX_LABELS = 3;
 const BODY_CHAR_LIMIT = Number(process.env.OPENAI_BODY_CHAR_LIMIT || 4000);
-const MAX_ATTEMPTS = Number(process.env.OPENAI_MAX_RETRIES || 4);
-const BASE_RETRY_DELAY_MS = Number(process.env.OPENAI_RETRY_DELAY_MS || 1500);
-const MAX_RETRY_DELAY_MS = Number(process.env.OPENAI_MAX_RETRY_DELAY_MS || 12000);
 
 const PRIMARY_LABEL_GUIDE = PRIMARY_LABEL_DEFINITIONS.map(
   ({ name, meaning, whyItMatters }) => `- ${name}: ${meaning} Why: ${whyItMatters}`
@@ -163,25 +172,13 @@ const PLAYBOOK_GUIDE = PLAYBOOK_CUES.map(
   ({ scope, instruction }) => `- ${scope}: ${instruction}`
 ).join("\n");
 
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-function ensureApiKey(): string {
-  const key = process.env.OPENAI_API_KEY;
-  if (!key) {
-    throw new Error("OPENAI_API_KEY is not set");
-  }
-  return key;
-}
-
-function parseLabels(value: unknown): EmailLabel[] {
+function parseLabels(value: unknown, maxLabels: number): EmailLabel[] {
   const normalised = normaliseLabels(value);
   if (normalised.length === 0) {
     return [EMAIL_FALLBACK_LABEL];
   }
 
-  return normalised.slice(0, MAX_LABELS);
+  return normalised.slice(0, maxLabels);
 }
 
 function parseSummary(value: unknown): string {
@@ -244,14 +241,11 @@ function normaliseSubject(subject: string): string {
   return truncateContent(subject.trim(), 300);
 }
 
-export async function analyzeEmail(
-  input: EmailAnalysisInput
-): Promise<EmailAnalysisResult> {
-  const apiKey = ensureApiKey();
-
-  const systemMessage = [
+/** The system message generated from the label taxonomy, used unless an admin overrides it. */
+export function buildClassificationSystemMessage(maxLabels: number): string {
+  return [
     "You are an assistant labelling inbox emails for an artist manager.",
-    `Return between 1 and ${MAX_LABELS} labels for each message.`,
+    `Return between 1 and ${maxLabels} labels for each message.`,
     "Primary labels (always include at least one and place it first):",
     PRIMARY_LABEL_GUIDE,
     "",
@@ -268,6 +262,20 @@ export async function analyzeEmail(
     "- Prioritise concise, factual summaries supporting the chosen labels.",
     "- Include a sentiment assessment with label positive/neutral/negative and confidence between 0 and 1 (use 0 when unsure).",
   ].join("\n");
+}
+
+export async function analyzeEmail(
+  input: EmailAnalysisInput,
+  options: EmailAnalysisOptions = {}
+): Promise<EmailAnalysisResult> {
+  const provider = options.provider ?? createLlmProvider();
+  const prompt = options.prompt ?? DEFAULT_CLASSIFICATION_PROMPT_SETTINGS;
+  const maxLabels = prompt.maxLabels;
+  const systemMessage = prompt.systemMessage.trim() || buildClassificationSystemMessage(maxLabels);
+  const extraInstructions = prompt.userInstructions.trim()
+    ? ` Additional instructions: ${prompt.userInstructions.trim()}`
+    : "";
+  const correctionExamples = formatCorrectionExamples(options.examples ?? []);
 
   const sanitizedSubject = normaliseSubject(input.subject);
   const sanitizedBody = normaliseBody(input.body);
@@ -279,109 +287,22 @@ export async function analyzeEmail(
     body: sanitizedBody,
   };
 
-  const requestBody = JSON.stringify({
-    model: process.env.OPENAI_MODEL || "gpt-4o-mini",
-    temperature: 0.4,
-    response_format: { type: "json_object" },
-    messages: [
-      { role: "system", content: systemMessage },
-      {
-        role: "user",
-        content: [
-          {
-            type: "text",
-            text: `Summarise the email in no more than 120 words and return JSON with keys "summary" (string), "labels" (array of up to ${MAX_LABELS} strings), and "sentiment" (object with keys "label" (one of "positive", "neutral", "negative") and "confidence" (number 0-1; use 0 when unsure)). Labelling rules: (1) include at least one primary label and put it first, (2) append any supported cross-tags after the primary label when the content provides that metadata, (3) use the exact casing provided in the taxonomy, (4) if no primary label fits, use only ${EMAIL_FALLBACK_LABEL}. Email data: ${JSON.stringify(
-              userPayload
-            )}`,
-          },
-        ],
-      },
-    ],
+  const { data, usage } = await provider.classify({
+    system: systemMessage,
+    user: `Summarise the email in no more than 120 words and return JSON with keys "summary" (string), "labels" (array of up to ${maxLabels} strings), and "sentiment" (object with keys "label" (one of "positive", "neutral", "negative") and "confidence" (number 0-1; use 0 when unsure)). Labelling rules: (1) include at least one primary label and put it first, (2) append any supported cross-tags after the primary label when the content provides that metadata, (3) use the exact casing provided in the taxonomy, (4) if no primary label fits, use only ${EMAIL_FALLBACK_LABEL}.${extraInstructions}${
+      correctionExamples ? `\n${correctionExamples}\n` : " "
+    }Email data: ${JSON.stringify(userPayload)}`,
+    // Only an admin-chosen model overrides the provider's configured default
+    model: options.prompt?.model ?? null,
+    temperature: prompt.temperature,
+    email: { ...input, subject: sanitizedSubject, body: sanitizedBody },
+    maxLabels,
   });
 
-  let attempt = 0;
-  let delayMs = BASE_RETRY_DELAY_MS;
-  let lastError: Error | null = null;
-
-  while (attempt < MAX_ATTEMPTS) {
-    attempt += 1;
-
-    try {
-      const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: requestBody,
-      });
-
-      if (response.ok) {
-        const payload = await response.json();
-
-        const content: string | undefined = payload?.choices?.[0]?.message?.content;
-
-        if (!content) {
-          throw new Error("OpenAI response missing content");
-        }
-
-        let parsed: unknown = null;
-        try {
-          parsed = JSON.parse(content);
-        } catch (err) {
-          throw new Error(`Failed to parse OpenAI JSON content: ${content}`);
-        }
-
-        const summary = parseSummary((parsed as Record<string, unknown>)?.summary);
-        const labels = parseLabels((parsed as Record<string, unknown>)?.labels);
-        const rawSentiment = (parsed as Record<string, unknown>)?.sentiment;
-        const sentiment = normaliseEmailSentiment(rawSentiment);
-
-        console.log('[SENTIMENT DEBUG] OpenAI response:', {
-          rawSentiment,
-          normalisedSentiment: sentiment,
-          fullParsed: parsed,
-        });
-
-        return { summary, labels, sentiment };
-      }
-
-      const errorText = await response.text();
-      const status = response.status;
-
-      const error = new Error(`OpenAI request failed: ${status} ${errorText}`);
-      lastError = error;
-
-      if (status === 429 || status === 503) {
-        const retryAfter = response.headers.get("retry-after");
-        let waitMs = delayMs;
-        if (retryAfter) {
-          const parsed = Number(retryAfter);
-          if (!Number.isNaN(parsed)) {
-            waitMs = parsed * 1000;
-          } else {
-            const retryDate = new Date(retryAfter).getTime();
-            if (!Number.isNaN(retryDate)) {
-              waitMs = Math.max(retryDate - Date.now(), delayMs);
-            }
-          }
-        }
-
-        await sleep(waitMs);
-        delayMs = Math.min(delayMs * 2, MAX_RETRY_DELAY_MS);
-        continue;
-      }
-
-      throw error;
-    } catch (err) {
-      lastError = err instanceof Error ? err : new Error(String(err));
-      if (attempt >= MAX_ATTEMPTS) {
-        break;
-      }
-      await sleep(delayMs);
-      delayMs = Math.min(delayMs * 2, MAX_RETRY_DELAY_MS);
-    }
-  }
-
-  throw lastError ?? new Error("OpenAI request failed");
+  return {
+    summary: parseSummary(data.summary),
+    labels: parseLabels(data.labels, maxLabels),
+    sentiment: normaliseEmailSentiment(data.sentiment),
+    usage,
+  };
 }
@@ -0,0 +1,141 @@
+import { getUtcOffsetMinutes } from "./gazetteer";
+import { detectTimelineConflicts, type TimelineConflict, type TimelineConflictOptions } from "./timelineConflicts";
+import type { TimelineItemRecord, TimelineItemType } from "./types";
+
+/** Item types that need the artist in person, so they cannot overlap across projects. */
+const PRESENCE_ITEM_TYPES = new Set<TimelineItemType>(["LIVE_HOLD", "TRAVEL_SEGMENT", "PROMO_SLOT"]);
+
+export interface ArtistScheduleProject {
+  id: string;
+  name: string;
+  color?: string | null;
+  items: TimelineItemRecord[];
+}
+
+export interface ArtistConflictProjectRef {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+export interface ArtistTimelineConflict extends TimelineConflict {
+  projects: ArtistConflictProjectRef[];
+  crossProject: boolean;
+}
+
+function toTimestamp(value: string | null): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/** Wall-clock time in `timezone` to an instant, re-reading the offset for DST. */
+function zonedTimeToInstant(
+  parts: { year: number; month: number; day: number; hour: number; minute: number },
+  timezone: string
+): number {
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  let instant = wall;
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    instant = wall - (getUtcOffsetMinutes(timezone, instant) ?? 0) * 60 * 1000;
+  }
+  return instant;
+}
+
+/** Next local midnight after `start` in the item's zone (UTC when unknown). */
+function endOfLocalDay(start: number, timezone: string | null): number {
+  const zone = timezone && getUtcOffsetMinutes(timezone, start) != null ? timezone : "UTC";
+  const local = new Date(start + (getUtcOffsetMinutes(zone, start) ?? 0) * 60 * 1000);
+  return zonedTimeToInstant(
+    { year: local.getUTCFullYear(), month: local.getUTCMonth() + 1, day: local.getUTCDate() + 1, hour: 0, minute: 0 },
+    zone
+  );
+}
+
+/**
+ * Items without an end (date-only holds, for instance) are treated as taking
+ * the rest of their day, so two of them on the same day still overlap.
+ */
+function toWindow(item: TimelineItemRecord): { start: number; end: number } | null {
+  const start = toTimestamp(item.startsAt);
+  if (start == null) return null;
+  const end = toTimestamp(item.endsAt);
+  return { start, end: end && end > start ? end : endOfLocalDay(start, item.timezone) };
+}
+
+/**
+ * The per-project rules only compare items in the same lane, so a promo slot
+ * and a flight booked in different projects never meet. This flags any two
+ * in-person commitments from different projects whose windows overlap.
+ */
+function detectDoubleBookings(items: TimelineItemRecord[], existing: Set<string>): TimelineConflict[] {
+  const scheduled = items
+    .filter((item) => PRESENCE_ITEM_TYPES.has(item.type) && item.status !== "canceled")
+    .map((item) => ({ item, window: toWindow(item) }))
+    .filter((entry): entry is { item: TimelineItemRecord; window: { start: number; end: number } } => Boolean(entry.window))
+    .sort((a, b) => a.window.start - b.window.start);
+
+  const conflicts: TimelineConflict[] = [];
+  for (let i = 0; i < scheduled.length; i += 1) {
+    for (let j = i + 1; j < scheduled.length; j += 1) {
+      const a = scheduled[i];
+      const b = scheduled[j];
+      if (b.window.start >= a.window.end) break;
+      if (a.item.projectId === b.item.projectId) continue;
+      if (existing.has(`${a.item.id}:${b.item.id}`) || existing.has(`${b.item.id}:${a.item.id}`)) continue;
+
+      conflicts.push({
+        id: `${a.item.id}:${b.item.id}:artist`,
+        items: [a.item, b.item],
+        severity: "error",
+        message: `${a.item.title} overlaps with ${b.item.title} in another project`,
+        type: "artist_double_booking",
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Runs the timeline conflict rules across every project that shares an
+ * artist. Each conflict lists the projects its items belong to; conflicts
+ * within a single project are kept so the merged view is complete.
+ */
+export function detectArtistConflicts(
+  projects: ArtistScheduleProject[],
+  options: TimelineConflictOptions = {}
+): ArtistTimelineConflict[] {
+  const projectLookup = new Map<string, ArtistConflictProjectRef>(
+    projects.map((project) => [project.id, { id: project.id, name: project.name, color: project.color ?? null }])
+  );
+  const items = projects.flatMap((project) =>
+    project.items.map((item) => (item.projectId === project.id ? item : { ...item, projectId: project.id }))
+  );
+
+  const base = detectTimelineConflicts(items, options);
+  const pairs = new Set(base.map((conflict) => `${conflict.items[0].id}:${conflict.items[1].id}`));
+  const conflicts = [...base, ...detectDoubleBookings(items, pairs)];
+
+  return conflicts.map((conflict) => {
+    const projectIds = Array.from(new Set(conflict.items.map((item) => item.projectId)));
+    return {
+      ...conflict,
+      projects: projectIds
+        .map((id) => projectLookup.get(id))
+        .filter((value): value is ArtistConflictProjectRef => Boolean(value)),
+      crossProject: projectIds.length > 1,
+    };
+  });
+}
+
+export function filterConflictsForProject(
+  conflicts: ArtistTimelineConflict[],
+  projectId: string,
+  options: { crossProjectOnly?: boolean } = {}
+): ArtistTimelineConflict[] {
+  return conflicts.filter(
+    (conflict) =>
+      conflict.projects.some((project) => project.id === projectId) &&
+      (!options.crossProjectOnly || conflict.crossProject)
+  );
+}
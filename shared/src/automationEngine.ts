@@ -0,0 +1,693 @@
+import type {
+  AutomationAction,
+  AutomationActionType,
+  AutomationCondition,
+  AutomationConditionGroup,
+  AutomationRule,
+  AutomationTriggerConfig,
+} from "./automationRules";
+import { normalizeAutomationRuleInput } from "./automationRules";
+import type { ProjectMemberRole } from "./types";
+
+export interface AutomationEmailContext {
+  id: string;
+  subject: string;
+  fromName: string | null;
+  fromEmail: string;
+  category: string;
+  labels: string[];
+  summary: string | null;
+  priorityScore: number | null;
+  triageState: string | null;
+  receivedAt: string;
+  hasAttachments: boolean;
+  projectIds: string[];
+}
+
+export interface AutomationTaskContext {
+  id: string;
+  projectId: string;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: number | null;
+  dueAt: string | null;
+  laneId: string | null;
+  laneSlug: string | null;
+}
+
+export type AutomationEvent =
+  | { type: "email_received"; email: AutomationEmailContext }
+  | { type: "task_created"; task: AutomationTaskContext };
+
+export interface AutomationConditionResult {
+  field: string;
+  operator: AutomationCondition["operator"];
+  expected: AutomationCondition["value"];
+  actual: unknown;
+  passed: boolean;
+}
+
+export interface AutomationRuleEvaluation {
+  triggered: boolean;
+  matched: boolean;
+  conditions: AutomationConditionResult[];
+}
+
+export type AutomationActionStatus = "succeeded" | "failed";
+
+export interface AutomationActionOutcome {
+  type: AutomationActionType;
+  params: Record<string, unknown>;
+  status: AutomationActionStatus;
+  output: Record<string, unknown> | null;
+  error: string | null;
+}
+
+export interface AutomationPlannedAction {
+  type: AutomationActionType;
+  params: Record<string, unknown>;
+  projectId: string | null;
+  summary: string;
+  blockedReason: string | null;
+}
+
+export interface AutomationDryRunResult extends AutomationRuleEvaluation {
+  actions: AutomationPlannedAction[];
+}
+
+export type AutomationRunStatus = "succeeded" | "failed" | "skipped";
+
+export interface AutomationRunResult {
+  ruleId: string;
+  ruleName: string;
+  trigger: AutomationEvent["type"];
+  status: AutomationRunStatus;
+  conditions: AutomationConditionResult[];
+  actions: AutomationActionOutcome[];
+  error: string | null;
+}
+
+export interface AutomationActionContext {
+  rule: AutomationRule;
+  event: AutomationEvent;
+  /** Outcomes of the actions that already ran for this rule, in order. */
+  previous: AutomationActionOutcome[];
+}
+
+export type AutomationActionHandler = (
+  params: Record<string, unknown>,
+  context: AutomationActionContext
+) => Promise<Record<string, unknown> | null>;
+
+export type AutomationActionHandlers = Record<AutomationActionType, AutomationActionHandler>;
+
+/**
+ * Persisted shape of a single rule run, stored in automation_rule_executions.
+ */
+export interface AutomationRuleExecutionRecord {
+  id: string;
+  ruleId: string;
+  userId: string;
+  status: AutomationRunStatus | string;
+  error: string | null;
+  payload: {
+    trigger?: AutomationEvent["type"];
+    input?: Record<string, unknown>;
+    conditions?: AutomationConditionResult[];
+    actions?: AutomationActionOutcome[];
+    [key: string]: unknown;
+  };
+  executedAt: string;
+}
+
+function eventRoot(event: AutomationEvent): Record<string, unknown> {
+  return event.type === "email_received" ? { email: event.email } : { task: event.task };
+}
+
+function normaliseText(value: unknown): string {
+  if (value == null) return "";
+  return String(value).trim().toLowerCase();
+}
+
+function includesAny(filter: string[] | undefined, candidates: Array<string | null | undefined>): boolean {
+  if (!filter || filter.length === 0) {
+    return true;
+  }
+  const wanted = new Set(filter.map((entry) => normaliseText(entry)));
+  return candidates.some((candidate) => candidate != null && wanted.has(normaliseText(candidate)));
+}
+
+export function matchesAutomationTrigger(trigger: AutomationTriggerConfig, event: AutomationEvent): boolean {
+  if (trigger.type !== event.type) {
+    return false;
+  }
+
+  if (trigger.type === "email_received" && event.type === "email_received") {
+    const { categories, labels, triageStates } = trigger.options;
+    const { email } = event;
+    return (
+      includesAny(categories, [email.category]) &&
+      includesAny(labels, email.labels) &&
+      includesAny(triageStates, [email.triageState ?? "unassigned"])
+    );
+  }
+
+  if (trigger.type === "task_created" && event.type === "task_created") {
+    const { statuses, lanes } = trigger.options;
+    const { task } = event;
+    return includesAny(statuses, [task.status]) && includesAny(lanes, [task.laneSlug, task.laneId]);
+  }
+
+  return false;
+}
+
+/**
+ * Resolves a dotted field path such as `email.category` or `task.priority`
+ * against the event payload. Unknown paths resolve to undefined.
+ */
+export function resolveAutomationField(field: string, event: AutomationEvent): unknown {
+  const segments = field.split(".").filter(Boolean);
+  let current: unknown = eventRoot(event);
+  for (const segment of segments) {
+    if (current == null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function compareScalar(actual: unknown, condition: AutomationCondition): boolean {
+  const { operator, value } = condition;
+
+  if (operator === "greater_than" || operator === "less_than") {
+    const actualNumber = typeof actual === "number" ? actual : Number(actual);
+    const expectedNumber = typeof value === "number" ? value : Number(value);
+    if (!Number.isFinite(actualNumber) || !Number.isFinite(expectedNumber)) {
+      return false;
+    }
+    return operator === "greater_than" ? actualNumber > expectedNumber : actualNumber < expectedNumber;
+  }
+
+  if (typeof value === "boolean" || typeof actual === "boolean") {
+    const expected = typeof value === "boolean" ? value : normaliseText(value) === "true";
+    const matches = Boolean(actual) === expected;
+    return operator === "not_equals" ? !matches : matches;
+  }
+
+  const actualText = normaliseText(actual);
+  const expectedText = normaliseText(value);
+
+  switch (operator) {
+    case "equals":
+      return actualText === expectedText;
+    case "not_equals":
+      return actualText !== expectedText;
+    case "contains":
+      return expectedText.length > 0 && actualText.includes(expectedText);
+    case "not_contains":
+      return expectedText.length === 0 || !actualText.includes(expectedText);
+    default:
+      return false;
+  }
+}
+
+export function evaluateAutomationCondition(
+  condition: AutomationCondition,
+  event: AutomationEvent
+): AutomationConditionResult {
+  const actual = resolveAutomationField(condition.field, event);
+  let passed: boolean;
+
+  if (Array.isArray(actual)) {
+    const negative = condition.operator === "not_equals" || condition.operator === "not_contains";
+    const positiveOperator =
+      condition.operator === "not_equals" ? "equals" : condition.operator === "not_contains" ? "contains" : condition.operator;
+    const anyMatch = actual.some((entry) => compareScalar(entry, { ...condition, operator: positiveOperator }));
+    passed = negative ? !anyMatch : anyMatch;
+  } else {
+    passed = compareScalar(actual, condition);
+  }
+
+  return {
+    field: condition.field,
+    operator: condition.operator,
+    expected: condition.value,
+    actual: actual ?? null,
+    passed,
+  };
+}
+
+export function evaluateAutomationConditions(
+  group: AutomationConditionGroup,
+  event: AutomationEvent
+): { matched: boolean; results: AutomationConditionResult[] } {
+  if (group.conditions.length === 0) {
+    return { matched: true, results: [] };
+  }
+
+  const results = group.conditions.map((condition) => evaluateAutomationCondition(condition, event));
+  const matched =
+    group.logic === "or" ? results.some((result) => result.passed) : results.every((result) => result.passed);
+
+  return { matched, results };
+}
+
+export function evaluateAutomationRule(
+  rule: AutomationRule,
+  event: AutomationEvent,
+  options: { ignoreEnabled?: boolean } = {}
+): AutomationRuleEvaluation {
+  if ((!rule.isEnabled && !options.ignoreEnabled) || !matchesAutomationTrigger(rule.trigger, event)) {
+    return { triggered: false, matched: false, conditions: [] };
+  }
+
+  const { matched, results } = evaluateAutomationConditions(rule.conditions, event);
+  return { triggered: true, matched, conditions: results };
+}
+
+/**
+ * Replaces `{{email.subject}}`-style placeholders in action parameters with
+ * values from the triggering event. Unknown placeholders render as empty text.
+ */
+export function renderAutomationTemplate(template: string, event: AutomationEvent): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+    const value = resolveAutomationField(path, event);
+    if (value == null) return "";
+    if (Array.isArray(value)) return value.join(", ");
+    return String(value);
+  });
+}
+
+export function renderAutomationActionParams(
+  action: AutomationAction,
+  event: AutomationEvent
+): Record<string, unknown> {
+  const rendered: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(action.params ?? {})) {
+    rendered[key] = typeof value === "string" ? renderAutomationTemplate(value, event) : value;
+  }
+  return rendered;
+}
+
+export function describeAutomationEvent(event: AutomationEvent): Record<string, unknown> {
+  if (event.type === "email_received") {
+    const { email } = event;
+    return {
+      emailId: email.id,
+      subject: email.subject,
+      fromEmail: email.fromEmail,
+      category: email.category,
+      labels: email.labels,
+      projectIds: email.projectIds,
+    };
+  }
+
+  const { task } = event;
+  return {
+    taskId: task.id,
+    projectId: task.projectId,
+    title: task.title,
+    status: task.status,
+    laneSlug: task.laneSlug,
+  };
+}
+
+export async function executeAutomationRule(
+  rule: AutomationRule,
+  event: AutomationEvent,
+  handlers: AutomationActionHandlers
+): Promise<AutomationRunResult | null> {
+  const evaluation = evaluateAutomationRule(rule, event);
+  if (!evaluation.triggered) {
+    return null;
+  }
+
+  const base = {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    trigger: event.type,
+    conditions: evaluation.conditions,
+  };
+
+  if (!evaluation.matched) {
+    return { ...base, status: "skipped", actions: [], error: null };
+  }
+
+  const outcomes: AutomationActionOutcome[] = [];
+  for (const action of rule.actions) {
+    const params = renderAutomationActionParams(action, event);
+    try {
+      const output = await handlers[action.type](params, { rule, event, previous: [...outcomes] });
+      outcomes.push({ type: action.type, params, status: "succeeded", output: output ?? null, error: null });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      outcomes.push({ type: action.type, params, status: "failed", output: null, error: message });
+    }
+  }
+
+  const failures = outcomes.filter((outcome) => outcome.status === "failed");
+  return {
+    ...base,
+    status: failures.length > 0 ? "failed" : "succeeded",
+    actions: outcomes,
+    error: failures.length > 0 ? failures.map((outcome) => `${outcome.type}: ${outcome.error}`).join("; ") : null,
+  };
+}
+
+/**
+ * Finds the task created earlier in the same run, so that follow-up actions
+ * (e.g. lane assignment) can target it when the trigger itself is an email.
+ */
+export function findAutomationTaskTarget(context: AutomationActionContext): { taskId: string; projectId: string } | null {
+  if (context.event.type === "task_created") {
+    return { taskId: context.event.task.id, projectId: context.event.task.projectId };
+  }
+
+  for (let index = context.previous.length - 1; index >= 0; index -= 1) {
+    const outcome = context.previous[index];
+    if (outcome.type !== "create_task" || outcome.status !== "succeeded" || !outcome.output) continue;
+    const taskId = outcome.output.taskId;
+    const projectId = outcome.output.projectId;
+    if (typeof taskId === "string" && typeof projectId === "string") {
+      return { taskId, projectId };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Picks the project an action should write into: an explicit `projectId`
+ * parameter wins, then the task's project, then the first project the email
+ * is linked to.
+ */
+export function resolveAutomationProjectId(
+  params: Record<string, unknown>,
+  event: AutomationEvent
+): string | null {
+  const explicit = typeof params.projectId === "string" ? params.projectId.trim() : "";
+  if (explicit) return explicit;
+  if (event.type === "task_created") return event.task.projectId;
+  return event.email.projectIds[0] ?? null;
+}
+
+/** Projects named explicitly in action params, checked against the owner's access when a rule is saved. */
+export function listAutomationActionProjectIds(actions: AutomationAction[]): string[] {
+  const ids = new Set<string>();
+  for (const action of actions) {
+    const projectId = typeof action.params?.projectId === "string" ? action.params.projectId.trim() : "";
+    if (projectId) ids.add(projectId);
+  }
+  return Array.from(ids);
+}
+
+/** An explicit `to` parameter wins; email triggers fall back to the sender. */
+export function resolveAutomationRecipient(params: Record<string, unknown>, event: AutomationEvent): string | null {
+  if (typeof params.to === "string" && params.to.trim()) return params.to.trim();
+  return event.type === "email_received" ? event.email.fromEmail : null;
+}
+
+export function resolveAutomationDueAt(value: unknown, now: Date): string | null {
+  const days = typeof value === "number" ? value : typeof value === "string" && value.trim() ? Number(value) : NaN;
+  if (!Number.isFinite(days)) return null;
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function planAction(
+  action: AutomationAction,
+  event: AutomationEvent,
+  planned: AutomationPlannedAction[]
+): AutomationPlannedAction {
+  const params = renderAutomationActionParams(action, event);
+
+  switch (action.type) {
+    case "create_task": {
+      const projectId = resolveAutomationProjectId(params, event);
+      const title = typeof params.title === "string" && params.title.trim() ? params.title.trim() : "Follow up";
+      return {
+        type: action.type,
+        params,
+        projectId,
+        summary: `Create task "${title}"`,
+        blockedReason: projectId ? null : "No project available for the new task",
+      };
+    }
+    case "assign_timeline_lane": {
+      const lane = String(params.laneId ?? params.lane ?? "").trim();
+      const hasTask =
+        event.type === "task_created" ||
+        planned.some((entry) => entry.type === "create_task" && entry.blockedReason == null);
+      const projectId =
+        event.type === "task_created"
+          ? event.task.projectId
+          : planned.find((entry) => entry.type === "create_task")?.projectId ?? null;
+      return {
+        type: action.type,
+        params,
+        projectId,
+        summary: `Assign lane ${lane || "(none)"}`,
+        blockedReason: !lane ? "Lane parameter is required" : hasTask ? null : "No task to assign a lane to",
+      };
+    }
+    case "send_email_template": {
+      const projectId = resolveAutomationProjectId(params, event);
+      const recipient = resolveAutomationRecipient(params, event);
+      const template = typeof params.templateId === "string" && params.templateId ? params.templateId : "email";
+      return {
+        type: action.type,
+        params,
+        projectId,
+        summary: `Queue ${template} template to ${recipient ?? "(no recipient)"} for approval`,
+        blockedReason: !projectId
+          ? "No project available to queue the email approval"
+          : recipient
+          ? null
+          : "No recipient for the email",
+      };
+    }
+    default:
+      return { type: action.type, params, projectId: null, summary: action.type, blockedReason: "Unsupported action" };
+  }
+}
+
+/**
+ * Evaluates a rule against an event without running any handlers, returning
+ * the actions that would have been produced. Disabled rules are evaluated too
+ * so drafts can be tested before they are switched on.
+ */
+export function planAutomationRule(rule: AutomationRule, event: AutomationEvent): AutomationDryRunResult {
+  const evaluation = evaluateAutomationRule(rule, event, { ignoreEnabled: true });
+  if (!evaluation.triggered || !evaluation.matched) {
+    return { ...evaluation, actions: [] };
+  }
+
+  const planned: AutomationPlannedAction[] = [];
+  for (const action of rule.actions) {
+    planned.push(planAction(action, event, planned));
+  }
+
+  return { ...evaluation, actions: planned };
+}
+
+export interface AutomationRuleRow {
+  id: string;
+  user_id: string;
+  name: string | null;
+  description: string | null;
+  is_enabled: boolean | null;
+  trigger_type: string | null;
+  trigger_config: unknown;
+  condition_group: unknown;
+  actions: unknown;
+  created_at: string;
+  updated_at: string;
+}
+
+function parseJsonColumn(value: unknown): unknown {
+  if (value == null) return null;
+  if (typeof value === "object") return value;
+  try {
+    return JSON.parse(String(value));
+  } catch (err) {
+    return null;
+  }
+}
+
+function parseJsonObject<T extends object>(value: unknown): T | null {
+  const parsed = parseJsonColumn(value);
+  return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as T) : null;
+}
+
+export function mapAutomationRuleRow(row: AutomationRuleRow): AutomationRule {
+  const actions = parseJsonColumn(row.actions);
+
+  const normalized = normalizeAutomationRuleInput({
+    id: row.id,
+    name: row.name ?? undefined,
+    description: row.description,
+    isEnabled: row.is_enabled ?? undefined,
+    trigger: parseJsonObject<Partial<AutomationTriggerConfig>>(row.trigger_config),
+    conditions: parseJsonObject<Partial<AutomationConditionGroup>>(row.condition_group),
+    actions: Array.isArray(actions) ? (actions as Array<Partial<AutomationAction>>) : null,
+  });
+
+  return {
+    ...normalized,
+    id: row.id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  } satisfies AutomationRule;
+}
+
+export function mapAutomationRuleExecutionRow(row: Record<string, any>): AutomationRuleExecutionRecord {
+  return {
+    id: row.id as string,
+    ruleId: row.rule_id as string,
+    userId: row.user_id as string,
+    status: (row.status as string) ?? "queued",
+    error: (row.error as string) ?? null,
+    payload: parseJsonObject<AutomationRuleExecutionRecord["payload"]>(row.payload) ?? {},
+    executedAt: String(row.executed_at),
+  };
+}
+
+/** The automation_rule_executions row recorded for a finished run. */
+export function buildAutomationExecutionRow(userId: string, event: AutomationEvent, result: AutomationRunResult) {
+  return {
+    rule_id: result.ruleId,
+    user_id: userId,
+    status: result.status,
+    error: result.error,
+    payload: {
+      trigger: result.trigger,
+      input: describeAutomationEvent(event),
+      conditions: result.conditions,
+      actions: result.actions,
+    },
+    executed_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Storage the action handlers write through. The app and the worker both back
+ * it with `createSupabaseAutomationStore`; everything else about the actions
+ * lives here so both run rules the same way the dry-run planner describes them.
+ */
+export interface AutomationActionStore {
+  insertTask(task: {
+    projectId: string;
+    title: string;
+    description: string | null;
+    dueAt: string | null;
+    priority: number;
+    createdBy: string;
+  }): Promise<{ id: string; projectId: string }>;
+  listLanes(userId: string): Promise<Array<{ id: string; slug: string | null; name: string | null }>>;
+  setTaskLane(taskId: string, laneId: string): Promise<void>;
+  insertApproval(approval: {
+    projectId: string;
+    type: string;
+    payload: Record<string, unknown>;
+    requestedBy: string;
+  }): Promise<{ id: string | null }>;
+  /** The user's role on the project, or null when they are not a member. */
+  getProjectRole(projectId: string, userId: string): Promise<ProjectMemberRole | null>;
+}
+
+/**
+ * The worker writes through a service client that skips RLS, so the rule
+ * owner's own access is checked before anything lands in a project.
+ */
+async function assertAutomationProjectAccess(store: AutomationActionStore, projectId: string, userId: string) {
+  const role = await store.getProjectRole(projectId, userId);
+  if (role !== "owner" && role !== "editor") {
+    throw new Error(`Rule owner cannot edit project ${projectId}`);
+  }
+}
+
+export function createAutomationActionHandlers(store: AutomationActionStore, userId: string): AutomationActionHandlers {
+  return {
+    async create_task(params, context) {
+      const projectId = resolveAutomationProjectId(params, context.event);
+      if (!projectId) {
+        throw new Error("No project available for the new task");
+      }
+      await assertAutomationProjectAccess(store, projectId, userId);
+
+      const title = typeof params.title === "string" && params.title.trim() ? params.title.trim() : "Follow up";
+      const notes = typeof params.notes === "string" && params.notes.trim() ? params.notes.trim() : null;
+      const priority = typeof params.priority === "number" ? params.priority : Number(params.priority ?? 0) || 0;
+
+      const task = await store.insertTask({
+        projectId,
+        title,
+        description: notes,
+        dueAt: resolveAutomationDueAt(params.dueInDays, new Date()),
+        priority,
+        createdBy: userId,
+      });
+
+      return { taskId: task.id, projectId: task.projectId };
+    },
+
+    async assign_timeline_lane(params, context) {
+      const target = findAutomationTaskTarget(context);
+      if (!target) {
+        throw new Error("No task to assign a lane to");
+      }
+
+      const laneKey = String(params.laneId ?? params.lane ?? "").trim();
+      if (!laneKey) {
+        throw new Error("Lane parameter is required");
+      }
+
+      const upperKey = laneKey.toUpperCase();
+      const lane = (await store.listLanes(userId)).find(
+        (row) =>
+          row.id === laneKey ||
+          String(row.slug ?? "").toUpperCase() === upperKey ||
+          String(row.name ?? "").toUpperCase() === upperKey
+      );
+
+      if (!lane) {
+        throw new Error(`Lane "${laneKey}" not found`);
+      }
+
+      await store.setTaskLane(target.taskId, lane.id);
+
+      return { taskId: target.taskId, laneId: lane.id, laneSlug: lane.slug };
+    },
+
+    async send_email_template(params, context) {
+      const projectId = resolveAutomationProjectId(params, context.event);
+      if (!projectId) {
+        throw new Error("No project available to queue the email approval");
+      }
+
+      const recipient = resolveAutomationRecipient(params, context.event);
+      if (!recipient) {
+        throw new Error("No recipient for the email");
+      }
+      await assertAutomationProjectAccess(store, projectId, userId);
+
+      const approval = await store.insertApproval({
+        projectId,
+        type: "automation_email_template",
+        payload: {
+          ruleId: context.rule.id,
+          ruleName: context.rule.name,
+          templateId: params.templateId ?? null,
+          to: recipient,
+          subject: params.subject ?? null,
+          body: params.body ?? null,
+          source: describeAutomationEvent(context.event),
+        },
+        requestedBy: userId,
+      });
+
+      return { approvalId: approval.id, to: recipient };
+    },
+  };
+}
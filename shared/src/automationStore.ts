@@ -0,0 +1,149 @@
+import type { AutomationActionStore } from "./automationEngine";
+import {
+  buildRecordRevisionRow,
+  mapProjectTaskRow,
+  PROJECT_TASK_SNAPSHOT_COLUMNS,
+  type RecordRevisionInput,
+} from "./recordRevisions";
+import type { ProjectMemberRole } from "./types";
+
+/**
+ * The part of a Supabase client the automation store uses. Typed loosely so
+ * shared does not depend on the SDK; pass the app's request client or the
+ * worker's service client.
+ */
+export interface AutomationStoreClient {
+  from(table: string): any;
+}
+
+export interface AutomationStoreOptions {
+  /**
+   * Author recorded on task revisions: the signed-in user in the app, null
+   * when the worker writes through the service role.
+   */
+  revisionUserId: string | null;
+}
+
+const PROJECT_MEMBER_ROLES: ProjectMemberRole[] = ["owner", "editor", "viewer"];
+
+/** Backs the shared automation action handlers with a Supabase client. */
+export function createSupabaseAutomationStore(
+  supabase: AutomationStoreClient,
+  options: AutomationStoreOptions
+): AutomationActionStore {
+  const recordTaskRevision = async (input: Omit<RecordRevisionInput, "entity" | "userId">) => {
+    const row = buildRecordRevisionRow({ ...input, entity: "project_task", userId: options.revisionUserId });
+    if (!row) return;
+
+    const { error } = await supabase.from("record_revisions").insert(row);
+    if (error) {
+      console.error(`Failed to record revision for task ${input.recordId}`, error);
+    }
+  };
+
+  return {
+    async insertTask(task) {
+      const { data, error } = await supabase
+        .from("project_tasks")
+        .insert({
+          project_id: task.projectId,
+          title: task.title,
+          description: task.description,
+          status: "todo",
+          due_at: task.dueAt,
+          priority: task.priority,
+          created_by: task.createdBy,
+        })
+        .select(PROJECT_TASK_SNAPSHOT_COLUMNS)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error("Task insert returned no row");
+
+      const created = mapProjectTaskRow(data);
+      await recordTaskRevision({
+        projectId: created.projectId,
+        recordId: created.id,
+        operation: "create",
+        before: null,
+        after: created,
+      });
+
+      return { id: created.id, projectId: created.projectId };
+    },
+
+    async listLanes(userId) {
+      const { data, error } = await supabase
+        .from("lane_definitions")
+        .select("id, slug, name")
+        .or(`user_id.eq.${userId},user_id.is.null`);
+
+      if (error) throw error;
+      return ((data ?? []) as Array<Record<string, unknown>>).map((row) => ({
+        id: row.id as string,
+        slug: (row.slug as string | null) ?? null,
+        name: (row.name as string | null) ?? null,
+      }));
+    },
+
+    async setTaskLane(taskId, laneId) {
+      const { data: existing, error: fetchError } = await supabase
+        .from("project_tasks")
+        .select(PROJECT_TASK_SNAPSHOT_COLUMNS)
+        .eq("id", taskId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+
+      const { data, error } = await supabase
+        .from("project_tasks")
+        .update({ lane_id: laneId, updated_at: new Date().toISOString() })
+        .eq("id", taskId)
+        .select(PROJECT_TASK_SNAPSHOT_COLUMNS)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) throw new Error(`Task ${taskId} not found`);
+
+      const updated = mapProjectTaskRow(data);
+      await recordTaskRevision({
+        projectId: updated.projectId,
+        recordId: taskId,
+        operation: "update",
+        before: existing ? mapProjectTaskRow(existing) : null,
+        after: updated,
+      });
+    },
+
+    async insertApproval(approval) {
+      const { data, error } = await supabase
+        .from("approvals")
+        .insert({
+          project_id: approval.projectId,
+          type: approval.type,
+          status: "pending",
+          payload: approval.payload,
+          requested_by: approval.requestedBy,
+          created_by: approval.requestedBy,
+        })
+        .select("id")
+        .maybeSingle();
+
+      if (error) throw error;
+      return { id: (data?.id as string) ?? null };
+    },
+
+    async getProjectRole(projectId, userId) {
+      const { data, error } = await supabase
+        .from("project_members")
+        .select("role")
+        .eq("project_id", projectId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      const role = data?.role as ProjectMemberRole | undefined;
+      return role && PROJECT_MEMBER_ROLES.includes(role) ? role : null;
+    },
+  };
+}
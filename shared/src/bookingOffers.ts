@@ -0,0 +1,304 @@
+import type { LlmEmailInput, LlmProvider } from "./llmProvider";
+import type {
+  BookingDealType,
+  BookingOfferField,
+  BookingOfferFields,
+  BookingOfferKind,
+  BookingOfferRecord,
+  EmailLabel,
+} from "./types";
+
+const EMAIL_TEXT_LIMIT = 6000;
+const TEXT_FIELD_LIMIT = 200;
+/** Confidence for values a provider returned without scoring them (e.g. the local extractor). */
+const UNSCORED_CONFIDENCE = 0.6;
+/** Confidence for values recovered by pattern matching the email text. */
+const INFERRED_CONFIDENCE = 0.3;
+
+export const BOOKING_OFFER_FIELD_KEYS = [
+  "promoter",
+  "venue",
+  "city",
+  "territory",
+  "showDates",
+  "guarantee",
+  "currency",
+  "dealType",
+  "radiusClause",
+  "expiresAt",
+] as const satisfies ReadonlyArray<keyof BookingOfferFields>;
+
+const FIELD_DESCRIPTIONS: Record<keyof BookingOfferFields, string> = {
+  promoter: "promoter or buyer making the offer",
+  venue: "venue name",
+  city: "city of the show",
+  territory: "ISO2 country code of the show, e.g. GB",
+  showDates: "array of show dates as YYYY-MM-DD",
+  guarantee: "guaranteed fee as a number without currency symbols",
+  currency: "ISO 4217 currency code of the fee, e.g. EUR",
+  dealType: `"flat" for a flat fee, "versus" for a guarantee vs a percentage, "door_split" for a door deal`,
+  radiusClause: "radius clause wording, e.g. no shows within 100km for 60 days",
+  expiresAt: "date the offer expires as YYYY-MM-DD",
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = { "€": "EUR", "£": "GBP", $: "USD", "¥": "JPY" };
+const MONTH_PATTERN = "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*";
+
+/** Whether an email's labels call for offer extraction, and which kind of record it yields. */
+export function getBookingOfferKind(labels: EmailLabel[]): BookingOfferKind | null {
+  if (labels.includes("BOOKING/Offer")) return "offer";
+  if (labels.includes("BOOKING/Hold_or_Availability")) return "hold";
+  return null;
+}
+
+export function emptyBookingOfferFields(): BookingOfferFields {
+  const fields = {} as Record<keyof BookingOfferFields, BookingOfferField<unknown>>;
+  for (const key of BOOKING_OFFER_FIELD_KEYS) {
+    fields[key] = { value: null, confidence: 0 };
+  }
+  return fields as BookingOfferFields;
+}
+
+function clampConfidence(value: unknown, fallback: number): number {
+  if (value == null || value === "") return fallback;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.min(1, Math.max(0, Math.round(parsed * 100) / 100));
+}
+
+function parseText(value: unknown): string | null {
+  if (typeof value !== "string" && typeof value !== "number") return null;
+  const text = String(value).trim();
+  if (!text || /^(null|n\/a|none|unknown|tbc|tba)$/i.test(text)) return null;
+  return text.slice(0, TEXT_FIELD_LIMIT);
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function parseDate(value: unknown): string | null {
+  const text = parseText(value);
+  if (!text) return null;
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const parsed = new Date(text.replace(/(\d)(st|nd|rd|th)\b/i, "$1"));
+  return Number.isNaN(parsed.getTime()) ? null : formatDate(parsed);
+}
+
+function parseDates(value: unknown): string[] | null {
+  const entries = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(/\s*(?:,(?!\s*\d{4})|;|&|\band\b)\s*/i)
+      : [];
+  const dates = Array.from(new Set(entries.map(parseDate).filter((date): date is string => Boolean(date))));
+  return dates.length > 0 ? dates.sort() : null;
+}
+
+function parseAmount(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value > 0 ? value : null;
+  const text = parseText(value);
+  if (!text) return null;
+  const match = text.match(/(\d[\d,.]*)\s*(k)?\b/i);
+  if (!match) return null;
+  let digits = match[1];
+  // "6.000" and "6.000.000" use dots as thousands separators
+  digits = /^\d{1,3}(\.\d{3})+$/.test(digits) ? digits.replace(/\./g, "") : digits.replace(/,/g, "");
+  const amount = Number(digits) * (match[2] ? 1000 : 1);
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+function parseCurrency(value: unknown): string | null {
+  const text = parseText(value);
+  if (!text) return null;
+  const code = text.toUpperCase().match(/\b(EUR|GBP|USD|JPY|AUD|CAD|CHF|SEK|NOK|DKK|NZD)\b/);
+  if (code) return code[1];
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find((entry) => text.includes(entry));
+  return symbol ? CURRENCY_SYMBOLS[symbol] : /^[A-Z]{3}$/i.test(text) ? text.toUpperCase() : null;
+}
+
+function parseDealType(value: unknown): BookingDealType | null {
+  const text = parseText(value)?.toLowerCase();
+  if (!text) return null;
+  if (text === "flat" || text === "versus" || text === "door_split") return text;
+  if (/door\s*(split|deal)|%\s*of\s*(the\s*)?door|door\s*%/.test(text)) return "door_split";
+  if (/\bvs\.?\b|versus|\bplus\b.*%|back\s*end/.test(text)) return "versus";
+  if (/\bflat\b|all[-\s]?in/.test(text)) return "flat";
+  return null;
+}
+
+function parseTerritory(value: unknown): string | null {
+  const text = parseText(value)?.toUpperCase();
+  if (!text || !/^[A-Z]{2}$/.test(text)) return null;
+  return text === "UK" ? "GB" : text;
+}
+
+const FIELD_PARSERS: { [K in keyof BookingOfferFields]: (value: unknown) => BookingOfferFields[K]["value"] } = {
+  promoter: parseText,
+  venue: parseText,
+  city: parseText,
+  territory: parseTerritory,
+  showDates: parseDates,
+  guarantee: parseAmount,
+  currency: parseCurrency,
+  dealType: parseDealType,
+  radiusClause: parseText,
+  expiresAt: parseDate,
+};
+
+/**
+ * Coerces a provider reply into typed fields. Each key may be a
+ * `{ value, confidence }` object or a bare value; bare values get a middling
+ * confidence because nothing scored them.
+ */
+export function normalizeBookingOfferFields(raw: unknown): BookingOfferFields {
+  const source = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const fields = emptyBookingOfferFields() as Record<keyof BookingOfferFields, BookingOfferField<unknown>>;
+
+  for (const key of BOOKING_OFFER_FIELD_KEYS) {
+    const entry = source[key];
+    const scored = entry && typeof entry === "object" && !Array.isArray(entry) && "value" in entry;
+    const rawValue = scored ? (entry as { value: unknown }).value : entry;
+    const value = FIELD_PARSERS[key](rawValue);
+    const confidence = scored ? (entry as { confidence?: unknown }).confidence : null;
+    fields[key] = { value, confidence: value === null ? 0 : clampConfidence(confidence, UNSCORED_CONFIDENCE) };
+  }
+
+  return fields as BookingOfferFields;
+}
+
+/**
+ * Fills fee, currency, deal type and dates the provider missed from patterns
+ * in the email text, at low confidence so reviewers know to check them.
+ */
+export function inferBookingOfferFieldsFromText(fields: BookingOfferFields, text: string): BookingOfferFields {
+  const next = { ...fields };
+  const infer = <K extends keyof BookingOfferFields>(key: K, value: BookingOfferFields[K]["value"]) => {
+    if (next[key].value === null && value !== null) {
+      next[key] = { value, confidence: INFERRED_CONFIDENCE } as BookingOfferFields[K];
+    }
+  };
+
+  const fee =
+    text.match(/(?:[€£$]|\b(?:EUR|GBP|USD)\b)\s?\d[\d,.]*\s?k?\b/i)?.[0] ??
+    text.match(/\b\d[\d,.]*\s?k?\s?(?:EUR|GBP|USD)\b/i)?.[0] ??
+    null;
+  if (fee) {
+    infer("guarantee", parseAmount(fee.replace(/^[^\d]+/, "")));
+    infer("currency", parseCurrency(fee));
+  }
+
+  infer("dealType", parseDealType(text.match(/[^.\n]*(?:\bvs\.?\b|versus|door\s*(?:split|deal)|%\s*of\s*(?:the\s*)?door|\bflat\b)[^.\n]*/i)?.[0]));
+
+  const datePattern = new RegExp(`\\b(?:\\d{4}-\\d{2}-\\d{2}|\\d{1,2}(?:st|nd|rd|th)?\\s+${MONTH_PATTERN}\\s+\\d{4})\\b`, "gi");
+  infer("showDates", parseDates(Array.from(text.matchAll(datePattern), (match) => match[0])));
+
+  return next;
+}
+
+/** Merges reviewer edits; edited fields are trusted, so their confidence becomes 1. */
+export function applyBookingOfferEdit(
+  fields: BookingOfferFields,
+  edit: Partial<{ [K in keyof BookingOfferFields]: unknown }>
+): BookingOfferFields {
+  const next = { ...fields } as Record<keyof BookingOfferFields, BookingOfferField<unknown>>;
+  for (const key of BOOKING_OFFER_FIELD_KEYS) {
+    if (edit[key] === undefined) continue;
+    next[key] = { value: FIELD_PARSERS[key](edit[key]), confidence: 1 };
+  }
+  return next as BookingOfferFields;
+}
+
+function buildEmailText(email: LlmEmailInput): string {
+  const sender = email.fromName ? `${email.fromName} <${email.fromEmail}>` : email.fromEmail;
+  return `Subject: ${email.subject}\nFrom: ${sender}\n\n${email.body}`.slice(0, EMAIL_TEXT_LIMIT);
+}
+
+export function buildBookingOfferPrompt(email: LlmEmailInput): { system: string; user: string; text: string } {
+  const text = buildEmailText(email);
+  const system = [
+    "You extract live booking offers and holds from emails sent to an artist manager.",
+    "Only report what the email states. Use a null value with confidence 0 for anything missing; never guess.",
+    "Reply with a JSON object only.",
+  ].join("\n");
+
+  const user = [
+    'Return JSON where every key maps to {"value": ..., "confidence": number 0-1}. Keys:',
+    ...BOOKING_OFFER_FIELD_KEYS.map((key) => `- ${key}: ${FIELD_DESCRIPTIONS[key]}`),
+    "",
+    "Email:",
+    text,
+  ].join("\n");
+
+  return { system, user, text };
+}
+
+/**
+ * Runs the extraction through the configured provider and tops up missing
+ * fields from the raw text. `extractedBy` records the provider/model pair.
+ */
+export async function extractBookingOffer(
+  email: LlmEmailInput,
+  provider: LlmProvider,
+  options: { model?: string | null } = {}
+): Promise<{ fields: BookingOfferFields; extractedBy: string }> {
+  const prompt = buildBookingOfferPrompt(email);
+  const response = await provider.extract({
+    system: prompt.system,
+    user: prompt.user,
+    text: prompt.text,
+    fields: [...BOOKING_OFFER_FIELD_KEYS],
+    model: options.model ?? null,
+    temperature: 0,
+  });
+
+  return {
+    fields: inferBookingOfferFieldsFromText(normalizeBookingOfferFields(response.data), prompt.text),
+    extractedBy: `${provider.name}/${response.usage.model}`,
+  };
+}
+
+/**
+ * Builds the `timeline_item_from_email` approval payload that seeds a
+ * `LIVE_HOLD` for the offer. Returns null when the offer has no show date.
+ */
+export function buildBookingHoldApprovalPayload(
+  offer: Pick<BookingOfferRecord, "id" | "emailId" | "fields">,
+  projectId: string
+): Record<string, unknown> | null {
+  const dates = offer.fields.showDates.value;
+  if (!dates || dates.length === 0) {
+    return null;
+  }
+
+  const { venue, city, promoter, guarantee, currency, dealType } = offer.fields;
+  const place = [venue.value, city.value].filter(Boolean).join(", ");
+  const fee = guarantee.value !== null ? `${currency.value ?? ""} ${guarantee.value.toLocaleString("en-GB")}`.trim() : null;
+  const description = [
+    promoter.value ? `Promoter: ${promoter.value}` : null,
+    fee ? `Guarantee: ${fee}${dealType.value ? ` (${dealType.value.replace("_", " ")})` : ""}` : null,
+    offer.fields.radiusClause.value ? `Radius: ${offer.fields.radiusClause.value}` : null,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    projectId,
+    title: place ? `Hold: ${place}` : "Hold from booking offer",
+    type: "LIVE_HOLD",
+    status: "tentative",
+    startsAt: `${dates[0]}T00:00:00.000Z`,
+    endsAt: dates.length > 1 ? `${dates[dates.length - 1]}T23:59:59.000Z` : null,
+    territory: offer.fields.territory.value,
+    description: description || null,
+    labels: {
+      ...(city.value ? { city: city.value } : {}),
+      ...(venue.value ? { venue: venue.value } : {}),
+    },
+    links: { emailId: offer.emailId, bookingOfferId: offer.id, refTable: "booking_offers", refId: offer.id },
+    metadata: { source: "booking_offer", bookingOfferId: offer.id },
+  };
+}
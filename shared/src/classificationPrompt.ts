@@ -0,0 +1,67 @@
+import type { ClassificationPromptSettings } from "./types";
+
+export const CLASSIFICATION_MAX_LABELS_LIMIT = 5;
+const CLASSIFICATION_TEXT_LIMIT = 8000;
+
+export const DEFAULT_CLASSIFICATION_PROMPT_SETTINGS: ClassificationPromptSettings = {
+  systemMessage: "",
+  userInstructions: "",
+  model: "gpt-4o-mini",
+  temperature: 0.4,
+  maxLabels: 3,
+};
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function asText(value: unknown): string {
+  return typeof value === "string" ? value.trim().slice(0, CLASSIFICATION_TEXT_LIMIT) : "";
+}
+
+/**
+ * Coerces stored or submitted prompt settings into a usable shape. Missing or
+ * invalid fields fall back to the defaults so a bad save never stops
+ * classification.
+ */
+export function normalizeClassificationPromptSettings(
+  value: unknown,
+  defaults: ClassificationPromptSettings = DEFAULT_CLASSIFICATION_PROMPT_SETTINGS
+): ClassificationPromptSettings {
+  const input = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+
+  const model = asText(input.model) || defaults.model;
+  const temperature = asNumber(input.temperature);
+  const maxLabels = asNumber(input.maxLabels);
+
+  return {
+    systemMessage: asText(input.systemMessage),
+    userInstructions: asText(input.userInstructions),
+    model,
+    temperature: temperature !== null ? clamp(temperature, 0, 2) : defaults.temperature,
+    maxLabels:
+      maxLabels !== null ? clamp(Math.round(maxLabels), 1, CLASSIFICATION_MAX_LABELS_LIMIT) : defaults.maxLabels,
+  };
+}
+
+export function classificationPromptSettingsEqual(
+  a: ClassificationPromptSettings,
+  b: ClassificationPromptSettings
+): boolean {
+  return (
+    a.systemMessage === b.systemMessage &&
+    a.userInstructions === b.userInstructions &&
+    a.model === b.model &&
+    a.temperature === b.temperature &&
+    a.maxLabels === b.maxLabels
+  );
+}
@@ -0,0 +1,248 @@
+import type { ContactInteractionCounts, ContactRole, EmailLabel } from "./types";
+
+export const CONTACT_ROLES: ContactRole[] = ["promoter", "agent", "label", "press", "venue"];
+
+// Webmail domains identify a mailbox provider rather than an organisation,
+// so contacts on them are never grouped.
+const PERSONAL_EMAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "hotmail.co.uk",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "yahoo.co.uk",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "aol.com",
+  "proton.me",
+  "protonmail.com",
+  "gmx.com",
+  "gmx.de",
+  "web.de",
+]);
+
+const SIGNATURE_DELIMITERS = [
+  /^--\s*$/,
+  /^_{3,}\s*$/,
+  /^(best|kind|warm)?\s*(regards|wishes)[,!.]?\s*$/i,
+  /^(many\s+)?thanks( again)?[,!.]?\s*$/i,
+  /^(thank you|cheers|best|all the best|speak soon|talk soon|sincerely)[,!.]?\s*$/i,
+  /^sent from my /i,
+];
+
+const PHONE_LINE = /(?:^|\b)(?:t|tel|phone|mob|mobile|m|cell|office|o|p)\s*[.:]?\s*(\+?[\d][\d\s().-]{6,}\d)/i;
+const BARE_PHONE = /^(\+?\d[\d\s().-]{6,}\d)$/;
+const COMPANY_HINT =
+  /\b(ltd|limited|llc|inc|gmbh|bv|plc|records|recordings|music|agency|management|mgmt|promotions|presents|entertainment|events|booking|touring|pr|media|venue|club|festival|radio|magazine)\b/i;
+const QUOTE_HEADER = /^on .+wrote:$/i;
+const SIGNATURE_SCAN_LINES = 12;
+
+const ROLE_LABEL_PREFIXES: Array<{ prefix: string; role: ContactRole }> = [
+  { prefix: "BOOKING/", role: "promoter" },
+  { prefix: "PROMO/Press_Feature", role: "press" },
+  { prefix: "PROMO/Radio_Playlist", role: "press" },
+  { prefix: "LOGISTICS/Technical_Advance", role: "venue" },
+  { prefix: "LOGISTICS/Passes_Access", role: "venue" },
+  { prefix: "FINANCE/Royalties_Publishing", role: "label" },
+];
+
+export interface EmailSignatureDetails {
+  phone: string | null;
+  company: string | null;
+}
+
+export function extractEmailDomain(email: string | null | undefined): string | null {
+  const match = email?.trim().toLowerCase().match(/@([a-z0-9.-]+\.[a-z]{2,})$/);
+  return match ? match[1] : null;
+}
+
+export function isPersonalEmailDomain(domain: string | null | undefined): boolean {
+  return !domain || PERSONAL_EMAIL_DOMAINS.has(domain.toLowerCase());
+}
+
+/**
+ * Organisation name guess for a domain: the registrable label, title-cased.
+ * `mail.northstar-live.co.uk` becomes "Northstar Live".
+ */
+export function deriveOrganisationName(domain: string): string {
+  const parts = domain.toLowerCase().split(".").filter(Boolean);
+  const secondLevel = new Set(["co", "com", "org", "net", "ac", "gov"]);
+  let index = parts.length - 2;
+  if (index > 0 && secondLevel.has(parts[index]) && parts[parts.length - 1].length === 2) {
+    index -= 1;
+  }
+  const label = parts[Math.max(index, 0)] ?? domain;
+  return label
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function stripQuotedReply(body: string): string[] {
+  const lines = body.replace(/\r\n/g, "\n").split("\n");
+  const result: string[] = [];
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith(">") || QUOTE_HEADER.test(trimmed)) break;
+    result.push(trimmed);
+  }
+  return result;
+}
+
+function normalizePhone(value: string): string | null {
+  const cleaned = value.replace(/[^\d+()\s.-]/g, "").replace(/\s+/g, " ").trim();
+  const digits = cleaned.replace(/\D/g, "");
+  return digits.length >= 7 && digits.length <= 15 ? cleaned : null;
+}
+
+/**
+ * Pulls a phone number and company name out of the signature block of a
+ * plain-text email body. The block starts at the last sign-off or `--`
+ * delimiter (or the final lines when there is none), and quoted replies are
+ * ignored so a signature from earlier in the thread is not picked up.
+ */
+export function parseEmailSignature(
+  body: string | null | undefined,
+  options: { fromName?: string | null } = {}
+): EmailSignatureDetails {
+  if (!body) return { phone: null, company: null };
+
+  const lines = stripQuotedReply(body);
+  let start = -1;
+  for (let index = lines.length - 1; index >= 0; index -= 1) {
+    if (SIGNATURE_DELIMITERS.some((pattern) => pattern.test(lines[index]))) {
+      start = index + 1;
+      break;
+    }
+  }
+
+  const block = (start >= 0 ? lines.slice(start) : lines.slice(-SIGNATURE_SCAN_LINES))
+    .filter(Boolean)
+    .slice(0, SIGNATURE_SCAN_LINES);
+
+  let phone: string | null = null;
+  let company: string | null = null;
+  const name = options.fromName?.trim().toLowerCase() ?? null;
+
+  for (const line of block) {
+    if (!phone) {
+      const labelled = line.match(PHONE_LINE);
+      const bare = line.match(BARE_PHONE);
+      const candidate = labelled?.[1] ?? bare?.[1] ?? null;
+      if (candidate) {
+        phone = normalizePhone(candidate);
+        if (phone) continue;
+      }
+    }
+
+    if (!company && line.length <= 80 && !line.includes("@") && !/https?:\/\//i.test(line)) {
+      const candidate = line.split(/\s+[|·•]\s+/).find((part) => COMPANY_HINT.test(part)) ?? null;
+      if (candidate && candidate.toLowerCase() !== name) {
+        company = candidate.replace(/[,;]+$/, "").trim();
+      }
+    }
+  }
+
+  return { phone, company };
+}
+
+/**
+ * Suggests a role from an email's labels. Only used when the contact has no
+ * role yet, so manual choices are never overwritten.
+ */
+export function inferContactRole(labels: Array<EmailLabel | string> | null | undefined): ContactRole | null {
+  for (const label of labels ?? []) {
+    const match = ROLE_LABEL_PREFIXES.find((entry) => label.startsWith(entry.prefix));
+    if (match) return match.role;
+  }
+  return null;
+}
+
+/**
+ * Interaction counts are keyed by the top-level category (`BOOKING`,
+ * `FINANCE`, ...) so they stay readable as the label taxonomy grows.
+ */
+export function incrementInteractionCounts(
+  counts: ContactInteractionCounts | null | undefined,
+  category: EmailLabel | string | null | undefined
+): ContactInteractionCounts {
+  const key = (category ?? "MISC").split("/")[0] || "MISC";
+  const next: ContactInteractionCounts = { ...(counts ?? {}) };
+  next[key] = (next[key] ?? 0) + 1;
+  return next;
+}
+
+export function normalizeInteractionCounts(value: unknown): ContactInteractionCounts {
+  if (!value || typeof value !== "object") return {};
+  const result: ContactInteractionCounts = {};
+  for (const [key, count] of Object.entries(value as Record<string, unknown>)) {
+    const numeric = Number(count);
+    if (Number.isFinite(numeric) && numeric > 0) {
+      result[key] = Math.round(numeric);
+    }
+  }
+  return result;
+}
+
+export function isContactRole(value: unknown): value is ContactRole {
+  return typeof value === "string" && CONTACT_ROLES.includes(value as ContactRole);
+}
+
+export interface ContactIngestInput {
+  /** Owner of the inbox the message arrived in; contacts are per user. */
+  userId: string;
+  fromEmail: string;
+  fromName: string | null;
+  receivedAt: string;
+  body: string | null;
+  category: EmailLabel | string;
+  labels: Array<EmailLabel | string>;
+  /** False when the message was already ingested, so counts are not doubled. */
+  isNewMessage: boolean;
+}
+
+export interface ExistingContactSnapshot {
+  name: string | null;
+  phone: string | null;
+  company: string | null;
+  role: string | null;
+  interaction_counts: unknown;
+  last_email_at: string | null;
+  organisation_id: string | null;
+}
+
+/**
+ * Builds the `contacts` upsert row for an ingested email. Parsed signature
+ * details only fill empty fields, so edits made on the People page win over
+ * later signatures.
+ */
+export function buildContactIngestRow(
+  input: ContactIngestInput,
+  existing: ExistingContactSnapshot | null,
+  organisationId: string | null
+): Record<string, unknown> {
+  const signature = parseEmailSignature(input.body, { fromName: input.fromName });
+  const counts = normalizeInteractionCounts(existing?.interaction_counts);
+  const lastEmailAt =
+    existing?.last_email_at && Date.parse(existing.last_email_at) > Date.parse(input.receivedAt)
+      ? existing.last_email_at
+      : input.receivedAt;
+
+  return {
+    user_id: input.userId,
+    email: input.fromEmail,
+    name: input.fromName ?? existing?.name ?? null,
+    last_email_at: lastEmailAt,
+    phone: existing?.phone ?? signature.phone,
+    company: existing?.company ?? signature.company,
+    role: existing?.role ?? inferContactRole([input.category, ...input.labels]),
+    interaction_counts: input.isNewMessage ? incrementInteractionCounts(counts, input.category) : counts,
+    organisation_id: existing?.organisation_id ?? organisationId,
+    updated_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,220 @@
+import type { ApprovalRecord, DigestPayload, DigestTopAction } from "./types";
+
+export const DIGEST_DELIVERY_MAX_ATTEMPTS = 5;
+
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface QuietHoursWindow {
+  start: string;
+  end: string;
+  timezone: string | null;
+}
+
+export interface RenderedDigestEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface RenderDigestEmailOptions {
+  generatedFor: string;
+  recipientName?: string | null;
+  appUrl?: string | null;
+}
+
+function toClock(value: unknown): string | null {
+  if (typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 24) {
+    return `${String(value % 24).padStart(2, "0")}:00`;
+  }
+  if (typeof value === "string") {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    if (match && Number(match[1]) <= 23 && Number(match[2]) <= 59) {
+      return `${match[1].padStart(2, "0")}:${match[2]}`;
+    }
+  }
+  return null;
+}
+
+function clockToMinutes(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function getZonedMinutes(now: Date, timezone: string): number {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now);
+    const hour = Number(parts.find((part) => part.type === "hour")?.value ?? 0);
+    const minute = Number(parts.find((part) => part.type === "minute")?.value ?? 0);
+    return hour * 60 + minute;
+  } catch (err) {
+    return now.getUTCHours() * 60 + now.getUTCMinutes();
+  }
+}
+
+/**
+ * Reads the loosely-typed `user_preferences.quiet_hours` JSON. Accepts
+ * `{ start: "22:00", end: "07:00" }`, `startTime`/`endTime` or whole-hour
+ * `startHour`/`endHour`, plus an optional `timezone` and `enabled` flag.
+ */
+export function parseQuietHours(value: Record<string, unknown> | null | undefined): QuietHoursWindow | null {
+  if (!value || typeof value !== "object" || value.enabled === false) {
+    return null;
+  }
+
+  const start = toClock(value.start ?? value.startTime ?? value.startHour);
+  const end = toClock(value.end ?? value.endTime ?? value.endHour);
+  if (!start || !end || start === end) {
+    return null;
+  }
+
+  const timezone = typeof value.timezone === "string" && value.timezone.trim() ? value.timezone.trim() : null;
+  return { start, end, timezone };
+}
+
+/**
+ * Returns the number of minutes until quiet hours end, or 0 when `now` falls
+ * outside the window. Windows that cross midnight are supported.
+ */
+export function getQuietHoursRemainingMinutes(
+  quietHours: QuietHoursWindow | null,
+  fallbackTimezone: string,
+  now: Date = new Date()
+): number {
+  if (!quietHours) {
+    return 0;
+  }
+
+  const current = getZonedMinutes(now, quietHours.timezone ?? fallbackTimezone ?? "UTC");
+  const start = clockToMinutes(quietHours.start);
+  const end = clockToMinutes(quietHours.end);
+  const inside = start < end ? current >= start && current < end : current >= start || current < end;
+  if (!inside) {
+    return 0;
+  }
+
+  return (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+export function isWithinQuietHours(
+  quietHours: QuietHoursWindow | null,
+  fallbackTimezone: string,
+  now: Date = new Date()
+): boolean {
+  return getQuietHoursRemainingMinutes(quietHours, fallbackTimezone, now) > 0;
+}
+
+/**
+ * Exponential backoff for failed deliveries: 5 minutes after the first
+ * failure, doubling each time, capped at six hours.
+ */
+export function getDigestRetryDelayMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** exponent, RETRY_MAX_DELAY_MS);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(value: string | null): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function describeTopAction(action: DigestTopAction): string {
+  const due = formatDate(action.dueAt ?? action.startsAt);
+  return due ? `${action.title} (${due})` : action.title;
+}
+
+export function describeDigestApproval(approval: ApprovalRecord): string {
+  const payload = approval.payload ?? {};
+  const label = [payload.title, payload.subject, payload.summary].find(
+    (value): value is string => typeof value === "string" && value.trim().length > 0
+  );
+  return label ?? approval.type.replace(/_/g, " ");
+}
+
+export function renderDigestEmail(payload: DigestPayload, options: RenderDigestEmailOptions): RenderedDigestEmail {
+  const greeting = options.recipientName ? `Hi ${options.recipientName},` : "Hi,";
+  const subject = `Your Kazador digest for ${options.generatedFor}`;
+  const { meta } = payload;
+  const overview = `${meta.totalProjects} projects · ${payload.topActions.length} top actions · ${meta.totalPendingApprovals} pending approvals`;
+
+  const text: string[] = [greeting, "", overview, ""];
+  const html: string[] = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p style="color:#4b5563">${escapeHtml(overview)}</p>`,
+  ];
+
+  if (payload.topActions.length > 0) {
+    text.push("Top actions");
+    html.push("<h2>Top actions</h2>", "<ol>");
+    for (const action of payload.topActions) {
+      text.push(`- [${action.projectName}] ${describeTopAction(action)}`);
+      html.push(
+        `<li><strong>${escapeHtml(action.projectName)}</strong>: ${escapeHtml(describeTopAction(action))}</li>`
+      );
+    }
+    text.push("");
+    html.push("</ol>");
+  }
+
+  const wokenEmails = payload.wokenEmails ?? [];
+  if (wokenEmails.length > 0) {
+    text.push("Back from snooze");
+    html.push("<h2>Back from snooze</h2>", "<ul>");
+    for (const email of wokenEmails) {
+      const line = `${email.subject || "(No subject)"} — ${email.fromName ?? email.fromEmail}`;
+      text.push(`- ${line}`);
+      html.push(`<li>${escapeHtml(line)}</li>`);
+    }
+    text.push("");
+    html.push("</ul>");
+  }
+
+  if (payload.projects.length > 0) {
+    text.push("Projects");
+    html.push("<h2>Projects</h2>");
+    for (const snapshot of payload.projects) {
+      const { metrics } = snapshot;
+      const line = `health ${metrics.healthScore} · ${metrics.openTasks} open tasks · ${metrics.upcomingTimeline} upcoming · ${metrics.conflicts} conflicts`;
+      text.push(`${snapshot.project.name}: ${line}`);
+      html.push(`<h3>${escapeHtml(snapshot.project.name)}</h3>`, `<p>${escapeHtml(line)}</p>`);
+
+      if (snapshot.approvals.length > 0) {
+        html.push("<ul>");
+        for (const approval of snapshot.approvals) {
+          text.push(`  * Approval: ${describeDigestApproval(approval)}`);
+          html.push(`<li>Approval: ${escapeHtml(describeDigestApproval(approval))}</li>`);
+        }
+        html.push("</ul>");
+      }
+    }
+    text.push("");
+  }
+
+  if (options.appUrl) {
+    text.push(`Open Kazador: ${options.appUrl}`);
+    html.push(`<p><a href="${escapeHtml(options.appUrl)}">Open Kazador</a></p>`);
+  }
+
+  return {
+    subject,
+    text: text.join("\n").trimEnd() + "\n",
+    html: `<!doctype html><html><body style="font-family:sans-serif">${html.join("")}</body></html>`,
+  };
+}
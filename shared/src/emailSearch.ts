@@ -0,0 +1,360 @@
+import type { EmailRecord, EmailTriageState } from "./types";
+
+const TRIAGE_STATES: EmailTriageState[] = ["unassigned", "acknowledged", "snoozed", "resolved"];
+
+const FIELD_WEIGHTS = {
+  subject: 5,
+  fromName: 4,
+  fromEmail: 3,
+  project: 3,
+  attachment: 2,
+  summary: 1,
+} as const;
+
+export interface EmailSearchQuery {
+  raw: string;
+  terms: string[];
+  from: string[];
+  labels: string[];
+  projects: string[];
+  hasAttachment: boolean;
+  before: string | null;
+  after: string | null;
+  isUnread: boolean | null;
+  triageStates: EmailTriageState[];
+}
+
+export interface EmailSearchHighlightRange {
+  start: number;
+  end: number;
+}
+
+export interface EmailSearchMatch {
+  score: number;
+  highlights: {
+    subject: EmailSearchHighlightRange[];
+    summary: EmailSearchHighlightRange[];
+    fromName: EmailSearchHighlightRange[];
+    fromEmail: EmailSearchHighlightRange[];
+  };
+  matchedAttachments: string[];
+  matchedProjects: string[];
+}
+
+export interface HighlightedTextSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+function tokenizeSearchInput(input: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /(\S+?:"[^"]*"?|"[^"]*"?|\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input)) !== null) {
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"/, "").replace(/"$/, "").trim();
+}
+
+/**
+ * Accepts `YYYY-MM-DD` or `YYYY/MM/DD` and returns the start of that day in
+ * UTC, matching how Gmail interprets date operators.
+ */
+function parseSearchDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function createEmptyEmailSearchQuery(raw = ""): EmailSearchQuery {
+  return {
+    raw,
+    terms: [],
+    from: [],
+    labels: [],
+    projects: [],
+    hasAttachment: false,
+    before: null,
+    after: null,
+    isUnread: null,
+    triageStates: [],
+  };
+}
+
+/**
+ * Parses an inbox search string with Gmail-style operators. Unknown
+ * operators and malformed values fall back to free-text terms so nothing the
+ * user typed is silently dropped.
+ */
+export function parseEmailSearchQuery(input: string | null | undefined): EmailSearchQuery {
+  const raw = (input ?? "").trim();
+  const query = createEmptyEmailSearchQuery(raw);
+
+  for (const token of tokenizeSearchInput(raw)) {
+    const separator = token.indexOf(":");
+    const operator = separator > 0 && !token.startsWith('"') ? token.slice(0, separator).toLowerCase() : null;
+    const value = operator ? unquote(token.slice(separator + 1)) : "";
+    let handled = false;
+
+    if (operator && value) {
+      switch (operator) {
+        case "from":
+          query.from.push(value.toLowerCase());
+          handled = true;
+          break;
+        case "label":
+          query.labels.push(value.toLowerCase());
+          handled = true;
+          break;
+        case "project":
+          query.projects.push(value.toLowerCase());
+          handled = true;
+          break;
+        case "has":
+          if (value.toLowerCase() === "attachment") {
+            query.hasAttachment = true;
+            handled = true;
+          }
+          break;
+        case "is":
+          if (value.toLowerCase() === "unread") {
+            query.isUnread = true;
+            handled = true;
+          } else if (value.toLowerCase() === "read") {
+            query.isUnread = false;
+            handled = true;
+          }
+          break;
+        case "triage": {
+          const state = value.toLowerCase() as EmailTriageState;
+          if (TRIAGE_STATES.includes(state)) {
+            if (!query.triageStates.includes(state)) {
+              query.triageStates.push(state);
+            }
+            handled = true;
+          }
+          break;
+        }
+        case "before":
+        case "after": {
+          const date = parseSearchDate(value);
+          if (date) {
+            query[operator] = date;
+            handled = true;
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    }
+
+    if (!handled) {
+      const term = unquote(token).toLowerCase();
+      if (term) {
+        query.terms.push(term);
+      }
+    }
+  }
+
+  return query;
+}
+
+export function hasEmailSearchCriteria(query: EmailSearchQuery): boolean {
+  return (
+    query.terms.length > 0 ||
+    query.from.length > 0 ||
+    query.labels.length > 0 ||
+    query.projects.length > 0 ||
+    query.hasAttachment ||
+    query.before != null ||
+    query.after != null ||
+    query.isUnread != null ||
+    query.triageStates.length > 0
+  );
+}
+
+function findRanges(text: string | null | undefined, terms: string[]): EmailSearchHighlightRange[] {
+  if (!text || terms.length === 0) return [];
+  const haystack = text.toLowerCase();
+  const ranges: EmailSearchHighlightRange[] = [];
+
+  for (const term of terms) {
+    let index = haystack.indexOf(term);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + term.length });
+      index = haystack.indexOf(term, index + term.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: EmailSearchHighlightRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+function includesText(value: string | null | undefined, needle: string): boolean {
+  return Boolean(value && value.toLowerCase().includes(needle));
+}
+
+function matchesLabel(labels: string[], filter: string): boolean {
+  return labels.some((label) => {
+    const normalized = label.toLowerCase();
+    return normalized === filter || normalized.startsWith(`${filter}/`);
+  });
+}
+
+/**
+ * Applies the structured operators to an enriched email. Free-text terms are
+ * handled by {@link scoreEmailSearchMatch} so they can contribute to ranking.
+ */
+export function matchesEmailSearchFilters(email: EmailRecord, query: EmailSearchQuery): boolean {
+  if (query.from.some((value) => !includesText(email.fromName, value) && !includesText(email.fromEmail, value))) {
+    return false;
+  }
+
+  const labels = [email.category, ...(email.labels ?? [])].filter(Boolean) as string[];
+  if (query.labels.some((value) => !matchesLabel(labels, value))) {
+    return false;
+  }
+
+  const projectNames = (email.linkedProjects ?? []).map((project) => project.name);
+  if (query.projects.some((value) => !projectNames.some((name) => includesText(name, value)))) {
+    return false;
+  }
+
+  if (query.hasAttachment) {
+    const attachmentCount = email.attachmentCount ?? email.attachments?.length ?? 0;
+    if (!email.hasAttachments && attachmentCount === 0) {
+      return false;
+    }
+  }
+
+  const receivedAt = Date.parse(email.receivedAt);
+  if (query.before && !(receivedAt < Date.parse(query.before))) {
+    return false;
+  }
+  if (query.after && !(receivedAt >= Date.parse(query.after))) {
+    return false;
+  }
+
+  if (query.isUnread != null && email.isRead === query.isUnread) {
+    return false;
+  }
+
+  if (query.triageStates.length > 0 && !query.triageStates.includes(email.triageState ?? "unassigned")) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Scores an email against the free-text terms. Every term has to appear in at
+ * least one searchable field; the score weights subject and sender matches
+ * above project, attachment and summary matches. Returns null when the email
+ * does not match.
+ */
+export function scoreEmailSearchMatch(email: EmailRecord, query: EmailSearchQuery): EmailSearchMatch | null {
+  if (!matchesEmailSearchFilters(email, query)) {
+    return null;
+  }
+
+  const attachmentNames = (email.attachments ?? []).map((attachment) => attachment.filename).filter(Boolean);
+  const projectNames = (email.linkedProjects ?? []).map((project) => project.name);
+  const matchedAttachments = new Set<string>();
+  const matchedProjects = new Set<string>();
+  let score = 0;
+
+  for (const term of query.terms) {
+    let termScore = 0;
+    if (includesText(email.subject, term)) termScore += FIELD_WEIGHTS.subject;
+    if (includesText(email.fromName, term)) termScore += FIELD_WEIGHTS.fromName;
+    if (includesText(email.fromEmail, term)) termScore += FIELD_WEIGHTS.fromEmail;
+    if (includesText(email.summary, term)) termScore += FIELD_WEIGHTS.summary;
+
+    for (const name of projectNames) {
+      if (includesText(name, term)) {
+        matchedProjects.add(name);
+        termScore += FIELD_WEIGHTS.project;
+      }
+    }
+    for (const name of attachmentNames) {
+      if (includesText(name, term)) {
+        matchedAttachments.add(name);
+        termScore += FIELD_WEIGHTS.attachment;
+      }
+    }
+
+    if (termScore === 0) {
+      return null;
+    }
+    score += termScore;
+  }
+
+  if (query.terms.length > 1 && includesText(email.subject, query.terms.join(" "))) {
+    score += FIELD_WEIGHTS.subject;
+  }
+
+  return {
+    score,
+    highlights: {
+      subject: findRanges(email.subject, query.terms),
+      summary: findRanges(email.summary, query.terms),
+      fromName: findRanges(email.fromName, [...query.terms, ...query.from]),
+      fromEmail: findRanges(email.fromEmail, [...query.terms, ...query.from]),
+    },
+    matchedAttachments: Array.from(matchedAttachments),
+    matchedProjects: Array.from(matchedProjects),
+  };
+}
+
+/**
+ * Orders scored results by score, then priority, then recency.
+ */
+export function rankEmailSearchResults<T extends { email: EmailRecord; match: EmailSearchMatch }>(results: T[]): T[] {
+  return [...results].sort((a, b) => {
+    if (b.match.score !== a.match.score) return b.match.score - a.match.score;
+    const priorityDiff = (b.email.priorityScore ?? 0) - (a.email.priorityScore ?? 0);
+    if (priorityDiff !== 0) return priorityDiff;
+    return Date.parse(b.email.receivedAt) - Date.parse(a.email.receivedAt);
+  });
+}
+
+export function splitHighlightedText(
+  text: string,
+  ranges: EmailSearchHighlightRange[] | null | undefined
+): HighlightedTextSegment[] {
+  if (!ranges || ranges.length === 0) {
+    return [{ text, highlighted: false }];
+  }
+
+  const segments: HighlightedTextSegment[] = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    const start = Math.max(range.start, cursor);
+    const end = Math.min(range.end, text.length);
+    if (start >= end) continue;
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), highlighted: false });
+    }
+    segments.push({ text: text.slice(start, end), highlighted: true });
+    cursor = end;
+  }
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlighted: false });
+  }
+  return segments;
+}
@@ -0,0 +1,98 @@
+import type { EmailProjectContext, EmailRecord, EmailTriageState } from "./types";
+
+// Least-resolved state wins so a thread keeps needing attention while any
+// message in it does.
+const TRIAGE_STATE_ORDER: EmailTriageState[] = ["unassigned", "snoozed", "acknowledged", "resolved"];
+
+export interface EmailThreadParticipant {
+  name: string | null;
+  email: string;
+}
+
+export interface EmailThreadRecord {
+  threadId: string;
+  subject: string;
+  emails: EmailRecord[];
+  participants: EmailThreadParticipant[];
+  linkedProjects: EmailProjectContext[];
+  triageState: EmailTriageState;
+  unreadCount: number;
+  lastMessageAt: string | null;
+}
+
+/**
+ * Normalises an RFC 5322 message id to its bracketed form so ids taken from
+ * `Message-ID`, `In-Reply-To` and `References` compare equal.
+ */
+export function normalizeMessageId(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  const inner = trimmed.replace(/^<+/, "").replace(/>+$/, "").trim();
+  return inner ? `<${inner}>` : null;
+}
+
+/**
+ * Splits a `References` or `In-Reply-To` header into message ids, preserving
+ * order and dropping duplicates.
+ */
+export function parseMessageIdList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  const matches = value.match(/<[^<>\s]+>/g) ?? value.split(/\s+/);
+  const ids: string[] = [];
+  for (const match of matches) {
+    const id = normalizeMessageId(match);
+    if (id && !ids.includes(id)) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+export function summarizeThreadTriageState(emails: Array<Pick<EmailRecord, "triageState">>): EmailTriageState {
+  let index = TRIAGE_STATE_ORDER.length - 1;
+  for (const email of emails) {
+    const position = TRIAGE_STATE_ORDER.indexOf(email.triageState ?? "unassigned");
+    if (position !== -1 && position < index) {
+      index = position;
+    }
+  }
+  return emails.length === 0 ? "unassigned" : TRIAGE_STATE_ORDER[index];
+}
+
+export function sortThreadMessages(emails: EmailRecord[]): EmailRecord[] {
+  return [...emails].sort((a, b) => {
+    const diff = Date.parse(a.receivedAt) - Date.parse(b.receivedAt);
+    return diff !== 0 ? diff : a.id.localeCompare(b.id);
+  });
+}
+
+export function buildEmailThread(threadId: string, emails: EmailRecord[]): EmailThreadRecord {
+  const ordered = sortThreadMessages(emails);
+
+  const participants = new Map<string, EmailThreadParticipant>();
+  const projects = new Map<string, EmailProjectContext>();
+  for (const email of ordered) {
+    const key = email.fromEmail.toLowerCase();
+    if (!participants.has(key)) {
+      participants.set(key, { name: email.fromName, email: email.fromEmail });
+    }
+    for (const project of email.linkedProjects ?? []) {
+      if (!projects.has(project.projectId)) {
+        projects.set(project.projectId, project);
+      }
+    }
+  }
+
+  const last = ordered[ordered.length - 1] ?? null;
+
+  return {
+    threadId,
+    subject: ordered[0]?.subject ?? "",
+    emails: ordered,
+    participants: Array.from(participants.values()),
+    linkedProjects: Array.from(projects.values()),
+    triageState: summarizeThreadTriageState(ordered),
+    unreadCount: ordered.filter((email) => !email.isRead).length,
+    lastMessageAt: last ? last.receivedAt : null,
+  };
+}
@@ -0,0 +1,325 @@
+/**
+ * Offline city gazetteer used for travel-time and time-zone checks. Entries
+ * are `[name, country, latitude, longitude, timezone, aliases]`; the first
+ * city listed for a country stands in for it when only a territory is known.
+ */
+type GazetteerRow = [string, string, number, number, string, string[]?];
+
+const GAZETTEER_ROWS: GazetteerRow[] = [
+  // British Isles
+  ["London", "GB", 51.51, -0.13, "Europe/London"],
+  ["Manchester", "GB", 53.48, -2.24, "Europe/London"],
+  ["Birmingham", "GB", 52.49, -1.89, "Europe/London"],
+  ["Glasgow", "GB", 55.86, -4.25, "Europe/London"],
+  ["Edinburgh", "GB", 55.95, -3.19, "Europe/London"],
+  ["Leeds", "GB", 53.8, -1.55, "Europe/London"],
+  ["Liverpool", "GB", 53.41, -2.98, "Europe/London"],
+  ["Bristol", "GB", 51.45, -2.59, "Europe/London"],
+  ["Newcastle", "GB", 54.98, -1.61, "Europe/London", ["Newcastle upon Tyne"]],
+  ["Brighton", "GB", 50.82, -0.14, "Europe/London"],
+  ["Nottingham", "GB", 52.95, -1.15, "Europe/London"],
+  ["Sheffield", "GB", 53.38, -1.47, "Europe/London"],
+  ["Cardiff", "GB", 51.48, -3.18, "Europe/London"],
+  ["Belfast", "GB", 54.6, -5.93, "Europe/London"],
+  ["Dublin", "IE", 53.35, -6.26, "Europe/Dublin"],
+  ["Cork", "IE", 51.9, -8.47, "Europe/Dublin"],
+  ["Galway", "IE", 53.27, -9.05, "Europe/Dublin"],
+  ["Limerick", "IE", 52.66, -8.63, "Europe/Dublin"],
+  // Western and central Europe
+  ["Paris", "FR", 48.86, 2.35, "Europe/Paris"],
+  ["Lyon", "FR", 45.76, 4.84, "Europe/Paris"],
+  ["Marseille", "FR", 43.3, 5.37, "Europe/Paris"],
+  ["Toulouse", "FR", 43.6, 1.44, "Europe/Paris"],
+  ["Bordeaux", "FR", 44.84, -0.58, "Europe/Paris"],
+  ["Lille", "FR", 50.63, 3.06, "Europe/Paris"],
+  ["Nantes", "FR", 47.22, -1.55, "Europe/Paris"],
+  ["Nice", "FR", 43.7, 7.27, "Europe/Paris"],
+  ["Berlin", "DE", 52.52, 13.4, "Europe/Berlin"],
+  ["Hamburg", "DE", 53.55, 9.99, "Europe/Berlin"],
+  ["Munich", "DE", 48.14, 11.58, "Europe/Berlin", ["München", "Muenchen"]],
+  ["Cologne", "DE", 50.94, 6.96, "Europe/Berlin", ["Köln", "Koeln"]],
+  ["Frankfurt", "DE", 50.11, 8.68, "Europe/Berlin", ["Frankfurt am Main"]],
+  ["Leipzig", "DE", 51.34, 12.37, "Europe/Berlin"],
+  ["Stuttgart", "DE", 48.78, 9.18, "Europe/Berlin"],
+  ["Düsseldorf", "DE", 51.23, 6.77, "Europe/Berlin", ["Duesseldorf"]],
+  ["Dresden", "DE", 51.05, 13.74, "Europe/Berlin"],
+  ["Amsterdam", "NL", 52.37, 4.9, "Europe/Amsterdam"],
+  ["Rotterdam", "NL", 51.92, 4.48, "Europe/Amsterdam"],
+  ["Utrecht", "NL", 52.09, 5.12, "Europe/Amsterdam"],
+  ["The Hague", "NL", 52.07, 4.3, "Europe/Amsterdam", ["Den Haag"]],
+  ["Eindhoven", "NL", 51.44, 5.47, "Europe/Amsterdam"],
+  ["Brussels", "BE", 50.85, 4.35, "Europe/Brussels", ["Bruxelles", "Brussel"]],
+  ["Antwerp", "BE", 51.22, 4.4, "Europe/Brussels", ["Antwerpen"]],
+  ["Ghent", "BE", 51.05, 3.72, "Europe/Brussels", ["Gent"]],
+  ["Luxembourg", "LU", 49.61, 6.13, "Europe/Luxembourg"],
+  ["Zurich", "CH", 47.38, 8.54, "Europe/Zurich", ["Zürich"]],
+  ["Geneva", "CH", 46.2, 6.14, "Europe/Zurich", ["Genève", "Geneve"]],
+  ["Basel", "CH", 47.56, 7.59, "Europe/Zurich"],
+  ["Bern", "CH", 46.95, 7.45, "Europe/Zurich"],
+  ["Vienna", "AT", 48.21, 16.37, "Europe/Vienna", ["Wien"]],
+  ["Salzburg", "AT", 47.81, 13.04, "Europe/Vienna"],
+  ["Graz", "AT", 47.07, 15.44, "Europe/Vienna"],
+  // Southern Europe
+  ["Madrid", "ES", 40.42, -3.7, "Europe/Madrid"],
+  ["Barcelona", "ES", 41.39, 2.17, "Europe/Madrid"],
+  ["Valencia", "ES", 39.47, -0.38, "Europe/Madrid"],
+  ["Seville", "ES", 37.39, -5.98, "Europe/Madrid", ["Sevilla"]],
+  ["Bilbao", "ES", 43.26, -2.93, "Europe/Madrid"],
+  ["Ibiza", "ES", 38.91, 1.43, "Europe/Madrid"],
+  ["Lisbon", "PT", 38.72, -9.14, "Europe/Lisbon", ["Lisboa"]],
+  ["Porto", "PT", 41.15, -8.61, "Europe/Lisbon"],
+  ["Rome", "IT", 41.9, 12.5, "Europe/Rome", ["Roma"]],
+  ["Milan", "IT", 45.46, 9.19, "Europe/Rome", ["Milano"]],
+  ["Turin", "IT", 45.07, 7.69, "Europe/Rome", ["Torino"]],
+  ["Bologna", "IT", 44.49, 11.34, "Europe/Rome"],
+  ["Florence", "IT", 43.77, 11.26, "Europe/Rome", ["Firenze"]],
+  ["Naples", "IT", 40.85, 14.27, "Europe/Rome", ["Napoli"]],
+  ["Valletta", "MT", 35.9, 14.51, "Europe/Malta"],
+  ["Athens", "GR", 37.98, 23.73, "Europe/Athens"],
+  ["Thessaloniki", "GR", 40.64, 22.94, "Europe/Athens"],
+  ["Istanbul", "TR", 41.01, 28.98, "Europe/Istanbul"],
+  // Nordics and Baltics
+  ["Copenhagen", "DK", 55.68, 12.57, "Europe/Copenhagen", ["København", "Kobenhavn"]],
+  ["Aarhus", "DK", 56.16, 10.2, "Europe/Copenhagen"],
+  ["Stockholm", "SE", 59.33, 18.07, "Europe/Stockholm"],
+  ["Gothenburg", "SE", 57.71, 11.97, "Europe/Stockholm", ["Göteborg", "Goteborg"]],
+  ["Malmö", "SE", 55.6, 13.0, "Europe/Stockholm"],
+  ["Oslo", "NO", 59.91, 10.75, "Europe/Oslo"],
+  ["Bergen", "NO", 60.39, 5.32, "Europe/Oslo"],
+  ["Helsinki", "FI", 60.17, 24.94, "Europe/Helsinki"],
+  ["Reykjavik", "IS", 64.15, -21.94, "Atlantic/Reykjavik", ["Reykjavík"]],
+  ["Tallinn", "EE", 59.44, 24.75, "Europe/Tallinn"],
+  ["Riga", "LV", 56.95, 24.11, "Europe/Riga"],
+  ["Vilnius", "LT", 54.69, 25.28, "Europe/Vilnius"],
+  // Eastern Europe
+  ["Warsaw", "PL", 52.23, 21.01, "Europe/Warsaw", ["Warszawa"]],
+  ["Kraków", "PL", 50.06, 19.94, "Europe/Warsaw", ["Cracow"]],
+  ["Wrocław", "PL", 51.11, 17.03, "Europe/Warsaw"],
+  ["Gdańsk", "PL", 54.35, 18.65, "Europe/Warsaw"],
+  ["Prague", "CZ", 50.08, 14.44, "Europe/Prague", ["Praha"]],
+  ["Brno", "CZ", 49.2, 16.61, "Europe/Prague"],
+  ["Budapest", "HU", 47.5, 19.04, "Europe/Budapest"],
+  ["Bratislava", "SK", 48.15, 17.11, "Europe/Bratislava"],
+  ["Ljubljana", "SI", 46.06, 14.51, "Europe/Ljubljana"],
+  ["Zagreb", "HR", 45.81, 15.98, "Europe/Zagreb"],
+  ["Split", "HR", 43.51, 16.44, "Europe/Zagreb"],
+  ["Belgrade", "RS", 44.79, 20.45, "Europe/Belgrade", ["Beograd"]],
+  ["Bucharest", "RO", 44.43, 26.1, "Europe/Bucharest", ["București"]],
+  ["Sofia", "BG", 42.7, 23.32, "Europe/Sofia"],
+  // North America
+  ["New York", "US", 40.71, -74.01, "America/New_York", ["New York City", "NYC", "Brooklyn"]],
+  ["Los Angeles", "US", 34.05, -118.24, "America/Los_Angeles", ["LA"]],
+  ["Chicago", "US", 41.88, -87.63, "America/Chicago"],
+  ["San Francisco", "US", 37.77, -122.42, "America/Los_Angeles", ["SF"]],
+  ["Seattle", "US", 47.61, -122.33, "America/Los_Angeles"],
+  ["Portland", "US", 45.52, -122.68, "America/Los_Angeles"],
+  ["Austin", "US", 30.27, -97.74, "America/Chicago"],
+  ["Nashville", "US", 36.16, -86.78, "America/Chicago"],
+  ["Atlanta", "US", 33.75, -84.39, "America/New_York"],
+  ["Miami", "US", 25.76, -80.19, "America/New_York"],
+  ["Boston", "US", 42.36, -71.06, "America/New_York"],
+  ["Washington", "US", 38.91, -77.04, "America/New_York", ["Washington DC", "Washington D.C.", "DC"]],
+  ["Philadelphia", "US", 39.95, -75.17, "America/New_York"],
+  ["Denver", "US", 39.74, -104.99, "America/Denver"],
+  ["Las Vegas", "US", 36.17, -115.14, "America/Los_Angeles"],
+  ["Phoenix", "US", 33.45, -112.07, "America/Phoenix"],
+  ["Dallas", "US", 32.78, -96.8, "America/Chicago"],
+  ["Houston", "US", 29.76, -95.37, "America/Chicago"],
+  ["New Orleans", "US", 29.95, -90.07, "America/Chicago"],
+  ["Detroit", "US", 42.33, -83.05, "America/Detroit"],
+  ["Minneapolis", "US", 44.98, -93.27, "America/Chicago"],
+  ["San Diego", "US", 32.72, -117.16, "America/Los_Angeles"],
+  ["Honolulu", "US", 21.31, -157.86, "Pacific/Honolulu"],
+  ["Toronto", "CA", 43.65, -79.38, "America/Toronto"],
+  ["Montreal", "CA", 45.5, -73.57, "America/Toronto", ["Montréal"]],
+  ["Vancouver", "CA", 49.28, -123.12, "America/Vancouver"],
+  ["Calgary", "CA", 51.05, -114.07, "America/Edmonton"],
+  ["Ottawa", "CA", 45.42, -75.7, "America/Toronto"],
+  ["Mexico City", "MX", 19.43, -99.13, "America/Mexico_City", ["CDMX", "Ciudad de México"]],
+  ["Guadalajara", "MX", 20.67, -103.35, "America/Mexico_City"],
+  ["Monterrey", "MX", 25.69, -100.32, "America/Monterrey"],
+  // South America
+  ["São Paulo", "BR", -23.55, -46.63, "America/Sao_Paulo"],
+  ["Rio de Janeiro", "BR", -22.91, -43.17, "America/Sao_Paulo", ["Rio"]],
+  ["Buenos Aires", "AR", -34.6, -58.38, "America/Argentina/Buenos_Aires"],
+  ["Santiago", "CL", -33.45, -70.67, "America/Santiago"],
+  ["Bogotá", "CO", 4.71, -74.07, "America/Bogota"],
+  ["Medellín", "CO", 6.24, -75.58, "America/Bogota"],
+  ["Lima", "PE", -12.05, -77.04, "America/Lima"],
+  // Asia and the Middle East
+  ["Tokyo", "JP", 35.68, 139.69, "Asia/Tokyo"],
+  ["Osaka", "JP", 34.69, 135.5, "Asia/Tokyo"],
+  ["Seoul", "KR", 37.57, 126.98, "Asia/Seoul"],
+  ["Shanghai", "CN", 31.23, 121.47, "Asia/Shanghai"],
+  ["Beijing", "CN", 39.9, 116.41, "Asia/Shanghai"],
+  ["Hong Kong", "HK", 22.32, 114.17, "Asia/Hong_Kong"],
+  ["Taipei", "TW", 25.03, 121.57, "Asia/Taipei"],
+  ["Singapore", "SG", 1.35, 103.82, "Asia/Singapore"],
+  ["Bangkok", "TH", 13.76, 100.5, "Asia/Bangkok"],
+  ["Kuala Lumpur", "MY", 3.14, 101.69, "Asia/Kuala_Lumpur", ["KL"]],
+  ["Jakarta", "ID", -6.21, 106.85, "Asia/Jakarta"],
+  ["Bali", "ID", -8.65, 115.22, "Asia/Makassar", ["Denpasar"]],
+  ["Manila", "PH", 14.6, 120.98, "Asia/Manila"],
+  ["Ho Chi Minh City", "VN", 10.82, 106.63, "Asia/Ho_Chi_Minh", ["Saigon"]],
+  ["Mumbai", "IN", 19.08, 72.88, "Asia/Kolkata", ["Bombay"]],
+  ["Delhi", "IN", 28.61, 77.21, "Asia/Kolkata", ["New Delhi"]],
+  ["Bengaluru", "IN", 12.97, 77.59, "Asia/Kolkata", ["Bangalore"]],
+  ["Dubai", "AE", 25.2, 55.27, "Asia/Dubai"],
+  ["Abu Dhabi", "AE", 24.45, 54.38, "Asia/Dubai"],
+  ["Tel Aviv", "IL", 32.09, 34.78, "Asia/Jerusalem"],
+  // Oceania
+  ["Sydney", "AU", -33.87, 151.21, "Australia/Sydney"],
+  ["Melbourne", "AU", -37.81, 144.96, "Australia/Melbourne"],
+  ["Brisbane", "AU", -27.47, 153.03, "Australia/Brisbane"],
+  ["Perth", "AU", -31.95, 115.86, "Australia/Perth"],
+  ["Adelaide", "AU", -34.93, 138.6, "Australia/Adelaide"],
+  ["Auckland", "NZ", -36.85, 174.76, "Pacific/Auckland"],
+  ["Wellington", "NZ", -41.29, 174.78, "Pacific/Auckland"],
+  // Africa
+  ["Johannesburg", "ZA", -26.2, 28.05, "Africa/Johannesburg"],
+  ["Cape Town", "ZA", -33.92, 18.42, "Africa/Johannesburg"],
+  ["Marrakech", "MA", 31.63, -8.01, "Africa/Casablanca", ["Marrakesh"]],
+  ["Cairo", "EG", 30.04, 31.24, "Africa/Cairo"],
+  ["Lagos", "NG", 6.52, 3.38, "Africa/Lagos"],
+  ["Nairobi", "KE", -1.29, 36.82, "Africa/Nairobi"],
+];
+
+/** Territory spellings seen in labels that are not ISO 3166 alpha-2 codes. */
+const TERRITORY_ALIASES: Record<string, string> = {
+  UK: "GB",
+  ENGLAND: "GB",
+  SCOTLAND: "GB",
+  WALES: "GB",
+  "UNITED KINGDOM": "GB",
+  IRELAND: "IE",
+  USA: "US",
+  "UNITED STATES": "US",
+  GERMANY: "DE",
+  FRANCE: "FR",
+  SPAIN: "ES",
+  NETHERLANDS: "NL",
+  AUSTRALIA: "AU",
+  JAPAN: "JP",
+  CANADA: "CA",
+};
+
+export interface GazetteerCity {
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  timezone: string;
+}
+
+export interface ResolvedLocation {
+  city: GazetteerCity | null;
+  /** `city` when the city label matched, `territory` when only the territory did. */
+  matchedBy: "city" | "territory" | null;
+  /** The city label as given when it is not in the gazetteer. */
+  unmatchedCity: string | null;
+}
+
+function normaliseName(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const CITIES: GazetteerCity[] = GAZETTEER_ROWS.map(([name, country, latitude, longitude, timezone]) => ({
+  name,
+  country,
+  latitude,
+  longitude,
+  timezone,
+}));
+
+const CITY_INDEX = new Map<string, GazetteerCity[]>();
+const COUNTRY_DEFAULTS = new Map<string, GazetteerCity>();
+
+GAZETTEER_ROWS.forEach(([name, , , , , aliases], index) => {
+  const city = CITIES[index];
+  for (const key of [name, ...(aliases ?? [])].map(normaliseName)) {
+    const list = CITY_INDEX.get(key) ?? [];
+    list.push(city);
+    CITY_INDEX.set(key, list);
+  }
+  if (!COUNTRY_DEFAULTS.has(city.country)) {
+    COUNTRY_DEFAULTS.set(city.country, city);
+  }
+});
+
+export function normaliseTerritoryCode(territory: string | null | undefined): string | null {
+  const trimmed = territory?.trim().toUpperCase();
+  if (!trimmed) return null;
+  return TERRITORY_ALIASES[trimmed] ?? trimmed;
+}
+
+export function findGazetteerCity(name: string | null | undefined, territory?: string | null): GazetteerCity | null {
+  if (!name?.trim()) return null;
+  const matches = CITY_INDEX.get(normaliseName(name));
+  if (!matches || matches.length === 0) return null;
+  const country = normaliseTerritoryCode(territory);
+  return (country && matches.find((city) => city.country === country)) || matches[0];
+}
+
+/**
+ * Resolves a city/territory label pair. A city in the gazetteer wins; an
+ * unknown city falls back to the territory's reference city and is reported
+ * in `unmatchedCity` so it can be added or corrected.
+ */
+export function resolveLocation(city: string | null | undefined, territory: string | null | undefined): ResolvedLocation {
+  const matched = findGazetteerCity(city, territory);
+  if (matched) {
+    return { city: matched, matchedBy: "city", unmatchedCity: null };
+  }
+
+  const unmatchedCity = city?.trim() ? city.trim() : null;
+  const country = normaliseTerritoryCode(territory);
+  const fallback = country ? COUNTRY_DEFAULTS.get(country) ?? null : null;
+  return { city: fallback, matchedBy: fallback ? "territory" : null, unmatchedCity };
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export function greatCircleDistanceKm(
+  from: Pick<GazetteerCity, "latitude" | "longitude">,
+  to: Pick<GazetteerCity, "latitude" | "longitude">
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * UTC offset of `timezone` at `at`, in minutes. Returns null for zones the
+ * runtime does not know.
+ */
+export function getUtcOffsetMinutes(timezone: string, at: Date | number = Date.now()): number | null {
+  const date = typeof at === "number" ? new Date(at) : at;
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+  } catch (err) {
+    return null;
+  }
+
+  const lookup = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(lookup("year"), lookup("month") - 1, lookup("day"), lookup("hour"), lookup("minute"));
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((asUtc - truncated) / 60000);
+}
@@ -0,0 +1,67 @@
+import type { GmailAccountSummary } from "./types";
+
+export type GmailSyncHealth = "healthy" | "stale" | "failing" | "reconnect" | "pending";
+
+export interface GmailSyncHealthSummary {
+  health: GmailSyncHealth;
+  message: string;
+}
+
+export interface DescribeGmailSyncHealthOptions {
+  now?: Date;
+  /** A successful sync older than this is reported as stale. */
+  staleAfterMinutes?: number;
+}
+
+const DEFAULT_STALE_AFTER_MINUTES = 60;
+
+/** Google returns `invalid_grant` once a refresh token is revoked or expired. */
+const RECONNECT_PATTERN = /invalid_grant|invalid credentials|token has been (expired|revoked)/i;
+
+function formatAge(ms: number): string {
+  const minutes = Math.max(Math.round(ms / 60_000), 0);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.round(hours / 24)} days ago`;
+}
+
+/** Short label for an account in filters and badges, e.g. "Bookings (bookings@label.com)". */
+export function formatGmailAccountLabel(account: Pick<GmailAccountSummary, "email" | "displayName">): string {
+  const name = account.displayName?.trim();
+  return name ? `${name} (${account.email})` : account.email;
+}
+
+export function describeGmailSyncHealth(
+  account: Pick<GmailAccountSummary, "syncStatus" | "lastSyncedAt" | "lastError" | "lastMessageCount">,
+  options: DescribeGmailSyncHealthOptions = {}
+): GmailSyncHealthSummary {
+  const now = options.now ?? new Date();
+  const staleAfterMs = (options.staleAfterMinutes ?? DEFAULT_STALE_AFTER_MINUTES) * 60_000;
+
+  if (account.syncStatus === "error") {
+    const error = account.lastError?.trim() || "Unknown error";
+    if (RECONNECT_PATTERN.test(error)) {
+      return { health: "reconnect", message: "Google revoked access. Reconnect this account to resume syncing." };
+    }
+    return { health: "failing", message: `Last sync failed: ${error}` };
+  }
+
+  const lastSyncedMs = account.lastSyncedAt ? Date.parse(account.lastSyncedAt) : NaN;
+  if (!Number.isFinite(lastSyncedMs)) {
+    return { health: "pending", message: "Waiting for the first sync." };
+  }
+
+  const age = now.getTime() - lastSyncedMs;
+  const checked =
+    account.lastMessageCount != null
+      ? `Checked ${account.lastMessageCount} message${account.lastMessageCount === 1 ? "" : "s"} ${formatAge(age)}.`
+      : `Synced ${formatAge(age)}.`;
+
+  if (age > staleAfterMs) {
+    return { health: "stale", message: `No sync since ${formatAge(age)}. The worker may not be running.` };
+  }
+
+  return { health: "healthy", message: checked };
+}
@@ -1,13 +1,35 @@
 export * from "./types";
 export * from "./analyzeEmail";
+export * from "./classificationPrompt";
+export * from "./llmProvider";
 export * from "./labelUtils";
 export * from "./heuristicLabels";
+export * from "./labelCorrections";
 export * from "./projectPriority";
 export * from "./emailPriority";
 export * from "./timelineConflicts";
+export * from "./artistConflicts";
+export * from "./timelineScheduling";
+export * from "./gazetteer";
+export * from "./travelTime";
+export * from "./timelineImport";
+export * from "./projectTemplates";
+export * from "./activityFeed";
+export * from "./recordRevisions";
 export * from "./projectSuggestions";
 export * from "./priorityConfig";
 export * from "./automationRules";
+export * from "./automationEngine";
+export * from "./automationStore";
+export * from "./digestDelivery";
+export * from "./slackDigest";
+export * from "./emailSearch";
+export * from "./emailThreads";
+export * from "./gmailAccounts";
+export * from "./replyDrafts";
+export * from "./bookingOffers";
+export * from "./snooze";
+export * from "./contacts";
 export * from "./laneAutoAssignment";
 export * from "./projectAssignmentRules";
 export { DEFAULT_EMAIL_SOURCE } from "./types";
@@ -0,0 +1,162 @@
+import type { EmailLabel, EmailLabelCorrectionRecord, LabelAccuracyStat } from "./types";
+import { normaliseLabels } from "./labelUtils";
+
+export const MAX_CORRECTION_EXAMPLES = 5;
+const MAX_EXAMPLES_PER_CATEGORY = 2;
+const EXAMPLE_SUMMARY_LIMIT = 200;
+
+export interface LabelCorrectionExample {
+  subject: string;
+  summary: string | null;
+  fromEmail: string | null;
+  originalLabels: EmailLabel[];
+  correctedLabels: EmailLabel[];
+}
+
+/** True when two label lists differ in membership or in their primary (first) label. */
+export function labelsDiffer(a: EmailLabel[], b: EmailLabel[]): boolean {
+  if (a[0] !== b[0] || a.length !== b.length) {
+    return true;
+  }
+  const set = new Set(a);
+  return b.some((label) => !set.has(label));
+}
+
+export interface CollapsedLabelCorrection {
+  emailId: string;
+  /** Labels the classifier produced, from the first correction of the email. */
+  originalLabels: EmailLabel[];
+  /** Labels after the most recent correction. */
+  correctedLabels: EmailLabel[];
+  latest: EmailLabelCorrectionRecord;
+}
+
+/**
+ * Folds repeated corrections of the same email into one change from the
+ * classifier's labels to the user's final labels. Emails the user ended up
+ * restoring to the original labels are dropped.
+ */
+export function collapseLabelCorrections(corrections: EmailLabelCorrectionRecord[]): CollapsedLabelCorrection[] {
+  const ordered = [...corrections].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const byEmail = new Map<string, CollapsedLabelCorrection>();
+
+  for (const correction of ordered) {
+    const key = correction.emailId ?? `correction:${correction.id}`;
+    const existing = byEmail.get(key);
+    if (existing) {
+      existing.correctedLabels = normaliseLabels(correction.correctedLabels);
+      existing.latest = correction;
+    } else {
+      byEmail.set(key, {
+        emailId: key,
+        originalLabels: normaliseLabels(correction.originalLabels),
+        correctedLabels: normaliseLabels(correction.correctedLabels),
+        latest: correction,
+      });
+    }
+  }
+
+  return Array.from(byEmail.values())
+    .filter((entry) => labelsDiffer(entry.originalLabels, entry.correctedLabels))
+    .sort((a, b) => b.latest.createdAt.localeCompare(a.latest.createdAt));
+}
+
+/**
+ * Picks the corrections most useful as few-shot examples: ones that changed
+ * the primary label first, then the most recent, with at most two examples
+ * per corrected category so one habit does not crowd out the rest.
+ */
+export function selectCorrectionExamples(
+  corrections: EmailLabelCorrectionRecord[],
+  limit = MAX_CORRECTION_EXAMPLES
+): LabelCorrectionExample[] {
+  const candidates = collapseLabelCorrections(corrections).filter((entry) => entry.latest.subject?.trim());
+  const ranked = [
+    ...candidates.filter((entry) => entry.originalLabels[0] !== entry.correctedLabels[0]),
+    ...candidates.filter((entry) => entry.originalLabels[0] === entry.correctedLabels[0]),
+  ];
+
+  const perCategory = new Map<string, number>();
+  const examples: LabelCorrectionExample[] = [];
+
+  for (const entry of ranked) {
+    if (examples.length >= limit) break;
+    const category = entry.correctedLabels[0] ?? "";
+    const count = perCategory.get(category) ?? 0;
+    if (count >= MAX_EXAMPLES_PER_CATEGORY) continue;
+    perCategory.set(category, count + 1);
+
+    const summary = entry.latest.summary?.trim() || null;
+    examples.push({
+      subject: entry.latest.subject!.trim(),
+      summary: summary && summary.length > EXAMPLE_SUMMARY_LIMIT ? `${summary.slice(0, EXAMPLE_SUMMARY_LIMIT)}…` : summary,
+      fromEmail: entry.latest.fromEmail ?? null,
+      originalLabels: entry.originalLabels,
+      correctedLabels: entry.correctedLabels,
+    });
+  }
+
+  return examples;
+}
+
+/** Renders examples as prompt text; empty when there are none. */
+export function formatCorrectionExamples(examples: LabelCorrectionExample[]): string {
+  if (examples.length === 0) {
+    return "";
+  }
+
+  const lines = examples.map((example, index) => {
+    const parts = [`${index + 1}. Subject: ${JSON.stringify(example.subject)}`];
+    if (example.fromEmail) parts.push(`From: ${example.fromEmail}`);
+    if (example.summary) parts.push(`Summary: ${JSON.stringify(example.summary)}`);
+    parts.push(`Labelled: ${example.originalLabels.join(", ") || "none"}`);
+    parts.push(`Corrected to: ${example.correctedLabels.join(", ")}`);
+    return parts.join(" | ");
+  });
+
+  return [
+    "This user corrected earlier labels as follows; apply the same judgement to similar emails:",
+    ...lines,
+  ].join("\n");
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+/**
+ * Per-label precision and recall of the classifier measured against user
+ * corrections. Only corrected emails are counted, so the figures describe
+ * where the classifier goes wrong rather than its overall accuracy.
+ */
+export function computeLabelAccuracy(corrections: EmailLabelCorrectionRecord[]): LabelAccuracyStat[] {
+  const stats = new Map<EmailLabel, LabelAccuracyStat>();
+  const statFor = (label: EmailLabel) => {
+    let stat = stats.get(label);
+    if (!stat) {
+      stat = { label, truePositives: 0, falsePositives: 0, falseNegatives: 0, precision: null, recall: null };
+      stats.set(label, stat);
+    }
+    return stat;
+  };
+
+  for (const entry of collapseLabelCorrections(corrections)) {
+    const original = new Set(entry.originalLabels);
+    const corrected = new Set(entry.correctedLabels);
+    for (const label of original) {
+      if (corrected.has(label)) statFor(label).truePositives += 1;
+      else statFor(label).falsePositives += 1;
+    }
+    for (const label of corrected) {
+      if (!original.has(label)) statFor(label).falseNegatives += 1;
+    }
+  }
+
+  return Array.from(stats.values())
+    .map((stat) => ({
+      ...stat,
+      precision: ratio(stat.truePositives, stat.truePositives + stat.falsePositives),
+      recall: ratio(stat.truePositives, stat.truePositives + stat.falseNegatives),
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
@@ -0,0 +1,507 @@
+import { heuristicLabels } from "./heuristicLabels";
+
+export type LlmProviderName = "openai" | "openai-compatible" | "local";
+
+export const LLM_PROVIDER_NAMES: readonly LlmProviderName[] = ["openai", "openai-compatible", "local"];
+
+export interface LlmUsage {
+  provider: LlmProviderName;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Null when no price is known for the model, e.g. self-hosted models. */
+  costUsd: number | null;
+  attempts: number;
+  durationMs: number;
+}
+
+export interface LlmResponse {
+  /** Parsed JSON object returned by the model. */
+  data: Record<string, unknown>;
+  usage: LlmUsage;
+}
+
+export interface LlmEmailInput {
+  subject: string;
+  body: string;
+  fromName: string | null;
+  fromEmail: string;
+}
+
+interface LlmPromptRequest {
+  system: string;
+  user: string;
+  /** Requested model; providers with a pinned model ignore it. */
+  model?: string | null;
+  temperature?: number;
+}
+
+export interface LlmClassifyRequest extends LlmPromptRequest {
+  email: LlmEmailInput;
+  maxLabels: number;
+}
+
+export interface LlmSummariseRequest extends LlmPromptRequest {
+  email: LlmEmailInput;
+  maxWords: number;
+}
+
+export interface LlmExtractRequest extends LlmPromptRequest {
+  text: string;
+  /** Keys the returned object should contain. */
+  fields: string[];
+}
+
+/**
+ * Model backend for the three AI tasks the pipeline runs. Remote providers
+ * send the prompts and parse a JSON reply; the local provider ignores the
+ * prompts and answers deterministically from the raw input.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  readonly model: string;
+  /** Returns `summary`, `labels` and `sentiment`. */
+  classify(request: LlmClassifyRequest): Promise<LlmResponse>;
+  /** Returns `summary`. */
+  summarise(request: LlmSummariseRequest): Promise<LlmResponse>;
+  /** Returns one key per requested field; unknown values are null. */
+  extract(request: LlmExtractRequest): Promise<LlmResponse>;
+}
+
+export interface LlmPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface LlmProviderConfig {
+  provider: LlmProviderName;
+  baseUrl: string;
+  apiKey: string | null;
+  model: string;
+  /** Always use `model`, ignoring per-request models such as the admin prompt setting. */
+  pinModel: boolean;
+  timeoutMs: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+  maxRetryDelayMs: number;
+  /** Overrides the built-in OpenAI price table. */
+  pricing: LlmPricing | null;
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+type Env = Record<string, string | undefined>;
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+const LOCAL_MODEL = "heuristic";
+
+/** USD per million tokens, https://openai.com/api/pricing */
+const OPENAI_PRICING: Record<string, LlmPricing> = {
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4-turbo": { inputPerMillion: 10, outputPerMillion: 30 },
+  "gpt-3.5-turbo": { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+};
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value != null && value.trim() !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function readText(value: string | undefined): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * `LLM_MAX_RETRIES` counts retries after the first try. `OPENAI_MAX_RETRIES`
+ * predates the provider layer and has always been the total attempt count.
+ */
+function readMaxAttempts(retries: string | undefined, defaultRetries: number, legacyAttempts?: string): number {
+  if (readText(legacyAttempts) !== null) {
+    return Math.max(1, readNumber(legacyAttempts, defaultRetries + 1));
+  }
+  return Math.floor(readNumber(retries, defaultRetries)) + 1;
+}
+
+function readPricing(env: Env): LlmPricing | null {
+  const input = readText(env.LLM_INPUT_COST_PER_MILLION);
+  const output = readText(env.LLM_OUTPUT_COST_PER_MILLION);
+  if (input === null && output === null) {
+    return null;
+  }
+  return { inputPerMillion: readNumber(input ?? undefined, 0), outputPerMillion: readNumber(output ?? undefined, 0) };
+}
+
+/**
+ * Reads the provider configuration from the environment. `LLM_PROVIDER`
+ * selects the backend (default `openai`); the `OPENAI_*` variables keep
+ * working for the OpenAI provider.
+ */
+export function resolveLlmProviderConfig(env: Env = process.env): LlmProviderConfig {
+  const provider = (readText(env.LLM_PROVIDER)?.toLowerCase() ?? "openai") as LlmProviderName;
+  if (!LLM_PROVIDER_NAMES.includes(provider)) {
+    throw new Error(`Unsupported LLM_PROVIDER "${env.LLM_PROVIDER}"; expected ${LLM_PROVIDER_NAMES.join(", ")}`);
+  }
+
+  const configuredModel = readText(env.LLM_MODEL);
+  const pricing = readPricing(env);
+
+  if (provider === "openai-compatible") {
+    const baseUrl = readText(env.LLM_BASE_URL);
+    if (!baseUrl) {
+      throw new Error("LLM_BASE_URL is required when LLM_PROVIDER is openai-compatible");
+    }
+    if (!configuredModel) {
+      throw new Error("LLM_MODEL is required when LLM_PROVIDER is openai-compatible");
+    }
+    return {
+      provider,
+      baseUrl: baseUrl.replace(/\/+$/, ""),
+      apiKey: readText(env.LLM_API_KEY),
+      model: configuredModel,
+      // Self-hosted servers do not know OpenAI model names chosen in the admin settings
+      pinModel: true,
+      timeoutMs: readNumber(env.LLM_TIMEOUT_MS, 120000),
+      maxAttempts: readMaxAttempts(env.LLM_MAX_RETRIES, 1),
+      retryDelayMs: readNumber(env.LLM_RETRY_DELAY_MS, 1000),
+      maxRetryDelayMs: readNumber(env.LLM_MAX_RETRY_DELAY_MS, 8000),
+      pricing,
+    };
+  }
+
+  if (provider === "local") {
+    return {
+      provider,
+      baseUrl: "",
+      apiKey: null,
+      model: LOCAL_MODEL,
+      pinModel: true,
+      timeoutMs: 0,
+      maxAttempts: 1,
+      retryDelayMs: 0,
+      maxRetryDelayMs: 0,
+      pricing: null,
+    };
+  }
+
+  return {
+    provider,
+    baseUrl: readText(env.OPENAI_BASE_URL)?.replace(/\/+$/, "") ?? OPENAI_BASE_URL,
+    apiKey: readText(env.OPENAI_API_KEY),
+    model: configuredModel ?? readText(env.OPENAI_MODEL) ?? DEFAULT_OPENAI_MODEL,
+    pinModel: false,
+    timeoutMs: readNumber(env.OPENAI_TIMEOUT_MS ?? env.LLM_TIMEOUT_MS, 30000),
+    maxAttempts: readMaxAttempts(env.LLM_MAX_RETRIES, 3, env.OPENAI_MAX_RETRIES),
+    retryDelayMs: readNumber(env.OPENAI_RETRY_DELAY_MS ?? env.LLM_RETRY_DELAY_MS, 1500),
+    maxRetryDelayMs: readNumber(env.OPENAI_MAX_RETRY_DELAY_MS ?? env.LLM_MAX_RETRY_DELAY_MS, 12000),
+    pricing,
+  };
+}
+
+export function estimateLlmCost(
+  config: Pick<LlmProviderConfig, "provider" | "pricing">,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | null {
+  if (config.provider === "local") {
+    return 0;
+  }
+  const pricing = config.pricing ?? (config.provider === "openai" ? OPENAI_PRICING[model] : undefined);
+  if (!pricing) {
+    return null;
+  }
+  const cost = (promptTokens * pricing.inputPerMillion + completionTokens * pricing.outputPerMillion) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const retryDate = new Date(value).getTime();
+  return Number.isNaN(retryDate) ? null : Math.max(retryDate - Date.now(), 0);
+}
+
+type LlmRequestError = Error & { retryable: boolean; retryAfterMs: number | null };
+
+function requestError(message: string, retryable: boolean, retryAfterMs: number | null = null): LlmRequestError {
+  return Object.assign(new Error(message), { retryable, retryAfterMs });
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function createRemoteProvider(config: LlmProviderConfig): LlmProvider {
+  const label = config.provider === "openai" ? "OpenAI" : "LLM";
+
+  async function requestOnce(body: string): Promise<Record<string, any>> {
+    const controller = new AbortController();
+    const timer = config.timeoutMs > 0 ? setTimeout(() => controller.abort(), config.timeoutMs) : null;
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body,
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw requestError(`${label} request timed out after ${config.timeoutMs}ms`, true);
+      }
+      throw requestError(err instanceof Error ? err.message : String(err), true);
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      const retryAfterMs =
+        response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers?.get("retry-after") ?? null)
+          : null;
+      throw requestError(
+        `${label} request failed: ${response.status} ${errorText}`,
+        isRetryableStatus(response.status),
+        retryAfterMs
+      );
+    }
+
+    return (await response.json()) as Record<string, any>;
+  }
+
+  async function completeJson(request: LlmPromptRequest): Promise<LlmResponse> {
+    if (config.provider === "openai" && !config.apiKey) {
+      throw new Error("OPENAI_API_KEY is not set");
+    }
+
+    const model = config.pinModel ? config.model : request.model || config.model;
+    const body = JSON.stringify({
+      model,
+      temperature: request.temperature ?? 0.4,
+      response_format: { type: "json_object" },
+      messages: [
+        { role: "system", content: request.system },
+        { role: "user", content: [{ type: "text", text: request.user }] },
+      ],
+    });
+
+    const startedAt = Date.now();
+    let delayMs = config.retryDelayMs;
+    let lastError: Error | null = null;
+
+    for (let attempt = 1; attempt <= config.maxAttempts; attempt += 1) {
+      try {
+        const payload = await requestOnce(body);
+        const content: string | undefined = payload?.choices?.[0]?.message?.content;
+        if (!content) {
+          throw requestError(`${label} response missing content`, true);
+        }
+
+        let data: unknown;
+        try {
+          data = JSON.parse(content);
+        } catch (err) {
+          throw requestError(`Failed to parse ${label} JSON content: ${content}`, true);
+        }
+
+        const promptTokens = Number(payload?.usage?.prompt_tokens) || 0;
+        const completionTokens = Number(payload?.usage?.completion_tokens) || 0;
+        const usage: LlmUsage = {
+          provider: config.provider,
+          model,
+          promptTokens,
+          completionTokens,
+          totalTokens: Number(payload?.usage?.total_tokens) || promptTokens + completionTokens,
+          costUsd: estimateLlmCost(config, model, promptTokens, completionTokens),
+          attempts: attempt,
+          durationMs: Date.now() - startedAt,
+        };
+        config.onUsage?.(usage);
+
+        return {
+          data: data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, unknown>) : {},
+          usage,
+        };
+      } catch (err) {
+        lastError = err instanceof Error ? err : new Error(String(err));
+        const { retryable = true, retryAfterMs = null } = lastError as Partial<LlmRequestError>;
+        if (!retryable || attempt >= config.maxAttempts) {
+          break;
+        }
+        await sleep(retryAfterMs ?? delayMs);
+        delayMs = Math.min(delayMs * 2, config.maxRetryDelayMs);
+      }
+    }
+
+    throw lastError ?? new Error(`${label} request failed`);
+  }
+
+  return {
+    name: config.provider,
+    model: config.model,
+    classify: completeJson,
+    summarise: completeJson,
+    extract: completeJson,
+  };
+}
+
+const POSITIVE_WORDS = /\b(thanks|thank you|great|love|excited|happy|pleased|confirmed|congrat\w*|amazing|delighted)\b/gi;
+const NEGATIVE_WORDS = /\b(urgent|problem|issue|unfortunately|cancel\w*|complain\w*|late|overdue|disappointed|sorry|refund)\b/gi;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/** Keyword sentiment for the offline provider; confidence stays low since it is a rough signal. */
+export function estimateLocalSentiment(text: string): { label: "positive" | "neutral" | "negative"; confidence: number } {
+  const positive = countMatches(text, POSITIVE_WORDS);
+  const negative = countMatches(text, NEGATIVE_WORDS);
+  if (positive === negative) {
+    return { label: "neutral", confidence: positive === 0 ? 0.3 : 0.4 };
+  }
+  const label = positive > negative ? "positive" : "negative";
+  const confidence = Math.min(0.3 + Math.abs(positive - negative) * 0.1, 0.6);
+  return { label, confidence: Math.round(confidence * 100) / 100 };
+}
+
+/** First sentences of the body up to the word limit, falling back to the subject. */
+export function summariseLocally(email: Pick<LlmEmailInput, "subject" | "body">, maxWords: number): string {
+  const text = email.body
+    .split(/\r?\n/)
+    .filter((line) => !line.trim().startsWith(">"))
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+  const source = text || email.subject.trim();
+  const sentences = source.match(/[^.!?]+[.!?]*/g) ?? [source];
+
+  const words: string[] = [];
+  for (const sentence of sentences) {
+    const sentenceWords = sentence.trim().split(" ").filter(Boolean);
+    if (words.length > 0 && words.length + sentenceWords.length > maxWords) {
+      break;
+    }
+    words.push(...sentenceWords);
+    if (words.length >= maxWords) {
+      break;
+    }
+  }
+
+  return words.slice(0, maxWords).join(" ");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Reads `Field: value` lines, matching field names case-insensitively and ignoring `_`/spaces. */
+export function extractFieldsLocally(text: string, fields: string[]): Record<string, string | null> {
+  const result: Record<string, string | null> = {};
+  for (const field of fields) {
+    const words = field
+      .replace(/([a-z])([A-Z])/g, "$1 $2")
+      .split(/[_\s]+/)
+      .filter(Boolean)
+      .map(escapeRegExp);
+    const pattern = new RegExp(`^\\s*${words.join("[\\s_-]*")}\\s*[:=]\\s*(.+)$`, "im");
+    const match = text.match(pattern);
+    result[field] = match ? match[1].trim() : null;
+  }
+  return result;
+}
+
+function createLocalProvider(config: LlmProviderConfig): LlmProvider {
+  const respond = (data: Record<string, unknown>): LlmResponse => {
+    const usage: LlmUsage = {
+      provider: "local",
+      model: LOCAL_MODEL,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      costUsd: 0,
+      attempts: 1,
+      durationMs: 0,
+    };
+    config.onUsage?.(usage);
+    return { data, usage };
+  };
+
+  return {
+    name: "local",
+    model: LOCAL_MODEL,
+    async classify(request) {
+      const { subject, body } = request.email;
+      return respond({
+        summary: summariseLocally(request.email, 120),
+        labels: heuristicLabels(subject, body).slice(0, request.maxLabels),
+        sentiment: estimateLocalSentiment(`${subject}\n${body}`),
+      });
+    },
+    async summarise(request) {
+      return respond({ summary: summariseLocally(request.email, request.maxWords) });
+    },
+    async extract(request) {
+      return respond(extractFieldsLocally(request.text, request.fields));
+    },
+  };
+}
+
+export function createLlmProvider(config: LlmProviderConfig = resolveLlmProviderConfig()): LlmProvider {
+  return config.provider === "local" ? createLocalProvider(config) : createRemoteProvider(config);
+}
+
+export interface LlmUsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Sum of known costs; requests without a price are counted in `unpricedRequests`. */
+  costUsd: number;
+  unpricedRequests: number;
+}
+
+/** Accumulates usage across a run; pass `record` as a provider's `onUsage`. */
+export function createLlmUsageTracker() {
+  const totals: LlmUsageTotals = {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    unpricedRequests: 0,
+  };
+
+  return {
+    record(usage: LlmUsage) {
+      totals.requests += 1;
+      totals.promptTokens += usage.promptTokens;
+      totals.completionTokens += usage.completionTokens;
+      totals.totalTokens += usage.totalTokens;
+      if (usage.costUsd === null) {
+        totals.unpricedRequests += 1;
+      } else {
+        totals.costUsd = Math.round((totals.costUsd + usage.costUsd) * 1_000_000) / 1_000_000;
+      }
+    },
+    totals(): LlmUsageTotals {
+      return { ...totals };
+    },
+  };
+}
@@ -3,6 +3,7 @@ import type {
   PriorityEmailActionRule,
   PriorityEmailAdvancedBoost,
   PriorityExplainabilityConfig,
+  PriorityPresetScheduleEntry,
   PrioritySchedulingConfig,
 } from "./types";
 
@@ -400,7 +401,8 @@ const PRIORITY_CONFIG_DATA: PriorityConfig = {
   scheduling: {
     timezone: "UTC",
     entries: [],
-    lastEvaluatedAt: null,
+    activeEntryId: null,
+    activePresetSlug: null,
   },
 };
 
@@ -599,6 +601,117 @@ export function applyPriorityConfigPreset(
   return normalizePriorityConfigInput(presetData.overrides, base);
 }
 
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+function parseClockMinutes(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+function getZonedClock(now: Date, timezone: string): { day: number; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone || "UTC",
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(now);
+  } catch (err) {
+    return getZonedClock(now, "UTC");
+  }
+
+  const lookup = (type: string) => parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    day: WEEKDAY_INDEX[lookup("weekday")] ?? now.getUTCDay(),
+    minutes: Number(lookup("hour")) * 60 + Number(lookup("minute")),
+  };
+}
+
+function isScheduleEntryActive(entry: PriorityPresetScheduleEntry, clock: { day: number; minutes: number }): boolean {
+  const start = parseClockMinutes(entry.startTime);
+  if (start == null) {
+    return false;
+  }
+  const end = parseClockMinutes(entry.endTime ?? null) ?? 24 * 60;
+
+  if (end > start) {
+    return entry.daysOfWeek.includes(clock.day) && clock.minutes >= start && clock.minutes < end;
+  }
+
+  // Overnight window: starts on a scheduled day and runs into the next morning.
+  const previousDay = (clock.day + 6) % 7;
+  return (
+    (entry.daysOfWeek.includes(clock.day) && clock.minutes >= start) ||
+    (entry.daysOfWeek.includes(previousDay) && clock.minutes < end)
+  );
+}
+
+/**
+ * Returns the auto-apply schedule entry covering `now` in the schedule's
+ * timezone. When several windows overlap, the entry listed last wins.
+ */
+export function resolveActivePriorityScheduleEntry(
+  scheduling: PrioritySchedulingConfig,
+  now: Date = new Date()
+): PriorityPresetScheduleEntry | null {
+  const clock = getZonedClock(now, scheduling.timezone);
+  let active: PriorityPresetScheduleEntry | null = null;
+  for (const entry of scheduling.entries) {
+    if (!entry.autoApply || !getPriorityConfigPreset(entry.presetSlug)) {
+      continue;
+    }
+    if (isScheduleEntryActive(entry, clock)) {
+      active = entry;
+    }
+  }
+  return active;
+}
+
+export interface PriorityScheduleResolution {
+  config: PriorityConfig;
+  activeEntry: PriorityPresetScheduleEntry | null;
+}
+
+/**
+ * Resolves the config to score with at `now`: the saved config with the active
+ * schedule entry's preset layered on top. The saved config is the base and is
+ * never rewritten, so custom weights come back as soon as the window ends.
+ * `scheduling` reports which entry is active for display only.
+ */
+export function resolveScheduledPriorityConfig(
+  config: PriorityConfig,
+  now: Date = new Date()
+): PriorityScheduleResolution {
+  const scheduling = config.scheduling;
+  const activeEntry = resolveActivePriorityScheduleEntry(scheduling, now);
+  const preset = activeEntry ? getPriorityConfigPreset(activeEntry.presetSlug) : null;
+
+  const effective = preset ? applyPriorityConfigPreset(preset, config) : clonePriorityConfig(config);
+  return {
+    config: {
+      ...effective,
+      scheduling: {
+        ...clone(scheduling),
+        activeEntryId: activeEntry?.id ?? null,
+        activePresetSlug: preset?.slug ?? null,
+      },
+    },
+    activeEntry,
+  };
+}
+
+/** Parses a stored `priority_config` value and applies its schedule for scoring. */
+export function resolveStoredPriorityConfig(stored: PriorityConfigInput, now: Date = new Date()): PriorityConfig {
+  return resolveScheduledPriorityConfig(normalizePriorityConfigInput(stored, DEFAULT_PRIORITY_CONFIG), now).config;
+}
+
 function sanitizeCategoryWeights(
   overrides: Record<string, unknown> | null | undefined,
   base: Record<string, number>
@@ -863,7 +976,8 @@ function sanitizeSchedulingConfig(
   return {
     timezone: sanitizeString(input.timezone, base.timezone || "UTC"),
     entries,
-    lastEvaluatedAt: sanitizeString(input.lastEvaluatedAt, base.lastEvaluatedAt ?? "") || null,
+    activeEntryId: sanitizeString(input.activeEntryId, base.activeEntryId ?? "") || null,
+    activePresetSlug: sanitizeString(input.activePresetSlug, base.activePresetSlug ?? "") || null,
   } satisfies PrioritySchedulingConfig;
 }
 
@@ -0,0 +1,416 @@
+import { getUtcOffsetMinutes } from "./gazetteer";
+import type { ProjectAssignmentRule, ProjectAssignmentRuleAction, ProjectAssignmentRuleConditionGroup } from "./projectAssignmentRules";
+import {
+  normaliseTimelineItemStatus,
+  normaliseTimelineItemType,
+  type ProjectRecord,
+  type ProjectTaskRecord,
+  type ProjectTemplateItemRecord,
+  type TimelineDependencyKind,
+  type TimelineDependencyRecord,
+  type TimelineItemRecord,
+  type TimelineItemStatus,
+  type TimelineItemType,
+  type TimelineLaneDefinition,
+} from "./types";
+
+/**
+ * Extra fields kept in `project_template_items.metadata` for items captured
+ * from a project. Built-in templates only set `offsetDays`/`durationDays`, so
+ * every field here is optional.
+ */
+export interface ProjectTemplateItemMetadata {
+  /** Stable reference used by template dependencies. */
+  key?: string;
+  kind?: string | null;
+  description?: string | null;
+  status?: TimelineItemStatus;
+  labels?: TimelineItemRecord["labels"];
+  timezone?: string | null;
+  /** Local start time as `HH:MM`; without it items start at midnight UTC. */
+  startTime?: string | null;
+  durationMinutes?: number | null;
+  /** The item was a deadline (`dueAt`) rather than a scheduled slot. */
+  deadline?: boolean;
+  /** The item had no date in the source project. */
+  unscheduled?: boolean;
+}
+
+export interface ProjectTemplateTaskDefinition {
+  title: string;
+  description: string | null;
+  priority: number;
+  /** Days from the project start to the due date. */
+  dueOffsetDays: number | null;
+  laneSlug: string | null;
+}
+
+export interface ProjectTemplateLaneDefinition {
+  slug: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+  icon: string | null;
+  autoAssignRules: Record<string, unknown> | null;
+}
+
+export interface ProjectTemplateDependencyDefinition {
+  fromKey: string;
+  toKey: string;
+  kind: TimelineDependencyKind;
+  note: string | null;
+}
+
+export interface ProjectTemplateRuleDefinition {
+  name: string;
+  description: string | null;
+  enabled: boolean;
+  sortOrder: number;
+  conditions: ProjectAssignmentRuleConditionGroup;
+  /** Rule actions without `projectId`, which is filled in for the new project. */
+  actions: Omit<ProjectAssignmentRuleAction, "projectId">;
+  metadata: Record<string, unknown>;
+}
+
+/** Shape of `project_templates.payload` for templates saved from a project. */
+export interface ProjectTemplatePayload {
+  tasks: ProjectTemplateTaskDefinition[];
+  lanes: ProjectTemplateLaneDefinition[];
+  dependencies: ProjectTemplateDependencyDefinition[];
+  assignmentRules: ProjectTemplateRuleDefinition[];
+}
+
+export type ProjectTemplateItemDraft = Omit<ProjectTemplateItemRecord, "id" | "templateId" | "createdAt">;
+
+export interface ProjectTemplateSnapshot {
+  items: ProjectTemplateItemDraft[];
+  payload: ProjectTemplatePayload;
+}
+
+export interface CaptureProjectTemplateInput {
+  project: Pick<ProjectRecord, "id" | "startDate">;
+  items: TimelineItemRecord[];
+  tasks: ProjectTaskRecord[];
+  lanes: TimelineLaneDefinition[];
+  dependencies: TimelineDependencyRecord[];
+  assignmentRules: ProjectAssignmentRule[];
+}
+
+export interface InstantiatedTemplateItem {
+  key: string;
+  type: TimelineItemType;
+  kind: string | null;
+  title: string;
+  description: string | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  dueAt: string | null;
+  timezone: string | null;
+  status: TimelineItemStatus;
+  labels: TimelineItemRecord["labels"];
+}
+
+export interface InstantiatedTemplateTask {
+  title: string;
+  description: string | null;
+  priority: number;
+  dueAt: string | null;
+  laneSlug: string | null;
+}
+
+export interface InstantiatedProjectTemplate {
+  items: InstantiatedTemplateItem[];
+  tasks: InstantiatedTemplateTask[];
+  lanes: ProjectTemplateLaneDefinition[];
+  dependencies: ProjectTemplateDependencyDefinition[];
+  assignmentRules: ProjectTemplateRuleDefinition[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Types used by the original seeded templates, before project items existed. */
+const LEGACY_ITEM_TYPES: Record<string, TimelineItemType> = {
+  event: "LIVE_HOLD",
+  hold: "LIVE_HOLD",
+  milestone: "RELEASE_MILESTONE",
+  gate: "RELEASE_MILESTONE",
+  lead: "PROMO_SLOT",
+  task: "PROMO_SLOT",
+};
+
+function localParts(iso: string, timezone: string | null) {
+  const date = new Date(iso);
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone || "UTC",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+    const lookup = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+    return { year: lookup("year"), month: lookup("month"), day: lookup("day"), hour: lookup("hour"), minute: lookup("minute") };
+  } catch (err) {
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes(),
+    };
+  }
+}
+
+/** Template start times are wall-clock; re-read the offset so DST days land right. */
+function zonedTimeToInstant(
+  parts: { year: number; month: number; day: number; hour: number; minute: number },
+  timezone: string
+): number {
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  let instant = wall;
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    instant = wall - (getUtcOffsetMinutes(timezone, instant) ?? 0) * 60 * 1000;
+  }
+  return instant;
+}
+
+function dayNumber(parts: { year: number; month: number; day: number }): number {
+  return Math.round(Date.UTC(parts.year, parts.month - 1, parts.day) / DAY_MS);
+}
+
+function parseDayNumber(value: string | null | undefined): number | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return match ? dayNumber({ year: +match[1], month: +match[2], day: +match[3] }) : null;
+}
+
+function resolveAnchorDay(input: CaptureProjectTemplateInput): number {
+  const fromProject = parseDayNumber(input.project.startDate);
+  if (fromProject != null) return fromProject;
+
+  const days = input.items
+    .map((item) => {
+      const at = item.startsAt ?? item.dueAt;
+      return at ? dayNumber(localParts(at, item.timezone)) : null;
+    })
+    .filter((day): day is number => day != null);
+  return days.length > 0 ? Math.min(...days) : Math.round(Date.now() / DAY_MS);
+}
+
+function resetStatus(status: TimelineItemStatus): TimelineItemStatus {
+  return status === "done" || status === "canceled" || status === "waiting" ? "planned" : status;
+}
+
+/**
+ * Captures a project as a template. Dates become day offsets from the
+ * project start (or its earliest item when the project has no start date)
+ * with the local start time kept alongside, so a 20:00 show in Dublin is a
+ * 20:00 show in Dublin again in the next project. Statuses are reset, links
+ * to calendars and mail are dropped, and assignment rules lose their
+ * project id until a new project takes them.
+ */
+export function captureProjectTemplate(input: CaptureProjectTemplateInput): ProjectTemplateSnapshot {
+  const anchor = resolveAnchorDay(input);
+  const keyById = new Map<string, string>();
+
+  const at = (item: TimelineItemRecord) => {
+    const value = item.startsAt ?? item.dueAt;
+    return value ? Date.parse(value) : Number.POSITIVE_INFINITY;
+  };
+  const ordered = [...input.items].sort((a, b) => (at(a) === at(b) ? 0 : at(a) - at(b)));
+
+  const items: ProjectTemplateItemDraft[] = ordered.map((item, index) => {
+    const key = `item-${index + 1}`;
+    keyById.set(item.id, key);
+
+    const scheduledAt = item.startsAt ?? item.dueAt;
+    const metadata: ProjectTemplateItemMetadata = {
+      key,
+      kind: item.kind,
+      description: item.description,
+      status: resetStatus(item.status),
+      labels: { ...item.labels },
+      timezone: item.timezone,
+    };
+
+    let offsetDays = 0;
+    let durationDays = 0;
+    if (!scheduledAt) {
+      metadata.unscheduled = true;
+    } else {
+      const local = localParts(scheduledAt, item.timezone);
+      offsetDays = dayNumber(local) - anchor;
+      metadata.startTime = `${String(local.hour).padStart(2, "0")}:${String(local.minute).padStart(2, "0")}`;
+      if (!item.startsAt) {
+        metadata.deadline = true;
+      } else if (item.endsAt) {
+        const minutes = Math.max(0, Math.round((Date.parse(item.endsAt) - Date.parse(item.startsAt)) / 60000));
+        metadata.durationMinutes = minutes;
+        durationDays = Math.floor(minutes / (24 * 60));
+      }
+    }
+
+    return {
+      itemType: item.type,
+      title: item.title,
+      lane: typeof item.labels?.lane === "string" ? item.labels.lane : item.lane ?? null,
+      offsetDays,
+      durationDays,
+      metadata: metadata as Record<string, unknown>,
+    };
+  });
+
+  const tasks: ProjectTemplateTaskDefinition[] = input.tasks.map((task) => ({
+    title: task.title,
+    description: task.description,
+    priority: task.priority ?? 0,
+    dueOffsetDays: task.dueAt ? (parseDayNumber(task.dueAt) ?? anchor) - anchor : null,
+    laneSlug: task.laneSlug,
+  }));
+
+  const usedLaneSlugs = new Set(
+    [...tasks.map((task) => task.laneSlug), ...items.map((item) => item.lane)]
+      .filter((slug): slug is string => Boolean(slug))
+      .map((slug) => slug.toUpperCase())
+  );
+  // Only user-defined lanes travel with the template; shared defaults exist everywhere.
+  const lanes: ProjectTemplateLaneDefinition[] = input.lanes
+    .filter((lane) => lane.userId && usedLaneSlugs.has(lane.slug.toUpperCase()))
+    .map((lane) => ({
+      slug: lane.slug,
+      name: lane.name,
+      description: lane.description,
+      color: lane.color,
+      icon: lane.icon,
+      autoAssignRules: lane.autoAssignRules,
+    }));
+
+  const dependencies: ProjectTemplateDependencyDefinition[] = input.dependencies
+    .filter((dependency) => keyById.has(dependency.fromItemId) && keyById.has(dependency.toItemId))
+    .map((dependency) => ({
+      fromKey: keyById.get(dependency.fromItemId) as string,
+      toKey: keyById.get(dependency.toItemId) as string,
+      kind: dependency.kind,
+      note: dependency.note,
+    }));
+
+  const assignmentRules: ProjectTemplateRuleDefinition[] = input.assignmentRules
+    .filter((rule) => rule.projectId === input.project.id)
+    .map((rule) => {
+      const { projectId: _projectId, ...actions } = rule.actions;
+      return {
+        name: rule.name,
+        description: rule.description,
+        enabled: rule.enabled,
+        sortOrder: rule.sortOrder,
+        conditions: rule.conditions,
+        actions,
+        metadata: rule.metadata ?? {},
+      };
+    });
+
+  return { items, payload: { tasks, lanes, dependencies, assignmentRules } };
+}
+
+/** Reads a template payload, tolerating the free-form payloads of built-in templates. */
+export function normaliseProjectTemplatePayload(
+  raw: ProjectTemplatePayload | Record<string, unknown> | null | undefined
+): ProjectTemplatePayload {
+  const list = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+  return {
+    tasks: list<ProjectTemplateTaskDefinition>(raw?.tasks).filter((task) => typeof task?.title === "string" && task.title.trim()),
+    lanes: list<ProjectTemplateLaneDefinition>(raw?.lanes).filter((lane) => typeof lane?.slug === "string" && lane.slug),
+    dependencies: list<ProjectTemplateDependencyDefinition>(raw?.dependencies).filter(
+      (dependency) => typeof dependency?.fromKey === "string" && typeof dependency?.toKey === "string"
+    ),
+    assignmentRules: list<ProjectTemplateRuleDefinition>(raw?.assignmentRules).filter(
+      (rule) => typeof rule?.name === "string" && rule.conditions
+    ),
+  };
+}
+
+function resolveTemplateItemType(value: string): TimelineItemType {
+  return LEGACY_ITEM_TYPES[value.trim().toLowerCase()] ?? normaliseTimelineItemType(value);
+}
+
+/**
+ * Lays a template out from `startDate` (`YYYY-MM-DD` or ISO). Items without
+ * a captured start time keep the original behaviour of starting at midnight
+ * UTC and running for `durationDays`.
+ */
+export function instantiateProjectTemplate(
+  template: { items: ProjectTemplateItemDraft[]; payload: ProjectTemplatePayload | Record<string, unknown> | null | undefined },
+  startDate: string
+): InstantiatedProjectTemplate {
+  const payload = normaliseProjectTemplatePayload(template.payload);
+  const anchor = parseDayNumber(startDate) ?? Math.round(Date.parse(startDate) / DAY_MS);
+  const dayToParts = (offsetDays: number) => {
+    const date = new Date((anchor + offsetDays) * DAY_MS);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  };
+
+  const items: InstantiatedTemplateItem[] = template.items.map((item, index) => {
+    const metadata = (item.metadata ?? {}) as ProjectTemplateItemMetadata;
+    const timezone = metadata.timezone ?? null;
+    const time = metadata.startTime?.match(/^(\d{1,2}):(\d{2})$/);
+
+    let startsAt: string | null = null;
+    let endsAt: string | null = null;
+    let dueAt: string | null = null;
+    if (!metadata.unscheduled) {
+      const day = dayToParts(item.offsetDays);
+      const startMs = time
+        ? zonedTimeToInstant({ ...day, hour: Number(time[1]), minute: Number(time[2]) }, timezone || "UTC")
+        : Date.UTC(day.year, day.month - 1, day.day);
+      if (metadata.deadline) {
+        dueAt = new Date(startMs).toISOString();
+      } else {
+        startsAt = new Date(startMs).toISOString();
+        const durationMinutes = metadata.durationMinutes ?? (item.durationDays > 0 ? item.durationDays * 24 * 60 : null);
+        endsAt = durationMinutes ? new Date(startMs + durationMinutes * 60000).toISOString() : null;
+      }
+    }
+
+    const labels = { ...(metadata.labels ?? {}) };
+    if (item.lane && !labels.lane) labels.lane = item.lane;
+
+    return {
+      key: metadata.key ?? `item-${index + 1}`,
+      type: resolveTemplateItemType(item.itemType),
+      kind: metadata.kind ?? null,
+      title: item.title,
+      description: metadata.description ?? null,
+      startsAt,
+      endsAt,
+      dueAt,
+      timezone,
+      status: normaliseTimelineItemStatus(metadata.status),
+      labels,
+    };
+  });
+
+  const tasks: InstantiatedTemplateTask[] = payload.tasks.map((task) => {
+    let dueAt: string | null = null;
+    if (task.dueOffsetDays != null) {
+      const day = dayToParts(task.dueOffsetDays);
+      dueAt = new Date(Date.UTC(day.year, day.month - 1, day.day)).toISOString();
+    }
+    return {
+      title: task.title.trim(),
+      description: task.description ?? null,
+      priority: Number(task.priority ?? 0),
+      dueAt,
+      laneSlug: task.laneSlug ?? null,
+    };
+  });
+
+  const keys = new Set(items.map((item) => item.key));
+  return {
+    items,
+    tasks,
+    lanes: payload.lanes,
+    dependencies: payload.dependencies.filter((dependency) => keys.has(dependency.fromKey) && keys.has(dependency.toKey)),
+    assignmentRules: payload.assignmentRules,
+  };
+}
@@ -0,0 +1,180 @@
+import type {
+  ProjectTaskRecord,
+  RecordRevision,
+  RecordRevisionEntity,
+  RecordRevisionOperation,
+  TimelineItemRecord,
+} from "./types";
+
+type RevisionSnapshot = TimelineItemRecord | ProjectTaskRecord;
+
+/** Bookkeeping and view-derived fields that never count as a change on their own. */
+const IGNORED_FIELDS = new Set(["id", "projectId", "createdAt", "updatedAt", "createdBy", "conflictFlags", "layoutRow"]);
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  type: "type",
+  kind: "kind",
+  lane: "lane",
+  territory: "territory",
+  status: "status",
+  startsAt: "start",
+  endsAt: "end",
+  dueAt: "due date",
+  timezone: "timezone",
+  priorityScore: "priority",
+  priority: "priority",
+  priorityComponents: "priority breakdown",
+  labels: "labels",
+  links: "links",
+  assigneeId: "assignee",
+  laneId: "lane",
+  laneSlug: "lane",
+  laneName: "lane",
+  laneColor: "lane",
+  laneIcon: "lane",
+};
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function sameInstant(left: unknown, right: unknown): boolean {
+  if (typeof left !== "string" || typeof right !== "string") return false;
+  const leftMs = Date.parse(left);
+  const rightMs = Date.parse(right);
+  return Number.isFinite(leftMs) && leftMs === rightMs;
+}
+
+/**
+ * Lists the fields that differ between two snapshots of the same record, in
+ * the order they appear on the newer one. Timestamps are compared as instants
+ * so `+00:00` and `Z` spellings of the same time do not register as a change.
+ */
+export function diffRecordSnapshots(
+  before: RevisionSnapshot | null | undefined,
+  after: RevisionSnapshot | null | undefined
+): string[] {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(next), ...Object.keys(previous)]);
+  const changed: string[] = [];
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const left = previous[key];
+    const right = next[key];
+    if (sameInstant(left, right)) continue;
+    if (stableStringify(left) !== stableStringify(right)) {
+      changed.push(key);
+    }
+  }
+
+  return changed;
+}
+
+export interface RecordRevisionInput {
+  projectId: string;
+  entity: RecordRevisionEntity;
+  recordId: string;
+  operation: RecordRevisionOperation;
+  before: TimelineItemRecord | ProjectTaskRecord | null;
+  after: TimelineItemRecord | ProjectTaskRecord | null;
+  userId?: string | null;
+  restoredFromId?: string | null;
+}
+
+/**
+ * The `record_revisions` row for a before/after pair, or null for an update
+ * that leaves every tracked field untouched (e.g. a drag released where it
+ * started) so it does not clutter the history.
+ */
+export function buildRecordRevisionRow(input: RecordRevisionInput): Record<string, unknown> | null {
+  const changedFields = diffRecordSnapshots(input.before, input.after);
+  if (input.operation === "update" && changedFields.length === 0) {
+    return null;
+  }
+
+  return {
+    project_id: input.projectId,
+    entity: input.entity,
+    record_id: input.recordId,
+    operation: input.operation,
+    before: input.before,
+    after: input.after,
+    changed_fields: changedFields,
+    user_id: input.userId ?? null,
+    restored_from_id: input.restoredFromId ?? null,
+  };
+}
+
+/** Columns to read from `project_tasks` so a task snapshot carries its lane. */
+export const PROJECT_TASK_SNAPSHOT_COLUMNS = "*, lane:lane_definitions(id, slug, name, color, icon)";
+
+export function mapProjectTaskRow(row: any): ProjectTaskRecord {
+  const laneRelation = row.lane ?? null;
+  const laneId = (row.lane_id as string) ?? (laneRelation?.id as string) ?? null;
+  const laneSlugValue = (row as Record<string, unknown>).lane_slug ?? laneRelation?.slug;
+  const laneNameValue = (row as Record<string, unknown>).lane_name ?? laneRelation?.name;
+  const laneColorValue = (row as Record<string, unknown>).lane_color ?? laneRelation?.color;
+  const laneIconValue = (row as Record<string, unknown>).lane_icon ?? laneRelation?.icon;
+  return {
+    id: row.id as string,
+    projectId: row.project_id as string,
+    title: row.title as string,
+    description: (row.description as string) ?? null,
+    status: row.status as string,
+    dueAt: row.due_at ? String(row.due_at) : null,
+    priority: row.priority != null ? Number(row.priority) : null,
+    assigneeId: (row.assignee_id as string) ?? null,
+    laneId,
+    laneSlug: typeof laneSlugValue === "string" ? laneSlugValue : null,
+    laneName: typeof laneNameValue === "string" ? laneNameValue : null,
+    laneColor: typeof laneColorValue === "string" ? laneColorValue : null,
+    laneIcon: typeof laneIconValue === "string" ? laneIconValue : null,
+    createdBy: (row.created_by as string) ?? null,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+/** One-line summary of a revision for history lists, e.g. "Changed start and end". */
+export function describeRecordRevision(revision: Pick<RecordRevision, "operation" | "changedFields">): string {
+  switch (revision.operation) {
+    case "create":
+      return "Created";
+    case "delete":
+      return "Deleted";
+    case "restore":
+      return "Restored an earlier version";
+    default:
+      break;
+  }
+
+  const labels = Array.from(new Set(revision.changedFields.map((field) => FIELD_LABELS[field] ?? field)));
+  if (labels.length === 0) {
+    return "Saved without changes";
+  }
+  if (labels.length === 1) {
+    return `Changed ${labels[0]}`;
+  }
+  return `Changed ${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+}
+
+/**
+ * The state a restore should return the record to: what it looked like right
+ * after the revision, or just before it when the revision was a delete.
+ */
+export function getRevisionRestoreSnapshot<TSnapshot>(revision: Pick<RecordRevision<TSnapshot>, "before" | "after">): TSnapshot | null {
+  return revision.after ?? revision.before ?? null;
+}
@@ -0,0 +1,272 @@
+import type { LlmProvider } from "./llmProvider";
+import type { AssetCanonicalCategory, EmailLabel } from "./types";
+
+const REPLY_BODY_CHAR_LIMIT = 4000;
+const CONTEXT_ITEM_LIMIT = 8;
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>(),;:"\\]+@[^\s@<>(),;:"\\]+\.[^\s@<>(),;:"\\]+$/;
+const NAMED_ADDRESS_PATTERN = /^(?:"[^"\r\n]*"|[^"<>\r\n]*)\s*<([^<>\s]+)>$/;
+
+export interface EmailReplyDraftContext {
+  email: {
+    id: string;
+    subject: string;
+    fromName: string | null;
+    fromEmail: string;
+    summary: string | null;
+    category: EmailLabel;
+    labels: EmailLabel[];
+  };
+  project: {
+    id: string;
+    name: string;
+  } | null;
+  timeline: Array<{
+    id: string;
+    title: string;
+    type: string;
+    startsAt: string | null;
+    dueAt: string | null;
+    status: string | null;
+  }>;
+  assets: Array<{
+    id: string;
+    title: string;
+    canonicalCategory: AssetCanonicalCategory | null;
+    url: string | null;
+  }>;
+  senderName?: string | null;
+}
+
+/**
+ * Stored as the approval payload for `email_reply_draft`. `to`, `subject` and
+ * `body` are the editable fields; reviewer edits overwrite them in place so
+ * the approved draft is exactly what the reviewer saw.
+ */
+export interface EmailReplyDraftPayload {
+  emailId: string;
+  userId: string;
+  /** Gmail account that received the email; the draft is created in the same mailbox. */
+  accountId: string | null;
+  threadId: string | null;
+  projectId: string | null;
+  to: string;
+  subject: string;
+  body: string;
+  inReplyTo: string | null;
+  references: string[];
+  context: {
+    summary: string | null;
+    labels: EmailLabel[];
+    timelineItemIds: string[];
+    assetIds: string[];
+  };
+  generatedBody: string;
+  editedAt: string | null;
+  editedBy: string | null;
+  gmailDraftId: string | null;
+}
+
+export interface EmailReplyDraftEdit {
+  to?: string;
+  subject?: string;
+  body?: string;
+}
+
+export function buildReplySubject(subject: string | null | undefined): string {
+  const trimmed = (subject ?? "").trim();
+  if (!trimmed) return "Re:";
+  return /^re:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+}
+
+function describeTimelineEntry(entry: EmailReplyDraftContext["timeline"][number]): string {
+  const when = entry.startsAt ?? entry.dueAt;
+  const date = when ? when.slice(0, 10) : "unscheduled";
+  return `- ${entry.title} (${entry.type}, ${date}${entry.status ? `, ${entry.status}` : ""})`;
+}
+
+function describeAsset(asset: EmailReplyDraftContext["assets"][number]): string {
+  const category = asset.canonicalCategory ? ` [${asset.canonicalCategory}]` : "";
+  return `- ${asset.title}${category}${asset.url ? `: ${asset.url}` : ""}`;
+}
+
+export function buildReplyDraftPrompt(context: EmailReplyDraftContext): { system: string; user: string } {
+  const system = [
+    "You draft email replies on behalf of an artist manager.",
+    "Drafts are always reviewed by a person before anything is sent, so never promise commitments the context does not support.",
+    "Write plain text only, without a subject line. Keep it concise and professional.",
+    "Only reference dates from the timeline and links from the asset list when they are relevant.",
+    'Reply with a JSON object only: {"body": "<the reply text>"}.',
+  ].join("\n");
+
+  const lines = [
+    `Original email from ${context.email.fromName ?? context.email.fromEmail} <${context.email.fromEmail}>`,
+    `Subject: ${context.email.subject}`,
+    `Labels: ${[context.email.category, ...context.email.labels.filter((label) => label !== context.email.category)].join(", ")}`,
+    `Summary: ${context.email.summary ?? "No summary available."}`,
+  ];
+
+  if (context.project) {
+    lines.push("", `Project: ${context.project.name}`);
+  }
+
+  const timeline = context.timeline.slice(0, CONTEXT_ITEM_LIMIT);
+  if (timeline.length > 0) {
+    lines.push("", "Upcoming timeline:", ...timeline.map(describeTimelineEntry));
+  }
+
+  const assets = context.assets.slice(0, CONTEXT_ITEM_LIMIT);
+  if (assets.length > 0) {
+    lines.push("", "Canonical assets:", ...assets.map(describeAsset));
+  }
+
+  if (context.senderName) {
+    lines.push("", `Sign off as ${context.senderName}.`);
+  }
+
+  lines.push("", "Write the reply body.");
+
+  return { system, user: lines.join("\n") };
+}
+
+/** Drafts the reply body through the configured model provider. */
+export async function generateEmailReplyDraft(
+  context: EmailReplyDraftContext,
+  provider: LlmProvider,
+  options: { model?: string | null } = {}
+): Promise<string> {
+  const prompt = buildReplyDraftPrompt(context);
+  const response = await provider.extract({
+    system: prompt.system,
+    user: prompt.user,
+    text: prompt.user,
+    fields: ["body"],
+    model: options.model ?? null,
+    temperature: 0.5,
+  });
+
+  const body = response.data.body;
+  if (typeof body !== "string" || !body.trim()) {
+    throw new Error(`${provider.name} response missing reply body`);
+  }
+
+  return body.trim().slice(0, REPLY_BODY_CHAR_LIMIT);
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value : null;
+}
+
+export function normalizeEmailReplyDraftPayload(value: unknown): EmailReplyDraftPayload {
+  const input = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  const context = input.context && typeof input.context === "object" ? (input.context as Record<string, unknown>) : {};
+  const stringList = (list: unknown) => (Array.isArray(list) ? list.filter((item): item is string => typeof item === "string") : []);
+  const body = typeof input.body === "string" ? input.body : "";
+
+  return {
+    emailId: asString(input.emailId) ?? "",
+    userId: asString(input.userId) ?? "",
+    accountId: asString(input.accountId),
+    threadId: asString(input.threadId),
+    projectId: asString(input.projectId),
+    to: asString(input.to) ?? "",
+    subject: asString(input.subject) ?? "Re:",
+    body,
+    inReplyTo: asString(input.inReplyTo),
+    references: stringList(input.references),
+    context: {
+      summary: asString(context.summary),
+      labels: stringList(context.labels) as EmailLabel[],
+      timelineItemIds: stringList(context.timelineItemIds),
+      assetIds: stringList(context.assetIds),
+    },
+    generatedBody: typeof input.generatedBody === "string" ? input.generatedBody : body,
+    editedAt: asString(input.editedAt),
+    editedBy: asString(input.editedBy),
+    gmailDraftId: asString(input.gmailDraftId),
+  };
+}
+
+/**
+ * Validates a comma-separated `To` value of bare addresses or
+ * `Name <address>` entries and returns it re-joined, or null when it is
+ * empty, malformed or contains a line break.
+ */
+export function normalizeReplyRecipients(value: string): string | null {
+  if (/[\r\n]/.test(value)) return null;
+
+  // Split on commas outside quoted display names.
+  const entries = value
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (entries.length === 0) return null;
+
+  for (const entry of entries) {
+    const address = entry.match(NAMED_ADDRESS_PATTERN)?.[1] ?? entry;
+    if (!EMAIL_ADDRESS_PATTERN.test(address)) return null;
+  }
+  return entries.join(", ");
+}
+
+/**
+ * Applies a reviewer's edit to a draft. Throws when the edited recipient list
+ * is not a valid address list.
+ */
+export function applyEmailReplyDraftEdit(
+  payload: EmailReplyDraftPayload,
+  edit: EmailReplyDraftEdit,
+  editorId: string,
+  now: Date = new Date()
+): EmailReplyDraftPayload {
+  const next = { ...payload };
+  if (typeof edit.to === "string" && edit.to.trim()) {
+    const to = normalizeReplyRecipients(edit.to);
+    if (!to) {
+      throw new Error("Recipients must be a comma-separated list of email addresses");
+    }
+    next.to = to;
+  }
+  if (typeof edit.subject === "string" && edit.subject.trim()) next.subject = edit.subject.trim();
+  if (typeof edit.body === "string") next.body = edit.body;
+  next.editedAt = now.toISOString();
+  next.editedBy = editorId;
+  return next;
+}
+
+function encodeHeaderValue(value: string): string {
+  // RFC 2047 encoded-word for non-ASCII header values.
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+/**
+ * Builds the RFC 2822 message for a reply draft, including the threading
+ * headers Gmail needs to keep the draft in the original conversation.
+ */
+export function buildReplyMimeMessage(payload: Pick<EmailReplyDraftPayload, "to" | "subject" | "body" | "inReplyTo" | "references">): string {
+  const rawHeaderValues = [payload.to, payload.inReplyTo ?? "", ...payload.references];
+  if (rawHeaderValues.some((value) => /[\r\n]/.test(value))) {
+    throw new Error("Reply headers must not contain line breaks");
+  }
+
+  const headers = [
+    `To: ${payload.to}`,
+    `Subject: ${encodeHeaderValue(payload.subject)}`,
+    "MIME-Version: 1.0",
+    'Content-Type: text/plain; charset="UTF-8"',
+    "Content-Transfer-Encoding: 8bit",
+  ];
+
+  if (payload.inReplyTo) {
+    headers.push(`In-Reply-To: ${payload.inReplyTo}`);
+    const references = payload.references.includes(payload.inReplyTo)
+      ? payload.references
+      : [...payload.references, payload.inReplyTo];
+    headers.push(`References: ${references.join(" ")}`);
+  }
+
+  return `${headers.join("\r\n")}\r\n\r\n${payload.body.replace(/\r?\n/g, "\r\n")}`;
+}
+
+export function encodeBase64Url(value: string): string {
+  return Buffer.from(value, "utf8").toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
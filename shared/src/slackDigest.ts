@@ -0,0 +1,222 @@
+import { describeDigestApproval } from "./digestDelivery";
+import type { DigestPayload, DigestTopAction } from "./types";
+
+export const SLACK_APPROVE_ACTION_ID = "kazador_approval_approve";
+export const SLACK_DECLINE_ACTION_ID = "kazador_approval_decline";
+
+const SLACK_WEBHOOK_PREFIX = "https://hooks.slack.com/";
+const SLACK_MEMBER_ID_PATTERN = /^[UW][A-Z0-9]{2,}$/;
+const MAX_BLOCKS = 50;
+
+export interface SlackSettings {
+  enabled: boolean;
+  webhookUrl: string | null;
+  includeApprovals: boolean;
+  /** Slack member ID (e.g. U024BE7LH) that may act on approvals as this user. */
+  slackUserId: string | null;
+}
+
+export const DEFAULT_SLACK_SETTINGS: SlackSettings = {
+  enabled: false,
+  webhookUrl: null,
+  includeApprovals: true,
+  slackUserId: null,
+};
+
+export interface SlackApprovalActionValue {
+  approvalId: string;
+  userId: string;
+}
+
+export interface SignedSlackApprovalValue extends SlackApprovalActionValue {
+  signature: string;
+}
+
+export interface SlackMessage {
+  text: string;
+  blocks: Array<Record<string, unknown>>;
+}
+
+export interface RenderDigestSlackOptions {
+  generatedFor: string;
+  userId: string;
+  appUrl?: string | null;
+  includeApprovals?: boolean;
+  /**
+   * Signs an approval button value with the server secret. Approval buttons
+   * are only rendered when a signer is available.
+   */
+  signApprovalValue?: (value: SlackApprovalActionValue) => string;
+}
+
+export function isSlackWebhookUrl(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith(SLACK_WEBHOOK_PREFIX);
+}
+
+export function normalizeSlackSettings(value: unknown): SlackSettings {
+  if (!value || typeof value !== "object") {
+    return { ...DEFAULT_SLACK_SETTINGS };
+  }
+  const input = value as Record<string, unknown>;
+  const webhookUrl = isSlackWebhookUrl(input.webhookUrl) ? input.webhookUrl.trim() : null;
+  return {
+    enabled: Boolean(input.enabled) && webhookUrl != null,
+    webhookUrl,
+    includeApprovals: input.includeApprovals !== false,
+    slackUserId: normalizeSlackUserId(input.slackUserId),
+  };
+}
+
+export function normalizeSlackUserId(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().toUpperCase();
+  return SLACK_MEMBER_ID_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+/** The string both the worker and the app HMAC when signing a button value. */
+export function getSlackApprovalSigningInput(value: SlackApprovalActionValue): string {
+  return `kazador-approval:${value.approvalId}:${value.userId}`;
+}
+
+export function encodeSlackApprovalValue(value: SlackApprovalActionValue, signature: string): string {
+  return JSON.stringify({ approvalId: value.approvalId, userId: value.userId, signature });
+}
+
+export function parseSlackApprovalValue(value: unknown): SignedSlackApprovalValue | null {
+  if (typeof value !== "string") return null;
+  try {
+    const parsed = JSON.parse(value) as Partial<SignedSlackApprovalValue>;
+    if (
+      typeof parsed.approvalId === "string" &&
+      typeof parsed.userId === "string" &&
+      typeof parsed.signature === "string"
+    ) {
+      return { approvalId: parsed.approvalId, userId: parsed.userId, signature: parsed.signature };
+    }
+  } catch (err) {
+    return null;
+  }
+  return null;
+}
+
+function escapeMrkdwn(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function describeTopAction(action: DigestTopAction): string {
+  const when = action.dueAt ?? action.startsAt;
+  const date = when ? new Date(when) : null;
+  const suffix = date && !Number.isNaN(date.getTime()) ? ` · ${date.toISOString().slice(0, 10)}` : "";
+  return `• ${escapeMrkdwn(action.title)}${suffix}`;
+}
+
+/**
+ * Renders a digest as a Block Kit message. Top actions are grouped under
+ * their project, and pending approvals carry approve/decline buttons whose
+ * signed value identifies the approval and the digest recipient.
+ */
+export function renderDigestSlackMessage(payload: DigestPayload, options: RenderDigestSlackOptions): SlackMessage {
+  const blocks: Array<Record<string, unknown>> = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: `Kazador digest · ${options.generatedFor}` },
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `${payload.meta.totalProjects} projects · ${payload.topActions.length} top actions · ${payload.meta.totalPendingApprovals} pending approvals`,
+        },
+      ],
+    },
+  ];
+
+  const actionsByProject = new Map<string, DigestTopAction[]>();
+  for (const action of payload.topActions) {
+    const list = actionsByProject.get(action.projectId) ?? [];
+    list.push(action);
+    actionsByProject.set(action.projectId, list);
+  }
+
+  for (const [projectId, actions] of actionsByProject) {
+    const projectName = actions[0]?.projectName ?? projectId;
+    blocks.push(
+      { type: "divider" },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: `*${escapeMrkdwn(projectName)}*\n${actions.map(describeTopAction).join("\n")}` },
+      }
+    );
+  }
+
+  const wokenEmails = payload.wokenEmails ?? [];
+  if (wokenEmails.length > 0) {
+    const lines = wokenEmails.map(
+      (email) => `• ${escapeMrkdwn(email.subject || "(No subject)")} — ${escapeMrkdwn(email.fromName ?? email.fromEmail)}`
+    );
+    blocks.push(
+      { type: "divider" },
+      { type: "section", text: { type: "mrkdwn", text: `*Back from snooze*\n${lines.join("\n")}` } }
+    );
+  }
+
+  const signApprovalValue = options.signApprovalValue;
+  const approvals =
+    options.includeApprovals === false || !signApprovalValue
+      ? []
+      : payload.projects.flatMap((snapshot) =>
+          snapshot.approvals.map((approval) => ({ approval, projectName: snapshot.project.name }))
+        );
+
+  if (approvals.length > 0) {
+    blocks.push({ type: "divider" }, { type: "section", text: { type: "mrkdwn", text: "*Pending approvals*" } });
+  }
+
+  for (const { approval, projectName } of approvals) {
+    if (!signApprovalValue || blocks.length + 2 > MAX_BLOCKS) break;
+    const target = { approvalId: approval.id, userId: options.userId };
+    const value = encodeSlackApprovalValue(target, signApprovalValue(target));
+    blocks.push(
+      {
+        type: "section",
+        block_id: `approval:${approval.id}`,
+        text: {
+          type: "mrkdwn",
+          text: `${escapeMrkdwn(describeDigestApproval(approval))}\n_${escapeMrkdwn(projectName)}_`,
+        },
+      },
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            action_id: SLACK_APPROVE_ACTION_ID,
+            style: "primary",
+            text: { type: "plain_text", text: "Approve" },
+            value,
+          },
+          {
+            type: "button",
+            action_id: SLACK_DECLINE_ACTION_ID,
+            style: "danger",
+            text: { type: "plain_text", text: "Decline" },
+            value,
+          },
+        ],
+      }
+    );
+  }
+
+  if (options.appUrl && blocks.length < MAX_BLOCKS) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `<${options.appUrl}|Open Kazador>` }],
+    });
+  }
+
+  return {
+    text: `Kazador digest for ${options.generatedFor}: ${payload.topActions.length} top actions, ${payload.meta.totalPendingApprovals} pending approvals`,
+    blocks: blocks.slice(0, MAX_BLOCKS),
+  };
+}
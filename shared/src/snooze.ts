@@ -0,0 +1,203 @@
+import { calculateEmailInboxPriority, type EmailPriorityInput } from "./emailPriority";
+import type { PriorityConfig } from "./priorityConfig";
+import type { EmailTriageState } from "./types";
+
+export type SnoozePreset = "later_today" | "tomorrow_morning" | "next_show_day";
+
+export interface SnoozePresetOption {
+  preset: SnoozePreset;
+  label: string;
+  snoozedUntil: string;
+}
+
+export interface SnoozePresetContext {
+  now?: Date;
+  timezone?: string | null;
+  /** Start of the next show (a `LIVE_HOLD` timeline entry), if any. */
+  nextShowAt?: string | null;
+}
+
+const LATER_TODAY_HOURS = 3;
+const LATER_TODAY_CUTOFF_HOUR = 21;
+const MORNING_HOUR = 8;
+
+interface ZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+function getZonedDateParts(date: Date, timezone: string): ZonedDateParts {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone || "UTC",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+  } catch (err) {
+    return getZonedDateParts(date, "UTC");
+  }
+
+  const lookup = (type: string) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return {
+    year: lookup("year"),
+    month: lookup("month"),
+    day: lookup("day"),
+    hour: lookup("hour"),
+    minute: lookup("minute"),
+  };
+}
+
+/**
+ * Converts a wall-clock time in `timezone` to a UTC instant. The offset is
+ * re-read at the candidate instant so DST transitions resolve correctly.
+ */
+function zonedTimeToUtc(parts: ZonedDateParts, timezone: string): Date {
+  const target = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  let guess = target;
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    const zoned = getZonedDateParts(new Date(guess), timezone);
+    const observed = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+    guess += target - observed;
+  }
+  return new Date(guess);
+}
+
+function addDays(parts: ZonedDateParts, days: number): ZonedDateParts {
+  const shifted = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+function formatPresetTime(date: Date, timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat("en-GB", {
+      timeZone: timezone || "UTC",
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(date);
+  } catch (err) {
+    return date.toISOString();
+  }
+}
+
+/**
+ * Resolves the snooze presets offered in the inbox. "Later today" is three
+ * hours out and is dropped late in the evening, "tomorrow morning" is 08:00
+ * in the user's timezone and "next show day" is 08:00 on the day of the next
+ * show, offered only when one is scheduled after tomorrow morning.
+ */
+export function resolveSnoozePresets(context: SnoozePresetContext = {}): SnoozePresetOption[] {
+  const now = context.now ?? new Date();
+  const timezone = context.timezone || "UTC";
+  const local = getZonedDateParts(now, timezone);
+  const options: SnoozePresetOption[] = [];
+
+  if (local.hour + LATER_TODAY_HOURS < LATER_TODAY_CUTOFF_HOUR) {
+    const until = new Date(now.getTime() + LATER_TODAY_HOURS * 60 * 60 * 1000);
+    options.push({
+      preset: "later_today",
+      label: `Later today (${formatPresetTime(until, timezone)})`,
+      snoozedUntil: until.toISOString(),
+    });
+  }
+
+  const tomorrowMorning = zonedTimeToUtc({ ...addDays(local, 1), hour: MORNING_HOUR, minute: 0 }, timezone);
+  options.push({
+    preset: "tomorrow_morning",
+    label: `Tomorrow morning (${formatPresetTime(tomorrowMorning, timezone)})`,
+    snoozedUntil: tomorrowMorning.toISOString(),
+  });
+
+  const showAt = context.nextShowAt ? new Date(context.nextShowAt) : null;
+  if (showAt && !Number.isNaN(showAt.getTime())) {
+    const showMorning = zonedTimeToUtc({ ...getZonedDateParts(showAt, timezone), hour: MORNING_HOUR, minute: 0 }, timezone);
+    if (showMorning.getTime() > tomorrowMorning.getTime()) {
+      options.push({
+        preset: "next_show_day",
+        label: `Next show day (${formatPresetTime(showMorning, timezone)})`,
+        snoozedUntil: showMorning.toISOString(),
+      });
+    }
+  }
+
+  return options;
+}
+
+export function isSnoozeExpired(
+  email: { triageState?: EmailTriageState | null; snoozedUntil?: string | null },
+  now: Date = new Date()
+): boolean {
+  if (email.triageState !== "snoozed" || !email.snoozedUntil) {
+    return false;
+  }
+  const until = Date.parse(email.snoozedUntil);
+  return !Number.isNaN(until) && until <= now.getTime();
+}
+
+/**
+ * Snoozing only makes sense from an open state, so a woken email returns to
+ * `acknowledged` when that is where it was snoozed from and to `unassigned`
+ * otherwise.
+ */
+export function resolveSnoozeWakeState(previousState: string | null | undefined): EmailTriageState {
+  return previousState === "acknowledged" ? "acknowledged" : "unassigned";
+}
+
+export interface SnoozeWakePlan {
+  triageState: EmailTriageState;
+  priorityScore: number;
+  previousPriorityScore: number | null;
+}
+
+/**
+ * Works out the state and priority of an email whose snooze has expired.
+ * While snoozed, idle age only counts at `snoozeAgeReduction` and the snoozed
+ * triage weight applies; waking drops both, so the full idle age since the
+ * email arrived flows back into the score.
+ */
+export function planSnoozeWake(
+  email: Omit<EmailPriorityInput, "triageState" | "snoozedUntil"> & {
+    previousState?: string | null;
+    priorityScore?: number | null;
+  },
+  options: { config?: PriorityConfig; now?: Date } = {}
+): SnoozeWakePlan {
+  const triageState = resolveSnoozeWakeState(email.previousState);
+  const priorityScore = calculateEmailInboxPriority(
+    {
+      category: email.category,
+      labels: email.labels,
+      receivedAt: email.receivedAt,
+      isRead: email.isRead,
+      triageState,
+      snoozedUntil: null,
+      fromEmail: email.fromEmail,
+      fromName: email.fromName,
+      subject: email.subject,
+      hasAttachments: email.hasAttachments,
+    },
+    { config: options.config, now: options.now }
+  );
+
+  return {
+    triageState,
+    priorityScore,
+    previousPriorityScore: email.priorityScore ?? null,
+  };
+}
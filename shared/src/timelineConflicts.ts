@@ -1,7 +1,16 @@
-import type { TimelineItemRecord } from "./types";
+import { getUtcOffsetMinutes, resolveLocation, type ResolvedLocation } from "./gazetteer";
+import { detectDependencyViolations } from "./timelineScheduling";
+import { estimateTravelTime, type TravelMode } from "./travelTime";
+import type { TimelineDependencyRecord, TimelineItemRecord } from "./types";
 
 export type TimelineConflictSeverity = "warning" | "error";
-export type ConflictType = "lane_overlap" | "same_territory_buffer" | "travel_time" | "timezone_jump";
+export type ConflictType =
+  | "lane_overlap"
+  | "same_territory_buffer"
+  | "travel_time"
+  | "timezone_jump"
+  | "artist_double_booking"
+  | "dependency_violation";
 
 export interface TimelineConflict {
   id: string;
@@ -17,6 +26,13 @@ export interface TimelineConflict {
     toCity?: string;
     fromTerritory?: string;
     toTerritory?: string;
+    distanceKm?: number;
+    travelMode?: TravelMode;
+    /** True when an end of the trip was placed by territory only. */
+    approximate?: boolean;
+    fromTimezone?: string;
+    toTimezone?: string;
+    offsetDifferenceHours?: number;
   };
 }
 
@@ -24,100 +40,47 @@ export interface TimelineConflictOptions {
   bufferHours?: number;
   enableTravelTimeDetection?: boolean;
   enableTimezoneWarnings?: boolean;
+  /** When given, successors booked before their predecessor allows are flagged too. */
+  dependencies?: TimelineDependencyRecord[];
+}
+
+function itemTerritory(item: TimelineItemRecord): string | null {
+  return item.labels?.territory || item.territory || null;
 }
 
 /**
- * Travel time estimates in hours between different regions/territories.
- * Used to detect insufficient travel buffers between consecutive events.
+ * Time zone an item happens in. An explicit zone wins, except the `UTC`
+ * default new items get, which is replaced by the gazetteer city's zone.
  */
-interface TravelTimeEstimate {
-  hours: number;
-  description: string;
+function resolveItemTimezone(item: TimelineItemRecord, location: ResolvedLocation): string | null {
+  const explicit = item.timezone || (typeof item.labels?.timezone === "string" ? item.labels.timezone : null);
+  if (explicit && explicit !== "UTC") return explicit;
+  return location.city?.timezone ?? explicit ?? null;
 }
 
-const TRAVEL_TIME_LOOKUP: Record<string, TravelTimeEstimate> = {
-  // Same city - minimal travel time
-  "SAME_CITY": { hours: 1, description: "Same city" },
-
-  // Within same region
-  "EU_TO_EU": { hours: 4, description: "Within Europe" },
-  "US_TO_US": { hours: 6, description: "Within USA" },
-  "ASIA_TO_ASIA": { hours: 5, description: "Within Asia" },
-  "UK_TO_UK": { hours: 3, description: "Within UK" },
-
-  // Cross-continental
-  "EU_TO_US": { hours: 12, description: "Europe to USA" },
-  "US_TO_EU": { hours: 12, description: "USA to Europe" },
-  "EU_TO_ASIA": { hours: 14, description: "Europe to Asia" },
-  "ASIA_TO_EU": { hours: 14, description: "Asia to Europe" },
-  "US_TO_ASIA": { hours: 16, description: "USA to Asia" },
-  "ASIA_TO_US": { hours: 16, description: "Asia to USA" },
-
-  // Default for unknown routes
-  "UNKNOWN": { hours: 8, description: "Unknown route" },
-};
-
-const REGION_MAP: Record<string, string> = {
-  // Europe
-  "GB": "EU", "DE": "EU", "FR": "EU", "ES": "EU", "IT": "EU", "NL": "EU",
-  "BE": "EU", "AT": "EU", "CH": "EU", "SE": "EU", "NO": "EU", "DK": "EU",
-  "FI": "EU", "PL": "EU", "CZ": "EU", "PT": "EU", "IE": "EU", "GR": "EU",
-
-  // Americas
-  "US": "US", "CA": "US", "MX": "US",
-
-  // Asia
-  "JP": "ASIA", "CN": "ASIA", "KR": "ASIA", "SG": "ASIA", "TH": "ASIA",
-  "IN": "ASIA", "HK": "ASIA", "TW": "ASIA", "MY": "ASIA", "ID": "ASIA",
-
-  // Oceania
-  "AU": "ASIA", "NZ": "ASIA",
-};
+export interface UnmatchedLocation {
+  itemId: string;
+  title: string;
+  city: string;
+  territory: string | null;
+}
 
 /**
- * Estimate travel time in hours between two locations.
+ * Items whose city label is not in the gazetteer. Their travel checks fall
+ * back to the territory (or a conservative default), so they are worth
+ * surfacing for correction.
  */
-function estimateTravelTime(
-  fromCity: string | null | undefined,
-  toCity: string | null | undefined,
-  fromTerritory: string | null | undefined,
-  toTerritory: string | null | undefined
-): TravelTimeEstimate {
-  // Same city - minimal travel
-  if (fromCity && toCity && fromCity.toLowerCase() === toCity.toLowerCase()) {
-    return TRAVEL_TIME_LOOKUP["SAME_CITY"];
-  }
-
-  // Different cities but need territory to estimate
-  if (!fromTerritory || !toTerritory) {
-    return TRAVEL_TIME_LOOKUP["UNKNOWN"];
-  }
-
-  const fromTerritoryUpper = fromTerritory.toUpperCase();
-  const toTerritoryUpper = toTerritory.toUpperCase();
-
-  // Same territory
-  if (fromTerritoryUpper === toTerritoryUpper) {
-    return TRAVEL_TIME_LOOKUP["SAME_CITY"];
-  }
-
-  // Map to regions
-  const fromRegion = REGION_MAP[fromTerritoryUpper];
-  const toRegion = REGION_MAP[toTerritoryUpper];
-
-  if (!fromRegion || !toRegion) {
-    return TRAVEL_TIME_LOOKUP["UNKNOWN"];
-  }
-
-  // Same region
-  if (fromRegion === toRegion) {
-    const key = `${fromRegion}_TO_${toRegion}`;
-    return TRAVEL_TIME_LOOKUP[key] || TRAVEL_TIME_LOOKUP["UNKNOWN"];
+export function findUnmatchedLocations(items: TimelineItemRecord[]): UnmatchedLocation[] {
+  const unmatched: UnmatchedLocation[] = [];
+  for (const item of items) {
+    const city = item.labels?.city;
+    if (!city) continue;
+    const location = resolveLocation(city, itemTerritory(item));
+    if (location.unmatchedCity) {
+      unmatched.push({ itemId: item.id, title: item.title, city: location.unmatchedCity, territory: itemTerritory(item) });
+    }
   }
-
-  // Cross-region
-  const routeKey = `${fromRegion}_TO_${toRegion}`;
-  return TRAVEL_TIME_LOOKUP[routeKey] || TRAVEL_TIME_LOOKUP["UNKNOWN"];
+  return unmatched;
 }
 
 function toTimestamp(value: string | null): number | null {
@@ -150,12 +113,24 @@ export function detectTimelineConflicts(
     .filter((value): value is { item: TimelineItemRecord; start: number; end: number } => Boolean(value))
     .sort((a, b) => a.start - b.start);
 
+  const conflicts: TimelineConflict[] = options.dependencies
+    ? detectDependencyViolations(items, options.dependencies)
+    : [];
+
   if (scheduled.length === 0) {
-    return [];
+    return conflicts;
   }
 
-  const conflicts: TimelineConflict[] = [];
   const seen = new Set<string>();
+  const locations = new Map<string, ResolvedLocation>();
+  const locationFor = (item: TimelineItemRecord): ResolvedLocation => {
+    let location = locations.get(item.id);
+    if (!location) {
+      location = resolveLocation(item.labels?.city, itemTerritory(item));
+      locations.set(item.id, location);
+    }
+    return location;
+  };
 
   for (let i = 0; i < scheduled.length; i += 1) {
     for (let j = i + 1; j < scheduled.length; j += 1) {
@@ -199,7 +174,7 @@ export function detectTimelineConflicts(
         }
       }
 
-      // 3. Travel time detection (enhanced)
+      // 3. Travel time detection (gazetteer distance and travel mode)
       if (enableTravelTime) {
         const chronological = a.start <= b.start
           ? { first: a, second: b }
@@ -207,8 +182,8 @@ export function detectTimelineConflicts(
 
         const fromCity = chronological.first.item.labels?.city;
         const toCity = chronological.second.item.labels?.city;
-        const fromTerritory = chronological.first.item.labels?.territory || chronological.first.item.territory;
-        const toTerritory = chronological.second.item.labels?.territory || chronological.second.item.territory;
+        const fromTerritory = itemTerritory(chronological.first.item);
+        const toTerritory = itemTerritory(chronological.second.item);
 
         // Check if there's a location change
         const cityChange = fromCity && toCity && fromCity.toLowerCase() !== toCity.toLowerCase();
@@ -219,8 +194,11 @@ export function detectTimelineConflicts(
           const travelGapMs = chronological.second.start - chronological.first.end;
           const travelGapHours = travelGapMs / (60 * 60 * 1000);
 
-          // Estimate required travel time
-          const travelEstimate = estimateTravelTime(fromCity, toCity, fromTerritory, toTerritory);
+          const travelEstimate = estimateTravelTime(
+            { city: fromCity, territory: fromTerritory },
+            { city: toCity, territory: toTerritory },
+            { from: locationFor(chronological.first.item), to: locationFor(chronological.second.item) }
+          );
           const requiredBufferMs = travelEstimate.hours * 60 * 60 * 1000;
 
           // Flag if insufficient travel time
@@ -229,11 +207,15 @@ export function detectTimelineConflicts(
             if (!seen.has(key)) {
               seen.add(key);
               const availableHours = Math.max(0, Math.floor(travelGapHours * 10) / 10);
+              const route =
+                travelEstimate.distanceKm != null
+                  ? `${travelEstimate.hours}hr ${travelEstimate.mode.replace(/_/g, " ")}, ${travelEstimate.distanceKm.toLocaleString("en-US")}km`
+                  : `${travelEstimate.hours}hr`;
               conflicts.push({
                 id: key,
                 items: [chronological.first.item, chronological.second.item],
                 severity: "error",
-                message: `⚠️ Insufficient travel time from ${fromCity || fromTerritory || "unknown"} to ${toCity || toTerritory || "unknown"} (${travelEstimate.hours}hr required, only ${availableHours}hr available)`,
+                message: `⚠️ Insufficient travel time from ${fromCity || fromTerritory || "unknown"} to ${toCity || toTerritory || "unknown"} (${route} required, only ${availableHours}hr available)${travelEstimate.approximate ? " - location approximate" : ""}`,
                 type: "travel_time",
                 metadata: {
                   requiredBufferHours: travelEstimate.hours,
@@ -243,6 +225,9 @@ export function detectTimelineConflicts(
                   toCity: toCity || undefined,
                   fromTerritory: fromTerritory || undefined,
                   toTerritory: toTerritory || undefined,
+                  distanceKm: travelEstimate.distanceKm ?? undefined,
+                  travelMode: travelEstimate.mode,
+                  approximate: travelEstimate.approximate,
                 },
               });
             }
@@ -250,17 +235,18 @@ export function detectTimelineConflicts(
         }
       }
 
-      // 4. Timezone jump warnings (optional)
+      // 4. Timezone jump warnings, by actual UTC offset rather than zone name
       if (enableTimezoneWarnings) {
         const chronological = a.start <= b.start
           ? { first: a, second: b }
           : { first: b, second: a };
 
-        const fromTz = chronological.first.item.timezone;
-        const toTz = chronological.second.item.timezone;
+        const fromTz = resolveItemTimezone(chronological.first.item, locationFor(chronological.first.item));
+        const toTz = resolveItemTimezone(chronological.second.item, locationFor(chronological.second.item));
+        const fromOffset = fromTz ? getUtcOffsetMinutes(fromTz, chronological.first.end) : null;
+        const toOffset = toTz ? getUtcOffsetMinutes(toTz, chronological.second.start) : null;
 
-        if (fromTz && toTz && fromTz !== toTz) {
-          // Calculate timezone offset difference (simplified)
+        if (fromTz && toTz && fromOffset != null && toOffset != null && fromOffset !== toOffset) {
           const travelGapMs = chronological.second.start - chronological.first.end;
           const travelGapHours = travelGapMs / (60 * 60 * 1000);
 
@@ -269,12 +255,19 @@ export function detectTimelineConflicts(
             const key = `${chronological.first.item.id}:${chronological.second.item.id}:timezone`;
             if (!seen.has(key)) {
               seen.add(key);
+              const offsetDifferenceHours = (toOffset - fromOffset) / 60;
+              const shift = `${offsetDifferenceHours > 0 ? "+" : ""}${offsetDifferenceHours}h`;
               conflicts.push({
                 id: key,
                 items: [chronological.first.item, chronological.second.item],
                 severity: "warning",
-                message: `Timezone change from ${fromTz} to ${toTz} with only ${Math.floor(travelGapHours)}hr gap - verify timing`,
+                message: `Timezone change from ${fromTz} to ${toTz} (${shift}) with only ${Math.floor(travelGapHours)}hr gap - verify timing`,
                 type: "timezone_jump",
+                metadata: {
+                  fromTimezone: fromTz,
+                  toTimezone: toTz,
+                  offsetDifferenceHours,
+                },
               });
             }
           }
@@ -362,12 +355,15 @@ export function findAvailableSlots(
     // Add travel buffer after this event if needed
     if (considerTravel) {
       const itemCity = item.labels?.city;
-      const itemTerritory = item.labels?.territory || item.territory;
+      const itemTerritoryCode = itemTerritory(item);
 
       // If requesting slot in different city/territory, add travel buffer
       if ((city && itemCity && city.toLowerCase() !== itemCity.toLowerCase()) ||
-          (territory && itemTerritory && territory !== itemTerritory)) {
-        const travelEstimate = estimateTravelTime(itemCity, city, itemTerritory, territory);
+          (territory && itemTerritoryCode && territory !== itemTerritoryCode)) {
+        const travelEstimate = estimateTravelTime(
+          { city: itemCity, territory: itemTerritoryCode },
+          { city, territory }
+        );
         const travelBufferMs = travelEstimate.hours * 60 * 60 * 1000;
         occupiedBlocks.push({
           start: end,
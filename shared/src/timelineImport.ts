@@ -0,0 +1,624 @@
+import { findGazetteerCity, getUtcOffsetMinutes, resolveLocation } from "./gazetteer";
+import { detectTimelineConflicts, type TimelineConflict } from "./timelineConflicts";
+import {
+  getTimelineLaneForType,
+  normaliseTimelineItemStatus,
+  normaliseTimelineItemType,
+  type TimelineDependencyRecord,
+  type TimelineItemRecord,
+  type TimelineItemStatus,
+  type TimelineItemType,
+} from "./types";
+
+export type TimelineImportFormat = "csv" | "xlsx" | "ics";
+
+export type TimelineImportField =
+  | "title"
+  | "type"
+  | "startDate"
+  | "startTime"
+  | "endDate"
+  | "endTime"
+  | "city"
+  | "venue"
+  | "territory"
+  | "status"
+  | "description"
+  | "timezone"
+  | "externalId";
+
+/** Maps each field to the source column it is read from. */
+export type TimelineImportMapping = Partial<Record<TimelineImportField, string>>;
+
+export type TimelineImportRow = Record<string, string>;
+
+export interface TimelineImportTable {
+  format: TimelineImportFormat;
+  columns: string[];
+  rows: TimelineImportRow[];
+}
+
+export interface TimelineImportOptions {
+  /** Forces every row into one zone; otherwise the city's zone is used. */
+  timezone?: string | null;
+  defaultType?: TimelineItemType;
+  /** Used when a row has a date but no time, as `HH:MM`. */
+  defaultStartTime?: string;
+  defaultDurationHours?: number;
+  /** Reads `03/04/2025` as 3 April. Agents' sheets are mostly day-first. */
+  dayFirst?: boolean;
+}
+
+export type TimelineImportAction = "create" | "update" | "unchanged" | "invalid";
+
+export interface TimelineImportCandidate {
+  rowIndex: number;
+  importKey: string | null;
+  item: TimelineItemRecord | null;
+  errors: string[];
+}
+
+export interface TimelineImportPreviewRow extends TimelineImportCandidate {
+  action: TimelineImportAction;
+  matchedItemId: string | null;
+  matchedBy: "import_key" | "date_and_place" | null;
+  conflicts: TimelineConflict[];
+}
+
+export interface TimelineImportPreview {
+  rows: TimelineImportPreviewRow[];
+  conflicts: TimelineConflict[];
+  summary: Record<TimelineImportAction, number>;
+}
+
+export const TIMELINE_IMPORT_FIELDS: Array<{ field: TimelineImportField; label: string; required?: boolean }> = [
+  { field: "startDate", label: "Date", required: true },
+  { field: "title", label: "Title" },
+  { field: "type", label: "Type" },
+  { field: "startTime", label: "Start time" },
+  { field: "endDate", label: "End date" },
+  { field: "endTime", label: "End time" },
+  { field: "city", label: "City" },
+  { field: "venue", label: "Venue" },
+  { field: "territory", label: "Territory" },
+  { field: "status", label: "Status" },
+  { field: "description", label: "Notes" },
+  { field: "timezone", label: "Timezone" },
+  { field: "externalId", label: "Reference / ID" },
+];
+
+const FIELD_SYNONYMS: Record<TimelineImportField, string[]> = {
+  title: ["title", "name", "event", "summary", "show", "description of event"],
+  type: ["type", "category", "kind", "item type"],
+  startDate: ["date", "start date", "show date", "day", "start", "dtstart"],
+  startTime: ["time", "start time", "doors", "set time", "stage time"],
+  endDate: ["end date", "end", "dtend"],
+  endTime: ["end time", "curfew", "finish"],
+  city: ["city", "town", "location", "market"],
+  venue: ["venue", "venue name", "club", "festival"],
+  territory: ["territory", "country", "country code", "region"],
+  status: ["status", "confirmation", "hold", "state"],
+  description: ["notes", "note", "comments", "details", "description"],
+  timezone: ["timezone", "time zone", "tz", "tzid"],
+  externalId: ["id", "ref", "reference", "booking id", "show id", "uid"],
+};
+
+const TYPE_SYNONYMS: Record<string, TimelineItemType> = {
+  show: "LIVE_HOLD",
+  gig: "LIVE_HOLD",
+  concert: "LIVE_HOLD",
+  festival: "LIVE_HOLD",
+  headline: "LIVE_HOLD",
+  support: "LIVE_HOLD",
+  flight: "TRAVEL_SEGMENT",
+  train: "TRAVEL_SEGMENT",
+  drive: "TRAVEL_SEGMENT",
+  ferry: "TRAVEL_SEGMENT",
+  "travel day": "TRAVEL_SEGMENT",
+  interview: "PROMO_SLOT",
+  session: "PROMO_SLOT",
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Rows read from one import file; longer files are cut off. */
+export const MAX_TIMELINE_IMPORT_ROWS = 1000;
+
+function normaliseHeader(value: string): string {
+  return value.toLowerCase().replace(/[_\-.]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function normaliseKeyPart(value: string | null | undefined): string {
+  return (value ?? "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Splits delimited text into rows. Handles quoted fields with embedded
+ * delimiters, quotes and newlines, and picks `,`, `;` or tab from the header
+ * line since European spreadsheets often export with semicolons.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+/** Uses the first non-empty row as the header; blank headers become `Column N`. */
+export function tabulateImportRows(matrix: string[][], format: TimelineImportFormat): TimelineImportTable {
+  const [header = [], ...body] = matrix;
+  const columns = header.map((cell, index) => cell.trim() || `Column ${index + 1}`);
+  const rows = body.slice(0, MAX_TIMELINE_IMPORT_ROWS).map((cells) => {
+    const row: TimelineImportRow = {};
+    columns.forEach((column, index) => {
+      row[column] = (cells[index] ?? "").trim();
+    });
+    return row;
+  });
+  return { format, columns, rows };
+}
+
+function unfoldIcs(text: string): string[] {
+  return text.replace(/\r\n[ \t]/g, "").replace(/\n[ \t]/g, "").split(/\r?\n/);
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\n/gi, "\n").replace(/\\([,;\\])/g, "$1");
+}
+
+export const ICS_IMPORT_COLUMNS = ["UID", "SUMMARY", "DTSTART", "DTEND", "TZID", "LOCATION", "STATUS", "DESCRIPTION"];
+
+/**
+ * Flattens `VEVENT`s into rows so ICS files go through the same mapping
+ * step as spreadsheets. Date values keep their ICS form and `TZID`.
+ */
+export function parseIcsEvents(text: string): TimelineImportTable {
+  const rows: TimelineImportRow[] = [];
+  let current: TimelineImportRow | null = null;
+
+  for (const line of unfoldIcs(text)) {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (current) rows.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const [name, ...params] = line.slice(0, separator).split(";");
+    const value = line.slice(separator + 1);
+    const property = name.toUpperCase();
+    if (!ICS_IMPORT_COLUMNS.includes(property)) continue;
+
+    current[property] = property === "DTSTART" || property === "DTEND" ? value : unescapeIcsText(value);
+    const tzid = params.find((param) => param.toUpperCase().startsWith("TZID="));
+    if (tzid && property === "DTSTART") {
+      current.TZID = tzid.slice(5);
+    }
+  }
+
+  return {
+    format: "ics",
+    columns: ICS_IMPORT_COLUMNS,
+    rows: rows.slice(0, MAX_TIMELINE_IMPORT_ROWS).map((row) => {
+      const complete: TimelineImportRow = {};
+      for (const column of ICS_IMPORT_COLUMNS) complete[column] = row[column] ?? "";
+      return complete;
+    }),
+  };
+}
+
+export function suggestImportMapping(columns: string[], format?: TimelineImportFormat): TimelineImportMapping {
+  if (format === "ics") {
+    return {
+      externalId: "UID",
+      title: "SUMMARY",
+      startDate: "DTSTART",
+      endDate: "DTEND",
+      timezone: "TZID",
+      city: "LOCATION",
+      status: "STATUS",
+      description: "DESCRIPTION",
+    };
+  }
+
+  const mapping: TimelineImportMapping = {};
+  const used = new Set<string>();
+  for (const { field } of TIMELINE_IMPORT_FIELDS) {
+    const match = columns.find(
+      (column) => !used.has(column) && FIELD_SYNONYMS[field].includes(normaliseHeader(column))
+    );
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  }
+  return mapping;
+}
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour?: number;
+  minute?: number;
+  /** Set when the value already carried its own offset. */
+  instant?: number;
+}
+
+function parseImportDate(value: string, dayFirst: boolean): DateParts | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const ics = trimmed.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (ics) {
+    const [, year, month, day, hour, minute, , utc] = ics;
+    const parts: DateParts = { year: +year, month: +month, day: +day };
+    if (hour) {
+      parts.hour = +hour;
+      parts.minute = +minute;
+      if (utc) parts.instant = Date.UTC(+year, +month - 1, +day, +hour, +minute);
+    }
+    return parts;
+  }
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2}))?/);
+  if (iso) {
+    const [, year, month, day, hour, minute] = iso;
+    const parts: DateParts = { year: +year, month: +month, day: +day };
+    if (hour) {
+      parts.hour = +hour;
+      parts.minute = +minute;
+      if (/(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+        const instant = Date.parse(trimmed);
+        if (!Number.isNaN(instant)) parts.instant = instant;
+      }
+    }
+    return parts;
+  }
+
+  const numeric = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (numeric) {
+    const [first, second] = dayFirst ? [+numeric[1], +numeric[2]] : [+numeric[2], +numeric[1]];
+    const year = numeric[3].length === 2 ? 2000 + +numeric[3] : +numeric[3];
+    return { year, month: second, day: first };
+  }
+
+  // Spreadsheet cells that were dates arrive as day serials.
+  if (/^\d{5}(\.\d+)?$/.test(trimmed)) {
+    const serial = Number(trimmed);
+    const date = new Date(EXCEL_EPOCH_MS + Math.floor(serial) * DAY_MS);
+    const fraction = serial - Math.floor(serial);
+    const parts: DateParts = { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+    if (fraction > 0) {
+      const minutes = Math.round(fraction * 24 * 60);
+      parts.hour = Math.floor(minutes / 60);
+      parts.minute = minutes % 60;
+    }
+    return parts;
+  }
+
+  const words = trimmed.toLowerCase().replace(/,/g, " ").split(/\s+/).filter(Boolean);
+  const monthIndex = words.findIndex((word) => MONTHS.includes(word.slice(0, 3)));
+  const day = words.find((word) => /^\d{1,2}(st|nd|rd|th)?$/.test(word));
+  const year = words.find((word) => /^\d{4}$/.test(word));
+  if (monthIndex >= 0 && day && year) {
+    return { year: +year, month: MONTHS.indexOf(words[monthIndex].slice(0, 3)) + 1, day: parseInt(day, 10) };
+  }
+
+  return null;
+}
+
+function parseImportTime(value: string | undefined): { hour: number; minute: number } | null {
+  const trimmed = value?.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  if (/^0?\.\d+$/.test(trimmed)) {
+    const minutes = Math.round(Number(trimmed) * 24 * 60);
+    return { hour: Math.floor(minutes / 60) % 24, minute: minutes % 60 };
+  }
+
+  const match = trimmed.match(/^(\d{1,2})(?:[:.h](\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  if (match[3] === "pm" && hour < 12) hour += 12;
+  if (match[3] === "am" && hour === 12) hour = 0;
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+}
+
+/** Wall-clock time in `timezone` to an instant, re-reading the offset for DST. */
+function wallTimeToInstant(parts: DateParts & { hour: number; minute: number }, timezone: string): number {
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  let instant = wall;
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    instant = wall - (getUtcOffsetMinutes(timezone, instant) ?? 0) * 60 * 1000;
+  }
+  return instant;
+}
+
+function resolveImportType(value: string | undefined, fallback: TimelineItemType): TimelineItemType {
+  const trimmed = value?.trim().toLowerCase();
+  if (!trimmed) return fallback;
+  return TYPE_SYNONYMS[trimmed] ?? normaliseTimelineItemType(trimmed);
+}
+
+function resolveImportStatus(value: string | undefined): TimelineItemStatus {
+  const trimmed = value?.trim().toLowerCase() ?? "";
+  if (/^(hold|pencil|option|1st hold|2nd hold)/.test(trimmed)) return "tentative";
+  if (/^(contracted|signed|booked)/.test(trimmed)) return "confirmed";
+  return normaliseTimelineItemStatus(trimmed);
+}
+
+/**
+ * Location cells often hold "Venue, City, Country". The first part the
+ * gazetteer knows is taken as the city and anything before it as the venue.
+ */
+function splitLocation(value: string): { city: string | null; venue: string | null } {
+  const parts = value.split(",").map((part) => part.trim()).filter(Boolean);
+  if (parts.length <= 1) return { city: parts[0] ?? null, venue: null };
+  const cityIndex = parts.findIndex((part) => findGazetteerCity(part));
+  if (cityIndex < 0) return { city: parts[0], venue: null };
+  return { city: parts[cityIndex], venue: cityIndex > 0 ? parts.slice(0, cityIndex).join(", ") : null };
+}
+
+function formatDateKey(parts: DateParts): string {
+  return `${parts.year}-${String(parts.month).padStart(2, "0")}-${String(parts.day).padStart(2, "0")}`;
+}
+
+/**
+ * Turns mapped rows into draft timeline items. Rows without a usable date
+ * keep their errors and a null item so the preview can explain them.
+ */
+export function buildTimelineImportCandidates(
+  rows: TimelineImportRow[],
+  mapping: TimelineImportMapping,
+  projectId: string,
+  options: TimelineImportOptions = {}
+): TimelineImportCandidate[] {
+  const dayFirst = options.dayFirst !== false;
+  const defaultTime = parseImportTime(options.defaultStartTime ?? "20:00") ?? { hour: 20, minute: 0 };
+  const durationMs = Math.max(options.defaultDurationHours ?? 3, 0.5) * 60 * 60 * 1000;
+  const read = (row: TimelineImportRow, field: TimelineImportField) =>
+    mapping[field] ? (row[mapping[field] as string] ?? "").trim() : "";
+
+  return rows.map((row, rowIndex) => {
+    const errors: string[] = [];
+    const startDate = parseImportDate(read(row, "startDate"), dayFirst);
+    if (!startDate) {
+      errors.push(read(row, "startDate") ? `Unrecognised date "${read(row, "startDate")}"` : "Missing date");
+      return { rowIndex, importKey: null, item: null, errors };
+    }
+
+    const type = resolveImportType(read(row, "type"), options.defaultType ?? "LIVE_HOLD");
+    const location = splitLocation(read(row, "city"));
+    const city = location.city;
+    const venue = read(row, "venue") || location.venue;
+    const territory = read(row, "territory").toUpperCase() || null;
+    const timezone =
+      options.timezone || read(row, "timezone") || resolveLocation(city, territory).city?.timezone || "UTC";
+
+    const startTime = parseImportTime(read(row, "startTime"));
+    if (read(row, "startTime") && !startTime) {
+      errors.push(`Unrecognised time "${read(row, "startTime")}", using the default`);
+    }
+    const startClock = startTime ?? (startDate.hour != null ? { hour: startDate.hour, minute: startDate.minute ?? 0 } : defaultTime);
+    const startMs = startDate.instant ?? wallTimeToInstant({ ...startDate, ...startClock }, timezone);
+
+    let endMs = startMs + durationMs;
+    const endDate = parseImportDate(read(row, "endDate"), dayFirst);
+    const endTime = parseImportTime(read(row, "endTime"));
+    if (endDate?.instant != null) {
+      endMs = endDate.instant;
+    } else if (endDate || endTime) {
+      const endParts = endDate ?? startDate;
+      const endClock = endTime ?? (endDate?.hour != null ? { hour: endDate.hour, minute: endDate.minute ?? 0 } : startClock);
+      endMs = wallTimeToInstant({ ...endParts, ...endClock }, timezone);
+      // A finish time after midnight belongs to the next day.
+      if (!endDate && endMs <= startMs) endMs += DAY_MS;
+    }
+    if (endMs <= startMs) {
+      errors.push("End is before start, using the default duration");
+      endMs = startMs + durationMs;
+    }
+
+    const externalId = read(row, "externalId");
+    const dateKey = formatDateKey(startDate);
+    const title = read(row, "title") || [venue, city].filter(Boolean).join(", ") || `${type.replace(/_/g, " ").toLowerCase()} ${dateKey}`;
+    const importKey = externalId
+      ? `id:${externalId}`
+      : `row:${dateKey}|${normaliseKeyPart(venue ?? city ?? title)}`;
+
+    const labels: TimelineItemRecord["labels"] = { lane: getTimelineLaneForType(type) };
+    if (city) labels.city = city;
+    if (venue) labels.venue = venue;
+    if (territory) labels.territory = territory;
+
+    const now = new Date().toISOString();
+    const item: TimelineItemRecord = {
+      id: `import-row-${rowIndex}`,
+      projectId,
+      type,
+      lane: getTimelineLaneForType(type),
+      kind: "import",
+      title,
+      description: read(row, "description") || null,
+      startsAt: new Date(startMs).toISOString(),
+      endsAt: new Date(endMs).toISOString(),
+      dueAt: null,
+      timezone,
+      status: resolveImportStatus(read(row, "status")),
+      priorityScore: null,
+      priorityComponents: null,
+      labels,
+      links: { importKey },
+      createdBy: null,
+      createdAt: now,
+      updatedAt: now,
+      territory,
+    };
+
+    return { rowIndex, importKey, item, errors };
+  });
+}
+
+function localDateKey(iso: string | null, timezone: string | null): string | null {
+  if (!iso) return null;
+  try {
+    return new Intl.DateTimeFormat("en-CA", { timeZone: timezone || "UTC", year: "numeric", month: "2-digit", day: "2-digit" }).format(
+      new Date(iso)
+    );
+  } catch (err) {
+    return iso.slice(0, 10);
+  }
+}
+
+function findExistingMatch(
+  item: TimelineItemRecord,
+  importKey: string,
+  existing: TimelineItemRecord[]
+): { match: TimelineItemRecord; matchedBy: "import_key" | "date_and_place" } | null {
+  const byKey = existing.find((candidate) => candidate.links?.importKey === importKey);
+  if (byKey) return { match: byKey, matchedBy: "import_key" };
+
+  const day = localDateKey(item.startsAt, item.timezone);
+  const place = normaliseKeyPart(item.labels.venue ?? item.labels.city ?? null);
+  const title = normaliseKeyPart(item.title);
+  const byPlace = existing.find((candidate) => {
+    if (candidate.type !== item.type) return false;
+    if (localDateKey(candidate.startsAt ?? candidate.dueAt, candidate.timezone ?? item.timezone) !== day) return false;
+    const candidatePlace = normaliseKeyPart(candidate.labels?.venue ?? candidate.labels?.city ?? null);
+    return (place.length > 0 && candidatePlace === place) || normaliseKeyPart(candidate.title) === title;
+  });
+  return byPlace ? { match: byPlace, matchedBy: "date_and_place" } : null;
+}
+
+function isUnchanged(existing: TimelineItemRecord, next: TimelineItemRecord): boolean {
+  const sameInstant = (a: string | null, b: string | null) => (a ? Date.parse(a) : null) === (b ? Date.parse(b) : null);
+  return (
+    existing.title === next.title &&
+    existing.type === next.type &&
+    existing.status === next.status &&
+    sameInstant(existing.startsAt, next.startsAt) &&
+    sameInstant(existing.endsAt, next.endsAt) &&
+    (existing.labels?.city ?? null) === (next.labels.city ?? null) &&
+    (existing.labels?.venue ?? null) === (next.labels.venue ?? null) &&
+    (existing.labels?.territory ?? null) === (next.labels.territory ?? null)
+  );
+}
+
+/**
+ * Works out what an import would do before anything is written: which rows
+ * create items, which update an existing item (matched by the import key of
+ * an earlier import, then by same day, type and place) and which conflicts
+ * `detectTimelineConflicts` would raise once the rows are on the timeline.
+ */
+export function planTimelineImport(
+  candidates: TimelineImportCandidate[],
+  existingItems: TimelineItemRecord[],
+  options: { dependencies?: TimelineDependencyRecord[] } = {}
+): TimelineImportPreview {
+  const seenKeys = new Map<string, number>();
+  const claimed = new Set<string>();
+
+  const rows: TimelineImportPreviewRow[] = candidates.map((candidate) => {
+    const base = { ...candidate, matchedItemId: null, matchedBy: null, conflicts: [] as TimelineConflict[] };
+    if (!candidate.item || !candidate.importKey) {
+      return { ...base, action: "invalid" as const };
+    }
+
+    const earlier = seenKeys.get(candidate.importKey);
+    if (earlier != null) {
+      return { ...base, action: "invalid" as const, errors: [...candidate.errors, `Duplicate of row ${earlier + 1}`] };
+    }
+    seenKeys.set(candidate.importKey, candidate.rowIndex);
+
+    const found = findExistingMatch(
+      candidate.item,
+      candidate.importKey,
+      existingItems.filter((item) => !claimed.has(item.id))
+    );
+    if (!found) {
+      return { ...base, action: "create" as const };
+    }
+
+    claimed.add(found.match.id);
+    return {
+      ...base,
+      item: { ...candidate.item, id: found.match.id },
+      action: isUnchanged(found.match, candidate.item) ? ("unchanged" as const) : ("update" as const),
+      matchedItemId: found.match.id,
+      matchedBy: found.matchedBy,
+    };
+  });
+
+  const importedItems = rows
+    .filter((row) => row.action === "create" || row.action === "update" || row.action === "unchanged")
+    .map((row) => row.item as TimelineItemRecord);
+  const importedIds = new Set(importedItems.map((item) => item.id));
+  const merged = [...existingItems.filter((item) => !importedIds.has(item.id)), ...importedItems];
+
+  const conflicts = detectTimelineConflicts(merged, { dependencies: options.dependencies }).filter((conflict) =>
+    conflict.items.some((item) => importedIds.has(item.id))
+  );
+  for (const row of rows) {
+    if (row.item && importedIds.has(row.item.id)) {
+      row.conflicts = conflicts.filter((conflict) => conflict.items.some((item) => item.id === row.item?.id));
+    }
+  }
+
+  const summary: Record<TimelineImportAction, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 };
+  for (const row of rows) summary[row.action] += 1;
+
+  return { rows, conflicts, summary };
+}
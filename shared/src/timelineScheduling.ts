@@ -0,0 +1,272 @@
+import type { TimelineConflict } from "./timelineConflicts";
+import type { TimelineDependencyRecord, TimelineItemRecord } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ScheduleItemMetrics {
+  itemId: string;
+  earliestStart: string;
+  earliestFinish: string;
+  latestStart: string;
+  latestFinish: string;
+  slackHours: number;
+  critical: boolean;
+}
+
+export interface CriticalPathResult {
+  metrics: Record<string, ScheduleItemMetrics>;
+  /** Critical items in start order. */
+  criticalPath: string[];
+  projectFinish: string | null;
+  /** Items left out because their dependencies form a cycle. */
+  cyclicItemIds: string[];
+}
+
+export interface DependencyShift {
+  itemId: string;
+  title: string;
+  deltaMs: number;
+  from: Pick<TimelineItemRecord, "startsAt" | "endsAt" | "dueAt">;
+  to: Pick<TimelineItemRecord, "startsAt" | "endsAt" | "dueAt">;
+}
+
+interface ItemWindow {
+  start: number;
+  end: number;
+}
+
+function toTimestamp(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/** Undated items have no place in the schedule and are skipped. */
+function toWindow(item: TimelineItemRecord): ItemWindow | null {
+  const start = toTimestamp(item.startsAt) ?? toTimestamp(item.dueAt);
+  if (start == null) return null;
+  const end = toTimestamp(item.endsAt);
+  return { start, end: end != null && end > start ? end : start };
+}
+
+function isActiveItem(item: TimelineItemRecord): boolean {
+  return item.status !== "canceled";
+}
+
+/** Earliest start a successor may have given one of its predecessors. */
+function requiredStart(dependency: TimelineDependencyRecord, predecessor: ItemWindow): number {
+  return dependency.kind === "SS" ? predecessor.start : predecessor.end;
+}
+
+function buildGraph(items: TimelineItemRecord[], dependencies: TimelineDependencyRecord[]) {
+  const windows = new Map<string, ItemWindow>();
+  for (const item of items) {
+    if (!isActiveItem(item)) continue;
+    const window = toWindow(item);
+    if (window) windows.set(item.id, window);
+  }
+
+  const incoming = new Map<string, TimelineDependencyRecord[]>();
+  const outgoing = new Map<string, TimelineDependencyRecord[]>();
+  for (const dependency of dependencies) {
+    if (!windows.has(dependency.fromItemId) || !windows.has(dependency.toItemId)) continue;
+    if (dependency.fromItemId === dependency.toItemId) continue;
+    incoming.set(dependency.toItemId, [...(incoming.get(dependency.toItemId) ?? []), dependency]);
+    outgoing.set(dependency.fromItemId, [...(outgoing.get(dependency.fromItemId) ?? []), dependency]);
+  }
+
+  // Kahn's algorithm; whatever is left unvisited sits on a cycle.
+  const remaining = new Map<string, number>();
+  for (const id of windows.keys()) {
+    remaining.set(id, incoming.get(id)?.length ?? 0);
+  }
+  const queue = Array.from(remaining.entries())
+    .filter(([, count]) => count === 0)
+    .map(([id]) => id)
+    .sort((a, b) => windows.get(a)!.start - windows.get(b)!.start);
+  const order: string[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const dependency of outgoing.get(id) ?? []) {
+      const next = (remaining.get(dependency.toItemId) ?? 0) - 1;
+      remaining.set(dependency.toItemId, next);
+      if (next === 0) queue.push(dependency.toItemId);
+    }
+  }
+
+  const ordered = new Set(order);
+  const cyclic = Array.from(windows.keys()).filter((id) => !ordered.has(id));
+  return { windows, incoming, outgoing, order, cyclic };
+}
+
+/**
+ * Critical path over the scheduled items. Booked dates count as the earliest
+ * an item can happen, so slack (total float) is how far an item can slip,
+ * dragging its dependents along, before the project's last item has to move.
+ */
+export function computeCriticalPath(
+  items: TimelineItemRecord[],
+  dependencies: TimelineDependencyRecord[]
+): CriticalPathResult {
+  const { windows, incoming, outgoing, order, cyclic } = buildGraph(items, dependencies);
+  if (order.length === 0) {
+    return { metrics: {}, criticalPath: [], projectFinish: null, cyclicItemIds: cyclic };
+  }
+
+  const earliest = new Map<string, ItemWindow>();
+  for (const id of order) {
+    const window = windows.get(id)!;
+    const duration = window.end - window.start;
+    let start = window.start;
+    for (const dependency of incoming.get(id) ?? []) {
+      const predecessor = earliest.get(dependency.fromItemId);
+      if (predecessor) start = Math.max(start, requiredStart(dependency, predecessor));
+    }
+    earliest.set(id, { start, end: start + duration });
+  }
+
+  const projectFinish = Math.max(...Array.from(earliest.values()).map((window) => window.end));
+
+  const latest = new Map<string, ItemWindow>();
+  for (const id of [...order].reverse()) {
+    const duration = windows.get(id)!.end - windows.get(id)!.start;
+    let finish = projectFinish;
+    for (const dependency of outgoing.get(id) ?? []) {
+      const successor = latest.get(dependency.toItemId);
+      if (!successor) continue;
+      finish = Math.min(finish, dependency.kind === "SS" ? successor.start + duration : successor.start);
+    }
+    latest.set(id, { start: finish - duration, end: finish });
+  }
+
+  const metrics: Record<string, ScheduleItemMetrics> = {};
+  for (const id of order) {
+    const early = earliest.get(id)!;
+    const late = latest.get(id)!;
+    const slackMs = Math.max(0, late.start - early.start);
+    metrics[id] = {
+      itemId: id,
+      earliestStart: new Date(early.start).toISOString(),
+      earliestFinish: new Date(early.end).toISOString(),
+      latestStart: new Date(late.start).toISOString(),
+      latestFinish: new Date(late.end).toISOString(),
+      slackHours: Math.round((slackMs / HOUR_MS) * 10) / 10,
+      critical: slackMs === 0,
+    };
+  }
+
+  const criticalPath = order
+    .filter((id) => metrics[id].critical)
+    .sort((a, b) => earliest.get(a)!.start - earliest.get(b)!.start);
+
+  return {
+    metrics,
+    criticalPath,
+    projectFinish: new Date(projectFinish).toISOString(),
+    cyclicItemIds: cyclic,
+  };
+}
+
+/**
+ * Flags successors booked before their predecessor allows: before it
+ * finishes for `FS`, before it starts for `SS`.
+ */
+export function detectDependencyViolations(
+  items: TimelineItemRecord[],
+  dependencies: TimelineDependencyRecord[]
+): TimelineConflict[] {
+  const lookup = new Map(items.map((item) => [item.id, item]));
+  const conflicts: TimelineConflict[] = [];
+
+  for (const dependency of dependencies) {
+    const predecessor = lookup.get(dependency.fromItemId);
+    const successor = lookup.get(dependency.toItemId);
+    if (!predecessor || !successor || !isActiveItem(predecessor) || !isActiveItem(successor)) continue;
+
+    const from = toWindow(predecessor);
+    const to = toWindow(successor);
+    if (!from || !to) continue;
+
+    const required = requiredStart(dependency, from);
+    if (to.start >= required) continue;
+
+    const overlapHours = Math.round(((required - to.start) / HOUR_MS) * 10) / 10;
+    conflicts.push({
+      id: `${predecessor.id}:${successor.id}:dependency`,
+      items: [predecessor, successor],
+      severity: "error",
+      message:
+        dependency.kind === "SS"
+          ? `${successor.title} starts ${overlapHours}h before ${predecessor.title} starts`
+          : `${successor.title} starts ${overlapHours}h before ${predecessor.title} finishes`,
+      type: "dependency_violation",
+    });
+  }
+
+  return conflicts;
+}
+
+function shiftTimestamp(value: string | null, deltaMs: number): string | null {
+  const ms = toTimestamp(value);
+  return ms == null ? value : new Date(ms + deltaMs).toISOString();
+}
+
+/**
+ * Works out how dependent items must move after `movedItemId` was
+ * rescheduled. `items` should already contain the moved item at its new
+ * dates. Successors are only pushed later, by the smallest amount that
+ * satisfies every predecessor, and keep their duration.
+ */
+export function planDependencyCascade(
+  items: TimelineItemRecord[],
+  dependencies: TimelineDependencyRecord[],
+  movedItemId: string
+): DependencyShift[] {
+  const { windows, incoming, outgoing, cyclic } = buildGraph(items, dependencies);
+  if (!windows.has(movedItemId)) return [];
+
+  const lookup = new Map(items.map((item) => [item.id, item]));
+  const cyclicIds = new Set(cyclic);
+  const current = new Map(windows);
+  const shifts = new Map<string, number>();
+  const queue = [movedItemId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const dependency of outgoing.get(id) ?? []) {
+      const successorId = dependency.toItemId;
+      if (successorId === movedItemId || cyclicIds.has(successorId)) continue;
+
+      const window = current.get(successorId)!;
+      let required = window.start;
+      for (const constraint of incoming.get(successorId) ?? []) {
+        const predecessor = current.get(constraint.fromItemId);
+        if (predecessor) required = Math.max(required, requiredStart(constraint, predecessor));
+      }
+      if (required <= window.start) continue;
+
+      const delta = required - window.start;
+      current.set(successorId, { start: window.start + delta, end: window.end + delta });
+      shifts.set(successorId, (shifts.get(successorId) ?? 0) + delta);
+      queue.push(successorId);
+    }
+  }
+
+  return Array.from(shifts.entries())
+    .map(([itemId, deltaMs]) => {
+      const item = lookup.get(itemId)!;
+      return {
+        itemId,
+        title: item.title,
+        deltaMs,
+        from: { startsAt: item.startsAt, endsAt: item.endsAt, dueAt: item.dueAt },
+        to: {
+          startsAt: shiftTimestamp(item.startsAt, deltaMs),
+          endsAt: shiftTimestamp(item.endsAt, deltaMs),
+          dueAt: shiftTimestamp(item.dueAt, deltaMs),
+        },
+      } satisfies DependencyShift;
+    })
+    .sort((a, b) => (toTimestamp(a.to.startsAt ?? a.to.dueAt) ?? 0) - (toTimestamp(b.to.startsAt ?? b.to.dueAt) ?? 0));
+}
@@ -0,0 +1,130 @@
+import { greatCircleDistanceKm, resolveLocation, type GazetteerCity, type ResolvedLocation } from "./gazetteer";
+
+export type TravelMode = "local" | "drive" | "rail" | "short_haul_flight" | "long_haul_flight" | "unknown";
+
+export interface TravelTimeEstimate {
+  hours: number;
+  mode: TravelMode;
+  distanceKm: number | null;
+  description: string;
+  /** True when either end only resolved through its territory. */
+  approximate: boolean;
+}
+
+interface TravelLocationInput {
+  city?: string | null;
+  territory?: string | null;
+}
+
+const LOCAL_RADIUS_KM = 25;
+const LOCAL_HOURS = 1;
+const UNKNOWN_HOURS = 8;
+
+// Road and track distances are longer than the great circle.
+const DRIVE = { detourFactor: 1.25, speedKmh: 85, overheadHours: 0.5, maxKm: 1000 };
+const RAIL = { detourFactor: 1.2, speedKmh: 160, overheadHours: 0.75, maxKm: 900 };
+// Overhead covers getting to the airport, check-in, security and the
+// transfer at the other end.
+const SHORT_HAUL = { speedKmh: 700, overheadHours: 3, minKm: 300, maxKm: 1500 };
+const LONG_HAUL = { speedKmh: 850, overheadHours: 4 };
+
+/** Countries that share a land mass, so driving between them is possible. */
+const LAND_GROUPS: string[][] = [
+  ["FR", "DE", "NL", "BE", "LU", "CH", "AT", "ES", "PT", "IT", "DK", "SE", "NO", "FI", "PL", "CZ", "HU", "SK", "SI", "HR", "RS", "RO", "BG", "GR", "TR", "EE", "LV", "LT"],
+  // Northern Ireland is GB, so the island of Ireland spans both codes.
+  ["IE", "GB"],
+  ["US", "CA", "MX"],
+  ["BR", "AR", "CL", "CO", "PE"],
+  ["TH", "MY", "SG", "VN"],
+];
+
+/** Connected passenger rail networks fast enough to compete with flying. */
+const RAIL_GROUPS: string[][] = [
+  ["GB", "FR", "BE", "NL", "DE", "LU", "CH", "AT", "IT", "ES", "DK", "SE", "NO", "CZ", "PL", "HU", "SK", "SI"],
+  ["JP"],
+  ["KR"],
+  ["CN", "HK"],
+];
+
+const MODE_LABELS: Record<TravelMode, string> = {
+  local: "Same city",
+  drive: "Drive",
+  rail: "Rail",
+  short_haul_flight: "Short-haul flight",
+  long_haul_flight: "Long-haul flight",
+  unknown: "Unknown route",
+};
+
+function sharesGroup(groups: string[][], a: string, b: string): boolean {
+  return a === b || groups.some((group) => group.includes(a) && group.includes(b));
+}
+
+function roundToHalfHour(hours: number): number {
+  return Math.ceil(hours * 2) / 2;
+}
+
+export function estimateTravelBetweenCities(from: GazetteerCity, to: GazetteerCity): TravelTimeEstimate {
+  const distanceKm = Math.round(greatCircleDistanceKm(from, to));
+  if (distanceKm < LOCAL_RADIUS_KM) {
+    return { hours: LOCAL_HOURS, mode: "local", distanceKm, description: MODE_LABELS.local, approximate: false };
+  }
+
+  const candidates: Array<{ mode: TravelMode; hours: number }> = [];
+  if (distanceKm <= DRIVE.maxKm && sharesGroup(LAND_GROUPS, from.country, to.country)) {
+    candidates.push({ mode: "drive", hours: (distanceKm * DRIVE.detourFactor) / DRIVE.speedKmh + DRIVE.overheadHours });
+  }
+  if (distanceKm <= RAIL.maxKm && sharesGroup(RAIL_GROUPS, from.country, to.country)) {
+    candidates.push({ mode: "rail", hours: (distanceKm * RAIL.detourFactor) / RAIL.speedKmh + RAIL.overheadHours });
+  }
+  if (distanceKm <= SHORT_HAUL.maxKm) {
+    // Below the minimum there is rarely a scheduled flight, but crossing
+    // water still needs one when nothing else is possible.
+    if (distanceKm >= SHORT_HAUL.minKm || candidates.length === 0) {
+      candidates.push({ mode: "short_haul_flight", hours: distanceKm / SHORT_HAUL.speedKmh + SHORT_HAUL.overheadHours });
+    }
+  } else {
+    candidates.push({ mode: "long_haul_flight", hours: distanceKm / LONG_HAUL.speedKmh + LONG_HAUL.overheadHours });
+  }
+
+  const best = candidates.reduce((fastest, candidate) => (candidate.hours < fastest.hours ? candidate : fastest));
+  return {
+    hours: roundToHalfHour(best.hours),
+    mode: best.mode,
+    distanceKm,
+    description: `${MODE_LABELS[best.mode]} ${from.name} → ${to.name}`,
+    approximate: false,
+  };
+}
+
+/**
+ * Travel time between two labelled locations. Both ends are resolved
+ * against the gazetteer; when either cannot be placed at all the old
+ * conservative default is used.
+ */
+export function estimateTravelTime(
+  from: TravelLocationInput,
+  to: TravelLocationInput,
+  resolved?: { from?: ResolvedLocation; to?: ResolvedLocation }
+): TravelTimeEstimate {
+  const fromCity = from.city?.trim().toLowerCase();
+  const toCity = to.city?.trim().toLowerCase();
+  if (fromCity && toCity && fromCity === toCity) {
+    return { hours: LOCAL_HOURS, mode: "local", distanceKm: 0, description: MODE_LABELS.local, approximate: false };
+  }
+
+  const fromLocation = resolved?.from ?? resolveLocation(from.city, from.territory);
+  const toLocation = resolved?.to ?? resolveLocation(to.city, to.territory);
+  if (!fromLocation.city || !toLocation.city) {
+    return { hours: UNKNOWN_HOURS, mode: "unknown", distanceKm: null, description: MODE_LABELS.unknown, approximate: true };
+  }
+
+  const estimate = estimateTravelBetweenCities(fromLocation.city, toLocation.city);
+  return {
+    ...estimate,
+    approximate: fromLocation.matchedBy !== "city" || toLocation.matchedBy !== "city",
+  };
+}
+
+export function describeTravelMode(mode: TravelMode): string {
+  return MODE_LABELS[mode];
+}
@@ -345,13 +345,14 @@ export interface PriorityPresetScheduleEntry {
 export interface PrioritySchedulingConfig {
   timezone: string;
   entries: PriorityPresetScheduleEntry[];
-  lastEvaluatedAt?: string | null;
+  activeEntryId?: string | null;
+  activePresetSlug?: string | null;
 }
 
 /**
  * A simple shape representing an email stored in the database. It contains
- * minimal information used by the frontend and worker. Additional fields
- * can be added as needed (e.g. messageId, threadId, snippet, etc.).
+ * minimal information used by the frontend and worker. Gmail messages also
+ * carry their thread id and RFC 5322 threading headers.
  */
 export type EmailTriageState = "unassigned" | "acknowledged" | "snoozed" | "resolved";
 
@@ -376,6 +377,15 @@ export interface EmailRecord {
   linkedProjects?: EmailProjectContext[] | null;
   hasAttachments?: boolean | null;
   attachmentCount?: number | null;
+  threadId?: string | null;
+  messageId?: string | null;
+  inReplyTo?: string | null;
+  references?: string[] | null;
+  /** Connected Gmail account the message was received in. */
+  accountId?: string | null;
+  accountEmail?: string | null;
+  /** Classification prompt version that produced the summary and labels. */
+  classificationPromptVersion?: number | null;
 }
 
 export interface EmailProjectContext {
@@ -393,11 +403,46 @@ export interface EmailProjectContext {
 /**
  * Definition of a contact record persisted in the Supabase database.
  */
+export type ContactRole = "promoter" | "agent" | "label" | "press" | "venue";
+
+/** Email counts keyed by top-level category, e.g. `{ BOOKING: 4, FINANCE: 1 }`. */
+export type ContactInteractionCounts = Record<string, number>;
+
+export interface OrganisationRecord {
+  id: string;
+  domain: string;
+  name: string;
+  role: ContactRole | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface ContactRecord {
   id: string;
   name: string | null;
   email: string;
-  lastEmailAt: string;
+  lastEmailAt: string | null;
+  organisationId: string | null;
+  organisation: OrganisationRecord | null;
+  role: ContactRole | null;
+  phone: string | null;
+  company: string | null;
+  interactionCounts: ContactInteractionCounts;
+  reliabilityNotes: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export interface ContactDetailRecord extends ContactRecord {
+  linkedProjects: Array<{ id: string; name: string; color: string | null }>;
+  recentEmails: Array<{
+    id: string;
+    subject: string;
+    receivedAt: string;
+    category: EmailLabel;
+    triageState: EmailTriageState;
+  }>;
 }
 
 export type ProjectStatus = "active" | "paused" | "archived";
@@ -416,6 +461,9 @@ export interface ProjectRecord {
   color: string | null;
   labels: Record<string, string | number | boolean | null>;
   priorityProfile: Record<string, unknown> | null;
+  /** Template the project was created from and the version it was at then. */
+  templateId: string | null;
+  templateVersion: number | null;
   createdBy: string | null;
   createdAt: string;
   updatedAt: string;
@@ -517,6 +565,21 @@ export interface CalendarSyncStateRecord {
   updatedAt: string;
 }
 
+export interface GmailSyncStateRecord {
+  id: string;
+  accountId: string;
+  historyId: string | null;
+  lastPolledAt: string | null;
+  lastFullSyncAt: string | null;
+  /** Days covered by the last completed backfill, if any. */
+  backfillDays: number | null;
+  lastError: string | null;
+  /** Messages that failed to ingest and are retried on the next poll. */
+  failedMessageIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface CalendarWatchChannelRecord {
   id: string;
   userSourceId: string;
@@ -617,6 +680,118 @@ export interface OAuthAccountRecord {
   updatedAt: string;
 }
 
+export interface ClassificationPromptSettings {
+  /** Replaces the generated system message when non-empty. */
+  systemMessage: string;
+  /** Extra guidance appended to the per-email instructions. */
+  userInstructions: string;
+  model: string;
+  temperature: number;
+  maxLabels: number;
+}
+
+export interface ClassificationPromptVersionRecord {
+  id: string;
+  version: number;
+  settings: ClassificationPromptSettings;
+  isActive: boolean;
+  createdBy: string | null;
+  /** Set when this version was created by rolling back to an earlier one. */
+  restoredFromVersion: number | null;
+  createdAt: string;
+}
+
+export interface EmailLabelCorrectionRecord {
+  id: string;
+  emailId: string | null;
+  userId: string;
+  originalLabels: EmailLabel[];
+  correctedLabels: EmailLabel[];
+  originalCategory: EmailLabel | null;
+  correctedCategory: EmailLabel | null;
+  classificationPromptVersion: number | null;
+  subject: string | null;
+  summary: string | null;
+  fromEmail: string | null;
+  createdAt: string;
+}
+
+export interface LabelAccuracyStat {
+  label: EmailLabel;
+  /** Classifier applied the label and the user kept it. */
+  truePositives: number;
+  /** Classifier applied the label and the user removed it. */
+  falsePositives: number;
+  /** User added a label the classifier missed. */
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export type BookingDealType = "flat" | "versus" | "door_split";
+
+export type BookingOfferKind = "offer" | "hold";
+
+export type BookingOfferStatus = "extracted" | "edited" | "hold_requested" | "hold_created";
+
+/** An extracted value with the model's confidence (0-1); user edits are stored with confidence 1. */
+export interface BookingOfferField<T> {
+  value: T | null;
+  confidence: number;
+}
+
+export interface BookingOfferFields {
+  promoter: BookingOfferField<string>;
+  venue: BookingOfferField<string>;
+  city: BookingOfferField<string>;
+  /** ISO2 territory code, e.g. GB. */
+  territory: BookingOfferField<string>;
+  /** Show dates as YYYY-MM-DD, earliest first. */
+  showDates: BookingOfferField<string[]>;
+  guarantee: BookingOfferField<number>;
+  /** ISO 4217 currency code. */
+  currency: BookingOfferField<string>;
+  dealType: BookingOfferField<BookingDealType>;
+  radiusClause: BookingOfferField<string>;
+  /** Date the offer lapses, as YYYY-MM-DD. */
+  expiresAt: BookingOfferField<string>;
+}
+
+export interface BookingOfferRecord {
+  id: string;
+  userId: string;
+  emailId: string;
+  projectId: string | null;
+  kind: BookingOfferKind;
+  status: BookingOfferStatus;
+  fields: BookingOfferFields;
+  /** Provider and model that produced the extraction. */
+  extractedBy: string | null;
+  approvalId: string | null;
+  timelineItemId: string | null;
+  editedBy: string | null;
+  editedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type GmailSyncStatus = "pending" | "ok" | "error";
+
+/** A connected Gmail mailbox as shown in settings, without its tokens. */
+export interface GmailAccountSummary {
+  id: string;
+  email: string;
+  displayName: string | null;
+  defaultProjectId: string | null;
+  scopes: string[];
+  expiresAt: string;
+  syncStatus: GmailSyncStatus;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  lastMessageCount: number | null;
+  connectedAt: string;
+}
+
 export type TimelineDependencyKind = "FS" | "SS";
 
 export interface TimelineDependencyRecord {
@@ -710,6 +885,27 @@ export interface TimelineItemRecord {
   territory?: string | null;
 }
 
+export type CalendarFeedScope = "project" | "user";
+
+/**
+ * A token-protected iCalendar subscription. Project feeds cover one project;
+ * user feeds cover every project the owner is a member of, optionally
+ * narrowed to one artist.
+ */
+export interface CalendarFeedRecord {
+  id: string;
+  userId: string;
+  scope: CalendarFeedScope;
+  projectId: string | null;
+  artistId: string | null;
+  name: string;
+  lanes: string[];
+  statuses: TimelineItemStatus[];
+  createdAt: string;
+  lastAccessedAt: string | null;
+  revokedAt: string | null;
+}
+
 
 export function normaliseTimelineItemType(raw?: string | null): TimelineItemType {
   const candidate = (raw ?? "").trim().toUpperCase();
@@ -815,6 +1011,8 @@ export type ApprovalType =
   | "timeline_item_from_email"
   | "timeline_dependency"
   | "project_label_suggestion"
+  | "automation_email_template"
+  | "email_reply_draft"
   | "generic";
 
 export interface ApprovalRecord {
@@ -833,6 +1031,37 @@ export interface ApprovalRecord {
   updatedAt: string;
 }
 
+export interface AuditLogRecord {
+  id: string;
+  projectId: string | null;
+  userId: string | null;
+  action: string;
+  entity: string;
+  refId: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export type RecordRevisionEntity = "timeline_item" | "project_task";
+
+export type RecordRevisionOperation = "create" | "update" | "delete" | "restore";
+
+export interface RecordRevision<TSnapshot = TimelineItemRecord | ProjectTaskRecord> {
+  id: string;
+  projectId: string;
+  entity: RecordRevisionEntity;
+  recordId: string;
+  operation: RecordRevisionOperation;
+  /** Record as it was before the write; null for creates. */
+  before: TSnapshot | null;
+  /** Record as it was after the write; null for deletes. */
+  after: TSnapshot | null;
+  changedFields: string[];
+  userId: string | null;
+  restoredFromId: string | null;
+  createdAt: string;
+}
+
 export interface DerivedLabelSuggestion {
   labelKey: string;
   labelValue: string | number | boolean;
@@ -874,6 +1103,7 @@ export interface UserPreferenceRecord {
   priorityConfig: PriorityConfig;
   priorityConfigSource: PriorityConfigSource;
   priorityConfigUpdatedAt: string | null;
+  includeWokenSnoozes: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -900,10 +1130,21 @@ export interface DigestTopAction extends ProjectTopAction {
   projectStatus: ProjectRecord["status"];
 }
 
+export interface DigestWokenEmail {
+  emailId: string;
+  subject: string;
+  fromName: string | null;
+  fromEmail: string;
+  wokenAt: string;
+  priorityScore: number | null;
+}
+
 export interface DigestPayload {
   generatedAt: string;
   topActions: DigestTopAction[];
   projects: DigestProjectSnapshot[];
+  /** Emails whose snooze expired since the previous digest. */
+  wokenEmails?: DigestWokenEmail[];
   meta: {
     totalProjects: number;
     totalPendingApprovals: number;
@@ -932,10 +1173,26 @@ export interface ProjectTemplateRecord {
   slug: string;
   description: string | null;
   payload: Record<string, unknown>;
+  version: number;
+  /** Null for the built-in templates seeded with the database. */
+  createdBy: string | null;
+  sourceProjectId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface ProjectTemplateVersionRecord {
+  id: string;
+  templateId: string;
+  version: number;
+  name: string;
+  description: string | null;
+  payload: Record<string, unknown>;
+  items: Array<Omit<ProjectTemplateItemRecord, "id" | "templateId" | "createdAt">>;
+  createdBy: string | null;
+  createdAt: string;
+}
+
 export interface ProjectTemplateItemRecord {
   id: string;
   templateId: string;
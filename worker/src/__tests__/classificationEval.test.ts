@@ -0,0 +1,142 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  PRIMARY_LABEL_DEFINITIONS,
+  ensureDefaultLabelCoverage,
+  heuristicLabels,
+  normaliseLabels,
+  selectPrimaryCategory,
+} from "@kazador/shared";
+import {
+  buildClassificationEvalReport,
+  diffClassificationEvalReports,
+  formatClassificationEvalReport,
+  parseClassificationEvalArgs,
+  runClassificationEval,
+} from "../classificationEval";
+import { GOLDEN_EMAILS, type GoldenEmailFixture } from "../classificationEvalFixtures";
+
+const baseDeps = { heuristicLabels, normaliseLabels, ensureDefaultLabelCoverage, selectPrimaryCategory } as const;
+
+const fixtures: GoldenEmailFixture[] = [
+  {
+    id: "contract",
+    subject: "Contract - Fabric London",
+    body: "Please review attached contract",
+    fromName: "Legal Team",
+    fromEmail: "legal@venue.com",
+    expectedLabels: ["LEGAL/Contract_Draft", "venue/Fabric", "city/London"],
+  },
+  {
+    id: "offer",
+    subject: "Show offer",
+    body: "Venue details",
+    fromName: "Promoter",
+    fromEmail: "promoter@example.com",
+    expectedLabels: ["BOOKING/Offer"],
+  },
+];
+
+describe("GOLDEN_EMAILS", () => {
+  it("uses unique ids and leads every case with a taxonomy primary label", () => {
+    const primaryLabels = new Set(PRIMARY_LABEL_DEFINITIONS.map((definition) => definition.name));
+    expect(new Set(GOLDEN_EMAILS.map((fixture) => fixture.id)).size).toBe(GOLDEN_EMAILS.length);
+    for (const fixture of GOLDEN_EMAILS) {
+      expect(primaryLabels.has(fixture.expectedLabels[0])).toBe(true);
+      expect(normaliseLabels(fixture.expectedLabels)).toEqual(fixture.expectedLabels);
+    }
+  });
+});
+
+describe("runClassificationEval", () => {
+  it("scores primary categories and cross-tags separately", async () => {
+    const analyzeEmail = vi.fn(async (input: { subject: string }) => ({
+      summary: "Summary",
+      labels: input.subject.startsWith("Contract")
+        ? ["LEGAL/Contract_Draft", "city/London", "city/Paris"]
+        : ["BOOKING/Hold_or_Availability"],
+      sentiment: { label: "neutral" as const, confidence: 0.5 },
+    }));
+
+    const cases = await runClassificationEval(fixtures, { ...baseDeps, analyzeEmail });
+    const report = buildClassificationEvalReport(cases, { mode: "local", model: "test", runAt: "2024-01-01T00:00:00Z" });
+
+    expect(report.primaryAccuracy).toBe(0.5);
+    expect(report.crossTags).toMatchObject({ truePositives: 1, falsePositives: 1, falseNegatives: 1 });
+    expect(report.crossTags.precision).toBe(0.5);
+    expect(report.categoryConfusion).toEqual([
+      { expected: "BOOKING/Offer", predicted: "BOOKING/Hold_or_Availability", count: 1 },
+    ]);
+    expect(report.labels.find((stat) => stat.label === "BOOKING/Offer")).toMatchObject({
+      kind: "primary",
+      falseNegatives: 1,
+      recall: 0,
+    });
+    expect(report.labels[report.labels.length - 1].kind).toBe("cross");
+  });
+
+  it("records provider errors and falls back to heuristics", async () => {
+    const analyzeEmail = vi.fn(async () => {
+      throw new Error("rate limited");
+    });
+
+    const cases = await runClassificationEval(fixtures, { ...baseDeps, analyzeEmail });
+
+    expect(cases.map((entry) => entry.error)).toEqual(["rate limited", "rate limited"]);
+    expect(cases.every((entry) => !entry.usedAi)).toBe(true);
+    expect(cases[1].predictedCategory).toBe("BOOKING/Offer");
+  });
+});
+
+describe("diffClassificationEvalReports", () => {
+  it("reports metric deltas and which cases were fixed or regressed", () => {
+    const baseCase = {
+      expectedLabels: ["BOOKING/Offer"],
+      predictedLabels: ["BOOKING/Offer"],
+      expectedCategory: "BOOKING/Offer",
+      predictedCategory: "BOOKING/Offer",
+      usedAi: true,
+      error: null,
+    };
+    const previous = buildClassificationEvalReport(
+      [
+        { ...baseCase, id: "a", primaryCorrect: true },
+        { ...baseCase, id: "b", predictedLabels: ["FINANCE/Invoice"], predictedCategory: "FINANCE/Invoice", primaryCorrect: false },
+      ],
+      { mode: "openai", model: "gpt-4o-mini" }
+    );
+    const current = buildClassificationEvalReport(
+      [
+        { ...baseCase, id: "a", predictedLabels: ["FINANCE/Invoice"], predictedCategory: "FINANCE/Invoice", primaryCorrect: false },
+        { ...baseCase, id: "b", primaryCorrect: true },
+        { ...baseCase, id: "c", primaryCorrect: true },
+      ],
+      { mode: "openai", model: "gpt-4o-mini" }
+    );
+
+    const diff = diffClassificationEvalReports(previous, current);
+
+    expect(diff.primaryAccuracyDelta).toBe(0.167);
+    expect(diff.fixed).toEqual(["b"]);
+    expect(diff.regressed).toEqual(["a"]);
+    expect(diff.labels.find((entry) => entry.label === "BOOKING/Offer")?.recallDelta).toBe(0.167);
+
+    const output = formatClassificationEvalReport(current, diff);
+    expect(output).toContain("Primary category accuracy: 66.7% (2/3) (+16.7 pts)");
+    expect(output).toContain("regressed: a");
+  });
+});
+
+describe("parseClassificationEvalArgs", () => {
+  it("defaults to heuristics and validates the provider", () => {
+    expect(parseClassificationEvalArgs([])).toEqual({
+      mode: "heuristics",
+      outputPath: "eval-results/classification.json",
+      promptPath: null,
+    });
+    expect(parseClassificationEvalArgs(["--provider=local", "--prompt=prompt.json"])).toMatchObject({
+      mode: "local",
+      promptPath: "prompt.json",
+    });
+    expect(() => parseClassificationEvalArgs(["--provider=claude"])).toThrow(/Unknown provider/);
+  });
+});
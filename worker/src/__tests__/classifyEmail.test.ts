@@ -193,12 +193,15 @@ describe("classifyEmail", () => {
         }
       );
 
-      expect(analyze).toHaveBeenCalledWith({
-        subject: "Contract - Fabric London",
-        body: "Please review attached contract",
-        fromName: "Legal Team",
-        fromEmail: "legal@venue.com",
-      });
+      expect(analyze).toHaveBeenCalledWith(
+        {
+          subject: "Contract - Fabric London",
+          body: "Please review attached contract",
+          fromName: "Legal Team",
+          fromEmail: "legal@venue.com",
+        },
+        { prompt: null }
+      );
 
       expect(result.summary).toBe("Contract for venue booking");
       expect(result.labels).toContain("LEGAL/Contract_Draft");
@@ -208,6 +211,39 @@ describe("classifyEmail", () => {
       expect(result.sentiment).toEqual({ label: "positive", confidence: 0.73 });
     });
 
+    it("passes the active prompt and records its version", async () => {
+      const analyze = vi.fn().mockResolvedValue({
+        summary: "Invoice",
+        labels: ["FINANCE/Invoice"],
+        sentiment: { label: "neutral", confidence: 0.5 },
+      });
+      const prompt = {
+        version: 4,
+        settings: {
+          systemMessage: "",
+          userInstructions: "Prefer FINANCE labels.",
+          model: "gpt-4o",
+          temperature: 0.2,
+          maxLabels: 2,
+        },
+      };
+
+      const result = await classifyEmail(
+        { subject: "Invoice", body: "Attached", fromName: null, fromEmail: "ap@example.com" },
+        {
+          analyzeEmail: analyze,
+          prompt,
+          heuristicLabels: vi.fn(),
+          normaliseLabels: deps.normaliseLabels,
+          ensureDefaultLabelCoverage: deps.ensureDefaultLabelCoverage,
+          selectPrimaryCategory: deps.selectPrimaryCategory,
+        }
+      );
+
+      expect(analyze).toHaveBeenCalledWith(expect.any(Object), { prompt: prompt.settings });
+      expect(result.promptVersion).toBe(4);
+    });
+
     it("trims whitespace from AI summary", async () => {
       const analyze = vi.fn().mockResolvedValue({
         summary: "  AI summary with extra spaces  ",
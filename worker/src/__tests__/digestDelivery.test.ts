@@ -0,0 +1,232 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  parseSlackApprovalValue,
+  type DigestPayload,
+  type DigestProjectSnapshot,
+  type SlackMessage,
+} from "@kazador/shared";
+import {
+  deliverDigest,
+  deliverQueuedDigests,
+  type DigestTransport,
+  type QueuedDigest,
+  signSlackApprovalValue,
+} from "../digestDelivery";
+
+const supabaseStub = vi.hoisted(() => ({ client: null as any }));
+
+vi.mock("@supabase/supabase-js", () => ({
+  createClient: vi.fn(() => supabaseStub.client),
+}));
+
+const NOW = new Date("2025-11-05T12:00:00.000Z");
+
+function buildDigest(overrides: Partial<QueuedDigest> = {}): QueuedDigest {
+  return {
+    id: "digest-1",
+    userId: "user-1",
+    channel: "email",
+    generatedFor: "2025-11-05",
+    payload: {
+      generatedAt: NOW.toISOString(),
+      topActions: [],
+      projects: [],
+      meta: { totalProjects: 0, totalPendingApprovals: 0, highlightedProjects: 0 },
+    } satisfies DigestPayload,
+    attempts: 0,
+    ...overrides,
+  };
+}
+
+const recipient = {
+  email: "manager@example.com",
+  name: "Sam",
+  timezone: "UTC",
+  quietHours: null,
+  slack: { enabled: true, webhookUrl: "https://hooks.slack.com/services/T/B/X", includeApprovals: true, slackUserId: null },
+};
+
+function buildTransport(send: DigestTransport["send"] = vi.fn(async () => ({ messageId: "m-1" }))): DigestTransport {
+  return { name: "test", send };
+}
+
+describe("deliverDigest", () => {
+  it("marks digests as sent when the transport succeeds", async () => {
+    const transport = buildTransport();
+    const update = await deliverDigest(buildDigest(), recipient, { transport, from: "digest@example.com", now: NOW });
+
+    expect(transport.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "manager@example.com", subject: "Your Kazador digest for 2025-11-05" })
+    );
+    expect(update).toEqual({
+      status: "sent",
+      attempts: 1,
+      nextAttemptAt: null,
+      lastError: null,
+      deliveredAt: NOW.toISOString(),
+    });
+  });
+
+  it("schedules a retry with backoff after a failure", async () => {
+    const transport = buildTransport(vi.fn(async () => Promise.reject(new Error("SMTP timeout"))));
+    const update = await deliverDigest(buildDigest({ attempts: 1 }), recipient, {
+      transport,
+      from: "digest@example.com",
+      now: NOW,
+    });
+
+    expect(update.status).toBe("queued");
+    expect(update.attempts).toBe(2);
+    expect(update.lastError).toBe("SMTP timeout");
+    expect(update.nextAttemptAt).toBe(new Date(NOW.getTime() + 10 * 60 * 1000).toISOString());
+  });
+
+  it("fails permanently once attempts are exhausted", async () => {
+    const transport = buildTransport(vi.fn(async () => Promise.reject(new Error("Rejected"))));
+    const update = await deliverDigest(buildDigest({ attempts: 4 }), recipient, {
+      transport,
+      from: "digest@example.com",
+      now: NOW,
+    });
+
+    expect(update.status).toBe("failed");
+    expect(update.nextAttemptAt).toBeNull();
+  });
+
+  it("holds digests until quiet hours end without using an attempt", async () => {
+    const transport = buildTransport();
+    const update = await deliverDigest(
+      buildDigest(),
+      { ...recipient, quietHours: { start: "11:00", end: "13:00" } },
+      { transport, from: "digest@example.com", now: NOW }
+    );
+
+    expect(transport.send).not.toHaveBeenCalled();
+    expect(update.status).toBe("queued");
+    expect(update.attempts).toBe(0);
+    expect(update.nextAttemptAt).toBe("2025-11-05T13:00:00.000Z");
+  });
+
+  it("posts Slack digests to the recipient's webhook", async () => {
+    const postSlack = vi.fn(async () => undefined);
+    const update = await deliverDigest(buildDigest({ channel: "slack" }), recipient, {
+      transport: null,
+      postSlack,
+      from: "digest@example.com",
+      now: NOW,
+    });
+
+    expect(update.status).toBe("sent");
+    expect(postSlack).toHaveBeenCalledWith(
+      "https://hooks.slack.com/services/T/B/X",
+      expect.objectContaining({ text: expect.stringContaining("2025-11-05") })
+    );
+  });
+
+  it("signs Slack approval buttons and leaves them out without a secret", async () => {
+    const snapshot = {
+      project: { id: "project-1", name: "Spring tour" },
+      metrics: {},
+      topActions: [],
+      approvals: [{ id: "approval-1", type: "reply_draft", payload: { title: "Confirm hold" } }],
+    } as unknown as DigestProjectSnapshot;
+    const digest = buildDigest({
+      channel: "slack",
+      payload: { ...buildDigest().payload, projects: [snapshot] },
+    });
+    const postSlack = vi.fn(async (_webhookUrl: string, _message: SlackMessage) => undefined);
+
+    await deliverDigest(digest, recipient, {
+      transport: null,
+      postSlack,
+      from: "digest@example.com",
+      slackApprovalSecret: "approval-secret",
+      now: NOW,
+    });
+    await deliverDigest(digest, recipient, { transport: null, postSlack, from: "digest@example.com", now: NOW });
+
+    const findButton = (message: any) =>
+      message.blocks.find((block: any) => block.type === "actions")?.elements?.[0] ?? null;
+    const signed = findButton(postSlack.mock.calls[0][1]);
+    expect(parseSlackApprovalValue(signed.value)).toEqual({
+      approvalId: "approval-1",
+      userId: "user-1",
+      signature: signSlackApprovalValue("approval-secret", { approvalId: "approval-1", userId: "user-1" }),
+    });
+    expect(findButton(postSlack.mock.calls[1][1])).toBeNull();
+  });
+
+  it("retries Slack digests when no webhook is configured", async () => {
+    const update = await deliverDigest(
+      buildDigest({ channel: "slack" }),
+      { ...recipient, slack: { enabled: false, webhookUrl: null, includeApprovals: true, slackUserId: null } },
+      { transport: null, from: "digest@example.com", now: NOW }
+    );
+
+    expect(update.status).toBe("queued");
+    expect(update.lastError).toBe("Slack webhook is not configured");
+  });
+});
+
+describe("deliverQueuedDigests", () => {
+  it("fails a digest with a malformed payload without aborting the batch", async () => {
+    const digestUpdates: Array<{ id: string; values: Record<string, unknown> }> = [];
+    const queuedRows = [
+      { id: "digest-bad", user_id: "user-1", generated_for: "2025-11-05", channel: "email", payload: "{not json", attempts: 0 },
+      { id: "digest-good", user_id: "user-1", generated_for: "2025-11-05", channel: "email", payload: buildDigest().payload, attempts: 0 },
+    ];
+
+    const queuedQuery: any = {
+      in: () => queuedQuery,
+      eq: () => queuedQuery,
+      or: () => queuedQuery,
+      order: () => queuedQuery,
+      limit: async () => ({ data: queuedRows, error: null }),
+    };
+
+    supabaseStub.client = {
+      from: vi.fn((table: string) => {
+        if (table === "digests") {
+          return {
+            select: () => queuedQuery,
+            update: (values: Record<string, unknown>) => ({
+              eq: async (_column: string, id: string) => {
+                digestUpdates.push({ id, values });
+                return { error: null };
+              },
+            }),
+          };
+        }
+        if (table === "profiles") {
+          return { select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: { email: "manager@example.com" }, error: null }) }) }) };
+        }
+        if (table === "user_preferences") {
+          return { select: () => ({ eq: () => ({ maybeSingle: async () => ({ data: null, error: null }) }) }) };
+        }
+        return { insert: async () => ({ error: null }) };
+      }),
+    };
+
+    const previousUrl = process.env.SUPABASE_URL;
+    const previousKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    process.env.SUPABASE_URL = "https://example.supabase.co";
+    process.env.SUPABASE_SERVICE_ROLE_KEY = "service-key";
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    try {
+      await deliverQueuedDigests(buildTransport());
+    } finally {
+      errorSpy.mockRestore();
+      if (previousUrl === undefined) delete process.env.SUPABASE_URL;
+      else process.env.SUPABASE_URL = previousUrl;
+      if (previousKey === undefined) delete process.env.SUPABASE_SERVICE_ROLE_KEY;
+      else process.env.SUPABASE_SERVICE_ROLE_KEY = previousKey;
+    }
+
+    expect(digestUpdates.find((entry) => entry.id === "digest-bad")?.values).toMatchObject({
+      status: "failed",
+      next_attempt_at: null,
+    });
+    expect(digestUpdates.find((entry) => entry.id === "digest-good")?.values).toMatchObject({ status: "sent" });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from "vitest";
+import { applyAccountDefaultProject, recordGmailSyncResult, type GmailAccount } from "../gmailAccounts";
+
+const account: GmailAccount = {
+  id: "acct-bookings",
+  userId: "user-1",
+  email: "bookings@label.com",
+  refreshToken: "token",
+  defaultProjectId: "proj-1",
+};
+
+function createLinkStub(existing: Array<{ id: string }>) {
+  const insert = vi.fn().mockResolvedValue({ error: null });
+  const query: Record<string, any> = {};
+  query.select = vi.fn(() => query);
+  query.eq = vi.fn(() => query);
+  query.limit = vi.fn().mockResolvedValue({ data: existing, error: null });
+  query.insert = insert;
+  const supabase = { from: vi.fn(() => query) };
+  return { supabase, insert };
+}
+
+describe("applyAccountDefaultProject", () => {
+  it("links unclaimed mail to the account's default project", async () => {
+    const { supabase, insert } = createLinkStub([]);
+
+    const linked = await applyAccountDefaultProject(supabase as any, account, "msg-1");
+
+    expect(linked).toBe(true);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        project_id: "proj-1",
+        email_id: "msg-1",
+        source: "rule",
+        metadata: { accountDefault: true, accountId: "acct-bookings", accountEmail: "bookings@label.com" },
+      })
+    );
+  });
+
+  it("leaves mail alone when a rule already linked it", async () => {
+    const { supabase, insert } = createLinkStub([{ id: "link-1" }]);
+
+    expect(await applyAccountDefaultProject(supabase as any, account, "msg-1")).toBe(false);
+    expect(insert).not.toHaveBeenCalled();
+  });
+
+  it("does nothing for accounts without a default project", async () => {
+    const { supabase } = createLinkStub([]);
+
+    expect(await applyAccountDefaultProject(supabase as any, { ...account, defaultProjectId: null }, "msg-1")).toBe(
+      false
+    );
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
+
+describe("recordGmailSyncResult", () => {
+  it("keeps the last successful sync time when a run fails", async () => {
+    const eq = vi.fn().mockResolvedValue({ error: null });
+    const update = vi.fn(() => ({ eq }));
+    const supabase = { from: vi.fn(() => ({ update })) };
+
+    await recordGmailSyncResult(supabase as any, "acct-bookings", { ok: false, error: "invalid_grant" });
+
+    expect(update).toHaveBeenCalledWith({ gmail_sync_status: "error", gmail_last_error: "invalid_grant" });
+    expect(eq).toHaveBeenCalledWith("id", "acct-bookings");
+  });
+});
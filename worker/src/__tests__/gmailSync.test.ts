@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyGmailLabelChange,
+  collectGmailHistoryChanges,
+  fetchGmailChanges,
+  mergeRetryMessageIds,
+  planGmailSync,
+} from "../gmailSync";
+
+const labelNamesById = new Map([
+  ["Label_1", "Kazador/FINANCE/Invoice"],
+  ["Label_2", "Kazador/LEGAL/Contract_Draft"],
+  ["Label_3", "Personal"],
+]);
+
+describe("planGmailSync", () => {
+  it("runs incrementally once a history cursor exists", () => {
+    expect(planGmailSync(null)).toBe("full");
+    expect(planGmailSync({ historyId: "100", backfillDays: null })).toBe("incremental");
+  });
+
+  it("backfills only when more days are requested than already covered", () => {
+    expect(planGmailSync({ historyId: "100", backfillDays: null }, 30)).toBe("backfill");
+    expect(planGmailSync({ historyId: "100", backfillDays: 30 }, 30)).toBe("incremental");
+  });
+});
+
+describe("mergeRetryMessageIds", () => {
+  it("retries earlier failures first without repeating messages", () => {
+    expect(mergeRetryMessageIds(["x", "a"], ["a", "b"])).toEqual(["x", "a", "b"]);
+    expect(mergeRetryMessageIds([], ["a"])).toEqual(["a"]);
+  });
+});
+
+describe("collectGmailHistoryChanges", () => {
+  it("collects new messages and folds label deltas per message", () => {
+    const { messageIds, labelChanges } = collectGmailHistoryChanges([
+      { id: "1", messagesAdded: [{ message: { id: "m-new", labelIds: ["INBOX", "UNREAD"] } }] },
+      { id: "2", messagesAdded: [{ message: { id: "m-draft", labelIds: ["DRAFT"] } }] },
+      { id: "3", labelsRemoved: [{ message: { id: "m-old", labelIds: ["INBOX"] }, labelIds: ["UNREAD"] }] },
+      { id: "4", labelsAdded: [{ message: { id: "m-old" }, labelIds: ["Label_1"] }] },
+      { id: "5", labelsAdded: [{ message: { id: "m-new" }, labelIds: ["Label_2"] }] },
+    ]);
+
+    expect(messageIds).toEqual(["m-new"]);
+    expect(Array.from(labelChanges.keys())).toEqual(["m-old"]);
+    const change = labelChanges.get("m-old")!;
+    expect(Array.from(change.added)).toEqual(["Label_1"]);
+    expect(Array.from(change.removed)).toEqual(["UNREAD"]);
+    expect(change.labelIds).toEqual(["INBOX"]);
+  });
+});
+
+describe("applyGmailLabelChange", () => {
+  it("marks mail read and adds Kazador labels applied in Gmail", () => {
+    const result = applyGmailLabelChange(
+      { labels: ["LEGAL/Contract_Draft"], isRead: false },
+      { added: new Set(["Label_1", "Label_3"]), removed: new Set(["UNREAD"]), labelIds: null },
+      labelNamesById
+    );
+
+    expect(result).toMatchObject({ labels: ["LEGAL/Contract_Draft", "FINANCE/Invoice"], isRead: true });
+  });
+
+  it("drops Kazador labels removed in Gmail", () => {
+    const result = applyGmailLabelChange(
+      { labels: ["LEGAL/Contract_Draft", "FINANCE/Invoice"], isRead: true },
+      { added: new Set(), removed: new Set(["Label_2"]), labelIds: ["INBOX"] },
+      labelNamesById
+    );
+
+    expect(result?.labels).toEqual(["FINANCE/Invoice"]);
+    expect(result?.category).toBe("FINANCE/Invoice");
+  });
+
+  it("returns null when nothing Kazador tracks changed", () => {
+    expect(
+      applyGmailLabelChange(
+        { labels: ["FINANCE/Invoice"], isRead: true },
+        { added: new Set(["Label_3", "STARRED"]), removed: new Set(), labelIds: null },
+        labelNamesById
+      )
+    ).toBeNull();
+  });
+});
+
+describe("fetchGmailChanges", () => {
+  function buildGmail() {
+    return {
+      users: {
+        getProfile: vi.fn().mockResolvedValue({ data: { historyId: "900" } }),
+        messages: {
+          list: vi.fn().mockResolvedValue({ data: { messages: [{ id: "b" }, { id: "a" }] } }),
+        },
+        history: {
+          list: vi.fn().mockResolvedValue({
+            data: { historyId: "250", history: [{ id: "201", messagesAdded: [{ message: { id: "c" } }] }] },
+          }),
+        },
+      },
+    };
+  }
+
+  const state = {
+    id: "state-1",
+    accountId: "acct-1",
+    historyId: "200",
+    lastPolledAt: null,
+    lastFullSyncAt: null,
+    backfillDays: null,
+    lastError: null,
+    failedMessageIds: [],
+    createdAt: "2025-06-01T00:00:00.000Z",
+    updatedAt: "2025-06-01T00:00:00.000Z",
+  };
+
+  it("fetches deltas from the stored history id", async () => {
+    const gmail = buildGmail();
+
+    const changes = await fetchGmailChanges(gmail as any, state, { maxEmails: 10 });
+
+    expect(gmail.users.history.list).toHaveBeenCalledWith(expect.objectContaining({ startHistoryId: "200" }));
+    expect(gmail.users.messages.list).not.toHaveBeenCalled();
+    expect(changes).toMatchObject({ mode: "incremental", historyId: "250", messageIds: ["c"] });
+  });
+
+  it("falls back to a full resync when the history id has expired", async () => {
+    const gmail = buildGmail();
+    gmail.users.history.list.mockRejectedValue(Object.assign(new Error("Requested entity was not found."), { code: 404 }));
+
+    const changes = await fetchGmailChanges(gmail as any, state, { maxEmails: 10 });
+
+    expect(gmail.users.messages.list).toHaveBeenCalledWith(expect.objectContaining({ maxResults: 10 }));
+    expect(changes).toMatchObject({ mode: "full", historyId: "900", messageIds: ["a", "b"] });
+  });
+
+  it("lists the requested window for a backfill", async () => {
+    const gmail = buildGmail();
+
+    const changes = await fetchGmailChanges(gmail as any, state, {
+      maxEmails: 10,
+      backfillDays: 7,
+      now: new Date("2025-06-10T12:00:00.000Z"),
+    });
+
+    expect(gmail.users.messages.list).toHaveBeenCalledWith(expect.objectContaining({ q: "after:2025/6/3" }));
+    expect(changes.mode).toBe("backfill");
+  });
+});
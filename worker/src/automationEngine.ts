@@ -0,0 +1,96 @@
+import {
+  buildAutomationExecutionRow,
+  createAutomationActionHandlers,
+  createSupabaseAutomationStore,
+  executeAutomationRule,
+  mapAutomationRuleRow,
+  type AutomationEvent,
+  type AutomationRule,
+  type AutomationRuleRow,
+  type AutomationRunResult,
+} from "@kazador/shared";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export async function loadAutomationRulesForUser(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<AutomationRule[]> {
+  const { data, error } = await supabase
+    .from("automation_rules")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("is_enabled", true)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Failed to load automation rules", error);
+    return [];
+  }
+
+  return (data ?? []).map((row) => mapAutomationRuleRow(row as AutomationRuleRow));
+}
+
+export async function loadEmailProjectIds(supabase: SupabaseClient, emailId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("project_email_links")
+    .select("project_id")
+    .eq("email_id", emailId);
+
+  if (error) {
+    console.error(`Failed to load project links for email ${emailId}`, error);
+    return [];
+  }
+
+  return Array.from(
+    new Set(
+      (data ?? [])
+        .map((row) => (row as { project_id?: string }).project_id)
+        .filter((value): value is string => Boolean(value))
+    )
+  );
+}
+
+async function recordAutomationRun(
+  supabase: SupabaseClient,
+  userId: string,
+  event: AutomationEvent,
+  result: AutomationRunResult
+): Promise<void> {
+  const { error } = await supabase
+    .from("automation_rule_executions")
+    .insert(buildAutomationExecutionRow(userId, event, result));
+
+  if (error) {
+    console.error(`Failed to record automation run for rule ${result.ruleId}`, error);
+  }
+}
+
+export async function runAutomationRules(
+  supabase: SupabaseClient,
+  userId: string,
+  event: AutomationEvent,
+  rules: AutomationRule[]
+): Promise<AutomationRunResult[]> {
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const handlers = createAutomationActionHandlers(
+    createSupabaseAutomationStore(supabase, { revisionUserId: null }),
+    userId
+  );
+  const results: AutomationRunResult[] = [];
+
+  for (const rule of rules) {
+    try {
+      const result = await executeAutomationRule(rule, event, handlers);
+      if (!result) continue;
+      results.push(result);
+      await recordAutomationRun(supabase, userId, event, result);
+    } catch (err) {
+      console.error(`Automation rule ${rule.id} crashed`, err);
+    }
+  }
+
+  return results;
+}
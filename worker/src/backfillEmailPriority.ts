@@ -5,7 +5,7 @@ import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import {
   calculateEmailInboxPriority,
   DEFAULT_PRIORITY_CONFIG,
-  normalizePriorityConfigInput,
+  resolveStoredPriorityConfig,
   type EmailLabel,
   type EmailTriageState,
   type PriorityConfig,
@@ -41,10 +41,7 @@ async function loadPriorityConfigs(client: ServiceClient): Promise<Map<string, P
     if (!userId) continue;
 
     try {
-      const config = normalizePriorityConfigInput(
-        (row.priority_config as PriorityConfigInput | null) ?? null,
-        DEFAULT_PRIORITY_CONFIG
-      );
+      const config = resolveStoredPriorityConfig((row.priority_config as PriorityConfigInput | null) ?? null);
       cache.set(userId, config);
     } catch (err) {
       console.warn(`Failed to parse priority config for user ${userId}`, err);
@@ -0,0 +1,65 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  extractBookingOffer,
+  getBookingOfferKind,
+  type EmailLabel,
+  type LlmEmailInput,
+  type LlmProvider,
+} from "@kazador/shared";
+
+type SupabaseDb = SupabaseClient<any, any, any>;
+
+/**
+ * Extracts a structured offer from a newly ingested BOOKING email and stores
+ * it against the email and its best-linked project. Existing offers are left
+ * alone so reviewer edits survive a resync. Returns whether a row was written.
+ */
+export async function extractAndStoreBookingOffer(
+  supabase: SupabaseDb,
+  provider: LlmProvider,
+  input: { emailId: string; userId: string; labels: EmailLabel[]; email: LlmEmailInput }
+): Promise<boolean> {
+  const kind = getBookingOfferKind(input.labels);
+  if (!kind) {
+    return false;
+  }
+
+  const { data: links, error: linkError } = await supabase
+    .from("project_email_links")
+    .select("project_id, confidence")
+    .eq("email_id", input.emailId)
+    .order("confidence", { ascending: false, nullsFirst: false })
+    .limit(1);
+
+  if (linkError) {
+    console.error(`Failed to load project links for booking offer on email ${input.emailId}`, linkError);
+  }
+
+  let extraction;
+  try {
+    extraction = await extractBookingOffer(input.email, provider);
+  } catch (err) {
+    console.error(`Booking offer extraction failed for email ${input.emailId}`, err);
+    return false;
+  }
+
+  const { error } = await supabase.from("booking_offers").upsert(
+    {
+      user_id: input.userId,
+      email_id: input.emailId,
+      project_id: (links?.[0]?.project_id as string | undefined) ?? null,
+      kind,
+      status: "extracted",
+      fields: extraction.fields,
+      extracted_by: extraction.extractedBy,
+    },
+    { onConflict: "email_id", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error(`Failed to store booking offer for email ${input.emailId}`, error);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,421 @@
+import { config } from "dotenv";
+config();
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  EMAIL_FALLBACK_LABEL,
+  LLM_PROVIDER_NAMES,
+  PRIMARY_LABEL_DEFINITIONS,
+  analyzeEmail,
+  createLlmProvider,
+  createLlmUsageTracker,
+  ensureDefaultLabelCoverage,
+  heuristicLabels,
+  normaliseLabels,
+  normalizeClassificationPromptSettings,
+  resolveLlmProviderConfig,
+  selectPrimaryCategory,
+  type ClassificationPromptSettings,
+  type EmailLabel,
+  type LlmProviderName,
+} from "@kazador/shared";
+import { classifyEmail, type ClassificationDependencies } from "./classifyEmail.js";
+import { GOLDEN_EMAILS, type GoldenEmailFixture } from "./classificationEvalFixtures.js";
+
+export type ClassificationEvalMode = "heuristics" | LlmProviderName;
+
+const DEFAULT_OUTPUT_PATH = "eval-results/classification.json";
+const PRIMARY_LABELS = new Set<string>(PRIMARY_LABEL_DEFINITIONS.map((definition) => definition.name));
+
+export interface ClassificationEvalCase {
+  id: string;
+  expectedLabels: EmailLabel[];
+  predictedLabels: EmailLabel[];
+  expectedCategory: EmailLabel;
+  predictedCategory: EmailLabel;
+  primaryCorrect: boolean;
+  usedAi: boolean;
+  /** Provider error that made this case fall back to heuristics. */
+  error: string | null;
+}
+
+export interface LabelConfusion {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface LabelConfusionStat extends LabelConfusion {
+  label: EmailLabel;
+  kind: "primary" | "cross";
+}
+
+export interface ClassificationEvalReport {
+  mode: ClassificationEvalMode;
+  model: string | null;
+  runAt: string;
+  caseCount: number;
+  /** Share of emails whose primary category matches the expected one. */
+  primaryAccuracy: number | null;
+  /** Cross-tags (artist/, city/, venue/, ...) pooled across all emails. */
+  crossTags: LabelConfusion;
+  /** Primary category mix-ups, expected -> predicted, most frequent first. */
+  categoryConfusion: Array<{ expected: EmailLabel; predicted: EmailLabel; count: number }>;
+  labels: LabelConfusionStat[];
+  cases: ClassificationEvalCase[];
+}
+
+export interface ClassificationEvalDiff {
+  primaryAccuracyDelta: number | null;
+  crossTagPrecisionDelta: number | null;
+  crossTagRecallDelta: number | null;
+  labels: Array<{ label: EmailLabel; precisionDelta: number | null; recallDelta: number | null }>;
+  /** Cases whose primary category became correct since the previous run. */
+  fixed: string[];
+  /** Cases whose primary category was correct in the previous run and is now wrong. */
+  regressed: string[];
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+function delta(previous: number | null | undefined, current: number | null): number | null {
+  if (previous == null || current == null) return null;
+  return Math.round((current - previous) * 1000) / 1000;
+}
+
+function withRatios<T extends Omit<LabelConfusion, "precision" | "recall">>(counts: T): T & LabelConfusion {
+  return {
+    ...counts,
+    precision: ratio(counts.truePositives, counts.truePositives + counts.falsePositives),
+    recall: ratio(counts.truePositives, counts.truePositives + counts.falseNegatives),
+  };
+}
+
+/**
+ * Runs every fixture through `classifyEmail` with the given dependencies, one
+ * at a time so provider rate limits and local models are not overwhelmed.
+ */
+export async function runClassificationEval(
+  fixtures: GoldenEmailFixture[],
+  deps: ClassificationDependencies
+): Promise<ClassificationEvalCase[]> {
+  const cases: ClassificationEvalCase[] = [];
+
+  for (const fixture of fixtures) {
+    let error: string | null = null;
+    const result = await classifyEmail(
+      {
+        subject: fixture.subject,
+        body: fixture.body,
+        fromName: fixture.fromName,
+        fromEmail: fixture.fromEmail,
+      },
+      {
+        ...deps,
+        onError: (err) => {
+          error = err.message;
+        },
+      }
+    );
+
+    const expectedLabels = normaliseLabels(fixture.expectedLabels);
+    const expectedCategory = selectPrimaryCategory(expectedLabels) ?? EMAIL_FALLBACK_LABEL;
+
+    cases.push({
+      id: fixture.id,
+      expectedLabels,
+      predictedLabels: result.labels,
+      expectedCategory,
+      predictedCategory: result.category,
+      primaryCorrect: result.category === expectedCategory,
+      usedAi: result.usedAi,
+      error,
+    });
+  }
+
+  return cases;
+}
+
+export function buildClassificationEvalReport(
+  cases: ClassificationEvalCase[],
+  meta: { mode: ClassificationEvalMode; model: string | null; runAt?: string }
+): ClassificationEvalReport {
+  const labelCounts = new Map<EmailLabel, { truePositives: number; falsePositives: number; falseNegatives: number }>();
+  const countsFor = (label: EmailLabel) => {
+    let counts = labelCounts.get(label);
+    if (!counts) {
+      counts = { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+      labelCounts.set(label, counts);
+    }
+    return counts;
+  };
+  const crossTags = { truePositives: 0, falsePositives: 0, falseNegatives: 0 };
+  const confusion = new Map<string, { expected: EmailLabel; predicted: EmailLabel; count: number }>();
+
+  for (const entry of cases) {
+    const expected = new Set(entry.expectedLabels);
+    const predicted = new Set(entry.predictedLabels);
+
+    for (const label of predicted) {
+      const hit = expected.has(label);
+      const counts = countsFor(label);
+      if (hit) counts.truePositives += 1;
+      else counts.falsePositives += 1;
+      if (!PRIMARY_LABELS.has(label)) {
+        if (hit) crossTags.truePositives += 1;
+        else crossTags.falsePositives += 1;
+      }
+    }
+    for (const label of expected) {
+      if (predicted.has(label)) continue;
+      countsFor(label).falseNegatives += 1;
+      if (!PRIMARY_LABELS.has(label)) crossTags.falseNegatives += 1;
+    }
+
+    if (!entry.primaryCorrect) {
+      const key = `${entry.expectedCategory}\u0000${entry.predictedCategory}`;
+      const existing = confusion.get(key);
+      if (existing) existing.count += 1;
+      else confusion.set(key, { expected: entry.expectedCategory, predicted: entry.predictedCategory, count: 1 });
+    }
+  }
+
+  const correct = cases.filter((entry) => entry.primaryCorrect).length;
+
+  return {
+    mode: meta.mode,
+    model: meta.model,
+    runAt: meta.runAt ?? new Date().toISOString(),
+    caseCount: cases.length,
+    primaryAccuracy: ratio(correct, cases.length),
+    crossTags: withRatios(crossTags),
+    categoryConfusion: Array.from(confusion.values()).sort(
+      (a, b) => b.count - a.count || a.expected.localeCompare(b.expected)
+    ),
+    labels: Array.from(labelCounts.entries())
+      .map(([label, counts]) => ({
+        label,
+        kind: PRIMARY_LABELS.has(label) ? ("primary" as const) : ("cross" as const),
+        ...withRatios(counts),
+      }))
+      .sort((a, b) => (a.kind === b.kind ? a.label.localeCompare(b.label) : a.kind === "primary" ? -1 : 1)),
+    cases,
+  };
+}
+
+export function diffClassificationEvalReports(
+  previous: ClassificationEvalReport,
+  current: ClassificationEvalReport
+): ClassificationEvalDiff {
+  const previousLabels = new Map(previous.labels.map((stat) => [stat.label, stat]));
+  const labels = current.labels
+    .map((stat) => {
+      const before = previousLabels.get(stat.label);
+      return {
+        label: stat.label,
+        precisionDelta: delta(before?.precision, stat.precision),
+        recallDelta: delta(before?.recall, stat.recall),
+      };
+    })
+    .filter((entry) => (entry.precisionDelta ?? 0) !== 0 || (entry.recallDelta ?? 0) !== 0);
+
+  const previousCases = new Map(previous.cases.map((entry) => [entry.id, entry]));
+  const fixed: string[] = [];
+  const regressed: string[] = [];
+  for (const entry of current.cases) {
+    const before = previousCases.get(entry.id);
+    if (!before || before.primaryCorrect === entry.primaryCorrect) continue;
+    (entry.primaryCorrect ? fixed : regressed).push(entry.id);
+  }
+
+  return {
+    primaryAccuracyDelta: delta(previous.primaryAccuracy, current.primaryAccuracy),
+    crossTagPrecisionDelta: delta(previous.crossTags.precision, current.crossTags.precision),
+    crossTagRecallDelta: delta(previous.crossTags.recall, current.crossTags.recall),
+    labels,
+    fixed,
+    regressed,
+  };
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(value: number | null): string {
+  if (value === null || value === 0) return "";
+  const points = (value * 100).toFixed(1);
+  return ` (${value > 0 ? "+" : ""}${points} pts)`;
+}
+
+export function formatClassificationEvalReport(
+  report: ClassificationEvalReport,
+  diff: ClassificationEvalDiff | null
+): string {
+  const correct = report.cases.filter((entry) => entry.primaryCorrect).length;
+  const labelDeltas = new Map((diff?.labels ?? []).map((entry) => [entry.label, entry]));
+  const lines = [
+    `Classification eval: ${report.mode}${report.model ? ` (${report.model})` : ""}, ${report.caseCount} emails`,
+    `Primary category accuracy: ${formatPercent(report.primaryAccuracy)} (${correct}/${report.caseCount})${formatDelta(
+      diff?.primaryAccuracyDelta ?? null
+    )}`,
+    `Cross-tags: precision ${formatPercent(report.crossTags.precision)}${formatDelta(
+      diff?.crossTagPrecisionDelta ?? null
+    )}, recall ${formatPercent(report.crossTags.recall)}${formatDelta(diff?.crossTagRecallDelta ?? null)}`,
+    "",
+    "Per-label confusion:",
+    `  ${"label".padEnd(34)} ${"kind".padEnd(7)} ${"TP".padStart(3)} ${"FP".padStart(3)} ${"FN".padStart(3)}  precision  recall`,
+  ];
+
+  for (const stat of report.labels) {
+    const change = labelDeltas.get(stat.label);
+    lines.push(
+      `  ${stat.label.padEnd(34)} ${stat.kind.padEnd(7)} ${String(stat.truePositives).padStart(3)} ${String(
+        stat.falsePositives
+      ).padStart(3)} ${String(stat.falseNegatives).padStart(3)}  ${formatPercent(stat.precision).padStart(9)}  ${formatPercent(
+        stat.recall
+      ).padStart(6)}${change ? `${formatDelta(change.precisionDelta)}${formatDelta(change.recallDelta)}` : ""}`
+    );
+  }
+
+  if (report.categoryConfusion.length > 0) {
+    lines.push("", "Primary category mix-ups (expected -> predicted):");
+    for (const entry of report.categoryConfusion) {
+      lines.push(`  ${entry.expected} -> ${entry.predicted}: ${entry.count}`);
+    }
+  }
+
+  const failures = report.cases.filter((entry) => entry.error);
+  if (failures.length > 0) {
+    lines.push("", `${failures.length} emails fell back to heuristics after provider errors:`);
+    for (const entry of failures) {
+      lines.push(`  ${entry.id}: ${entry.error}`);
+    }
+  }
+
+  if (diff) {
+    lines.push("", "Changes since previous run:");
+    lines.push(`  fixed: ${diff.fixed.length > 0 ? diff.fixed.join(", ") : "none"}`);
+    lines.push(`  regressed: ${diff.regressed.length > 0 ? diff.regressed.join(", ") : "none"}`);
+  }
+
+  return lines.join("\n");
+}
+
+export interface ClassificationEvalArgs {
+  mode: ClassificationEvalMode;
+  outputPath: string;
+  /** JSON file with classification prompt settings to evaluate instead of the built-in prompt. */
+  promptPath: string | null;
+}
+
+export function parseClassificationEvalArgs(argv: string[]): ClassificationEvalArgs {
+  const args: ClassificationEvalArgs = { mode: "heuristics", outputPath: DEFAULT_OUTPUT_PATH, promptPath: null };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split("=", 2);
+    if (flag === "--provider" && value) {
+      if (value !== "heuristics" && !LLM_PROVIDER_NAMES.includes(value as LlmProviderName)) {
+        throw new Error(`Unknown provider "${value}"; expected heuristics, ${LLM_PROVIDER_NAMES.join(", ")}`);
+      }
+      args.mode = value as ClassificationEvalMode;
+    } else if (flag === "--output" && value) {
+      args.outputPath = value;
+    } else if (flag === "--prompt" && value) {
+      args.promptPath = value;
+    } else {
+      throw new Error(`Unknown argument "${arg}"`);
+    }
+  }
+
+  return args;
+}
+
+async function readPreviousReport(filePath: string): Promise<ClassificationEvalReport | null> {
+  try {
+    return JSON.parse(await readFile(filePath, "utf8")) as ClassificationEvalReport;
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+async function runClassificationEvalJob(argv: string[]): Promise<ClassificationEvalReport> {
+  const args = parseClassificationEvalArgs(argv);
+
+  let prompt: ClassificationPromptSettings | null = null;
+  if (args.promptPath) {
+    prompt = normalizeClassificationPromptSettings(JSON.parse(await readFile(args.promptPath, "utf8")));
+  }
+
+  const baseDeps = { heuristicLabels, normaliseLabels, ensureDefaultLabelCoverage, selectPrimaryCategory };
+  const llmUsage = createLlmUsageTracker();
+  let model: string | null = null;
+  let deps: ClassificationDependencies;
+
+  if (args.mode === "heuristics") {
+    deps = {
+      ...baseDeps,
+      analyzeEmail: async () => {
+        throw new Error("Model calls are disabled in heuristics mode");
+      },
+    };
+  } else {
+    const provider = createLlmProvider({
+      ...resolveLlmProviderConfig({ ...process.env, LLM_PROVIDER: args.mode }),
+      onUsage: llmUsage.record,
+    });
+    model = prompt?.model ?? provider.model;
+    deps = {
+      ...baseDeps,
+      analyzeEmail: (input, options) => analyzeEmail(input, { ...options, prompt, provider }),
+    };
+  }
+
+  const cases = await runClassificationEval(GOLDEN_EMAILS, deps);
+  if (args.mode === "heuristics") {
+    // Every case "fails" over to heuristics on purpose here; those errors are noise
+    cases.forEach((entry) => {
+      entry.error = null;
+    });
+  }
+
+  const report = buildClassificationEvalReport(cases, { mode: args.mode, model });
+  const previous = await readPreviousReport(args.outputPath);
+
+  console.log(formatClassificationEvalReport(report, previous ? diffClassificationEvalReports(previous, report) : null));
+  if (args.mode !== "heuristics") {
+    console.log("\nLLM usage:", llmUsage.totals());
+  }
+
+  await mkdir(path.dirname(args.outputPath), { recursive: true });
+  await writeFile(args.outputPath, `${JSON.stringify(report, null, 2)}\n`, "utf8");
+  console.log(`\nSaved results to ${args.outputPath}`);
+
+  return report;
+}
+
+const isExecutedDirectly = (() => {
+  if (!process.argv[1]) return false;
+  try {
+    const current = fileURLToPath(import.meta.url);
+    return current === process.argv[1];
+  } catch (err) {
+    return false;
+  }
+})();
+
+if (isExecutedDirectly) {
+  runClassificationEvalJob(process.argv.slice(2)).catch((err) => {
+    console.error("Classification eval failed", err);
+    process.exitCode = 1;
+  });
+}
+
+export { runClassificationEvalJob };
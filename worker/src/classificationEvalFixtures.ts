@@ -0,0 +1,203 @@
+import type { EmailLabel } from "@kazador/shared";
+
+export interface GoldenEmailFixture {
+  id: string;
+  subject: string;
+  body: string;
+  fromName: string | null;
+  fromEmail: string;
+  /** Expected labels with the primary label first, as the classifier should return them. */
+  expectedLabels: EmailLabel[];
+}
+
+/**
+ * Anonymised emails with hand-checked labels. The first entries mirror the
+ * messages mocked in `__tests__/classifyEmail.test.ts`; add a case here
+ * whenever a misclassification is fixed so the eval guards against it.
+ */
+export const GOLDEN_EMAILS: GoldenEmailFixture[] = [
+  {
+    id: "legal-contract-draft",
+    subject: "Contract - Fabric London",
+    body: "Hi, please review the attached contract draft for the Fabric show and send back any redlines by Friday.",
+    fromName: "Legal Team",
+    fromEmail: "legal@venue.example.com",
+    expectedLabels: ["LEGAL/Contract_Draft", "venue/Fabric", "city/London"],
+  },
+  {
+    id: "booking-show-offer",
+    subject: "Show offer",
+    body: "We'd like to make an offer for a headline slot: 1,500 cap room, EUR 6,000 guarantee vs 80% of net door. Venue details below.",
+    fromName: "Promoter",
+    fromEmail: "promoter@example.com",
+    expectedLabels: ["BOOKING/Offer"],
+  },
+  {
+    id: "promo-interview-request",
+    subject: "Interview request",
+    body: "Our magazine is running a press feature on the new album and would love a 20 minute interview slot next week.",
+    fromName: "Journalist",
+    fromEmail: "press@example.com",
+    expectedLabels: ["PROMO/Press_Feature"],
+  },
+  {
+    id: "finance-invoice",
+    subject: "Invoice",
+    body: "Attached is invoice #2231 for the May production costs. Payment due within 30 days.",
+    fromName: "Accounting",
+    fromEmail: "accounting@example.com",
+    expectedLabels: ["FINANCE/Invoice"],
+  },
+  {
+    id: "assets-artwork-files",
+    subject: "Artwork files",
+    body: "Here are the final poster and banner files for the tour announcement.",
+    fromName: "Designer",
+    fromEmail: "design@example.com",
+    expectedLabels: ["ASSETS/Artwork"],
+  },
+  {
+    id: "booking-hold-tokyo",
+    subject: "Avail check - Tokyo 10 May",
+    body: "Can you pencil a first hold for 10 May 2026 at Liquid Room while we confirm budget with the festival?",
+    fromName: "Agent",
+    fromEmail: "agent@agency.example.com",
+    expectedLabels: ["BOOKING/Hold_or_Availability", "city/Tokyo", "territory/JP", "date/2026-05-10"],
+  },
+  {
+    id: "booking-confirmation",
+    subject: "Confirmed: Dublin 12 June",
+    body: "Great news, the Dublin date is locked in. Contract to follow from our legal team.",
+    fromName: "Promoter",
+    fromEmail: "bookings@promoter.example.com",
+    expectedLabels: ["BOOKING/Confirmation", "city/Dublin"],
+  },
+  {
+    id: "booking-reschedule",
+    subject: "Date change for Berlin show",
+    body: "Unfortunately we need to postpone the Berlin show to September because of venue works.",
+    fromName: "Promoter",
+    fromEmail: "promoter@berlin.example.com",
+    expectedLabels: ["BOOKING/Reschedule_or_Cancel", "city/Berlin"],
+  },
+  {
+    id: "legal-executed",
+    subject: "Fully executed agreement",
+    body: "Please find the counter-signed contract attached for your records.",
+    fromName: "Business Affairs",
+    fromEmail: "ba@label.example.com",
+    expectedLabels: ["LEGAL/Contract_Executed", "status/signed"],
+  },
+  {
+    id: "finance-settlement",
+    subject: "Show statement - Manchester",
+    body: "Attached is the settlement report with the net payout after costs.",
+    fromName: "Tour Accountant",
+    fromEmail: "accounts@tour.example.com",
+    expectedLabels: ["FINANCE/Settlement", "city/Manchester"],
+  },
+  {
+    id: "finance-banking",
+    subject: "Updated bank details",
+    body: "Please use the new IBAN and SWIFT below for all future payments.",
+    fromName: "Management",
+    fromEmail: "office@management.example.com",
+    expectedLabels: ["FINANCE/Banking_Details"],
+  },
+  {
+    id: "finance-tax",
+    subject: "W-8BEN needed before payment",
+    body: "We cannot release the fee until we receive a signed tax form.",
+    fromName: "Festival Finance",
+    fromEmail: "finance@festival.example.com",
+    expectedLabels: ["FINANCE/Tax_Docs", "risk/payment_delay"],
+  },
+  {
+    id: "logistics-travel",
+    subject: "Flights for Lisbon",
+    body: "Your flight booking reference is ABC123, departing 08:15 from LHR.",
+    fromName: "Travel Agent",
+    fromEmail: "travel@example.com",
+    expectedLabels: ["LOGISTICS/Travel", "city/Lisbon"],
+  },
+  {
+    id: "logistics-accommodation",
+    subject: "Hotel rooming list",
+    body: "Please send the rooming list for the hotel by Thursday so we can confirm the block.",
+    fromName: "Production",
+    fromEmail: "production@example.com",
+    expectedLabels: ["LOGISTICS/Accommodation"],
+  },
+  {
+    id: "logistics-tech-advance",
+    subject: "Tech rider and stage plot",
+    body: "Attached is our technical advance pack with the input list and backline requirements.",
+    fromName: "Production Manager",
+    fromEmail: "pm@venue.example.com",
+    expectedLabels: ["LOGISTICS/Technical_Advance"],
+  },
+  {
+    id: "logistics-visa",
+    subject: "Work permit paperwork",
+    body: "We need passport details to start the immigration application for the US dates.",
+    fromName: "Visa Services",
+    fromEmail: "visas@example.com",
+    expectedLabels: ["LOGISTICS/Visas_Immigration", "territory/US"],
+  },
+  {
+    id: "logistics-guest-list",
+    subject: "Guest list for Saturday",
+    body: "Can you send names for the guest list and any AAA pass requests?",
+    fromName: "Venue Manager",
+    fromEmail: "manager@venue.example.com",
+    expectedLabels: ["LOGISTICS/Passes_Access"],
+  },
+  {
+    id: "promo-radio",
+    subject: "Radio premiere next week",
+    body: "The station would like to premiere the single on Tuesday's show and add it to the playlist.",
+    fromName: "Radio Plugger",
+    fromEmail: "plugger@example.com",
+    expectedLabels: ["PROMO/Radio_Playlist"],
+  },
+  {
+    id: "promo-submission",
+    subject: "Sending a track for consideration",
+    body: "Hi! I'm a producer from Leeds, here's my demo. Would love your feedback.",
+    fromName: "Producer",
+    fromEmail: "producer@example.com",
+    expectedLabels: ["PROMO/Promos_Submission"],
+  },
+  {
+    id: "assets-audio",
+    subject: "Final masters",
+    body: "WAV masters and instrumental stems are in the shared folder.",
+    fromName: "Mastering Engineer",
+    fromEmail: "studio@example.com",
+    expectedLabels: ["ASSETS/Audio", "assettype/wav"],
+  },
+  {
+    id: "fan-thanks",
+    subject: "Thank you!",
+    body: "Big fan from Cork, just wanted to say thank you for the show last night.",
+    fromName: null,
+    fromEmail: "fan@example.com",
+    expectedLabels: ["FAN/Support_or_Thanks"],
+  },
+  {
+    id: "fan-safety",
+    subject: "Concern about last night",
+    body: "I want to report harassment near the barrier during the encore. Security did not respond.",
+    fromName: null,
+    fromEmail: "attendee@example.com",
+    expectedLabels: ["FAN/Issues_or_Safety"],
+  },
+  {
+    id: "misc-newsletter",
+    subject: "Weekly newsletter",
+    body: "Catch up on this week's industry news and upcoming webinars.",
+    fromName: "Newsletter",
+    fromEmail: "news@example.com",
+    expectedLabels: ["MISC/Uncategorized"],
+  },
+];
@@ -0,0 +1,41 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  normalizeClassificationPromptSettings,
+  type ClassificationPromptSettings,
+} from "@kazador/shared";
+
+type SupabaseDb = SupabaseClient<any, any, any>;
+
+export interface ActiveClassificationPrompt {
+  version: number;
+  settings: ClassificationPromptSettings;
+}
+
+/**
+ * Loads the prompt configuration admins marked active. Returns null when none
+ * has been saved yet (or it cannot be read) so classification falls back to
+ * the built-in prompt instead of stalling ingestion.
+ */
+export async function loadActiveClassificationPrompt(
+  supabase: SupabaseDb
+): Promise<ActiveClassificationPrompt | null> {
+  const { data, error } = await supabase
+    .from("classification_prompt_versions")
+    .select("version, settings")
+    .eq("is_active", true)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load classification prompt settings", error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return {
+    version: Number(data.version),
+    settings: normalizeClassificationPromptSettings(data.settings),
+  };
+}
@@ -3,10 +3,12 @@ import {
   EMAIL_FALLBACK_LABEL,
   normaliseEmailSentiment,
   type EmailAnalysisInput,
+  type EmailAnalysisOptions,
   type EmailAnalysisResult,
   type EmailLabel,
   type EmailSentiment,
 } from "@kazador/shared";
+import type { ActiveClassificationPrompt } from "./classificationPrompt.js";
 
 export interface ClassificationInput {
   subject: string;
@@ -19,7 +21,9 @@ export interface ClassificationInput {
 }
 
 export interface ClassificationDependencies {
-  analyzeEmail(input: EmailAnalysisInput): Promise<EmailAnalysisResult>;
+  analyzeEmail(input: EmailAnalysisInput, options?: EmailAnalysisOptions): Promise<EmailAnalysisResult>;
+  /** Active admin prompt configuration; the model defaults apply when absent. */
+  prompt?: ActiveClassificationPrompt | null;
   heuristicLabels(subject: string, body: string): EmailLabel[];
   normaliseLabels(value: unknown): EmailLabel[];
   ensureDefaultLabelCoverage(labels: EmailLabel[]): EmailLabel[];
@@ -36,6 +40,8 @@ export interface ClassificationResult {
   usedCachedLabels: boolean;
   usedAi: boolean;
   usedHeuristics: boolean;
+  /** Prompt version that produced the labels, when the model was called. */
+  promptVersion: number | null;
 }
 
 export async function classifyEmail(
@@ -58,12 +64,15 @@ export async function classifyEmail(
 
   if (shouldCallAi) {
     try {
-      const aiResult = await deps.analyzeEmail({
-        subject: input.subject,
-        body: input.body,
-        fromName: input.fromName,
-        fromEmail: input.fromEmail,
-      });
+      const aiResult = await deps.analyzeEmail(
+        {
+          subject: input.subject,
+          body: input.body,
+          fromName: input.fromName,
+          fromEmail: input.fromEmail,
+        },
+        { prompt: deps.prompt?.settings ?? null }
+      );
       usedAi = true;
       if (aiResult.summary && typeof aiResult.summary === "string") {
         summary = aiResult.summary.trim();
@@ -102,5 +111,6 @@ export async function classifyEmail(
     usedCachedLabels,
     usedAi,
     usedHeuristics,
+    promptVersion: usedAi ? deps.prompt?.version ?? null : null,
   };
 }
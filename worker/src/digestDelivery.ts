@@ -0,0 +1,418 @@
+import { config } from "dotenv";
+config();
+
+import { createHmac } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import nodemailer from "nodemailer";
+import {
+  DIGEST_DELIVERY_MAX_ATTEMPTS,
+  getDigestRetryDelayMs,
+  getSlackApprovalSigningInput,
+  getQuietHoursRemainingMinutes,
+  normalizeSlackSettings,
+  parseQuietHours,
+  renderDigestEmail,
+  renderDigestSlackMessage,
+  type DigestPayload,
+  type SlackApprovalActionValue,
+  type SlackMessage,
+  type SlackSettings,
+} from "@kazador/shared";
+
+type ServiceClient = SupabaseClient<any, any, any>;
+
+const DELIVERY_BATCH_SIZE = 100;
+
+export interface DigestEmailMessage {
+  to: string;
+  from: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface DigestTransport {
+  name: string;
+  send(message: DigestEmailMessage): Promise<{ messageId: string | null }>;
+}
+
+export type SlackPoster = (webhookUrl: string, message: SlackMessage) => Promise<void>;
+
+export interface QueuedDigest {
+  id: string;
+  userId: string;
+  channel: "email" | "slack";
+  generatedFor: string;
+  payload: DigestPayload;
+  attempts: number;
+}
+
+export interface DigestRecipient {
+  email: string | null;
+  name: string | null;
+  timezone: string;
+  quietHours: Record<string, unknown> | null;
+  slack: SlackSettings;
+}
+
+export interface DigestDeliveryUpdate {
+  status: "queued" | "sent" | "failed";
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+}
+
+export interface DigestDeliveryOptions {
+  transport: DigestTransport | null;
+  postSlack?: SlackPoster;
+  from: string;
+  appUrl?: string | null;
+  /** Server secret for signing Slack approval buttons; without it they are left out. */
+  slackApprovalSecret?: string | null;
+  now?: Date;
+}
+
+export function createSmtpTransport(options: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string | null;
+  password?: string | null;
+}): DigestTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password ?? "" } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { messageId: info.messageId ?? null };
+    },
+  };
+}
+
+/**
+ * Writes each message to disk (or stdout when no directory is given) so
+ * digests can be inspected locally without an SMTP server.
+ */
+export function createFileTransport(directory: string | null): DigestTransport {
+  return {
+    name: directory ? "file" : "console",
+    async send(message) {
+      const messageId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+      if (!directory) {
+        console.log(`[digest-delivery] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+        return { messageId };
+      }
+
+      await mkdir(directory, { recursive: true });
+      const base = path.join(directory, messageId);
+      const header = `From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n`;
+      await writeFile(`${base}.txt`, header + message.text, "utf8");
+      await writeFile(`${base}.html`, message.html, "utf8");
+      return { messageId };
+    },
+  };
+}
+
+export const postSlackWebhook: SlackPoster = async (webhookUrl, message) => {
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(message),
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`Slack webhook responded with ${response.status}${body ? `: ${body}` : ""}`);
+  }
+};
+
+export function signSlackApprovalValue(secret: string, value: SlackApprovalActionValue): string {
+  return createHmac("sha256", secret).update(getSlackApprovalSigningInput(value)).digest("hex");
+}
+
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): DigestTransport {
+  const kind = (env.DIGEST_TRANSPORT ?? "smtp").toLowerCase();
+
+  if (kind === "file") {
+    return createFileTransport(env.DIGEST_FILE_DIR ?? "digest-outbox");
+  }
+  if (kind === "console") {
+    return createFileTransport(null);
+  }
+  if (kind !== "smtp") {
+    throw new Error(`Unknown DIGEST_TRANSPORT: ${kind}`);
+  }
+
+  const host = env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP_HOST is required when DIGEST_TRANSPORT=smtp");
+  }
+  const port = Number(env.SMTP_PORT ?? 587);
+  return createSmtpTransport({
+    host,
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+    user: env.SMTP_USER ?? null,
+    password: env.SMTP_PASSWORD ?? null,
+  });
+}
+
+/**
+ * Attempts a single queued digest and returns the row update to persist.
+ * Digests inside the recipient's quiet hours are pushed back to the end of
+ * the window without consuming an attempt.
+ */
+export async function deliverDigest(
+  digest: QueuedDigest,
+  recipient: DigestRecipient,
+  options: DigestDeliveryOptions
+): Promise<DigestDeliveryUpdate> {
+  const now = options.now ?? new Date();
+  const quietMinutes = getQuietHoursRemainingMinutes(parseQuietHours(recipient.quietHours), recipient.timezone, now);
+
+  if (quietMinutes > 0) {
+    return {
+      status: "queued",
+      attempts: digest.attempts,
+      nextAttemptAt: new Date(now.getTime() + quietMinutes * 60 * 1000).toISOString(),
+      lastError: null,
+      deliveredAt: null,
+    };
+  }
+
+  const attempts = digest.attempts + 1;
+
+  try {
+    if (digest.channel === "slack") {
+      if (!recipient.slack.enabled || !recipient.slack.webhookUrl) {
+        throw new Error("Slack webhook is not configured");
+      }
+      const approvalSecret = options.slackApprovalSecret;
+      const message = renderDigestSlackMessage(digest.payload, {
+        generatedFor: digest.generatedFor,
+        userId: digest.userId,
+        appUrl: options.appUrl ?? null,
+        includeApprovals: recipient.slack.includeApprovals,
+        signApprovalValue: approvalSecret ? (value) => signSlackApprovalValue(approvalSecret, value) : undefined,
+      });
+      await (options.postSlack ?? postSlackWebhook)(recipient.slack.webhookUrl, message);
+      return { status: "sent", attempts, nextAttemptAt: null, lastError: null, deliveredAt: now.toISOString() };
+    }
+
+    if (!options.transport) {
+      throw new Error("No email transport is configured");
+    }
+    if (!recipient.email) {
+      throw new Error("Recipient has no email address");
+    }
+
+    const rendered = renderDigestEmail(digest.payload, {
+      generatedFor: digest.generatedFor,
+      recipientName: recipient.name,
+      appUrl: options.appUrl ?? null,
+    });
+
+    await options.transport.send({
+      to: recipient.email,
+      from: options.from,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+    });
+
+    return { status: "sent", attempts, nextAttemptAt: null, lastError: null, deliveredAt: now.toISOString() };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const exhausted = attempts >= DIGEST_DELIVERY_MAX_ATTEMPTS;
+    return {
+      status: exhausted ? "failed" : "queued",
+      attempts,
+      nextAttemptAt: exhausted ? null : new Date(now.getTime() + getDigestRetryDelayMs(attempts)).toISOString(),
+      lastError: message,
+      deliveredAt: null,
+    };
+  }
+}
+
+async function getClient(): Promise<ServiceClient> {
+  const url = process.env.SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for digest delivery");
+  }
+  return createClient(url, serviceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+function parsePayload(value: unknown): DigestPayload {
+  const parsed = value && typeof value === "object" ? value : JSON.parse(String(value));
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Digest payload is not an object");
+  }
+  return parsed as DigestPayload;
+}
+
+async function loadRecipient(client: ServiceClient, userId: string): Promise<DigestRecipient> {
+  const [profileRes, preferenceRes] = await Promise.all([
+    client.from("profiles").select("email, full_name").eq("id", userId).maybeSingle(),
+    client.from("user_preferences").select("timezone, quiet_hours, slack_settings").eq("user_id", userId).maybeSingle(),
+  ]);
+
+  if (profileRes.error) throw profileRes.error;
+  if (preferenceRes.error) throw preferenceRes.error;
+
+  const quietHoursRaw = preferenceRes.data?.quiet_hours ?? null;
+  return {
+    email: (profileRes.data?.email as string) ?? null,
+    name: (profileRes.data?.full_name as string) ?? null,
+    timezone: (preferenceRes.data?.timezone as string) ?? "UTC",
+    quietHours:
+      quietHoursRaw && typeof quietHoursRaw === "object"
+        ? (quietHoursRaw as Record<string, unknown>)
+        : quietHoursRaw
+        ? JSON.parse(String(quietHoursRaw))
+        : null,
+    slack: normalizeSlackSettings(preferenceRes.data?.slack_settings ?? null),
+  };
+}
+
+async function deliverQueuedDigests(emailTransport?: DigestTransport): Promise<void> {
+  const client = await getClient();
+  let transport: DigestTransport | null = emailTransport ?? null;
+  if (!transport) {
+    try {
+      transport = createTransportFromEnv();
+    } catch (err) {
+      console.warn("[digest-delivery] Email transport unavailable; email digests will be retried", err);
+    }
+  }
+
+  const now = new Date();
+  const from = process.env.DIGEST_FROM_EMAIL ?? "digest@kazador.app";
+  const appUrl = process.env.APP_BASE_URL ?? null;
+  const slackApprovalSecret = process.env.SLACK_APPROVAL_SECRET ?? null;
+
+  const { data, error } = await client
+    .from("digests")
+    .select("id, user_id, generated_for, channel, payload, attempts, next_attempt_at")
+    .in("channel", ["email", "slack"])
+    .eq("status", "queued")
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}`)
+    .order("created_at", { ascending: true })
+    .limit(DELIVERY_BATCH_SIZE);
+
+  if (error) {
+    throw error;
+  }
+
+  const recipients = new Map<string, DigestRecipient>();
+
+  for (const row of data ?? []) {
+    let digest: QueuedDigest;
+    try {
+      digest = {
+        id: row.id as string,
+        userId: row.user_id as string,
+        channel: row.channel === "slack" ? "slack" : "email",
+        generatedFor: String(row.generated_for),
+        payload: parsePayload(row.payload),
+        attempts: row.attempts != null ? Number(row.attempts) : 0,
+      };
+    } catch (err) {
+      // Retrying cannot fix a malformed payload, so fail the row and carry on with the batch.
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[digest-delivery] Digest ${row.id} has an unreadable payload`, err);
+      const { error: failError } = await client
+        .from("digests")
+        .update({ status: "failed", next_attempt_at: null, last_error: `Invalid payload: ${message}` })
+        .eq("id", row.id);
+      if (failError) {
+        console.error(`[digest-delivery] Failed to mark digest ${row.id} as failed`, failError);
+      }
+      continue;
+    }
+
+    try {
+      let recipient = recipients.get(digest.userId);
+      if (!recipient) {
+        recipient = await loadRecipient(client, digest.userId);
+        recipients.set(digest.userId, recipient);
+      }
+
+      const update = await deliverDigest(digest, recipient, {
+        transport,
+        from,
+        appUrl,
+        slackApprovalSecret,
+        now,
+      });
+
+      const { error: updateError } = await client
+        .from("digests")
+        .update({
+          status: update.status,
+          attempts: update.attempts,
+          next_attempt_at: update.nextAttemptAt,
+          last_error: update.lastError,
+          delivered_at: update.deliveredAt,
+        })
+        .eq("id", digest.id);
+
+      if (updateError) throw updateError;
+
+      if (update.status !== "queued" || update.lastError) {
+        await client.from("action_logs").insert({
+          user_id: digest.userId,
+          action: update.status === "sent" ? "digest.delivered" : "digest.delivery_failed",
+          project_id: null,
+          ref_id: `${digest.generatedFor}:${digest.channel}`,
+          metadata: {
+            transport: digest.channel === "slack" ? "slack" : transport?.name ?? null,
+            attempts: update.attempts,
+            error: update.lastError,
+            nextAttemptAt: update.nextAttemptAt,
+          },
+        });
+      }
+    } catch (err) {
+      console.error(`[digest-delivery] Failed to process digest ${digest.id}`, err);
+    }
+  }
+}
+
+const isExecutedDirectly = (() => {
+  if (!process.argv[1]) return false;
+  try {
+    const current = fileURLToPath(import.meta.url);
+    return current === process.argv[1];
+  } catch (err) {
+    return false;
+  }
+})();
+
+if (isExecutedDirectly) {
+  deliverQueuedDigests()
+    .then(() => {
+      console.log("Digest delivery completed");
+    })
+    .catch((err) => {
+      console.error("Digest delivery failed", err);
+      process.exitCode = 1;
+    });
+}
+
+export { deliverQueuedDigests };
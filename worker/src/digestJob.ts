@@ -10,9 +10,10 @@ import {
   ensureDefaultLabelCoverage,
   normaliseLabel,
   normaliseLabels,
-  normalizePriorityConfigInput,
+  resolveStoredPriorityConfig,
   getTimelineLaneForType,
   type DigestPayload,
+  type DigestWokenEmail,
   type ProjectRecord,
   type ProjectTaskRecord,
   type TimelineItemRecord,
@@ -53,6 +54,8 @@ function mapProjectRow(row: any): ProjectRecord {
     color: (row.color as string) ?? null,
     labels: parseJson(row.labels),
     priorityProfile: row.priority_profile ?? null,
+    templateId: (row.template_id as string) ?? null,
+    templateVersion: row.template_version != null ? Number(row.template_version) : null,
     createdBy: (row.created_by as string) ?? null,
     createdAt: String(row.created_at),
     updatedAt: String(row.updated_at),
@@ -188,7 +191,7 @@ function mapPreferenceRow(row: any): UserPreferenceRecord {
   if (rawPriorityConfig) {
     try {
       const parsed = typeof rawPriorityConfig === "object" ? rawPriorityConfig : JSON.parse(String(rawPriorityConfig));
-      priorityConfig = normalizePriorityConfigInput(parsed);
+      priorityConfig = resolveStoredPriorityConfig(parsed);
       priorityConfigSource = "custom";
     } catch (err) {
       priorityConfig = DEFAULT_PRIORITY_CONFIG;
@@ -213,6 +216,7 @@ function mapPreferenceRow(row: any): UserPreferenceRecord {
     priorityConfig,
     priorityConfigSource,
     priorityConfigUpdatedAt,
+    includeWokenSnoozes: row.digest_include_woken_snoozes !== false,
     createdAt: String(row.created_at),
     updatedAt: String(row.updated_at ?? row.created_at),
   } satisfies UserPreferenceRecord;
@@ -434,6 +438,31 @@ async function buildDigestForUser(
   return { payload, projects: digestProjects };
 }
 
+const WOKEN_EMAIL_WINDOW_MS = 24 * 60 * 60 * 1000;
+const WOKEN_EMAIL_LIMIT = 10;
+
+async function loadWokenEmails(client: ServiceClient, userId: string, now: Date): Promise<DigestWokenEmail[]> {
+  const { data, error } = await client
+    .from("emails")
+    .select("id, subject, from_name, from_email, snooze_woken_at, priority_score")
+    .eq("user_id", userId)
+    .neq("triage_state", "resolved")
+    .gte("snooze_woken_at", new Date(now.getTime() - WOKEN_EMAIL_WINDOW_MS).toISOString())
+    .order("priority_score", { ascending: false, nullsFirst: false })
+    .limit(WOKEN_EMAIL_LIMIT);
+
+  if (error) throw error;
+
+  return (data ?? []).map((row: any) => ({
+    emailId: row.id as string,
+    subject: (row.subject as string) ?? "",
+    fromName: (row.from_name as string) ?? null,
+    fromEmail: row.from_email as string,
+    wokenAt: String(row.snooze_woken_at),
+    priorityScore: row.priority_score != null ? Number(row.priority_score) : null,
+  }));
+}
+
 async function persistDigest(
   client: ServiceClient,
   userId: string,
@@ -495,6 +524,9 @@ async function generateDailyDigests(): Promise<void> {
       }
 
       const { payload } = await buildDigestForUser(client, userId, preferences.priorityConfig);
+      if (preferences.includeWokenSnoozes) {
+        payload.wokenEmails = await loadWokenEmails(client, userId, now);
+      }
 
       if (preferences.channels.includes("web")) {
         await persistDigest(client, userId, generatedFor, "web", payload, "generated");
@@ -0,0 +1,144 @@
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type SupabaseDb = SupabaseClient<any, any, any>;
+
+const GMAIL_REQUIRED_SCOPES = [
+  "https://www.googleapis.com/auth/gmail.readonly",
+  "https://www.googleapis.com/auth/gmail.modify",
+  "https://www.googleapis.com/auth/gmail.labels",
+];
+
+/** Confidence given to links created from an account's default project; below any manual link. */
+const ACCOUNT_DEFAULT_CONFIDENCE = 0.6;
+
+export interface GmailAccount {
+  id: string;
+  userId: string;
+  email: string | null;
+  refreshToken: string;
+  defaultProjectId: string | null;
+}
+
+export type GmailSyncResult = { ok: true; messageCount: number } | { ok: false; error: string };
+
+export function hasAllGmailScopes(scopes: unknown): boolean {
+  if (!Array.isArray(scopes)) {
+    return false;
+  }
+  return GMAIL_REQUIRED_SCOPES.every((scope) => scopes.includes(scope));
+}
+
+/** Every Google account with Gmail scopes, across all users; a user may have several. */
+export async function loadGmailAccounts(supabase: SupabaseDb): Promise<GmailAccount[]> {
+  const { data, error } = await supabase
+    .from("oauth_accounts")
+    .select("id, user_id, account_email, refresh_token, scopes, default_project_id")
+    .eq("provider", "google")
+    .not("refresh_token", "is", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Failed to load Gmail OAuth accounts", error);
+    return [];
+  }
+
+  const accounts: GmailAccount[] = [];
+  for (const row of data ?? []) {
+    const refreshToken = typeof row.refresh_token === "string" ? row.refresh_token : null;
+    const userId = typeof row.user_id === "string" ? row.user_id : null;
+    if (!refreshToken || !userId) {
+      continue;
+    }
+
+    if (!hasAllGmailScopes(row.scopes)) {
+      continue;
+    }
+
+    accounts.push({
+      id: String(row.id),
+      userId,
+      email: typeof row.account_email === "string" ? row.account_email : null,
+      refreshToken,
+      defaultProjectId: typeof row.default_project_id === "string" ? row.default_project_id : null,
+    });
+  }
+
+  return accounts;
+}
+
+/** Stores the outcome of a sync run so settings can show each mailbox's health. */
+export async function recordGmailSyncResult(
+  supabase: SupabaseDb,
+  accountId: string,
+  result: GmailSyncResult,
+  now: Date = new Date()
+): Promise<void> {
+  const update: Record<string, unknown> = result.ok
+    ? {
+        gmail_sync_status: "ok",
+        gmail_last_synced_at: now.toISOString(),
+        gmail_last_error: null,
+        gmail_last_message_count: result.messageCount,
+      }
+    : {
+        gmail_sync_status: "error",
+        gmail_last_error: result.error.slice(0, 500),
+      };
+
+  const { error } = await supabase.from("oauth_accounts").update(update).eq("id", accountId);
+  if (error) {
+    console.error(`Failed to record Gmail sync status for account ${accountId}`, error);
+  }
+}
+
+/**
+ * Links a message to the receiving account's default project when nothing
+ * else (rules, earlier manual links) has claimed it. Returns true when a link
+ * was created.
+ */
+export async function applyAccountDefaultProject(
+  supabase: SupabaseDb,
+  account: GmailAccount,
+  emailId: string
+): Promise<boolean> {
+  if (!account.defaultProjectId) {
+    return false;
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("project_email_links")
+    .select("id")
+    .eq("email_id", emailId)
+    .limit(1);
+
+  if (existingError) {
+    console.error(`Failed to check project links for email ${emailId}`, existingError);
+    return false;
+  }
+
+  if ((existing ?? []).length > 0) {
+    return false;
+  }
+
+  const { error } = await supabase.from("project_email_links").insert({
+    id: randomUUID(),
+    project_id: account.defaultProjectId,
+    email_id: emailId,
+    confidence: ACCOUNT_DEFAULT_CONFIDENCE,
+    source: "rule",
+    metadata: {
+      accountDefault: true,
+      accountId: account.id,
+      accountEmail: account.email,
+    },
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error(`Failed to link email ${emailId} to default project ${account.defaultProjectId}`, error);
+    return false;
+  }
+
+  return true;
+}
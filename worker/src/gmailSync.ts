@@ -0,0 +1,388 @@
+import type { gmail_v1 } from "googleapis";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  normaliseLabels,
+  selectPrimaryCategory,
+  EMAIL_FALLBACK_LABEL,
+  type EmailLabel,
+  type GmailSyncStateRecord,
+} from "@kazador/shared";
+
+type SupabaseDb = SupabaseClient<any, any, any>;
+
+export type GmailSyncMode = "incremental" | "full" | "backfill";
+
+const KAZADOR_LABEL_PREFIX = "Kazador/";
+const HISTORY_TYPES = ["messageAdded", "labelAdded", "labelRemoved"];
+/** Mail in these folders is never ingested, matching what messages.list returns by default. */
+const SKIPPED_SYSTEM_LABELS = new Set(["DRAFT", "SPAM", "TRASH"]);
+const DEFAULT_MAX_BACKFILL_MESSAGES = 2000;
+/** Failed messages kept for retry; older ones are dropped past this. */
+const MAX_FAILED_MESSAGE_IDS = 500;
+
+export interface GmailLabelChange {
+  added: Set<string>;
+  removed: Set<string>;
+  /** Full label set from the most recent history record that carried one. */
+  labelIds: string[] | null;
+}
+
+export interface GmailChangeSet {
+  mode: GmailSyncMode;
+  /** Messages to ingest, oldest first. */
+  messageIds: string[];
+  labelChanges: Map<string, GmailLabelChange>;
+  historyId: string | null;
+}
+
+export interface FetchGmailChangesOptions {
+  maxEmails: number;
+  backfillDays?: number | null;
+  maxBackfillMessages?: number;
+  now?: Date;
+}
+
+export function mapGmailSyncStateRow(row: Record<string, any>): GmailSyncStateRecord {
+  return {
+    id: row.id,
+    accountId: row.account_id,
+    historyId: row.history_id ?? null,
+    lastPolledAt: row.last_polled_at ?? null,
+    lastFullSyncAt: row.last_full_sync_at ?? null,
+    backfillDays: typeof row.backfill_days === "number" ? row.backfill_days : null,
+    lastError: row.last_error ?? null,
+    failedMessageIds: Array.isArray(row.failed_message_ids) ? row.failed_message_ids : [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function loadGmailSyncState(
+  supabase: SupabaseDb,
+  accountId: string
+): Promise<GmailSyncStateRecord | null> {
+  const { data, error } = await supabase
+    .from("gmail_sync_states")
+    .select("*")
+    .eq("account_id", accountId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data ? mapGmailSyncStateRow(data as Record<string, any>) : null;
+}
+
+export async function saveGmailSyncState(
+  supabase: SupabaseDb,
+  accountId: string,
+  update: {
+    historyId: string | null;
+    mode?: GmailSyncMode;
+    backfillDays?: number | null;
+    lastError: string | null;
+    /** Replaces the stored retry list when given; left untouched otherwise. */
+    failedMessageIds?: string[];
+  },
+  now: Date = new Date()
+): Promise<void> {
+  const nowIso = now.toISOString();
+  const payload: Record<string, unknown> = {
+    account_id: accountId,
+    history_id: update.historyId,
+    last_polled_at: nowIso,
+    last_error: update.lastError,
+    updated_at: nowIso,
+  };
+
+  if (update.failedMessageIds) {
+    payload.failed_message_ids = update.failedMessageIds.slice(-MAX_FAILED_MESSAGE_IDS);
+  }
+  if (update.mode === "full" || update.mode === "backfill") {
+    payload.last_full_sync_at = nowIso;
+  }
+  if (update.mode === "backfill" && update.backfillDays != null) {
+    payload.backfill_days = update.backfillDays;
+  }
+
+  const { error } = await supabase.from("gmail_sync_states").upsert(payload, { onConflict: "account_id" });
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Picks how to sync an account: a backfill when more days were requested than
+ * the last backfill covered, a full resync when there is no history cursor,
+ * otherwise an incremental history fetch.
+ */
+export function planGmailSync(
+  state: Pick<GmailSyncStateRecord, "historyId" | "backfillDays"> | null,
+  backfillDays?: number | null
+): GmailSyncMode {
+  if (backfillDays && backfillDays > 0 && (state?.backfillDays ?? 0) < backfillDays) {
+    return "backfill";
+  }
+  return state?.historyId ? "incremental" : "full";
+}
+
+function isSkippedMessage(labelIds: string[] | null | undefined): boolean {
+  return (labelIds ?? []).some((labelId) => SKIPPED_SYSTEM_LABELS.has(labelId));
+}
+
+/**
+ * Folds a page of history records into new message ids and per-message label
+ * deltas. Label changes for a message added in the same window are dropped
+ * since ingesting it reads its current labels anyway.
+ */
+export function collectGmailHistoryChanges(
+  history: gmail_v1.Schema$History[]
+): { messageIds: string[]; labelChanges: Map<string, GmailLabelChange> } {
+  const added = new Set<string>();
+  const labelChanges = new Map<string, GmailLabelChange>();
+
+  const changeFor = (messageId: string) => {
+    let change = labelChanges.get(messageId);
+    if (!change) {
+      change = { added: new Set(), removed: new Set(), labelIds: null };
+      labelChanges.set(messageId, change);
+    }
+    return change;
+  };
+
+  for (const record of history) {
+    for (const entry of record.messagesAdded ?? []) {
+      const message = entry.message;
+      if (!message?.id || isSkippedMessage(message.labelIds)) continue;
+      added.add(message.id);
+    }
+
+    for (const entry of record.labelsAdded ?? []) {
+      const messageId = entry.message?.id;
+      if (!messageId) continue;
+      const change = changeFor(messageId);
+      for (const labelId of entry.labelIds ?? []) {
+        change.added.add(labelId);
+        change.removed.delete(labelId);
+      }
+      if (entry.message?.labelIds) change.labelIds = entry.message.labelIds;
+    }
+
+    for (const entry of record.labelsRemoved ?? []) {
+      const messageId = entry.message?.id;
+      if (!messageId) continue;
+      const change = changeFor(messageId);
+      for (const labelId of entry.labelIds ?? []) {
+        change.removed.add(labelId);
+        change.added.delete(labelId);
+      }
+      if (entry.message?.labelIds) change.labelIds = entry.message.labelIds;
+    }
+  }
+
+  for (const messageId of added) {
+    labelChanges.delete(messageId);
+  }
+
+  return { messageIds: Array.from(added), labelChanges };
+}
+
+/**
+ * Applies a Gmail label delta to a stored email. `UNREAD` drives `is_read`;
+ * `Kazador/<label>` labels added or removed in Gmail add or remove the
+ * matching Kazador label. Returns null when nothing changes.
+ */
+export function applyGmailLabelChange(
+  current: { labels: EmailLabel[]; isRead: boolean },
+  change: GmailLabelChange,
+  labelNamesById: Map<string, string>
+): { labels: EmailLabel[]; category: EmailLabel; isRead: boolean } | null {
+  let isRead = current.isRead;
+  if (change.labelIds) {
+    isRead = !change.labelIds.includes("UNREAD");
+  } else if (change.added.has("UNREAD")) {
+    isRead = false;
+  } else if (change.removed.has("UNREAD")) {
+    isRead = true;
+  }
+
+  const toKazadorLabels = (labelIds: Set<string>) =>
+    normaliseLabels(
+      Array.from(labelIds)
+        .map((labelId) => labelNamesById.get(labelId))
+        .filter((name): name is string => Boolean(name?.startsWith(KAZADOR_LABEL_PREFIX)))
+        .map((name) => name.slice(KAZADOR_LABEL_PREFIX.length))
+    );
+
+  const removed = new Set(toKazadorLabels(change.removed));
+  const labels = current.labels.filter((label) => !removed.has(label));
+  for (const label of toKazadorLabels(change.added)) {
+    if (!labels.includes(label)) labels.push(label);
+  }
+
+  const labelsChanged =
+    labels.length !== current.labels.length || labels.some((label, index) => label !== current.labels[index]);
+  if (!labelsChanged && isRead === current.isRead) {
+    return null;
+  }
+
+  return {
+    labels,
+    category: selectPrimaryCategory(labels) ?? EMAIL_FALLBACK_LABEL,
+    isRead,
+  };
+}
+
+/**
+ * Messages that failed to ingest on an earlier run go first, followed by the
+ * new ones, without repeats.
+ */
+export function mergeRetryMessageIds(failedMessageIds: string[], messageIds: string[]): string[] {
+  return Array.from(new Set([...failedMessageIds, ...messageIds]));
+}
+
+export function isGmailNotFound(err: any): boolean {
+  const status = err?.code || err?.response?.status;
+  return status === 404;
+}
+
+async function listMessageIds(
+  gmail: gmail_v1.Gmail,
+  options: { maxResults: number; query?: string }
+): Promise<string[]> {
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const response = await gmail.users.messages.list({
+      userId: "me",
+      maxResults: Math.min(options.maxResults - ids.length, 500),
+      q: options.query,
+      pageToken,
+    });
+    for (const message of response.data.messages ?? []) {
+      if (message.id) ids.push(message.id);
+    }
+    pageToken = response.data.nextPageToken ?? undefined;
+  } while (pageToken && ids.length < options.maxResults);
+
+  // messages.list returns newest first; ingest in arrival order
+  return ids.reverse();
+}
+
+function formatGmailDate(date: Date): string {
+  return `${date.getUTCFullYear()}/${date.getUTCMonth() + 1}/${date.getUTCDate()}`;
+}
+
+/**
+ * Fetches what changed in a mailbox since the stored history cursor, or lists
+ * messages for a full resync/backfill. The history id is read from the profile
+ * before listing so nothing that arrives mid-sync is skipped next run.
+ */
+export async function fetchGmailChanges(
+  gmail: gmail_v1.Gmail,
+  state: GmailSyncStateRecord | null,
+  options: FetchGmailChangesOptions
+): Promise<GmailChangeSet> {
+  const mode = planGmailSync(state, options.backfillDays);
+
+  if (mode === "incremental" && state?.historyId) {
+    try {
+      const history: gmail_v1.Schema$History[] = [];
+      let pageToken: string | undefined;
+      let historyId: string | null = state.historyId;
+
+      do {
+        const response = await gmail.users.history.list({
+          userId: "me",
+          startHistoryId: state.historyId,
+          historyTypes: HISTORY_TYPES,
+          maxResults: 500,
+          pageToken,
+        });
+        history.push(...(response.data.history ?? []));
+        historyId = response.data.historyId ?? historyId;
+        pageToken = response.data.nextPageToken ?? undefined;
+      } while (pageToken);
+
+      return { mode, historyId, ...collectGmailHistoryChanges(history) };
+    } catch (err) {
+      if (!isGmailNotFound(err)) {
+        throw err;
+      }
+      // History ids expire after about a week; start over from a full resync
+      return fetchGmailChanges(gmail, { ...state, historyId: null }, options);
+    }
+  }
+
+  const profile = await gmail.users.getProfile({ userId: "me" });
+  const historyId = profile.data.historyId ?? null;
+
+  if (mode === "backfill" && options.backfillDays) {
+    const now = options.now ?? new Date();
+    const since = new Date(now.getTime() - options.backfillDays * 24 * 60 * 60 * 1000);
+    const messageIds = await listMessageIds(gmail, {
+      maxResults: options.maxBackfillMessages ?? DEFAULT_MAX_BACKFILL_MESSAGES,
+      query: `after:${formatGmailDate(since)}`,
+    });
+    return { mode, historyId, messageIds, labelChanges: new Map() };
+  }
+
+  const messageIds = await listMessageIds(gmail, { maxResults: options.maxEmails });
+  return { mode: "full", historyId, messageIds, labelChanges: new Map() };
+}
+
+/**
+ * Writes read-state and Kazador label changes made in Gmail back to stored
+ * emails. Messages Kazador has never ingested are ignored. Returns the number
+ * of emails updated.
+ */
+export async function applyGmailLabelChanges(
+  supabase: SupabaseDb,
+  userId: string,
+  labelChanges: Map<string, GmailLabelChange>,
+  labelNamesById: Map<string, string>
+): Promise<number> {
+  if (labelChanges.size === 0) {
+    return 0;
+  }
+
+  const { data, error } = await supabase
+    .from("emails")
+    .select("id, labels, is_read")
+    .eq("user_id", userId)
+    .in("id", Array.from(labelChanges.keys()));
+
+  if (error) {
+    console.error(`Failed to load emails for Gmail label changes`, error);
+    return 0;
+  }
+
+  let updated = 0;
+  for (const row of data ?? []) {
+    const change = labelChanges.get(row.id as string);
+    if (!change) continue;
+
+    const next = applyGmailLabelChange(
+      { labels: normaliseLabels(row.labels), isRead: Boolean(row.is_read) },
+      change,
+      labelNamesById
+    );
+    if (!next) continue;
+
+    const { error: updateError } = await supabase
+      .from("emails")
+      .update({ labels: next.labels, category: next.category, is_read: next.isRead })
+      .eq("id", row.id)
+      .eq("user_id", userId);
+
+    if (updateError) {
+      console.error(`Failed to apply Gmail label changes to email ${row.id}`, updateError);
+      continue;
+    }
+    updated += 1;
+  }
+
+  return updated;
+}
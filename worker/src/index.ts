@@ -11,19 +11,50 @@ import {
   selectPrimaryCategory,
   heuristicLabels,
   calculateEmailInboxPriority,
+  createLlmProvider,
+  createLlmUsageTracker,
+  resolveLlmProviderConfig,
+  type LlmProvider,
   DEFAULT_PRIORITY_CONFIG,
-  normalizePriorityConfigInput,
+  resolveStoredPriorityConfig,
+  normalizeMessageId,
+  parseMessageIdList,
+  buildContactIngestRow,
+  deriveOrganisationName,
+  extractEmailDomain,
+  isPersonalEmailDomain,
+  type ContactIngestInput,
   type EmailTriageState,
   type PriorityConfig,
   type PriorityConfigInput,
+  type AutomationRule,
+  type LabelCorrectionExample,
   type ProjectAssignmentRule,
 } from "@kazador/shared";
 import { classifyEmail } from "./classifyEmail.js";
+import { loadActiveClassificationPrompt, type ActiveClassificationPrompt } from "./classificationPrompt.js";
+import { loadLabelCorrectionExamplesForUser } from "./labelCorrections.js";
+import { extractAndStoreBookingOffer } from "./bookingOffers.js";
 import {
   applyProjectAssignmentRules,
   loadProjectAssignmentRulesForUser,
   loadProjectRuleOverridesForUser,
 } from "./projectRuleEngine.js";
+import { loadAutomationRulesForUser, loadEmailProjectIds, runAutomationRules } from "./automationEngine.js";
+import {
+  applyAccountDefaultProject,
+  loadGmailAccounts,
+  recordGmailSyncResult,
+  type GmailAccount,
+} from "./gmailAccounts.js";
+import {
+  applyGmailLabelChanges,
+  fetchGmailChanges,
+  isGmailNotFound,
+  loadGmailSyncState,
+  mergeRetryMessageIds,
+  saveGmailSyncState,
+} from "./gmailSync.js";
 
 function decodeBase64Url(data: string): string {
   const normalized = data.replace(/-/g, "+").replace(/_/g, "/");
@@ -90,69 +121,14 @@ function parseFromHeader(from: string): { name: string | null; email: string } {
   return { name, email };
 }
 
-const GMAIL_REQUIRED_SCOPES = [
-  "https://www.googleapis.com/auth/gmail.readonly",
-  "https://www.googleapis.com/auth/gmail.modify",
-  "https://www.googleapis.com/auth/gmail.labels",
-];
-
 type SupabaseDb = SupabaseClient<any, any, any>;
 
-interface GmailAccount {
-  id: string;
-  userId: string;
-  email: string | null;
-  refreshToken: string;
-}
-
 interface GmailCredentials {
   clientId: string;
   clientSecret: string;
   redirectUri?: string;
 }
 
-function hasAllGmailScopes(scopes: unknown): boolean {
-  if (!Array.isArray(scopes)) {
-    return false;
-  }
-  return GMAIL_REQUIRED_SCOPES.every((scope) => scopes.includes(scope));
-}
-
-async function loadGmailAccounts(supabase: SupabaseDb): Promise<GmailAccount[]> {
-  const { data, error } = await supabase
-    .from("oauth_accounts")
-    .select("id, user_id, account_email, refresh_token, scopes")
-    .eq("provider", "google")
-    .not("refresh_token", "is", null);
-
-  if (error) {
-    console.error("Failed to load Gmail OAuth accounts", error);
-    return [];
-  }
-
-  const accounts: GmailAccount[] = [];
-  for (const row of data ?? []) {
-    const refreshToken = typeof row.refresh_token === "string" ? row.refresh_token : null;
-    const userId = typeof row.user_id === "string" ? row.user_id : null;
-    if (!refreshToken || !userId) {
-      continue;
-    }
-
-    if (!hasAllGmailScopes(row.scopes)) {
-      continue;
-    }
-
-    accounts.push({
-      id: String(row.id),
-      userId,
-      email: typeof row.account_email === "string" ? row.account_email : null,
-      refreshToken,
-    });
-  }
-
-  return accounts;
-}
-
 async function fetchUserPriorityConfig(
   supabase: SupabaseDb,
   cache: Map<string, PriorityConfig>,
@@ -176,7 +152,7 @@ async function fetchUserPriorityConfig(
 
   try {
     const stored = (data?.priority_config as PriorityConfigInput | null) ?? null;
-    const config = normalizePriorityConfigInput(stored, DEFAULT_PRIORITY_CONFIG);
+    const config = resolveStoredPriorityConfig(stored);
     cache.set(userId, config);
     return config;
   } catch (err) {
@@ -186,6 +162,64 @@ async function fetchUserPriorityConfig(
   }
 }
 
+async function ensureOrganisation(supabase: SupabaseDb, userId: string, email: string): Promise<string | null> {
+  const domain = extractEmailDomain(email);
+  if (!domain || isPersonalEmailDomain(domain)) {
+    return null;
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("organisations")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("domain", domain)
+    .maybeSingle();
+
+  if (existingError) {
+    console.error(`Failed to read organisation for ${domain}`, existingError);
+    return null;
+  }
+  if (existing?.id) {
+    return existing.id as string;
+  }
+
+  const { data, error } = await supabase
+    .from("organisations")
+    .insert({ user_id: userId, domain, name: deriveOrganisationName(domain) })
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Failed to create organisation for ${domain}`, error);
+    return null;
+  }
+
+  return (data?.id as string | undefined) ?? null;
+}
+
+async function upsertContactFromEmail(supabase: SupabaseDb, input: ContactIngestInput): Promise<void> {
+  const { data: existing, error: existingError } = await supabase
+    .from("contacts")
+    .select("name, phone, company, role, interaction_counts, last_email_at, organisation_id")
+    .eq("user_id", input.userId)
+    .eq("email", input.fromEmail)
+    .maybeSingle();
+
+  if (existingError) {
+    console.error(`Failed to read contact ${input.fromEmail}`, existingError);
+  }
+
+  const organisationId = existing?.organisation_id
+    ? null
+    : await ensureOrganisation(supabase, input.userId, input.fromEmail);
+  const row = buildContactIngestRow(input, existing ?? null, organisationId);
+
+  const { error } = await supabase.from("contacts").upsert(row, { onConflict: "user_id,email" });
+  if (error) {
+    console.error("Failed to upsert contact:", error);
+  }
+}
+
 function createGmailClient(account: GmailAccount, credentials: GmailCredentials) {
   const oauth2Client = credentials.redirectUri
     ? new google.auth.OAuth2(credentials.clientId, credentials.clientSecret, credentials.redirectUri)
@@ -211,6 +245,15 @@ async function main() {
 
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
+  const llmUsage = createLlmUsageTracker();
+  let llmProvider: LlmProvider;
+  try {
+    llmProvider = createLlmProvider({ ...resolveLlmProviderConfig(), onUsage: llmUsage.record });
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+
   const credentials: GmailCredentials = {
     clientId: GOOGLE_CLIENT_ID,
     clientSecret: GOOGLE_CLIENT_SECRET,
@@ -225,30 +268,44 @@ async function main() {
   }
 
   const maxEmails = Number(process.env.MAX_EMAILS_TO_PROCESS || 10);
+  const backfillDays = Number(process.env.GMAIL_BACKFILL_DAYS) || null;
   const priorityConfigCache = new Map<string, PriorityConfig>();
   const projectRuleCache = new Map<string, { rules: ProjectAssignmentRule[]; overrides: Set<string> }>();
+  const automationRuleCache = new Map<string, AutomationRule[]>();
+  const correctionExampleCache = new Map<string, LabelCorrectionExample[]>();
+  const classificationPrompt = await loadActiveClassificationPrompt(supabase);
 
   try {
     for (const account of accounts) {
       try {
-        await processGmailAccount({
+        const messageCount = await processGmailAccount({
           account,
           credentials,
           supabase,
           maxEmails,
+          backfillDays,
           priorityConfigCache,
           projectRuleCache,
+          automationRuleCache,
+          correctionExampleCache,
+          classificationPrompt,
+          llmProvider,
         });
+        await recordGmailSyncResult(supabase, account.id, { ok: true, messageCount });
       } catch (accountError) {
         console.error(
           `Failed to process Gmail account ${account.email ?? account.userId}`,
           accountError
         );
+        const message = accountError instanceof Error ? accountError.message : String(accountError);
+        await recordGmailSyncResult(supabase, account.id, { ok: false, error: message });
       }
     }
   } catch (err) {
     console.error(err);
   }
+
+  console.log(`LLM usage (${llmProvider.name}/${llmProvider.model}):`, llmUsage.totals());
 }
 
 main().catch((e) => console.error(e));
@@ -257,24 +314,67 @@ interface ProcessGmailAccountOptions {
   account: GmailAccount;
   credentials: GmailCredentials;
   supabase: SupabaseDb;
+  /** Messages checked on a full resync, when there is no history cursor yet. */
   maxEmails: number;
+  /** Ingest the last N days once per account, e.g. after first connecting a mailbox. */
+  backfillDays: number | null;
   priorityConfigCache: Map<string, PriorityConfig>;
   projectRuleCache: Map<string, { rules: ProjectAssignmentRule[]; overrides: Set<string> }>;
+  automationRuleCache: Map<string, AutomationRule[]>;
+  /** The user's label corrections, shown to the classifier as few-shot examples. */
+  correctionExampleCache: Map<string, LabelCorrectionExample[]>;
+  classificationPrompt: ActiveClassificationPrompt | null;
+  llmProvider: LlmProvider;
 }
 
-async function processGmailAccount(options: ProcessGmailAccountOptions): Promise<void> {
-  const { account, credentials, supabase, maxEmails, priorityConfigCache, projectRuleCache } = options;
+/**
+ * Syncs one mailbox from its stored Gmail history cursor and returns how many
+ * messages were ingested.
+ */
+async function processGmailAccount(options: ProcessGmailAccountOptions): Promise<number> {
+  const {
+    account,
+    credentials,
+    supabase,
+    maxEmails,
+    backfillDays,
+    priorityConfigCache,
+    projectRuleCache,
+    automationRuleCache,
+    correctionExampleCache,
+    classificationPrompt,
+    llmProvider,
+  } = options;
   const gmail = createGmailClient(account, credentials);
 
-  const listRes = await gmail.users.messages.list({
-    userId: "me",
-    maxResults: maxEmails,
-  });
+  const syncState = await loadGmailSyncState(supabase, account.id);
+  let changes;
+  try {
+    changes = await fetchGmailChanges(gmail, syncState, { maxEmails, backfillDays });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    try {
+      await saveGmailSyncState(supabase, account.id, { historyId: syncState?.historyId ?? null, lastError: message });
+    } catch (stateError) {
+      console.error(`Failed to record Gmail sync error for ${account.email ?? account.userId}`, stateError);
+    }
+    throw err;
+  }
 
-  const messages = listRes.data.messages || [];
-  if (messages.length === 0) {
-    console.log(`No messages found for ${account.email ?? account.userId}.`);
-    return;
+  const messageIds = mergeRetryMessageIds(syncState?.failedMessageIds ?? [], changes.messageIds);
+  console.log(
+    `Gmail ${changes.mode} sync for ${account.email ?? account.userId}: ${changes.messageIds.length} new, ${messageIds.length - changes.messageIds.length} retried, ${changes.labelChanges.size} label changes`
+  );
+
+  if (messageIds.length === 0 && changes.labelChanges.size === 0) {
+    await saveGmailSyncState(supabase, account.id, {
+      historyId: changes.historyId,
+      mode: changes.mode,
+      backfillDays,
+      lastError: null,
+      failedMessageIds: [],
+    });
+    return 0;
   }
 
   let ruleBundle = projectRuleCache.get(account.userId);
@@ -287,6 +387,18 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
     projectRuleCache.set(account.userId, ruleBundle);
   }
 
+  let automationRules = automationRuleCache.get(account.userId);
+  if (!automationRules) {
+    automationRules = await loadAutomationRulesForUser(supabase, account.userId);
+    automationRuleCache.set(account.userId, automationRules);
+  }
+
+  let correctionExamples = correctionExampleCache.get(account.userId);
+  if (!correctionExamples) {
+    correctionExamples = await loadLabelCorrectionExamplesForUser(supabase, account.userId);
+    correctionExampleCache.set(account.userId, correctionExamples);
+  }
+
   const labelCache: Map<string, string> = new Map();
   let labelsLoaded = false;
 
@@ -352,12 +464,16 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
     return ids;
   };
 
-  for (const msg of messages.slice(0, maxEmails)) {
-    if (!msg.id) continue;
+  if (changes.labelChanges.size > 0) {
+    await loadLabels();
+    const labelNamesById = new Map(Array.from(labelCache, ([name, id]) => [id, name] as [string, string]));
+    await applyGmailLabelChanges(supabase, account.userId, changes.labelChanges, labelNamesById);
+  }
 
+  const ingestMessage = async (gmailMessageId: string) => {
     const msgRes = await gmail.users.messages.get({
       userId: "me",
-      id: msg.id,
+      id: gmailMessageId,
       format: "full",
     });
 
@@ -369,6 +485,10 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
     const subject = getHeader("Subject");
     const fromHeader = getHeader("From");
     const dateHeader = getHeader("Date");
+    const threadId = msgRes.data.threadId ?? null;
+    const messageId = normalizeMessageId(getHeader("Message-ID"));
+    const inReplyTo = normalizeMessageId(getHeader("In-Reply-To"));
+    const references = parseMessageIdList(getHeader("References"));
     const body = extractBody(payload) || msgRes.data.snippet || "";
     const hasAttachments = Array.isArray(payload?.parts)
       ? payload.parts.some((part) => Boolean(part?.filename))
@@ -383,12 +503,12 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
     const { data: existingEmail, error: existingEmailError } = await supabase
       .from("emails")
       .select("summary, labels, sentiment, triage_state, snoozed_until, is_read")
-      .eq("id", msg.id)
+      .eq("id", gmailMessageId)
       .eq("user_id", account.userId)
       .maybeSingle();
 
     if (existingEmailError) {
-      console.error(`Failed to read existing email ${msg.id}`, existingEmailError);
+      console.error(`Failed to read existing email ${gmailMessageId}`, existingEmailError);
     }
 
     const classification = await classifyEmail(
@@ -402,13 +522,15 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
         cachedSentiment: existingEmail?.sentiment ?? null,
       },
       {
-        analyzeEmail,
+        analyzeEmail: (input, analysisOptions) =>
+          analyzeEmail(input, { ...analysisOptions, provider: llmProvider, examples: correctionExamples }),
+        prompt: classificationPrompt,
         heuristicLabels,
         normaliseLabels,
         ensureDefaultLabelCoverage,
         selectPrimaryCategory,
         onError: (error) => {
-          console.error(`AI classification failed for message ${msg.id}`, error);
+          console.error(`AI classification failed for message ${gmailMessageId}`, error);
         },
       }
     );
@@ -418,26 +540,22 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
     const category = classification.category;
     const sentiment = classification.sentiment;
 
-    console.log(`[SENTIMENT DEBUG] Email ${msg.id}:`, {
+    console.log(`[SENTIMENT DEBUG] Email ${gmailMessageId}:`, {
       sentiment,
       usedAi: classification.usedAi,
       usedCachedSummary: classification.usedCachedSummary,
     });
 
-    const { error: contactError } = await supabase
-      .from("contacts")
-      .upsert(
-        {
-          email: fromEmail,
-          name: fromName,
-          last_email_at: receivedAt,
-        },
-        { onConflict: "email" }
-      );
-
-    if (contactError) {
-      console.error("Failed to upsert contact:", contactError);
-    }
+    await upsertContactFromEmail(supabase, {
+      userId: account.userId,
+      fromEmail,
+      fromName,
+      receivedAt,
+      body,
+      category,
+      labels,
+      isNewMessage: !existingEmail,
+    });
 
     const priorityConfig = await fetchUserPriorityConfig(supabase, priorityConfigCache, account.userId);
 
@@ -461,7 +579,7 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
     );
 
     const payloadToUpsert: Record<string, any> = {
-      id: msg.id,
+      id: gmailMessageId,
       user_id: account.userId,
       from_name: fromName,
       from_email: fromEmail,
@@ -474,11 +592,20 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
       sentiment,
       source: "gmail",
       priority_score: priorityScore,
+      thread_id: threadId,
+      message_id: messageId,
+      in_reply_to: inReplyTo,
+      message_references: references.length > 0 ? references : null,
+      account_id: account.id,
+      account_email: account.email,
     };
 
     payloadToUpsert.triage_state = triageState;
+    if (classification.usedAi) {
+      payloadToUpsert.classification_prompt_version = classification.promptVersion;
+    }
 
-    console.log(`[SENTIMENT DEBUG] Upserting payload for ${msg.id}:`, {
+    console.log(`[SENTIMENT DEBUG] Upserting payload for ${gmailMessageId}:`, {
       sentiment: payloadToUpsert.sentiment,
       sentimentType: typeof payloadToUpsert.sentiment,
       sentimentJSON: JSON.stringify(payloadToUpsert.sentiment),
@@ -489,7 +616,7 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
       .upsert(payloadToUpsert, { onConflict: "id" });
 
     if (emailError) {
-      console.error("Failed to upsert email:", emailError);
+      throw new Error(`Failed to upsert email: ${emailError.message}`);
     }
 
     try {
@@ -497,12 +624,12 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
       if (addLabelIds.length > 0) {
         await gmail.users.messages.modify({
           userId: "me",
-          id: msg.id,
+          id: gmailMessageId,
           requestBody: { addLabelIds },
         });
       }
     } catch (err) {
-      console.error(`Failed to apply Gmail labels for message ${msg.id}`, err);
+      console.error(`Failed to apply Gmail labels for message ${gmailMessageId}`, err);
     }
 
     try {
@@ -510,7 +637,7 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
         supabase,
         account.userId,
         {
-          id: msg.id,
+          id: gmailMessageId,
           subject,
           fromName,
           fromEmail,
@@ -531,8 +658,83 @@ async function processGmailAccount(options: ProcessGmailAccountOptions): Promise
       console.error("Failed to apply project assignment rules", err);
     }
 
+    // Mail to shared mailboxes (bookings@, info@) can fall back to the account's project
+    if (!existingEmail) {
+      await applyAccountDefaultProject(supabase, account, gmailMessageId);
+    }
+
+    // Offers and holds get a structured record once project links are settled
+    if (!existingEmail) {
+      await extractAndStoreBookingOffer(supabase, llmProvider, {
+        emailId: gmailMessageId,
+        userId: account.userId,
+        labels,
+        email: { subject, body, fromName, fromEmail },
+      });
+    }
+
+    // Automation rules only fire the first time a message is ingested; a full
+    // resync or backfill revisits messages that are already stored.
+    if (!existingEmail && automationRules.length > 0) {
+      try {
+        const projectIds = await loadEmailProjectIds(supabase, gmailMessageId);
+        await runAutomationRules(
+          supabase,
+          account.userId,
+          {
+            type: "email_received",
+            email: {
+              id: gmailMessageId,
+              subject,
+              fromName,
+              fromEmail,
+              category,
+              labels,
+              summary,
+              priorityScore,
+              triageState,
+              receivedAt,
+              hasAttachments,
+              projectIds,
+            },
+          },
+          automationRules
+        );
+      } catch (err) {
+        console.error(`Failed to run automation rules for message ${gmailMessageId}`, err);
+      }
+    }
+
     console.log(
-      `Processed message ${msg.id} for ${account.email ?? account.userId} -> ${category} (${labels.join(", ")}) priority=${priorityScore}`
+      `Processed message ${gmailMessageId} for ${account.email ?? account.userId} -> ${category} (${labels.join(", ")}) priority=${priorityScore}`
     );
+  };
+
+  // One bad message must not hold back the cursor: deleted messages are
+  // skipped and anything else is kept for the next poll to retry.
+  const failedMessageIds: string[] = [];
+  let processed = 0;
+  for (const gmailMessageId of messageIds) {
+    try {
+      await ingestMessage(gmailMessageId);
+      processed += 1;
+    } catch (err) {
+      if (isGmailNotFound(err)) {
+        console.warn(`Skipping Gmail message ${gmailMessageId}: no longer exists`);
+        continue;
+      }
+      console.error(`Failed to ingest Gmail message ${gmailMessageId}`, err);
+      failedMessageIds.push(gmailMessageId);
+    }
   }
+
+  await saveGmailSyncState(supabase, account.id, {
+    historyId: changes.historyId,
+    mode: changes.mode,
+    backfillDays,
+    lastError: failedMessageIds.length > 0 ? `${failedMessageIds.length} message(s) failed to sync` : null,
+    failedMessageIds,
+  });
+
+  return processed;
 }
@@ -0,0 +1,50 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  normaliseLabels,
+  selectCorrectionExamples,
+  type EmailLabelCorrectionRecord,
+  type LabelCorrectionExample,
+} from "@kazador/shared";
+
+type SupabaseDb = SupabaseClient<any, any, any>;
+
+const EXAMPLE_CORRECTION_WINDOW = 50;
+
+/**
+ * Loads the user's best recent label corrections as few-shot examples for
+ * classification. Returns an empty list when they cannot be read so ingestion
+ * carries on with the plain prompt.
+ */
+export async function loadLabelCorrectionExamplesForUser(
+  supabase: SupabaseDb,
+  userId: string
+): Promise<LabelCorrectionExample[]> {
+  const { data, error } = await supabase
+    .from("email_label_corrections")
+    .select("id, email_id, user_id, original_labels, corrected_labels, subject, summary, from_email, created_at")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(EXAMPLE_CORRECTION_WINDOW);
+
+  if (error) {
+    console.error(`Failed to load label corrections for user ${userId}`, error);
+    return [];
+  }
+
+  const corrections: EmailLabelCorrectionRecord[] = (data ?? []).map((row: Record<string, any>) => ({
+    id: row.id,
+    emailId: row.email_id ?? null,
+    userId: row.user_id,
+    originalLabels: normaliseLabels(row.original_labels),
+    correctedLabels: normaliseLabels(row.corrected_labels),
+    originalCategory: null,
+    correctedCategory: null,
+    classificationPromptVersion: null,
+    subject: row.subject ?? null,
+    summary: row.summary ?? null,
+    fromEmail: row.from_email ?? null,
+    createdAt: row.created_at,
+  }));
+
+  return selectCorrectionExamples(corrections);
+}
@@ -14,6 +14,7 @@ import {
   calculateEmailInboxPriority,
   DEFAULT_PRIORITY_CONFIG,
   normalizePriorityConfigInput,
+  resolveStoredPriorityConfig,
   type PriorityConfig,
   type PriorityConfigInput,
 } from "@kazador/shared";
@@ -52,9 +53,7 @@ async function loadUserPriorityConfig(client: SupabaseClient, userId: string): P
   }
 
   const overrides = data?.priority_config ? (data.priority_config as PriorityConfigInput) : null;
-  const config = overrides
-    ? normalizePriorityConfigInput(overrides, DEFAULT_PRIORITY_CONFIG)
-    : DEFAULT_PRIORITY_CONFIG;
+  const config = overrides ? resolveStoredPriorityConfig(overrides) : DEFAULT_PRIORITY_CONFIG;
   userPriorityConfigCache.set(userId, config);
   return config;
 }
@@ -112,6 +111,8 @@ function mapProjectRow(row: any): ProjectRecord {
     color: (row.color as string) ?? null,
     labels: parseJson(row.labels),
     priorityProfile: row.priority_profile ?? null,
+    templateId: (row.template_id as string) ?? null,
+    templateVersion: row.template_version != null ? Number(row.template_version) : null,
     createdBy: (row.created_by as string) ?? null,
     createdAt: String(row.created_at),
     updatedAt: String(row.updated_at),
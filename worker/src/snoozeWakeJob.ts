@@ -0,0 +1,213 @@
+import { config } from "dotenv";
+config();
+
+import { fileURLToPath } from "node:url";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_PRIORITY_CONFIG,
+  ensureDefaultLabelCoverage,
+  normaliseLabel,
+  normaliseLabels,
+  resolveStoredPriorityConfig,
+  planSnoozeWake,
+  type PriorityConfig,
+  type PriorityConfigInput,
+} from "@kazador/shared";
+
+type ServiceClient = SupabaseClient<any, any, any>;
+
+const WAKE_BATCH_SIZE = 200;
+
+interface SnoozedEmailRow {
+  id: string;
+  user_id: string | null;
+  category: string | null;
+  labels: unknown;
+  subject: string | null;
+  from_name: string | null;
+  from_email: string | null;
+  received_at: string | null;
+  is_read: boolean | null;
+  snoozed_until: string | null;
+  snoozed_from_state: string | null;
+  priority_score: number | null;
+}
+
+async function getClient(): Promise<ServiceClient> {
+  const url = process.env.SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for the snooze wake job");
+  }
+  return createClient(url, serviceKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+}
+
+async function loadPriorityConfig(
+  client: ServiceClient,
+  cache: Map<string, PriorityConfig>,
+  userId: string
+): Promise<PriorityConfig> {
+  const cached = cache.get(userId);
+  if (cached) return cached;
+
+  const { data, error } = await client
+    .from("user_preferences")
+    .select("priority_config")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  let priorityConfig = DEFAULT_PRIORITY_CONFIG;
+  if (error) {
+    console.warn(`[snooze] Failed to load priority config for user ${userId}`, error);
+  } else if (data?.priority_config) {
+    try {
+      priorityConfig = resolveStoredPriorityConfig(data.priority_config as PriorityConfigInput);
+    } catch (err) {
+      console.warn(`[snooze] Invalid priority config for user ${userId}`, err);
+    }
+  }
+
+  cache.set(userId, priorityConfig);
+  return priorityConfig;
+}
+
+async function hasAttachments(client: ServiceClient, emailId: string): Promise<boolean> {
+  const { count, error } = await client
+    .from("email_attachments")
+    .select("id", { count: "exact", head: true })
+    .eq("email_id", emailId);
+  if (error) return false;
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Returns expired snoozes to the inbox. Each woken email gets its prior
+ * triage state back, a recalculated priority and an audit log entry; the
+ * digest job picks up `snooze_woken_at` to list them in the next digest.
+ */
+async function wakeExpiredSnoozes(now: Date = new Date()): Promise<number> {
+  const client = await getClient();
+  const priorityConfigs = new Map<string, PriorityConfig>();
+  const failedIds = new Set<string>();
+  let woken = 0;
+
+  for (;;) {
+    let query = client
+      .from("emails")
+      .select(
+        "id, user_id, category, labels, subject, from_name, from_email, received_at, is_read, snoozed_until, snoozed_from_state, priority_score"
+      )
+      .eq("triage_state", "snoozed")
+      .lte("snoozed_until", now.toISOString())
+      .order("snoozed_until", { ascending: true })
+      .limit(WAKE_BATCH_SIZE);
+
+    if (failedIds.size > 0) {
+      query = query.not("id", "in", `(${Array.from(failedIds).join(",")})`);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const rows = (data as SnoozedEmailRow[] | null) ?? [];
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const priorityConfig = row.user_id
+        ? await loadPriorityConfig(client, priorityConfigs, row.user_id)
+        : DEFAULT_PRIORITY_CONFIG;
+
+      const plan = planSnoozeWake(
+        {
+          category: normaliseLabel(row.category),
+          labels: ensureDefaultLabelCoverage(normaliseLabels(row.labels)),
+          receivedAt: row.received_at,
+          isRead: Boolean(row.is_read),
+          fromEmail: row.from_email,
+          fromName: row.from_name,
+          subject: row.subject,
+          hasAttachments: await hasAttachments(client, row.id),
+          previousState: row.snoozed_from_state,
+          priorityScore: row.priority_score,
+        },
+        { config: priorityConfig, now }
+      );
+
+      const { data: updatedRows, error: updateError } = await client
+        .from("emails")
+        .update({
+          triage_state: plan.triageState,
+          snoozed_until: null,
+          snoozed_from_state: null,
+          snooze_woken_at: now.toISOString(),
+          triaged_at: now.toISOString(),
+          priority_score: plan.priorityScore,
+        })
+        .eq("id", row.id)
+        .eq("triage_state", "snoozed")
+        .select("id");
+
+      if (updateError) {
+        console.error(`[snooze] Failed to wake email ${row.id}`, updateError);
+        failedIds.add(row.id);
+        continue;
+      }
+
+      // Someone triaged the email between the read and the update.
+      if (!updatedRows || updatedRows.length === 0) {
+        continue;
+      }
+
+      woken += 1;
+
+      const { error: auditError } = await client.from("audit_logs").insert({
+        project_id: null,
+        user_id: row.user_id,
+        action: "email.snooze_woken",
+        entity: "email",
+        ref_id: row.id,
+        metadata: {
+          snoozedUntil: row.snoozed_until,
+          triageState: plan.triageState,
+          previousPriorityScore: plan.previousPriorityScore,
+          priorityScore: plan.priorityScore,
+        },
+      });
+      if (auditError) {
+        console.warn(`[snooze] Failed to record audit entry for email ${row.id}`, auditError);
+      }
+    }
+
+    if (rows.length < WAKE_BATCH_SIZE) break;
+  }
+
+  return woken;
+}
+
+const isExecutedDirectly = (() => {
+  if (!process.argv[1]) return false;
+  try {
+    const current = fileURLToPath(import.meta.url);
+    return current === process.argv[1];
+  } catch (err) {
+    return false;
+  }
+})();
+
+if (isExecutedDirectly) {
+  wakeExpiredSnoozes()
+    .then((count) => {
+      console.log(`Snooze wake completed. Woke ${count} emails.`);
+    })
+    .catch((err) => {
+      console.error("Snooze wake failed", err);
+      process.exitCode = 1;
+    });
+}
+
+export { wakeExpiredSnoozes };